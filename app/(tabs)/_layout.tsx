@@ -8,6 +8,10 @@ import Colors from '@/constants/Colors';
 import { useColorScheme } from '@/components/useColorScheme';
 import { useClientOnlyValue } from '@/components/useClientOnlyValue';
 import { useAuth } from '@/src/contexts/AuthContext';
+import { ChangePasswordScreen } from '@/src/components/ChangePasswordScreen';
+import { TwoFactorSetupScreen } from '@/src/components/TwoFactorSetupScreen';
+import { RegisterLock } from '@/src/components/RegisterLock';
+import { canAccessRoute } from '@/src/utils/permissions';
 
 // You can explore the built-in icon families and icons on the web at https://icons.expo.fyi/
 function TabBarIcon(props: {
@@ -19,72 +23,111 @@ function TabBarIcon(props: {
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
-  const { logout, user } = useAuth();
+  const {
+    logout,
+    lockRegister,
+    user,
+    permissions,
+    mustChangePassword,
+    mustEnrollTwoFactor,
+    completeTwoFactorEnrollment,
+  } = useAuth();
+  const headerShown = useClientOnlyValue(false, true);
+
+  // Tabs the user may not open are left out of the tab bar
+  const tabHref = (route: string) => (canAccessRoute(route, permissions) ? undefined : null);
 
   const handleLogout = async () => {
     await logout();
   };
 
-  return (
-    <Tabs
-      screenOptions={{
-        tabBarActiveTintColor: Colors[colorScheme ?? 'light'].tint,
-        // Disable the static render of the header on web
-        // to prevent a hydration error in React Navigation v6.
-        headerShown: useClientOnlyValue(false, true),
-        headerRight: () => (
-          <TouchableOpacity
-            onPress={handleLogout}
-            style={{ marginRight: 16, padding: 8 }}
-          >
-            <Ionicons name="log-out-outline" size={24} color={Colors[colorScheme ?? 'light'].tint} />
-          </TouchableOpacity>
-        ),
-        headerTitle: () => (
-          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
-            <Text style={{ fontSize: 18, fontWeight: 'bold' }}>SalesMVP</Text>
-            {user && (
-              <Text style={{ fontSize: 12, marginLeft: 8, opacity: 0.7 }}>
-                ({user.firstName} - {user.role})
-              </Text>
-            )}
-          </View>
-        ),
-      }}>
-      <Tabs.Screen
-        name="index"
-        options={{
-          href: null, // Hide from tab bar
-        }}
-      />
-      <Tabs.Screen
-        name="pos"
-        options={{
-          title: 'POS',
-          tabBarIcon: ({ color }) => <TabBarIcon name="shopping-cart" color={color} />,
-        }}
-      />
-      <Tabs.Screen
-        name="inventory"
-        options={{
-          title: 'Inventory',
-          tabBarIcon: ({ color }) => <TabBarIcon name="archive" color={color} />,
-        }}
-      />
-      <Tabs.Screen
-        name="dashboard"
-        options={{
-          title: 'Dashboard',
-          tabBarIcon: ({ color }) => <TabBarIcon name="bar-chart" color={color} />,
-        }}
-      />
-      <Tabs.Screen
-        name="profile"
-        options={{
-          title: 'Profile',
-          tabBarIcon: ({ color }) => <TabBarIcon name="user" color={color} />,
-        }}
+  // Nothing else is reachable until a required password change is done
+  if (mustChangePassword) {
+    return <ChangePasswordScreen />;
+  }
+
+  // Roles that manage users or backups must set up two-factor first
+  if (mustEnrollTwoFactor) {
+    return (
+      <TwoFactorSetupScreen
+        required
+        onComplete={completeTwoFactorEnrollment}
+        onCancel={handleLogout}
+        cancelLabel="Sign Out"
       />
-    </Tabs>
+    );
+  }
+
+  return (
+    <RegisterLock>
+      <Tabs
+        screenOptions={{
+          tabBarActiveTintColor: Colors[colorScheme ?? 'light'].tint,
+          // Disable the static render of the header on web
+          // to prevent a hydration error in React Navigation v6.
+          headerShown,
+          headerRight: () => (
+            <View style={{ flexDirection: 'row', marginRight: 8 }}>
+              <TouchableOpacity onPress={lockRegister} style={{ padding: 8 }}>
+                <Ionicons name="lock-closed-outline" size={24} color={Colors[colorScheme ?? 'light'].tint} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleLogout}
+                style={{ padding: 8 }}
+              >
+                <Ionicons name="log-out-outline" size={24} color={Colors[colorScheme ?? 'light'].tint} />
+              </TouchableOpacity>
+            </View>
+          ),
+          headerTitle: () => (
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <Text style={{ fontSize: 18, fontWeight: 'bold' }}>SalesMVP</Text>
+              {user && (
+                <Text style={{ fontSize: 12, marginLeft: 8, opacity: 0.7 }}>
+                  ({user.firstName} - {user.role})
+                </Text>
+              )}
+            </View>
+          ),
+        }}>
+        <Tabs.Screen
+          name="index"
+          options={{
+            href: null, // Hide from tab bar
+          }}
+        />
+        <Tabs.Screen
+          name="pos"
+          options={{
+            href: tabHref('pos'),
+            title: 'POS',
+            tabBarIcon: ({ color }) => <TabBarIcon name="shopping-cart" color={color} />,
+          }}
+        />
+        <Tabs.Screen
+          name="inventory"
+          options={{
+            href: tabHref('inventory'),
+            title: 'Inventory',
+            tabBarIcon: ({ color }) => <TabBarIcon name="archive" color={color} />,
+          }}
+        />
+        <Tabs.Screen
+          name="dashboard"
+          options={{
+            href: tabHref('dashboard'),
+            title: 'Dashboard',
+            tabBarIcon: ({ color }) => <TabBarIcon name="bar-chart" color={color} />,
+          }}
+        />
+        <Tabs.Screen
+          name="profile"
+          options={{
+            title: 'Profile',
+            tabBarIcon: ({ color }) => <TabBarIcon name="user" color={color} />,
+          }}
+        />
+      </Tabs>
+    </RegisterLock>
   );
 }
@@ -13,11 +13,13 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { format, startOfDay, endOfDay } from 'date-fns';
 import { router } from 'expo-router';
-import { database } from '../../src/stores/Database';
-import { Sale } from '../../src/types';
+import { salesService } from '../../src/services/SalesService';
+import { isRecordedTransaction } from '../../src/stores/TransactionLedger';
+import { RetailTransaction } from '../../src/types';
 import { modernTheme, getTypography, getSpacing } from '../../src/styles/modern-theme';
 import { MetricCard } from '../../src/components/ui/ModernCard';
 import { ModernButton } from '../../src/components/ui/ModernButton';
+import { RequirePermission } from '../../src/contexts/AuthContext';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -29,31 +31,31 @@ interface SalesSummary {
 }
 
 interface RecentSaleItemProps {
-  sale: Sale;
+  sale: RetailTransaction;
   onPress?: () => void;
 }
 
 const RecentSaleItem: React.FC<RecentSaleItemProps> = ({ sale, onPress }) => {
-  const getStatusColor = (status: Sale['status']): string => {
+  const getStatusColor = (status: RetailTransaction['status']): string => {
     switch (status) {
       case 'completed':
         return modernTheme.colors.success[500];
-      case 'pending':
+      case 'returned':
         return modernTheme.colors.warning[500];
-      case 'cancelled':
+      case 'voided':
         return modernTheme.colors.error[500];
       default:
         return modernTheme.colors.neutral[500];
     }
   };
 
-  const getStatusIcon = (status: Sale['status']): keyof typeof Ionicons.glyphMap => {
+  const getStatusIcon = (status: RetailTransaction['status']): keyof typeof Ionicons.glyphMap => {
     switch (status) {
       case 'completed':
         return 'checkmark-circle';
-      case 'pending':
-        return 'time';
-      case 'cancelled':
+      case 'returned':
+        return 'return-down-back';
+      case 'voided':
         return 'close-circle';
       default:
         return 'help-circle';
@@ -79,10 +81,10 @@ const RecentSaleItem: React.FC<RecentSaleItemProps> = ({ sale, onPress }) => {
         <Text style={styles.saleTime}>
           {format(new Date(sale.timestamp), 'MMM d, h:mm a')}
         </Text>
-        <Text style={styles.saleTax}>Tax: ${sale.tax_total.toFixed(2)}</Text>
+        <Text style={styles.saleTax}>Tax: ${sale.totals.taxTotal.toFixed(2)}</Text>
       </View>
       <View style={styles.saleAmounts}>
-        <Text style={styles.saleTotal}>${sale.total.toFixed(2)}</Text>
+        <Text style={styles.saleTotal}>${sale.totals.grandTotal.toFixed(2)}</Text>
       </View>
     </View>
   );
@@ -95,7 +97,7 @@ export default function DashboardScreen() {
     averageTransaction: 0,
     transactionCount: 0,
   });
-  const [recentSales, setRecentSales] = useState<Sale[]>([]);
+  const [recentSales, setRecentSales] = useState<RetailTransaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -104,22 +106,21 @@ export default function DashboardScreen() {
     try {
       setError(null);
       
-      // Check if database is initialized
-      if (!database.isInitialized()) {
-        console.log('Database not initialized, initializing now...');
-        await database.initialize();
-        console.log('Database initialized successfully');
-      }
-      
-      // Get today's date in YYYY-MM-DD format
-      const today = format(new Date(), 'yyyy-MM-dd');
-      
-      // Get today's sales summary using the optimized method
-      const summary = await database.getSalesSummaryByDate(today);
-      setSalesSummary(summary);
-      
+      // Completed sales and returns only; voided sales never count
+      const now = new Date();
+      const today = (await salesService.getTransactions({ startDate: startOfDay(now), endDate: endOfDay(now) }))
+        .filter(isRecordedTransaction);
+      const completed = today.filter(sale => sale.status === 'completed');
+      const totalRevenue = today.reduce((sum, sale) => sum + sale.totals.grandTotal, 0);
+      setSalesSummary({
+        totalSales: today.length,
+        totalRevenue,
+        averageTransaction: completed.length > 0 ? totalRevenue / completed.length : 0,
+        transactionCount: completed.length,
+      });
+
       // Get recent sales (last 10)
-      const allSales = await database.getAllSales();
+      const allSales = (await salesService.getTransactions()).filter(isRecordedTransaction);
       setRecentSales(allSales.slice(0, 10));
       
     } catch (err) {
@@ -144,13 +145,13 @@ export default function DashboardScreen() {
       // Create CSV content for today's sales
       const csvHeader = 'Sale ID,Date,Status,Total,Tax,Items\n';
       const csvRows = recentSales.map(sale => 
-        `${sale.id},${format(new Date(sale.timestamp), 'yyyy-MM-dd HH:mm:ss')},${sale.status},${sale.total},${sale.tax_total},0`
+        `${sale.id},${format(new Date(sale.timestamp), 'yyyy-MM-dd HH:mm:ss')},${sale.status},${sale.totals.grandTotal},${sale.totals.taxTotal},0`
       ).join('\n');
       const csvContent = csvHeader + csvRows;
 
       Alert.alert(
         'Export Data',
-        `Today's sales data exported successfully!\n\nTotal sales: ${recentSales.length}\nTotal revenue: $${recentSales.reduce((sum, sale) => sum + sale.total, 0).toFixed(2)}`,
+        `Today's sales data exported successfully!\n\nTotal sales: ${recentSales.length}\nTotal revenue: $${recentSales.reduce((sum, sale) => sum + sale.totals.grandTotal, 0).toFixed(2)}`,
         [{ text: 'OK' }]
       );
     } catch (error) {
@@ -205,20 +206,22 @@ export default function DashboardScreen() {
             <Text style={styles.subtitle}>Today's Sales Summary</Text>
             <Text style={styles.date}>{format(new Date(), 'EEEE, MMMM d, yyyy')}</Text>
           </View>
-          <ModernButton
-            title={screenWidth < 768 ? "" : "Export"}
-            onPress={handleExportData}
-            variant="outline"
-            size="sm"
-            icon={
-              <Ionicons
-                name="download-outline"
-                size={20}
-                color={modernTheme.colors.primary[500]}
-              />
-            }
-            iconPosition={screenWidth < 768 ? "center" : "left"}
-          />
+          <RequirePermission permission="canExportData">
+            <ModernButton
+              title={screenWidth < 768 ? "" : "Export"}
+              onPress={handleExportData}
+              variant="outline"
+              size="sm"
+              icon={
+                <Ionicons
+                  name="download-outline"
+                  size={20}
+                  color={modernTheme.colors.primary[500]}
+                />
+              }
+              iconPosition={screenWidth < 768 ? "center" : "left"}
+            />
+          </RequirePermission>
         </View>
 
         {error && (
@@ -335,36 +338,40 @@ export default function DashboardScreen() {
         <View style={styles.quickActionsContainer}>
           <Text style={styles.sectionTitle}>Quick Actions</Text>
           <View style={styles.quickActionsGrid}>
-            <ModernButton
-              title="New Sale"
-              onPress={handleNewSale}
-              variant="primary"
-              size="md"
-              icon={
-                <Ionicons
-                  name="add-circle-outline"
-                  size={20}
-                  color={modernTheme.colors.text.inverse}
-                />
-              }
-              iconPosition="left"
-              style={styles.quickActionButton}
-            />
-            <ModernButton
-              title="Inventory"
-              onPress={handleInventory}
-              variant="outline"
-              size="md"
-              icon={
-                <Ionicons
-                  name="cube-outline"
-                  size={20}
-                  color={modernTheme.colors.primary[500]}
-                />
-              }
-              iconPosition="left"
-              style={styles.quickActionButton}
-            />
+            <RequirePermission permission="canProcessSales">
+              <ModernButton
+                title="New Sale"
+                onPress={handleNewSale}
+                variant="primary"
+                size="md"
+                icon={
+                  <Ionicons
+                    name="add-circle-outline"
+                    size={20}
+                    color={modernTheme.colors.text.inverse}
+                  />
+                }
+                iconPosition="left"
+                style={styles.quickActionButton}
+              />
+            </RequirePermission>
+            <RequirePermission permission="canViewInventory">
+              <ModernButton
+                title="Inventory"
+                onPress={handleInventory}
+                variant="outline"
+                size="md"
+                icon={
+                  <Ionicons
+                    name="cube-outline"
+                    size={20}
+                    color={modernTheme.colors.primary[500]}
+                  />
+                }
+                iconPosition="left"
+                style={styles.quickActionButton}
+              />
+            </RequirePermission>
           </View>
         </View>
       </ScrollView>
@@ -1,5 +1,8 @@
-import { Redirect } from 'expo-router';
+import { Href, Redirect } from 'expo-router';
+import { useAuth } from '@/src/contexts/AuthContext';
+import { getHomeRoute } from '@/src/utils/permissions';
 
 export default function TabsIndex() {
-  return <Redirect href="/(tabs)/pos" />;
+  const { permissions } = useAuth();
+  return <Redirect href={`/(tabs)/${getHomeRoute(permissions)}` as Href} />;
 }
@@ -13,6 +13,7 @@ import { useColorScheme } from '@/components/useColorScheme';
 import { AuthProvider } from '@/src/contexts/AuthContext';
 import { databaseInitService } from '@/src/services/DatabaseInitService';
 import { AuthScreen } from '@/src/components/AuthScreen';
+import { RouteGuard } from '@/src/components/RouteGuard';
 
 export {
   // Catch any errors thrown by the Layout component.
@@ -99,11 +100,13 @@ function RootLayoutNav() {
   return (
     <AuthProvider>
       <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-        <Stack>
-          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-          <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
-          <Stack.Screen name="auth" options={{ headerShown: false }} />
-        </Stack>
+        <RouteGuard>
+          <Stack>
+            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+            <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
+            <Stack.Screen name="auth" options={{ headerShown: false }} />
+          </Stack>
+        </RouteGuard>
       </ThemeProvider>
     </AuthProvider>
   );
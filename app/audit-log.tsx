@@ -0,0 +1,487 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  Share,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format, startOfDay, subDays } from 'date-fns';
+import { router } from 'expo-router';
+import { auditService, AuditExportFormat } from '../src/services/AuditService';
+import { authService } from '../src/services/AuthService';
+import { serializeAuditDetails } from '../src/stores/AuditChain';
+import { usePermission } from '../src/contexts/AuthContext';
+import { AuditChainVerification, AuditLog, AuditLogQuery, User } from '../src/types';
+import { modernTheme, getTypography, getSpacing } from '../src/styles/modern-theme';
+import { ModernButton } from '../src/components/ui/ModernButton';
+
+const PAGE_SIZE = 50;
+
+type DateRange = 'today' | '7d' | '30d' | 'all';
+
+const DATE_RANGES: { key: DateRange; label: string }[] = [
+  { key: 'today', label: 'Today' },
+  { key: '7d', label: '7 Days' },
+  { key: '30d', label: '30 Days' },
+  { key: 'all', label: 'All' },
+];
+
+const rangeStart = (range: DateRange): Date | undefined => {
+  switch (range) {
+    case 'today':
+      return startOfDay(new Date());
+    case '7d':
+      return startOfDay(subDays(new Date(), 6));
+    case '30d':
+      return startOfDay(subDays(new Date(), 29));
+    default:
+      return undefined;
+  }
+};
+
+interface AuditEntryItemProps {
+  entry: AuditLog;
+  userName?: string;
+}
+
+const AuditEntryItem: React.FC<AuditEntryItemProps> = ({ entry, userName }) => {
+  const [expanded, setExpanded] = useState(false);
+  const details = serializeAuditDetails(entry.details);
+
+  return (
+    <TouchableOpacity style={styles.entry} onPress={() => setExpanded(!expanded)}>
+      <View style={styles.entryHeader}>
+        <Text style={styles.entryAction}>{entry.action}</Text>
+        <Text style={styles.entrySequence}>#{entry.sequence ?? '—'}</Text>
+      </View>
+      <Text style={styles.entryMeta}>
+        {format(new Date(entry.timestamp), 'MMM d, yyyy h:mm:ss a')} · {entry.resource} · {userName || entry.userId || 'system'}
+      </Text>
+      {details !== '' && (
+        <Text style={styles.entryDetails} numberOfLines={expanded ? undefined : 2}>
+          {details}
+        </Text>
+      )}
+      {expanded && <Text style={styles.entryHash}>hash {entry.hash || 'unsealed'}</Text>}
+    </TouchableOpacity>
+  );
+};
+
+export default function AuditLogScreen() {
+  const canExport = usePermission('canExportData');
+  const [entries, setEntries] = useState<AuditLog[]>([]);
+  const [total, setTotal] = useState(0);
+  const [users, setUsers] = useState<User[]>([]);
+  const [page, setPage] = useState(0);
+  const [userId, setUserId] = useState<string | undefined>(undefined);
+  const [action, setAction] = useState('');
+  const [resource, setResource] = useState('');
+  const [range, setRange] = useState<DateRange>('7d');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const buildQuery = useCallback((): AuditLogQuery => ({
+    userId,
+    action: action.trim() || undefined,
+    resource: resource.trim() || undefined,
+    from: rangeStart(range),
+  }), [userId, action, resource, range]);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setError(null);
+      const result = await auditService.queryLogs({ ...buildQuery(), limit: PAGE_SIZE, offset: page * PAGE_SIZE });
+      setEntries(result.entries);
+      setTotal(result.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit logs');
+    }
+  }, [buildQuery, page]);
+
+  useEffect(() => {
+    authService.getAllUsers().then(setUsers).catch(err => console.error('Failed to load users:', err));
+  }, []);
+
+  useEffect(() => {
+    loadEntries().finally(() => setLoading(false));
+  }, [loadEntries]);
+
+  // Filters start again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [userId, action, resource, range]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadEntries();
+    setRefreshing(false);
+  };
+
+  const handleVerify = async () => {
+    setWorking(true);
+    try {
+      const result = await auditService.verifyChain();
+      setVerification(result);
+      await loadEntries();
+    } catch (err) {
+      Alert.alert('Verification Failed', err instanceof Error ? err.message : 'Failed to verify audit log');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleExport = async (exportFormat: AuditExportFormat) => {
+    setWorking(true);
+    try {
+      const result = await auditService.exportLogs(buildQuery(), exportFormat);
+      await Share.share({ message: result.content, title: result.filename });
+    } catch (err) {
+      Alert.alert('Export Failed', err instanceof Error ? err.message : 'Failed to export audit logs');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const userNames = new Map(users.map(user => [user.id, `${user.firstName} ${user.lastName}`]));
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={modernTheme.colors.primary[500]} />
+        <Text style={styles.loadingText}>Loading audit log...</Text>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={24} color={modernTheme.colors.text.primary} />
+          </TouchableOpacity>
+          <Text style={styles.title}>Audit Log</Text>
+        </View>
+        <ModernButton
+          title="Verify"
+          onPress={handleVerify}
+          variant="outline"
+          size="sm"
+          disabled={working}
+          icon={<Ionicons name="shield-checkmark-outline" size={20} color={modernTheme.colors.primary[500]} />}
+          iconPosition="left"
+        />
+      </View>
+
+      {verification && (
+        <View style={[styles.banner, verification.valid ? styles.bannerValid : styles.bannerInvalid]}>
+          <Ionicons
+            name={verification.valid ? 'checkmark-circle' : 'warning'}
+            size={24}
+            color={verification.valid ? modernTheme.colors.success[500] : modernTheme.colors.error[500]}
+          />
+          <Text style={styles.bannerText}>
+            {verification.valid
+              ? `All ${verification.checked} entries intact`
+              : `${verification.issues.length} problem(s): ` +
+                verification.issues
+                  .slice(0, 5)
+                  .map(issue => `#${issue.sequence} ${issue.problem.replace('_', ' ')}`)
+                  .join(', ')}
+          </Text>
+        </View>
+      )}
+
+      {error && (
+        <View style={[styles.banner, styles.bannerInvalid]}>
+          <Ionicons name="warning" size={24} color={modernTheme.colors.error[500]} />
+          <Text style={styles.bannerText}>{error}</Text>
+        </View>
+      )}
+
+      {/* Filters */}
+      <View style={styles.filters}>
+        <View style={styles.filterInputs}>
+          <TextInput
+            style={styles.filterInput}
+            placeholder="Action (e.g. sale_voided)"
+            value={action}
+            onChangeText={setAction}
+            autoCapitalize="none"
+            placeholderTextColor={modernTheme.colors.text.tertiary}
+          />
+          <TextInput
+            style={styles.filterInput}
+            placeholder="Resource (e.g. auth)"
+            value={resource}
+            onChangeText={setResource}
+            autoCapitalize="none"
+            placeholderTextColor={modernTheme.colors.text.tertiary}
+          />
+        </View>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {DATE_RANGES.map(option => (
+            <ModernButton
+              key={option.key}
+              title={option.label}
+              onPress={() => setRange(option.key)}
+              variant={range === option.key ? 'primary' : 'outline'}
+              size="sm"
+              style={styles.filterButton}
+            />
+          ))}
+        </ScrollView>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.userFilter}>
+          <ModernButton
+            title="All Users"
+            onPress={() => setUserId(undefined)}
+            variant={!userId ? 'primary' : 'outline'}
+            size="sm"
+            style={styles.filterButton}
+          />
+          {users.map(user => (
+            <ModernButton
+              key={user.id}
+              title={user.username}
+              onPress={() => setUserId(user.id)}
+              variant={userId === user.id ? 'primary' : 'outline'}
+              size="sm"
+              style={styles.filterButton}
+            />
+          ))}
+        </ScrollView>
+      </View>
+
+      <FlatList
+        data={entries}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => <AuditEntryItem entry={item} userName={userNames.get(item.userId)} />}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+        contentContainerStyle={styles.listContainer}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="document-text-outline" size={48} color={modernTheme.colors.text.tertiary} />
+            <Text style={styles.emptyStateText}>No audit entries match these filters</Text>
+          </View>
+        }
+      />
+
+      {/* Paging and export */}
+      <View style={styles.footer}>
+        <View style={styles.pager}>
+          <TouchableOpacity onPress={() => setPage(page - 1)} disabled={page === 0}>
+            <Ionicons
+              name="chevron-back"
+              size={24}
+              color={page === 0 ? modernTheme.colors.text.tertiary : modernTheme.colors.primary[500]}
+            />
+          </TouchableOpacity>
+          <Text style={styles.pageText}>
+            Page {page + 1} of {pageCount} · {total} entries
+          </Text>
+          <TouchableOpacity onPress={() => setPage(page + 1)} disabled={page + 1 >= pageCount}>
+            <Ionicons
+              name="chevron-forward"
+              size={24}
+              color={page + 1 >= pageCount ? modernTheme.colors.text.tertiary : modernTheme.colors.primary[500]}
+            />
+          </TouchableOpacity>
+        </View>
+        {canExport && (
+          <View style={styles.exportButtons}>
+            <ModernButton
+              title="CSV"
+              onPress={() => handleExport('csv')}
+              variant="outline"
+              size="sm"
+              disabled={working}
+              icon={<Ionicons name="download-outline" size={16} color={modernTheme.colors.primary[500]} />}
+              iconPosition="left"
+            />
+            <ModernButton
+              title="JSON"
+              onPress={() => handleExport('json')}
+              variant="outline"
+              size="sm"
+              disabled={working}
+              icon={<Ionicons name="download-outline" size={16} color={modernTheme.colors.primary[500]} />}
+              iconPosition="left"
+            />
+          </View>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: modernTheme.colors.background.secondary,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: modernTheme.colors.background.secondary,
+  },
+  loadingText: {
+    marginTop: getSpacing('md'),
+    ...getTypography('md', 'regular'),
+    color: modernTheme.colors.text.secondary,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: getSpacing('lg'),
+    backgroundColor: modernTheme.colors.background.primary,
+    borderBottomWidth: 1,
+    borderBottomColor: modernTheme.colors.border.light,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  backButton: {
+    marginRight: getSpacing('md'),
+  },
+  title: {
+    ...getTypography('2xl', 'bold'),
+    color: modernTheme.colors.text.primary,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: getSpacing('md'),
+    marginHorizontal: getSpacing('lg'),
+    marginTop: getSpacing('md'),
+    borderRadius: modernTheme.borderRadius.md,
+    borderLeftWidth: 4,
+  },
+  bannerValid: {
+    backgroundColor: modernTheme.colors.success[50],
+    borderLeftColor: modernTheme.colors.success[500],
+  },
+  bannerInvalid: {
+    backgroundColor: modernTheme.colors.error[50],
+    borderLeftColor: modernTheme.colors.error[500],
+  },
+  bannerText: {
+    marginLeft: getSpacing('sm'),
+    ...getTypography('sm', 'regular'),
+    color: modernTheme.colors.text.primary,
+    flex: 1,
+  },
+  filters: {
+    padding: getSpacing('lg'),
+    paddingBottom: 0,
+  },
+  filterInputs: {
+    flexDirection: 'row',
+    gap: getSpacing('sm'),
+    marginBottom: getSpacing('sm'),
+  },
+  filterInput: {
+    flex: 1,
+    backgroundColor: modernTheme.colors.background.primary,
+    borderRadius: modernTheme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: modernTheme.colors.border.light,
+    paddingHorizontal: getSpacing('md'),
+    paddingVertical: getSpacing('sm'),
+    ...getTypography('sm', 'regular'),
+    color: modernTheme.colors.text.primary,
+  },
+  filterButton: {
+    marginRight: getSpacing('sm'),
+  },
+  userFilter: {
+    marginTop: getSpacing('sm'),
+  },
+  listContainer: {
+    padding: getSpacing('lg'),
+  },
+  entry: {
+    paddingVertical: getSpacing('md'),
+    paddingHorizontal: getSpacing('lg'),
+    backgroundColor: modernTheme.colors.background.primary,
+    borderRadius: modernTheme.borderRadius.md,
+    marginBottom: getSpacing('sm'),
+    ...modernTheme.shadows.sm,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: getSpacing('xs'),
+  },
+  entryAction: {
+    ...getTypography('md', 'medium'),
+    color: modernTheme.colors.text.primary,
+  },
+  entrySequence: {
+    ...getTypography('xs', 'regular'),
+    color: modernTheme.colors.text.tertiary,
+  },
+  entryMeta: {
+    ...getTypography('sm', 'regular'),
+    color: modernTheme.colors.text.secondary,
+  },
+  entryDetails: {
+    ...getTypography('xs', 'regular'),
+    color: modernTheme.colors.text.tertiary,
+    marginTop: getSpacing('xs'),
+  },
+  entryHash: {
+    ...getTypography('xs', 'regular'),
+    color: modernTheme.colors.text.tertiary,
+    marginTop: getSpacing('xs'),
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: getSpacing('xl'),
+  },
+  emptyStateText: {
+    ...getTypography('md', 'medium'),
+    color: modernTheme.colors.text.secondary,
+    marginTop: getSpacing('md'),
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: getSpacing('md'),
+    backgroundColor: modernTheme.colors.background.primary,
+    borderTopWidth: 1,
+    borderTopColor: modernTheme.colors.border.light,
+  },
+  pager: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: getSpacing('sm'),
+  },
+  pageText: {
+    ...getTypography('sm', 'regular'),
+    color: modernTheme.colors.text.secondary,
+  },
+  exportButtons: {
+    flexDirection: 'row',
+    gap: getSpacing('sm'),
+  },
+});
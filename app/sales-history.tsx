@@ -15,37 +15,46 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { format } from 'date-fns';
 import { router } from 'expo-router';
-import { database } from '../src/stores/Database';
-import { Sale } from '../src/types';
+import { salesService } from '../src/services/SalesService';
+import { RetailTransaction } from '../src/types/pos';
 import { modernTheme, getTypography, getSpacing } from '../src/styles/modern-theme';
 import { ModernButton } from '../src/components/ui/ModernButton';
+import { ReturnModal } from '../src/components/ReturnModal';
+import { ReturnResult } from '../src/services/ReturnService';
+import { giftCardService } from '../src/services/GiftCardService';
+import { authService } from '../src/services/AuthService';
+
+type TransactionStatus = RetailTransaction['status'];
 
 interface SalesHistoryItemProps {
-  sale: Sale;
+  sale: RetailTransaction;
   onPress?: () => void;
 }
 
 const SalesHistoryItem: React.FC<SalesHistoryItemProps> = ({ sale, onPress }) => {
-  const getStatusColor = (status: Sale['status']): string => {
+  const getStatusColor = (status: TransactionStatus): string => {
     switch (status) {
       case 'completed':
         return modernTheme.colors.success[500];
-      case 'pending':
+      case 'inProgress':
+      case 'returned':
         return modernTheme.colors.warning[500];
-      case 'cancelled':
+      case 'voided':
         return modernTheme.colors.error[500];
       default:
         return modernTheme.colors.neutral[500];
     }
   };
 
-  const getStatusIcon = (status: Sale['status']): keyof typeof Ionicons.glyphMap => {
+  const getStatusIcon = (status: TransactionStatus): keyof typeof Ionicons.glyphMap => {
     switch (status) {
       case 'completed':
         return 'checkmark-circle';
-      case 'pending':
+      case 'inProgress':
         return 'time';
-      case 'cancelled':
+      case 'returned':
+        return 'return-down-back';
+      case 'voided':
         return 'close-circle';
       default:
         return 'help-circle';
@@ -56,7 +65,9 @@ const SalesHistoryItem: React.FC<SalesHistoryItemProps> = ({ sale, onPress }) =>
     <TouchableOpacity style={styles.saleItem} onPress={onPress}>
       <View style={styles.saleInfo}>
         <View style={styles.saleHeader}>
-          <Text style={styles.saleId}>Sale #{sale.id}</Text>
+          <Text style={styles.saleId}>
+            {sale.originalTransactionId ? 'Return' : 'Sale'} #{sale.sequence ?? sale.id}
+          </Text>
           <View style={styles.statusContainer}>
             <Ionicons 
               name={getStatusIcon(sale.status)} 
@@ -71,37 +82,40 @@ const SalesHistoryItem: React.FC<SalesHistoryItemProps> = ({ sale, onPress }) =>
         <Text style={styles.saleTime}>
           {format(new Date(sale.timestamp), 'MMM d, yyyy h:mm a')}
         </Text>
-        <Text style={styles.saleTax}>Tax: ${sale.tax_total.toFixed(2)}</Text>
+        <Text style={styles.saleTax}>Tax: ${sale.totals.taxTotal.toFixed(2)}</Text>
       </View>
       <View style={styles.saleAmounts}>
-        <Text style={styles.saleTotal}>${sale.total.toFixed(2)}</Text>
+        <Text style={styles.saleTotal}>${sale.totals.grandTotal.toFixed(2)}</Text>
         <Ionicons name="chevron-forward" size={16} color={modernTheme.colors.text.tertiary} />
       </View>
     </TouchableOpacity>
   );
 };
 
+const matchesSearch = (sale: RetailTransaction, query: string): boolean => {
+  const needle = query.toLowerCase();
+  return (
+    (sale.id || '').toLowerCase().includes(needle) ||
+    String(sale.sequence ?? '').includes(needle) ||
+    sale.status.toLowerCase().includes(needle)
+  );
+};
+
 export default function SalesHistoryScreen() {
-  const [sales, setSales] = useState<Sale[]>([]);
-  const [filteredSales, setFilteredSales] = useState<Sale[]>([]);
+  const [sales, setSales] = useState<RetailTransaction[]>([]);
+  const [filteredSales, setFilteredSales] = useState<RetailTransaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<Sale['status'] | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<TransactionStatus | 'all'>('all');
   const [error, setError] = useState<string | null>(null);
+  const [returnSale, setReturnSale] = useState<RetailTransaction | null>(null);
 
   const loadSales = useCallback(async () => {
     try {
       setError(null);
       
-      // Check if database is initialized
-      if (!database.isInitialized()) {
-        console.log('Database not initialized, initializing now...');
-        await database.initialize();
-        console.log('Database initialized successfully');
-      }
-      
-      const allSales = await database.getAllSales();
+      const allSales = await salesService.getTransactions();
       setSales(allSales);
       setFilteredSales(allSales);
     } catch (err) {
@@ -122,10 +136,7 @@ export default function SalesHistoryScreen() {
 
     // Apply search filter
     if (query.trim()) {
-      filtered = filtered.filter(sale => 
-        sale.id.toString().includes(query.toLowerCase()) ||
-        sale.status.toLowerCase().includes(query.toLowerCase())
-      );
+      filtered = filtered.filter(sale => matchesSearch(sale, query));
     }
 
     // Apply status filter
@@ -136,16 +147,13 @@ export default function SalesHistoryScreen() {
     setFilteredSales(filtered);
   }, [sales, statusFilter]);
 
-  const handleStatusFilter = useCallback((status: Sale['status'] | 'all') => {
+  const handleStatusFilter = useCallback((status: TransactionStatus | 'all') => {
     setStatusFilter(status);
     let filtered = sales;
 
     // Apply search filter
     if (searchQuery.trim()) {
-      filtered = filtered.filter(sale => 
-        sale.id.toString().includes(searchQuery.toLowerCase()) ||
-        sale.status.toLowerCase().includes(searchQuery.toLowerCase())
-      );
+      filtered = filtered.filter(sale => matchesSearch(sale, searchQuery));
     }
 
     // Apply status filter
@@ -161,7 +169,7 @@ export default function SalesHistoryScreen() {
       // Create CSV content
       const csvHeader = 'Sale ID,Date,Status,Total,Tax,Items\n';
       const csvRows = sales.map(sale => 
-        `${sale.id},${format(new Date(sale.timestamp), 'yyyy-MM-dd HH:mm:ss')},${sale.status},${sale.total},${sale.tax_total},0`
+        `${sale.id},${format(new Date(sale.timestamp), 'yyyy-MM-dd HH:mm:ss')},${sale.status},${sale.totals.grandTotal},${sale.totals.taxTotal},${sale.items.length}`
       ).join('\n');
       const csvContent = csvHeader + csvRows;
 
@@ -169,7 +177,7 @@ export default function SalesHistoryScreen() {
       // In a real app, you'd use a file sharing library
       Alert.alert(
         'Export Data',
-        `Sales data exported successfully!\n\nTotal sales: ${sales.length}\nTotal revenue: $${sales.reduce((sum, sale) => sum + sale.total, 0).toFixed(2)}`,
+        `Sales data exported successfully!\n\nTotal sales: ${sales.length}\nTotal revenue: $${sales.reduce((sum, sale) => sum + sale.totals.grandTotal, 0).toFixed(2)}`,
         [{ text: 'OK' }]
       );
     } catch (error) {
@@ -177,9 +185,33 @@ export default function SalesHistoryScreen() {
     }
   };
 
-  const handleSalePress = (sale: Sale) => {
-    // Navigate to sale details (to be implemented)
-    Alert.alert('Sale Details', `Sale #${sale.id}\nTotal: $${sale.total}\nStatus: ${sale.status}`);
+  const handleSalePress = (sale: RetailTransaction) => {
+    // Only completed sales can be returned, and only by users allowed to refund
+    const canReturn = sale.status === 'completed' && authService.hasPermission('canRefundSales');
+
+    Alert.alert(
+      'Sale Details',
+      `Sale #${sale.sequence ?? sale.id}\nTotal: $${sale.totals.grandTotal.toFixed(2)}\nItems: ${sale.items.length}\nStatus: ${sale.status}` +
+        (sale.originalTransactionId ? `\nReturn against: ${sale.originalTransactionId}` : ''),
+      canReturn
+        ? [{ text: 'Close', style: 'cancel' }, { text: 'Return Items', onPress: () => setReturnSale(sale) }]
+        : [{ text: 'OK' }]
+    );
+  };
+
+  const handleReturnComplete = async (result: ReturnResult) => {
+    setReturnSale(null);
+    await loadSales();
+    // New store credit can only be spent with its code, so show it right away
+    const credits = result.transaction.tenders
+      .filter(tender => tender.type === 'store_credit' && tender.reference)
+      .map(tender => `\nStore credit code: ${giftCardService.formatCode(tender.reference!)}`)
+      .join('');
+    Alert.alert(
+      'Return Processed',
+      `Refunded $${Math.abs(result.transaction.totals.grandTotal).toFixed(2)}` + credits +
+        (result.receipt.success ? '\nRefund receipt generated.' : '\nRefund receipt could not be generated.')
+    );
   };
 
   useEffect(() => {
@@ -261,15 +293,22 @@ export default function SalesHistoryScreen() {
           />
           <ModernButton
             title="Pending"
-            onPress={() => handleStatusFilter('pending')}
-            variant={statusFilter === 'pending' ? 'primary' : 'outline'}
+            onPress={() => handleStatusFilter('inProgress')}
+            variant={statusFilter === 'inProgress' ? 'primary' : 'outline'}
+            size="sm"
+            style={styles.filterButton}
+          />
+          <ModernButton
+            title="Voided"
+            onPress={() => handleStatusFilter('voided')}
+            variant={statusFilter === 'voided' ? 'primary' : 'outline'}
             size="sm"
             style={styles.filterButton}
           />
           <ModernButton
-            title="Cancelled"
-            onPress={() => handleStatusFilter('cancelled')}
-            variant={statusFilter === 'cancelled' ? 'primary' : 'outline'}
+            title="Returns"
+            onPress={() => handleStatusFilter('returned')}
+            variant={statusFilter === 'returned' ? 'primary' : 'outline'}
             size="sm"
             style={styles.filterButton}
           />
@@ -279,7 +318,7 @@ export default function SalesHistoryScreen() {
       {/* Sales List */}
       <FlatList
         data={filteredSales}
-        keyExtractor={(item) => item.id.toString()}
+        keyExtractor={(item) => item.id || String(item.sequence)}
         renderItem={({ item }) => (
           <SalesHistoryItem sale={item} onPress={() => handleSalePress(item)} />
         )}
@@ -307,6 +346,14 @@ export default function SalesHistoryScreen() {
           </View>
         }
       />
+
+      {/* Return Modal */}
+      <ReturnModal
+        visible={returnSale !== null}
+        sale={returnSale}
+        onClose={() => setReturnSale(null)}
+        onReturnComplete={handleReturnComplete}
+      />
     </SafeAreaView>
   );
 }
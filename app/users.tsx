@@ -0,0 +1,527 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  Modal,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { formatDistanceToNow } from 'date-fns';
+import { router } from 'expo-router';
+import { userManagementService, ManagedUser } from '../src/services/UserManagementService';
+import { authService } from '../src/services/AuthService';
+import { roleService } from '../src/services/RoleService';
+import { useAuth } from '../src/contexts/AuthContext';
+import { CreateUserInput, Role } from '../src/types';
+import { modernTheme, getTypography, getSpacing } from '../src/styles/modern-theme';
+import { ModernButton } from '../src/components/ui/ModernButton';
+import { SessionsModal } from '../src/components/SessionsModal';
+
+const EMPTY_INVITE: CreateUserInput = {
+  username: '',
+  email: '',
+  firstName: '',
+  lastName: '',
+  role: 'cashier',
+};
+
+interface UserItemProps {
+  item: ManagedUser;
+  roles: Role[];
+  isSelf: boolean;
+  working: boolean;
+  onToggleActive: (item: ManagedUser) => void;
+  onChangeRole: (item: ManagedUser, role: string) => void;
+  onResetPassword: (item: ManagedUser) => void;
+  onShowSessions: (item: ManagedUser) => void;
+}
+
+const UserItem: React.FC<UserItemProps> = ({
+  item,
+  roles,
+  isSelf,
+  working,
+  onToggleActive,
+  onChangeRole,
+  onResetPassword,
+  onShowSessions,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const { user, activeSessions, twoFactorEnabled } = item;
+
+  return (
+    <TouchableOpacity
+      style={[styles.entry, !user.isActive && styles.entryInactive]}
+      onPress={() => setExpanded(!expanded)}
+    >
+      <View style={styles.entryHeader}>
+        <Text style={styles.entryName}>
+          {user.firstName} {user.lastName}{isSelf ? ' (you)' : ''}
+        </Text>
+        <Text style={[styles.badge, user.isActive ? styles.badgeActive : styles.badgeInactive]}>
+          {user.isActive ? 'Active' : 'Inactive'}
+        </Text>
+      </View>
+      <Text style={styles.entryMeta}>
+        {user.username} · {roles.find(role => role.id === user.role)?.name ?? user.role}
+        {twoFactorEnabled ? ' · 2FA' : ''}
+      </Text>
+      <Text style={styles.entryMeta}>
+        {user.lastLogin ? `Last login ${formatDistanceToNow(new Date(user.lastLogin), { addSuffix: true })}` : 'Never signed in'}
+        {' · '}{activeSessions} active session{activeSessions === 1 ? '' : 's'}
+      </Text>
+
+      {expanded && !isSelf && (
+        <View style={styles.actions}>
+          <Text style={styles.actionsLabel}>Role</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {roles.map(role => (
+              <ModernButton
+                key={role.id}
+                title={role.name}
+                onPress={() => onChangeRole(item, role.id)}
+                variant={user.role === role.id ? 'primary' : 'outline'}
+                size="sm"
+                disabled={working}
+                style={styles.filterButton}
+              />
+            ))}
+          </ScrollView>
+          <View style={styles.actionButtons}>
+            <ModernButton
+              title="Sessions"
+              onPress={() => onShowSessions(item)}
+              variant="outline"
+              size="sm"
+              disabled={working || activeSessions === 0}
+            />
+            <ModernButton
+              title="Reset Password"
+              onPress={() => onResetPassword(item)}
+              variant="outline"
+              size="sm"
+              disabled={working || !user.isActive}
+            />
+            <ModernButton
+              title={user.isActive ? 'Deactivate' : 'Reactivate'}
+              onPress={() => onToggleActive(item)}
+              variant={user.isActive ? 'danger' : 'primary'}
+              size="sm"
+              disabled={working}
+            />
+          </View>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+export default function UserManagementScreen() {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showInvite, setShowInvite] = useState(false);
+  const [invite, setInvite] = useState<CreateUserInput>(EMPTY_INVITE);
+  const [sessionsFor, setSessionsFor] = useState<ManagedUser | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setError(null);
+      setUsers(await userManagementService.getUsers(search));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    }
+  }, [search]);
+
+  useEffect(() => {
+    roleService.getRoles().then(setRoles).catch(err => console.error('Failed to load roles:', err));
+  }, []);
+
+  useEffect(() => {
+    loadUsers().finally(() => setLoading(false));
+  }, [loadUsers]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadUsers();
+    setRefreshing(false);
+  };
+
+  // Runs a change, reloads the list and reports failures
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setWorking(true);
+    try {
+      await action();
+      await loadUsers();
+    } catch (err) {
+      Alert.alert(failure, err instanceof Error ? err.message : failure);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleToggleActive = ({ user }: ManagedUser) => {
+    if (!user.isActive) {
+      run(() => userManagementService.setUserActive(user.id, true), 'Reactivate Failed');
+      return;
+    }
+    Alert.alert(
+      'Deactivate User',
+      `${user.firstName} will be signed out on every device and can't sign in until reactivated.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Deactivate',
+          style: 'destructive',
+          onPress: () => run(() => userManagementService.setUserActive(user.id, false), 'Deactivate Failed'),
+        },
+      ]
+    );
+  };
+
+  const handleChangeRole = ({ user }: ManagedUser, role: string) => {
+    if (role !== user.role) {
+      run(() => userManagementService.changeUserRole(user.id, role), 'Role Change Failed');
+    }
+  };
+
+  const handleResetPassword = ({ user }: ManagedUser) => {
+    Alert.alert('Reset Password', `How should ${user.firstName} get back in?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Temporary Password',
+        onPress: () => run(async () => {
+          const password = await authService.issueTemporaryPassword(user.id);
+          Alert.alert('Temporary Password', `Give ${user.firstName} this password:\n\n${password}`);
+        }, 'Reset Failed'),
+      },
+      {
+        text: 'Reset Code',
+        onPress: () => run(async () => {
+          const { code, expiresAt } = await authService.issueResetCode(user.id);
+          Alert.alert('Reset Code', `Give ${user.firstName} this code:\n\n${code}\n\nValid until ${expiresAt.toLocaleString()}.`);
+        }, 'Reset Failed'),
+      },
+    ]);
+  };
+
+  const handleInvite = () =>
+    run(async () => {
+      const { user, temporaryPassword } = await userManagementService.inviteUser(invite);
+      setShowInvite(false);
+      setInvite(EMPTY_INVITE);
+      Alert.alert(
+        'User Invited',
+        `Give ${user.firstName} their username and this temporary password:\n\n${user.username}\n${temporaryPassword}\n\nThey will choose their own password when they first sign in.`
+      );
+    }, 'Invite Failed');
+
+  const canInvite = !!(invite.username.trim() && invite.email.trim() && invite.firstName.trim() && invite.lastName.trim());
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={modernTheme.colors.primary[500]} />
+        <Text style={styles.loadingText}>Loading users...</Text>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={24} color={modernTheme.colors.text.primary} />
+          </TouchableOpacity>
+          <Text style={styles.title}>Users</Text>
+        </View>
+        <ModernButton
+          title="Invite"
+          onPress={() => setShowInvite(true)}
+          variant="outline"
+          size="sm"
+          icon={<Ionicons name="person-add-outline" size={20} color={modernTheme.colors.primary[500]} />}
+          iconPosition="left"
+        />
+      </View>
+
+      {error && (
+        <View style={styles.banner}>
+          <Ionicons name="warning" size={24} color={modernTheme.colors.error[500]} />
+          <Text style={styles.bannerText}>{error}</Text>
+        </View>
+      )}
+
+      <View style={styles.filters}>
+        <TextInput
+          style={styles.filterInput}
+          placeholder="Search by name, username, email or role"
+          value={search}
+          onChangeText={setSearch}
+          autoCapitalize="none"
+          placeholderTextColor={modernTheme.colors.text.tertiary}
+        />
+      </View>
+
+      <FlatList
+        data={users}
+        keyExtractor={(item) => item.user.id}
+        renderItem={({ item }) => (
+          <UserItem
+            item={item}
+            roles={roles}
+            isSelf={item.user.id === currentUser?.id}
+            working={working}
+            onToggleActive={handleToggleActive}
+            onChangeRole={handleChangeRole}
+            onResetPassword={handleResetPassword}
+            onShowSessions={setSessionsFor}
+          />
+        )}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+        contentContainerStyle={styles.listContainer}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="people-outline" size={48} color={modernTheme.colors.text.tertiary} />
+            <Text style={styles.emptyStateText}>No users match this search</Text>
+          </View>
+        }
+      />
+
+      {sessionsFor && (
+        <SessionsModal
+          visible
+          userId={sessionsFor.user.id}
+          userName={sessionsFor.user.firstName}
+          onClose={() => {
+            setSessionsFor(null);
+            loadUsers();
+          }}
+        />
+      )}
+
+      {/* Invite */}
+      <Modal
+        visible={showInvite}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowInvite(false)}
+      >
+        <SafeAreaView style={styles.container}>
+          <View style={styles.header}>
+            <View style={styles.headerContent}>
+              <TouchableOpacity onPress={() => setShowInvite(false)} style={styles.backButton} disabled={working}>
+                <Ionicons name="close" size={24} color={modernTheme.colors.text.primary} />
+              </TouchableOpacity>
+              <Text style={styles.title}>Invite User</Text>
+            </View>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.listContainer}>
+            {([
+              ['firstName', 'First name'],
+              ['lastName', 'Last name'],
+              ['username', 'Username'],
+              ['email', 'Email'],
+            ] as const).map(([field, label]) => (
+              <TextInput
+                key={field}
+                style={[styles.filterInput, styles.formInput]}
+                placeholder={label}
+                value={invite[field]}
+                onChangeText={(text) => setInvite(prev => ({ ...prev, [field]: text }))}
+                autoCapitalize={field === 'username' || field === 'email' ? 'none' : 'words'}
+                keyboardType={field === 'email' ? 'email-address' : 'default'}
+                placeholderTextColor={modernTheme.colors.text.tertiary}
+              />
+            ))}
+
+            <Text style={styles.actionsLabel}>Role</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {roles.map(role => (
+                <ModernButton
+                  key={role.id}
+                  title={role.name}
+                  onPress={() => setInvite(prev => ({ ...prev, role: role.id }))}
+                  variant={invite.role === role.id ? 'primary' : 'outline'}
+                  size="sm"
+                  style={styles.filterButton}
+                />
+              ))}
+            </ScrollView>
+
+            <ModernButton
+              title="Create and Get Temporary Password"
+              onPress={handleInvite}
+              loading={working}
+              disabled={!canInvite || working}
+              fullWidth
+              style={styles.inviteButton}
+            />
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: modernTheme.colors.background.secondary,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: modernTheme.colors.background.secondary,
+  },
+  loadingText: {
+    marginTop: getSpacing('md'),
+    ...getTypography('md', 'regular'),
+    color: modernTheme.colors.text.secondary,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: getSpacing('lg'),
+    backgroundColor: modernTheme.colors.background.primary,
+    borderBottomWidth: 1,
+    borderBottomColor: modernTheme.colors.border.light,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  backButton: {
+    marginRight: getSpacing('md'),
+  },
+  title: {
+    ...getTypography('2xl', 'bold'),
+    color: modernTheme.colors.text.primary,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: getSpacing('md'),
+    marginHorizontal: getSpacing('lg'),
+    marginTop: getSpacing('md'),
+    borderRadius: modernTheme.borderRadius.md,
+    borderLeftWidth: 4,
+    backgroundColor: modernTheme.colors.error[50],
+    borderLeftColor: modernTheme.colors.error[500],
+  },
+  bannerText: {
+    marginLeft: getSpacing('sm'),
+    ...getTypography('sm', 'regular'),
+    color: modernTheme.colors.text.primary,
+    flex: 1,
+  },
+  filters: {
+    padding: getSpacing('lg'),
+    paddingBottom: 0,
+  },
+  filterInput: {
+    backgroundColor: modernTheme.colors.background.primary,
+    borderRadius: modernTheme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: modernTheme.colors.border.light,
+    paddingHorizontal: getSpacing('md'),
+    paddingVertical: getSpacing('sm'),
+    ...getTypography('sm', 'regular'),
+    color: modernTheme.colors.text.primary,
+  },
+  formInput: {
+    marginBottom: getSpacing('sm'),
+  },
+  filterButton: {
+    marginRight: getSpacing('sm'),
+  },
+  listContainer: {
+    padding: getSpacing('lg'),
+  },
+  entry: {
+    paddingVertical: getSpacing('md'),
+    paddingHorizontal: getSpacing('lg'),
+    backgroundColor: modernTheme.colors.background.primary,
+    borderRadius: modernTheme.borderRadius.md,
+    marginBottom: getSpacing('sm'),
+    ...modernTheme.shadows.sm,
+  },
+  entryInactive: {
+    opacity: 0.6,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: getSpacing('xs'),
+  },
+  entryName: {
+    ...getTypography('md', 'medium'),
+    color: modernTheme.colors.text.primary,
+  },
+  entryMeta: {
+    ...getTypography('sm', 'regular'),
+    color: modernTheme.colors.text.secondary,
+  },
+  badge: {
+    ...getTypography('xs', 'medium'),
+    paddingHorizontal: getSpacing('sm'),
+    paddingVertical: 2,
+    borderRadius: modernTheme.borderRadius.sm,
+    overflow: 'hidden',
+  },
+  badgeActive: {
+    backgroundColor: modernTheme.colors.success[50],
+    color: modernTheme.colors.success[500],
+  },
+  badgeInactive: {
+    backgroundColor: modernTheme.colors.error[50],
+    color: modernTheme.colors.error[500],
+  },
+  actions: {
+    marginTop: getSpacing('md'),
+  },
+  actionsLabel: {
+    ...getTypography('sm', 'medium'),
+    color: modernTheme.colors.text.secondary,
+    marginTop: getSpacing('sm'),
+    marginBottom: getSpacing('xs'),
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: getSpacing('sm'),
+    marginTop: getSpacing('md'),
+  },
+  inviteButton: {
+    marginTop: getSpacing('lg'),
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: getSpacing('xl'),
+  },
+  emptyStateText: {
+    ...getTypography('md', 'medium'),
+    color: modernTheme.colors.text.secondary,
+    marginTop: getSpacing('md'),
+  },
+});
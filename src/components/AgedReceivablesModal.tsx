@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  Share
+} from 'react-native';
+import { format } from 'date-fns';
+import { AgingBuckets } from '../types/documents';
+import { accountsReceivableService, AgedReceivablesReport } from '../services/AccountsReceivableService';
+
+interface AgedReceivablesModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const BUCKETS: { key: keyof AgingBuckets; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days1to30', label: '1-30 days' },
+  { key: 'days31to60', label: '31-60 days' },
+  { key: 'days61to90', label: '61-90 days' },
+  { key: 'over90', label: 'Over 90 days' },
+];
+
+/**
+ * What customers owe on their house accounts, by days past due
+ */
+export const AgedReceivablesModal: React.FC<AgedReceivablesModalProps> = ({ visible, onClose }) => {
+  const [report, setReport] = useState<AgedReceivablesReport | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      loadReport();
+    }
+  }, [visible]);
+
+  const loadReport = async () => {
+    try {
+      setReport(await accountsReceivableService.getAgedReceivables());
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load aged receivables');
+    }
+  };
+
+  const handleShare = async () => {
+    if (!report) {
+      return;
+    }
+    const lines = [
+      ['customer', ...BUCKETS.map(bucket => bucket.key), 'total'].join(','),
+      ...report.customers.map(row =>
+        [`"${row.name.replace(/"/g, '""')}"`, ...BUCKETS.map(bucket => row.aging[bucket.key].toFixed(2)), row.total.toFixed(2)].join(',')
+      ),
+    ];
+    try {
+      await Share.share({
+        title: 'Aged Receivables',
+        message: lines.join('\n'),
+      });
+    } catch (error) {
+      Alert.alert('Error', 'Failed to share report');
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancelText}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Aged Receivables</Text>
+          <TouchableOpacity style={styles.spacer} onPress={handleShare} disabled={!report}>
+            <Text style={styles.shareText}>Export</Text>
+          </TouchableOpacity>
+        </View>
+
+        {report && (
+          <ScrollView style={styles.content}>
+            <Text style={styles.detail}>As of {format(report.asOf, 'MMM d, yyyy h:mm a')}</Text>
+            <Text style={styles.total}>${report.total.toFixed(2)}</Text>
+
+            {BUCKETS.map(bucket => (
+              <View key={bucket.key} style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>{bucket.label}</Text>
+                <Text style={[styles.summaryValue, bucket.key !== 'current' && report.totals[bucket.key] > 0 && styles.overdue]}>
+                  ${report.totals[bucket.key].toFixed(2)}
+                </Text>
+              </View>
+            ))}
+
+            <Text style={styles.sectionTitle}>Customers</Text>
+            {report.customers.length === 0 ? (
+              <Text style={styles.emptyText}>No open balances.</Text>
+            ) : (
+              report.customers.map(row => {
+                const pastDue = row.total - row.aging.current;
+                return (
+                  <View key={row.customerId} style={styles.customerRow}>
+                    <View style={styles.customerInfo}>
+                      <Text style={styles.customerName}>{row.name}</Text>
+                      <Text style={[styles.detail, pastDue > 0 && styles.overdue]}>
+                        {pastDue > 0 ? `$${pastDue.toFixed(2)} past due` : 'Current'}
+                      </Text>
+                    </View>
+                    <Text style={styles.summaryValue}>${row.total.toFixed(2)}</Text>
+                  </View>
+                );
+              })
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+    alignItems: 'flex-end',
+  },
+  shareText: {
+    fontSize: 16,
+    color: '#27ae60',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  total: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#333',
+    marginVertical: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  summaryLabel: {
+    fontSize: 16,
+    color: '#666',
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  overdue: {
+    color: '#e74c3c',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 24,
+    marginBottom: 10,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  customerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  customerInfo: {
+    flex: 1,
+  },
+  customerName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  detail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+});
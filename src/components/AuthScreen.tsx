@@ -2,12 +2,14 @@ import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, Alert } from 'react-native';
 import { LoginScreen } from './LoginScreen';
 import { RegisterScreen } from './RegisterScreen';
+import { ResetPasswordScreen } from './ResetPasswordScreen';
 import { useAuth } from '../contexts/AuthContext';
 import { authService } from '../services/AuthService';
 import { database } from '../stores/DatabaseFactory';
 
 export const AuthScreen: React.FC = () => {
   const [showRegister, setShowRegister] = useState(false);
+  const [showReset, setShowReset] = useState(false);
   const { isAuthenticated } = useAuth();
 
   // Initialize database and auth service on component mount
@@ -33,6 +35,7 @@ export const AuthScreen: React.FC = () => {
 
   const handleBackToLogin = () => {
     setShowRegister(false);
+    setShowReset(false);
   };
 
   const handleRegisterPress = () => {
@@ -52,7 +55,17 @@ export const AuthScreen: React.FC = () => {
           onBackToLogin={handleBackToLogin}
         />
       ) : (
-        <LoginScreen onRegisterPress={handleRegisterPress} />
+        showReset ? (
+          <ResetPasswordScreen
+            onResetSuccess={handleBackToLogin}
+            onBackToLogin={handleBackToLogin}
+          />
+        ) : (
+          <LoginScreen
+            onRegisterPress={handleRegisterPress}
+            onResetPress={() => setShowReset(true)}
+          />
+        )
       )}
     </View>
   );
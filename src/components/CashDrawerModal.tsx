@@ -0,0 +1,461 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { DenominationCount, DrawerShiftSummary } from '../types';
+import { cashDrawerService, countDenominations, DENOMINATIONS } from '../services/CashDrawerService';
+
+interface CashDrawerModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const formatMoney = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const formatDenomination = (value: number) => (value >= 1 ? `$${value}` : `${Math.round(value * 100)}¢`);
+
+export const CashDrawerModal: React.FC<CashDrawerModalProps> = ({ visible, onClose }) => {
+  const [summary, setSummary] = useState<DrawerShiftSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [counting, setCounting] = useState(false);
+  const [count, setCount] = useState<Record<string, string>>({});
+  const [closeNotes, setCloseNotes] = useState('');
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+
+    setAmount('');
+    setReason('');
+    setCounting(false);
+    setCount({});
+    setCloseNotes('');
+    loadShift();
+  }, [visible]);
+
+  const loadShift = async () => {
+    setLoading(true);
+    try {
+      const shift = await cashDrawerService.getCurrentShift();
+      setSummary(shift ? await cashDrawerService.getShiftSummary(shift.id) : null);
+    } catch (error) {
+      Alert.alert('Drawer Error', error instanceof Error ? error.message : 'Failed to load shift');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run a drawer action, then refresh the shift totals
+  const run = async (action: () => Promise<void>) => {
+    setProcessing(true);
+    try {
+      await action();
+      await loadShift();
+    } catch (error) {
+      Alert.alert('Drawer Error', error instanceof Error ? error.message : 'Drawer action failed');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleOpenShift = () =>
+    run(async () => {
+      await cashDrawerService.openShift(parseFloat(openingFloat) || 0);
+      setOpeningFloat('');
+    });
+
+  const handleCashMovement = (type: 'paid_in' | 'paid_out') =>
+    run(async () => {
+      const value = parseFloat(amount);
+      if (type === 'paid_in') {
+        await cashDrawerService.recordPaidIn(value, reason);
+      } else {
+        await cashDrawerService.recordPaidOut(value, reason);
+      }
+      setAmount('');
+      setReason('');
+    });
+
+  const handleNoSale = () =>
+    run(async () => {
+      await cashDrawerService.recordNoSale(reason);
+      setReason('');
+    });
+
+  const handleXReport = () =>
+    run(async () => {
+      const report = await cashDrawerService.generateXReport();
+      if (!report.success) {
+        throw new Error(report.error || 'Failed to generate X report');
+      }
+      Alert.alert('X Report', 'Mid-shift report generated. The shift stays open.');
+    });
+
+  const denominationCount = (): DenominationCount =>
+    Object.fromEntries(
+      Object.entries(count)
+        .map(([value, quantity]) => [value, parseInt(quantity, 10) || 0])
+        .filter(([, quantity]) => (quantity as number) > 0)
+    );
+
+  const handleCloseShift = () =>
+    run(async () => {
+      const result = await cashDrawerService.closeShift(denominationCount(), closeNotes);
+      const overShort = result.shift.overShort || 0;
+      setCounting(false);
+      Alert.alert(
+        'Shift Closed',
+        `Counted ${formatMoney(result.shift.countedCash || 0)} against ${formatMoney(result.shift.expectedCash || 0)} expected.\n` +
+          (overShort === 0 ? 'Drawer balanced.' : `${overShort > 0 ? 'Over' : 'Short'} ${formatMoney(Math.abs(overShort))}.`) +
+          (result.report.success ? '\nZ report generated.' : '')
+      );
+    });
+
+  const counted = countDenominations(denominationCount());
+
+  const renderRow = (label: string, value: string, emphasis = false) => (
+    <View style={styles.summaryRow}>
+      <Text style={[styles.summaryLabel, emphasis && styles.summaryEmphasis]}>{label}</Text>
+      <Text style={[styles.summaryValue, emphasis && styles.summaryEmphasis]}>{value}</Text>
+    </View>
+  );
+
+  const renderOpenForm = () => (
+    <>
+      <Text style={styles.sectionTitle}>Open Shift</Text>
+      <Text style={styles.hintText}>Count the float into the drawer before the first sale.</Text>
+      <TextInput
+        style={styles.input}
+        value={openingFloat}
+        onChangeText={setOpeningFloat}
+        placeholder="Opening float (e.g. 150.00)"
+        keyboardType="numeric"
+        editable={!processing}
+      />
+      <TouchableOpacity
+        style={[styles.primaryButton, processing && styles.buttonDisabled]}
+        onPress={handleOpenShift}
+        disabled={processing}
+      >
+        <Text style={styles.primaryButtonText}>Open Shift</Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderShift = (current: DrawerShiftSummary) => (
+    <>
+      <Text style={styles.sectionTitle}>Current Shift</Text>
+      <View style={styles.summaryBox}>
+        {renderRow('Opened', new Date(current.shift.openedAt).toLocaleTimeString())}
+        {renderRow('Opening Float', formatMoney(current.shift.openingFloat))}
+        {renderRow(`Sales (${current.saleCount})`, formatMoney(current.grossSales))}
+        {renderRow(`Returns (${current.returnCount})`, formatMoney(-current.refunds))}
+        {renderRow('Cash Sales', formatMoney(current.cashSales))}
+        {renderRow('Paid In', formatMoney(current.paidIn))}
+        {renderRow('Paid Out', formatMoney(-current.paidOut))}
+        {renderRow('No Sales', `${current.noSaleCount}`)}
+        {renderRow('Expected Cash', formatMoney(current.expectedCash), true)}
+      </View>
+
+      <Text style={styles.sectionTitle}>Cash In / Out</Text>
+      <TextInput
+        style={styles.input}
+        value={amount}
+        onChangeText={setAmount}
+        placeholder="Amount"
+        keyboardType="numeric"
+        editable={!processing}
+      />
+      <TextInput
+        style={styles.input}
+        value={reason}
+        onChangeText={setReason}
+        placeholder="Reason (e.g. change from bank, supplier delivery)"
+        editable={!processing}
+      />
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.secondaryButton, styles.flexButton]}
+          onPress={() => handleCashMovement('paid_in')}
+          disabled={processing}
+        >
+          <Text style={styles.secondaryButtonText}>Paid In</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.secondaryButton, styles.flexButton]}
+          onPress={() => handleCashMovement('paid_out')}
+          disabled={processing}
+        >
+          <Text style={styles.secondaryButtonText}>Paid Out</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.secondaryButton, styles.flexButton]}
+          onPress={handleNoSale}
+          disabled={processing}
+        >
+          <Text style={styles.secondaryButtonText}>No Sale</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.secondaryButton, styles.flexButton]}
+          onPress={handleXReport}
+          disabled={processing}
+        >
+          <Text style={styles.secondaryButtonText}>X Report</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.closeButton, styles.flexButton]}
+          onPress={() => setCounting(true)}
+          disabled={processing}
+        >
+          <Text style={styles.primaryButtonText}>Close Shift</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  const renderCount = (current: DrawerShiftSummary) => {
+    const overShort = Math.round((counted - current.expectedCash) * 100) / 100;
+
+    return (
+      <>
+        <Text style={styles.sectionTitle}>Count Drawer</Text>
+        {DENOMINATIONS.map(value => (
+          <View key={value} style={styles.countRow}>
+            <Text style={styles.countLabel}>{formatDenomination(value)}</Text>
+            <TextInput
+              style={[styles.input, styles.countInput]}
+              value={count[value.toString()] || ''}
+              onChangeText={(text) => setCount({ ...count, [value.toString()]: text })}
+              placeholder="0"
+              keyboardType="number-pad"
+              editable={!processing}
+            />
+            <Text style={styles.countTotal}>
+              {formatMoney(value * (parseInt(count[value.toString()] || '0', 10) || 0))}
+            </Text>
+          </View>
+        ))}
+
+        <View style={styles.summaryBox}>
+          {renderRow('Counted', formatMoney(counted))}
+          {renderRow('Expected', formatMoney(current.expectedCash))}
+          {renderRow(overShort < 0 ? 'Short' : 'Over', formatMoney(overShort), true)}
+        </View>
+
+        <TextInput
+          style={styles.input}
+          value={closeNotes}
+          onChangeText={setCloseNotes}
+          placeholder="Notes (optional)"
+          editable={!processing}
+        />
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.secondaryButton, styles.flexButton]}
+            onPress={() => setCounting(false)}
+            disabled={processing}
+          >
+            <Text style={styles.secondaryButtonText}>Back</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.closeButton, styles.flexButton, processing && styles.buttonDisabled]}
+            onPress={handleCloseShift}
+            disabled={processing}
+          >
+            <Text style={styles.primaryButtonText}>Close & Print Z</Text>
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={processing}>
+            <Text style={[styles.cancelText, processing && styles.disabledText]}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Cash Drawer</Text>
+          <View style={styles.spacer} />
+        </View>
+
+        <ScrollView style={styles.content}>
+          {loading ? (
+            <ActivityIndicator size="large" color="#27ae60" />
+          ) : !summary ? (
+            renderOpenForm()
+          ) : counting ? (
+            renderCount(summary)
+          ) : (
+            renderShift(summary)
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  disabledText: {
+    opacity: 0.5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 10,
+    marginBottom: 15,
+    color: '#333',
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 10,
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 15,
+    fontSize: 16,
+    marginBottom: 10,
+    backgroundColor: '#f8f9fa',
+  },
+  summaryBox: {
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 15,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  summaryValue: {
+    fontSize: 14,
+    color: '#333',
+  },
+  summaryEmphasis: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 15,
+  },
+  flexButton: {
+    flex: 1,
+  },
+  primaryButton: {
+    backgroundColor: '#27ae60',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    padding: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#27ae60',
+  },
+  secondaryButtonText: {
+    color: '#27ae60',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  closeButton: {
+    backgroundColor: '#e67e22',
+    padding: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: '#95a5a6',
+  },
+  countRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  countLabel: {
+    width: 60,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  countInput: {
+    flex: 1,
+  },
+  countTotal: {
+    width: 90,
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'right',
+  },
+});
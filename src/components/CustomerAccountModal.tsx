@@ -0,0 +1,392 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  Share
+} from 'react-native';
+import { format } from 'date-fns';
+import { Customer } from '../types';
+import { Invoice, InvoicePayment } from '../types/documents';
+import { accountsReceivableService, CustomerAccount } from '../services/AccountsReceivableService';
+import { RequirePermission } from '../contexts/AuthContext';
+
+interface CustomerAccountModalProps {
+  visible: boolean;
+  customer: Customer | null;
+  onClose: () => void;
+}
+
+const PAYMENT_METHODS: { method: InvoicePayment['method']; label: string }[] = [
+  { method: 'cash', label: 'Cash' },
+  { method: 'card', label: 'Card' },
+  { method: 'check', label: 'Check' },
+  { method: 'bank_transfer', label: 'Transfer' },
+];
+
+/**
+ * A customer's house account: open invoices, payments against them,
+ * statements, and the credit limit for managers
+ */
+export const CustomerAccountModal: React.FC<CustomerAccountModalProps> = ({ visible, customer, onClose }) => {
+  const [account, setAccount] = useState<CustomerAccount | null>(null);
+  const [creditLimit, setCreditLimit] = useState('');
+  const [selected, setSelected] = useState<Invoice | null>(null);
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<InvoicePayment['method']>('cash');
+  const [reference, setReference] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (visible && customer) {
+      setSelected(null);
+      loadAccount(customer.id);
+    }
+  }, [visible, customer]);
+
+  const loadAccount = async (customerId: string) => {
+    try {
+      const loaded = await accountsReceivableService.getAccount(customerId);
+      setAccount(loaded);
+      setCreditLimit(loaded.creditLimit > 0 ? loaded.creditLimit.toFixed(2) : '');
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load account');
+    }
+  };
+
+  const selectInvoice = (invoice: Invoice) => {
+    setSelected(invoice);
+    setAmount(invoice.remainingBalance.toFixed(2));
+    setMethod('cash');
+    setReference('');
+  };
+
+  const handleRecordPayment = async () => {
+    if (!customer || !selected) {
+      return;
+    }
+    setProcessing(true);
+    try {
+      const invoice = await accountsReceivableService.recordPayment(selected.id, parseFloat(amount), method, reference);
+      Alert.alert(
+        'Payment Recorded',
+        invoice.status === 'paid'
+          ? `Invoice ${invoice.documentNumber} is paid in full.`
+          : `$${invoice.remainingBalance.toFixed(2)} remains on invoice ${invoice.documentNumber}.`
+      );
+      setSelected(null);
+      await loadAccount(customer.id);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to record payment');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleSaveLimit = async () => {
+    if (!customer) {
+      return;
+    }
+    setProcessing(true);
+    try {
+      await accountsReceivableService.setCreditLimit(customer.id, parseFloat(creditLimit || '0'));
+      await loadAccount(customer.id);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update credit limit');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleStatement = async () => {
+    if (!customer) {
+      return;
+    }
+    setProcessing(true);
+    try {
+      const result = await accountsReceivableService.generateStatement(customer.id);
+      if (!result.success || !result.documentUrl) {
+        throw new Error(result.error || 'Failed to generate statement');
+      }
+      await Share.share({ title: `Statement for ${customer.name}`, message: result.documentUrl });
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to share statement');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const amountValue = parseFloat(amount);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={processing}>
+            <Text style={styles.cancelText}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Account</Text>
+          <TouchableOpacity style={styles.spacer} onPress={handleStatement} disabled={processing || !account}>
+            <Text style={styles.shareText}>Statement</Text>
+          </TouchableOpacity>
+        </View>
+
+        {account && (
+          <ScrollView style={styles.content}>
+            <Text style={styles.customerName}>{account.customer.name}</Text>
+            <Text style={styles.balance}>${account.balance.toFixed(2)}</Text>
+            <Text style={styles.detail}>
+              {account.creditLimit > 0
+                ? `Credit limit $${account.creditLimit.toFixed(2)} · $${account.available.toFixed(2)} available`
+                : 'Not approved to charge to account'}
+            </Text>
+
+            <RequirePermission permission="canManageSettings">
+              <Text style={styles.sectionTitle}>Credit Limit</Text>
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.input, styles.flexInput]}
+                  value={creditLimit}
+                  onChangeText={setCreditLimit}
+                  placeholder="0.00 (not approved)"
+                  keyboardType="numeric"
+                  editable={!processing}
+                />
+                <TouchableOpacity
+                  style={[styles.smallButton, processing && styles.buttonDisabled]}
+                  onPress={handleSaveLimit}
+                  disabled={processing}
+                >
+                  <Text style={styles.buttonText}>Save</Text>
+                </TouchableOpacity>
+              </View>
+            </RequirePermission>
+
+            <Text style={styles.sectionTitle}>Open Invoices</Text>
+            {account.openInvoices.length === 0 ? (
+              <Text style={styles.emptyText}>Nothing owed.</Text>
+            ) : (
+              account.openInvoices.map(invoice => (
+                <TouchableOpacity
+                  key={invoice.id}
+                  style={[styles.invoiceRow, selected?.id === invoice.id && styles.invoiceRowSelected]}
+                  onPress={() => selectInvoice(invoice)}
+                  disabled={processing}
+                >
+                  <View style={styles.invoiceInfo}>
+                    <Text style={styles.invoiceNumber}>{invoice.documentNumber}</Text>
+                    <Text style={[styles.detail, invoice.status === 'overdue' && styles.overdue]}>
+                      {invoice.status === 'overdue' ? 'Overdue' : 'Due'} {format(invoice.dueDate, 'MMM d, yyyy')}
+                    </Text>
+                  </View>
+                  <Text style={styles.invoiceBalance}>${invoice.remainingBalance.toFixed(2)}</Text>
+                </TouchableOpacity>
+              ))
+            )}
+
+            {selected && (
+              <>
+                <Text style={styles.sectionTitle}>Payment on {selected.documentNumber}</Text>
+                <View style={styles.row}>
+                  {PAYMENT_METHODS.map(option => (
+                    <TouchableOpacity
+                      key={option.method}
+                      style={[styles.methodButton, method === option.method && styles.methodButtonActive]}
+                      onPress={() => setMethod(option.method)}
+                      disabled={processing}
+                    >
+                      <Text style={[styles.methodText, method === option.method && styles.methodTextActive]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <View style={styles.row}>
+                  <TextInput
+                    style={[styles.input, styles.flexInput]}
+                    value={amount}
+                    onChangeText={setAmount}
+                    placeholder="Amount"
+                    keyboardType="numeric"
+                    editable={!processing}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.flexInput]}
+                    value={reference}
+                    onChangeText={setReference}
+                    placeholder="Check # / reference"
+                    editable={!processing}
+                  />
+                </View>
+                <TouchableOpacity
+                  style={[styles.button, (processing || !(amountValue > 0)) && styles.buttonDisabled]}
+                  onPress={handleRecordPayment}
+                  disabled={processing || !(amountValue > 0)}
+                >
+                  <Text style={styles.buttonText}>Record Payment</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 80,
+    alignItems: 'flex-end',
+  },
+  shareText: {
+    fontSize: 16,
+    color: '#27ae60',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  customerName: {
+    fontSize: 16,
+    color: '#666',
+  },
+  balance: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 24,
+    marginBottom: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 10,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  flexInput: {
+    flex: 1,
+  },
+  smallButton: {
+    backgroundColor: '#27ae60',
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    justifyContent: 'center',
+  },
+  button: {
+    backgroundColor: '#27ae60',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  methodButton: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    alignItems: 'center',
+  },
+  methodButtonActive: {
+    borderColor: '#27ae60',
+    backgroundColor: '#27ae60',
+  },
+  methodText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  methodTextActive: {
+    color: '#fff',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  invoiceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+    borderWidth: 2,
+    borderColor: '#f8f9fa',
+  },
+  invoiceRowSelected: {
+    borderColor: '#27ae60',
+  },
+  invoiceInfo: {
+    flex: 1,
+  },
+  invoiceNumber: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  invoiceBalance: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  detail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  overdue: {
+    color: '#e74c3c',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,411 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  Switch,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { Customer } from '../types';
+import { customerService } from '../services/CustomerService';
+import { LoyaltyHistoryModal } from './LoyaltyHistoryModal';
+import { CustomerAccountModal } from './CustomerAccountModal';
+
+interface CustomerModalProps {
+  visible: boolean;
+  customer: Customer | null;
+  onClose: () => void;
+  onSelect: (customer: Customer | null) => void;
+}
+
+const emptyForm = {
+  name: '',
+  phone: '',
+  email: '',
+  street: '',
+  city: '',
+  state: '',
+  zipCode: '',
+  taxExempt: false,
+  taxExemptionId: '',
+  notes: '',
+};
+
+/**
+ * Find or add the customer for the sale in progress
+ */
+export const CustomerModal: React.FC<CustomerModalProps> = ({
+  visible,
+  customer,
+  onClose,
+  onSelect
+}) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Customer[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [showPoints, setShowPoints] = useState(false);
+  const [showAccount, setShowAccount] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setQuery('');
+      setCreating(false);
+      setForm(emptyForm);
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (visible && !creating) {
+      search(query);
+    }
+  }, [visible, creating, query]);
+
+  const search = async (text: string) => {
+    try {
+      setResults(await customerService.searchCustomers(text, 25));
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load customers');
+    }
+  };
+
+  const updateForm = (changes: Partial<typeof emptyForm>) => setForm({ ...form, ...changes });
+
+  const startCreate = () => {
+    // Most searches are a name or a phone number; carry it into the form
+    const isPhone = /^[\d\s()+-]+$/.test(query.trim());
+    setForm({ ...emptyForm, [isPhone ? 'phone' : 'name']: query.trim() });
+    setCreating(true);
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const hasAddress = form.street || form.city || form.state || form.zipCode;
+      const created = await customerService.createCustomer({
+        name: form.name,
+        phone: form.phone,
+        email: form.email,
+        address: hasAddress ? {
+          street: form.street.trim() || undefined,
+          city: form.city.trim() || undefined,
+          state: form.state.trim() || undefined,
+          zipCode: form.zipCode.trim() || undefined,
+        } : undefined,
+        taxExempt: form.taxExempt,
+        taxExemptionId: form.taxExemptionId,
+        notes: form.notes,
+      });
+      onSelect(created);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to create customer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={creating ? () => setCreating(false) : onClose} disabled={saving}>
+            <Text style={styles.cancelText}>{creating ? 'Back' : 'Cancel'}</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>{creating ? 'New Customer' : 'Customer'}</Text>
+          <View style={styles.spacer} />
+        </View>
+
+        {creating ? (
+          <ScrollView style={styles.content}>
+            <TextInput
+              style={styles.input}
+              value={form.name}
+              onChangeText={name => updateForm({ name })}
+              placeholder="Name or organization"
+            />
+            <TextInput
+              style={styles.input}
+              value={form.phone}
+              onChangeText={phone => updateForm({ phone })}
+              placeholder="Phone (optional)"
+              keyboardType="phone-pad"
+            />
+            <TextInput
+              style={styles.input}
+              value={form.email}
+              onChangeText={email => updateForm({ email })}
+              placeholder="Email (optional)"
+              keyboardType="email-address"
+              autoCapitalize="none"
+            />
+            <TextInput
+              style={styles.input}
+              value={form.street}
+              onChangeText={street => updateForm({ street })}
+              placeholder="Street (optional)"
+            />
+            <View style={styles.inputRow}>
+              <TextInput
+                style={[styles.input, styles.inputWide]}
+                value={form.city}
+                onChangeText={city => updateForm({ city })}
+                placeholder="City"
+              />
+              <TextInput
+                style={[styles.input, styles.inputNarrow]}
+                value={form.state}
+                onChangeText={state => updateForm({ state })}
+                placeholder="State"
+                autoCapitalize="characters"
+              />
+              <TextInput
+                style={[styles.input, styles.inputNarrow]}
+                value={form.zipCode}
+                onChangeText={zipCode => updateForm({ zipCode })}
+                placeholder="ZIP"
+              />
+            </View>
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Tax exempt</Text>
+              <Switch value={form.taxExempt} onValueChange={taxExempt => updateForm({ taxExempt })} />
+            </View>
+            {form.taxExempt && (
+              <TextInput
+                style={styles.input}
+                value={form.taxExemptionId}
+                onChangeText={taxExemptionId => updateForm({ taxExemptionId })}
+                placeholder="Exemption certificate ID"
+                autoCapitalize="characters"
+              />
+            )}
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              value={form.notes}
+              onChangeText={notes => updateForm({ notes })}
+              placeholder="Notes (optional)"
+              multiline
+            />
+            <TouchableOpacity
+              style={[styles.applyButton, (saving || !form.name.trim()) && styles.buttonDisabled]}
+              onPress={handleCreate}
+              disabled={saving || !form.name.trim()}
+            >
+              <Text style={styles.applyButtonText}>Add to Sale</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        ) : (
+          <>
+            <View style={styles.content}>
+              <TextInput
+                style={styles.input}
+                value={query}
+                onChangeText={setQuery}
+                placeholder="Search by name, phone or email"
+                autoCorrect={false}
+              />
+              <ScrollView>
+                {results.map(result => (
+                  <TouchableOpacity
+                    key={result.id}
+                    style={[styles.row, result.id === customer?.id && styles.rowSelected]}
+                    onPress={() => onSelect(result)}
+                  >
+                    <Text style={styles.name}>{result.name}</Text>
+                    <Text style={styles.detail}>
+                      {[result.phone, result.email].filter(Boolean).join(' · ') || 'No contact details'}
+                      {result.taxExempt ? ` · Tax exempt (${result.taxExemptionId})` : ''}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+                {results.length === 0 && (
+                  <Text style={styles.emptyText}>No customers found.</Text>
+                )}
+              </ScrollView>
+            </View>
+
+            <View style={styles.footer}>
+              {customer && (
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => setShowPoints(true)}>
+                  <Text style={styles.secondaryButtonText}>Loyalty Points</Text>
+                </TouchableOpacity>
+              )}
+              {customer && (
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => setShowAccount(true)}>
+                  <Text style={styles.secondaryButtonText}>Account & Invoices</Text>
+                </TouchableOpacity>
+              )}
+              {customer && (
+                <TouchableOpacity style={styles.removeButton} onPress={() => onSelect(null)}>
+                  <Text style={styles.removeButtonText}>Remove {customer.name}</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.applyButton} onPress={startCreate}>
+                <Text style={styles.applyButtonText}>New Customer</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </KeyboardAvoidingView>
+
+      <LoyaltyHistoryModal
+        visible={showPoints}
+        customer={customer}
+        onClose={() => setShowPoints(false)}
+      />
+
+      <CustomerAccountModal
+        visible={showAccount}
+        customer={customer}
+        onClose={() => setShowAccount(false)}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 15,
+    fontSize: 16,
+    marginBottom: 15,
+    backgroundColor: '#f8f9fa',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  inputWide: {
+    flex: 2,
+  },
+  inputNarrow: {
+    flex: 1,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  row: {
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  rowSelected: {
+    borderWidth: 2,
+    borderColor: '#27ae60',
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  detail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  footer: {
+    padding: 20,
+    gap: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#e9ecef',
+  },
+  secondaryButton: {
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+  },
+  secondaryButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  removeButton: {
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#e74c3c',
+  },
+  removeButtonText: {
+    color: '#e74c3c',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  applyButton: {
+    backgroundColor: '#27ae60',
+    padding: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
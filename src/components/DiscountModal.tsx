@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { DiscountComponent } from '../types';
+import { discountService } from '../services/DiscountService';
+
+interface DiscountModalProps {
+  visible: boolean;
+  title: string;
+  base: number; // what the discount applies to, for the manager's approval
+  onClose: () => void;
+  onApply: (discount: DiscountComponent) => void;
+}
+
+export const DiscountModal: React.FC<DiscountModalProps> = ({
+  visible,
+  title,
+  base,
+  onClose,
+  onApply
+}) => {
+  const [type, setType] = useState<'percent' | 'amount'>('percent');
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState('');
+  const [managerUsername, setManagerUsername] = useState('');
+  const [managerPassword, setManagerPassword] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  const requiresApproval = discountService.requiresApproval();
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (visible) {
+      setType('percent');
+      setValue('');
+      setReason('');
+      setManagerUsername('');
+      setManagerPassword('');
+      setProcessing(false);
+    }
+  }, [visible]);
+
+  const handleApply = async () => {
+    setProcessing(true);
+
+    try {
+      const discount: DiscountComponent = {
+        id: `disc_${Date.now()}`,
+        type,
+        value: parseFloat(value || '0'),
+        reason: reason.trim(),
+      };
+
+      const approved = await discountService.approveDiscount(
+        discount,
+        requiresApproval ? { username: managerUsername.trim(), password: managerPassword } : undefined,
+        base
+      );
+
+      onApply(approved);
+    } catch (error) {
+      Alert.alert('Discount Error', error instanceof Error ? error.message : 'Failed to apply discount');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={processing}>
+            <Text style={[styles.cancelText, processing && styles.disabledText]}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>{title}</Text>
+          <View style={styles.spacer} />
+        </View>
+
+        <View style={styles.content}>
+          <Text style={styles.sectionTitle}>Discount Type</Text>
+          <View style={styles.typeButtons}>
+            <TouchableOpacity
+              style={[styles.typeButton, type === 'percent' && styles.typeButtonActive]}
+              onPress={() => setType('percent')}
+              disabled={processing}
+            >
+              <Text style={[styles.typeButtonText, type === 'percent' && styles.typeButtonTextActive]}>
+                Percent (%)
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.typeButton, type === 'amount' && styles.typeButtonActive]}
+              onPress={() => setType('amount')}
+              disabled={processing}
+            >
+              <Text style={[styles.typeButtonText, type === 'amount' && styles.typeButtonTextActive]}>
+                Fixed ($)
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <TextInput
+            style={styles.input}
+            value={value}
+            onChangeText={setValue}
+            placeholder={type === 'percent' ? '10' : '5.00'}
+            keyboardType="numeric"
+            editable={!processing}
+          />
+
+          <TextInput
+            style={styles.input}
+            value={reason}
+            onChangeText={setReason}
+            placeholder="Reason (e.g. damaged packaging)"
+            editable={!processing}
+          />
+
+          {requiresApproval && (
+            <View style={styles.approvalSection}>
+              <Text style={styles.sectionTitle}>Manager Approval</Text>
+              <TextInput
+                style={styles.input}
+                value={managerUsername}
+                onChangeText={setManagerUsername}
+                placeholder="Manager username"
+                autoCapitalize="none"
+                editable={!processing}
+              />
+              <TextInput
+                style={styles.input}
+                value={managerPassword}
+                onChangeText={setManagerPassword}
+                placeholder="Manager PIN or password"
+                secureTextEntry
+                editable={!processing}
+              />
+            </View>
+          )}
+        </View>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.applyButton, processing && styles.buttonDisabled]}
+            onPress={handleApply}
+            disabled={processing}
+          >
+            <Text style={styles.applyButtonText}>
+              {processing ? 'Applying...' : 'Apply Discount'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  disabledText: {
+    opacity: 0.5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 15,
+    color: '#333',
+  },
+  typeButtons: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 15,
+  },
+  typeButton: {
+    flex: 1,
+    padding: 15,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+  },
+  typeButtonActive: {
+    borderColor: '#27ae60',
+    backgroundColor: '#e8f5e8',
+  },
+  typeButtonText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  typeButtonTextActive: {
+    color: '#27ae60',
+    fontWeight: 'bold',
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 15,
+    fontSize: 16,
+    marginBottom: 15,
+    backgroundColor: '#f8f9fa',
+  },
+  approvalSection: {
+    marginTop: 15,
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e9ecef',
+  },
+  applyButton: {
+    backgroundColor: '#27ae60',
+    padding: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: '#95a5a6',
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  Share
+} from 'react-native';
+import { format } from 'date-fns';
+import { giftCardService, GiftCardLiabilityReport } from '../services/GiftCardService';
+
+interface GiftCardLiabilityModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Unspent gift card and store credit balances the business still owes
+ */
+export const GiftCardLiabilityModal: React.FC<GiftCardLiabilityModalProps> = ({ visible, onClose }) => {
+  const [report, setReport] = useState<GiftCardLiabilityReport | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      loadReport();
+    }
+  }, [visible]);
+
+  const loadReport = async () => {
+    try {
+      setReport(await giftCardService.getLiabilityReport());
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load gift card liability');
+    }
+  };
+
+  const handleShare = async () => {
+    if (!report) {
+      return;
+    }
+    const lines = [
+      'code,kind,balance,last_activity',
+      ...report.cards.map(({ card, balance, lastActivity }) =>
+        [card.code, card.kind, balance.toFixed(2), lastActivity.toISOString()].join(',')
+      ),
+    ];
+    try {
+      await Share.share({
+        title: 'Gift Card Liability',
+        message: lines.join('\n'),
+      });
+    } catch (error) {
+      Alert.alert('Error', 'Failed to share report');
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancelText}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Gift Card Liability</Text>
+          <TouchableOpacity style={styles.spacer} onPress={handleShare} disabled={!report}>
+            <Text style={styles.shareText}>Export</Text>
+          </TouchableOpacity>
+        </View>
+
+        {report && (
+          <ScrollView style={styles.content}>
+            <Text style={styles.detail}>As of {format(report.asOf, 'MMM d, yyyy h:mm a')}</Text>
+            <Text style={styles.total}>${report.totalOutstanding.toFixed(2)}</Text>
+
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Gift cards ({report.byKind.gift_card.count})</Text>
+              <Text style={styles.summaryValue}>${report.byKind.gift_card.balance.toFixed(2)}</Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Store credit ({report.byKind.store_credit.count})</Text>
+              <Text style={styles.summaryValue}>${report.byKind.store_credit.balance.toFixed(2)}</Text>
+            </View>
+
+            <Text style={styles.sectionTitle}>Outstanding Cards</Text>
+            {report.cards.length === 0 ? (
+              <Text style={styles.emptyText}>No outstanding balances.</Text>
+            ) : (
+              report.cards.map(({ card, balance, lastActivity }) => (
+                <View key={card.code} style={styles.cardRow}>
+                  <View style={styles.cardInfo}>
+                    <Text style={styles.cardCode}>{giftCardService.maskCode(card.code)}</Text>
+                    <Text style={styles.detail}>
+                      {card.kind === 'store_credit' ? 'Store credit' : 'Gift card'}
+                      {' · last used '}
+                      {format(lastActivity, 'MMM d, yyyy')}
+                    </Text>
+                  </View>
+                  <Text style={styles.summaryValue}>${balance.toFixed(2)}</Text>
+                </View>
+              ))
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+    alignItems: 'flex-end',
+  },
+  shareText: {
+    fontSize: 16,
+    color: '#27ae60',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  total: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#333',
+    marginVertical: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  summaryLabel: {
+    fontSize: 16,
+    color: '#666',
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 24,
+    marginBottom: 10,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  cardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardCode: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  detail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+});
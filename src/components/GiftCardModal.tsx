@@ -0,0 +1,387 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { format } from 'date-fns';
+import { CartItem, GiftCardEntry, GiftCardEntryType } from '../types';
+import { giftCardService, GiftCardBalance } from '../services/GiftCardService';
+import { BarcodeScanner } from './BarcodeScanner';
+
+interface GiftCardModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onAddToCart: (item: CartItem) => void;
+}
+
+type GiftCardMode = 'sell' | 'balance';
+
+const QUICK_AMOUNTS = [25, 50, 100];
+
+const ENTRY_LABELS: Record<GiftCardEntryType, string> = {
+  issue: 'Issued',
+  reload: 'Reloaded',
+  redeem: 'Spent',
+  refund: 'Refunded',
+  reverse: 'Reversed',
+};
+
+/**
+ * Sell or reload a gift card, or check a card's balance
+ */
+export const GiftCardModal: React.FC<GiftCardModalProps> = ({ visible, onClose, onAddToCart }) => {
+  const [mode, setMode] = useState<GiftCardMode>('sell');
+  const [code, setCode] = useState('');
+  const [amount, setAmount] = useState('');
+  const [showScanner, setShowScanner] = useState(false);
+  const [card, setCard] = useState<GiftCardBalance | null>(null);
+  const [history, setHistory] = useState<GiftCardEntry[]>([]);
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setMode('sell');
+      setCode('');
+      setAmount('');
+      setCard(null);
+      setHistory([]);
+    }
+  }, [visible]);
+
+  const handleAddToCart = async () => {
+    setProcessing(true);
+    try {
+      onAddToCart(await giftCardService.createCartItem(parseFloat(amount), code.trim() || undefined));
+    } catch (error) {
+      Alert.alert('Gift Card', error instanceof Error ? error.message : 'Failed to add gift card');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const checkBalance = async (value: string) => {
+    if (!value.trim()) {
+      return;
+    }
+    setProcessing(true);
+    try {
+      const found = await giftCardService.lookup(value);
+      setCard(found);
+      setHistory(await giftCardService.getHistory(found.card.code));
+    } catch (error) {
+      setCard(null);
+      setHistory([]);
+      Alert.alert('Gift Card', error instanceof Error ? error.message : 'Failed to check balance');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleScan = (barcode: string) => {
+    setShowScanner(false);
+    setCode(barcode);
+    if (mode === 'balance') {
+      checkBalance(barcode);
+    }
+  };
+
+  const amountValue = parseFloat(amount);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={processing}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Gift Card</Text>
+          <View style={styles.spacer} />
+        </View>
+
+        <ScrollView style={styles.content}>
+          <View style={styles.modeButtons}>
+            {(['sell', 'balance'] as GiftCardMode[]).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.modeButton, mode === option && styles.modeButtonActive]}
+                onPress={() => setMode(option)}
+                disabled={processing}
+              >
+                <Text style={[styles.modeButtonText, mode === option && styles.modeButtonTextActive]}>
+                  {option === 'sell' ? 'Sell / Reload' : 'Check Balance'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.codeRow}>
+            <TextInput
+              style={[styles.input, styles.codeInput]}
+              value={code}
+              onChangeText={setCode}
+              placeholder={mode === 'sell' ? 'Card code (blank for a new code)' : 'Card code'}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              editable={!processing}
+              onSubmitEditing={() => mode === 'balance' && checkBalance(code)}
+            />
+            <TouchableOpacity style={styles.scanButton} onPress={() => setShowScanner(true)} disabled={processing}>
+              <Text style={styles.scanButtonText}>Scan</Text>
+            </TouchableOpacity>
+          </View>
+
+          {mode === 'sell' ? (
+            <>
+              <View style={styles.quickAmounts}>
+                {QUICK_AMOUNTS.map(quick => (
+                  <TouchableOpacity
+                    key={quick}
+                    style={styles.quickAmountButton}
+                    onPress={() => setAmount(quick.toFixed(2))}
+                    disabled={processing}
+                  >
+                    <Text style={styles.quickAmountText}>${quick}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TextInput
+                style={styles.input}
+                value={amount}
+                onChangeText={setAmount}
+                placeholder="Amount to load"
+                keyboardType="numeric"
+                editable={!processing}
+              />
+              <Text style={styles.hintText}>
+                Codes already on file are reloaded. Gift cards are not taxed or discounted.
+              </Text>
+              <TouchableOpacity
+                style={[styles.applyButton, (processing || !(amountValue > 0)) && styles.buttonDisabled]}
+                onPress={handleAddToCart}
+                disabled={processing || !(amountValue > 0)}
+              >
+                <Text style={styles.applyButtonText}>Add to Sale</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <TouchableOpacity
+                style={[styles.applyButton, (processing || !code.trim()) && styles.buttonDisabled]}
+                onPress={() => checkBalance(code)}
+                disabled={processing || !code.trim()}
+              >
+                <Text style={styles.applyButtonText}>Check Balance</Text>
+              </TouchableOpacity>
+
+              {card && (
+                <View style={styles.balanceCard}>
+                  <Text style={styles.detail}>
+                    {card.card.kind === 'store_credit' ? 'Store credit' : 'Gift card'}{' '}
+                    {giftCardService.formatCode(card.card.code)}
+                  </Text>
+                  <Text style={styles.balance}>${card.balance.toFixed(2)}</Text>
+                </View>
+              )}
+
+              {history.map(entry => (
+                <View key={entry.id} style={styles.entryRow}>
+                  <View style={styles.entryInfo}>
+                    <Text style={styles.entryType}>{ENTRY_LABELS[entry.type]}</Text>
+                    <Text style={styles.detail}>
+                      {format(new Date(entry.createdAt), 'MMM d, yyyy h:mm a')}
+                      {entry.transactionId ? ` · ${entry.transactionId}` : ''}
+                    </Text>
+                  </View>
+                  <Text style={[styles.amount, entry.amount < 0 && styles.amountNegative]}>
+                    {entry.amount > 0 ? '+' : '-'}${Math.abs(entry.amount).toFixed(2)}
+                  </Text>
+                </View>
+              ))}
+            </>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      <BarcodeScanner
+        visible={showScanner}
+        onScan={handleScan}
+        onClose={() => setShowScanner(false)}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  modeButtons: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 20,
+  },
+  modeButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    alignItems: 'center',
+  },
+  modeButtonActive: {
+    borderColor: '#27ae60',
+    backgroundColor: '#27ae60',
+  },
+  modeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  modeButtonTextActive: {
+    color: '#fff',
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 15,
+    fontSize: 16,
+    marginBottom: 15,
+    backgroundColor: '#f8f9fa',
+  },
+  codeRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  codeInput: {
+    flex: 1,
+  },
+  scanButton: {
+    paddingHorizontal: 16,
+    height: 56,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    justifyContent: 'center',
+  },
+  scanButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  quickAmounts: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 15,
+  },
+  quickAmountButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#f8f9fa',
+    alignItems: 'center',
+  },
+  quickAmountText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 15,
+  },
+  applyButton: {
+    backgroundColor: '#27ae60',
+    padding: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  balanceCard: {
+    alignItems: 'center',
+    paddingVertical: 20,
+  },
+  balance: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 4,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryType: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  detail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  amount: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#27ae60',
+  },
+  amountNegative: {
+    color: '#e74c3c',
+  },
+});
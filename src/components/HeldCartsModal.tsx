@@ -0,0 +1,345 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { CartItem, DiscountComponent, HeldCart } from '../types';
+import { standardPOSService } from '../services/StandardPOSService';
+
+interface HeldCartsModalProps {
+  visible: boolean;
+  cart: CartItem[];
+  headerDiscounts?: DiscountComponent[];
+  onClose: () => void;
+  onHold: (heldCart: HeldCart) => void;
+  onRecall: (heldCart: HeldCart) => void;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const HeldCartsModal: React.FC<HeldCartsModalProps> = ({
+  visible,
+  cart,
+  headerDiscounts,
+  onClose,
+  onHold,
+  onRecall
+}) => {
+  const [heldCarts, setHeldCarts] = useState<HeldCart[]>([]);
+  const [label, setLabel] = useState('');
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+
+    setLabel('');
+    setNote('');
+    loadHeldCarts();
+  }, [visible]);
+
+  const loadHeldCarts = async () => {
+    setLoading(true);
+    try {
+      setHeldCarts(await standardPOSService.getHeldCarts());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleHold = async () => {
+    setProcessing(true);
+    try {
+      const heldCart = await standardPOSService.holdCart(cart, { label, note, headerDiscounts });
+      onHold(heldCart);
+    } catch (error) {
+      Alert.alert('Hold Error', error instanceof Error ? error.message : 'Failed to hold cart');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleRecall = async (heldCart: HeldCart) => {
+    setProcessing(true);
+    try {
+      const recalled = await standardPOSService.recallHeldCart(heldCart.id);
+      onRecall(recalled);
+    } catch (error) {
+      Alert.alert('Recall Error', error instanceof Error ? error.message : 'Failed to recall cart');
+      loadHeldCarts();
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleDelete = (heldCart: HeldCart) => {
+    Alert.alert(
+      'Delete Held Cart',
+      `Discard cart ${heldCart.number}${heldCart.label ? ` (${heldCart.label})` : ''}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await standardPOSService.deleteHeldCart(heldCart.id);
+            loadHeldCarts();
+          }
+        }
+      ]
+    );
+  };
+
+  const getCartTotal = (heldCart: HeldCart) =>
+    standardPOSService.calculateCartTotals(heldCart.items, heldCart.headerDiscounts).total;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={processing}>
+            <Text style={[styles.cancelText, processing && styles.disabledText]}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Held Carts</Text>
+          <View style={styles.spacer} />
+        </View>
+
+        <ScrollView style={styles.content}>
+          {cart.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>Hold Current Cart</Text>
+              <TextInput
+                style={styles.input}
+                value={label}
+                onChangeText={setLabel}
+                placeholder="Name (optional)"
+                editable={!processing}
+              />
+              <TextInput
+                style={styles.input}
+                value={note}
+                onChangeText={setNote}
+                placeholder="Note (optional)"
+                editable={!processing}
+              />
+              <TouchableOpacity
+                style={[styles.holdButton, processing && styles.buttonDisabled]}
+                onPress={handleHold}
+                disabled={processing}
+              >
+                <Text style={styles.holdButtonText}>
+                  Hold {cart.length} Item{cart.length === 1 ? '' : 's'}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          <Text style={styles.sectionTitle}>Waiting ({heldCarts.length})</Text>
+          {cart.length > 0 && heldCarts.length > 0 && (
+            <Text style={styles.hintText}>Hold or finish the current cart before recalling another.</Text>
+          )}
+
+          {loading ? (
+            <ActivityIndicator size="large" color="#27ae60" />
+          ) : heldCarts.length === 0 ? (
+            <Text style={styles.emptyText}>No held carts</Text>
+          ) : (
+            heldCarts.map(heldCart => (
+              <View key={heldCart.id} style={styles.cartRow}>
+                <View style={styles.cartInfo}>
+                  <Text style={styles.cartName}>
+                    Cart {heldCart.number}{heldCart.label ? ` · ${heldCart.label}` : ''}
+                  </Text>
+                  <Text style={styles.cartTotal}>${getCartTotal(heldCart).toFixed(2)}</Text>
+                </View>
+                <Text style={styles.cartDetail}>
+                  {heldCart.items.length} item{heldCart.items.length === 1 ? '' : 's'} · held{' '}
+                  {formatTime(heldCart.heldAt)}
+                  {heldCart.operatorName ? ` by ${heldCart.operatorName}` : ''} · expires{' '}
+                  {formatTime(heldCart.expiresAt)}
+                </Text>
+                {heldCart.note && <Text style={styles.cartNote}>{heldCart.note}</Text>}
+
+                <View style={styles.cartActions}>
+                  <TouchableOpacity
+                    style={[
+                      styles.recallButton,
+                      (processing || cart.length > 0) && styles.buttonDisabled
+                    ]}
+                    onPress={() => handleRecall(heldCart)}
+                    disabled={processing || cart.length > 0}
+                  >
+                    <Text style={styles.recallButtonText}>Recall</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.deleteButton}
+                    onPress={() => handleDelete(heldCart)}
+                    disabled={processing}
+                  >
+                    <Text style={styles.deleteButtonText}>Delete</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  disabledText: {
+    opacity: 0.5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 10,
+    marginBottom: 15,
+    color: '#333',
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 15,
+    fontSize: 16,
+    marginBottom: 10,
+    backgroundColor: '#f8f9fa',
+  },
+  holdButton: {
+    backgroundColor: '#f39c12',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  holdButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 10,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  cartRow: {
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  cartInfo: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cartName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cartTotal: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#27ae60',
+  },
+  cartDetail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  cartNote: {
+    fontSize: 14,
+    color: '#495057',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  cartActions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 10,
+  },
+  recallButton: {
+    backgroundColor: '#27ae60',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+  },
+  recallButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  deleteButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#e74c3c',
+  },
+  deleteButtonText: {
+    color: '#e74c3c',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    backgroundColor: '#95a5a6',
+  },
+});
@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView
+} from 'react-native';
+import { LoginAttemptRecord } from '../types';
+import { authService } from '../services/AuthService';
+
+interface LockedAccountsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// "user:jane" -> "jane", "device:device-123" -> "This device"
+const describeKey = (key: string): string =>
+  key.startsWith('device:') ? 'This device (all usernames)' : key.replace(/^user:/, '');
+
+export const LockedAccountsModal: React.FC<LockedAccountsModalProps> = ({ visible, onClose }) => {
+  const [locked, setLocked] = useState<LoginAttemptRecord[]>([]);
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      loadLocked();
+    }
+  }, [visible]);
+
+  const loadLocked = async () => {
+    try {
+      setLocked(await authService.getLockedAccounts());
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load locked accounts');
+    }
+  };
+
+  const handleUnlock = async (record: LoginAttemptRecord) => {
+    setProcessing(true);
+    try {
+      await authService.unlockAccount(record.key);
+      await loadLocked();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to unlock account');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={processing}>
+            <Text style={styles.cancelText}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Locked Accounts</Text>
+          <View style={styles.spacer} />
+        </View>
+
+        <ScrollView style={styles.content}>
+          {locked.length === 0 ? (
+            <Text style={styles.emptyText}>No accounts are locked out.</Text>
+          ) : (
+            locked.map(record => (
+              <View key={record.key} style={styles.row}>
+                <View style={styles.info}>
+                  <Text style={styles.name}>{describeKey(record.key)}</Text>
+                  <Text style={styles.detail}>
+                    {record.failures} failed attempts · locked until{' '}
+                    {record.lockedUntil ? new Date(record.lockedUntil).toLocaleTimeString() : '—'}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => handleUnlock(record)} disabled={processing}>
+                  <Text style={styles.unlockText}>Unlock</Text>
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  info: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  detail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  unlockText: {
+    fontSize: 14,
+    color: '#27ae60',
+    fontWeight: 'bold',
+  },
+});
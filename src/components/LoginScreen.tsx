@@ -18,10 +18,11 @@ import { theme } from '../styles/theme';
 
 interface LoginScreenProps {
   onRegisterPress: () => void;
+  onResetPress: () => void;
 }
 
-export const LoginScreen: React.FC<LoginScreenProps> = ({ onRegisterPress }) => {
-  const { login, isLoading, error, clearError } = useAuth();
+export const LoginScreen: React.FC<LoginScreenProps> = ({ onRegisterPress, onResetPress }) => {
+  const { login, isLoading, error, clearError, twoFactorRequired, cancelTwoFactor } = useAuth();
   const [credentials, setCredentials] = useState<LoginCredentials>({
     username: '',
     password: '',
@@ -35,10 +36,20 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onRegisterPress }) =>
       return;
     }
     
+    if (twoFactorRequired && !credentials.totpCode?.trim()) {
+      Alert.alert('Validation Error', 'Please enter the code from your authenticator app');
+      return;
+    }
+    
     clearError();
     await login(credentials);
   };
 
+  const handleCancelTwoFactor = () => {
+    setCredentials(prev => ({ ...prev, totpCode: undefined }));
+    cancelTwoFactor();
+  };
+
 
 
   const updateCredentials = (field: keyof LoginCredentials, value: string) => {
@@ -110,6 +121,25 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onRegisterPress }) =>
             </View>
           </View>
 
+          {/* Authenticator Code */}
+          {twoFactorRequired && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Authentication Code</Text>
+              <TextInput
+                style={styles.input}
+                value={credentials.totpCode ?? ''}
+                onChangeText={(text) => updateCredentials('totpCode', text)}
+                placeholder="6-digit code or a recovery code"
+                autoCapitalize="none"
+                autoCorrect={false}
+                autoFocus
+              />
+              <TouchableOpacity onPress={handleCancelTwoFactor} disabled={isLoading}>
+                <Text style={styles.registerText}>Use a different account</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
           {/* Remember Me */}
           <TouchableOpacity
             style={styles.rememberMeContainer}
@@ -149,6 +179,17 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onRegisterPress }) =>
 
 
 
+          {/* Reset Code Link */}
+          <TouchableOpacity
+            style={styles.registerLink}
+            onPress={onResetPress}
+            disabled={isLoading}
+          >
+            <Text style={styles.registerText}>
+              Forgot your password? <Text style={styles.registerTextBold}>Use a reset code</Text>
+            </Text>
+          </TouchableOpacity>
+
           {/* Register Link */}
           <TouchableOpacity
             style={styles.registerLink}
@@ -0,0 +1,266 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView
+} from 'react-native';
+import { format } from 'date-fns';
+import { Customer, LoyaltyEntryType, LoyaltyLedgerEntry } from '../types';
+import { loyaltyService } from '../services/LoyaltyService';
+import { RequirePermission } from '../contexts/AuthContext';
+
+interface LoyaltyHistoryModalProps {
+  visible: boolean;
+  customer: Customer | null;
+  onClose: () => void;
+}
+
+const ENTRY_LABELS: Record<LoyaltyEntryType, string> = {
+  earn: 'Earned',
+  redeem: 'Redeemed',
+  reverse: 'Returned',
+  adjust: 'Adjusted',
+};
+
+/**
+ * A customer's points balance and every change to it, with manual
+ * adjustments for managers
+ */
+export const LoyaltyHistoryModal: React.FC<LoyaltyHistoryModalProps> = ({ visible, customer, onClose }) => {
+  const [entries, setEntries] = useState<LoyaltyLedgerEntry[]>([]);
+  const [points, setPoints] = useState('');
+  const [reason, setReason] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (visible && customer) {
+      setPoints('');
+      setReason('');
+      loadHistory(customer.id);
+    }
+  }, [visible, customer]);
+
+  const loadHistory = async (customerId: string) => {
+    try {
+      setEntries(await loyaltyService.getHistory(customerId));
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load loyalty points');
+    }
+  };
+
+  const handleAdjust = async () => {
+    if (!customer) {
+      return;
+    }
+    setProcessing(true);
+    try {
+      await loyaltyService.adjustPoints(customer.id, parseInt(points, 10), reason);
+      setPoints('');
+      setReason('');
+      await loadHistory(customer.id);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to adjust points');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const balance = entries.reduce((sum, entry) => sum + entry.points, 0);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={processing}>
+            <Text style={styles.cancelText}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Loyalty Points</Text>
+          <View style={styles.spacer} />
+        </View>
+
+        <ScrollView style={styles.content}>
+          <Text style={styles.customerName}>{customer?.name}</Text>
+          <Text style={styles.balance}>{balance} points</Text>
+
+          <RequirePermission permission="canManageSettings">
+            <Text style={styles.sectionTitle}>Adjust Points</Text>
+            <View style={styles.row}>
+              <TextInput
+                style={[styles.input, styles.pointsInput]}
+                value={points}
+                onChangeText={setPoints}
+                placeholder="+/- points"
+                keyboardType="numbers-and-punctuation"
+                editable={!processing}
+              />
+              <TextInput
+                style={[styles.input, styles.reasonInput]}
+                value={reason}
+                onChangeText={setReason}
+                placeholder="Reason"
+                editable={!processing}
+              />
+            </View>
+            <TouchableOpacity
+              style={[styles.button, (processing || !points || !reason.trim()) && styles.buttonDisabled]}
+              onPress={handleAdjust}
+              disabled={processing || !points || !reason.trim()}
+            >
+              <Text style={styles.buttonText}>Adjust</Text>
+            </TouchableOpacity>
+          </RequirePermission>
+
+          <Text style={styles.sectionTitle}>History</Text>
+          {entries.length === 0 ? (
+            <Text style={styles.emptyText}>No points yet.</Text>
+          ) : (
+            entries.map(entry => (
+              <View key={entry.id} style={styles.entryRow}>
+                <View style={styles.entryInfo}>
+                  <Text style={styles.entryType}>{ENTRY_LABELS[entry.type]}</Text>
+                  <Text style={styles.detail}>
+                    {format(new Date(entry.createdAt), 'MMM d, yyyy h:mm a')}
+                    {entry.transactionId ? ` · ${entry.transactionId}` : ''}
+                  </Text>
+                  {entry.reason && <Text style={styles.detail}>{entry.reason}</Text>}
+                </View>
+                <View style={styles.entryPoints}>
+                  <Text style={[styles.points, entry.points < 0 && styles.pointsNegative]}>
+                    {entry.points > 0 ? `+${entry.points}` : entry.points}
+                  </Text>
+                  <Text style={styles.detail}>{entry.balance}</Text>
+                </View>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  customerName: {
+    fontSize: 16,
+    color: '#666',
+  },
+  balance: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 24,
+    marginBottom: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 10,
+  },
+  pointsInput: {
+    flex: 1,
+  },
+  reasonInput: {
+    flex: 2,
+  },
+  button: {
+    backgroundColor: '#27ae60',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryType: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  detail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  entryPoints: {
+    alignItems: 'flex-end',
+  },
+  points: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#27ae60',
+  },
+  pointsNegative: {
+    color: '#e74c3c',
+  },
+});
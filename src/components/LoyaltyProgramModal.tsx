@@ -0,0 +1,364 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  Switch,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { loyaltyService } from '../services/LoyaltyService';
+
+interface LoyaltyProgramModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+interface CategoryForm {
+  category: string;
+  multiplier: string;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const EMPTY_CATEGORY: CategoryForm = { category: '', multiplier: '' };
+
+/**
+ * How customers earn and redeem loyalty points
+ */
+export const LoyaltyProgramModal: React.FC<LoyaltyProgramModalProps> = ({ visible, onClose }) => {
+  const [enabled, setEnabled] = useState(false);
+  const [pointsPerUnit, setPointsPerUnit] = useState('');
+  const [pointValue, setPointValue] = useState('');
+  const [minRedeemPoints, setMinRedeemPoints] = useState('');
+  const [categories, setCategories] = useState<CategoryForm[]>([EMPTY_CATEGORY]);
+  // Bonus multiplier per weekday, blank for none
+  const [weekdayBonus, setWeekdayBonus] = useState<string[]>(WEEKDAYS.map(() => ''));
+  // Single-date bonuses as YYYY-MM-DD=multiplier
+  const [dateBonuses, setDateBonuses] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      loadProgram();
+    }
+  }, [visible]);
+
+  const loadProgram = async () => {
+    const program = await loyaltyService.getProgram();
+    setEnabled(program.enabled);
+    setPointsPerUnit(program.pointsPerUnit.toString());
+    setPointValue(program.pointValue.toString());
+    setMinRedeemPoints(program.minRedeemPoints ? program.minRedeemPoints.toString() : '');
+
+    const multipliers = Object.entries(program.categoryMultipliers || {});
+    setCategories(multipliers.length > 0
+      ? multipliers.map(([category, multiplier]) => ({ category, multiplier: multiplier.toString() }))
+      : [EMPTY_CATEGORY]);
+
+    const bonusDays = program.bonusDays || [];
+    setWeekdayBonus(WEEKDAYS.map((_, weekday) =>
+      bonusDays.find(bonus => bonus.weekday === weekday)?.multiplier.toString() || ''
+    ));
+    setDateBonuses(bonusDays
+      .filter(bonus => bonus.date)
+      .map(bonus => `${bonus.date}=${bonus.multiplier}`)
+      .join(', '));
+  };
+
+  const updateCategory = (index: number, changes: Partial<CategoryForm>) => {
+    setCategories(categories.map((c, idx) => (idx === index ? { ...c, ...changes } : c)));
+  };
+
+  const handleSave = async () => {
+    const dates = dateBonuses.split(',').map(entry => entry.trim()).filter(Boolean);
+    if (dates.some(entry => !/^\d{4}-\d{2}-\d{2}=\d+(\.\d+)?$/.test(entry))) {
+      Alert.alert('Bonus Dates', 'Enter bonus dates as YYYY-MM-DD=multiplier, separated by commas.');
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      await loyaltyService.saveProgram({
+        enabled,
+        pointsPerUnit: parseFloat(pointsPerUnit),
+        pointValue: parseFloat(pointValue),
+        minRedeemPoints: parseInt(minRedeemPoints || '0', 10),
+        categoryMultipliers: Object.fromEntries(
+          categories
+            .filter(c => c.category.trim() && c.multiplier.trim())
+            .map(c => [c.category.trim(), parseFloat(c.multiplier)])
+        ),
+        bonusDays: [
+          ...weekdayBonus
+            .map((multiplier, weekday) => ({ weekday, multiplier: parseFloat(multiplier) }))
+            .filter(bonus => !isNaN(bonus.multiplier)),
+          ...dates.map(entry => {
+            const [date, multiplier] = entry.split('=');
+            return { date, multiplier: parseFloat(multiplier) };
+          }),
+        ],
+      });
+      onClose();
+    } catch (error) {
+      Alert.alert('Loyalty Program', error instanceof Error ? error.message : 'Failed to save loyalty program');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={processing}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Loyalty Program</Text>
+          <View style={styles.spacer} />
+        </View>
+
+        <ScrollView style={styles.content}>
+          <View style={styles.switchRow}>
+            <Text style={styles.label}>Customers earn points</Text>
+            <Switch value={enabled} onValueChange={setEnabled} disabled={processing} />
+          </View>
+
+          <Text style={styles.label}>Points per $1 spent (before tax)</Text>
+          <TextInput
+            style={styles.input}
+            value={pointsPerUnit}
+            onChangeText={setPointsPerUnit}
+            placeholder="1"
+            keyboardType="numeric"
+            editable={!processing}
+          />
+          <Text style={styles.label}>Value of one point when redeemed</Text>
+          <TextInput
+            style={styles.input}
+            value={pointValue}
+            onChangeText={setPointValue}
+            placeholder="0.01"
+            keyboardType="numeric"
+            editable={!processing}
+          />
+          <Text style={styles.label}>Fewest points redeemed at once</Text>
+          <TextInput
+            style={styles.input}
+            value={minRedeemPoints}
+            onChangeText={setMinRedeemPoints}
+            placeholder="0"
+            keyboardType="number-pad"
+            editable={!processing}
+          />
+
+          <Text style={styles.sectionTitle}>Category Multipliers</Text>
+          {categories.map((category, idx) => (
+            <View key={idx} style={styles.row}>
+              <TextInput
+                style={[styles.input, styles.wide]}
+                value={category.category}
+                onChangeText={(text) => updateCategory(idx, { category: text })}
+                placeholder="Product category"
+                editable={!processing}
+              />
+              <TextInput
+                style={[styles.input, styles.narrow]}
+                value={category.multiplier}
+                onChangeText={(text) => updateCategory(idx, { multiplier: text })}
+                placeholder="2"
+                keyboardType="numeric"
+                editable={!processing}
+              />
+              {categories.length > 1 && (
+                <TouchableOpacity
+                  onPress={() => setCategories(categories.filter((_, i) => i !== idx))}
+                  disabled={processing}
+                >
+                  <Text style={styles.deleteText}>✕</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+          <TouchableOpacity
+            onPress={() => setCategories([...categories, EMPTY_CATEGORY])}
+            disabled={processing}
+          >
+            <Text style={styles.addText}>+ Add Category</Text>
+          </TouchableOpacity>
+
+          <Text style={styles.sectionTitle}>Bonus Days</Text>
+          <View style={styles.weekdays}>
+            {WEEKDAYS.map((day, weekday) => (
+              <View key={day} style={styles.weekday}>
+                <Text style={styles.weekdayLabel}>{day}</Text>
+                <TextInput
+                  style={[styles.input, styles.weekdayInput]}
+                  value={weekdayBonus[weekday]}
+                  onChangeText={(text) => setWeekdayBonus(weekdayBonus.map((value, i) => (i === weekday ? text : value)))}
+                  placeholder="×"
+                  keyboardType="numeric"
+                  editable={!processing}
+                />
+              </View>
+            ))}
+          </View>
+          <TextInput
+            style={styles.input}
+            value={dateBonuses}
+            onChangeText={setDateBonuses}
+            placeholder="Dates, e.g. 2026-11-27=3"
+            autoCapitalize="none"
+            editable={!processing}
+          />
+          <Text style={styles.hintText}>
+            Multipliers don't stack; a sale gets the highest bonus for its day.
+          </Text>
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.saveButton, processing && styles.buttonDisabled]}
+            onPress={handleSave}
+            disabled={processing}
+          >
+            <Text style={styles.saveButtonText}>{processing ? 'Saving...' : 'Save Program'}</Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 6,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 20,
+    marginBottom: 15,
+    color: '#333',
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 15,
+    fontSize: 16,
+    marginBottom: 10,
+    backgroundColor: '#f8f9fa',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  wide: {
+    flex: 2,
+  },
+  narrow: {
+    flex: 1,
+  },
+  weekdays: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  weekday: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  weekdayLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
+  weekdayInput: {
+    alignSelf: 'stretch',
+    paddingHorizontal: 4,
+    textAlign: 'center',
+  },
+  addText: {
+    fontSize: 14,
+    color: '#27ae60',
+    fontWeight: 'bold',
+  },
+  deleteText: {
+    fontSize: 14,
+    color: '#e74c3c',
+    fontWeight: 'bold',
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  footer: {
+    padding: 20,
+    gap: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#e9ecef',
+  },
+  saveButton: {
+    backgroundColor: '#27ae60',
+    padding: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,279 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import {
+  managerOverrideService,
+  OverrideApproval,
+  OverrideRequest,
+} from '../services/ManagerOverrideService';
+import { TwoFactorRequiredError } from '../services/AuthService';
+
+interface ManagerOverrideModalProps {
+  visible: boolean;
+  title: string;
+  request: OverrideRequest | null;
+  onApproved: (approval: OverrideApproval) => void;
+  onCancel: () => void;
+}
+
+export const ManagerOverrideModal: React.FC<ManagerOverrideModalProps> = ({
+  visible,
+  title,
+  request,
+  onApproved,
+  onCancel,
+}) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [totpCode, setTotpCode] = useState('');
+  const [needsCode, setNeedsCode] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [processing, setProcessing] = useState(false);
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (visible) {
+      setUsername('');
+      setPassword('');
+      setTotpCode('');
+      setNeedsCode(false);
+      setError(null);
+      setProcessing(false);
+    }
+  }, [visible]);
+
+  const handleApprove = async () => {
+    if (!request) {
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      const approval = await managerOverrideService.requestOverride(request, {
+        username,
+        password,
+        totpCode: needsCode ? totpCode : undefined,
+      });
+      onApproved(approval);
+    } catch (err) {
+      // Keep the password and ask for the manager's authenticator code
+      if (err instanceof TwoFactorRequiredError) {
+        setNeedsCode(true);
+        setError(err.message);
+        return;
+      }
+      setTotpCode('');
+      setError(err instanceof Error ? err.message : 'Manager approval failed');
+      setPassword('');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.backdrop}
+      >
+        <View style={styles.dialog}>
+          <Text style={styles.title}>Manager Approval</Text>
+          <Text style={styles.subtitle}>
+            {title}
+            {request?.amount !== undefined ? ` · $${Math.abs(request.amount).toFixed(2)}` : ''}
+          </Text>
+
+          <TextInput
+            style={styles.input}
+            value={username}
+            onChangeText={(text) => {
+              setUsername(text);
+              setError(null);
+            }}
+            placeholder="Manager username"
+            autoCapitalize="none"
+            editable={!processing}
+          />
+          <TextInput
+            style={styles.input}
+            value={password}
+            onChangeText={(text) => {
+              setPassword(text);
+              setError(null);
+            }}
+            placeholder="Manager PIN or password"
+            secureTextEntry
+            editable={!processing}
+            onSubmitEditing={handleApprove}
+          />
+          {needsCode && (
+            <TextInput
+              style={styles.input}
+              value={totpCode}
+              onChangeText={(text) => {
+                setTotpCode(text);
+                setError(null);
+              }}
+              placeholder="6-digit code or a recovery code"
+              autoCapitalize="none"
+              editable={!processing}
+              onSubmitEditing={handleApprove}
+            />
+          )}
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={processing}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.approveButton, processing && styles.buttonDisabled]}
+              onPress={handleApprove}
+              disabled={processing}
+            >
+              <Text style={styles.approveText}>{processing ? 'Checking...' : 'Approve'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+interface PendingOverride {
+  title: string;
+  request: OverrideRequest;
+  resolve: (approval: OverrideApproval | null) => void;
+}
+
+/**
+ * Ask for a manager override from any component:
+ *
+ *   const { authorize, overrideModal } = useManagerOverride();
+ *   const result = await authorize('Refund', { permission: 'canRefundSales', action: 'refund', amount });
+ *   if (!result.allowed) return;
+ *   ...pass result.approval to the service call, and render {overrideModal}
+ *
+ * Operators who hold the permission are allowed straight away without an approval.
+ */
+export const useManagerOverride = () => {
+  const [pending, setPending] = useState<PendingOverride | null>(null);
+  const pendingRef = useRef<PendingOverride | null>(null);
+  pendingRef.current = pending;
+
+  const authorize = useCallback(
+    (title: string, request: OverrideRequest): Promise<{ allowed: boolean; approval?: OverrideApproval }> => {
+      if (!managerOverrideService.requiresOverride(request.permission)) {
+        return Promise.resolve({ allowed: true });
+      }
+
+      return new Promise(resolve => {
+        setPending({
+          title,
+          request,
+          resolve: approval => resolve(approval ? { allowed: true, approval } : { allowed: false }),
+        });
+      });
+    },
+    []
+  );
+
+  const finish = (approval: OverrideApproval | null) => {
+    pendingRef.current?.resolve(approval);
+    setPending(null);
+  };
+
+  const overrideModal = (
+    <ManagerOverrideModal
+      visible={!!pending}
+      title={pending?.title || ''}
+      request={pending?.request || null}
+      onApproved={finish}
+      onCancel={() => finish(null)}
+    />
+  );
+
+  return { authorize, overrideModal };
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  dialog: {
+    width: '100%',
+    maxWidth: 400,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+    marginBottom: 15,
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 15,
+    fontSize: 16,
+    marginBottom: 15,
+    backgroundColor: '#f8f9fa',
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 14,
+    marginBottom: 15,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 15,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    alignItems: 'center',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  approveButton: {
+    flex: 1,
+    padding: 15,
+    borderRadius: 8,
+    backgroundColor: '#27ae60',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: '#95a5a6',
+  },
+  approveText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
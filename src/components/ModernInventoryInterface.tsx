@@ -15,6 +15,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { Product, CreateProductInput } from '../types';
 import { productService } from '../services/ProductService';
 import { seedDataService } from '../services/SeedDataService';
+import { usePermission } from '../contexts/AuthContext';
 import { modernTheme, getTypography, getSpacing } from '../styles/modern-theme';
 import { ModernButton } from './ui/ModernButton';
 import { ModernCard } from './ui/ModernCard';
@@ -28,6 +29,8 @@ interface InventoryStats {
 }
 
 export const ModernInventoryInterface: React.FC = () => {
+  const canManageProducts = usePermission('canManageProducts');
+  const canAdjustStock = usePermission('canAdjustStock');
   const [products, setProducts] = useState<Product[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const [showAddProductModal, setShowAddProductModal] = useState(false);
@@ -186,6 +189,7 @@ export const ModernInventoryInterface: React.FC = () => {
               <ModernButton
                 title="Edit"
                 onPress={() => handleEditProduct(item)}
+                disabled={!canManageProducts}
                 variant="ghost"
                 size="sm"
                 icon={
@@ -200,6 +204,7 @@ export const ModernInventoryInterface: React.FC = () => {
               <ModernButton
                 title="Stock"
                 onPress={() => handleStockAdjustment(item)}
+                disabled={!canAdjustStock}
                 variant="ghost"
                 size="sm"
                 icon={
@@ -231,6 +236,7 @@ export const ModernInventoryInterface: React.FC = () => {
         <ModernButton
           title="Add Product"
           onPress={handleAddProduct}
+          disabled={!canManageProducts}
           variant="primary"
           size="sm"
           icon={
@@ -312,6 +318,7 @@ export const ModernInventoryInterface: React.FC = () => {
             <ModernButton
               title="Add Product"
               onPress={handleAddProduct}
+              disabled={!canManageProducts}
               variant="primary"
               size="md"
               icon={
@@ -8,16 +8,25 @@ import {
   SafeAreaView,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { Product, CartItem } from '../types';
+import { Product, CartItem, Customer, DiscountComponent, HeldCart, TaxExemption, TenderLineItem } from '../types';
+import { Quote } from '../types/documents';
 import { productService } from '../services/ProductService';
 import { standardPOSService } from '../services/StandardPOSService';
-import { salesService } from '../services/SalesService';
 import { seedDataService } from '../services/SeedDataService';
+import { taxService, formatTaxRate } from '../services/TaxService';
+import { customerService } from '../services/CustomerService';
 import { modernTheme, getTypography, getSpacing } from '../styles/modern-theme';
 import { ModernButton } from './ui/ModernButton';
 import { ModernCard } from './ui/ModernCard';
 import { PaymentProcessor } from './PaymentProcessor';
 import { ReceiptGenerator } from './ReceiptGenerator';
+import { DiscountModal } from './DiscountModal';
+import { HeldCartsModal } from './HeldCartsModal';
+import { CashDrawerModal } from './CashDrawerModal';
+import { TaxExemptionModal } from './TaxExemptionModal';
+import { CustomerModal } from './CustomerModal';
+import { GiftCardModal } from './GiftCardModal';
+import { QuotesModal } from './QuotesModal';
 
 export const ModernPOSInterface: React.FC = () => {
   const [products, setProducts] = useState<Product[]>([]);
@@ -26,6 +35,19 @@ export const ModernPOSInterface: React.FC = () => {
   const [activeView, setActiveView] = useState<'products' | 'cart'>('products');
   const [showPayment, setShowPayment] = useState(false);
   const [currentSale, setCurrentSale] = useState<any>(null);
+  const [cartDiscounts, setCartDiscounts] = useState<DiscountComponent[]>([]);
+  // Cart line being discounted, or 'cart' for a whole-order discount
+  const [discountTarget, setDiscountTarget] = useState<CartItem['id'] | 'cart' | null>(null);
+  const [showHeldCarts, setShowHeldCarts] = useState(false);
+  const [showCashDrawer, setShowCashDrawer] = useState(false);
+  const [taxExemption, setTaxExemption] = useState<TaxExemption | null>(null);
+  const [showTaxExemption, setShowTaxExemption] = useState(false);
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [showCustomer, setShowCustomer] = useState(false);
+  const [showGiftCard, setShowGiftCard] = useState(false);
+  const [showQuotes, setShowQuotes] = useState(false);
+  // Accepted quote the cart was loaded from, linked to the sale once paid
+  const [quoteId, setQuoteId] = useState<string | null>(null);
 
   useEffect(() => {
     loadProducts();
@@ -33,6 +55,7 @@ export const ModernPOSInterface: React.FC = () => {
 
   const loadProducts = async () => {
     try {
+      await taxService.loadSettings();
       const allProducts = await productService.getAllProducts();
       if (allProducts.length === 0) {
         await seedDataService.seedSampleProducts();
@@ -51,7 +74,7 @@ export const ModernPOSInterface: React.FC = () => {
     product.sku.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
-  const cartTotals = standardPOSService.calculateCartTotals(cart, 0.08);
+  const cartTotals = standardPOSService.calculateCartTotals(cart, cartDiscounts, taxExemption || undefined);
 
   const addToCart = (product: Product) => {
     const updatedCart = standardPOSService.addToCart(cart, product, 1);
@@ -59,6 +82,12 @@ export const ModernPOSInterface: React.FC = () => {
     setActiveView('cart');
   };
 
+  const handleAddGiftCard = (item: CartItem) => {
+    setCart([...cart, item]);
+    setShowGiftCard(false);
+    setActiveView('cart');
+  };
+
   const updateQuantity = (itemId: string | number, quantity: number) => {
     if (quantity === 0) {
       removeFromCart(itemId);
@@ -73,6 +102,78 @@ export const ModernPOSInterface: React.FC = () => {
     setCart(updatedCart);
   };
 
+  const handleApplyDiscount = (discount: DiscountComponent) => {
+    if (discountTarget === 'cart') {
+      setCartDiscounts([...cartDiscounts, discount]);
+    } else {
+      setCart(cart.map(item =>
+        item.id === discountTarget
+          ? { ...item, discounts: [...(item.discounts || []), discount] }
+          : item
+      ));
+    }
+    setDiscountTarget(null);
+  };
+
+  // Cart discounts skip gift cards, which are sold at face value
+  const discountBase = discountTarget === 'cart'
+    ? cart.filter(item => !item.giftCardCode).reduce((sum, item) => sum + item.price * item.quantity, 0)
+    : cart.filter(item => item.id === discountTarget).reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+  const clearDiscounts = () => {
+    setCart(cart.map(item => ({ ...item, discounts: [] })));
+    setCartDiscounts([]);
+  };
+
+  const handleSelectCustomer = (selected: Customer | null) => {
+    // A tax-exempt customer brings their exemption; dropping them takes it away
+    if (selected?.taxExempt && selected.taxExemptionId) {
+      setTaxExemption({
+        exemptionId: selected.taxExemptionId,
+        customerId: selected.id,
+        customerName: selected.name,
+      });
+    } else if (taxExemption?.customerId && taxExemption.customerId === customer?.id) {
+      setTaxExemption(null);
+    }
+    setCustomer(selected);
+    setShowCustomer(false);
+  };
+
+  const handleHoldCart = (heldCart: HeldCart) => {
+    setCart([]);
+    setCartDiscounts([]);
+    setTaxExemption(null);
+    setCustomer(null);
+    setQuoteId(null);
+    setShowHeldCarts(false);
+    setActiveView('products');
+    Alert.alert('Cart Held', `Saved as cart ${heldCart.number}${heldCart.label ? ` (${heldCart.label})` : ''}`);
+  };
+
+  const handleRecallCart = (heldCart: HeldCart) => {
+    setCart(heldCart.items);
+    setCartDiscounts(heldCart.headerDiscounts || []);
+    setTaxExemption(null);
+    setCustomer(null);
+    setQuoteId(null);
+    setShowHeldCarts(false);
+    setActiveView('cart');
+  };
+
+  const handleLoadQuote = async (quote: Quote, items: CartItem[]) => {
+    const quoteCustomer = quote.customerId ? await customerService.getCustomer(quote.customerId) : null;
+    setCart(items);
+    setCartDiscounts([]);
+    setTaxExemption(quoteCustomer?.taxExempt && quoteCustomer.taxExemptionId
+      ? { exemptionId: quoteCustomer.taxExemptionId, customerId: quoteCustomer.id, customerName: quoteCustomer.name }
+      : null);
+    setCustomer(quoteCustomer);
+    setQuoteId(quote.id);
+    setShowQuotes(false);
+    setActiveView('cart');
+  };
+
   const handlePayment = () => {
     if (cart.length === 0) {
       Alert.alert('Empty Cart', 'Please add items to cart before processing payment.');
@@ -81,23 +182,20 @@ export const ModernPOSInterface: React.FC = () => {
     setShowPayment(true);
   };
 
-  const handlePaymentComplete = async (paymentMethod: 'cash' | 'card' | 'digital', amount: number) => {
+  const handlePaymentComplete = async (tenders: TenderLineItem[]) => {
     try {
-      // Convert POS CartItem to SalesService CartItem
-      const salesCartItems = cart.map(item => {
-        const product = products.find(p => p.id === item.productId);
-        if (!product) {
-          throw new Error(`Product with ID ${item.productId} not found`);
-        }
-        return {
-          product,
-          quantity: item.quantity
-        };
+      const transaction = await standardPOSService.processTransaction(cart, tenders, {
+        headerDiscounts: cartDiscounts,
+        taxExemption: taxExemption || undefined,
+        customerId: customer?.id,
+        quoteId: quoteId || undefined,
       });
-
-      const saleResult = await salesService.processSale(salesCartItems, paymentMethod, amount);
-      setCurrentSale(saleResult);
+      setCurrentSale({ transaction });
       setCart([]);
+      setCartDiscounts([]);
+      setTaxExemption(null);
+      setCustomer(null);
+      setQuoteId(null);
       setShowPayment(false);
       setActiveView('products'); // Changed from setShowReceipt(true) to setActiveView('products')
     } catch (error) {
@@ -134,6 +232,12 @@ export const ModernPOSInterface: React.FC = () => {
       <View style={styles.cartItemInfo}>
         <Text style={styles.cartItemName}>{item.name}</Text>
         <Text style={styles.cartItemSku}>SKU: {item.sku}</Text>
+        {(item.discounts || []).map((discount, idx) => (
+          <Text key={idx} style={styles.discountText}>
+            {discount.type === 'percent' ? `${discount.value}% off` : `$${discount.value.toFixed(2)} off`}
+            {discount.reason ? ` · ${discount.reason}` : ''}
+          </Text>
+        ))}
       </View>
       <View style={styles.cartItemControls}>
         <ModernButton
@@ -149,6 +253,14 @@ export const ModernPOSInterface: React.FC = () => {
           variant="outline"
           size="sm"
         />
+        {!item.giftCardCode && (
+          <ModernButton
+            title="%"
+            onPress={() => setDiscountTarget(item.id)}
+            variant="outline"
+            size="sm"
+          />
+        )}
         <Text style={styles.cartItemTotal}>
           ${(item.price * item.quantity).toFixed(2)}
         </Text>
@@ -162,6 +274,58 @@ export const ModernPOSInterface: React.FC = () => {
       <View style={styles.header}>
         <Text style={styles.title}>Point of Sale</Text>
         <View style={styles.headerActions}>
+          <ModernButton
+            title="Drawer"
+            onPress={() => setShowCashDrawer(true)}
+            variant="outline"
+            size="sm"
+            icon={
+              <Ionicons
+                name="cash-outline"
+                size={20}
+                color={modernTheme.colors.primary[500]}
+              />
+            }
+          />
+          <ModernButton
+            title="Gift Card"
+            onPress={() => setShowGiftCard(true)}
+            variant="outline"
+            size="sm"
+            icon={
+              <Ionicons
+                name="gift-outline"
+                size={20}
+                color={modernTheme.colors.primary[500]}
+              />
+            }
+          />
+          <ModernButton
+            title="Quotes"
+            onPress={() => setShowQuotes(true)}
+            variant="outline"
+            size="sm"
+            icon={
+              <Ionicons
+                name="document-text-outline"
+                size={20}
+                color={modernTheme.colors.primary[500]}
+              />
+            }
+          />
+          <ModernButton
+            title="Held"
+            onPress={() => setShowHeldCarts(true)}
+            variant="outline"
+            size="sm"
+            icon={
+              <Ionicons
+                name="pause-circle-outline"
+                size={20}
+                color={modernTheme.colors.primary[500]}
+              />
+            }
+          />
           <ModernButton
             title={activeView === 'products' ? 'Cart' : 'Products'}
             onPress={() => setActiveView(activeView === 'products' ? 'cart' : 'products')}
@@ -205,6 +369,63 @@ export const ModernPOSInterface: React.FC = () => {
       {/* Cart Summary */}
       {activeView === 'cart' && cart.length > 0 && (
         <View style={styles.cartSummary}>
+          {cartTotals.discountTotal > 0 && (
+            <View style={styles.discountRow}>
+              <Text style={styles.discountLabel}>Discounts:</Text>
+              <Text style={styles.discountLabel}>-${cartTotals.discountTotal.toFixed(2)}</Text>
+            </View>
+          )}
+          <View style={styles.discountActions}>
+            <ModernButton
+              title={customer ? customer.name : 'Customer'}
+              onPress={() => setShowCustomer(true)}
+              variant="outline"
+              size="sm"
+              icon={
+                <Ionicons
+                  name={customer ? 'person' : 'person-add-outline'}
+                  size={16}
+                  color={modernTheme.colors.primary[500]}
+                />
+              }
+            />
+            <ModernButton
+              title="Discount Order"
+              onPress={() => setDiscountTarget('cart')}
+              variant="outline"
+              size="sm"
+            />
+            {cartTotals.discountTotal > 0 && (
+              <ModernButton
+                title="Clear Discounts"
+                onPress={clearDiscounts}
+                variant="ghost"
+                size="sm"
+              />
+            )}
+            <ModernButton
+              title={taxExemption ? 'Tax Exempt ✓' : 'Tax Exempt'}
+              onPress={() => setShowTaxExemption(true)}
+              variant="outline"
+              size="sm"
+            />
+          </View>
+          {taxExemption ? (
+            <View style={styles.discountRow}>
+              <Text style={styles.taxLabel}>Tax exempt ({taxExemption.exemptionId}):</Text>
+              <Text style={styles.taxLabel}>$0.00</Text>
+            </View>
+          ) : (
+            cartTotals.taxes.map(tax => (
+              <View key={`${tax.id || tax.name}@${tax.rate}`} style={styles.discountRow}>
+                <Text style={styles.taxLabel}>
+                  {tax.name} {formatTaxRate(tax.rate)}
+                  {cartTotals.pricesIncludeTax ? ' (incl.)' : ''}:
+                </Text>
+                <Text style={styles.taxLabel}>${tax.amount.toFixed(2)}</Text>
+              </View>
+            ))
+          )}
           <View style={styles.summaryRow}>
             <Text style={styles.summaryLabel}>Total:</Text>
             <Text style={styles.totalValue}>${cartTotals.total.toFixed(2)}</Text>
@@ -232,10 +453,71 @@ export const ModernPOSInterface: React.FC = () => {
         cart={cart}
         total={cartTotals.total}
         tax={cartTotals.tax}
+        customerId={customer?.id}
         onClose={() => setShowPayment(false)}
         onPaymentComplete={handlePaymentComplete}
       />
 
+      {/* Discount Modal */}
+      <DiscountModal
+        visible={discountTarget !== null}
+        title={discountTarget === 'cart' ? 'Order Discount' : 'Item Discount'}
+        base={discountBase}
+        onClose={() => setDiscountTarget(null)}
+        onApply={handleApplyDiscount}
+      />
+
+      {/* Tax Exemption Modal */}
+      <TaxExemptionModal
+        visible={showTaxExemption}
+        exemption={taxExemption}
+        onClose={() => setShowTaxExemption(false)}
+        onApply={(exemption) => {
+          setTaxExemption(exemption);
+          setShowTaxExemption(false);
+        }}
+      />
+
+      {/* Customer Modal */}
+      <CustomerModal
+        visible={showCustomer}
+        customer={customer}
+        onClose={() => setShowCustomer(false)}
+        onSelect={handleSelectCustomer}
+      />
+
+      {/* Gift Card Modal */}
+      <GiftCardModal
+        visible={showGiftCard}
+        onClose={() => setShowGiftCard(false)}
+        onAddToCart={handleAddGiftCard}
+      />
+
+      {/* Quotes Modal */}
+      <QuotesModal
+        visible={showQuotes}
+        cart={cart}
+        customer={customer}
+        onClose={() => setShowQuotes(false)}
+        onLoadQuote={handleLoadQuote}
+      />
+
+      {/* Held Carts Modal */}
+      <HeldCartsModal
+        visible={showHeldCarts}
+        cart={cart}
+        headerDiscounts={cartDiscounts}
+        onClose={() => setShowHeldCarts(false)}
+        onHold={handleHoldCart}
+        onRecall={handleRecallCart}
+      />
+
+      {/* Cash Drawer Modal */}
+      <CashDrawerModal
+        visible={showCashDrawer}
+        onClose={() => setShowCashDrawer(false)}
+      />
+
       {/* Receipt Modal */}
       {currentSale && (
         <ReceiptGenerator
@@ -346,6 +628,30 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: modernTheme.colors.border.light,
   },
+  discountText: {
+    ...getTypography('xs', 'medium'),
+    color: modernTheme.colors.success[500],
+    marginTop: getSpacing('xs'),
+  },
+  discountRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: getSpacing('sm'),
+  },
+  discountLabel: {
+    ...getTypography('md', 'medium'),
+    color: modernTheme.colors.success[500],
+  },
+  taxLabel: {
+    ...getTypography('md', 'medium'),
+    color: modernTheme.colors.text.secondary,
+  },
+  discountActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: getSpacing('sm'),
+    marginBottom: getSpacing('md'),
+  },
   summaryRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
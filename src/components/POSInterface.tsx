@@ -13,11 +13,14 @@ import {
   Platform,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { Product, CartItem, RetailTransaction } from '../types';
+import { Product, CartItem, HeldCart, RetailTransaction } from '../types';
 import { productService } from '../services/ProductService';
 import { standardPOSService } from '../services/StandardPOSService';
 import { seedDataService } from '../services/SeedDataService';
+import { taxService } from '../services/TaxService';
 import { BarcodeScanner } from './BarcodeScanner';
+import { HeldCartsModal } from './HeldCartsModal';
+import { CashDrawerModal } from './CashDrawerModal';
 
 const { width, height } = Dimensions.get('window');
 
@@ -42,6 +45,8 @@ export const POSInterface: React.FC = () => {
   const [showReceipt, setShowReceipt] = useState(false);
   const [currentTransaction, setCurrentTransaction] = useState<RetailTransaction | null>(null);
   const [activeView, setActiveView] = useState<'products' | 'cart'>('products');
+  const [showHeldCarts, setShowHeldCarts] = useState(false);
+  const [showCashDrawer, setShowCashDrawer] = useState(false);
 
   // Load products
   useEffect(() => {
@@ -50,6 +55,7 @@ export const POSInterface: React.FC = () => {
 
   const loadProducts = async () => {
     try {
+      await taxService.loadSettings();
       const allProducts = await productService.getAllProducts();
       if (allProducts.length === 0) {
         await seedDataService.seedSampleProducts();
@@ -70,7 +76,7 @@ export const POSInterface: React.FC = () => {
   );
 
   // Cart calculations
-  const cartTotals = standardPOSService.calculateCartTotals(cart, 0.08);
+  const cartTotals = standardPOSService.calculateCartTotals(cart);
 
   // Add to cart
   const addToCart = (product: Product) => {
@@ -102,10 +108,24 @@ export const POSInterface: React.FC = () => {
     }
   };
 
+  // Park the current cart / bring a held one back
+  const handleHoldCart = (heldCart: HeldCart) => {
+    setCart([]);
+    setShowHeldCarts(false);
+    setActiveView('products');
+    Alert.alert('Cart Held', `Saved as cart ${heldCart.number}`);
+  };
+
+  const handleRecallCart = (heldCart: HeldCart) => {
+    setCart(heldCart.items);
+    setShowHeldCarts(false);
+    setActiveView('cart');
+  };
+
   // Process payment
   const handlePayment = async (method: 'cash' | 'card' | 'digital', amount: number) => {
     try {
-      const transaction = await standardPOSService.processTransaction(cart, method, amount);
+      const transaction = await standardPOSService.processTransaction(cart, [{ type: method, amount }]);
       setCurrentTransaction(transaction);
       setCart([]);
       setShowPayment(false);
@@ -168,6 +188,12 @@ export const POSInterface: React.FC = () => {
       <View style={styles.header}>
         <Text style={styles.title}>Professional POS System</Text>
         <View style={styles.headerActions}>
+          <TouchableOpacity style={styles.scanButton} onPress={() => setShowCashDrawer(true)}>
+            <Ionicons name="cash" size={24} color="white" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.scanButton} onPress={() => setShowHeldCarts(true)}>
+            <Ionicons name="pause-circle" size={24} color="white" />
+          </TouchableOpacity>
           <TouchableOpacity style={styles.scanButton} onPress={() => setShowScanner(true)}>
             <Ionicons name="barcode" size={24} color="white" />
           </TouchableOpacity>
@@ -260,7 +286,9 @@ export const POSInterface: React.FC = () => {
                     <Text style={styles.summaryValue}>${cartTotals.subtotal.toFixed(2)}</Text>
                   </View>
                   <View style={styles.summaryRow}>
-                    <Text style={styles.summaryLabel}>Tax:</Text>
+                    <Text style={styles.summaryLabel}>
+                      {cartTotals.pricesIncludeTax ? 'Tax (included):' : 'Tax:'}
+                    </Text>
                     <Text style={styles.summaryValue}>${cartTotals.tax.toFixed(2)}</Text>
                   </View>
                   <View style={styles.totalRow}>
@@ -287,6 +315,18 @@ export const POSInterface: React.FC = () => {
         onScan={handleBarcodeScanned}
       />
 
+      {/* Cash Drawer */}
+      <CashDrawerModal visible={showCashDrawer} onClose={() => setShowCashDrawer(false)} />
+
+      {/* Held Carts */}
+      <HeldCartsModal
+        visible={showHeldCarts}
+        cart={cart}
+        onClose={() => setShowHeldCarts(false)}
+        onHold={handleHoldCart}
+        onRecall={handleRecallCart}
+      />
+
       {/* Payment Modal */}
       <Modal visible={showPayment} animationType="slide">
         <SafeAreaView style={styles.modalContainer}>
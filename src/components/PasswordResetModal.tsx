@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView
+} from 'react-native';
+import { User } from '../types';
+import { authService } from '../services/AuthService';
+
+interface PasswordResetModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Admin-issued credentials for registers without email: a temporary
+ * password that must be changed at next login, or a reset code the user
+ * redeems on the sign-in screen
+ */
+export const PasswordResetModal: React.FC<PasswordResetModalProps> = ({ visible, onClose }) => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      loadUsers();
+    }
+  }, [visible]);
+
+  const loadUsers = async () => {
+    try {
+      setUsers((await authService.getAllUsers()).filter(user => user.isActive));
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load users');
+    }
+  };
+
+  const issueTemporaryPassword = async (user: User) => {
+    setProcessing(true);
+    try {
+      const password = await authService.issueTemporaryPassword(user.id);
+      Alert.alert(
+        'Temporary Password',
+        `Give ${user.firstName} this password:\n\n${password}\n\nThey will have to choose a new one when they sign in.`
+      );
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to issue temporary password');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const confirmTemporaryPassword = (user: User) => {
+    Alert.alert(
+      'Issue Temporary Password',
+      `${user.firstName}'s current password will stop working. Continue?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Issue', style: 'destructive', onPress: () => issueTemporaryPassword(user) }
+      ]
+    );
+  };
+
+  const issueResetCode = async (user: User) => {
+    setProcessing(true);
+    try {
+      const { code, expiresAt } = await authService.issueResetCode(user.id);
+      Alert.alert(
+        'Reset Code',
+        `Give ${user.firstName} this code:\n\n${code}\n\nThey can use it on the sign-in screen until ${expiresAt.toLocaleString()}.`
+      );
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to issue reset code');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const resetTwoFactor = async (user: User) => {
+    setProcessing(true);
+    try {
+      await authService.disableTwoFactor(user.id);
+      Alert.alert('Two-Factor Reset', `${user.firstName} can sign in without an authenticator code until they set it up again.`);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to reset two-factor authentication');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const confirmResetTwoFactor = (user: User) => {
+    Alert.alert(
+      'Reset Two-Factor',
+      `Remove ${user.firstName}'s authenticator app and recovery codes? Use this when they have lost their phone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reset', style: 'destructive', onPress: () => resetTwoFactor(user) }
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={processing}>
+            <Text style={styles.cancelText}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Reset Passwords</Text>
+          <View style={styles.spacer} />
+        </View>
+
+        <ScrollView style={styles.content}>
+          {users.length === 0 ? (
+            <Text style={styles.emptyText}>No active users.</Text>
+          ) : (
+            users.map(user => (
+              <View key={user.id} style={styles.row}>
+                <View style={styles.info}>
+                  <Text style={styles.name}>{user.firstName} {user.lastName}</Text>
+                  <Text style={styles.detail}>{user.username} · {user.role}</Text>
+                </View>
+                <View style={styles.actions}>
+                  <TouchableOpacity onPress={() => confirmTemporaryPassword(user)} disabled={processing}>
+                    <Text style={styles.actionText}>Temporary Password</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => issueResetCode(user)} disabled={processing}>
+                    <Text style={styles.actionText}>Reset Code</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => confirmResetTwoFactor(user)} disabled={processing}>
+                    <Text style={styles.actionText}>Reset Two-Factor</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  info: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  detail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  actions: {
+    alignItems: 'flex-end',
+    gap: 10,
+  },
+  actionText: {
+    fontSize: 14,
+    color: '#27ae60',
+    fontWeight: 'bold',
+  },
+});
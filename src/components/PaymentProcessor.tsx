@@ -10,78 +10,214 @@ import {
   KeyboardAvoidingView,
   Platform
 } from 'react-native';
-import { CartItem } from '../types';
+import { CartItem, TenderLineItem, TenderType } from '../types';
+import { standardPOSService } from '../services/StandardPOSService';
+import { loyaltyService } from '../services/LoyaltyService';
+import { giftCardService } from '../services/GiftCardService';
+import { accountsReceivableService } from '../services/AccountsReceivableService';
 
 interface PaymentProcessorProps {
   visible: boolean;
   cart: CartItem[];
   total: number;
   tax: number;
+  customerId?: string; // offers the customer's loyalty points and house account as tenders
   onClose: () => void;
-  onPaymentComplete: (paymentMethod: 'cash' | 'card' | 'digital', amount: number) => void;
+  onPaymentComplete: (tenders: TenderLineItem[]) => void;
 }
 
+const TENDER_OPTIONS: { type: TenderType; label: string }[] = [
+  { type: 'cash', label: '💵 Cash' },
+  { type: 'card', label: '💳 Card' },
+  { type: 'digital', label: '📱 Digital' },
+  { type: 'store_credit', label: '🎟️ Credit' },
+  { type: 'loyalty_points', label: '⭐ Points' },
+  { type: 'on_account', label: '🧾 Account' },
+];
+
+const tenderLabel = (type: TenderType): string =>
+  TENDER_OPTIONS.find(option => option.type === type)?.label || type;
+
 export const PaymentProcessor: React.FC<PaymentProcessorProps> = ({
   visible,
   cart,
   total,
   tax,
+  customerId,
   onClose,
   onPaymentComplete
 }) => {
-  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'card' | 'digital'>('cash');
-  const [cashReceived, setCashReceived] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<TenderType>('cash');
+  const [amountEntered, setAmountEntered] = useState('');
+  const [tenders, setTenders] = useState<TenderLineItem[]>([]);
   const [processing, setProcessing] = useState(false);
+  // Currency value of the customer's points, when the program is on
+  const [pointsValue, setPointsValue] = useState<{ points: number; value: number } | null>(null);
+  // Gift card or store credit being spent, once its code is looked up
+  const [creditCode, setCreditCode] = useState('');
+  const [creditCard, setCreditCard] = useState<{ code: string; balance: number } | null>(null);
+  // Credit left on the customer's house account, when they are approved to charge
+  const [accountAvailable, setAccountAvailable] = useState<number | null>(null);
   
   const subtotal = total - tax;
-  const change = paymentMethod === 'cash' ? Math.max(0, parseFloat(cashReceived || '0') - total) : 0;
-  const isValidPayment = paymentMethod !== 'cash' || parseFloat(cashReceived || '0') >= total;
+  const { paid, remaining } = standardPOSService.calculateTenderBalance(total, tenders);
+  const amount = parseFloat(amountEntered || '0');
+  const pointsAvailable = Math.max(0, (pointsValue?.value || 0) - tenders
+    .filter(tender => tender.type === 'loyalty_points')
+    .reduce((sum, tender) => sum + tender.amount, 0));
+  const creditAvailable = creditCard
+    ? Math.max(0, creditCard.balance - tenders
+      .filter(tender => tender.type === 'store_credit' && tender.reference === creditCard.code)
+      .reduce((sum, tender) => sum + tender.amount, 0))
+    : 0;
+  const accountCreditLeft = Math.max(0, (accountAvailable || 0) - tenders
+    .filter(tender => tender.type === 'on_account')
+    .reduce((sum, tender) => sum + tender.amount, 0));
+  const maxAmount = paymentMethod === 'loyalty_points'
+    ? Math.min(remaining, pointsAvailable)
+    : paymentMethod === 'store_credit'
+      ? Math.min(remaining, creditAvailable)
+      : paymentMethod === 'on_account'
+        ? Math.min(remaining, accountCreditLeft)
+        : remaining;
+  const tenderOptions = TENDER_OPTIONS.filter(option =>
+    (option.type !== 'loyalty_points' || pointsValue) && (option.type !== 'on_account' || accountAvailable !== null)
+  );
+
+  // Only cash can be over-tendered; other tenders are capped at the balance due
+  const isValidAmount = amount > 0 && (paymentMethod === 'cash' || amount <= maxAmount + 0.005);
+  const coversBalance = isValidAmount && amount >= remaining - 0.005;
+  const change = paymentMethod === 'cash' ? Math.max(0, amount - remaining) : 0;
 
   // Reset form when modal opens
   useEffect(() => {
     if (visible) {
       setPaymentMethod('cash');
-      setCashReceived(total.toFixed(2)); // Default to exact amount
+      setAmountEntered(total.toFixed(2)); // Default to exact amount
+      setTenders([]);
+      setProcessing(false);
+      setCreditCode('');
+      setCreditCard(null);
+      loadPoints();
+      loadAccount();
+    }
+  }, [visible, total, customerId]);
+
+  const loadPoints = async () => {
+    setPointsValue(null);
+    if (!customerId) {
+      return;
+    }
+    try {
+      const program = await loyaltyService.getProgram();
+      if (program.enabled) {
+        const points = await loyaltyService.getBalance(customerId);
+        setPointsValue({ points, value: loyaltyService.pointsToAmount(points, program) });
+      }
+    } catch (error) {
+      console.error('Failed to load loyalty points:', error);
+    }
+  };
+
+  const loadAccount = async () => {
+    setAccountAvailable(null);
+    if (!customerId) {
+      return;
+    }
+    try {
+      const account = await accountsReceivableService.getAccount(customerId);
+      if (account.creditLimit > 0) {
+        setAccountAvailable(account.available);
+      }
+    } catch (error) {
+      console.error('Failed to load customer account:', error);
+    }
+  };
+
+  const handleSelectMethod = (method: TenderType) => {
+    setPaymentMethod(method);
+    const limit = method === 'loyalty_points'
+      ? pointsAvailable
+      : method === 'on_account' ? accountCreditLeft : remaining;
+    setAmountEntered(Math.min(remaining, limit).toFixed(2));
+  };
+
+  const handleLookupCredit = async () => {
+    setProcessing(true);
+    try {
+      const { card, balance } = await giftCardService.lookup(creditCode);
+      const spent = tenders
+        .filter(tender => tender.type === 'store_credit' && tender.reference === card.code)
+        .reduce((sum, tender) => sum + tender.amount, 0);
+      setCreditCard({ code: card.code, balance });
+      setAmountEntered(Math.min(remaining, Math.max(0, balance - spent)).toFixed(2));
+    } catch (error) {
+      setCreditCard(null);
+      Alert.alert('Gift Card', error instanceof Error ? error.message : 'Failed to check balance');
+    } finally {
       setProcessing(false);
     }
-  }, [visible, total]);
+  };
 
   const handlePayment = async () => {
-    if (!isValidPayment) {
-      Alert.alert('Invalid Payment', 'Payment amount must be at least the total amount.');
+    if (!isValidAmount) {
+      Alert.alert(
+        'Invalid Payment',
+        paymentMethod === 'cash'
+          ? 'Enter an amount greater than zero.'
+          : `This payment cannot exceed $${maxAmount.toFixed(2)}.`
+      );
       return;
     }
 
     setProcessing(true);
     
     try {
-      const paymentAmount = paymentMethod === 'cash' 
-        ? parseFloat(cashReceived) 
-        : total;
-
       // Simulate processing delay for card payments
       if (paymentMethod === 'card') {
         await new Promise(resolve => setTimeout(resolve, 2000));
       }
 
-      onPaymentComplete(paymentMethod, paymentAmount);
+      const updatedTenders = [
+        ...tenders,
+        paymentMethod === 'store_credit' && creditCard
+          ? { type: paymentMethod, amount, reference: creditCard.code }
+          : { type: paymentMethod, amount },
+      ];
+
+      if (coversBalance) {
+        onPaymentComplete(updatedTenders);
+        return;
+      }
+
+      // Partial payment: keep collecting until the balance is zero
+      const balance = standardPOSService.calculateTenderBalance(total, updatedTenders);
+      setTenders(updatedTenders);
+      setAmountEntered(balance.remaining.toFixed(2));
+      setProcessing(false);
     } catch (error) {
       Alert.alert('Payment Error', 'Payment processing failed. Please try again.');
       setProcessing(false);
     }
   };
 
-  const handleQuickCash = (amount: number) => {
-    setCashReceived(amount.toFixed(2));
+  const handleRemoveTender = (index: number) => {
+    const updatedTenders = tenders.filter((_, idx) => idx !== index);
+    setTenders(updatedTenders);
+    setAmountEntered(standardPOSService.calculateTenderBalance(total, updatedTenders).remaining.toFixed(2));
+  };
+
+  const handleQuickCash = (quickAmount: number) => {
+    setAmountEntered(quickAmount.toFixed(2));
   };
 
   const quickCashAmounts = [
-    total, // Exact change
-    Math.ceil(total), // Round up to nearest dollar
-    Math.ceil(total / 5) * 5, // Round up to nearest $5
-    Math.ceil(total / 10) * 10, // Round up to nearest $10
-    Math.ceil(total / 20) * 20, // Round up to nearest $20
-  ].filter((amount, index, arr) => arr.indexOf(amount) === index && amount > 0); // Remove duplicates
+    remaining, // Exact change
+    Math.ceil(remaining), // Round up to nearest dollar
+    Math.ceil(remaining / 5) * 5, // Round up to nearest $5
+    Math.ceil(remaining / 10) * 10, // Round up to nearest $10
+    Math.ceil(remaining / 20) * 20, // Round up to nearest $20
+  ].filter((value, index, arr) => arr.indexOf(value) === index && value > 0); // Remove duplicates
 
   return (
     <Modal
@@ -120,115 +256,155 @@ export const PaymentProcessor: React.FC<PaymentProcessorProps> = ({
               <Text style={styles.totalLabel}>Total:</Text>
               <Text style={styles.totalValue}>${total.toFixed(2)}</Text>
             </View>
+
+            {/* Tenders collected so far */}
+            {tenders.map((tender, index) => (
+              <View key={index} style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>
+                  {tenderLabel(tender.type)}
+                  {tender.reference ? ` ${giftCardService.maskCode(tender.reference)}` : ''}
+                </Text>
+                <View style={styles.tenderAmount}>
+                  <Text style={styles.summaryValue}>${tender.amount.toFixed(2)}</Text>
+                  <TouchableOpacity onPress={() => handleRemoveTender(index)} disabled={processing}>
+                    <Text style={styles.removeTenderText}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+            {tenders.length > 0 && (
+              <View style={[styles.summaryRow, styles.totalRow]}>
+                <Text style={styles.totalLabel}>Balance Due:</Text>
+                <Text style={styles.totalValue}>${remaining.toFixed(2)}</Text>
+              </View>
+            )}
+            {paid > 0 && (
+              <Text style={styles.paidText}>Paid so far: ${paid.toFixed(2)}</Text>
+            )}
           </View>
 
           {/* Payment Method Selection */}
           <View style={styles.paymentMethodSection}>
             <Text style={styles.sectionTitle}>Payment Method</Text>
             <View style={styles.methodButtons}>
-              <TouchableOpacity
-                style={[
-                  styles.methodButton,
-                  paymentMethod === 'cash' && styles.methodButtonActive
-                ]}
-                onPress={() => setPaymentMethod('cash')}
-                disabled={processing}
-              >
-                <Text style={[
-                  styles.methodButtonText,
-                  paymentMethod === 'cash' && styles.methodButtonTextActive
-                ]}>💵 Cash</Text>
-              </TouchableOpacity>
-              
-              <TouchableOpacity
-                style={[
-                  styles.methodButton,
-                  paymentMethod === 'card' && styles.methodButtonActive
-                ]}
-                onPress={() => setPaymentMethod('card')}
-                disabled={processing}
-              >
-                <Text style={[
-                  styles.methodButtonText,
-                  paymentMethod === 'card' && styles.methodButtonTextActive
-                ]}>💳 Card</Text>
-              </TouchableOpacity>
-              
-              <TouchableOpacity
-                style={[
-                  styles.methodButton,
-                  paymentMethod === 'digital' && styles.methodButtonActive
-                ]}
-                onPress={() => setPaymentMethod('digital')}
-                disabled={processing}
-              >
-                <Text style={[
-                  styles.methodButtonText,
-                  paymentMethod === 'digital' && styles.methodButtonTextActive
-                ]}>📱 Digital</Text>
-              </TouchableOpacity>
+              {tenderOptions.map(option => (
+                <TouchableOpacity
+                  key={option.type}
+                  style={[
+                    styles.methodButton,
+                    paymentMethod === option.type && styles.methodButtonActive
+                  ]}
+                  onPress={() => handleSelectMethod(option.type)}
+                  disabled={processing}
+                >
+                  <Text style={[
+                    styles.methodButtonText,
+                    paymentMethod === option.type && styles.methodButtonTextActive
+                  ]}>{option.label}</Text>
+                </TouchableOpacity>
+              ))}
             </View>
           </View>
 
-          {/* Cash Payment Details */}
-          {paymentMethod === 'cash' && (
-            <View style={styles.cashSection}>
-              <Text style={styles.sectionTitle}>Cash Received</Text>
-              
-              {/* Quick Amount Buttons */}
+          {/* Amount for this tender */}
+          <View style={styles.cashSection}>
+            <Text style={styles.sectionTitle}>
+              {paymentMethod === 'cash' ? 'Cash Received' : 'Amount'}
+            </Text>
+            
+            {/* Quick Amount Buttons */}
+            {paymentMethod === 'cash' && (
               <View style={styles.quickAmountsContainer}>
-                {quickCashAmounts.slice(0, 4).map((amount) => (
+                {quickCashAmounts.slice(0, 4).map((quickAmount) => (
                   <TouchableOpacity
-                    key={amount}
+                    key={quickAmount}
                     style={styles.quickAmountButton}
-                    onPress={() => handleQuickCash(amount)}
+                    onPress={() => handleQuickCash(quickAmount)}
                     disabled={processing}
                   >
-                    <Text style={styles.quickAmountText}>${amount.toFixed(0)}</Text>
+                    <Text style={styles.quickAmountText}>${quickAmount.toFixed(0)}</Text>
                   </TouchableOpacity>
                 ))}
               </View>
+            )}
 
-              <TextInput
-                style={[
-                  styles.cashInput,
-                  !isValidPayment && styles.inputError
-                ]}
-                value={cashReceived}
-                onChangeText={setCashReceived}
-                placeholder="0.00"
-                keyboardType="numeric"
-                editable={!processing}
-              />
-              
-              {!isValidPayment && (
-                <Text style={styles.errorText}>
-                  Insufficient amount. Minimum: ${total.toFixed(2)}
-                </Text>
-              )}
+            <TextInput
+              style={[
+                styles.cashInput,
+                !isValidAmount && styles.inputError
+              ]}
+              value={amountEntered}
+              onChangeText={setAmountEntered}
+              placeholder="0.00"
+              keyboardType="numeric"
+              editable={!processing}
+            />
+            
+            {!isValidAmount && (
+              <Text style={styles.errorText}>
+                {paymentMethod === 'cash'
+                  ? 'Enter an amount greater than zero'
+                  : `Maximum: $${maxAmount.toFixed(2)}`}
+              </Text>
+            )}
 
-              {/* Change Display */}
-              {isValidPayment && change > 0 && (
-                <View style={styles.changeContainer}>
-                  <Text style={styles.changeLabel}>Change:</Text>
-                  <Text style={styles.changeValue}>${change.toFixed(2)}</Text>
-                </View>
-              )}
-            </View>
-          )}
+            {paymentMethod === 'store_credit' && (
+              <View style={styles.creditRow}>
+                <TextInput
+                  style={[styles.creditInput, styles.creditCodeInput]}
+                  value={creditCode}
+                  onChangeText={(text) => {
+                    setCreditCode(text);
+                    setCreditCard(null);
+                  }}
+                  placeholder="Gift card or store credit code"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  editable={!processing}
+                  onSubmitEditing={handleLookupCredit}
+                />
+                <TouchableOpacity
+                  style={styles.creditButton}
+                  onPress={handleLookupCredit}
+                  disabled={processing || !creditCode.trim()}
+                >
+                  <Text style={styles.creditButtonText}>Check</Text>
+                </TouchableOpacity>
+              </View>
+            )}
 
-          {/* Card/Digital Payment Info */}
-          {(paymentMethod === 'card' || paymentMethod === 'digital') && (
-            <View style={styles.cardSection}>
+            {paymentMethod === 'store_credit' && creditCard && (
               <Text style={styles.cardInfo}>
-                {paymentMethod === 'card' 
-                  ? '💳 Present or insert card when ready'
-                  : '📱 Customer will pay via digital wallet'
-                }
+                ${creditAvailable.toFixed(2)} available on {giftCardService.maskCode(creditCard.code)}
               </Text>
-              <Text style={styles.cardAmount}>Amount: ${total.toFixed(2)}</Text>
-            </View>
-          )}
+            )}
+
+            {paymentMethod === 'on_account' && accountAvailable !== null && (
+              <Text style={styles.cardInfo}>
+                ${accountCreditLeft.toFixed(2)} of credit available; the charge is invoiced to the customer
+              </Text>
+            )}
+
+            {paymentMethod === 'loyalty_points' && pointsValue && (
+              <Text style={styles.cardInfo}>
+                {pointsValue.points} points available (${pointsValue.value.toFixed(2)})
+              </Text>
+            )}
+
+            {isValidAmount && !coversBalance && (
+              <Text style={styles.cardInfo}>
+                ${(remaining - amount).toFixed(2)} will remain for another payment
+              </Text>
+            )}
+
+            {/* Change Display */}
+            {isValidAmount && change > 0 && (
+              <View style={styles.changeContainer}>
+                <Text style={styles.changeLabel}>Change:</Text>
+                <Text style={styles.changeValue}>${change.toFixed(2)}</Text>
+              </View>
+            )}
+          </View>
         </View>
 
         {/* Process Payment Button */}
@@ -236,16 +412,18 @@ export const PaymentProcessor: React.FC<PaymentProcessorProps> = ({
           <TouchableOpacity
             style={[
               styles.processButton,
-              !isValidPayment && styles.buttonDisabled,
+              !isValidAmount && styles.buttonDisabled,
               processing && styles.buttonProcessing
             ]}
             onPress={handlePayment}
-            disabled={!isValidPayment || processing}
+            disabled={!isValidAmount || processing}
           >
             <Text style={styles.processButtonText}>
               {processing 
                 ? (paymentMethod === 'card' ? 'Processing Card...' : 'Processing...')
-                : `Process ${paymentMethod.charAt(0).toUpperCase() + paymentMethod.slice(1)} Payment`
+                : coversBalance
+                  ? 'Complete Payment'
+                  : `Add ${tenderLabel(paymentMethod)} Payment`
               }
             </Text>
           </TouchableOpacity>
@@ -327,6 +505,20 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#27ae60',
   },
+  tenderAmount: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  removeTenderText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  paidText: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 8,
+  },
   paymentMethodSection: {
     marginBottom: 30,
   },
@@ -338,10 +530,12 @@ const styles = StyleSheet.create({
   },
   methodButtons: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 10,
   },
   methodButton: {
-    flex: 1,
+    flexGrow: 1,
+    minWidth: '45%',
     padding: 15,
     borderRadius: 8,
     borderWidth: 2,
@@ -434,6 +628,34 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 10,
   },
+  creditRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 10,
+    marginBottom: 10,
+  },
+  creditInput: {
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#f8f9fa',
+  },
+  creditCodeInput: {
+    flex: 1,
+  },
+  creditButton: {
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: '#27ae60',
+  },
+  creditButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   cardAmount: {
     fontSize: 20,
     fontWeight: 'bold',
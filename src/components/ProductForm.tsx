@@ -10,8 +10,9 @@ import {
   KeyboardAvoidingView,
   Platform 
 } from 'react-native';
-import { Product, CreateProductInput } from '../types';
+import { Product, CreateProductInput, TaxClass } from '../types';
 import { productService } from '../services/ProductService';
+import { taxService } from '../services/TaxService';
 
 interface ProductFormProps {
   product?: Product; // If editing an existing product
@@ -30,11 +31,17 @@ export const ProductForm: React.FC<ProductFormProps> = ({
   const [cost, setCost] = useState(product?.cost.toString() || '');
   const [stockQty, setStockQty] = useState(product?.stock_qty.toString() || '0');
   const [taxRate, setTaxRate] = useState((product?.tax_rate || 0).toString());
+  const [taxClassId, setTaxClassId] = useState<string | null>(product?.tax_class_id || null);
+  const [taxClasses, setTaxClasses] = useState<TaxClass[]>([]);
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
   const isEditing = !!product;
 
+  useEffect(() => {
+    taxService.getTaxClasses().then(setTaxClasses);
+  }, []);
+
   // Auto-generate SKU for new products
   useEffect(() => {
     if (!isEditing && !sku && name) {
@@ -109,7 +116,8 @@ export const ProductForm: React.FC<ProductFormProps> = ({
           price: parseFloat(price),
           cost: parseFloat(cost),
           stock_qty: parseInt(stockQty),
-          tax_rate: parseFloat(taxRate)
+          tax_rate: parseFloat(taxRate),
+          tax_class_id: taxClassId
         });
       } else {
         // Create new product
@@ -119,7 +127,8 @@ export const ProductForm: React.FC<ProductFormProps> = ({
           price: parseFloat(price),
           cost: parseFloat(cost),
           stock_qty: parseInt(stockQty),
-          tax_rate: parseFloat(taxRate)
+          tax_rate: parseFloat(taxRate),
+          tax_class_id: taxClassId
         });
       }
 
@@ -221,6 +230,25 @@ export const ProductForm: React.FC<ProductFormProps> = ({
           </View>
         </View>
 
+        {taxClasses.length > 0 && (
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Tax Class</Text>
+            <View style={styles.chipRow}>
+              {[{ id: null, name: 'None (use rate)' }, ...taxClasses].map(taxClass => (
+                <TouchableOpacity
+                  key={taxClass.id ?? 'none'}
+                  style={[styles.chip, taxClassId === taxClass.id && styles.chipSelected]}
+                  onPress={() => setTaxClassId(taxClass.id)}
+                >
+                  <Text style={[styles.chipText, taxClassId === taxClass.id && styles.chipTextSelected]}>
+                    {taxClass.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Profit Margin Display */}
         {price && cost && !isNaN(parseFloat(price)) && !isNaN(parseFloat(cost)) && (
           <View style={styles.infoBox}>
@@ -302,6 +330,31 @@ const styles = StyleSheet.create({
   halfWidth: {
     flex: 1,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f9f9f9',
+  },
+  chipSelected: {
+    borderColor: '#27ae60',
+    backgroundColor: '#27ae60',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
   infoBox: {
     backgroundColor: '#e8f5e8',
     padding: 10,
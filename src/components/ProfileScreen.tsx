@@ -15,12 +15,24 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
-import { useAuth } from '../contexts/AuthContext';
+import { router } from 'expo-router';
+import { useAuth, usePermission, RequirePermission } from '../contexts/AuthContext';
 import { profileService } from '../services/ProfileService';
+import { authService } from '../services/AuthService';
 import { theme } from '../styles/theme';
 import { Card } from './ui/Card';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
+import { TaxClassesModal } from './TaxClassesModal';
+import { LoyaltyProgramModal } from './LoyaltyProgramModal';
+import { GiftCardLiabilityModal } from './GiftCardLiabilityModal';
+import { AgedReceivablesModal } from './AgedReceivablesModal';
+import { RolesModal } from './RolesModal';
+import { LockedAccountsModal } from './LockedAccountsModal';
+import { PasswordResetModal } from './PasswordResetModal';
+import { TwoFactorModal } from './TwoFactorModal';
+import { SessionsModal } from './SessionsModal';
+import { getPasswordPolicyError, PASSWORD_POLICY_HINT } from '../utils/passwordPolicy';
 import {
   UserProfile,
   BusinessSettings,
@@ -30,12 +42,24 @@ import {
 
 export const ProfileScreen: React.FC = () => {
   const { user, logout } = useAuth();
+  const canManageSettings = usePermission('canManageSettings');
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [businessSettings, setBusinessSettings] = useState<BusinessSettings | null>(null);
   const [loading, setLoading] = useState(false);
   const [showEditProfile, setShowEditProfile] = useState(false);
   const [showBusinessSettings, setShowBusinessSettings] = useState(false);
   const [showChangePassword, setShowChangePassword] = useState(false);
+  const [showSetPin, setShowSetPin] = useState(false);
+  const [hasPin, setHasPin] = useState(false);
+  const [showTaxClasses, setShowTaxClasses] = useState(false);
+  const [showLoyaltyProgram, setShowLoyaltyProgram] = useState(false);
+  const [showGiftCardLiability, setShowGiftCardLiability] = useState(false);
+  const [showAgedReceivables, setShowAgedReceivables] = useState(false);
+  const [showRoles, setShowRoles] = useState(false);
+  const [showLockedAccounts, setShowLockedAccounts] = useState(false);
+  const [showPasswordReset, setShowPasswordReset] = useState(false);
+  const [showTwoFactor, setShowTwoFactor] = useState(false);
+  const [showSessions, setShowSessions] = useState(false);
 
   // Form states
   const [profileForm, setProfileForm] = useState({
@@ -55,7 +79,14 @@ export const ProfileScreen: React.FC = () => {
     currencySymbol: '$',
     taxRate: '0.08',
     timezone: 'UTC',
-    language: 'en'
+    language: 'en',
+    heldCartExpiryHours: '24',
+    idleLockMinutes: '5',
+    loginMaxAttempts: '5',
+    loginDeviceMaxAttempts: '20',
+    loginLockoutMinutes: '15',
+    pricesIncludeTax: false,
+    roundTaxPerInvoice: false
   });
 
   const [passwordForm, setPasswordForm] = useState({
@@ -64,6 +95,12 @@ export const ProfileScreen: React.FC = () => {
     confirmPassword: ''
   });
 
+  const [pinForm, setPinForm] = useState({
+    pin: '',
+    confirmPin: '',
+    currentPassword: ''
+  });
+
   useEffect(() => {
     if (user) {
       loadProfileData();
@@ -77,13 +114,15 @@ export const ProfileScreen: React.FC = () => {
 
     try {
       setLoading(true);
-      const [profile, settings] = await Promise.all([
+      const [profile, settings, pinSet] = await Promise.all([
         profileService.getUserProfile(user.id),
-        profileService.getBusinessSettings()
+        profileService.getBusinessSettings(),
+        authService.hasPin(user.id)
       ]);
 
       setUserProfile(profile);
       setBusinessSettings(settings);
+      setHasPin(pinSet);
 
       // Initialize forms with current data
       if (profile) {
@@ -106,7 +145,14 @@ export const ProfileScreen: React.FC = () => {
           currencySymbol: settings.currencySymbol,
           taxRate: settings.taxRate.toString(),
           timezone: settings.timezone,
-          language: settings.language
+          language: settings.language,
+          heldCartExpiryHours: (settings.heldCartExpiryHours ?? 24).toString(),
+          idleLockMinutes: (settings.idleLockMinutes ?? 5).toString(),
+          loginMaxAttempts: (settings.loginMaxAttempts ?? 5).toString(),
+          loginDeviceMaxAttempts: (settings.loginDeviceMaxAttempts ?? 20).toString(),
+          loginLockoutMinutes: (settings.loginLockoutMinutes ?? 15).toString(),
+          pricesIncludeTax: !!settings.pricesIncludeTax,
+          roundTaxPerInvoice: settings.taxRounding === 'invoice'
         });
       }
     } catch (error) {
@@ -146,6 +192,28 @@ export const ProfileScreen: React.FC = () => {
   };
 
   const handleUpdateBusinessSettings = async () => {
+    const heldCartExpiryHours = parseInt(businessForm.heldCartExpiryHours, 10);
+    if (isNaN(heldCartExpiryHours) || heldCartExpiryHours < 1) {
+      Alert.alert('Error', 'Held cart expiry must be at least 1 hour');
+      return;
+    }
+    const idleLockMinutes = parseInt(businessForm.idleLockMinutes, 10);
+    if (isNaN(idleLockMinutes) || idleLockMinutes < 0) {
+      Alert.alert('Error', 'Idle lock must be 0 (off) or a number of minutes');
+      return;
+    }
+    const loginMaxAttempts = parseInt(businessForm.loginMaxAttempts, 10);
+    const loginDeviceMaxAttempts = parseInt(businessForm.loginDeviceMaxAttempts, 10);
+    if (isNaN(loginMaxAttempts) || loginMaxAttempts < 0 || isNaN(loginDeviceMaxAttempts) || loginDeviceMaxAttempts < 0) {
+      Alert.alert('Error', 'Login attempt limits must be 0 (off) or a number of attempts');
+      return;
+    }
+    const loginLockoutMinutes = parseInt(businessForm.loginLockoutMinutes, 10);
+    if (isNaN(loginLockoutMinutes) || loginLockoutMinutes < 1) {
+      Alert.alert('Error', 'Lockout must be at least 1 minute');
+      return;
+    }
+
     try {
       setLoading(true);
       const updatedSettings = await profileService.updateBusinessSettings({
@@ -157,7 +225,14 @@ export const ProfileScreen: React.FC = () => {
         currencySymbol: businessForm.currencySymbol,
         taxRate: parseFloat(businessForm.taxRate),
         timezone: businessForm.timezone,
-        language: businessForm.language
+        language: businessForm.language,
+        heldCartExpiryHours,
+        idleLockMinutes,
+        loginMaxAttempts,
+        loginDeviceMaxAttempts,
+        loginLockoutMinutes,
+        pricesIncludeTax: businessForm.pricesIncludeTax,
+        taxRounding: businessForm.roundTaxPerInvoice ? 'invoice' : 'line'
       });
 
       setBusinessSettings(updatedSettings);
@@ -181,8 +256,9 @@ export const ProfileScreen: React.FC = () => {
       return;
     }
 
-    if (passwordForm.newPassword.length < 6) {
-      Alert.alert('Error', 'Password must be at least 6 characters long');
+    const policyError = getPasswordPolicyError(passwordForm.newPassword, user.username);
+    if (policyError) {
+      Alert.alert('Error', policyError);
       return;
     }
 
@@ -201,12 +277,57 @@ export const ProfileScreen: React.FC = () => {
       }
     } catch (error) {
       console.error('Failed to change password:', error);
-      Alert.alert('Error', 'Failed to change password');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to change password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSetPin = async () => {
+    if (!user) {
+      return;
+    }
+
+    if (!/^\d{4,6}$/.test(pinForm.pin)) {
+      Alert.alert('Error', 'PIN must be 4 to 6 digits');
+      return;
+    }
+
+    if (pinForm.pin !== pinForm.confirmPin) {
+      Alert.alert('Error', 'PINs do not match');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await authService.setPin(user.id, pinForm.pin, pinForm.currentPassword);
+      setHasPin(true);
+      setShowSetPin(false);
+      setPinForm({ pin: '', confirmPin: '', currentPassword: '' });
+      Alert.alert('Success', 'Register PIN saved');
+    } catch (error) {
+      console.error('Failed to set PIN:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save PIN');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleRemovePin = async () => {
+    if (!user) {
+      return;
+    }
+
+    try {
+      await authService.removePin(user.id);
+      setHasPin(false);
+      setShowSetPin(false);
+    } catch (error) {
+      console.error('Failed to remove PIN:', error);
+      Alert.alert('Error', 'Failed to remove PIN');
+    }
+  };
+
   const handlePickAvatar = async () => {
     if (!user) {
       return;
@@ -401,11 +522,16 @@ export const ProfileScreen: React.FC = () => {
               variant="outline"
               size="sm"
               onPress={() => setShowBusinessSettings(true)}
+              disabled={!canManageSettings}
             />
           </View>
 
           <View style={styles.businessInfo}>
-            <TouchableOpacity style={styles.logoContainer} onPress={handlePickLogo}>
+            <TouchableOpacity
+              style={styles.logoContainer}
+              onPress={handlePickLogo}
+              disabled={!canManageSettings}
+            >
               {businessSettings?.businessLogo ? (
                 <Image 
                   source={{ uri: businessSettings.businessLogo }} 
@@ -454,12 +580,45 @@ export const ProfileScreen: React.FC = () => {
                 {businessSettings ? `${(businessSettings.taxRate * 100).toFixed(1)}%` : 'Not set'}
               </Text>
             </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Prices:</Text>
+              <Text style={styles.detailValue}>
+                {businessSettings?.pricesIncludeTax ? 'Include tax' : 'Before tax'}
+                {businessSettings?.taxRounding === 'invoice' ? ', rounded per invoice' : ', rounded per line'}
+              </Text>
+            </View>
             <View style={styles.detailRow}>
               <Text style={styles.detailLabel}>Timezone:</Text>
               <Text style={styles.detailValue}>
                 {businessSettings?.timezone || 'Not set'}
               </Text>
             </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Held Carts Expire:</Text>
+              <Text style={styles.detailValue}>
+                {businessSettings ? `${businessSettings.heldCartExpiryHours ?? 24}h` : 'Not set'}
+              </Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Idle Lock:</Text>
+              <Text style={styles.detailValue}>
+                {businessSettings
+                  ? (businessSettings.idleLockMinutes ?? 5) > 0
+                    ? `${businessSettings.idleLockMinutes ?? 5} min`
+                    : 'Off'
+                  : 'Not set'}
+              </Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Login Lockout:</Text>
+              <Text style={styles.detailValue}>
+                {businessSettings
+                  ? (businessSettings.loginMaxAttempts ?? 5) > 0
+                    ? `${businessSettings.loginMaxAttempts ?? 5} tries, ${businessSettings.loginLockoutMinutes ?? 15} min`
+                    : 'Off'
+                  : 'Not set'}
+              </Text>
+            </View>
           </View>
         </Card>
 
@@ -474,6 +633,105 @@ export const ProfileScreen: React.FC = () => {
             onPress={() => setShowChangePassword(true)}
             style={styles.actionButton}
           />
+
+          <Button
+            title={hasPin ? 'Change Register PIN' : 'Set Register PIN'}
+            variant="outline"
+            icon="keypad-outline"
+            onPress={() => setShowSetPin(true)}
+            style={styles.actionButton}
+          />
+
+          <Button
+            title="Two-Factor Authentication"
+            variant="outline"
+            icon="phone-portrait-outline"
+            onPress={() => setShowTwoFactor(true)}
+            style={styles.actionButton}
+          />
+
+          <Button
+            title="Active Sessions"
+            variant="outline"
+            icon="phone-portrait-outline"
+            onPress={() => setShowSessions(true)}
+            style={styles.actionButton}
+          />
+
+          <RequirePermission permission="canManageSettings">
+            <Button
+              title="Tax Classes"
+              variant="outline"
+              icon="receipt-outline"
+              onPress={() => setShowTaxClasses(true)}
+              style={styles.actionButton}
+            />
+            <Button
+              title="Loyalty Program"
+              variant="outline"
+              icon="star-outline"
+              onPress={() => setShowLoyaltyProgram(true)}
+              style={styles.actionButton}
+            />
+          </RequirePermission>
+
+          <RequirePermission permission="canViewReports">
+            <Button
+              title="Gift Card Liability"
+              variant="outline"
+              icon="gift-outline"
+              onPress={() => setShowGiftCardLiability(true)}
+              style={styles.actionButton}
+            />
+            <Button
+              title="Aged Receivables"
+              variant="outline"
+              icon="document-text-outline"
+              onPress={() => setShowAgedReceivables(true)}
+              style={styles.actionButton}
+            />
+          </RequirePermission>
+
+          <RequirePermission permission="canManageUsers">
+            <Button
+              title="Manage Users"
+              variant="outline"
+              icon="people-outline"
+              onPress={() => router.push('/users')}
+              style={styles.actionButton}
+            />
+            <Button
+              title="Roles & Permissions"
+              variant="outline"
+              icon="shield-checkmark-outline"
+              onPress={() => setShowRoles(true)}
+              style={styles.actionButton}
+            />
+            <Button
+              title="Locked Accounts"
+              variant="outline"
+              icon="lock-open-outline"
+              onPress={() => setShowLockedAccounts(true)}
+              style={styles.actionButton}
+            />
+            <Button
+              title="Reset User Passwords"
+              variant="outline"
+              icon="key-outline"
+              onPress={() => setShowPasswordReset(true)}
+              style={styles.actionButton}
+            />
+          </RequirePermission>
+
+          <RequirePermission permission="canAccessAuditLogs">
+            <Button
+              title="Audit Log"
+              variant="outline"
+              icon="document-text-outline"
+              onPress={() => router.push('/audit-log')}
+              style={styles.actionButton}
+            />
+          </RequirePermission>
           
                      <Button
              title="Logout"
@@ -589,10 +847,113 @@ export const ProfileScreen: React.FC = () => {
               placeholder="0.08"
               keyboardType="numeric"
             />
+            <Input
+              label="Held Cart Expiry (hours)"
+              value={businessForm.heldCartExpiryHours}
+              onChangeText={(text) => setBusinessForm(prev => ({ ...prev, heldCartExpiryHours: text }))}
+              placeholder="24"
+              keyboardType="numeric"
+            />
+            <Input
+              label="Idle Lock (minutes, 0 = off)"
+              value={businessForm.idleLockMinutes}
+              onChangeText={(text) => setBusinessForm(prev => ({ ...prev, idleLockMinutes: text }))}
+              placeholder="5"
+              keyboardType="numeric"
+            />
+            <Input
+              label="Failed Logins Before Lockout (per user, 0 = off)"
+              value={businessForm.loginMaxAttempts}
+              onChangeText={(text) => setBusinessForm(prev => ({ ...prev, loginMaxAttempts: text }))}
+              placeholder="5"
+              keyboardType="numeric"
+            />
+            <Input
+              label="Failed Logins Before Lockout (per device, 0 = off)"
+              value={businessForm.loginDeviceMaxAttempts}
+              onChangeText={(text) => setBusinessForm(prev => ({ ...prev, loginDeviceMaxAttempts: text }))}
+              placeholder="20"
+              keyboardType="numeric"
+            />
+            <Input
+              label="Lockout Duration (minutes)"
+              value={businessForm.loginLockoutMinutes}
+              onChangeText={(text) => setBusinessForm(prev => ({ ...prev, loginLockoutMinutes: text }))}
+              placeholder="15"
+              keyboardType="numeric"
+            />
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Prices Include Tax (VAT/GST)</Text>
+              <Switch
+                value={businessForm.pricesIncludeTax}
+                onValueChange={(value) => setBusinessForm(prev => ({ ...prev, pricesIncludeTax: value }))}
+                trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+              />
+            </View>
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Round Tax Per Invoice</Text>
+              <Switch
+                value={businessForm.roundTaxPerInvoice}
+                onValueChange={(value) => setBusinessForm(prev => ({ ...prev, roundTaxPerInvoice: value }))}
+                trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+              />
+            </View>
           </KeyboardAvoidingView>
         </SafeAreaView>
       </Modal>
 
+      {/* Tax Classes Modal */}
+      <TaxClassesModal
+        visible={showTaxClasses}
+        onClose={() => setShowTaxClasses(false)}
+      />
+
+      <LoyaltyProgramModal
+        visible={showLoyaltyProgram}
+        onClose={() => setShowLoyaltyProgram(false)}
+      />
+
+      <GiftCardLiabilityModal
+        visible={showGiftCardLiability}
+        onClose={() => setShowGiftCardLiability(false)}
+      />
+
+      <AgedReceivablesModal
+        visible={showAgedReceivables}
+        onClose={() => setShowAgedReceivables(false)}
+      />
+
+      <RolesModal
+        visible={showRoles}
+        onClose={() => setShowRoles(false)}
+      />
+
+      <LockedAccountsModal
+        visible={showLockedAccounts}
+        onClose={() => setShowLockedAccounts(false)}
+      />
+
+      <PasswordResetModal
+        visible={showPasswordReset}
+        onClose={() => setShowPasswordReset(false)}
+      />
+
+      {user && (
+        <TwoFactorModal
+          visible={showTwoFactor}
+          userId={user.id}
+          onClose={() => setShowTwoFactor(false)}
+        />
+      )}
+
+      {user && (
+        <SessionsModal
+          visible={showSessions}
+          userId={user.id}
+          onClose={() => setShowSessions(false)}
+        />
+      )}
+
       {/* Change Password Modal */}
       <Modal
         visible={showChangePassword}
@@ -626,7 +987,7 @@ export const ProfileScreen: React.FC = () => {
               label="New Password"
               value={passwordForm.newPassword}
               onChangeText={(text) => setPasswordForm(prev => ({ ...prev, newPassword: text }))}
-              placeholder="Enter new password"
+              placeholder={PASSWORD_POLICY_HINT}
               secureTextEntry
             />
             <Input
@@ -639,6 +1000,66 @@ export const ProfileScreen: React.FC = () => {
           </KeyboardAvoidingView>
         </SafeAreaView>
       </Modal>
+
+      {/* Register PIN Modal */}
+      <Modal
+        visible={showSetPin}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowSetPin(false)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowSetPin(false)}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Register PIN</Text>
+            <TouchableOpacity onPress={handleSetPin} disabled={loading}>
+              <Text style={styles.saveText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+          
+          <KeyboardAvoidingView 
+            style={styles.modalContent} 
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          >
+            <Input
+              label="PIN (4-6 digits)"
+              value={pinForm.pin}
+              onChangeText={(text) => setPinForm(prev => ({ ...prev, pin: text.replace(/\D/g, '') }))}
+              placeholder="Enter PIN"
+              keyboardType="number-pad"
+              maxLength={6}
+              secureTextEntry
+            />
+            <Input
+              label="Confirm PIN"
+              value={pinForm.confirmPin}
+              onChangeText={(text) => setPinForm(prev => ({ ...prev, confirmPin: text.replace(/\D/g, '') }))}
+              placeholder="Re-enter PIN"
+              keyboardType="number-pad"
+              maxLength={6}
+              secureTextEntry
+            />
+            <Input
+              label="Current Password"
+              value={pinForm.currentPassword}
+              onChangeText={(text) => setPinForm(prev => ({ ...prev, currentPassword: text }))}
+              placeholder="Confirm with your password"
+              secureTextEntry
+            />
+            {hasPin && (
+              <Button
+                title="Remove PIN"
+                variant="outline"
+                icon="trash-outline"
+                onPress={handleRemovePin}
+                style={styles.actionButton}
+              />
+            )}
+          </KeyboardAvoidingView>
+        </SafeAreaView>
+      </Modal>
     </SafeAreaView>
   );
 };
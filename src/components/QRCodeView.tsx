@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { encodeQrCode } from '../utils/qrCode';
+
+interface QRCodeViewProps {
+  value: string;
+  size?: number;
+}
+
+// Modules of light margin scanners need around the code
+const QUIET_ZONE = 4;
+
+/**
+ * Draws a QR code as rows of plain Views, so no SVG or canvas module is needed
+ */
+export const QRCodeView: React.FC<QRCodeViewProps> = ({ value, size = 200 }) => {
+  const matrix = useMemo(() => encodeQrCode(value), [value]);
+  const moduleSize = Math.floor(size / (matrix.length + QUIET_ZONE * 2));
+
+  return (
+    <View style={[styles.container, { padding: moduleSize * QUIET_ZONE }]}>
+      {matrix.map((row, y) => (
+        <View key={y} style={styles.row}>
+          {row.map((dark, x) => (
+            <View
+              key={x}
+              style={{ width: moduleSize, height: moduleSize, backgroundColor: dark ? '#000' : '#fff' }}
+            />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    alignSelf: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+  },
+});
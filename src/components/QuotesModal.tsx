@@ -0,0 +1,358 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  Share,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { format } from 'date-fns';
+import { CartItem, Customer } from '../types';
+import { Quote } from '../types/documents';
+import { quoteService } from '../services/QuoteService';
+import { documentService } from '../services/DocumentService';
+
+interface QuotesModalProps {
+  visible: boolean;
+  cart: CartItem[];
+  customer: Customer | null;
+  onClose: () => void;
+  onLoadQuote: (quote: Quote, items: CartItem[]) => void;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  sent: '#3498db',
+  accepted: '#27ae60',
+  expired: '#e74c3c',
+  cancelled: '#999',
+};
+
+/**
+ * Save the cart as a quote for the customer, and accept earlier quotes into
+ * the cart or as an invoice
+ */
+export const QuotesModal: React.FC<QuotesModalProps> = ({ visible, cart, customer, onClose, onLoadQuote }) => {
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [notes, setNotes] = useState('');
+  const [validDays, setValidDays] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  // Gift cards aren't products and can't be quoted
+  const quotableItems = cart.filter(item => !item.giftCardCode);
+  const hasDiscounts = cart.some(item => (item.discounts || []).length > 0);
+
+  useEffect(() => {
+    if (visible) {
+      setNotes('');
+      setValidDays('');
+      loadQuotes();
+    }
+  }, [visible]);
+
+  const loadQuotes = async () => {
+    try {
+      setQuotes(await quoteService.getQuotes());
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load quotes');
+    }
+  };
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setProcessing(true);
+    try {
+      await action();
+    } catch (error) {
+      Alert.alert('Quote', error instanceof Error ? error.message : failure);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleShare = (quote: Quote) => run(async () => {
+    const result = await documentService.renderQuote(quote.id);
+    if (!result.success || !result.documentUrl) {
+      throw new Error(result.error || 'Failed to render quote');
+    }
+    await Share.share({ title: `Quote ${quote.documentNumber}`, message: result.documentUrl });
+  }, 'Failed to share quote');
+
+  const handleCreate = () => run(async () => {
+    const days = parseInt(validDays, 10);
+    const quote = await quoteService.createQuote({
+      lines: quotableItems.map(item => ({ productId: item.productId, quantity: item.quantity })),
+      customerId: customer?.id,
+      notes,
+      validUntil: days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : undefined,
+    });
+    setNotes('');
+    setValidDays('');
+    await loadQuotes();
+    Alert.alert(
+      'Quote Saved',
+      `Quote ${quote.documentNumber} for $${quote.grandTotal.toFixed(2)} is valid until ${format(quote.validUntil, 'MMM d, yyyy')}.`
+    );
+  }, 'Failed to save quote');
+
+  const handleToCart = (quote: Quote) => run(async () => {
+    const { items } = await quoteService.convertToCart(quote.id);
+    onLoadQuote(quote, items);
+  }, 'Failed to load quote');
+
+  const handleToInvoice = (quote: Quote) => run(async () => {
+    const invoice = await quoteService.convertToInvoice(quote.id);
+    await loadQuotes();
+    Alert.alert('Invoice Created', `Invoice ${invoice.documentNumber} for $${invoice.grandTotal.toFixed(2)}.`);
+  }, 'Failed to create invoice');
+
+  const isOpen = (quote: Quote) => quote.status === 'draft' || quote.status === 'sent';
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={processing}>
+            <Text style={styles.cancelText}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Quotes</Text>
+          <View style={styles.spacer} />
+        </View>
+
+        <ScrollView style={styles.content}>
+          {quotableItems.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>Quote This Cart</Text>
+              <Text style={styles.detail}>
+                {customer ? `For ${customer.name}` : 'No customer attached'} ·{' '}
+                {quotableItems.length} product{quotableItems.length === 1 ? '' : 's'} at list price
+              </Text>
+              {(hasDiscounts || quotableItems.length < cart.length) && (
+                <Text style={styles.hintText}>Discounts and gift cards in the cart are not quoted.</Text>
+              )}
+              <TextInput
+                style={styles.input}
+                value={notes}
+                onChangeText={setNotes}
+                placeholder="Notes for the customer"
+                editable={!processing}
+              />
+              <TextInput
+                style={styles.input}
+                value={validDays}
+                onChangeText={setValidDays}
+                placeholder="Valid for days (default from settings)"
+                keyboardType="number-pad"
+                editable={!processing}
+              />
+              <TouchableOpacity
+                style={[styles.button, processing && styles.buttonDisabled]}
+                onPress={handleCreate}
+                disabled={processing}
+              >
+                <Text style={styles.buttonText}>Save Quote</Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          <Text style={styles.sectionTitle}>Saved Quotes</Text>
+          {quotes.length === 0 ? (
+            <Text style={styles.emptyText}>No quotes yet.</Text>
+          ) : (
+            quotes.map(quote => (
+              <View key={quote.id} style={styles.quoteRow}>
+                <View style={styles.quoteHeader}>
+                  <View style={styles.quoteInfo}>
+                    <Text style={styles.quoteNumber}>{quote.documentNumber}</Text>
+                    <Text style={styles.detail}>
+                      {quote.customerInfo?.name || 'Walk-in'} · valid until {format(quote.validUntil, 'MMM d, yyyy')}
+                    </Text>
+                    {quote.convertedTo && (
+                      <Text style={styles.detail}>
+                        Accepted as {quote.convertedTo.type} {quote.convertedTo.documentNumber || quote.convertedTo.id}
+                      </Text>
+                    )}
+                  </View>
+                  <View style={styles.quoteTotals}>
+                    <Text style={styles.quoteTotal}>${quote.grandTotal.toFixed(2)}</Text>
+                    <Text style={[styles.status, { color: STATUS_COLORS[quote.status] || '#666' }]}>
+                      {quote.status}
+                    </Text>
+                  </View>
+                </View>
+                <View style={styles.actions}>
+                  <TouchableOpacity style={styles.actionButton} onPress={() => handleShare(quote)} disabled={processing}>
+                    <Text style={styles.actionText}>Share</Text>
+                  </TouchableOpacity>
+                  {isOpen(quote) && (
+                    <>
+                      <TouchableOpacity
+                        style={styles.actionButton}
+                        onPress={() => handleToInvoice(quote)}
+                        disabled={processing}
+                      >
+                        <Text style={styles.actionText}>Invoice</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.actionButton, styles.actionButtonPrimary]}
+                        onPress={() => handleToCart(quote)}
+                        disabled={processing}
+                      >
+                        <Text style={[styles.actionText, styles.actionTextPrimary]}>To Cart</Text>
+                      </TouchableOpacity>
+                    </>
+                  )}
+                </View>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 12,
+    marginBottom: 10,
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#e67e22',
+    marginTop: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginTop: 10,
+  },
+  button: {
+    backgroundColor: '#27ae60',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 10,
+    marginBottom: 12,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  quoteRow: {
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  quoteHeader: {
+    flexDirection: 'row',
+  },
+  quoteInfo: {
+    flex: 1,
+  },
+  quoteNumber: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  quoteTotals: {
+    alignItems: 'flex-end',
+  },
+  quoteTotal: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  status: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 4,
+  },
+  detail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 10,
+    marginTop: 12,
+  },
+  actionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    backgroundColor: '#fff',
+  },
+  actionButtonPrimary: {
+    borderColor: '#27ae60',
+    backgroundColor: '#27ae60',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  actionTextPrimary: {
+    color: '#fff',
+  },
+});
@@ -13,6 +13,11 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { theme } from '../styles/theme';
 import { businessConfigService } from '../services/BusinessConfigService';
+import { formatTaxRate } from '../services/TaxService';
+import { customerService } from '../services/CustomerService';
+import { loyaltyService, LoyaltySummary } from '../services/LoyaltyService';
+import { giftCardService, GiftCardReceiptLine } from '../services/GiftCardService';
+import { RetailTransaction, TaxComponent } from '../types';
 
 interface ReceiptItem {
   name: string;
@@ -21,14 +26,23 @@ interface ReceiptItem {
   unitPrice: number;
   total: number;
   tax: number;
+  discount?: number;
 }
 
 interface ReceiptData {
-  saleId: number;
+  saleId: number | string;
   timestamp: string;
   items: ReceiptItem[];
   subtotal: number;
+  discountTotal?: number;
+  discountReasons?: string[];
   totalTax: number;
+  taxes?: TaxComponent[]; // per tax, when the sale was charged more than one
+  taxInclusive?: boolean;
+  taxExemptionId?: string;
+  customerName?: string;
+  loyalty?: LoyaltySummary;
+  giftCards?: GiftCardReceiptLine[];
   grandTotal: number;
   paymentMethod: string;
   paymentAmount: number;
@@ -36,7 +50,7 @@ interface ReceiptData {
 }
 
 interface ReceiptGeneratorProps {
-  sale: any; // SaleResult from SalesService
+  sale: any; // SaleResult from SalesService, or { transaction } from the ledger
   onClose: () => void;
 }
 
@@ -61,7 +75,15 @@ export const ReceiptGenerator: React.FC<ReceiptGeneratorProps> = ({
       setBusinessInfo(business);
 
       // Extract receipt data from sale
-      if (sale && sale.receiptData) {
+      if (sale && sale.transaction) {
+        const { customerId, id } = sale.transaction as RetailTransaction;
+        const customer = customerId ? await customerService.getCustomer(customerId).catch(() => null) : null;
+        const loyalty = customer && id
+          ? await loyaltyService.getTransactionSummary(customer.id, id).catch(() => undefined)
+          : undefined;
+        const giftCards = await giftCardService.getReceiptLines(sale.transaction).catch(() => undefined);
+        setReceiptData({ ...fromTransaction(sale.transaction), customerName: customer?.name, loyalty, giftCards });
+      } else if (sale && sale.receiptData) {
         setReceiptData(sale.receiptData);
       } else {
         // Fallback: create receipt data from sale
@@ -71,7 +93,7 @@ export const ReceiptGenerator: React.FC<ReceiptGeneratorProps> = ({
           quantity: item.qty,
           unitPrice: item.unit_price,
           total: item.qty * item.unit_price,
-          tax: (item.qty * item.unit_price) * 0.08, // Default tax rate
+          tax: item.qty * item.unit_price * (item.product?.tax_rate ?? 0),
         })) || [];
 
         const subtotal = items.reduce((sum, item) => sum + item.total, 0);
@@ -99,6 +121,51 @@ export const ReceiptGenerator: React.FC<ReceiptGeneratorProps> = ({
     }
   };
 
+  const fromTransaction = (transaction: RetailTransaction): ReceiptData => {
+    const items: ReceiptItem[] = transaction.items.map(item => ({
+      name: item.name,
+      sku: item.sku || 'N/A',
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      total: item.quantity * item.unitPrice,
+      tax: item.lineTotal.tax,
+      discount: (item.discounts || []).reduce((sum, d) => sum + (d.amount || 0), 0),
+    }));
+    const payments = transaction.tenders.filter(t => t.amount > 0);
+    const change = transaction.tenders
+      .filter(t => t.amount < 0)
+      .reduce((sum, t) => sum - t.amount, 0);
+    const taxes = new Map<string, TaxComponent>();
+    for (const component of transaction.items.flatMap(item => item.taxes || [])) {
+      const key = `${component.id || component.name}@${component.rate}`;
+      const total = taxes.get(key) || { ...component, amount: 0 };
+      taxes.set(key, { ...total, amount: total.amount + component.amount });
+    }
+    const discountReasons = Array.from(new Set(
+      transaction.items
+        .flatMap(item => item.discounts || [])
+        .map(d => d.reason)
+        .filter((reason): reason is string => !!reason)
+    ));
+
+    return {
+      saleId: transaction.id || transaction.sequence || 0,
+      timestamp: new Date(transaction.timestamp || transaction.endTime || Date.now()).toISOString(),
+      items,
+      subtotal: transaction.totals.subTotal,
+      discountTotal: transaction.totals.discountTotal,
+      discountReasons,
+      totalTax: transaction.totals.taxTotal,
+      taxes: taxes.size > 1 ? Array.from(taxes.values()) : undefined,
+      taxInclusive: transaction.totals.taxInclusive,
+      taxExemptionId: transaction.taxExemptionId,
+      grandTotal: transaction.totals.grandTotal,
+      paymentMethod: payments.map(t => t.type).join(' + ') || 'cash',
+      paymentAmount: payments.reduce((sum, t) => sum + t.amount, 0),
+      change,
+    };
+  };
+
   const handleShare = async () => {
     if (!receiptData) {
       return;
@@ -115,6 +182,8 @@ export const ReceiptGenerator: React.FC<ReceiptGeneratorProps> = ({
     }
   };
 
+  const getTaxLabel = () => (receiptData?.taxInclusive ? 'Tax (included)' : 'Tax');
+
   const generateReceiptText = (): string => {
     if (!receiptData || !businessInfo) {
       return '';
@@ -126,23 +195,51 @@ export const ReceiptGenerator: React.FC<ReceiptGeneratorProps> = ({
     text += `Email: ${businessInfo.businessEmail || 'N/A'}\n`;
     text += `\nReceipt #${receiptData.saleId}\n`;
     text += `Date: ${new Date(receiptData.timestamp).toLocaleString()}\n`;
+    if (receiptData.customerName) {
+      text += `Customer: ${receiptData.customerName}\n`;
+    }
     text += `\nItems:\n`;
     text += `--------------------------------\n`;
     
     receiptData.items.forEach(item => {
       text += `${item.name}\n`;
       text += `  ${item.quantity} x $${item.unitPrice.toFixed(2)} = $${item.total.toFixed(2)}\n`;
+      if (item.discount) {
+        text += `  Discount: -$${item.discount.toFixed(2)}\n`;
+      }
     });
     
     text += `\n--------------------------------\n`;
     text += `Subtotal: $${receiptData.subtotal.toFixed(2)}\n`;
-    text += `Tax: $${receiptData.totalTax.toFixed(2)}\n`;
+    if (receiptData.discountTotal) {
+      text += `Discount: -$${receiptData.discountTotal.toFixed(2)}`;
+      text += receiptData.discountReasons?.length ? ` (${receiptData.discountReasons.join(', ')})\n` : `\n`;
+    }
+    receiptData.taxes?.forEach(tax => {
+      text += `${tax.name} ${formatTaxRate(tax.rate)}: $${tax.amount.toFixed(2)}\n`;
+    });
+    text += `${getTaxLabel()}: $${receiptData.totalTax.toFixed(2)}\n`;
+    if (receiptData.taxExemptionId) {
+      text += `Tax Exempt: ${receiptData.taxExemptionId}\n`;
+    }
     text += `Total: $${receiptData.grandTotal.toFixed(2)}\n`;
     text += `Payment Method: ${receiptData.paymentMethod.toUpperCase()}\n`;
     text += `Amount Paid: $${receiptData.paymentAmount.toFixed(2)}\n`;
     if (receiptData.change > 0) {
       text += `Change: $${receiptData.change.toFixed(2)}\n`;
     }
+    if (receiptData.loyalty) {
+      if (receiptData.loyalty.earned > 0) {
+        text += `Points Earned: ${receiptData.loyalty.earned}\n`;
+      }
+      if (receiptData.loyalty.redeemed > 0) {
+        text += `Points Redeemed: ${receiptData.loyalty.redeemed}\n`;
+      }
+      text += `Points Balance: ${receiptData.loyalty.balance}\n`;
+    }
+    receiptData.giftCards?.forEach(card => {
+      text += `Card ${card.code} Balance: $${card.balance.toFixed(2)}\n`;
+    });
     text += `\nThank you for choosing our products!\n`;
     text += `We appreciate your business.\n`;
     text += `Please visit us again!\n`;
@@ -206,6 +303,9 @@ export const ReceiptGenerator: React.FC<ReceiptGeneratorProps> = ({
             <Text style={styles.receiptDate}>
               {new Date(receiptData.timestamp).toLocaleString()}
             </Text>
+            {receiptData.customerName && (
+              <Text style={styles.receiptDate}>Customer: {receiptData.customerName}</Text>
+            )}
           </View>
 
           {/* Items Table */}
@@ -223,6 +323,9 @@ export const ReceiptGenerator: React.FC<ReceiptGeneratorProps> = ({
                 <View style={styles.itemInfo}>
                   <Text style={styles.itemName}>{item.name}</Text>
                   <Text style={styles.itemSku}>SKU: {item.sku}</Text>
+                  {!!item.discount && (
+                    <Text style={styles.itemSku}>Discount: -${item.discount.toFixed(2)}</Text>
+                  )}
                 </View>
                 <Text style={styles.itemQty}>{item.quantity}</Text>
                 <Text style={styles.itemPrice}>${item.unitPrice.toFixed(2)}</Text>
@@ -237,10 +340,28 @@ export const ReceiptGenerator: React.FC<ReceiptGeneratorProps> = ({
               <Text style={styles.totalLabel}>Subtotal:</Text>
               <Text style={styles.totalValue}>${receiptData.subtotal.toFixed(2)}</Text>
             </View>
+            {!!receiptData.discountTotal && (
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Discount:</Text>
+                <Text style={styles.totalValue}>-${receiptData.discountTotal.toFixed(2)}</Text>
+              </View>
+            )}
+            {receiptData.taxes?.map(tax => (
+              <View key={`${tax.id || tax.name}@${tax.rate}`} style={styles.totalRow}>
+                <Text style={styles.totalLabel}>{tax.name} {formatTaxRate(tax.rate)}:</Text>
+                <Text style={styles.totalValue}>${tax.amount.toFixed(2)}</Text>
+              </View>
+            ))}
             <View style={styles.totalRow}>
-              <Text style={styles.totalLabel}>Tax:</Text>
+              <Text style={styles.totalLabel}>{getTaxLabel()}:</Text>
               <Text style={styles.totalValue}>${receiptData.totalTax.toFixed(2)}</Text>
             </View>
+            {receiptData.taxExemptionId && (
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Tax Exempt:</Text>
+                <Text style={styles.totalValue}>{receiptData.taxExemptionId}</Text>
+              </View>
+            )}
             <View style={styles.totalRow}>
               <Text style={styles.grandTotalLabel}>Total:</Text>
               <Text style={styles.grandTotalValue}>${receiptData.grandTotal.toFixed(2)}</Text>
@@ -259,6 +380,30 @@ export const ReceiptGenerator: React.FC<ReceiptGeneratorProps> = ({
                 <Text style={styles.totalValue}>${receiptData.change.toFixed(2)}</Text>
               </View>
             )}
+            {receiptData.loyalty && receiptData.loyalty.earned > 0 && (
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Points Earned:</Text>
+                <Text style={styles.totalValue}>{receiptData.loyalty.earned}</Text>
+              </View>
+            )}
+            {receiptData.loyalty && receiptData.loyalty.redeemed > 0 && (
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Points Redeemed:</Text>
+                <Text style={styles.totalValue}>{receiptData.loyalty.redeemed}</Text>
+              </View>
+            )}
+            {receiptData.loyalty && (
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Points Balance:</Text>
+                <Text style={styles.totalValue}>{receiptData.loyalty.balance}</Text>
+              </View>
+            )}
+            {receiptData.giftCards?.map(card => (
+              <View key={card.code} style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Card {card.code}:</Text>
+                <Text style={styles.totalValue}>${card.balance.toFixed(2)}</Text>
+              </View>
+            ))}
           </View>
 
           {/* Thank You Message */}
@@ -22,6 +22,10 @@ interface TransactionItemProps {
   onPress?: (sale: RetailTransaction) => void;
 }
 
+// Tender types used on a sale, e.g. "CASH + CARD" for split payments
+const getPaymentMethods = (sale: RetailTransaction): string[] =>
+  Array.from(new Set(sale.tenders.filter(t => t.amount > 0).map(t => t.type)));
+
 const TransactionItem: React.FC<TransactionItemProps> = ({ sale, onPress }) => {
   const formatTime = (timestamp: Date): string => {
     const now = new Date();
@@ -104,7 +108,7 @@ const TransactionItem: React.FC<TransactionItemProps> = ({ sale, onPress }) => {
 
         <View style={styles.paymentInfo}>
           <Text style={styles.paymentMethod}>
-            {getPaymentMethodIcon(sale.tenders[0]?.type || 'other')} {sale.tenders[0]?.type.toUpperCase() || 'N/A'}
+            {getPaymentMethods(sale).map(getPaymentMethodIcon).join('')} {getPaymentMethods(sale).join(' + ').toUpperCase() || 'N/A'}
           </Text>
           {sale.totals.taxTotal > 0 && (
             <Text style={styles.taxInfo}>
@@ -167,7 +171,7 @@ export const RecentTransactions: React.FC<RecentTransactionsProps> = ({
         `Transaction #${sale.id?.toString().padStart(4, '0') || 'N/A'}`,
         `Amount: $${sale.totals.grandTotal.toFixed(2)}\n` +
         `Items: ${sale.items.length}\n` +
-        `Payment: ${sale.tenders[0]?.type.toUpperCase() || 'N/A'}
+        `Payment: ${getPaymentMethods(sale).join(' + ').toUpperCase() || 'N/A'}
 ` +
         `Status: ${sale.status}\n` +
         `Date: ${sale.timestamp.toLocaleString()}`,
@@ -0,0 +1,403 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  AppState,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../contexts/AuthContext';
+import { authService, RegisterOperator } from '../services/AuthService';
+import { profileService } from '../services/ProfileService';
+import { theme } from '../styles/theme';
+
+const DEFAULT_IDLE_LOCK_MINUTES = 5;
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000;
+const MAX_PIN_LENGTH = 6;
+const MIN_PIN_LENGTH = 4;
+
+interface RegisterLockProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Locks the register after the business's idle timeout. The lock screen is
+ * drawn over the app instead of replacing it, so the cart in progress is
+ * still there for whoever signs in next.
+ */
+export const RegisterLock: React.FC<RegisterLockProps> = ({ children }) => {
+  const { isAuthenticated, isLocked, lockRegister } = useAuth();
+  const [idleMinutes, setIdleMinutes] = useState(DEFAULT_IDLE_LOCK_MINUTES);
+  const lastActivity = useRef(Date.now());
+  const lockRef = useRef(lockRegister);
+  lockRef.current = lockRegister;
+
+  // Reload on every unlock so a changed timeout applies without a restart
+  useEffect(() => {
+    profileService
+      .getBusinessSettings()
+      .then(settings => setIdleMinutes(settings?.idleLockMinutes ?? DEFAULT_IDLE_LOCK_MINUTES))
+      .catch(error => console.error('Failed to load idle lock setting:', error));
+  }, [isLocked]);
+
+  useEffect(() => {
+    if (!isAuthenticated || isLocked || idleMinutes <= 0) {
+      return;
+    }
+
+    lastActivity.current = Date.now();
+    const checkIdle = () => {
+      if (Date.now() - lastActivity.current >= idleMinutes * 60 * 1000) {
+        lockRef.current().catch(error => console.error('Failed to lock register:', error));
+      }
+    };
+
+    // Timers pause in the background, so check again when the app comes back
+    const timer = setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS);
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        checkIdle();
+      }
+    });
+
+    return () => {
+      clearInterval(timer);
+      subscription.remove();
+    };
+  }, [isAuthenticated, isLocked, idleMinutes]);
+
+  const recordActivity = () => {
+    lastActivity.current = Date.now();
+    return false;
+  };
+
+  return (
+    <View style={styles.root} onStartShouldSetResponderCapture={recordActivity}>
+      {children}
+      {isAuthenticated && isLocked && <LockScreen />}
+    </View>
+  );
+};
+
+const LockScreen: React.FC = () => {
+  const { user, unlockWithPin, unlockWithPassword, logout } = useAuth();
+  const [operators, setOperators] = useState<RegisterOperator[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(user?.id ?? null);
+  const [pin, setPin] = useState('');
+  const [password, setPassword] = useState('');
+  const [totpCode, setTotpCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+
+  useEffect(() => {
+    authService
+      .getRegisterOperators()
+      .then(setOperators)
+      .catch(err => console.error('Failed to load operators:', err));
+  }, []);
+
+  const selected = operators.find(operator => operator.user.id === selectedId);
+  // Two-factor accounts can't use a PIN; they sign in with password and code
+  const usePin = !!selected?.hasPin && !selected.needsTwoFactor;
+
+  const selectOperator = (userId: string) => {
+    setSelectedId(userId);
+    setPin('');
+    setPassword('');
+    setTotpCode('');
+    setError(null);
+  };
+
+  const pressDigit = (digit: string) => {
+    setError(null);
+    setPin(prev => (prev.length < MAX_PIN_LENGTH ? prev + digit : prev));
+  };
+
+  const handleUnlock = async () => {
+    if (!selected) {
+      return;
+    }
+
+    try {
+      setUnlocking(true);
+      if (usePin) {
+        await unlockWithPin(selected.user.id, pin);
+      } else {
+        await unlockWithPassword(selected.user.username, password, selected.needsTwoFactor ? totpCode : undefined);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unlock failed');
+      setPin('');
+      setPassword('');
+      setTotpCode('');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const canUnlock = selected
+    ? usePin
+      ? pin.length >= MIN_PIN_LENGTH
+      : password.length > 0 && (!selected.needsTwoFactor || totpCode.length > 0)
+    : false;
+
+  return (
+    <View style={styles.overlay}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Ionicons name="lock-closed" size={40} color={theme.colors.primary} />
+        <Text style={styles.title}>Register Locked</Text>
+        <Text style={styles.subtitle}>The current sale is kept. Sign in to continue.</Text>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.operators}>
+          {operators.map(({ user: operator }) => (
+            <TouchableOpacity
+              key={operator.id}
+              style={[styles.operatorChip, operator.id === selectedId && styles.operatorChipSelected]}
+              onPress={() => selectOperator(operator.id)}
+            >
+              <Text
+                style={[styles.operatorName, operator.id === selectedId && styles.operatorNameSelected]}
+              >
+                {operator.firstName} {operator.lastName}
+              </Text>
+              <Text style={[styles.operatorRole, operator.id === selectedId && styles.operatorNameSelected]}>
+                {operator.role}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        {usePin && (
+          <>
+            <View style={styles.pinDots}>
+              {Array.from({ length: MAX_PIN_LENGTH }, (_, i) => (
+                <View key={i} style={[styles.pinDot, i < pin.length && styles.pinDotFilled]} />
+              ))}
+            </View>
+            <View style={styles.keypad}>
+              {['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'back'].map(key => (
+                <TouchableOpacity
+                  key={key}
+                  style={styles.key}
+                  onPress={() => {
+                    if (key === 'clear') {
+                      setPin('');
+                    } else if (key === 'back') {
+                      setPin(prev => prev.slice(0, -1));
+                    } else {
+                      pressDigit(key);
+                    }
+                  }}
+                >
+                  {key === 'back' ? (
+                    <Ionicons name="backspace-outline" size={24} color={theme.colors.text} />
+                  ) : (
+                    <Text style={key === 'clear' ? styles.keyTextSmall : styles.keyText}>
+                      {key === 'clear' ? 'Clear' : key}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+
+        {selected && !usePin && (
+          <TextInput
+            style={styles.passwordInput}
+            value={password}
+            onChangeText={(text) => {
+              setPassword(text);
+              setError(null);
+            }}
+            placeholder={`Password for ${selected.user.username}`}
+            secureTextEntry
+            autoCapitalize="none"
+            onSubmitEditing={handleUnlock}
+          />
+        )}
+
+        {selected?.needsTwoFactor && (
+          <TextInput
+            style={styles.passwordInput}
+            value={totpCode}
+            onChangeText={(text) => {
+              setTotpCode(text);
+              setError(null);
+            }}
+            placeholder="Authenticator or recovery code"
+            autoCapitalize="none"
+            autoCorrect={false}
+            onSubmitEditing={handleUnlock}
+          />
+        )}
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <TouchableOpacity
+          style={[styles.unlockButton, (!canUnlock || unlocking) && styles.unlockButtonDisabled]}
+          onPress={handleUnlock}
+          disabled={!canUnlock || unlocking}
+        >
+          {unlocking ? (
+            <ActivityIndicator color={theme.colors.surface} />
+          ) : (
+            <Text style={styles.unlockButtonText}>
+              {selected && selected.user.id !== user?.id ? `Switch to ${selected.user.firstName}` : 'Unlock'}
+            </Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.signOutLink} onPress={logout} disabled={unlocking}>
+          <Text style={styles.signOutText}>Sign out</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: theme.colors.background,
+    zIndex: 1000,
+  },
+  content: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+    marginTop: 12,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    marginTop: 4,
+    marginBottom: 20,
+  },
+  operators: {
+    paddingVertical: 4,
+    gap: 8,
+  },
+  operatorChip: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    backgroundColor: theme.colors.surface,
+    alignItems: 'center',
+  },
+  operatorChipSelected: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  operatorName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.text,
+  },
+  operatorRole: {
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    textTransform: 'capitalize',
+  },
+  operatorNameSelected: {
+    color: theme.colors.surface,
+  },
+  pinDots: {
+    flexDirection: 'row',
+    gap: 12,
+    marginVertical: 24,
+  },
+  pinDot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: theme.colors.primary,
+  },
+  pinDotFilled: {
+    backgroundColor: theme.colors.primary,
+  },
+  keypad: {
+    width: 264,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  key: {
+    width: 80,
+    height: 56,
+    borderRadius: 8,
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  keyText: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: theme.colors.text,
+  },
+  keyTextSmall: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+  },
+  passwordInput: {
+    width: '100%',
+    maxWidth: 320,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: theme.colors.surface,
+    color: theme.colors.text,
+    marginTop: 24,
+  },
+  errorText: {
+    color: theme.colors.error,
+    fontSize: 14,
+    marginTop: 8,
+  },
+  unlockButton: {
+    width: '100%',
+    maxWidth: 320,
+    backgroundColor: theme.colors.primary,
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  unlockButtonDisabled: {
+    opacity: 0.6,
+  },
+  unlockButtonText: {
+    color: theme.colors.surface,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  signOutLink: {
+    padding: 12,
+    marginTop: 8,
+  },
+  signOutText: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+  },
+});
@@ -15,6 +15,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { authService } from '../services/AuthService';
 import { CreateUserInput } from '../types';
 import { theme } from '../styles/theme';
+import { getPasswordPolicyError, PASSWORD_POLICY_HINT } from '../utils/passwordPolicy';
 
 interface RegisterScreenProps {
   onRegisterSuccess: () => void;
@@ -70,8 +71,11 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({
     // Password validation
     if (!formData.password) {
       newErrors.password = 'Password is required';
-    } else if (formData.password.length < 6) {
-      newErrors.password = 'Password must be at least 6 characters';
+    } else {
+      const policyError = getPasswordPolicyError(formData.password, formData.username.trim());
+      if (policyError) {
+        newErrors.password = policyError;
+      }
     }
 
     // Confirm password validation
@@ -225,7 +229,7 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({
                 style={[styles.passwordInput, getInputStyle('password')[1]]}
                 value={formData.password}
                 onChangeText={(text) => updateFormData('password', text)}
-                placeholder="Enter password"
+                placeholder={PASSWORD_POLICY_HINT}
                 secureTextEntry={!showPassword}
                 autoCapitalize="none"
               />
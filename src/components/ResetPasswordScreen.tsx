@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { authService } from '../services/AuthService';
+import { theme } from '../styles/theme';
+import { getPasswordPolicyError, PASSWORD_POLICY_HINT } from '../utils/passwordPolicy';
+
+interface ResetPasswordScreenProps {
+  onResetSuccess: () => void;
+  onBackToLogin: () => void;
+}
+
+/**
+ * Redeem a reset code from an admin and choose a new password. Works
+ * offline: the code was issued on this register.
+ */
+export const ResetPasswordScreen: React.FC<ResetPasswordScreenProps> = ({ onResetSuccess, onBackToLogin }) => {
+  const [form, setForm] = useState({ username: '', resetCode: '', newPassword: '', confirmPassword: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const updateField = (field: keyof typeof form, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    setError(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!form.username.trim() || !form.resetCode.trim() || !form.newPassword) {
+      setError('Enter your username, reset code and new password');
+      return;
+    }
+    const policyError = getPasswordPolicyError(form.newPassword, form.username.trim());
+    if (policyError) {
+      setError(policyError);
+      return;
+    }
+    if (form.newPassword !== form.confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await authService.resetPassword({
+        email: '',
+        username: form.username.trim(),
+        resetToken: form.resetCode,
+        newPassword: form.newPassword
+      });
+      Alert.alert('Password Reset', 'Your password has been changed. Sign in with your new password.', [
+        { text: 'OK', onPress: onResetSuccess }
+      ]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset password');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        <View style={styles.header}>
+          <Ionicons name="key" size={48} color={theme.colors.primary} />
+          <Text style={styles.title}>Reset Your Password</Text>
+          <Text style={styles.subtitle}>
+            Enter the reset code your manager gave you and choose a new password.
+          </Text>
+        </View>
+
+        <View style={styles.form}>
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Username</Text>
+            <TextInput
+              style={styles.input}
+              value={form.username}
+              onChangeText={(text) => updateField('username', text)}
+              placeholder="Enter your username"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Reset Code</Text>
+            <TextInput
+              style={styles.input}
+              value={form.resetCode}
+              onChangeText={(text) => updateField('resetCode', text)}
+              placeholder="e.g. K7QM-2XPD"
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>New Password</Text>
+            <TextInput
+              style={styles.input}
+              value={form.newPassword}
+              onChangeText={(text) => updateField('newPassword', text)}
+              placeholder={PASSWORD_POLICY_HINT}
+              secureTextEntry
+              autoCapitalize="none"
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Confirm New Password</Text>
+            <TextInput
+              style={styles.input}
+              value={form.confirmPassword}
+              onChangeText={(text) => updateField('confirmPassword', text)}
+              placeholder="Re-enter the new password"
+              secureTextEntry
+              autoCapitalize="none"
+            />
+          </View>
+
+          {error && (
+            <View style={styles.errorContainer}>
+              <Ionicons name="alert-circle" size={20} color={theme.colors.error} />
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.submitButton, saving && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color={theme.colors.surface} />
+            ) : (
+              <Text style={styles.submitButtonText}>Reset Password</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.signOutLink} onPress={onBackToLogin} disabled={saving}>
+            <Text style={styles.signOutText}>Back to sign in</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingBottom: 40,
+  },
+  header: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingBottom: 32,
+    paddingHorizontal: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+    marginTop: 16,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  form: {
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.text,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: theme.colors.surface,
+    color: theme.colors.text,
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.error + '20',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 20,
+  },
+  errorText: {
+    color: theme.colors.error,
+    fontSize: 14,
+    marginLeft: 8,
+    flex: 1,
+  },
+  submitButton: {
+    backgroundColor: theme.colors.primary,
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: theme.colors.surface,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  signOutLink: {
+    alignItems: 'center',
+    padding: 12,
+  },
+  signOutText: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+  },
+});
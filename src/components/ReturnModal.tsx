@@ -0,0 +1,419 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { RetailTransaction, ReturnDisposition, TenderType } from '../types';
+import { returnService, ReturnableLine, ReturnResult } from '../services/ReturnService';
+import { useManagerOverride } from './ManagerOverrideModal';
+
+interface ReturnModalProps {
+  visible: boolean;
+  sale: RetailTransaction | null;
+  onClose: () => void;
+  onReturnComplete: (result: ReturnResult) => void;
+}
+
+interface LineSelection {
+  quantity: number;
+  disposition: ReturnDisposition;
+}
+
+const REFUND_OPTIONS: { value: TenderType | 'original'; label: string }[] = [
+  { value: 'original', label: 'Original' },
+  { value: 'cash', label: '💵 Cash' },
+  { value: 'card', label: '💳 Card' },
+  { value: 'store_credit', label: '🎟️ Credit' },
+];
+
+export const ReturnModal: React.FC<ReturnModalProps> = ({
+  visible,
+  sale,
+  onClose,
+  onReturnComplete
+}) => {
+  const [lines, setLines] = useState<ReturnableLine[]>([]);
+  const [selections, setSelections] = useState<Record<number, LineSelection>>({});
+  const [refundTo, setRefundTo] = useState<TenderType | 'original'>('original');
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const { authorize, overrideModal } = useManagerOverride();
+
+  // Load what can still be returned whenever the modal opens
+  useEffect(() => {
+    if (!visible || !sale) {
+      return;
+    }
+
+    const loadLines = async () => {
+      setLoading(true);
+      try {
+        const returnable = await returnService.getReturnableLines(sale);
+        setLines(returnable);
+        setSelections({});
+        setRefundTo('original');
+        setReason('');
+      } catch (error) {
+        Alert.alert('Error', 'Failed to load sale items');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLines();
+  }, [visible, sale]);
+
+  const getSelection = (lineNumber: number): LineSelection =>
+    selections[lineNumber] || { quantity: 0, disposition: 'restock' };
+
+  const updateSelection = (lineNumber: number, changes: Partial<LineSelection>) => {
+    setSelections({
+      ...selections,
+      [lineNumber]: { ...getSelection(lineNumber), ...changes },
+    });
+  };
+
+  // Estimate only; the service prices the final refund against the original sale
+  const estimatedRefund = lines.reduce((sum, line) => {
+    const { quantity } = getSelection(line.item.lineNumber);
+    return sum + (line.item.lineTotal.gross * quantity) / line.item.quantity;
+  }, 0);
+
+  const selectedLines = lines
+    .map(line => ({ lineNumber: line.item.lineNumber, ...getSelection(line.item.lineNumber) }))
+    .filter(line => line.quantity > 0);
+
+  const handleProcessReturn = async () => {
+    if (!sale?.id) {
+      return;
+    }
+    if (selectedLines.length === 0) {
+      Alert.alert('Nothing Selected', 'Choose at least one item to return.');
+      return;
+    }
+    if (!reason.trim()) {
+      Alert.alert('Reason Required', 'Enter a reason for the return.');
+      return;
+    }
+
+    const override = await authorize('Refund', {
+      permission: 'canRefundSales',
+      action: 'refund',
+      amount: estimatedRefund,
+      reference: sale.id,
+      reason: reason.trim(),
+    });
+    if (!override.allowed) {
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      const result = await returnService.processReturn({
+        originalTransactionId: sale.id,
+        lines: selectedLines,
+        refundTo: refundTo === 'original' ? undefined : refundTo,
+        reason,
+        approval: override.approval,
+      });
+      onReturnComplete(result);
+    } catch (error) {
+      Alert.alert('Return Error', error instanceof Error ? error.message : 'Failed to process return');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={processing}>
+            <Text style={[styles.cancelText, processing && styles.disabledText]}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Return Sale #{sale?.sequence ?? sale?.id}</Text>
+          <View style={styles.spacer} />
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#27ae60" />
+          </View>
+        ) : (
+          <ScrollView style={styles.content}>
+            <Text style={styles.sectionTitle}>Items</Text>
+            {lines.map(line => {
+              const selection = getSelection(line.item.lineNumber);
+              return (
+                <View key={line.item.lineNumber} style={styles.lineRow}>
+                  <View style={styles.lineInfo}>
+                    <Text style={styles.lineName}>{line.item.name}</Text>
+                    <Text style={styles.lineDetail}>
+                      Sold {line.item.quantity}
+                      {line.returnedQuantity > 0 ? ` · returned ${line.returnedQuantity}` : ''}
+                    </Text>
+                  </View>
+
+                  <View style={styles.quantityControls}>
+                    <TouchableOpacity
+                      style={styles.stepButton}
+                      onPress={() => updateSelection(line.item.lineNumber, {
+                        quantity: Math.max(0, selection.quantity - 1),
+                      })}
+                      disabled={processing || selection.quantity === 0}
+                    >
+                      <Text style={styles.stepText}>−</Text>
+                    </TouchableOpacity>
+                    <Text style={styles.quantityText}>{selection.quantity}</Text>
+                    <TouchableOpacity
+                      style={styles.stepButton}
+                      onPress={() => updateSelection(line.item.lineNumber, {
+                        quantity: Math.min(line.returnableQuantity, selection.quantity + 1),
+                      })}
+                      disabled={processing || selection.quantity >= line.returnableQuantity}
+                    >
+                      <Text style={styles.stepText}>+</Text>
+                    </TouchableOpacity>
+                  </View>
+
+                  {selection.quantity > 0 && (
+                    <View style={styles.optionButtons}>
+                      {(['restock', 'write_off'] as ReturnDisposition[]).map(disposition => (
+                        <TouchableOpacity
+                          key={disposition}
+                          style={[
+                            styles.optionButton,
+                            selection.disposition === disposition && styles.optionButtonActive
+                          ]}
+                          onPress={() => updateSelection(line.item.lineNumber, { disposition })}
+                          disabled={processing}
+                        >
+                          <Text style={[
+                            styles.optionText,
+                            selection.disposition === disposition && styles.optionTextActive
+                          ]}>
+                            {disposition === 'restock' ? 'Restock' : 'Write Off'}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+
+            <Text style={styles.sectionTitle}>Refund To</Text>
+            <View style={styles.optionButtons}>
+              {REFUND_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.optionButton, refundTo === option.value && styles.optionButtonActive]}
+                  onPress={() => setRefundTo(option.value)}
+                  disabled={processing}
+                >
+                  <Text style={[styles.optionText, refundTo === option.value && styles.optionTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.sectionTitle}>Reason</Text>
+            <TextInput
+              style={styles.input}
+              value={reason}
+              onChangeText={setReason}
+              placeholder="e.g. damaged, wrong size"
+              editable={!processing}
+            />
+          </ScrollView>
+        )}
+
+        <View style={styles.footer}>
+          <Text style={styles.refundTotal}>Refund: ${estimatedRefund.toFixed(2)}</Text>
+          <TouchableOpacity
+            style={[
+              styles.processButton,
+              (selectedLines.length === 0 || processing) && styles.buttonDisabled
+            ]}
+            onPress={handleProcessReturn}
+            disabled={selectedLines.length === 0 || processing}
+          >
+            <Text style={styles.processButtonText}>
+              {processing ? 'Processing...' : 'Process Return'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+      {overrideModal}
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  disabledText: {
+    opacity: 0.5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 10,
+    marginBottom: 15,
+    color: '#333',
+  },
+  lineRow: {
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  lineInfo: {
+    marginBottom: 10,
+  },
+  lineName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  lineDetail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  quantityControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 15,
+  },
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fff',
+  },
+  stepText: {
+    fontSize: 18,
+    color: '#495057',
+  },
+  quantityText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    minWidth: 24,
+    textAlign: 'center',
+  },
+  optionButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginTop: 10,
+  },
+  optionButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 15,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    backgroundColor: '#fff',
+  },
+  optionButtonActive: {
+    borderColor: '#27ae60',
+    backgroundColor: '#e8f5e8',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  optionTextActive: {
+    color: '#27ae60',
+    fontWeight: 'bold',
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 15,
+    fontSize: 16,
+    marginBottom: 30,
+    backgroundColor: '#f8f9fa',
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e9ecef',
+  },
+  refundTotal: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  processButton: {
+    backgroundColor: '#27ae60',
+    padding: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: '#95a5a6',
+  },
+  processButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,537 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  Switch,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { Role, User, UserPermissions } from '../types';
+import { roleService } from '../services/RoleService';
+import { authService } from '../services/AuthService';
+import { useAuth } from '../contexts/AuthContext';
+import { NO_PERMISSIONS, PERMISSION_GROUPS } from '../utils/permissions';
+
+interface RolesModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+type Tab = 'roles' | 'overrides';
+type OverrideValue = 'role' | 'allow' | 'deny';
+
+const PERMISSION_COUNT = Object.keys(NO_PERMISSIONS).length;
+
+const countGranted = (permissions: UserPermissions): number =>
+  Object.values(permissions).filter(Boolean).length;
+
+export const RolesModal: React.FC<RolesModalProps> = ({ visible, onClose }) => {
+  const { refreshPermissions } = useAuth();
+  const [tab, setTab] = useState<Tab>('roles');
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [editingId, setEditingId] = useState<string | undefined>(undefined);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [permissions, setPermissions] = useState<UserPermissions>(NO_PERMISSIONS);
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [overrides, setOverrides] = useState<Partial<UserPermissions>>({});
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setTab('roles');
+      resetForm();
+      setSelectedUserId(null);
+      loadData();
+    }
+  }, [visible]);
+
+  const loadData = async () => {
+    try {
+      const [loadedRoles, loadedUsers] = await Promise.all([roleService.getRoles(), authService.getAllUsers()]);
+      setRoles(loadedRoles);
+      setUsers(loadedUsers);
+    } catch (error) {
+      Alert.alert('Roles Error', error instanceof Error ? error.message : 'Failed to load roles');
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(undefined);
+    setName('');
+    setDescription('');
+    setPermissions(NO_PERMISSIONS);
+  };
+
+  const startEdit = (role: Role) => {
+    setEditingId(role.id);
+    setName(role.name);
+    setDescription(role.description || '');
+    setPermissions({ ...NO_PERMISSIONS, ...role.permissions });
+  };
+
+  const selectUser = (user: User) => {
+    setSelectedUserId(user.id);
+    setOverrides(user.permissionOverrides || {});
+  };
+
+  const setOverride = (key: keyof UserPermissions, value: OverrideValue) => {
+    const next = { ...overrides };
+    if (value === 'role') {
+      delete next[key];
+    } else {
+      next[key] = value === 'allow';
+    }
+    setOverrides(next);
+  };
+
+  const handleSaveRole = async () => {
+    setProcessing(true);
+    try {
+      await roleService.saveRole({ id: editingId, name, description, permissions });
+      await refreshPermissions();
+      resetForm();
+      await loadData();
+    } catch (error) {
+      Alert.alert('Role Error', error instanceof Error ? error.message : 'Failed to save role');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleDeleteRole = (role: Role) => {
+    Alert.alert('Delete Role', `Delete the "${role.name}" role?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await roleService.deleteRole(role.id);
+            if (editingId === role.id) {
+              resetForm();
+            }
+            await loadData();
+          } catch (error) {
+            Alert.alert('Role Error', error instanceof Error ? error.message : 'Failed to delete role');
+          }
+        }
+      }
+    ]);
+  };
+
+  const handleSaveOverrides = async () => {
+    if (!selectedUserId) {
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      await roleService.setUserPermissionOverrides(selectedUserId, overrides);
+      await refreshPermissions();
+      await loadData();
+      Alert.alert('Saved', 'Permission overrides updated');
+    } catch (error) {
+      Alert.alert('Override Error', error instanceof Error ? error.message : 'Failed to save overrides');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const selectedUser = users.find(user => user.id === selectedUserId);
+  const selectedRole = roles.find(role => role.id === selectedUser?.role);
+
+  const renderRoles = () => (
+    <>
+      {roles.map(role => (
+        <View key={role.id} style={styles.row}>
+          <View style={styles.rowInfo}>
+            <Text style={styles.rowName}>
+              {role.name}
+              {role.isSystem ? '  · built-in' : ''}
+            </Text>
+            <Text style={styles.rowDetail}>
+              {role.description ? `${role.description} · ` : ''}
+              {countGranted(role.permissions)} of {PERMISSION_COUNT} permissions
+            </Text>
+          </View>
+          <View style={styles.rowActions}>
+            {role.id !== 'admin' && (
+              <TouchableOpacity onPress={() => startEdit(role)} disabled={processing}>
+                <Text style={styles.editText}>Edit</Text>
+              </TouchableOpacity>
+            )}
+            {!role.isSystem && (
+              <TouchableOpacity onPress={() => handleDeleteRole(role)} disabled={processing}>
+                <Text style={styles.deleteText}>Delete</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      ))}
+
+      <Text style={styles.sectionTitle}>{editingId ? 'Edit Role' : 'New Role'}</Text>
+      <TextInput
+        style={styles.input}
+        value={name}
+        onChangeText={setName}
+        placeholder="Name (e.g. Shift Lead)"
+        editable={!processing}
+      />
+      <TextInput
+        style={styles.input}
+        value={description}
+        onChangeText={setDescription}
+        placeholder="Description (optional)"
+        editable={!processing}
+      />
+
+      {PERMISSION_GROUPS.map(group => (
+        <View key={group.title} style={styles.group}>
+          <Text style={styles.groupTitle}>{group.title}</Text>
+          {group.permissions.map(({ key, label }) => (
+            <View key={key} style={styles.permissionRow}>
+              <Text style={styles.permissionLabel}>{label}</Text>
+              <Switch
+                value={permissions[key]}
+                onValueChange={(value) => setPermissions({ ...permissions, [key]: value })}
+                disabled={processing}
+              />
+            </View>
+          ))}
+        </View>
+      ))}
+    </>
+  );
+
+  const renderOverrides = () => (
+    <>
+      <Text style={styles.hintText}>
+        Overrides apply to one user on top of their role.
+      </Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.userChips}>
+        {users.map(user => (
+          <TouchableOpacity
+            key={user.id}
+            style={[styles.chip, user.id === selectedUserId && styles.chipSelected]}
+            onPress={() => selectUser(user)}
+            disabled={processing}
+          >
+            <Text style={[styles.chipText, user.id === selectedUserId && styles.chipTextSelected]}>
+              {user.firstName} {user.lastName}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {selectedUser && PERMISSION_GROUPS.map(group => (
+        <View key={group.title} style={styles.group}>
+          <Text style={styles.groupTitle}>{group.title}</Text>
+          {group.permissions.map(({ key, label }) => {
+            const value: OverrideValue = overrides[key] === undefined ? 'role' : overrides[key] ? 'allow' : 'deny';
+            const roleDefault = selectedRole?.permissions[key] ? 'on' : 'off';
+            return (
+              <View key={key} style={styles.permissionRow}>
+                <Text style={styles.permissionLabel}>{label}</Text>
+                <View style={styles.segment}>
+                  {(['role', 'allow', 'deny'] as OverrideValue[]).map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.segmentOption, value === option && styles.segmentOptionSelected]}
+                      onPress={() => setOverride(key, option)}
+                      disabled={processing}
+                    >
+                      <Text style={[styles.segmentText, value === option && styles.chipTextSelected]}>
+                        {option === 'role' ? `Role (${roleDefault})` : option === 'allow' ? 'Allow' : 'Deny'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      ))}
+    </>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={processing}>
+            <Text style={styles.cancelText}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Roles & Permissions</Text>
+          <View style={styles.spacer} />
+        </View>
+
+        <View style={styles.tabs}>
+          {(['roles', 'overrides'] as Tab[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.tab, tab === option && styles.tabSelected]}
+              onPress={() => setTab(option)}
+              disabled={processing}
+            >
+              <Text style={[styles.tabText, tab === option && styles.tabTextSelected]}>
+                {option === 'roles' ? 'Roles' : 'User Overrides'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <ScrollView style={styles.content}>
+          {tab === 'roles' ? renderRoles() : renderOverrides()}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          {tab === 'roles' && editingId && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={resetForm} disabled={processing}>
+              <Text style={styles.secondaryButtonText}>Cancel Edit</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[
+              styles.saveButton,
+              (processing || (tab === 'overrides' && !selectedUser)) && styles.buttonDisabled
+            ]}
+            onPress={tab === 'roles' ? handleSaveRole : handleSaveOverrides}
+            disabled={processing || (tab === 'overrides' && !selectedUser)}
+          >
+            <Text style={styles.saveButtonText}>
+              {processing
+                ? 'Saving...'
+                : tab === 'overrides'
+                  ? 'Save Overrides'
+                  : editingId ? 'Save Changes' : 'Add Role'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+  },
+  tabs: {
+    flexDirection: 'row',
+    padding: 10,
+    gap: 10,
+  },
+  tab: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    alignItems: 'center',
+  },
+  tabSelected: {
+    backgroundColor: '#27ae60',
+    borderColor: '#27ae60',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  tabTextSelected: {
+    color: '#fff',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  rowDetail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: 15,
+  },
+  editText: {
+    fontSize: 14,
+    color: '#27ae60',
+    fontWeight: 'bold',
+  },
+  deleteText: {
+    fontSize: 14,
+    color: '#e74c3c',
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 20,
+    marginBottom: 15,
+    color: '#333',
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 10,
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 15,
+    fontSize: 16,
+    marginBottom: 10,
+    backgroundColor: '#f8f9fa',
+  },
+  group: {
+    marginTop: 10,
+    marginBottom: 10,
+  },
+  groupTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginBottom: 5,
+  },
+  permissionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f3f5',
+  },
+  permissionLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+  },
+  userChips: {
+    gap: 8,
+    paddingVertical: 4,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+  },
+  chipSelected: {
+    backgroundColor: '#27ae60',
+    borderColor: '#27ae60',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  segment: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  segmentOption: {
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  segmentOptionSelected: {
+    backgroundColor: '#27ae60',
+    borderColor: '#27ae60',
+  },
+  segmentText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  footer: {
+    padding: 20,
+    gap: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#e9ecef',
+  },
+  secondaryButton: {
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+  },
+  secondaryButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  saveButton: {
+    backgroundColor: '#27ae60',
+    padding: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: '#95a5a6',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
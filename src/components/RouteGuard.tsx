@@ -0,0 +1,31 @@
+import React from 'react';
+import { Href, Redirect, useSegments } from 'expo-router';
+import { useAuth } from '../contexts/AuthContext';
+import { canAccessRoute, getHomeRoute } from '../utils/permissions';
+
+interface RouteGuardProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Route-level permission check for an expo-router layout. The navigator has
+ * to stay mounted, so a forbidden route (e.g. a deep link, or the user's
+ * role changing while it is open) is redirected to the user's home tab
+ * instead of being replaced.
+ */
+export const RouteGuard: React.FC<RouteGuardProps> = ({ children }) => {
+  const segments = useSegments() as string[];
+  const { isAuthenticated, permissions } = useAuth();
+
+  const forbidden = isAuthenticated && segments.some(segment => !canAccessRoute(segment, permissions));
+  if (forbidden) {
+    console.warn(`🚫 Blocked navigation to /${segments.join('/')}`);
+  }
+
+  return (
+    <>
+      {children}
+      {forbidden && <Redirect href={`/(tabs)/${getHomeRoute(permissions)}` as Href} />}
+    </>
+  );
+};
@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView
+} from 'react-native';
+import { formatDistanceToNow } from 'date-fns';
+import { authService, UserSession } from '../services/AuthService';
+
+interface SessionsModalProps {
+  visible: boolean;
+  userId: string;
+  // Shown in the title when an admin looks at someone else's sessions
+  userName?: string;
+  onClose: () => void;
+}
+
+/**
+ * The devices a user is signed in on, with remote sign-out. The current
+ * device is signed out with the regular Logout button instead.
+ */
+export const SessionsModal: React.FC<SessionsModalProps> = ({ visible, userId, userName, onClose }) => {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      loadSessions();
+    }
+  }, [visible, userId]);
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await authService.getUserSessions(userId));
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load sessions');
+    }
+  };
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setProcessing(true);
+    try {
+      await action();
+      await loadSessions();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : failure);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const others = sessions.filter(session => !session.isCurrent);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={processing}>
+            <Text style={styles.cancelText}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>{userName ? `${userName}'s Sessions` : 'Active Sessions'}</Text>
+          <View style={styles.spacer} />
+        </View>
+
+        <ScrollView style={styles.content}>
+          {sessions.length === 0 ? (
+            <Text style={styles.emptyText}>No active sessions.</Text>
+          ) : (
+            sessions.map(session => (
+              <View key={session.id} style={styles.row}>
+                <View style={styles.info}>
+                  <Text style={styles.name}>
+                    {session.deviceName || 'Unknown device'}{session.isCurrent ? ' · This device' : ''}
+                  </Text>
+                  <Text style={styles.detail}>
+                    Signed in {formatDistanceToNow(session.createdAt, { addSuffix: true })}
+                    {session.lastSeenAt ? ` · active ${formatDistanceToNow(session.lastSeenAt, { addSuffix: true })}` : ''}
+                  </Text>
+                </View>
+                {!session.isCurrent && (
+                  <TouchableOpacity
+                    onPress={() => run(() => authService.revokeSession(userId, session.id), 'Failed to sign out session')}
+                    disabled={processing}
+                  >
+                    <Text style={styles.revokeText}>Sign Out</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))
+          )}
+
+          {others.length > 1 && (
+            <TouchableOpacity
+              style={styles.revokeAllButton}
+              onPress={() => run(() => authService.revokeOtherSessions(userId), 'Failed to sign out sessions')}
+              disabled={processing}
+            >
+              <Text style={styles.revokeAllText}>Sign Out All Other Devices</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  info: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  detail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  revokeText: {
+    fontSize: 14,
+    color: '#e74c3c',
+    fontWeight: 'bold',
+  },
+  revokeAllButton: {
+    borderWidth: 1,
+    borderColor: '#e74c3c',
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  revokeAllText: {
+    fontSize: 16,
+    color: '#e74c3c',
+    fontWeight: '600',
+  },
+});
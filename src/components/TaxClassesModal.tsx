@@ -0,0 +1,342 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { TaxClass } from '../types';
+import { taxService, formatTaxRate } from '../services/TaxService';
+
+interface TaxClassesModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+interface ComponentForm {
+  name: string;
+  rate: string; // decimal, e.g. "0.06"
+}
+
+const EMPTY_COMPONENT: ComponentForm = { name: '', rate: '' };
+
+export const TaxClassesModal: React.FC<TaxClassesModalProps> = ({ visible, onClose }) => {
+  const [taxClasses, setTaxClasses] = useState<TaxClass[]>([]);
+  const [editingId, setEditingId] = useState<string | undefined>(undefined);
+  const [name, setName] = useState('');
+  const [components, setComponents] = useState<ComponentForm[]>([EMPTY_COMPONENT]);
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      resetForm();
+      loadTaxClasses();
+    }
+  }, [visible]);
+
+  const loadTaxClasses = async () => {
+    setTaxClasses(await taxService.getTaxClasses());
+  };
+
+  const resetForm = () => {
+    setEditingId(undefined);
+    setName('');
+    setComponents([EMPTY_COMPONENT]);
+  };
+
+  const startEdit = (taxClass: TaxClass) => {
+    setEditingId(taxClass.id);
+    setName(taxClass.name);
+    setComponents(taxClass.components.map(c => ({ name: c.name, rate: c.rate.toString() })));
+  };
+
+  const updateComponent = (index: number, changes: Partial<ComponentForm>) => {
+    setComponents(components.map((c, idx) => (idx === index ? { ...c, ...changes } : c)));
+  };
+
+  const handleSave = async () => {
+    setProcessing(true);
+    try {
+      await taxService.saveTaxClass({
+        id: editingId,
+        name,
+        components: components
+          .filter(c => c.name.trim() || c.rate.trim())
+          .map(c => ({ name: c.name, rate: parseFloat(c.rate) })),
+      });
+      resetForm();
+      await loadTaxClasses();
+    } catch (error) {
+      Alert.alert('Tax Class Error', error instanceof Error ? error.message : 'Failed to save tax class');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleDelete = (taxClass: TaxClass) => {
+    Alert.alert(
+      'Delete Tax Class',
+      `Delete "${taxClass.name}"? Products using it fall back to their own tax rate.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await taxService.deleteTaxClass(taxClass.id);
+            if (editingId === taxClass.id) {
+              resetForm();
+            }
+            loadTaxClasses();
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={processing}>
+            <Text style={styles.cancelText}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Tax Classes</Text>
+          <View style={styles.spacer} />
+        </View>
+
+        <ScrollView style={styles.content}>
+          {taxClasses.length === 0 ? (
+            <Text style={styles.emptyText}>
+              No tax classes yet. Products are taxed at their own rate.
+            </Text>
+          ) : (
+            taxClasses.map(taxClass => (
+              <View key={taxClass.id} style={styles.classRow}>
+                <View style={styles.classInfo}>
+                  <Text style={styles.className}>{taxClass.name}</Text>
+                  <Text style={styles.classDetail}>
+                    {taxClass.components.map(c => `${c.name} ${formatTaxRate(c.rate)}`).join(' + ')}
+                  </Text>
+                </View>
+                <View style={styles.classActions}>
+                  <TouchableOpacity onPress={() => startEdit(taxClass)} disabled={processing}>
+                    <Text style={styles.editText}>Edit</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleDelete(taxClass)} disabled={processing}>
+                    <Text style={styles.deleteText}>Delete</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))
+          )}
+
+          <Text style={styles.sectionTitle}>{editingId ? 'Edit Tax Class' : 'New Tax Class'}</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="Name (e.g. Standard, Prepared Food)"
+            editable={!processing}
+          />
+
+          {components.map((component, idx) => (
+            <View key={idx} style={styles.componentRow}>
+              <TextInput
+                style={[styles.input, styles.componentName]}
+                value={component.name}
+                onChangeText={(text) => updateComponent(idx, { name: text })}
+                placeholder="Tax (e.g. State)"
+                editable={!processing}
+              />
+              <TextInput
+                style={[styles.input, styles.componentRate]}
+                value={component.rate}
+                onChangeText={(text) => updateComponent(idx, { rate: text })}
+                placeholder="0.06"
+                keyboardType="numeric"
+                editable={!processing}
+              />
+              {components.length > 1 && (
+                <TouchableOpacity
+                  onPress={() => setComponents(components.filter((_, i) => i !== idx))}
+                  disabled={processing}
+                >
+                  <Text style={styles.deleteText}>✕</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+
+          <TouchableOpacity
+            onPress={() => setComponents([...components, EMPTY_COMPONENT])}
+            disabled={processing}
+          >
+            <Text style={styles.editText}>+ Add Tax</Text>
+          </TouchableOpacity>
+        </ScrollView>
+
+        <View style={styles.footer}>
+          {editingId && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={resetForm} disabled={processing}>
+              <Text style={styles.secondaryButtonText}>Cancel Edit</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.saveButton, processing && styles.buttonDisabled]}
+            onPress={handleSave}
+            disabled={processing}
+          >
+            <Text style={styles.saveButtonText}>
+              {processing ? 'Saving...' : editingId ? 'Save Changes' : 'Add Tax Class'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  classRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  classInfo: {
+    flex: 1,
+  },
+  className: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  classDetail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  classActions: {
+    flexDirection: 'row',
+    gap: 15,
+  },
+  editText: {
+    fontSize: 14,
+    color: '#27ae60',
+    fontWeight: 'bold',
+  },
+  deleteText: {
+    fontSize: 14,
+    color: '#e74c3c',
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 20,
+    marginBottom: 15,
+    color: '#333',
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 15,
+    fontSize: 16,
+    marginBottom: 10,
+    backgroundColor: '#f8f9fa',
+  },
+  componentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  componentName: {
+    flex: 2,
+  },
+  componentRate: {
+    flex: 1,
+  },
+  footer: {
+    padding: 20,
+    gap: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#e9ecef',
+  },
+  secondaryButton: {
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+  },
+  secondaryButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  saveButton: {
+    backgroundColor: '#27ae60',
+    padding: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: '#95a5a6',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { TaxExemption } from '../types';
+
+interface TaxExemptionModalProps {
+  visible: boolean;
+  exemption: TaxExemption | null;
+  onClose: () => void;
+  onApply: (exemption: TaxExemption | null) => void;
+}
+
+export const TaxExemptionModal: React.FC<TaxExemptionModalProps> = ({
+  visible,
+  exemption,
+  onClose,
+  onApply
+}) => {
+  const [exemptionId, setExemptionId] = useState('');
+  const [customerName, setCustomerName] = useState('');
+
+  // Start from the current exemption, if any, when the modal opens
+  useEffect(() => {
+    if (visible) {
+      setExemptionId(exemption?.exemptionId || '');
+      setCustomerName(exemption?.customerName || '');
+    }
+  }, [visible, exemption]);
+
+  const handleApply = () => {
+    if (!exemptionId.trim()) {
+      Alert.alert('Exemption ID Required', 'Enter the customer\'s tax exemption certificate number.');
+      return;
+    }
+
+    onApply({
+      exemptionId: exemptionId.trim(),
+      customerName: customerName.trim() || undefined,
+    });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Tax Exemption</Text>
+          <View style={styles.spacer} />
+        </View>
+
+        <View style={styles.content}>
+          <Text style={styles.sectionTitle}>Exempt Customer</Text>
+          <TextInput
+            style={styles.input}
+            value={exemptionId}
+            onChangeText={setExemptionId}
+            placeholder="Exemption certificate ID"
+            autoCapitalize="characters"
+          />
+          <TextInput
+            style={styles.input}
+            value={customerName}
+            onChangeText={setCustomerName}
+            placeholder="Customer or organization (optional)"
+          />
+          <Text style={styles.hintText}>
+            No tax is charged on this sale. The exemption ID is kept with the sale record.
+          </Text>
+        </View>
+
+        <View style={styles.footer}>
+          {exemption && (
+            <TouchableOpacity style={styles.removeButton} onPress={() => onApply(null)}>
+              <Text style={styles.removeButtonText}>Remove Exemption</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.applyButton} onPress={handleApply}>
+            <Text style={styles.applyButtonText}>Apply Exemption</Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 15,
+    color: '#333',
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 15,
+    fontSize: 16,
+    marginBottom: 15,
+    backgroundColor: '#f8f9fa',
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  footer: {
+    padding: 20,
+    gap: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#e9ecef',
+  },
+  removeButton: {
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#e74c3c',
+  },
+  removeButtonText: {
+    color: '#e74c3c',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  applyButton: {
+    backgroundColor: '#27ae60',
+    padding: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,239 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView
+} from 'react-native';
+import { authService, TwoFactorStatus } from '../services/AuthService';
+import { TwoFactorSetupScreen } from './TwoFactorSetupScreen';
+
+interface TwoFactorModalProps {
+  visible: boolean;
+  userId: string;
+  onClose: () => void;
+}
+
+/**
+ * The signed-in user's own two-factor settings: turn it on, get new
+ * recovery codes, or turn it off when their role allows
+ */
+export const TwoFactorModal: React.FC<TwoFactorModalProps> = ({ visible, userId, onClose }) => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrolling, setEnrolling] = useState(false);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setEnrolling(false);
+      setCode('');
+      setPassword('');
+      loadStatus();
+    }
+  }, [visible]);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await authService.getTwoFactorStatus(userId));
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load two-factor status');
+    }
+  };
+
+  const handleEnrolled = async () => {
+    setEnrolling(false);
+    await loadStatus();
+  };
+
+  const handleRegenerate = async () => {
+    setProcessing(true);
+    try {
+      const codes = await authService.regenerateRecoveryCodes(code);
+      setCode('');
+      Alert.alert(
+        'New Recovery Codes',
+        `Your old codes no longer work. Keep these somewhere safe:\n\n${codes.join('\n')}`
+      );
+      await loadStatus();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to create recovery codes');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setProcessing(true);
+    try {
+      await authService.disableTwoFactor(userId, password);
+      setPassword('');
+      await loadStatus();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to turn off two-factor authentication');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      {enrolling ? (
+        <TwoFactorSetupScreen onComplete={handleEnrolled} onCancel={() => setEnrolling(false)} />
+      ) : (
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={onClose} disabled={processing}>
+              <Text style={styles.cancelText}>Close</Text>
+            </TouchableOpacity>
+            <Text style={styles.title}>Two-Factor Authentication</Text>
+            <View style={styles.spacer} />
+          </View>
+
+          <ScrollView style={styles.content}>
+            {status && !status.enabled && (
+              <>
+                <Text style={styles.detail}>
+                  {status.required
+                    ? 'Your role requires an authenticator app.'
+                    : 'Add a code from an authenticator app to your password when you sign in.'}
+                </Text>
+                <TouchableOpacity style={styles.button} onPress={() => setEnrolling(true)}>
+                  <Text style={styles.buttonText}>Turn On</Text>
+                </TouchableOpacity>
+              </>
+            )}
+
+            {status?.enabled && (
+              <>
+                <Text style={styles.name}>On</Text>
+                <Text style={styles.detail}>{status.recoveryCodesLeft} recovery codes left</Text>
+
+                <Text style={styles.sectionTitle}>New Recovery Codes</Text>
+                <TextInput
+                  style={styles.input}
+                  value={code}
+                  onChangeText={setCode}
+                  placeholder="Code from your authenticator app"
+                  keyboardType="number-pad"
+                  maxLength={6}
+                />
+                <TouchableOpacity
+                  style={[styles.button, (processing || code.length < 6) && styles.buttonDisabled]}
+                  onPress={handleRegenerate}
+                  disabled={processing || code.length < 6}
+                >
+                  <Text style={styles.buttonText}>Create New Codes</Text>
+                </TouchableOpacity>
+
+                {!status.required && (
+                  <>
+                    <Text style={styles.sectionTitle}>Turn Off</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={password}
+                      onChangeText={setPassword}
+                      placeholder="Current password"
+                      secureTextEntry
+                      autoCapitalize="none"
+                    />
+                    <TouchableOpacity
+                      style={[styles.button, styles.dangerButton, (processing || !password) && styles.buttonDisabled]}
+                      onPress={handleDisable}
+                      disabled={processing || !password}
+                    >
+                      <Text style={styles.buttonText}>Turn Off</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </>
+            )}
+          </ScrollView>
+        </View>
+      )}
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#e74c3c',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 24,
+    marginBottom: 10,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#27ae60',
+  },
+  detail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+    marginBottom: 10,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 10,
+  },
+  button: {
+    backgroundColor: '#27ae60',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  dangerButton: {
+    backgroundColor: '#e74c3c',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { authService, TwoFactorEnrollment } from '../services/AuthService';
+import { theme } from '../styles/theme';
+import { QRCodeView } from './QRCodeView';
+
+interface TwoFactorSetupScreenProps {
+  onComplete: () => void;
+  onCancel: () => void;
+  cancelLabel?: string;
+  // Shown as a gate after login for roles that must use two-factor
+  required?: boolean;
+}
+
+/**
+ * Enroll the signed-in user in TOTP two-factor: scan the QR code (or type
+ * the secret) into an authenticator app, confirm with a first code, then
+ * write down the recovery codes
+ */
+export const TwoFactorSetupScreen: React.FC<TwoFactorSetupScreenProps> = ({
+  onComplete,
+  onCancel,
+  cancelLabel = 'Cancel',
+  required = false,
+}) => {
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    authService
+      .beginTwoFactorEnrollment()
+      .then(setEnrollment)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to start two-factor setup'));
+  }, []);
+
+  const handleVerify = async () => {
+    try {
+      setSaving(true);
+      setRecoveryCodes(await authService.confirmTwoFactorEnrollment(code));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn on two-factor authentication');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        <View style={styles.header}>
+          <Ionicons name="shield-checkmark" size={48} color={theme.colors.primary} />
+          <Text style={styles.title}>Save Your Recovery Codes</Text>
+          <Text style={styles.subtitle}>
+            Each code signs you in once if you lose your phone. They will not be shown again.
+          </Text>
+        </View>
+
+        <View style={styles.form}>
+          <View style={styles.codeList}>
+            {recoveryCodes.map(recoveryCode => (
+              <Text key={recoveryCode} style={styles.recoveryCode}>{recoveryCode}</Text>
+            ))}
+          </View>
+
+          <TouchableOpacity style={styles.submitButton} onPress={onComplete}>
+            <Text style={styles.submitButtonText}>I have saved these codes</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        <View style={styles.header}>
+          <Ionicons name="phone-portrait-outline" size={48} color={theme.colors.primary} />
+          <Text style={styles.title}>Set Up Two-Factor Authentication</Text>
+          <Text style={styles.subtitle}>
+            {required
+              ? 'Your role requires an authenticator app. Scan this code with one to continue.'
+              : 'Scan this code with an authenticator app such as Google Authenticator or 1Password.'}
+          </Text>
+        </View>
+
+        <View style={styles.form}>
+          {enrollment ? (
+            <>
+              <QRCodeView value={enrollment.uri} size={220} />
+              <Text style={styles.hint}>Can't scan it? Enter this key instead:</Text>
+              <Text selectable style={styles.secretText}>
+                {enrollment.secret.replace(/(.{4})/g, '$1 ').trim()}
+              </Text>
+            </>
+          ) : (
+            !error && <ActivityIndicator color={theme.colors.primary} />
+          )}
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Code from the App</Text>
+            <TextInput
+              style={styles.input}
+              value={code}
+              onChangeText={(text) => {
+                setCode(text);
+                setError(null);
+              }}
+              placeholder="123456"
+              keyboardType="number-pad"
+              maxLength={6}
+            />
+          </View>
+
+          {error && (
+            <View style={styles.errorContainer}>
+              <Ionicons name="alert-circle" size={20} color={theme.colors.error} />
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.submitButton, (saving || !enrollment || code.length < 6) && styles.submitButtonDisabled]}
+            onPress={handleVerify}
+            disabled={saving || !enrollment || code.length < 6}
+          >
+            {saving ? (
+              <ActivityIndicator color={theme.colors.surface} />
+            ) : (
+              <Text style={styles.submitButtonText}>Verify and Turn On</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.signOutLink} onPress={onCancel} disabled={saving}>
+            <Text style={styles.signOutText}>{cancelLabel}</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingBottom: 40,
+  },
+  header: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingBottom: 32,
+    paddingHorizontal: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+    marginTop: 16,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  form: {
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.text,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: theme.colors.surface,
+    color: theme.colors.text,
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.error + '20',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 20,
+  },
+  errorText: {
+    color: theme.colors.error,
+    fontSize: 14,
+    marginLeft: 8,
+    flex: 1,
+  },
+  submitButton: {
+    backgroundColor: theme.colors.primary,
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: theme.colors.surface,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  signOutLink: {
+    alignItems: 'center',
+    padding: 12,
+  },
+  signOutText: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+  },
+  secretText: {
+    fontSize: 16,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    color: theme.colors.text,
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  hint: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  codeList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  recoveryCode: {
+    width: '50%',
+    fontSize: 16,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    color: theme.colors.text,
+    textAlign: 'center',
+    paddingVertical: 6,
+  },
+});
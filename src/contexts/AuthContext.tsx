@@ -1,7 +1,10 @@
 import React, { createContext, useContext, useReducer, useEffect } from 'react';
-import { Alert } from 'react-native';
-import { User, UserPermissions, LoginCredentials, AuthState, AuthAction } from '../types/auth';
-import { authService } from '../services/AuthService';
+import { Alert, AppState } from 'react-native';
+import { User, UserPermissions, LoginCredentials, AuthState, AuthAction, AuthSession } from '../types/auth';
+import { authService, TwoFactorRequiredError } from '../services/AuthService';
+
+// How often to check whether this device's session was revoked elsewhere
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
 
 // Initial state
 const initialState: AuthState = {
@@ -9,6 +12,10 @@ const initialState: AuthState = {
   isLoading: true,
   user: null,
   permissions: null,
+  mustChangePassword: false,
+  mustEnrollTwoFactor: false,
+  twoFactorRequired: false,
+  isLocked: false,
   error: null,
 };
 
@@ -28,8 +35,40 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         isLoading: false,
         user: action.payload.user,
         permissions: action.payload.permissions,
+        mustChangePassword: !!action.payload.mustChangePassword,
+        mustEnrollTwoFactor: !!action.payload.mustEnrollTwoFactor,
+        twoFactorRequired: false,
+        isLocked: false,
+        error: null,
+      };
+    case 'TWO_FACTOR_REQUIRED':
+      return {
+        ...state,
+        isLoading: false,
+        twoFactorRequired: true,
         error: null,
       };
+    case 'TWO_FACTOR_ENROLLED':
+      return {
+        ...state,
+        mustEnrollTwoFactor: false,
+      };
+    case 'PASSWORD_CHANGED':
+      return {
+        ...state,
+        mustChangePassword: false,
+      };
+    case 'REGISTER_LOCKED':
+      return {
+        ...state,
+        isLocked: true,
+      };
+    case 'PERMISSIONS_UPDATED':
+      return {
+        ...state,
+        user: action.payload.user,
+        permissions: action.payload.permissions,
+      };
     case 'LOGIN_FAILURE':
       return {
         ...state,
@@ -37,6 +76,9 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         isLoading: false,
         user: null,
         permissions: null,
+        mustChangePassword: false,
+        mustEnrollTwoFactor: false,
+        isLocked: false,
         error: action.payload.error,
       };
     case 'LOGOUT':
@@ -46,6 +88,10 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         isLoading: false,
         user: null,
         permissions: null,
+        mustChangePassword: false,
+        mustEnrollTwoFactor: false,
+        twoFactorRequired: false,
+        isLocked: false,
         error: null,
       };
     case 'UPDATE_USER':
@@ -70,11 +116,22 @@ interface AuthContextType {
   isLoading: boolean;
   user: User | null;
   permissions: UserPermissions | null;
+  mustChangePassword: boolean;
+  mustEnrollTwoFactor: boolean;
+  twoFactorRequired: boolean;
+  isLocked: boolean;
   error: string | null;
 
   // Actions
   login: (credentials: LoginCredentials) => Promise<void>;
+  cancelTwoFactor: () => void;
   logout: () => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  completeTwoFactorEnrollment: () => void;
+  lockRegister: () => Promise<void>;
+  unlockWithPin: (userId: string, pin: string) => Promise<void>;
+  unlockWithPassword: (username: string, password: string, totpCode?: string) => Promise<void>;
+  refreshPermissions: () => Promise<void>;
   clearError: () => void;
   
   // Permission helpers
@@ -98,6 +155,32 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     checkExistingSession();
   }, []);
 
+  // Sign out here once the session is revoked from another device or ended by a password change
+  useEffect(() => {
+    if (!state.isAuthenticated) {
+      return;
+    }
+
+    const checkSession = async () => {
+      if (!(await authService.isSessionActive())) {
+        dispatch({ type: 'LOGOUT' });
+        Alert.alert('Signed Out', 'Your session has ended. Please sign in again.', [{ text: 'OK' }]);
+      }
+    };
+
+    const timer = setInterval(checkSession, SESSION_CHECK_INTERVAL_MS);
+    const subscription = AppState.addEventListener('change', appState => {
+      if (appState === 'active') {
+        checkSession();
+      }
+    });
+
+    return () => {
+      clearInterval(timer);
+      subscription.remove();
+    };
+  }, [state.isAuthenticated]);
+
   const checkExistingSession = async () => {
     try {
       dispatch({ type: 'LOGIN_START' });
@@ -109,8 +192,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           payload: {
             user: session.user,
             permissions: session.permissions,
+            mustChangePassword: session.mustChangePassword,
+            mustEnrollTwoFactor: session.mustEnrollTwoFactor,
           },
         });
+        if (await authService.isRegisterLocked()) {
+          dispatch({ type: 'REGISTER_LOCKED' });
+        }
       } else {
         dispatch({ type: 'LOGOUT' });
       }
@@ -131,6 +219,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         payload: {
           user: session.user,
           permissions: session.permissions,
+          mustChangePassword: session.mustChangePassword,
+          mustEnrollTwoFactor: session.mustEnrollTwoFactor,
         },
       });
 
@@ -141,6 +231,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         [{ text: 'OK' }]
       );
     } catch (error) {
+      // Not a failure: the login screen asks for the authenticator code and submits again
+      if (error instanceof TwoFactorRequiredError) {
+        dispatch({ type: 'TWO_FACTOR_REQUIRED' });
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Login failed';
       dispatch({
         type: 'LOGIN_FAILURE',
@@ -151,6 +247,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const cancelTwoFactor = () => {
+    dispatch({ type: 'LOGOUT' });
+  };
+
   const logout = async () => {
     try {
       await authService.logout();
@@ -166,12 +266,64 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Throws with a user-facing message if the current password is wrong
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    if (!state.user) {
+      throw new Error('Not signed in');
+    }
+    await authService.changePassword(state.user.id, currentPassword, newPassword);
+    dispatch({ type: 'PASSWORD_CHANGED' });
+  };
+
+  const completeTwoFactorEnrollment = () => {
+    dispatch({ type: 'TWO_FACTOR_ENROLLED' });
+  };
+
+  const lockRegister = async () => {
+    await authService.lockRegister();
+    dispatch({ type: 'REGISTER_LOCKED' });
+  };
+
+  // Unlocking as a different user switches the operator; the POS screen and its cart stay mounted
+  const unlockWithSession = async (session: AuthSession) => {
+    await authService.unlockRegister();
+    dispatch({
+      type: 'LOGIN_SUCCESS',
+      payload: {
+        user: session.user,
+        permissions: session.permissions,
+        mustChangePassword: session.mustChangePassword,
+        mustEnrollTwoFactor: session.mustEnrollTwoFactor,
+      },
+    });
+  };
+
+  const unlockWithPin = async (userId: string, pin: string) => {
+    await unlockWithSession(await authService.loginWithPin(userId, pin));
+  };
+
+  const unlockWithPassword = async (username: string, password: string, totpCode?: string) => {
+    await unlockWithSession(await authService.login({ username, password, totpCode }));
+  };
+
+  // Pick up role or override edits without signing out
+  const refreshPermissions = async () => {
+    await authService.refreshPermissions();
+    const session = await authService.getCurrentSession();
+    if (session) {
+      dispatch({
+        type: 'PERMISSIONS_UPDATED',
+        payload: { user: session.user, permissions: session.permissions },
+      });
+    }
+  };
+
   const clearError = () => {
     dispatch({ type: 'CLEAR_ERROR' });
   };
 
   const hasPermission = (permission: keyof UserPermissions): boolean => {
-    if (!state.permissions) {return false;}
+    if (!state.permissions || state.mustEnrollTwoFactor) {return false;}
     return state.permissions[permission] || false;
   };
 
@@ -193,11 +345,22 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     isLoading: state.isLoading,
     user: state.user,
     permissions: state.permissions,
+    mustChangePassword: state.mustChangePassword,
+    mustEnrollTwoFactor: state.mustEnrollTwoFactor,
+    twoFactorRequired: state.twoFactorRequired,
+    isLocked: state.isLocked,
     error: state.error,
 
     // Actions
     login,
+    cancelTwoFactor,
     logout,
+    changePassword,
+    completeTwoFactorEnrollment,
+    lockRegister,
+    unlockWithPin,
+    unlockWithPassword,
+    refreshPermissions,
     clearError,
     
     // Helpers
@@ -245,3 +408,36 @@ export const RequireAuth: React.FC<RequireAuthProps> = ({
 
   return <>{children}</>;
 };
+
+type PermissionRequirement = keyof UserPermissions | (keyof UserPermissions)[];
+
+// True when the signed-in user holds every required permission
+export const usePermission = (permission: PermissionRequirement): boolean => {
+  const { isAuthenticated, hasPermission } = useAuth();
+  const required = Array.isArray(permission) ? permission : [permission];
+  return isAuthenticated && required.every(hasPermission);
+};
+
+interface RequirePermissionProps {
+  permission: PermissionRequirement;
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}
+
+/**
+ * Renders its children only for users with the permission(s), e.g.
+ *
+ *   <RequirePermission permission="canManageProducts">
+ *     <Button title="Add Product" ... />
+ *   </RequirePermission>
+ *
+ * Use `usePermission` instead to disable a control rather than hide it.
+ */
+export const RequirePermission: React.FC<RequirePermissionProps> = ({
+  permission,
+  children,
+  fallback = null,
+}) => {
+  const allowed = usePermission(permission);
+  return <>{allowed ? children : fallback}</>;
+};
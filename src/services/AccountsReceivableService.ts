@@ -0,0 +1,402 @@
+import { database } from '../stores/DatabaseFactory';
+import { Customer, RetailTransaction, TenderLineItem } from '../types';
+import { AgingBuckets, CustomerStatement, DocumentGenerationResult, Invoice, InvoicePayment } from '../types/documents';
+import { authService } from './AuthService';
+import { customerService } from './CustomerService';
+import { documentService } from './DocumentService';
+
+export interface CustomerAccount {
+  customer: Customer;
+  creditLimit: number;
+  balance: number;
+  available: number;
+  openInvoices: Invoice[]; // oldest due first
+}
+
+export interface AgedReceivablesReport {
+  asOf: Date;
+  // Customers with an open balance, largest first
+  customers: { customerId: string; name: string; aging: AgingBuckets; total: number }[];
+  totals: AgingBuckets;
+  total: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const emptyBuckets = (): AgingBuckets => ({ current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0 });
+
+const daysOverdue = (invoice: Invoice, asOf: Date): number =>
+  Math.max(0, Math.floor((asOf.getTime() - invoice.dueDate.getTime()) / DAY_MS));
+
+const bucketFor = (days: number): keyof AgingBuckets => {
+  if (days <= 0) {
+    return 'current';
+  }
+  if (days <= 30) {
+    return 'days1to30';
+  }
+  if (days <= 60) {
+    return 'days31to60';
+  }
+  return days <= 90 ? 'days61to90' : 'over90';
+};
+
+const accountTenderTotal = (tenders: TenderLineItem[]): number =>
+  roundCurrency(tenders.filter(t => t.type === 'on_account').reduce((sum, t) => sum + t.amount, 0));
+
+/**
+ * House accounts. Customers approved with a credit limit can charge sales to
+ * their account with the 'on_account' tender; the charged amount becomes an
+ * invoice that is paid down with full or partial payments. Open invoices are
+ * aged by days past due for the receivables report and customer statements.
+ */
+export class AccountsReceivableService {
+  private static instance: AccountsReceivableService;
+
+  private constructor() {}
+
+  public static getInstance(): AccountsReceivableService {
+    if (!AccountsReceivableService.instance) {
+      AccountsReceivableService.instance = new AccountsReceivableService();
+    }
+    return AccountsReceivableService.instance;
+  }
+
+  /**
+   * Approve a customer to charge to account, or withdraw approval with 0
+   */
+  public async setCreditLimit(customerId: string, creditLimit: number): Promise<Customer> {
+    authService.requirePermission('canManageSettings');
+
+    if (!(creditLimit >= 0)) {
+      throw new Error('Credit limit cannot be negative');
+    }
+    const existing = await this.requireCustomer(customerId);
+
+    let customer: Customer;
+    try {
+      customer = await database.updateCustomer({
+        id: customerId,
+        creditLimit: creditLimit > 0 ? roundCurrency(creditLimit) : undefined,
+      });
+    } catch (error) {
+      console.error('Failed to update credit limit:', error);
+      throw new Error('Failed to update credit limit');
+    }
+
+    await this.logAudit('credit_limit_changed', {
+      customerId,
+      name: customer.name,
+      previousLimit: existing.creditLimit ?? 0,
+      creditLimit: customer.creditLimit ?? 0,
+    });
+    return customer;
+  }
+
+  public async getOpenInvoices(customerId?: string): Promise<Invoice[]> {
+    const invoices = await documentService.getAllInvoices();
+    return invoices
+      .filter(invoice =>
+        (invoice.status === 'sent' || invoice.status === 'overdue') &&
+        invoice.remainingBalance > 0 &&
+        (!customerId || invoice.customerId === customerId)
+      )
+      .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  }
+
+  public async getAccount(customerId: string): Promise<CustomerAccount> {
+    const customer = await this.requireCustomer(customerId);
+    const openInvoices = await this.getOpenInvoices(customerId);
+    const balance = roundCurrency(openInvoices.reduce((sum, invoice) => sum + invoice.remainingBalance, 0));
+    const creditLimit = customer.creditLimit ?? 0;
+
+    return {
+      customer,
+      creditLimit,
+      balance,
+      available: Math.max(0, roundCurrency(creditLimit - balance)),
+      openInvoices,
+    };
+  }
+
+  /**
+   * Check an 'on_account' charge before the sale is saved
+   */
+  public async assertCanCharge(customerId: string | undefined, amount: number): Promise<void> {
+    if (!customerId) {
+      throw new Error('Attach a customer to charge to account');
+    }
+    const account = await this.getAccount(customerId);
+    if (account.creditLimit <= 0) {
+      throw new Error(`${account.customer.name} is not approved to charge to account`);
+    }
+    if (amount > account.available + 0.005) {
+      throw new Error(
+        `Charge exceeds ${account.customer.name}'s credit limit: $${account.available.toFixed(2)} available`
+      );
+    }
+  }
+
+  /**
+   * Invoice the 'on_account' part of a completed sale
+   */
+  public async chargeSale(sale: RetailTransaction): Promise<Invoice | null> {
+    const charged = accountTenderTotal(sale.tenders);
+    if (charged <= 0) {
+      return null;
+    }
+
+    const result = await documentService.generateAccountInvoice(sale);
+    const invoice = result.success ? await documentService.getInvoice(result.documentId) : null;
+    if (!invoice) {
+      throw new Error(result.error || 'Failed to invoice account charge');
+    }
+
+    await this.logAudit('sale_charged_to_account', {
+      customerId: sale.customerId,
+      transactionId: sale.id,
+      invoiceNumber: invoice.documentNumber,
+      amount: charged,
+    });
+    console.log(`🧾 Charged $${charged.toFixed(2)} to account on invoice ${invoice.documentNumber}`);
+    return invoice;
+  }
+
+  /**
+   * Undo chargeSale for a sale that could not be saved
+   */
+  public async cancelCharge(sale: RetailTransaction): Promise<void> {
+    const invoice = sale.id ? await this.findSaleInvoice(sale.id) : undefined;
+    if (!invoice || invoice.status === 'cancelled') {
+      return;
+    }
+
+    await documentService.cancelInvoice(invoice.id);
+    await this.logAudit('account_charge_cancelled', {
+      customerId: sale.customerId,
+      transactionId: sale.id,
+      invoiceNumber: invoice.documentNumber,
+      amount: invoice.remainingBalance,
+    });
+  }
+
+  /**
+   * Undo cancelCharge when voiding the sale could not be completed
+   */
+  public async reinstateCharge(sale: RetailTransaction): Promise<void> {
+    const invoice = sale.id ? await this.findSaleInvoice(sale.id) : undefined;
+    if (!invoice || invoice.status !== 'cancelled') {
+      return;
+    }
+
+    await documentService.reopenInvoice(invoice.id);
+    await this.logAudit('account_charge_reinstated', {
+      customerId: sale.customerId,
+      transactionId: sale.id,
+      invoiceNumber: invoice.documentNumber,
+    });
+  }
+
+  /**
+   * Refunds to 'on_account' can only credit what is still owed on the sale's
+   * invoice; anything beyond that is paid back in cash. Takes the refund
+   * tenders as positive amounts, before they are negated on the return.
+   */
+  public async limitAccountRefunds(original: RetailTransaction, tenders: TenderLineItem[]): Promise<TenderLineItem[]> {
+    const requested = accountTenderTotal(tenders);
+    if (requested <= 0) {
+      return tenders;
+    }
+
+    const invoice = original.id ? await this.findSaleInvoice(original.id) : undefined;
+    const creditable = invoice ? Math.min(requested, invoice.remainingBalance) : 0;
+    const excess = roundCurrency(requested - creditable);
+    if (excess <= 0) {
+      return tenders;
+    }
+
+    const adjusted = tenders
+      .map(tender => tender.type === 'on_account' ? { ...tender, amount: creditable } : tender)
+      .filter(tender => tender.amount > 0);
+    const cash = adjusted.find(tender => tender.type === 'cash');
+    return cash
+      ? adjusted.map(tender => tender === cash ? { ...tender, amount: roundCurrency(tender.amount + excess) } : tender)
+      : [...adjusted, { type: 'cash', amount: excess }];
+  }
+
+  /**
+   * Credit 'on_account' refund tenders against the original sale's invoice
+   */
+  public async creditReturn(refund: RetailTransaction): Promise<void> {
+    const credited = -accountTenderTotal(refund.tenders);
+    if (credited <= 0 || !refund.originalTransactionId) {
+      return;
+    }
+
+    const invoice = await this.findSaleInvoice(refund.originalTransactionId);
+    if (!invoice) {
+      throw new Error('No account invoice found for the original sale');
+    }
+    await documentService.recordInvoicePayment(invoice.id, {
+      amount: credited,
+      method: 'return',
+      reference: refund.id,
+      userId: refund.operatorId,
+    });
+    await this.logAudit('account_credited_for_return', {
+      customerId: invoice.customerId,
+      invoiceNumber: invoice.documentNumber,
+      transactionId: refund.id,
+      amount: credited,
+    });
+  }
+
+  /**
+   * Undo creditReturn for a return that could not be completed
+   */
+  public async reverseReturnCredit(refund: RetailTransaction): Promise<void> {
+    if (!refund.id || !refund.originalTransactionId) {
+      return;
+    }
+
+    const invoice = await this.findSaleInvoice(refund.originalTransactionId);
+    const credits = (invoice?.payments || []).filter(p => p.method === 'return' && p.reference === refund.id);
+    for (const credit of credits) {
+      await documentService.removeInvoicePayment(invoice!.id, credit.id);
+      await this.logAudit('account_credit_reversed', {
+        customerId: invoice!.customerId,
+        invoiceNumber: invoice!.documentNumber,
+        transactionId: refund.id,
+        amount: credit.amount,
+      });
+    }
+  }
+
+  /**
+   * Record a customer's payment against one invoice
+   */
+  public async recordPayment(
+    invoiceId: string,
+    amount: number,
+    method: InvoicePayment['method'],
+    reference?: string
+  ): Promise<Invoice> {
+    authService.requirePermission('canProcessSales');
+
+    const currentUser = await authService.getCurrentUser();
+    const invoice = await documentService.recordInvoicePayment(invoiceId, {
+      amount,
+      method,
+      reference: reference?.trim() || undefined,
+      userId: currentUser?.id,
+    });
+
+    await this.logAudit('invoice_payment_recorded', {
+      customerId: invoice.customerId,
+      invoiceNumber: invoice.documentNumber,
+      amount,
+      method,
+      remainingBalance: invoice.remainingBalance,
+    });
+    return invoice;
+  }
+
+  /**
+   * Open balances by customer in current, 1-30, 31-60, 61-90 and 90+ days
+   * past due
+   */
+  public async getAgedReceivables(asOf: Date = new Date()): Promise<AgedReceivablesReport> {
+    authService.requirePermission('canViewReports');
+
+    const byCustomer = new Map<string, AgedReceivablesReport['customers'][number]>();
+    const totals = emptyBuckets();
+
+    for (const invoice of await this.getOpenInvoices()) {
+      const key = invoice.customerId || invoice.customerInfo?.id || invoice.customerInfo?.name || 'unknown';
+      const row = byCustomer.get(key) || {
+        customerId: key,
+        name: invoice.customerInfo?.name || 'Unknown customer',
+        aging: emptyBuckets(),
+        total: 0,
+      };
+      const bucket = bucketFor(daysOverdue(invoice, asOf));
+      row.aging[bucket] = roundCurrency(row.aging[bucket] + invoice.remainingBalance);
+      row.total = roundCurrency(row.total + invoice.remainingBalance);
+      totals[bucket] = roundCurrency(totals[bucket] + invoice.remainingBalance);
+      byCustomer.set(key, row);
+    }
+
+    const customers = Array.from(byCustomer.values()).sort((a, b) => b.total - a.total);
+    return {
+      asOf,
+      customers,
+      totals,
+      total: roundCurrency(customers.reduce((sum, row) => sum + row.total, 0)),
+    };
+  }
+
+  /**
+   * Open-item statement with the customer's balance aged
+   */
+  public async getStatement(
+    customerId: string,
+    asOf: Date = new Date()
+  ): Promise<Omit<CustomerStatement, 'id' | 'documentNumber' | 'createdAt' | 'businessInfo'>> {
+    const account = await this.getAccount(customerId);
+    const aging = emptyBuckets();
+
+    const invoices = account.openInvoices.map(invoice => {
+      const overdue = daysOverdue(invoice, asOf);
+      const bucket = bucketFor(overdue);
+      aging[bucket] = roundCurrency(aging[bucket] + invoice.remainingBalance);
+      return {
+        documentNumber: invoice.documentNumber,
+        invoiceDate: invoice.invoiceDate,
+        dueDate: invoice.dueDate,
+        total: invoice.grandTotal,
+        paid: invoice.paidAmount || 0,
+        balance: invoice.remainingBalance,
+        daysOverdue: overdue,
+      };
+    });
+
+    return {
+      customerInfo: customerService.toCustomerInfo(account.customer),
+      invoices,
+      aging,
+      balance: account.balance,
+      creditLimit: account.creditLimit > 0 ? account.creditLimit : undefined,
+    };
+  }
+
+  public async generateStatement(customerId: string): Promise<DocumentGenerationResult> {
+    return documentService.generateStatement(await this.getStatement(customerId));
+  }
+
+  private async findSaleInvoice(transactionId: string): Promise<Invoice | undefined> {
+    const invoices = await documentService.getAllInvoices();
+    return invoices.find(invoice => invoice.transactionId === transactionId);
+  }
+
+  private async requireCustomer(customerId: string): Promise<Customer> {
+    const customer = await customerService.getCustomer(customerId);
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+    return customer;
+  }
+
+  private async logAudit(action: string, details: Record<string, unknown>): Promise<void> {
+    try {
+      const currentUser = await authService.getCurrentUser();
+      await database.logAuditEvent(currentUser?.id || null, action, 'accounts_receivable', details);
+    } catch (error) {
+      console.error('Failed to log accounts receivable change:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const accountsReceivableService = AccountsReceivableService.getInstance();
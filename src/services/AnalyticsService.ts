@@ -1,6 +1,6 @@
-import { database } from '../stores/Database';
 import { productService } from './ProductService';
 import { salesService } from './SimpleSalesService';
+import { summarizeTenders } from '../stores/TransactionLedger';
 import {
   IAnalyticsService,
   SalesAnalytics,
@@ -77,7 +77,8 @@ class AnalyticsService implements IAnalyticsService {
   async getDailySummary(startDate: Date, endDate: Date): Promise<DailySummary> {
     const sales = await salesService.getSalesByDateRange(startDate, endDate);
 
-    const totalSales = sales.length;
+    // Returns net off revenue but are not sales of their own
+    const totalSales = sales.filter(sale => sale.status !== 'returned').length;
     const totalRevenue = sales.reduce((sum, sale) => sum + sale.totals.grandTotal, 0);
     const totalTax = sales.reduce((sum, sale) => sum + sale.totals.taxTotal, 0);
     const averageTransaction = totalSales > 0 ? totalRevenue / totalSales : 0;
@@ -89,12 +90,11 @@ class AnalyticsService implements IAnalyticsService {
       digital: { count: 0, amount: 0 }
     };
 
-    sales.forEach(sale => {
-      const paymentType = sale.tenders[0]?.type || 'other';
-      if (paymentType === 'cash' || paymentType === 'card' || paymentType === 'digital') {
-        paymentMethods[paymentType].count++;
-        paymentMethods[paymentType].amount += sale.totals.grandTotal;
-      }
+    // Split-tender sales count towards every tender used
+    const tenderSummary = summarizeTenders(sales);
+    (Object.keys(paymentMethods) as (keyof typeof paymentMethods)[]).forEach(method => {
+      paymentMethods[method].count = tenderSummary[method]?.count || 0;
+      paymentMethods[method].amount = tenderSummary[method]?.amount || 0;
     });
 
     return {
@@ -111,7 +111,8 @@ class AnalyticsService implements IAnalyticsService {
   async getTimeRangeAnalytics(startDate: Date, endDate: Date): Promise<TimeRangeAnalytics> {
     const sales = await salesService.getSalesByDateRange(startDate, endDate);
 
-    const totalSales = sales.length;
+    // Returns net off revenue but are not sales of their own
+    const totalSales = sales.filter(sale => sale.status !== 'returned').length;
     const totalRevenue = sales.reduce((sum, sale) => sum + sale.totals.grandTotal, 0);
     const totalTax = sales.reduce((sum, sale) => sum + sale.totals.taxTotal, 0);
     const totalDiscount = sales.reduce((sum, sale) => sum + sale.totals.discountTotal, 0);
@@ -124,12 +125,11 @@ class AnalyticsService implements IAnalyticsService {
       digital: { count: 0, amount: 0, percentage: 0 }
     };
 
-    sales.forEach(sale => {
-      const paymentType = sale.tenders[0]?.type || 'other';
-      if (paymentType === 'cash' || paymentType === 'card' || paymentType === 'digital') {
-        paymentBreakdown[paymentType].count++;
-        paymentBreakdown[paymentType].amount += sale.totals.grandTotal;
-      }
+    // Split-tender sales count towards every tender used
+    const tenderSummary = summarizeTenders(sales);
+    (Object.keys(paymentBreakdown) as (keyof typeof paymentBreakdown)[]).forEach(method => {
+      paymentBreakdown[method].count = tenderSummary[method]?.count || 0;
+      paymentBreakdown[method].amount = tenderSummary[method]?.amount || 0;
     });
 
     // Calculate percentages
@@ -386,7 +386,7 @@ class AnalyticsService implements IAnalyticsService {
       const sales = await this.getSalesInPeriod(period);
       
       const totalSales = sales.reduce((sum, sale) => sum + sale.totals.grandTotal, 0);
-      const totalTransactions = sales.length;
+      const totalTransactions = sales.filter(sale => sale.status !== 'returned').length;
       const averageTransactionValue = totalTransactions > 0 ? totalSales / totalTransactions : 0;
       
       // Calculate total items sold
@@ -394,14 +394,14 @@ class AnalyticsService implements IAnalyticsService {
       let grossProfit = 0;
 
       for (const sale of sales) {
-        const saleItems = await database.getSaleItems(Number(sale.id) || 0);
-        totalItemsSold += saleItems.reduce((sum, item) => sum + item.qty, 0);
+        totalItemsSold += sale.items.reduce((sum, item) => sum + item.quantity, 0);
         
         // Calculate gross profit for this sale
-        for (const item of saleItems) {
-          const product = await productService.getProduct(item.product_id);
+        for (const item of sale.items) {
+          const product = await productService.getProduct(item.productId);
           if (product) {
-            const itemProfit = (item.unit_price - product.cost) * item.qty;
+            // Profit on what was actually charged, after discounts
+            const itemProfit = item.lineTotal.net - product.cost * item.quantity;
             grossProfit += itemProfit;
           }
         }
@@ -447,12 +447,11 @@ class AnalyticsService implements IAnalyticsService {
 
         // Calculate metrics for this product
         for (const sale of sales) {
-          const saleItems = await database.getSaleItems(Number(sale.id) || 0);
-          for (const item of saleItems) {
-            if (item.product_id === product.id) {
-              totalSold += item.qty;
-              totalRevenue += item.unit_price * item.qty;
-              totalProfit += (item.unit_price - product.cost) * item.qty;
+          for (const item of sale.items) {
+            if (item.productId === product.id) {
+              totalSold += item.quantity;
+              totalRevenue += item.lineTotal.net;
+              totalProfit += item.lineTotal.net - product.cost * item.quantity;
             }
           }
         }
@@ -549,11 +548,10 @@ class AnalyticsService implements IAnalyticsService {
       let totalCOGS = 0;
 
       for (const sale of sales) {
-        const saleItems = await database.getSaleItems(Number(sale.id) || 0);
-        for (const item of saleItems) {
-          const product = await productService.getProduct(item.product_id);
+        for (const item of sale.items) {
+          const product = await productService.getProduct(item.productId);
           if (product) {
-            totalCOGS += product.cost * item.qty;
+            totalCOGS += product.cost * item.quantity;
           }
         }
       }
@@ -585,40 +583,74 @@ class AnalyticsService implements IAnalyticsService {
     }
   }
 
+  /**
+   * Built from the customers attached at checkout; walk-in sales without a
+   * customer are left out. A customer is new when their first purchase ever
+   * falls inside the period.
+   */
   public async getCustomerAnalytics(period: TimePeriod): Promise<CustomerAnalytics> {
     try {
-      const sales = await this.getSalesInPeriod(period);
-      const totalCustomers = sales.length;
-      const newCustomers = Math.floor(totalCustomers * 0.7);
+      const startDate = new Date(period.start_date);
+      const endDate = new Date(period.end_date);
+      const customerSales = (await salesService.getAllSales())
+        .filter(sale => sale.customerId && sale.status === 'completed');
+
+      const firstPurchase = new Map<string, Date>();
+      const lifetimeRevenue = new Map<string, number>();
+      const periodTotals = new Map<string, { revenue: number; orders: number }>();
+      for (const sale of customerSales) {
+        const customerId = sale.customerId as string;
+        const saleDate = new Date(sale.timestamp);
+        const first = firstPurchase.get(customerId);
+        if (!first || saleDate < first) {
+          firstPurchase.set(customerId, saleDate);
+        }
+        lifetimeRevenue.set(customerId, (lifetimeRevenue.get(customerId) || 0) + sale.totals.grandTotal);
+
+        if (saleDate >= startDate && saleDate <= endDate) {
+          const totals = periodTotals.get(customerId) || { revenue: 0, orders: 0 };
+          periodTotals.set(customerId, {
+            revenue: totals.revenue + sale.totals.grandTotal,
+            orders: totals.orders + 1,
+          });
+        }
+      }
+
+      const customerIds = Array.from(periodTotals.keys());
+      const totalCustomers = customerIds.length;
+      const newCustomers = customerIds.filter(id => (firstPurchase.get(id) as Date) >= startDate).length;
       const returningCustomers = totalCustomers - newCustomers;
       const customerRetentionRate = totalCustomers > 0 ? (returningCustomers / totalCustomers) * 100 : 0;
-      const totalRevenue = sales.reduce((sum, sale) => sum + sale.totals.grandTotal, 0);
-      const averageOrderValue = totalCustomers > 0 ? totalRevenue / totalCustomers : 0;
-      const averageCustomerLifetimeValue = averageOrderValue * 2.5;
-      const purchaseFrequency = 1.2;
+      const totalRevenue = customerIds.reduce((sum, id) => sum + periodTotals.get(id)!.revenue, 0);
+      const totalOrders = customerIds.reduce((sum, id) => sum + periodTotals.get(id)!.orders, 0);
+      const averageOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
+      const averageCustomerLifetimeValue = totalCustomers > 0
+        ? customerIds.reduce((sum, id) => sum + (lifetimeRevenue.get(id) || 0), 0) / totalCustomers
+        : 0;
+      const purchaseFrequency = totalCustomers > 0 ? totalOrders / totalCustomers : 0;
+
+      // Top 20% of customers by revenue, the next 50%, then the rest
+      const ranked = customerIds
+        .map(id => periodTotals.get(id)!)
+        .sort((a, b) => b.revenue - a.revenue);
+      const highValueCount = Math.ceil(ranked.length * 0.2);
+      const regularCount = Math.ceil(ranked.length * 0.7) - highValueCount;
+      const segment = (segmentName: string, members: { revenue: number; orders: number }[]) => {
+        const revenue = members.reduce((sum, member) => sum + member.revenue, 0);
+        const orders = members.reduce((sum, member) => sum + member.orders, 0);
+        return {
+          segment_name: segmentName,
+          customer_count: members.length,
+          total_revenue: revenue,
+          average_order_value: orders > 0 ? revenue / orders : 0,
+          purchase_frequency: members.length > 0 ? orders / members.length : 0
+        };
+      };
 
       const customerSegments = [
-        {
-          segment_name: 'High Value',
-          customer_count: Math.floor(totalCustomers * 0.2),
-          total_revenue: totalRevenue * 0.6,
-          average_order_value: averageOrderValue * 3,
-          purchase_frequency: 2.5
-        },
-        {
-          segment_name: 'Regular',
-          customer_count: Math.floor(totalCustomers * 0.5),
-          total_revenue: totalRevenue * 0.3,
-          average_order_value: averageOrderValue * 0.8,
-          purchase_frequency: 1.2
-        },
-        {
-          segment_name: 'Occasional',
-          customer_count: Math.floor(totalCustomers * 0.3),
-          total_revenue: totalRevenue * 0.1,
-          average_order_value: averageOrderValue * 0.4,
-          purchase_frequency: 0.6
-        }
+        segment('High Value', ranked.slice(0, highValueCount)),
+        segment('Regular', ranked.slice(highValueCount, highValueCount + regularCount)),
+        segment('Occasional', ranked.slice(highValueCount + regularCount))
       ];
 
       return {
@@ -0,0 +1,146 @@
+import { database } from '../stores/DatabaseFactory';
+import { serializeAuditDetails, verifyAuditChain } from '../stores/AuditChain';
+import { AuditChainVerification, AuditLog, AuditLogPage, AuditLogQuery } from '../types';
+import { authService } from './AuthService';
+
+export type AuditExportFormat = 'csv' | 'json';
+
+export interface AuditExport {
+  filename: string;
+  content: string;
+  count: number;
+}
+
+const CSV_COLUMNS = [
+  'sequence',
+  'timestamp',
+  'userId',
+  'username',
+  'action',
+  'resource',
+  'details',
+  'ipAddress',
+  'previousHash',
+  'hash',
+] as const;
+
+const csvCell = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Loss-prevention view of the audit log: filtered and paged queries, a
+ * verification pass over the hash chain, and CSV/JSON export. Reading needs
+ * canAccessAuditLogs and exporting also needs canExportData; verifications
+ * and exports are themselves audited.
+ */
+export class AuditService {
+  private static instance: AuditService;
+
+  private constructor() {}
+
+  public static getInstance(): AuditService {
+    if (!AuditService.instance) {
+      AuditService.instance = new AuditService();
+    }
+    return AuditService.instance;
+  }
+
+  public async queryLogs(query: AuditLogQuery = {}): Promise<AuditLogPage> {
+    authService.requirePermission('canAccessAuditLogs');
+
+    try {
+      return await database.queryAuditLogs(query);
+    } catch (error) {
+      console.error('Failed to query audit logs:', error);
+      throw new Error('Failed to load audit logs');
+    }
+  }
+
+  /**
+   * Re-hash the whole chain and report any edited, missing or reordered entries
+   */
+  public async verifyChain(): Promise<AuditChainVerification> {
+    authService.requirePermission('canAccessAuditLogs');
+
+    let result: AuditChainVerification;
+    try {
+      result = verifyAuditChain(await database.getAuditLogs());
+    } catch (error) {
+      console.error('Failed to verify audit log:', error);
+      throw new Error('Failed to verify audit log');
+    }
+
+    if (result.valid) {
+      console.log(`✅ Audit log verified: ${result.checked} entries intact`);
+    } else {
+      console.warn(`⚠️ Audit log verification found ${result.issues.length} problem(s)`);
+    }
+    await this.logAudit('audit_log_verified', {
+      valid: result.valid,
+      checked: result.checked,
+      lastSequence: result.lastSequence,
+      issues: result.issues.slice(0, 20),
+    });
+    return result;
+  }
+
+  /**
+   * Every entry matching the filters, as a CSV or JSON document
+   */
+  public async exportLogs(query: AuditLogQuery, format: AuditExportFormat): Promise<AuditExport> {
+    authService.requirePermission('canAccessAuditLogs');
+    authService.requirePermission('canExportData');
+
+    let entries: AuditLog[];
+    let usernames: Map<string, string>;
+    try {
+      const filters = { ...query, limit: undefined, offset: undefined };
+      const { total } = await database.queryAuditLogs({ ...filters, limit: 1 });
+      entries = (await database.queryAuditLogs({ ...filters, limit: total })).entries;
+      usernames = new Map((await database.getAllUsers()).map(user => [user.id, user.username]));
+    } catch (error) {
+      console.error('Failed to export audit logs:', error);
+      throw new Error('Failed to export audit logs');
+    }
+
+    const rows = entries.map(entry => ({
+      sequence: entry.sequence,
+      timestamp: new Date(entry.timestamp).toISOString(),
+      userId: entry.userId || '',
+      username: (entry.userId && usernames.get(entry.userId)) || '',
+      action: entry.action,
+      resource: entry.resource,
+      details: serializeAuditDetails(entry.details),
+      ipAddress: entry.ipAddress || '',
+      previousHash: entry.previousHash || '',
+      hash: entry.hash || '',
+    }));
+
+    const content = format === 'csv'
+      ? [CSV_COLUMNS.join(','), ...rows.map(row => CSV_COLUMNS.map(column => csvCell(row[column])).join(','))].join('\n')
+      : JSON.stringify({ exportedAt: new Date().toISOString(), filters: query, entries: rows }, null, 2);
+
+    await this.logAudit('audit_log_exported', { format, count: rows.length, filters: query });
+    console.log(`📤 Exported ${rows.length} audit entries as ${format.toUpperCase()}`);
+
+    return {
+      filename: `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`,
+      content,
+      count: rows.length,
+    };
+  }
+
+  private async logAudit(action: string, details: Record<string, unknown>): Promise<void> {
+    try {
+      const currentUser = await authService.getCurrentUser();
+      await database.logAuditEvent(currentUser?.id || null, action, 'audit_log', details);
+    } catch (error) {
+      console.error('Failed to log audit access:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const auditService = AuditService.getInstance();
@@ -1,22 +1,105 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
 import { database } from '../stores/DatabaseFactory';
 import {
   User,
-  UserRole,
   UserPermissions,
   LoginCredentials,
   AuthSession,
+  AuthSessionRecord,
   CreateUserInput,
   UpdateUserInput,
   AuditLog,
-  ROLE_PERMISSIONS,
-  UserProfile
+  Role,
+  UserProfile,
+  UserPasswordRecord,
+  LoginAttemptRecord,
+  PasswordResetRequest,
+  UserTotpRecord
 } from '../types';
+import {
+  deviceAttemptKey,
+  formatRetryDelay,
+  getLoginThrottlePolicy,
+  getRetryDelay,
+  isLockedOut,
+  recordLoginFailure,
+  userAttemptKey
+} from '../utils/loginThrottle';
+import { hashPassword, needsRehash, randomBytes, toHex, verifyPassword } from '../utils/password';
+import {
+  generateResetCode,
+  generateTemporaryPassword,
+  getPasswordPolicyError,
+  normalizeResetCode
+} from '../utils/passwordPolicy';
+import { requiresTwoFactor, resolvePermissions } from '../utils/permissions';
+import {
+  buildTotpUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp
+} from '../utils/totp';
+
+// Seeded admin password; it has to be changed at first login
+const DEFAULT_ADMIN_PASSWORD = 'admin123';
+
+// Register PINs are 4–6 digits
+const PIN_PATTERN = /^\d{4,6}$/;
+
+// Sessions slide: using one pushes its expiry out again, at most once a minute
+const SESSION_HOURS = 8;
+const SESSION_RENEW_INTERVAL_MS = 60 * 1000;
+
+// How long an admin-issued reset code can be redeemed
+const RESET_CODE_VALID_HOURS = 24;
+
+// Issuer shown next to the account in authenticator apps
+const TOTP_ISSUER = 'SalesMVP';
+
+// An operator that can unlock the register, whether they have a PIN, and
+// whether they must use their password and an authenticator code instead
+export interface RegisterOperator {
+  user: User;
+  hasPin: boolean;
+  needsTwoFactor: boolean;
+}
+
+// Secret to add to an authenticator app, as text and as an otpauth:// URI for the QR code
+export interface TwoFactorEnrollment {
+  secret: string;
+  uri: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesLeft: number;
+}
+
+// A signed-in device, flagged if it is the one making the request
+export interface UserSession extends AuthSessionRecord {
+  isCurrent: boolean;
+}
+
+// The password was right, but the account also needs an authenticator code
+export class TwoFactorRequiredError extends Error {
+  constructor() {
+    super('Enter the code from your authenticator app');
+    this.name = 'TwoFactorRequiredError';
+  }
+}
 
 class AuthService {
   private static instance: AuthService;
   private currentSession: AuthSession | null = null;
+  private currentSessionId: string | null = null;
+  private lastRenewedAt = 0;
+  private roles = new Map<string, Role>();
   private readonly SESSION_TOKEN_KEY = 'auth_session_token';
+  private readonly REGISTER_LOCKED_KEY = 'auth_register_locked';
+  private readonly DEVICE_ID_KEY = 'auth_device_id';
 
   static getInstance(): AuthService {
     if (!AuthService.instance) {
@@ -29,9 +112,9 @@ class AuthService {
   private async initializeDefaultAdmin(): Promise<void> {
     try {
       const users = await this.getAllUsers();
-      const hasAdmin = users.some(user => user.role === 'admin');
+      const admin = users.find(user => user.role === 'admin');
       
-      if (!hasAdmin) {
+      if (!admin) {
         const defaultAdmin: User = {
           id: 'admin-001',
           username: 'admin',
@@ -44,10 +127,13 @@ class AuthService {
           updatedAt: new Date()
         };
 
-        // In production, this should be properly hashed
-        await this.createUserWithPassword(defaultAdmin, 'admin123');
+        await this.createUserWithPassword(defaultAdmin, DEFAULT_ADMIN_PASSWORD, true);
         
-        console.log('🔐 Default admin user created: admin/admin123');
+        console.log('🔐 Default admin user created: admin (password must be changed at first login)');
+      } else if (admin.username === 'admin' && !(await database.getUserPassword(admin.id))) {
+        // Older installs saved the seeded password under a different id than the admin's
+        await this.savePassword(admin.id, DEFAULT_ADMIN_PASSWORD, true);
+        console.log('🔐 Default admin password restored (must be changed at first login)');
       }
     } catch (error) {
       console.error('Failed to initialize default admin:', error);
@@ -58,38 +144,29 @@ class AuthService {
   async login(credentials: LoginCredentials): Promise<AuthSession> {
     try {
       await this.logAudit('auth', 'login_attempt', { username: credentials.username });
+      await this.assertLoginAllowed(credentials.username);
 
       const user = await database.getUserByUsername(credentials.username);
       if (!user || !user.isActive) {
+        await this.recordLoginFailure(credentials.username);
         throw new Error('Invalid username or password');
       }
 
-      // In production, implement proper password hashing (bcrypt, etc.)
       const storedPassword = await this.getStoredPassword(user.id);
-      if (storedPassword !== credentials.password) {
+      if (!verifyPassword(credentials.password, storedPassword)) {
         await this.logAudit('auth', 'login_failed', { 
           username: credentials.username, 
           reason: 'invalid_password' 
         });
+        await this.recordLoginFailure(credentials.username);
         throw new Error('Invalid username or password');
       }
 
-      // Update last login
-      await database.updateUser({ ...user, lastLogin: new Date() });
+      await this.verifySecondFactor(user, credentials.totpCode);
+      await this.clearLoginFailures(user.username);
+      await this.upgradePasswordHash(user.id, credentials.password, storedPassword);
 
-      // Create session
-      const session: AuthSession = {
-        user,
-        token: this.generateSessionToken(),
-        expiresAt: new Date(Date.now() + 8 * 60 * 60 * 1000), // 8 hours
-        permissions: ROLE_PERMISSIONS[user.role]
-      };
-
-      await this.saveSession(session);
-      this.currentSession = session;
-
-      // Ensure user profile exists
-      await this.ensureUserProfile(user.id);
+      const session = await this.startSession(user, !!storedPassword.mustChange);
 
       await this.logAudit('auth', 'login_success', { 
         userId: user.id, 
@@ -102,6 +179,108 @@ class AuthService {
     }
   }
 
+  /**
+   * Sign in at the register with a PIN. Any other operator's session ends,
+   * so whatever is rung up next is attributed to this user.
+   */
+  async loginWithPin(userId: string, pin: string): Promise<AuthSession> {
+    const user = await database.getUser(userId);
+    await this.assertLoginAllowed(user?.username ?? null);
+    const storedPin = user?.isActive ? await database.getUserPin(userId) : null;
+
+    if (!user || !storedPin || !verifyPassword(pin, { passwordHash: storedPin.pinHash, salt: storedPin.salt })) {
+      await this.logAudit('auth', 'pin_login_failed', { userId });
+      await this.recordLoginFailure(user?.username ?? null);
+      throw new Error('Incorrect PIN');
+    }
+    if (await this.isTwoFactorProtected(user)) {
+      throw new Error('Sign in with your password and authenticator code');
+    }
+
+    await this.clearLoginFailures(user.username);
+
+    const previousUserId = this.currentSession?.user.id;
+    const password = await database.getUserPassword(user.id);
+    const session = await this.startSession(user, !!password?.mustChange);
+
+    await this.logAudit('auth', previousUserId && previousUserId !== user.id ? 'operator_switched' : 'pin_login_success', {
+      userId: user.id,
+      username: user.username,
+      previousUserId,
+    });
+
+    return session;
+  }
+
+  /**
+   * Set or replace a user's register PIN; the current password confirms it
+   */
+  async setPin(userId: string, pin: string, currentPassword: string): Promise<void> {
+    if (!PIN_PATTERN.test(pin)) {
+      throw new Error('PIN must be 4 to 6 digits');
+    }
+    if (!verifyPassword(currentPassword, await this.getStoredPassword(userId))) {
+      throw new Error('Current password is incorrect');
+    }
+
+    try {
+      const { passwordHash, salt } = hashPassword(pin);
+      await database.saveUserPin(userId, passwordHash, salt);
+      await this.logAudit('auth', 'pin_set', { userId });
+    } catch (error) {
+      console.error('Failed to save PIN:', error);
+      throw new Error('Failed to save PIN');
+    }
+  }
+
+  async removePin(userId: string): Promise<void> {
+    try {
+      await database.deleteUserPin(userId);
+      await this.logAudit('auth', 'pin_removed', { userId });
+    } catch (error) {
+      console.error('Failed to remove PIN:', error);
+      throw new Error('Failed to remove PIN');
+    }
+  }
+
+  async hasPin(userId: string): Promise<boolean> {
+    return !!(await database.getUserPin(userId));
+  }
+
+  // Active users who can take over a locked register
+  async getRegisterOperators(): Promise<RegisterOperator[]> {
+    try {
+      const [users, pins] = await Promise.all([database.getAllUsers(), database.getUserPins()]);
+      const withPin = new Set(pins.map(pin => pin.userId));
+      return await Promise.all(
+        users
+          .filter(user => user.isActive)
+          .map(async user => ({
+            user,
+            hasPin: withPin.has(user.id),
+            needsTwoFactor: await this.isTwoFactorProtected(user)
+          }))
+      );
+    } catch (error) {
+      console.error('Failed to load register operators:', error);
+      throw new Error('Failed to load users');
+    }
+  }
+
+  // Idle lock: the session stays, but the register needs a PIN or password again
+  async lockRegister(): Promise<void> {
+    await AsyncStorage.setItem(this.REGISTER_LOCKED_KEY, 'true');
+    await this.logAudit('auth', 'register_locked', { userId: this.currentSession?.user.id });
+  }
+
+  async unlockRegister(): Promise<void> {
+    await AsyncStorage.removeItem(this.REGISTER_LOCKED_KEY);
+  }
+
+  async isRegisterLocked(): Promise<boolean> {
+    return (await AsyncStorage.getItem(this.REGISTER_LOCKED_KEY)) === 'true';
+  }
+
   async logout(): Promise<void> {
     try {
       if (this.currentSession) {
@@ -112,9 +291,7 @@ class AuthService {
         });
       }
       
-      // Clear the stored session token
-      await AsyncStorage.removeItem(this.SESSION_TOKEN_KEY);
-      this.currentSession = null;
+      await this.clearLocalSession();
     } catch (error) {
       console.error('Logout error:', error);
     }
@@ -125,7 +302,7 @@ class AuthService {
       if (this.currentSession) {
         // Check if session is still valid
         if (new Date() < this.currentSession.expiresAt) {
-          return this.currentSession;
+          return await this.renewSession();
         } else {
           // Session expired
           await this.logout();
@@ -141,13 +318,20 @@ class AuthService {
         if (sessionData && new Date() < sessionData.expiresAt) {
           const user = await database.getUser(sessionData.userId);
           if (user) {
+            const password = await database.getUserPassword(user.id);
+            await this.loadRoles();
+            const permissions = this.getPermissionsForUser(user);
             this.currentSession = {
               user,
               token: sessionData.token,
               expiresAt: sessionData.expiresAt,
-              permissions: ROLE_PERMISSIONS[user.role]
+              permissions,
+              mustChangePassword: !!password?.mustChange,
+              mustEnrollTwoFactor: await this.needsTwoFactorEnrollment(user, permissions)
             };
-            return this.currentSession;
+            this.currentSessionId = sessionData.id;
+            this.lastRenewedAt = 0;
+            return await this.renewSession();
           }
         } else {
           // Session is invalid, clear stored token
@@ -167,9 +351,88 @@ class AuthService {
     return session ? session.user : null;
   }
 
+  /**
+   * Whether this device's session still exists, without renewing it. False
+   * once it has expired or been revoked elsewhere, and the local session is
+   * cleared.
+   */
+  async isSessionActive(): Promise<boolean> {
+    if (!this.currentSession) {
+      return false;
+    }
+    try {
+      const sessionData = await database.getAuthSession(this.currentSession.token);
+      if (sessionData && new Date() < sessionData.expiresAt) {
+        return true;
+      }
+    } catch (error) {
+      // Keep working offline; the next successful check decides
+      console.error('Failed to check session:', error);
+      return true;
+    }
+
+    console.log('🔒 Session ended elsewhere, signing out on this device');
+    await this.clearLocalSession();
+    return false;
+  }
+
+  // Sessions: a user sees their own, an admin with canManageUsers anyone's
+  async getUserSessions(userId: string): Promise<UserSession[]> {
+    this.requireSelfOrPermission(userId);
+    try {
+      const sessions = await database.getUserAuthSessions(userId);
+      return sessions.map(session => ({ ...session, isCurrent: session.id === this.currentSessionId }));
+    } catch (error) {
+      console.error('Failed to get sessions:', error);
+      throw new Error('Failed to load sessions');
+    }
+  }
+
+  /**
+   * Sign one session out remotely; the device notices at its next session
+   * check. Revoking this device's own session logs out here.
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    this.requireSelfOrPermission(userId);
+    if (sessionId === this.currentSessionId) {
+      await this.logout();
+      return;
+    }
+
+    try {
+      const sessions = await database.getUserAuthSessions(userId);
+      if (!sessions.some(session => session.id === sessionId)) {
+        throw new Error('Session not found');
+      }
+      await database.deleteAuthSessionById(sessionId);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Session not found') {
+        throw error;
+      }
+      console.error('Failed to revoke session:', error);
+      throw new Error('Failed to revoke session');
+    }
+
+    await this.logAudit(userId === this.currentSession?.user.id ? 'auth' : 'user_management', 'session_revoked', {
+      userId,
+      sessionId
+    });
+  }
+
+  // Sign the user out on every device but this one
+  async revokeOtherSessions(userId: string): Promise<number> {
+    this.requireSelfOrPermission(userId);
+    return this.endSessions(userId, 'revoked');
+  }
+
   // User management methods
-  async createUser(input: CreateUserInput, password: string): Promise<User> {
+  async createUser(input: CreateUserInput, password: string, mustChangePassword: boolean = false): Promise<User> {
     try {
+      const policyError = getPasswordPolicyError(password, input.username);
+      if (policyError) {
+        throw new Error(policyError);
+      }
+
       // Check for duplicate username/email
       const existingUser = await database.getUserByUsername(input.username);
       if (existingUser) {
@@ -177,7 +440,7 @@ class AuthService {
       }
 
       const user = await database.createUser(input);
-      await this.savePassword(user.id, password);
+      await this.savePassword(user.id, password, mustChangePassword);
 
       // Ensure user profile exists
       await this.ensureUserProfile(user.id);
@@ -194,15 +457,16 @@ class AuthService {
     }
   }
 
-  private async createUserWithPassword(user: User, password: string): Promise<void> {
-    await database.createUser({
+  private async createUserWithPassword(user: User, password: string, mustChange: boolean = false): Promise<void> {
+    // The database assigns the id, so the password is saved against the created user
+    const created = await database.createUser({
       username: user.username,
       email: user.email,
       firstName: user.firstName,
       lastName: user.lastName,
       role: user.role
     });
-    await this.savePassword(user.id, password);
+    await this.savePassword(created.id, password, mustChange);
   }
 
   async updateUser(input: UpdateUserInput): Promise<User> {
@@ -255,13 +519,25 @@ class AuthService {
     try {
       const storedPassword = await this.getStoredPassword(userId);
       
-      if (storedPassword !== oldPassword) {
+      if (!verifyPassword(oldPassword, storedPassword)) {
         throw new Error('Current password is incorrect');
       }
+      if (newPassword === oldPassword) {
+        throw new Error('New password must be different from the current password');
+      }
+      const user = await database.getUser(userId);
+      const policyError = getPasswordPolicyError(newPassword, user?.username);
+      if (policyError) {
+        throw new Error(policyError);
+      }
 
       await this.savePassword(userId, newPassword);
+      if (this.currentSession?.user.id === userId) {
+        this.currentSession.mustChangePassword = false;
+      }
 
       await this.logAudit('auth', 'password_changed', { userId });
+      await this.endSessions(userId, 'password_changed');
 
       return true;
     } catch (error) {
@@ -269,6 +545,348 @@ class AuthService {
     }
   }
 
+  /**
+   * Replace a user's password with a generated one they must change at their
+   * next login. Returns the password so the admin can hand it over; it is
+   * not stored anywhere in plain text.
+   */
+  async issueTemporaryPassword(userId: string): Promise<string> {
+    this.requirePermission('canManageUsers');
+    const user = await this.getUser(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const temporaryPassword = generateTemporaryPassword();
+    await this.savePassword(user.id, temporaryPassword, true);
+    try {
+      await database.deletePasswordResetCode(user.id);
+      await database.deleteLoginAttempt(userAttemptKey(user.username));
+    } catch (error) {
+      console.error('Failed to clear reset state:', error);
+    }
+
+    await this.logAudit('user_management', 'temporary_password_issued', {
+      userId: user.id,
+      username: user.username
+    });
+    await this.endSessions(user.id, 'temporary_password_issued');
+    console.log(`🔑 Temporary password issued for ${user.username}`);
+    return temporaryPassword;
+  }
+
+  /**
+   * Issue a one-time code the user can redeem on the sign-in screen to pick
+   * a new password; their current password keeps working until then.
+   * Replaces any earlier code for the user.
+   */
+  async issueResetCode(userId: string): Promise<{ code: string; expiresAt: Date }> {
+    this.requirePermission('canManageUsers');
+    const user = await this.getUser(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const code = generateResetCode();
+    const expiresAt = new Date(Date.now() + RESET_CODE_VALID_HOURS * 60 * 60 * 1000);
+    try {
+      const { passwordHash, salt } = hashPassword(normalizeResetCode(code));
+      await database.savePasswordResetCode({
+        userId: user.id,
+        codeHash: passwordHash,
+        salt,
+        expiresAt,
+        createdBy: this.currentSession?.user.id,
+        createdAt: new Date()
+      });
+    } catch (error) {
+      console.error('Failed to save reset code:', error);
+      throw new Error('Failed to issue reset code');
+    }
+
+    await this.logAudit('user_management', 'password_reset_code_issued', {
+      userId: user.id,
+      username: user.username,
+      expiresAt
+    });
+    return { code, expiresAt };
+  }
+
+  /**
+   * Redeem a reset code and set the new password. Wrong codes count as
+   * failed logins, so codes can't be guessed faster than passwords.
+   */
+  async resetPassword(request: PasswordResetRequest): Promise<void> {
+    const { resetToken, newPassword } = request;
+    if (!resetToken || !newPassword) {
+      throw new Error('Enter the reset code and a new password');
+    }
+
+    const user = request.username
+      ? await database.getUserByUsername(request.username.trim())
+      : (await database.getAllUsers()).find(
+          candidate => candidate.email.toLowerCase() === request.email.trim().toLowerCase()
+        ) || null;
+    const identifier = user?.username ?? request.username ?? request.email;
+    await this.assertLoginAllowed(identifier);
+
+    const stored = user?.isActive ? await database.getPasswordResetCode(user.id) : null;
+    if (
+      !user ||
+      !stored ||
+      new Date(stored.expiresAt) <= new Date() ||
+      !verifyPassword(normalizeResetCode(resetToken), { passwordHash: stored.codeHash, salt: stored.salt })
+    ) {
+      await this.logAudit('auth', 'password_reset_failed', { username: identifier });
+      await this.recordLoginFailure(identifier);
+      throw new Error('Invalid or expired reset code');
+    }
+
+    const policyError = getPasswordPolicyError(newPassword, user.username);
+    if (policyError) {
+      throw new Error(policyError);
+    }
+
+    await this.savePassword(user.id, newPassword);
+    await database.deletePasswordResetCode(user.id);
+    await this.clearLoginFailures(user.username);
+    await this.logAudit('auth', 'password_reset', { userId: user.id, username: user.username });
+    await this.endSessions(user.id, 'password_reset');
+  }
+
+  /**
+   * Check a user's password or register PIN without starting a session
+   * (manager overrides). Two-factor users need their password and an
+   * authenticator code, as at login; a PIN alone is not enough.
+   */
+  async verifyCredentials(username: string, password: string, totpCode?: string): Promise<User | null> {
+    try {
+      if ((await this.getLoginDelay(username)) > 0) {
+        return null;
+      }
+
+      const user = await database.getUserByUsername(username);
+      if (!user || !user.isActive) {
+        await this.recordLoginFailure(username);
+        return null;
+      }
+
+      const twoFactorProtected = await this.isTwoFactorProtected(user);
+      const storedPin = !twoFactorProtected && PIN_PATTERN.test(password) ? await database.getUserPin(user.id) : null;
+      if (storedPin && verifyPassword(password, { passwordHash: storedPin.pinHash, salt: storedPin.salt })) {
+        await this.clearLoginFailures(user.username);
+        return user;
+      }
+
+      const storedPassword = await this.getStoredPassword(user.id);
+      if (!verifyPassword(password, storedPassword)) {
+        await this.recordLoginFailure(username);
+        return null;
+      }
+
+      if (twoFactorProtected) {
+        // A role that requires two-factor can't approve anything before enrolling
+        if (await this.needsTwoFactorEnrollment(user, this.getPermissionsForUser(user))) {
+          return null;
+        }
+        await this.verifySecondFactor(user, totpCode);
+      }
+
+      await this.clearLoginFailures(user.username);
+      await this.upgradePasswordHash(user.id, password, storedPassword);
+      return user;
+    } catch (error) {
+      // The caller asks for the code and tries again
+      if (error instanceof TwoFactorRequiredError) {
+        throw error;
+      }
+      console.error('Failed to verify credentials:', error);
+      return null;
+    }
+  }
+
+  // Usernames and devices currently locked out after too many failed sign-ins
+  async getLockedAccounts(): Promise<LoginAttemptRecord[]> {
+    this.requirePermission('canManageUsers');
+
+    try {
+      const now = new Date();
+      return (await database.getLoginAttempts()).filter(record => isLockedOut(record, now));
+    } catch (error) {
+      console.error('Failed to get locked accounts:', error);
+      throw new Error('Failed to load locked accounts');
+    }
+  }
+
+  /**
+   * Clear the failed-attempt counter for a username or device key
+   * (`user:<name>` or `device:<id>`), lifting any lockout early
+   */
+  async unlockAccount(key: string): Promise<void> {
+    this.requirePermission('canManageUsers');
+
+    try {
+      await database.deleteLoginAttempt(key);
+    } catch (error) {
+      console.error('Failed to unlock account:', error);
+      throw new Error('Failed to unlock account');
+    }
+
+    await this.logAudit('user_management', 'account_unlocked', { key });
+    console.log(`🔓 Login unlocked for ${key}`);
+  }
+
+  // Two-factor authentication (TOTP)
+  async getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+    const user = await this.getUser(userId);
+    const totp = await database.getUserTotp(userId);
+    return {
+      enabled: !!totp?.confirmed,
+      required: !!user && requiresTwoFactor(this.getPermissionsForUser(user)),
+      recoveryCodesLeft: totp?.confirmed ? totp.recoveryCodeHashes.length : 0
+    };
+  }
+
+  /**
+   * Start enrolling the signed-in user: a new secret for their authenticator
+   * app. Nothing changes at login until it is confirmed with a first code.
+   */
+  async beginTwoFactorEnrollment(): Promise<TwoFactorEnrollment> {
+    const user = this.currentSession?.user;
+    if (!user) {
+      throw new Error('Not signed in');
+    }
+    if ((await database.getUserTotp(user.id))?.confirmed) {
+      throw new Error('Two-factor authentication is already on');
+    }
+
+    const secret = generateTotpSecret();
+    try {
+      await database.saveUserTotp({
+        userId: user.id,
+        secret,
+        confirmed: false,
+        recoveryCodeHashes: [],
+        createdAt: new Date()
+      });
+    } catch (error) {
+      console.error('Failed to start two-factor enrollment:', error);
+      throw new Error('Failed to start two-factor setup');
+    }
+
+    return { secret, uri: buildTotpUri(secret, user.username, TOTP_ISSUER) };
+  }
+
+  /**
+   * Turn two-factor on once the user proves their app works. Returns the
+   * recovery codes, which are only ever shown this once.
+   */
+  async confirmTwoFactorEnrollment(code: string): Promise<string[]> {
+    const user = this.currentSession?.user;
+    if (!user) {
+      throw new Error('Not signed in');
+    }
+    const pending = await database.getUserTotp(user.id);
+    if (!pending || pending.confirmed) {
+      throw new Error('Start two-factor setup first');
+    }
+
+    const step = verifyTotp(pending.secret, code);
+    if (step === null) {
+      throw new Error('That code is not valid. Check the time on your device and try again');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.saveTotp({
+      ...pending,
+      confirmed: true,
+      lastUsedStep: step,
+      recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+      confirmedAt: new Date()
+    });
+    if (this.currentSession) {
+      this.currentSession.mustEnrollTwoFactor = false;
+    }
+
+    await this.logAudit('auth', 'two_factor_enabled', { userId: user.id });
+    console.log(`🔐 Two-factor authentication enabled for ${user.username}`);
+    return recoveryCodes;
+  }
+
+  // Replace the signed-in user's recovery codes; needs a current authenticator code
+  async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const user = this.currentSession?.user;
+    if (!user) {
+      throw new Error('Not signed in');
+    }
+    const totp = await database.getUserTotp(user.id);
+    if (!totp?.confirmed) {
+      throw new Error('Two-factor authentication is not on');
+    }
+    const step = verifyTotp(totp.secret, code, totp.lastUsedStep);
+    if (step === null) {
+      throw new Error('Invalid authentication code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.saveTotp({ ...totp, lastUsedStep: step, recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) });
+    await this.logAudit('auth', 'recovery_codes_regenerated', { userId: user.id });
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn two-factor off: for yourself with your password (only if your role
+   * doesn't require it), or for someone else, e.g. a lost phone, with
+   * canManageUsers. Users whose role requires it enroll again at next login.
+   */
+  async disableTwoFactor(userId: string, currentPassword?: string): Promise<void> {
+    const isSelf = userId === this.currentSession?.user.id;
+    if (isSelf) {
+      if (requiresTwoFactor(this.currentSession!.permissions)) {
+        throw new Error('Two-factor authentication is required for your role');
+      }
+      if (!currentPassword || !verifyPassword(currentPassword, await this.getStoredPassword(userId))) {
+        throw new Error('Current password is incorrect');
+      }
+    } else {
+      this.requirePermission('canManageUsers');
+    }
+
+    try {
+      await database.deleteUserTotp(userId);
+    } catch (error) {
+      console.error('Failed to disable two-factor authentication:', error);
+      throw new Error('Failed to turn off two-factor authentication');
+    }
+
+    await this.logAudit(isSelf ? 'auth' : 'user_management', 'two_factor_disabled', { userId });
+  }
+
+  // Effective permissions from the user's role and their own overrides
+  getPermissionsForUser(user: User): UserPermissions {
+    return resolvePermissions(user, this.roles.get(user.role));
+  }
+
+  /**
+   * Reload roles and the signed-in user, e.g. after an admin edits the
+   * permission matrix, so the current session picks up the change
+   */
+  async refreshPermissions(): Promise<void> {
+    await this.loadRoles();
+    if (!this.currentSession) {
+      return;
+    }
+
+    const user = await database.getUser(this.currentSession.user.id);
+    if (user) {
+      this.currentSession = {
+        ...this.currentSession,
+        user,
+        permissions: this.getPermissionsForUser(user)
+      };
+    }
+  }
+
   // Audit logging
   private async logAudit(resource: string, action: string, details?: any): Promise<void> {
     try {
@@ -290,8 +908,9 @@ class AuthService {
   }
 
   // Permission checking
+  // Until a required two-factor enrollment is done the session grants nothing
   hasPermission(permission: keyof UserPermissions): boolean {
-    if (!this.currentSession) {return false;}
+    if (!this.currentSession || this.currentSession.mustEnrollTwoFactor) {return false;}
     return this.currentSession.permissions[permission] || false;
   }
 
@@ -302,43 +921,318 @@ class AuthService {
   }
 
   // Private helper methods
+  /**
+   * Throws unless the user has no two-factor or `code` is a valid
+   * authenticator or unused recovery code
+   */
+  private async verifySecondFactor(user: User, code?: string): Promise<void> {
+    const totp = await database.getUserTotp(user.id);
+    if (!totp?.confirmed) {
+      return;
+    }
+    if (!code?.trim()) {
+      throw new TwoFactorRequiredError();
+    }
+
+    const step = verifyTotp(totp.secret, code, totp.lastUsedStep);
+    if (step !== null) {
+      await this.saveTotp({ ...totp, lastUsedStep: step });
+      return;
+    }
+
+    const hash = hashRecoveryCode(code);
+    if (totp.recoveryCodeHashes.includes(hash)) {
+      const remaining = totp.recoveryCodeHashes.filter(existing => existing !== hash);
+      await this.saveTotp({ ...totp, recoveryCodeHashes: remaining });
+      await this.logAudit('auth', 'recovery_code_used', { userId: user.id, remaining: remaining.length });
+      return;
+    }
+
+    await this.logAudit('auth', 'two_factor_failed', { userId: user.id, username: user.username });
+    await this.recordLoginFailure(user.username);
+    throw new Error('Invalid authentication code');
+  }
+
+  // Users with two-factor on, or whose role requires it, can't sign in with just a PIN
+  private async isTwoFactorProtected(user: User): Promise<boolean> {
+    if (requiresTwoFactor(this.getPermissionsForUser(user))) {
+      return true;
+    }
+    return !!(await database.getUserTotp(user.id))?.confirmed;
+  }
+
+  private async needsTwoFactorEnrollment(user: User, permissions: UserPermissions): Promise<boolean> {
+    if (!requiresTwoFactor(permissions)) {
+      return false;
+    }
+    try {
+      return !(await database.getUserTotp(user.id))?.confirmed;
+    } catch (error) {
+      console.error('Failed to check two-factor enrollment:', error);
+      return true;
+    }
+  }
+
+  private async saveTotp(record: UserTotpRecord): Promise<void> {
+    try {
+      await database.saveUserTotp(record);
+    } catch (error) {
+      console.error('Failed to save two-factor settings:', error);
+      throw new Error('Failed to save two-factor settings');
+    }
+  }
+
+  private async getDeviceId(): Promise<string> {
+    let deviceId = await AsyncStorage.getItem(this.DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = `device-${toHex(randomBytes(16))}`;
+      await AsyncStorage.setItem(this.DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  }
+
+  private async getDeviceAttemptKey(): Promise<string> {
+    return deviceAttemptKey(await this.getDeviceId());
+  }
+
+  // Shown in the sessions list, e.g. "iOS 17.4" or "Web"
+  private getDeviceName(): string {
+    const names: Record<string, string> = { ios: 'iOS', android: 'Android', web: 'Web', macos: 'macOS', windows: 'Windows' };
+    const name = names[Platform.OS] ?? Platform.OS;
+    return Platform.OS === 'web' ? name : `${name} ${Platform.Version}`;
+  }
+
+  private requireSelfOrPermission(userId: string): void {
+    if (userId !== this.currentSession?.user.id) {
+      this.requirePermission('canManageUsers');
+    }
+  }
+
+  /**
+   * Push the current session's expiry out again; null if it was revoked
+   * elsewhere. Database errors keep the session so the register works offline.
+   */
+  private async renewSession(): Promise<AuthSession | null> {
+    const session = this.currentSession;
+    if (!session || Date.now() - this.lastRenewedAt < SESSION_RENEW_INTERVAL_MS) {
+      return session;
+    }
+
+    const expiresAt = new Date(Date.now() + SESSION_HOURS * 60 * 60 * 1000);
+    try {
+      if (!(await database.renewAuthSession(session.token, expiresAt))) {
+        console.log('🔒 Session was revoked, signing out on this device');
+        await this.clearLocalSession();
+        return null;
+      }
+      session.expiresAt = expiresAt;
+      this.lastRenewedAt = Date.now();
+    } catch (error) {
+      console.error('Failed to renew session:', error);
+    }
+    return session;
+  }
+
+  /**
+   * Sign a user out on every device, e.g. after a password change. A user
+   * changing their own password stays signed in here.
+   */
+  private async endSessions(userId: string, reason: string): Promise<number> {
+    const keepToken = this.currentSession?.user.id === userId ? this.currentSession.token : undefined;
+    let count = 0;
+    try {
+      count = await database.deleteUserAuthSessions(userId, keepToken);
+    } catch (error) {
+      console.error('Failed to end sessions:', error);
+      if (reason === 'revoked') {
+        throw new Error('Failed to revoke sessions');
+      }
+      return 0;
+    }
+
+    await this.logAudit(userId === this.currentSession?.user.id ? 'auth' : 'user_management', 'sessions_revoked', {
+      userId,
+      reason,
+      count
+    });
+    return count;
+  }
+
+  private async clearLocalSession(): Promise<void> {
+    await AsyncStorage.removeItem(this.SESSION_TOKEN_KEY);
+    await AsyncStorage.removeItem(this.REGISTER_LOCKED_KEY);
+    this.currentSession = null;
+    this.currentSessionId = null;
+  }
+
+  // Milliseconds until this username (or device) may try again; 0 if it may now
+  private async getLoginDelay(username: string | null): Promise<number> {
+    try {
+      const policy = getLoginThrottlePolicy(await database.getBusinessSettings());
+      const keys = [await this.getDeviceAttemptKey()];
+      if (username) {
+        keys.push(userAttemptKey(username));
+      }
+
+      let delay = 0;
+      for (const key of keys) {
+        delay = Math.max(delay, getRetryDelay(await database.getLoginAttempt(key), policy));
+      }
+      return delay;
+    } catch (error) {
+      // Sign-in stays available if the counters can't be read
+      console.error('Failed to check login attempts:', error);
+      return 0;
+    }
+  }
+
+  private async assertLoginAllowed(username: string | null): Promise<void> {
+    const delay = await this.getLoginDelay(username);
+    if (delay > 0) {
+      await this.logAudit('auth', 'login_blocked', {
+        username,
+        retryAfterSeconds: Math.ceil(delay / 1000)
+      });
+      throw new Error(formatRetryDelay(delay));
+    }
+  }
+
+  // Count a failed sign-in against the username and this device, locking either at its limit
+  private async recordLoginFailure(username: string | null): Promise<void> {
+    try {
+      const policy = getLoginThrottlePolicy(await database.getBusinessSettings());
+      const counters = [{ key: await this.getDeviceAttemptKey(), maxAttempts: policy.deviceMaxAttempts }];
+      if (username) {
+        counters.push({ key: userAttemptKey(username), maxAttempts: policy.maxAttempts });
+      }
+
+      for (const { key, maxAttempts } of counters) {
+        const previous = await database.getLoginAttempt(key);
+        const record = recordLoginFailure(key, previous, maxAttempts, policy.lockoutMinutes);
+        await database.saveLoginAttempt(record);
+
+        if (record.lockedOut && !isLockedOut(previous)) {
+          console.warn(`🔒 Login locked for ${key} after ${record.failures} failed attempts`);
+          await this.logAudit('auth', 'account_locked', {
+            key,
+            failures: record.failures,
+            lockedUntil: record.lockedUntil
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Failed to record login failure:', error);
+    }
+  }
+
+  private async clearLoginFailures(username: string): Promise<void> {
+    try {
+      await database.deleteLoginAttempt(userAttemptKey(username));
+      await database.deleteLoginAttempt(await this.getDeviceAttemptKey());
+    } catch (error) {
+      console.error('Failed to clear login failures:', error);
+    }
+  }
+
+  // Tokens and session ids come from the secure RNG so they cannot be guessed
   private generateSessionToken(): string {
-    return `token-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    return `token-${toHex(randomBytes(32))}`;
+  }
+
+  // Replace any current session with a new one for `user`
+  private async startSession(user: User, mustChangePassword: boolean): Promise<AuthSession> {
+    if (this.currentSession) {
+      await database.deleteAuthSession(this.currentSession.token);
+    }
+
+    // Update last login
+    await database.updateUser({ ...user, lastLogin: new Date() });
+    await this.loadRoles();
+
+    const permissions = this.getPermissionsForUser(user);
+    const session: AuthSession = {
+      user,
+      token: this.generateSessionToken(),
+      expiresAt: new Date(Date.now() + SESSION_HOURS * 60 * 60 * 1000),
+      permissions,
+      mustChangePassword,
+      mustEnrollTwoFactor: await this.needsTwoFactorEnrollment(user, permissions)
+    };
+
+    this.currentSessionId = await this.saveSession(session);
+    this.currentSession = session;
+    this.lastRenewedAt = Date.now();
+
+    // Ensure user profile exists
+    await this.ensureUserProfile(user.id);
+
+    return session;
+  }
+
+  // Cache roles so permission checks stay synchronous
+  private async loadRoles(): Promise<void> {
+    try {
+      const roles = await database.getRoles();
+      this.roles = new Map(roles.map(role => [role.id, role]));
+    } catch (error) {
+      console.error('Failed to load roles:', error);
+    }
   }
 
-  private async saveSession(session: AuthSession): Promise<void> {
+  // Returns the new session's id
+  private async saveSession(session: AuthSession): Promise<string> {
     try {
-      const sessionId = `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      await database.saveAuthSession(sessionId, session.user.id, session.token, session.expiresAt);
+      const sessionId = `session-${toHex(randomBytes(16))}`;
+      await database.saveAuthSession(sessionId, session.user.id, session.token, session.expiresAt, {
+        deviceId: await this.getDeviceId(),
+        deviceName: this.getDeviceName()
+      });
       
       // Also store the token in AsyncStorage for persistence
       await AsyncStorage.setItem(this.SESSION_TOKEN_KEY, session.token);
+      return sessionId;
     } catch (error) {
       console.error('Failed to save session:', error);
       throw new Error('Failed to save session');
     }
   }
 
-  private async savePassword(userId: string, password: string): Promise<void> {
+  private async savePassword(userId: string, password: string, mustChange: boolean = false): Promise<void> {
     try {
-      // In production, use proper password hashing (bcrypt, etc.)
-      const passwordHash = password; // For now, store plain text (NOT for production!)
-      const salt = 'default-salt'; // In production, generate unique salt
-      
-      await database.saveUserPassword(userId, passwordHash, salt);
+      const { passwordHash, salt } = hashPassword(password);
+      await database.saveUserPassword(userId, passwordHash, salt, mustChange);
     } catch (error) {
       console.error('Failed to save password:', error);
       throw new Error('Failed to save password');
     }
   }
 
-  private async getStoredPassword(userId: string): Promise<string> {
+  // Re-hash a just-verified password stored as plaintext or with too few iterations
+  private async upgradePasswordHash(
+    userId: string,
+    password: string,
+    stored: UserPasswordRecord
+  ): Promise<void> {
+    if (!needsRehash(stored.passwordHash)) {
+      return;
+    }
+
+    try {
+      await this.savePassword(userId, password, stored.mustChange);
+      await this.logAudit('auth', 'password_rehashed', { userId });
+    } catch (error) {
+      // The old hash still works, so sign-in goes ahead
+      console.error('Failed to upgrade password hash:', error);
+    }
+  }
+
+  private async getStoredPassword(userId: string): Promise<UserPasswordRecord> {
     try {
       const passwordData = await database.getUserPassword(userId);
       if (!passwordData) {
         throw new Error('Password not found');
       }
-      return passwordData.passwordHash; // In production, verify hash
+      return passwordData;
     } catch (error) {
       console.error('Failed to get stored password:', error);
       throw new Error('Failed to retrieve password');
@@ -349,6 +1243,7 @@ class AuthService {
   async initialize(): Promise<void> {
     try {
       await this.initializeDefaultAdmin();
+      await this.loadRoles();
       console.log('✅ AuthService initialized successfully');
     } catch (error) {
       console.error('Failed to initialize AuthService:', error);
@@ -156,6 +156,27 @@ export class BusinessConfigService {
     }
   }
 
+  async getNextQuoteNumber(): Promise<string> {
+    try {
+      const settings = await this.getDocumentSettings();
+      const nextNumber = settings.numbering.quoteNextNumber ?? 1;
+      const prefix = settings.numbering.quotePrefix ?? 'QTE';
+
+      // Update the next number
+      await this.updateDocumentSettings({
+        numbering: {
+          ...settings.numbering,
+          quoteNextNumber: nextNumber + 1,
+        },
+      });
+
+      return `${prefix}${nextNumber.toString().padStart(6, '0')}`;
+    } catch (error) {
+      console.error('Failed to generate quote number:', error);
+      throw new Error('Failed to generate quote number');
+    }
+  }
+
   // Utility Methods
   async resetBusinessInfo(): Promise<void> {
     try {
@@ -220,12 +241,15 @@ export class BusinessConfigService {
         invoicePrefix: 'INV',
         receiptNextNumber: 1,
         invoiceNextNumber: 1,
+        quotePrefix: 'QTE',
+        quoteNextNumber: 1,
         resetPeriod: 'yearly',
       },
       
       defaultTerms: {
         paymentDays: 30,
         paymentTerms: 'Net 30 days',
+        quoteValidDays: 30,
         returnPolicy: 'Items may be returned within 30 days with receipt.',
         termsAndConditions: 'All sales are subject to our standard terms and conditions.',
       },
@@ -0,0 +1,290 @@
+import { database } from '../stores/DatabaseFactory';
+import { summarizeTenders } from '../stores/TransactionLedger';
+import {
+  DenominationCount,
+  DrawerEvent,
+  DrawerEventType,
+  DrawerShift,
+  DrawerShiftSummary,
+  User,
+} from '../types';
+import { DocumentGenerationResult } from '../types/documents';
+import { authService } from './AuthService';
+import { documentService } from './DocumentService';
+
+// Face values offered when counting the drawer, largest first
+export const DENOMINATIONS = [100, 50, 20, 10, 5, 2, 1, 0.5, 0.25, 0.1, 0.05, 0.01];
+
+export interface CloseShiftResult {
+  shift: DrawerShift;
+  summary: DrawerShiftSummary;
+  report: DocumentGenerationResult;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Total cash in a denomination count
+export const countDenominations = (count: DenominationCount): number =>
+  roundCurrency(
+    Object.entries(count).reduce((sum, [value, quantity]) => sum + parseFloat(value) * (quantity || 0), 0)
+  );
+
+/**
+ * Cash drawer shifts. A shift opens with a counted float, collects paid-in,
+ * paid-out and no-sale events, and closes with a denomination count that is
+ * compared against the cash expected from the shift's payments. Every drawer
+ * action is written to the audit log, and X/Z reports are generated through
+ * DocumentService. One shift is open per device at a time.
+ */
+export class CashDrawerService {
+  private static instance: CashDrawerService;
+
+  private constructor() {}
+
+  public static getInstance(): CashDrawerService {
+    if (!CashDrawerService.instance) {
+      CashDrawerService.instance = new CashDrawerService();
+    }
+    return CashDrawerService.instance;
+  }
+
+  public async getCurrentShift(): Promise<DrawerShift | null> {
+    const [shift] = await database.getDrawerShifts({ status: 'open', limit: 1 });
+    return shift || null;
+  }
+
+  /**
+   * Open a shift with the float counted into the drawer, either as a plain
+   * amount or as a denomination count
+   */
+  public async openShift(openingFloat: number | DenominationCount): Promise<DrawerShift> {
+    const user = await this.requireUser();
+    if (await this.getCurrentShift()) {
+      throw new Error('A shift is already open on this drawer');
+    }
+
+    const openingCount = typeof openingFloat === 'number' ? undefined : openingFloat;
+    const amount = openingCount ? countDenominations(openingCount) : roundCurrency(openingFloat as number);
+    if (!(amount >= 0)) {
+      throw new Error('Opening float must be zero or more');
+    }
+
+    const shift: DrawerShift = {
+      id: `shift_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      status: 'open',
+      userId: user.id,
+      openedAt: new Date().toISOString(),
+      openingFloat: amount,
+      openingCount,
+    };
+
+    try {
+      await database.saveDrawerShift(shift);
+      await database.logAuditEvent(user.id, 'drawer_shift_opened', 'drawer_shifts', {
+        shiftId: shift.id,
+        openingFloat: amount,
+      });
+      console.log(`💵 Shift ${shift.id} opened with $${amount.toFixed(2)} float`);
+      return shift;
+    } catch (error) {
+      console.error('Failed to open shift:', error);
+      throw new Error('Failed to open shift');
+    }
+  }
+
+  public async recordPaidIn(amount: number, reason: string): Promise<DrawerEvent> {
+    return this.recordEvent('paid_in', amount, reason);
+  }
+
+  public async recordPaidOut(amount: number, reason: string): Promise<DrawerEvent> {
+    return this.recordEvent('paid_out', amount, reason);
+  }
+
+  // Drawer opened without a sale, e.g. to give change
+  public async recordNoSale(reason?: string): Promise<DrawerEvent> {
+    return this.recordEvent('no_sale', 0, reason);
+  }
+
+  /**
+   * Totals for a shift (the open one by default) from its payments and drawer events
+   */
+  public async getShiftSummary(shiftId?: string): Promise<DrawerShiftSummary> {
+    const shift = shiftId ? await database.getDrawerShift(shiftId) : await this.getCurrentShift();
+    if (!shift) {
+      throw new Error(shiftId ? 'Shift not found' : 'No shift is open');
+    }
+
+    const [events, transactions] = await Promise.all([
+      database.getDrawerEvents(shift.id),
+      database.getTransactions({
+        startDate: new Date(shift.openedAt),
+        endDate: shift.closedAt ? new Date(shift.closedAt) : new Date(),
+      }),
+    ]);
+
+    const recorded = transactions.filter(t => t.status === 'completed' || t.status === 'returned');
+    const sales = recorded.filter(t => t.status === 'completed');
+    const returns = recorded.filter(t => t.status === 'returned');
+    const tenders = summarizeTenders(recorded);
+
+    const sumEvents = (type: DrawerEventType) =>
+      roundCurrency(events.filter(e => e.type === type).reduce((sum, e) => sum + e.amount, 0));
+    const paidIn = sumEvents('paid_in');
+    const paidOut = sumEvents('paid_out');
+    const cashSales = roundCurrency(tenders.cash?.amount || 0);
+
+    return {
+      shift,
+      events,
+      saleCount: sales.length,
+      returnCount: returns.length,
+      grossSales: roundCurrency(sales.reduce((sum, t) => sum + t.totals.grandTotal, 0)),
+      refunds: roundCurrency(-returns.reduce((sum, t) => sum + t.totals.grandTotal, 0)),
+      discountTotal: roundCurrency(recorded.reduce((sum, t) => sum + t.totals.discountTotal, 0)),
+      taxTotal: roundCurrency(recorded.reduce((sum, t) => sum + t.totals.taxTotal, 0)),
+      tenders,
+      cashSales,
+      paidIn,
+      paidOut,
+      noSaleCount: events.filter(e => e.type === 'no_sale').length,
+      expectedCash: roundCurrency(shift.openingFloat + cashSales + paidIn - paidOut),
+      countedCash: shift.countedCash,
+      overShort: shift.overShort,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Mid-shift X report; the shift stays open
+   */
+  public async generateXReport(): Promise<DocumentGenerationResult> {
+    const user = await this.requireUser();
+    const summary = await this.getShiftSummary();
+    const report = await documentService.generateShiftReport(summary, 'x_report', {
+      cashier: await this.getShiftUser(summary.shift, user),
+      generatedBy: user,
+    });
+
+    await database.logAuditEvent(user.id, 'drawer_x_report', 'drawer_shifts', {
+      shiftId: summary.shift.id,
+      documentId: report.documentId,
+      expectedCash: summary.expectedCash,
+    });
+    return report;
+  }
+
+  /**
+   * Close the open shift against the counted drawer and produce its Z report
+   */
+  public async closeShift(count: DenominationCount, notes?: string): Promise<CloseShiftResult> {
+    const user = await this.requireUser();
+    const open = await this.getCurrentShift();
+    if (!open) {
+      throw new Error('No shift is open');
+    }
+
+    const closedAt = new Date().toISOString();
+    const { expectedCash } = await this.getShiftSummary(open.id);
+    const countedCash = countDenominations(count);
+
+    const shift: DrawerShift = {
+      ...open,
+      status: 'closed',
+      closedAt,
+      closedBy: user.id,
+      closingCount: count,
+      countedCash,
+      expectedCash,
+      overShort: roundCurrency(countedCash - expectedCash),
+      notes: notes?.trim() || undefined,
+    };
+
+    try {
+      await database.saveDrawerShift(shift);
+      const summary = await this.getShiftSummary(shift.id);
+      const report = await documentService.generateShiftReport(summary, 'z_report', {
+        cashier: await this.getShiftUser(shift, user),
+        generatedBy: user,
+      });
+
+      await database.logAuditEvent(user.id, 'drawer_shift_closed', 'drawer_shifts', {
+        shiftId: shift.id,
+        documentId: report.documentId,
+        expectedCash,
+        countedCash,
+        overShort: shift.overShort,
+      });
+
+      console.log(`💵 Shift ${shift.id} closed: over/short $${shift.overShort!.toFixed(2)}`);
+      return { shift, summary, report };
+    } catch (error) {
+      console.error('Failed to close shift:', error);
+      throw new Error('Failed to close shift');
+    }
+  }
+
+  private async recordEvent(type: DrawerEventType, amount: number, reason?: string): Promise<DrawerEvent> {
+    const user = await this.requireUser();
+    const shift = await this.getCurrentShift();
+    if (!shift) {
+      throw new Error('Open a shift before using the drawer');
+    }
+    if (type !== 'no_sale') {
+      if (!(amount > 0)) {
+        throw new Error('Amount must be greater than zero');
+      }
+      if (!reason || !reason.trim()) {
+        throw new Error('A reason is required for paid-in and paid-out');
+      }
+    }
+    if (type === 'paid_out') {
+      const { expectedCash } = await this.getShiftSummary(shift.id);
+      if (amount > expectedCash) {
+        throw new Error(`Only $${expectedCash.toFixed(2)} is in the drawer`);
+      }
+    }
+
+    const event: DrawerEvent = {
+      id: `drawer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      shiftId: shift.id,
+      type,
+      amount: roundCurrency(amount),
+      reason: reason?.trim() || undefined,
+      userId: user.id,
+      timestamp: new Date().toISOString(),
+    };
+
+    try {
+      await database.saveDrawerEvent(event);
+      await database.logAuditEvent(user.id, `drawer_${type}`, 'drawer_shifts', {
+        shiftId: shift.id,
+        eventId: event.id,
+        amount: event.amount,
+        reason: event.reason,
+      });
+      return event;
+    } catch (error) {
+      console.error('Failed to record drawer event:', error);
+      throw new Error('Failed to record drawer event');
+    }
+  }
+
+  private async requireUser(): Promise<User> {
+    const user = await authService.getCurrentUser();
+    if (!user) {
+      throw new Error('Sign in to use the cash drawer');
+    }
+    return user;
+  }
+
+  // The cashier who opened the shift, falling back to the current user
+  private async getShiftUser(shift: DrawerShift, fallback: User): Promise<User> {
+    if (shift.userId === fallback.id) {
+      return fallback;
+    }
+    return (await database.getUser(shift.userId)) || fallback;
+  }
+}
+
+// Export singleton instance
+export const cashDrawerService = CashDrawerService.getInstance();
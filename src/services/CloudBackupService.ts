@@ -1,3 +1,4 @@
+import { isRecordedTransaction } from '../stores/TransactionLedger';
 import {
   CloudConfig,
   ICloudBackupService,
@@ -7,7 +8,7 @@ import {
 } from '../types/Cloud';
 import { storageService } from './StorageService';
 import { productService } from './ProductService';
-import { salesService } from './SimpleSalesService';
+import { salesService } from './SalesService';
 import { authService } from './AuthService';
 
 class CloudBackupService implements ICloudBackupService {
@@ -107,9 +108,9 @@ class CloudBackupService implements ICloudBackupService {
         console.error('Failed to backup products:', error);
       }
 
-      // Backup sales
+      // Backup completed sales and returns from the ledger
       try {
-        const sales = await salesService.getAllSales();
+        const sales = (await salesService.getTransactions()).filter(isRecordedTransaction);
         backupData.data.sales = sales;
         backupInfo.entities.sales = sales.length;
         console.log(`💰 Backed up ${sales.length} sales`);
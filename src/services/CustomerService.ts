@@ -0,0 +1,135 @@
+import { database } from '../stores/DatabaseFactory';
+import { CreateCustomerInput, Customer, UpdateCustomerInput } from '../types';
+import { CustomerInfo } from '../types/documents';
+import { authService } from './AuthService';
+
+/**
+ * Customers cashiers attach to a sale at checkout. Creating or editing one
+ * needs canProcessSales and is audited; a tax-exempt customer carries the
+ * certificate number used for the sale's tax exemption.
+ */
+export class CustomerService {
+  private static instance: CustomerService;
+
+  private constructor() {}
+
+  public static getInstance(): CustomerService {
+    if (!CustomerService.instance) {
+      CustomerService.instance = new CustomerService();
+    }
+    return CustomerService.instance;
+  }
+
+  /**
+   * Customers whose name, email or phone contains `query`, by name
+   */
+  public async searchCustomers(query: string = '', limit?: number): Promise<Customer[]> {
+    try {
+      return await database.searchCustomers(query, limit);
+    } catch (error) {
+      console.error('Failed to search customers:', error);
+      throw new Error('Failed to load customers');
+    }
+  }
+
+  public async getCustomer(id: string): Promise<Customer | null> {
+    try {
+      return await database.getCustomer(id);
+    } catch (error) {
+      console.error('Failed to get customer:', error);
+      throw new Error('Failed to load customer');
+    }
+  }
+
+  public async createCustomer(input: CreateCustomerInput): Promise<Customer> {
+    authService.requirePermission('canProcessSales');
+    const clean = this.validate(input);
+
+    let customer: Customer;
+    try {
+      customer = await database.createCustomer(clean);
+    } catch (error) {
+      console.error('Failed to create customer:', error);
+      throw new Error('Failed to create customer');
+    }
+
+    await this.logAudit('customer_created', { customerId: customer.id, name: customer.name });
+    console.log(`👤 Customer created: ${customer.name}`);
+    return customer;
+  }
+
+  public async updateCustomer(input: UpdateCustomerInput): Promise<Customer> {
+    authService.requirePermission('canProcessSales');
+
+    const existing = await this.getCustomer(input.id);
+    if (!existing) {
+      throw new Error('Customer not found');
+    }
+    const clean = this.validate({ ...existing, ...input });
+
+    let customer: Customer;
+    try {
+      customer = await database.updateCustomer({ ...clean, id: input.id });
+    } catch (error) {
+      console.error('Failed to update customer:', error);
+      throw new Error('Failed to update customer');
+    }
+
+    await this.logAudit('customer_updated', {
+      customerId: customer.id,
+      name: customer.name,
+      taxExempt: customer.taxExempt,
+    });
+    return customer;
+  }
+
+  /**
+   * The customer as printed on receipts and invoices
+   */
+  public toCustomerInfo(customer: Customer): CustomerInfo {
+    return {
+      id: customer.id,
+      name: customer.name,
+      email: customer.email,
+      phone: customer.phone,
+      address: customer.address,
+    };
+  }
+
+  private validate(input: CreateCustomerInput): CreateCustomerInput {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new Error('Customer name is required');
+    }
+    const email = input.email?.trim() || undefined;
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      throw new Error('Enter a valid email address');
+    }
+    const taxExemptionId = input.taxExemptionId?.trim() || undefined;
+    if (input.taxExempt && !taxExemptionId) {
+      throw new Error('A tax exemption certificate number is required');
+    }
+
+    return {
+      name,
+      email,
+      phone: input.phone?.trim() || undefined,
+      address: input.address,
+      taxExempt: !!input.taxExempt,
+      taxExemptionId: input.taxExempt ? taxExemptionId : undefined,
+      notes: input.notes?.trim() || undefined,
+    };
+  }
+
+  private async logAudit(action: string, details: Record<string, unknown>): Promise<void> {
+    try {
+      const currentUser = await authService.getCurrentUser();
+      await database.logAuditEvent(currentUser?.id || null, action, 'customers', details);
+    } catch (error) {
+      console.error('Failed to log customer change:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const customerService = CustomerService.getInstance();
@@ -1,6 +1,8 @@
 import { database } from '../stores/DatabaseFactory';
+import { managerOverrideService } from './ManagerOverrideService';
 import { seedDataService } from './SeedDataService';
 import { profileService } from './ProfileService';
+import { salesService } from './SalesService';
 
 export class DatabaseInitService {
   private static instance: DatabaseInitService;
@@ -41,6 +43,16 @@ export class DatabaseInitService {
       await database.initialize();
       console.log('✅ Database initialization completed');
 
+      // Step 1.5: Move sales kept in AsyncStorage by older builds into the ledger
+      try {
+        await salesService.migrateLegacySales();
+      } catch (migrationError) {
+        console.warn('⚠️ Legacy sales migration failed, will retry next launch:', migrationError);
+      }
+
+      // Step 1.6: Approvals used before a restart stay used
+      await managerOverrideService.loadUsedApprovals();
+
       // Step 2: Seed sample data in development
       if (__DEV__) {
         console.log('2️⃣ Seeding sample data (development mode)...');
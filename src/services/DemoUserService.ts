@@ -27,7 +27,7 @@ class DemoUserService {
             lastName: 'Manager',
             role: 'manager'
           },
-          password: 'manager123'
+          password: 'mgr-john1'
         },
         {
           user: {
@@ -37,7 +37,7 @@ class DemoUserService {
             lastName: 'Cashier',
             role: 'cashier'
           },
-          password: 'cashier123'
+          password: 'pos-jane1'
         },
         {
           user: {
@@ -47,7 +47,7 @@ class DemoUserService {
             lastName: 'Wilson',
             role: 'manager'
           },
-          password: 'sarah123'
+          password: 'mgr-wilson2'
         },
         {
           user: {
@@ -57,7 +57,7 @@ class DemoUserService {
             lastName: 'Johnson',
             role: 'cashier'
           },
-          password: 'mike123'
+          password: 'pos-johnson2'
         },
         {
           user: {
@@ -67,7 +67,7 @@ class DemoUserService {
             lastName: 'Chen',
             role: 'cashier'
           },
-          password: 'lisa123'
+          password: 'pos-chen3'
         }
       ];
 
@@ -103,23 +103,23 @@ class DemoUserService {
     console.log('\n🔐 DEMO CREDENTIALS:\n');
     console.log('👑 ADMIN ACCESS:');
     console.log('   Username: admin');
-    console.log('   Password: admin123');
+    console.log('   Password: admin123 (must be changed at first login)');
     console.log('   Permissions: Full system access\n');
     
     console.log('👔 MANAGER ACCESS:');
     console.log('   Username: manager');
-    console.log('   Password: manager123');
+    console.log('   Password: mgr-john1');
     console.log('   Username: sarah');
-    console.log('   Password: sarah123');
+    console.log('   Password: mgr-wilson2');
     console.log('   Permissions: POS + Inventory + Reports\n');
     
     console.log('🧑‍💼 CASHIER ACCESS:');
     console.log('   Username: cashier');
-    console.log('   Password: cashier123');
+    console.log('   Password: pos-jane1');
     console.log('   Username: mike');
-    console.log('   Password: mike123');
+    console.log('   Password: pos-johnson2');
     console.log('   Username: lisa');
-    console.log('   Password: lisa123');
+    console.log('   Password: pos-chen3');
     console.log('   Permissions: POS operations only\n');
   }
 
@@ -128,13 +128,13 @@ class DemoUserService {
     return {
       admin: { username: 'admin', password: 'admin123', role: 'admin' },
       managers: [
-        { username: 'manager', password: 'manager123', role: 'manager' },
-        { username: 'sarah', password: 'sarah123', role: 'manager' }
+        { username: 'manager', password: 'mgr-john1', role: 'manager' },
+        { username: 'sarah', password: 'mgr-wilson2', role: 'manager' }
       ],
       cashiers: [
-        { username: 'cashier', password: 'cashier123', role: 'cashier' },
-        { username: 'mike', password: 'mike123', role: 'cashier' },
-        { username: 'lisa', password: 'lisa123', role: 'cashier' }
+        { username: 'cashier', password: 'pos-jane1', role: 'cashier' },
+        { username: 'mike', password: 'pos-johnson2', role: 'cashier' },
+        { username: 'lisa', password: 'pos-chen3', role: 'cashier' }
       ]
     };
   }
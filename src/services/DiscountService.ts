@@ -0,0 +1,250 @@
+import { CartItem, DiscountComponent } from '../types';
+import { ManagerCredentials, managerOverrideService, OverrideApproval } from './ManagerOverrideService';
+
+export interface PricedLine {
+  item: CartItem;
+  gross: number; // quantity x unit price
+  discounts: DiscountComponent[]; // line discounts plus this line's share of cart discounts
+  discountTotal: number;
+  net: number; // gross - discountTotal
+}
+
+export interface PricedCart {
+  lines: PricedLine[];
+  subtotal: number; // sum of gross
+  discountTotal: number;
+  net: number; // subtotal - discountTotal
+  headerDiscounts: DiscountComponent[]; // cart discounts with their total amount
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+export class DiscountService {
+  private static instance: DiscountService;
+  // Approvals granted at the register, by id; a discount only carries the id
+  private approvals = new Map<string, OverrideApproval>();
+
+  private constructor() {}
+
+  public static getInstance(): DiscountService {
+    if (!DiscountService.instance) {
+      DiscountService.instance = new DiscountService();
+    }
+    return DiscountService.instance;
+  }
+
+  /**
+   * Reject discounts that cannot be applied
+   */
+  public validateDiscount(discount: DiscountComponent): void {
+    if (!Number.isFinite(discount.value) || discount.value <= 0) {
+      throw new Error('Discount must be greater than zero');
+    }
+    if (discount.type === 'percent' && discount.value > 100) {
+      throw new Error('Percentage discount cannot exceed 100%');
+    }
+    if (!discount.reason || !discount.reason.trim()) {
+      throw new Error('A reason is required for every discount');
+    }
+  }
+
+  /**
+   * Monetary amount a discount takes off `base`, never more than `base`
+   */
+  public calculateDiscountAmount(base: number, discount: DiscountComponent): number {
+    const raw = discount.type === 'percent' ? (base * discount.value) / 100 : discount.value;
+    return roundCurrency(Math.min(Math.max(raw, 0), base));
+  }
+
+  /**
+   * Price a cart: apply line discounts in order, then cart discounts against the
+   * discounted subtotal. Cart discounts are spread across lines in proportion to
+   * their net so per-line tax is charged on what the customer actually pays.
+   */
+  public priceCart(cart: CartItem[], headerDiscounts: DiscountComponent[] = []): PricedCart {
+    const lines: PricedLine[] = cart.map(item => {
+      const gross = roundCurrency(item.price * item.quantity);
+      let remaining = gross;
+      const discounts = (item.discounts || []).map(discount => {
+        const amount = this.calculateDiscountAmount(remaining, discount);
+        remaining = roundCurrency(remaining - amount);
+        return { ...discount, scope: 'line' as const, amount };
+      });
+
+      return {
+        item,
+        gross,
+        discounts,
+        discountTotal: roundCurrency(gross - remaining),
+        net: remaining,
+      };
+    });
+
+    // Gift cards are sold at face value, so cart discounts skip them
+    const discountable = lines.filter(line => !line.item.giftCardCode);
+    const pricedHeaderDiscounts: DiscountComponent[] = [];
+    for (const discount of headerDiscounts) {
+      const base = roundCurrency(discountable.reduce((sum, line) => sum + line.net, 0));
+      const amount = this.calculateDiscountAmount(base, discount);
+      pricedHeaderDiscounts.push({ ...discount, scope: 'cart', amount });
+
+      if (amount <= 0 || base <= 0) {
+        continue;
+      }
+
+      this.allocate(amount, discountable.map(line => line.net)).forEach((share, idx) => {
+        if (share > 0) {
+          const line = discountable[idx];
+          line.discounts.push({ ...discount, scope: 'cart', amount: share });
+          line.discountTotal = roundCurrency(line.discountTotal + share);
+          line.net = roundCurrency(line.net - share);
+        }
+      });
+    }
+
+    const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.gross, 0));
+    const discountTotal = roundCurrency(lines.reduce((sum, line) => sum + line.discountTotal, 0));
+
+    return {
+      lines,
+      subtotal,
+      discountTotal,
+      net: roundCurrency(subtotal - discountTotal),
+      headerDiscounts: pricedHeaderDiscounts,
+    };
+  }
+
+  /**
+   * Split `amount` across lines in proportion to their net, in whole cents.
+   * No share exceeds its line's net, and the shares always add up to `amount`
+   * (which callers keep at or below the combined net).
+   */
+  private allocate(amount: number, nets: number[]): number[] {
+    const total = Math.round(amount * 100);
+    const caps = nets.map(net => Math.round(net * 100));
+    const base = caps.reduce((sum, cap) => sum + cap, 0);
+    const shares = caps.map(cap => Math.min(Math.round((total * cap) / base), cap));
+
+    // Rounding can leave the shares a few cents off; settle them a cent at a
+    // time on lines that still have room
+    let leftover = total - shares.reduce((sum, share) => sum + share, 0);
+    while (leftover !== 0) {
+      const step = leftover > 0 ? 1 : -1;
+      let moved = false;
+      for (let idx = 0; idx < shares.length && leftover !== 0; idx++) {
+        const next = shares[idx] + step;
+        if (next >= 0 && next <= caps[idx]) {
+          shares[idx] = next;
+          leftover -= step;
+          moved = true;
+        }
+      }
+      if (!moved) {
+        break;
+      }
+    }
+
+    return shares.map(share => share / 100);
+  }
+
+  /**
+   * Whether the signed-in operator needs a manager to approve discounts
+   */
+  public requiresApproval(): boolean {
+    return managerOverrideService.requiresOverride('canDiscountItems');
+  }
+
+  /**
+   * Get a manager's single-use approval for one discount after checking their
+   * credentials. The approval covers this discount's id, type and value, up to
+   * its amount on `base` (what a percent discount applies to). Operators
+   * allowed to discount get the discount back as-is.
+   */
+  public async approveDiscount(
+    discount: DiscountComponent,
+    manager?: ManagerCredentials,
+    base?: number
+  ): Promise<DiscountComponent> {
+    this.validateDiscount(discount);
+
+    if (!this.requiresApproval()) {
+      return discount;
+    }
+
+    if (!manager) {
+      throw new Error('Manager approval required for discounts');
+    }
+    if (!discount.id) {
+      throw new Error('Discount is missing an id');
+    }
+    if (discount.type === 'percent' && base === undefined) {
+      throw new Error('A percentage discount needs the amount it applies to');
+    }
+
+    const approval = await managerOverrideService.requestOverride(
+      {
+        permission: 'canDiscountItems',
+        action: 'discount',
+        amount: discount.type === 'amount' ? discount.value : this.calculateDiscountAmount(base!, discount),
+        reference: this.approvalReference(discount),
+        reason: discount.reason,
+        details: { type: discount.type, value: discount.value },
+      },
+      manager
+    );
+    this.approvals.set(approval.id, approval);
+    return { ...discount, approvedBy: approval.approvedBy, approvalId: approval.id };
+  }
+
+  /**
+   * Guard used at checkout with the priced discounts: each one must be allowed
+   * for the operator or carry its own unused approval covering its amount.
+   * Nothing is used up until consumeApprovals.
+   */
+  public assertDiscountsAuthorized(discounts: DiscountComponent[]): void {
+    discounts.forEach(discount => this.validateDiscount(discount));
+
+    if (!this.requiresApproval()) {
+      return;
+    }
+
+    const seen = new Set<string>();
+    for (const discount of discounts) {
+      const approval = this.getApproval(discount);
+      if (!approval) {
+        throw new Error('Manager approval required for discounts');
+      }
+      if (seen.has(approval.id)) {
+        throw new Error('This manager approval has already been used');
+      }
+      seen.add(approval.id);
+      managerOverrideService.checkAuthorized('canDiscountItems', 'discount', approval, discount.amount);
+    }
+  }
+
+  /**
+   * Use up the approvals behind discounts on a saved sale, so none of them can
+   * be applied again
+   */
+  public consumeApprovals(discounts: DiscountComponent[]): void {
+    if (!this.requiresApproval()) {
+      return;
+    }
+    for (const discount of discounts) {
+      managerOverrideService.assertAuthorized('canDiscountItems', 'discount', this.getApproval(discount), discount.amount);
+    }
+  }
+
+  private approvalReference(discount: DiscountComponent): string {
+    return `discount:${discount.id}:${discount.type}:${discount.value}`;
+  }
+
+  // The approval granted for exactly this discount; changing its id, type or value voids it
+  private getApproval(discount: DiscountComponent): OverrideApproval | undefined {
+    const approval = discount.approvalId ? this.approvals.get(discount.approvalId) : undefined;
+    return approval?.reference === this.approvalReference(discount) ? approval : undefined;
+  }
+}
+
+// Export singleton instance
+export const discountService = DiscountService.getInstance();
@@ -11,10 +11,21 @@ import {
   TemplateFormat,
   DocumentFilter,
   DocumentStats,
+  ShiftReport,
+  InvoicePayment,
+  CustomerStatement,
+  Quote,
+  DocumentType,
 } from '../types/documents';
-import { RetailTransaction, CartItem, SaleLineItem } from '../types';
+import { RetailTransaction, CartItem, SaleLineItem, DrawerShiftSummary, User } from '../types';
 import { businessConfigService } from './BusinessConfigService';
 import { storageService } from './StorageService';
+import { customerService } from './CustomerService';
+import { giftCardService } from './GiftCardService';
+import { loyaltyService } from './LoyaltyService';
+import { decodeBase64, parseImage, PdfImage, PdfTextLine, PdfWriter } from '../utils/pdf';
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
 
 export class DocumentService {
   private static instance: DocumentService;
@@ -22,6 +33,8 @@ export class DocumentService {
   private readonly RECEIPTS_KEY = 'receipts_';
   private readonly INVOICES_KEY = 'invoices_';
   private readonly TEMPLATES_KEY = 'document_templates';
+  private readonly SHIFT_REPORTS_KEY = 'shift_reports_';
+  private readonly QUOTES_KEY = 'quotes_';
 
   private constructor() {
     this.storage = storageService;
@@ -38,42 +51,75 @@ export class DocumentService {
   async generateReceipt(
     sale: RetailTransaction,
     options: DocumentGenerationOptions = { format: 'standard' }
+  ): Promise<DocumentGenerationResult> {
+    return this.createReceipt(sale, 'receipt', options);
+  }
+
+  // Refund receipt for a return recorded against an earlier sale
+  async generateRefundReceipt(
+    refund: RetailTransaction,
+    options: DocumentGenerationOptions = { format: 'standard' }
+  ): Promise<DocumentGenerationResult> {
+    return this.createReceipt(refund, 'refund_receipt', options);
+  }
+
+  private async createReceipt(
+    sale: RetailTransaction,
+    type: Receipt['type'],
+    options: DocumentGenerationOptions
   ): Promise<DocumentGenerationResult> {
     try {
       const businessInfo = await businessConfigService.getBusinessInfo();
       const receiptNumber = await businessConfigService.getNextReceiptNumber();
+      const isRefund = type === 'refund_receipt';
+
+      // Refunds are stored in the ledger as negative amounts; documents show them as positive
+      const abs = (value: number) => (isRefund ? Math.abs(value) : value);
 
       // Convert sale data to receipt format
       const receipt: Receipt = {
         id: `receipt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         documentNumber: receiptNumber,
-        type: 'receipt',
+        type,
         status: 'sent',
         createdAt: new Date(),
         updatedAt: new Date(),
 
         // Business and Customer
         businessInfo,
-        customerInfo: this.extractCustomerInfo(sale),
+        customerInfo: await this.extractCustomerInfo(sale),
 
         // Convert sale items to document line items
-        lineItems: this.convertSaleItemsToLineItems(sale.items),
-        subtotal: sale.totals.subTotal,
-        taxTotal: sale.totals.taxTotal,
-        discountTotal: sale.totals.discountTotal,
-        grandTotal: sale.totals.grandTotal,
+        lineItems: this.convertSaleItemsToLineItems(sale.items).map(item => isRefund ? {
+          ...item,
+          quantity: Math.abs(item.quantity),
+          taxAmount: Math.abs(item.taxAmount),
+          subtotal: Math.abs(item.subtotal),
+          total: Math.abs(item.total),
+        } : item),
+        subtotal: abs(sale.totals.subTotal),
+        taxTotal: abs(sale.totals.taxTotal),
+        discountTotal: abs(sale.totals.discountTotal),
+        grandTotal: abs(sale.totals.grandTotal),
 
         // Receipt specific
-        saleId: sale.id || 'unknown',
-        payments: this.convertSalePayments(sale),
-        changeAmount: Math.max(0, (sale.tenders[0]?.amount || 0) - sale.totals.grandTotal),
+        saleId: (isRefund ? sale.originalTransactionId : sale.id) || 'unknown',
+        payments: isRefund ? this.convertRefundPayments(sale) : this.convertSalePayments(sale),
+        changeAmount: isRefund ? 0 : sale.tenders
+          .filter(tender => tender.amount < 0)
+          .reduce((sum, tender) => sum - tender.amount, 0),
+        refundReason: isRefund ? sale.notes : undefined,
+        loyalty: await this.extractLoyalty(sale),
+        giftCards: await this.extractGiftCards(sale),
         receiptFormat: options.format,
         printedAt: options.format === 'thermal' ? new Date() : undefined,
         emailedAt: options.delivery?.email ? new Date() : undefined,
 
         // Metadata
-        notes: `Generated from sale ${sale.id}`,
-        tags: ['pos_receipt', 'auto_generated'],
+        notes: isRefund
+          ? `Refund ${sale.id} against sale ${sale.originalTransactionId}`
+          : `Generated from sale ${sale.id}`,
+        tags: [isRefund ? 'pos_refund' : 'pos_receipt', 'auto_generated'],
       };
 
       // Store the receipt
@@ -85,12 +131,13 @@ export class DocumentService {
         emailedAt: receipt.emailedAt?.toISOString(),
       }));
 
-      console.log(`✅ Receipt generated: ${receiptNumber}`);
+      console.log(`✅ ${isRefund ? 'Refund receipt' : 'Receipt'} generated: ${receiptNumber}`);
 
       return {
         success: true,
         documentId: receipt.id,
         documentUrl: this.generateReceiptHTML(receipt, options),
+        pdfBuffer: options.format === 'pdf' ? await this.generateReceiptPDF(receipt, options) : undefined,
       };
 
     } catch (error) {
@@ -159,15 +206,7 @@ export class DocumentService {
       };
 
       // Store the invoice
-      await this.storage.setItem(`${this.INVOICES_KEY}${invoice.id}`, JSON.stringify({
-        ...invoice,
-        createdAt: invoice.createdAt.toISOString(),
-        updatedAt: invoice.updatedAt.toISOString(),
-        invoiceDate: invoice.invoiceDate.toISOString(),
-        dueDate: invoice.dueDate.toISOString(),
-        sentAt: invoice.sentAt?.toISOString(),
-        paidAt: invoice.paidAt?.toISOString(),
-      }));
+      await this.saveInvoice(invoice);
 
       console.log(`✅ Invoice generated: ${invoiceNumber}`);
 
@@ -175,6 +214,7 @@ export class DocumentService {
         success: true,
         documentId: invoice.id,
         documentUrl: this.generateInvoiceHTML(invoice, options),
+        pdfBuffer: options.format === 'pdf' ? await this.generateInvoicePDF(invoice, options) : undefined,
       };
 
     } catch (error) {
@@ -187,6 +227,559 @@ export class DocumentService {
     }
   }
 
+  // Invoice for the part of a sale charged to the customer's account. The
+  // sale's other tenders are recorded as payments already received.
+  async generateAccountInvoice(
+    sale: RetailTransaction,
+    options: DocumentGenerationOptions = { format: 'pdf' }
+  ): Promise<DocumentGenerationResult> {
+    try {
+      const customerInfo = await this.extractCustomerInfo(sale);
+      if (!customerInfo) {
+        throw new Error('Sale has no customer to invoice');
+      }
+
+      const businessInfo = await businessConfigService.getBusinessInfo();
+      const documentSettings = await businessConfigService.getDocumentSettings();
+      const invoiceNumber = await businessConfigService.getNextInvoiceNumber();
+      const invoiceDate = new Date();
+      const charged = roundCurrency(sale.tenders
+        .filter(tender => tender.type === 'on_account')
+        .reduce((sum, tender) => sum + tender.amount, 0));
+
+      // Change handed back comes off the cash that was tendered
+      let change = sale.tenders.filter(tender => tender.amount < 0).reduce((sum, tender) => sum - tender.amount, 0);
+      const payments: InvoicePayment[] = [];
+      for (const tender of sale.tenders.filter(t => t.amount > 0 && t.type !== 'on_account')) {
+        const changeGiven = tender.type === 'cash' ? Math.min(change, tender.amount) : 0;
+        change -= changeGiven;
+        if (tender.amount - changeGiven > 0) {
+          payments.push({
+            id: `payment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            amount: roundCurrency(tender.amount - changeGiven),
+            method: this.mapTenderTypeToPaymentMethod(tender.type),
+            reference: tender.reference,
+            receivedAt: sale.timestamp,
+            userId: sale.operatorId,
+          });
+        }
+      }
+
+      const invoice: Invoice = {
+        id: `invoice_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        documentNumber: invoiceNumber,
+        type: 'invoice',
+        status: 'sent',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+
+        businessInfo,
+        customerInfo,
+
+        lineItems: this.convertSaleItemsToLineItems(sale.items),
+        subtotal: sale.totals.subTotal,
+        taxTotal: sale.totals.taxTotal,
+        discountTotal: sale.totals.discountTotal,
+        grandTotal: sale.totals.grandTotal,
+
+        invoiceDate,
+        dueDate: new Date(invoiceDate.getTime() + documentSettings.defaultTerms.paymentDays * 24 * 60 * 60 * 1000),
+        dueDays: documentSettings.defaultTerms.paymentDays,
+        paymentTerms: documentSettings.defaultTerms.paymentTerms,
+        sentAt: invoiceDate,
+        paidAmount: roundCurrency(sale.totals.grandTotal - charged),
+        remainingBalance: charged,
+        referenceNumber: sale.id,
+        customerId: sale.customerId,
+        transactionId: sale.id,
+        payments,
+
+        notes: `Charged to account from sale ${sale.id}`,
+        tags: ['invoice', 'on_account', 'outstanding'],
+      };
+
+      await this.saveInvoice(invoice);
+
+      console.log(`✅ Account invoice generated: ${invoiceNumber} for $${charged.toFixed(2)}`);
+
+      return {
+        success: true,
+        documentId: invoice.id,
+        documentUrl: this.generateInvoiceHTML(invoice, options),
+        pdfBuffer: options.format === 'pdf' ? await this.generateInvoicePDF(invoice, options) : undefined,
+      };
+    } catch (error) {
+      console.error('Failed to generate account invoice:', error);
+      return {
+        success: false,
+        documentId: '',
+        error: (error as Error).message || 'Failed to generate account invoice',
+      };
+    }
+  }
+
+  // Draft invoices are sent before payments can be taken against them
+  async markInvoiceSent(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.getInvoice(invoiceId);
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    if (invoice.status !== 'draft') {
+      throw new Error(`Invoice ${invoice.documentNumber} has already been sent`);
+    }
+
+    const sent: Invoice = { ...invoice, status: 'sent', sentAt: new Date(), updatedAt: new Date() };
+    await this.saveInvoice(sent);
+    return sent;
+  }
+
+  // Apply a full or partial payment; an invoice paid down to zero moves to 'paid'
+  async recordInvoicePayment(
+    invoiceId: string,
+    payment: Omit<InvoicePayment, 'id' | 'receivedAt'>
+  ): Promise<Invoice> {
+    const invoice = await this.getInvoice(invoiceId);
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    if (invoice.status === 'draft' || invoice.status === 'cancelled') {
+      throw new Error(`Cannot record a payment on a ${invoice.status} invoice`);
+    }
+    if (invoice.remainingBalance <= 0) {
+      throw new Error(`Invoice ${invoice.documentNumber} is already paid`);
+    }
+    if (!(payment.amount > 0)) {
+      throw new Error('Payment amount must be greater than zero');
+    }
+    if (payment.amount > invoice.remainingBalance + 0.005) {
+      throw new Error(
+        `Payment exceeds the $${invoice.remainingBalance.toFixed(2)} due on invoice ${invoice.documentNumber}`
+      );
+    }
+
+    const received: InvoicePayment = {
+      ...payment,
+      id: `payment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      amount: roundCurrency(payment.amount),
+      receivedAt: new Date(),
+    };
+    const remainingBalance = Math.max(0, roundCurrency(invoice.remainingBalance - received.amount));
+    const updated: Invoice = {
+      ...invoice,
+      payments: [...(invoice.payments || []), received],
+      paidAmount: roundCurrency((invoice.paidAmount || 0) + received.amount),
+      remainingBalance,
+      updatedAt: new Date(),
+    };
+    if (remainingBalance === 0) {
+      updated.status = 'paid';
+      updated.paidAt = received.receivedAt;
+      updated.tags = [...(invoice.tags || []).filter(tag => tag !== 'outstanding'), 'paid'];
+    }
+
+    await this.saveInvoice(updated);
+
+    console.log(`✅ Payment of $${received.amount.toFixed(2)} recorded on invoice ${invoice.documentNumber}`);
+    return updated;
+  }
+
+  // Take back a payment that should not stand, reopening the invoice if it had been paid off
+  async removeInvoicePayment(invoiceId: string, paymentId: string): Promise<Invoice> {
+    const invoice = await this.getInvoice(invoiceId);
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    const payment = (invoice.payments || []).find(p => p.id === paymentId);
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    const remainingBalance = roundCurrency(invoice.remainingBalance + payment.amount);
+    const updated: Invoice = {
+      ...invoice,
+      payments: (invoice.payments || []).filter(p => p.id !== paymentId),
+      paidAmount: roundCurrency((invoice.paidAmount || 0) - payment.amount),
+      remainingBalance,
+      updatedAt: new Date(),
+    };
+    if (invoice.status === 'paid' && remainingBalance > 0) {
+      updated.status = 'sent';
+      updated.paidAt = undefined;
+      updated.tags = [...(invoice.tags || []).filter(tag => tag !== 'paid'), 'outstanding'];
+    }
+
+    await this.saveInvoice(updated);
+
+    console.log(`↩️ Payment of $${payment.amount.toFixed(2)} removed from invoice ${invoice.documentNumber}`);
+    return updated;
+  }
+
+  // Void an invoice that should never have been issued; it no longer counts as owed
+  async cancelInvoice(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.getInvoice(invoiceId);
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    if (invoice.status === 'cancelled') {
+      return invoice;
+    }
+
+    const cancelled: Invoice = {
+      ...invoice,
+      status: 'cancelled',
+      updatedAt: new Date(),
+      tags: [...(invoice.tags || []).filter(tag => tag !== 'outstanding'), 'cancelled'],
+    };
+    await this.saveInvoice(cancelled);
+
+    console.log(`🚫 Invoice ${invoice.documentNumber} cancelled`);
+    return cancelled;
+  }
+
+  // Undo cancelInvoice, back to owed or paid by what was paid on it
+  async reopenInvoice(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.getInvoice(invoiceId);
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    if (invoice.status !== 'cancelled') {
+      return invoice;
+    }
+
+    const paid = invoice.remainingBalance <= 0;
+    const reopened: Invoice = {
+      ...invoice,
+      status: paid ? 'paid' : 'sent',
+      updatedAt: new Date(),
+      tags: [...(invoice.tags || []).filter(tag => tag !== 'cancelled'), paid ? 'paid' : 'outstanding'],
+    };
+    await this.saveInvoice(reopened);
+
+    console.log(`↩️ Invoice ${invoice.documentNumber} reopened`);
+    return reopened;
+  }
+
+  // Customer statements are built on demand from open invoices and not stored
+  async generateStatement(
+    data: Omit<CustomerStatement, 'id' | 'documentNumber' | 'createdAt' | 'businessInfo'>,
+    options: DocumentGenerationOptions = { format: 'pdf' }
+  ): Promise<DocumentGenerationResult> {
+    try {
+      const createdAt = new Date();
+      const statement: CustomerStatement = {
+        ...data,
+        id: `statement_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        documentNumber: `ST-${createdAt.toISOString().slice(0, 10).replace(/-/g, '')}`,
+        createdAt,
+        businessInfo: await businessConfigService.getBusinessInfo(),
+      };
+
+      console.log(`✅ Statement generated for ${statement.customerInfo.name}`);
+
+      return {
+        success: true,
+        documentId: statement.id,
+        documentUrl: this.generateStatementHTML(statement, options),
+        pdfBuffer: options.format === 'pdf' ? await this.generateStatementPDF(statement, options) : undefined,
+      };
+    } catch (error) {
+      console.error('Failed to generate statement:', error);
+      return {
+        success: false,
+        documentId: '',
+        error: (error as Error).message || 'Failed to generate statement',
+      };
+    }
+  }
+
+  // Quote Generation
+  async generateQuote(
+    quoteData: {
+      lineItems: DocumentLineItem[];
+      customerInfo?: CustomerInfo;
+      customerId?: string;
+      notes?: string;
+      validUntil?: Date;
+    },
+    options: DocumentGenerationOptions = { format: 'pdf' }
+  ): Promise<DocumentGenerationResult> {
+    try {
+      const businessInfo = await businessConfigService.getBusinessInfo();
+      const documentSettings = await businessConfigService.getDocumentSettings();
+      const quoteNumber = await businessConfigService.getNextQuoteNumber();
+
+      const quoteDate = new Date();
+      const validDays = documentSettings.defaultTerms.quoteValidDays ?? 30;
+      const validUntil = quoteData.validUntil || new Date(quoteDate.getTime() + validDays * 24 * 60 * 60 * 1000);
+
+      // Line subtotals are net of their discounts; the quote subtotal is before them
+      const discountTotal = roundCurrency(quoteData.lineItems.reduce((sum, item) => sum + item.discount, 0));
+      const subtotal = roundCurrency(quoteData.lineItems.reduce((sum, item) => sum + item.subtotal, 0) + discountTotal);
+      const taxTotal = roundCurrency(quoteData.lineItems.reduce((sum, item) => sum + item.taxAmount, 0));
+
+      const quote: Quote = {
+        id: `quote_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        documentNumber: quoteNumber,
+        type: 'quote',
+        status: 'sent',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+
+        businessInfo,
+        customerInfo: quoteData.customerInfo,
+        customerId: quoteData.customerId,
+
+        lineItems: quoteData.lineItems,
+        subtotal,
+        taxTotal,
+        discountTotal,
+        grandTotal: roundCurrency(quoteData.lineItems.reduce((sum, item) => sum + item.total, 0)),
+
+        quoteDate,
+        validUntil,
+        sentAt: quoteDate,
+
+        notes: quoteData.notes,
+        tags: ['quote'],
+      };
+
+      await this.saveQuote(quote);
+
+      console.log(`✅ Quote generated: ${quoteNumber}`);
+
+      return {
+        success: true,
+        documentId: quote.id,
+        documentUrl: this.generateQuoteHTML(quote, options),
+        pdfBuffer: options.format === 'pdf' ? await this.generateQuotePDF(quote, options) : undefined,
+      };
+    } catch (error) {
+      console.error('Failed to generate quote:', error);
+      return {
+        success: false,
+        documentId: '',
+        error: (error as Error).message || 'Failed to generate quote',
+      };
+    }
+  }
+
+  // Invoice for an accepted quote, at the quoted prices
+  async generateInvoiceFromQuote(
+    quote: Quote,
+    options: DocumentGenerationOptions = { format: 'pdf' }
+  ): Promise<DocumentGenerationResult> {
+    try {
+      const businessInfo = await businessConfigService.getBusinessInfo();
+      const documentSettings = await businessConfigService.getDocumentSettings();
+      const invoiceNumber = await businessConfigService.getNextInvoiceNumber();
+      const invoiceDate = new Date();
+
+      const invoice: Invoice = {
+        id: `invoice_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        documentNumber: invoiceNumber,
+        type: 'invoice',
+        status: 'sent',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+
+        businessInfo,
+        customerInfo: quote.customerInfo,
+
+        lineItems: quote.lineItems.map(item => ({
+          ...item,
+          id: `line_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        })),
+        subtotal: quote.subtotal,
+        taxTotal: quote.taxTotal,
+        discountTotal: quote.discountTotal,
+        grandTotal: quote.grandTotal,
+
+        invoiceDate,
+        dueDate: new Date(invoiceDate.getTime() + documentSettings.defaultTerms.paymentDays * 24 * 60 * 60 * 1000),
+        dueDays: documentSettings.defaultTerms.paymentDays,
+        paymentTerms: documentSettings.defaultTerms.paymentTerms,
+        sentAt: invoiceDate,
+        remainingBalance: quote.grandTotal,
+        referenceNumber: quote.documentNumber,
+        customerId: quote.customerId,
+        quoteId: quote.id,
+
+        notes: quote.notes || `Invoice for quote ${quote.documentNumber}`,
+        tags: ['invoice', 'from_quote', 'outstanding'],
+      };
+
+      await this.saveInvoice(invoice);
+
+      console.log(`✅ Invoice ${invoiceNumber} generated from quote ${quote.documentNumber}`);
+
+      return {
+        success: true,
+        documentId: invoice.id,
+        documentUrl: this.generateInvoiceHTML(invoice, options),
+        pdfBuffer: options.format === 'pdf' ? await this.generateInvoicePDF(invoice, options) : undefined,
+      };
+    } catch (error) {
+      console.error('Failed to generate invoice from quote:', error);
+      return {
+        success: false,
+        documentId: '',
+        error: (error as Error).message || 'Failed to generate invoice from quote',
+      };
+    }
+  }
+
+  // Record what an accepted quote was converted into
+  async markQuoteAccepted(quoteId: string, convertedTo: NonNullable<Quote['convertedTo']>): Promise<Quote> {
+    const quote = await this.getQuote(quoteId);
+    if (!quote) {
+      throw new Error('Quote not found');
+    }
+    // Converted once only; an expired or cancelled quote can't be accepted either
+    if (quote.status !== 'draft' && quote.status !== 'sent') {
+      throw new Error(`Quote ${quote.documentNumber} is ${quote.status}`);
+    }
+
+    const accepted: Quote = {
+      ...quote,
+      status: 'accepted',
+      acceptedAt: new Date(),
+      updatedAt: new Date(),
+      convertedTo,
+    };
+    await this.saveQuote(accepted);
+
+    console.log(`✅ Quote ${quote.documentNumber} accepted as ${convertedTo.type} ${convertedTo.documentNumber || convertedTo.id}`);
+    return accepted;
+  }
+
+  // HTML (and a PDF in 'pdf' format) for a stored quote, to share or print again
+  async renderQuote(
+    quoteId: string,
+    options: DocumentGenerationOptions = { format: 'pdf' }
+  ): Promise<DocumentGenerationResult> {
+    const quote = await this.getQuote(quoteId);
+    if (!quote) {
+      return { success: false, documentId: quoteId, error: 'Quote not found' };
+    }
+    return {
+      success: true,
+      documentId: quote.id,
+      documentUrl: this.generateQuoteHTML(quote, options),
+      pdfBuffer: options.format === 'pdf' ? await this.generateQuotePDF(quote, options) : undefined,
+    };
+  }
+
+  // Stored receipts and invoices, rendered again to share or attach
+  async renderReceipt(
+    receiptId: string,
+    options: DocumentGenerationOptions = { format: 'pdf' }
+  ): Promise<DocumentGenerationResult> {
+    const receipt = await this.getReceipt(receiptId);
+    if (!receipt) {
+      return { success: false, documentId: receiptId, error: 'Receipt not found' };
+    }
+    return {
+      success: true,
+      documentId: receipt.id,
+      documentUrl: this.generateReceiptHTML(receipt, options),
+      pdfBuffer: options.format === 'pdf' ? await this.generateReceiptPDF(receipt, options) : undefined,
+    };
+  }
+
+  async renderInvoice(
+    invoiceId: string,
+    options: DocumentGenerationOptions = { format: 'pdf' }
+  ): Promise<DocumentGenerationResult> {
+    const invoice = await this.getInvoice(invoiceId);
+    if (!invoice) {
+      return { success: false, documentId: invoiceId, error: 'Invoice not found' };
+    }
+    return {
+      success: true,
+      documentId: invoice.id,
+      documentUrl: this.generateInvoiceHTML(invoice, options),
+      pdfBuffer: options.format === 'pdf' ? await this.generateInvoicePDF(invoice, options) : undefined,
+    };
+  }
+
+  // Cash drawer X/Z reports. Z reports are numbered in one running sequence;
+  // X reads carry the number of the Z that will close their period.
+  async generateShiftReport(
+    summary: DrawerShiftSummary,
+    type: ShiftReport['type'],
+    users: { cashier: User; generatedBy: User },
+    options: DocumentGenerationOptions = { format: 'thermal' }
+  ): Promise<DocumentGenerationResult> {
+    try {
+      const businessInfo = await businessConfigService.getBusinessInfo();
+      const existing = await this.getShiftReports();
+      const zNumber = existing.filter(report => report.type === 'z_report').length + 1;
+      const xCount = existing.filter(
+        report => report.type === 'x_report' && report.shiftId === summary.shift.id
+      ).length;
+      const zLabel = `Z${zNumber.toString().padStart(6, '0')}`;
+
+      const report: ShiftReport = {
+        id: `shift_report_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        documentNumber: type === 'z_report' ? zLabel : `X${zLabel.slice(1)}-${xCount + 1}`,
+        type,
+        createdAt: new Date(),
+        businessInfo,
+        shiftId: summary.shift.id,
+        cashier: { id: users.cashier.id, name: `${users.cashier.firstName} ${users.cashier.lastName}` },
+        generatedBy: {
+          id: users.generatedBy.id,
+          name: `${users.generatedBy.firstName} ${users.generatedBy.lastName}`,
+        },
+        summary,
+      };
+
+      await this.storage.setItem(`${this.SHIFT_REPORTS_KEY}${report.id}`, JSON.stringify({
+        ...report,
+        createdAt: report.createdAt.toISOString(),
+      }));
+
+      console.log(`✅ ${type === 'z_report' ? 'Z' : 'X'} report generated: ${report.documentNumber}`);
+
+      return {
+        success: true,
+        documentId: report.id,
+        documentUrl: this.generateShiftReportHTML(report, options),
+        pdfBuffer: options.format === 'pdf' ? await this.generateShiftReportPDF(report, options) : undefined,
+      };
+    } catch (error) {
+      console.error('Failed to generate shift report:', error);
+      return {
+        success: false,
+        documentId: '',
+        error: (error as Error).message || 'Failed to generate shift report',
+      };
+    }
+  }
+
+  async getShiftReports(shiftId?: string): Promise<ShiftReport[]> {
+    try {
+      const keys = await this.storage.getAllKeys();
+      const reportKeys = keys.filter(key => key.startsWith(this.SHIFT_REPORTS_KEY));
+
+      const reports: ShiftReport[] = [];
+      for (const key of reportKeys as string[]) {
+        const reportData = await this.storage.getItem(key);
+        if (reportData) {
+          const report = JSON.parse(reportData);
+          reports.push({ ...report, createdAt: new Date(report.createdAt) });
+        }
+      }
+
+      return reports
+        .filter(report => !shiftId || report.shiftId === shiftId)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error) {
+      console.error('Failed to get shift reports:', error);
+      return [];
+    }
+  }
+
   // Document Retrieval
   async getReceipt(receiptId: string): Promise<Receipt | null> {
     try {
@@ -212,22 +805,25 @@ export class DocumentService {
       const invoiceData = await this.storage.getItem(`${this.INVOICES_KEY}${invoiceId}`);
       if (!invoiceData) {return null;}
 
-      const invoice = JSON.parse(invoiceData);
-      return {
-        ...invoice,
-        createdAt: new Date(invoice.createdAt),
-        updatedAt: new Date(invoice.updatedAt),
-        invoiceDate: new Date(invoice.invoiceDate),
-        dueDate: new Date(invoice.dueDate),
-        sentAt: invoice.sentAt ? new Date(invoice.sentAt) : undefined,
-        paidAt: invoice.paidAt ? new Date(invoice.paidAt) : undefined,
-      };
+      return this.parseInvoice(JSON.parse(invoiceData));
     } catch (error) {
       console.error('Failed to get invoice:', error);
       return null;
     }
   }
 
+  async getQuote(quoteId: string): Promise<Quote | null> {
+    try {
+      const quoteData = await this.storage.getItem(`${this.QUOTES_KEY}${quoteId}`);
+      if (!quoteData) {return null;}
+
+      return this.parseQuote(JSON.parse(quoteData));
+    } catch (error) {
+      console.error('Failed to get quote:', error);
+      return null;
+    }
+  }
+
   // Document Listing and Search
   async getAllReceipts(filter?: DocumentFilter): Promise<Receipt[]> {
     try {
@@ -265,16 +861,7 @@ export class DocumentService {
       for (const key of invoiceKeys as string[]) {
         const invoiceData = await this.storage.getItem(key);
         if (invoiceData) {
-          const invoice = JSON.parse(invoiceData);
-          invoices.push({
-            ...invoice,
-            createdAt: new Date(invoice.createdAt),
-            updatedAt: new Date(invoice.updatedAt),
-            invoiceDate: new Date(invoice.invoiceDate),
-            dueDate: new Date(invoice.dueDate),
-            sentAt: invoice.sentAt ? new Date(invoice.sentAt) : undefined,
-            paidAt: invoice.paidAt ? new Date(invoice.paidAt) : undefined,
-          });
+          invoices.push(this.parseInvoice(JSON.parse(invoiceData)));
         }
       }
 
@@ -285,6 +872,49 @@ export class DocumentService {
     }
   }
 
+  async getAllQuotes(filter?: DocumentFilter): Promise<Quote[]> {
+    try {
+      const keys = await this.storage.getAllKeys();
+      const quoteKeys = keys.filter(key => key.startsWith(this.QUOTES_KEY));
+
+      const quotes: Quote[] = [];
+      for (const key of quoteKeys as string[]) {
+        const quoteData = await this.storage.getItem(key);
+        if (quoteData) {
+          quotes.push(this.parseQuote(JSON.parse(quoteData)));
+        }
+      }
+
+      return this.filterDocuments(quotes, filter)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      console.error('Failed to get quotes:', error);
+      return [];
+    }
+  }
+
+  // Templates
+  async getTemplates(): Promise<DocumentTemplate[]> {
+    try {
+      const templates = await this.storage.getItem(this.TEMPLATES_KEY);
+      return templates ? JSON.parse(templates) : [];
+    } catch (error) {
+      console.error('Failed to get document templates:', error);
+      return [];
+    }
+  }
+
+  async saveTemplate(template: DocumentTemplate): Promise<void> {
+    try {
+      const templates = (await this.getTemplates()).filter(existing => existing.id !== template.id);
+      await this.storage.setItem(this.TEMPLATES_KEY, JSON.stringify([...templates, template]));
+      console.log(`✅ Document template saved: ${template.name}`);
+    } catch (error) {
+      console.error('Failed to save document template:', error);
+      throw new Error('Failed to save document template');
+    }
+  }
+
   // Document Statistics
   async getDocumentStats(): Promise<DocumentStats> {
     try {
@@ -313,7 +943,7 @@ export class DocumentService {
           draft: allDocuments.filter(d => d.status === 'draft').length,
           sent: allDocuments.filter(d => d.status === 'sent').length,
           paid: allDocuments.filter(d => d.status === 'paid').length,
-          overdue: invoices.filter(i => i.dueDate < new Date() && i.status !== 'paid').length,
+          overdue: invoices.filter(i => i.status === 'overdue').length,
           cancelled: allDocuments.filter(d => d.status === 'cancelled').length,
         },
 
@@ -412,8 +1042,10 @@ export class DocumentService {
         </div>
 
         <div class="receipt-number">
-          Receipt #${receipt.documentNumber}
+          ${receipt.type === 'refund_receipt' ? 'Refund Receipt' : 'Receipt'} #${receipt.documentNumber}
         </div>
+        ${receipt.type === 'refund_receipt' ? `<div>Original Sale: ${receipt.saleId}</div>` : ''}
+        ${receipt.refundReason ? `<div>Reason: ${receipt.refundReason}</div>` : ''}
         
         <div>Date: ${receipt.createdAt.toLocaleDateString()} ${receipt.createdAt.toLocaleTimeString()}</div>
         ${customer ? `<div>Customer: ${customer.name}</div>` : ''}
@@ -468,7 +1100,7 @@ export class DocumentService {
     receipt.payments.forEach(payment => {
       html += `
         <div class="total-line">
-          <div>${payment.method.toUpperCase()} Payment:</div>
+          <div>${payment.method.toUpperCase()} ${receipt.type === 'refund_receipt' ? 'Refund' : 'Payment'}:</div>
           <div>$${payment.amount.toFixed(2)}</div>
         </div>
       `;
@@ -483,6 +1115,26 @@ export class DocumentService {
       `;
     }
 
+    if (receipt.loyalty) {
+      html += `
+        ${receipt.loyalty.earned > 0 ? `<div class="total-line"><div>Points Earned:</div><div>${receipt.loyalty.earned}</div></div>` : ''}
+        ${receipt.loyalty.redeemed > 0 ? `<div class="total-line"><div>Points Redeemed:</div><div>${receipt.loyalty.redeemed}</div></div>` : ''}
+        <div class="total-line">
+          <div>Points Balance:</div>
+          <div>${receipt.loyalty.balance}</div>
+        </div>
+      `;
+    }
+
+    receipt.giftCards?.forEach(card => {
+      html += `
+        <div class="total-line">
+          <div>Card ${card.code} Balance:</div>
+          <div>$${card.balance.toFixed(2)}</div>
+        </div>
+      `;
+    });
+
     html += `
         </div>
 
@@ -715,6 +1367,16 @@ export class DocumentService {
             <div>Total Amount:</div>
             <div>$${invoice.grandTotal.toFixed(2)}</div>
           </div>
+          ${invoice.paidAmount ? `
+          <div class="total-line">
+            <div>Paid:</div>
+            <div>-$${invoice.paidAmount.toFixed(2)}</div>
+          </div>
+          <div class="total-line grand-total">
+            <div>Balance Due:</div>
+            <div>$${invoice.remainingBalance.toFixed(2)}</div>
+          </div>
+          ` : ''}
         </div>
 
         <div class="payment-terms">
@@ -744,11 +1406,872 @@ export class DocumentService {
     return html;
   }
 
+  private generateQuoteHTML(quote: Quote, options: DocumentGenerationOptions): string {
+    const business = quote.businessInfo;
+    const customer = quote.customerInfo;
+    const money = (value: number) => `$${value.toFixed(2)}`;
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Quote ${quote.documentNumber}</title>
+        <style>
+          body { font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 40px; font-size: 14px; }
+          .header {
+            display: flex;
+            justify-content: space-between;
+            border-bottom: 3px solid ${business.branding.primaryColor};
+            padding-bottom: 20px;
+            margin-bottom: 30px;
+          }
+          .business-name { font-size: 28px; font-weight: bold; color: ${business.branding.primaryColor}; }
+          .title { font-size: 24px; font-weight: bold; color: ${business.branding.primaryColor}; text-align: right; }
+          table { width: 100%; border-collapse: collapse; margin: 20px 0; }
+          th, td { padding: 10px; text-align: right; border-bottom: 1px solid #ddd; }
+          th:first-child, td:first-child { text-align: left; }
+          th { background-color: ${business.branding.primaryColor}; color: white; }
+          .totals { width: 300px; margin-left: auto; }
+          .total-line { display: flex; justify-content: space-between; padding: 6px 0; border-bottom: 1px dotted #ccc; }
+          .grand-total { font-weight: bold; font-size: 18px; color: ${business.branding.primaryColor}; }
+          .validity {
+            background-color: #f8f9fa;
+            padding: 20px;
+            margin: 30px 0;
+            border-left: 4px solid ${business.branding.accentColor};
+          }
+          .footer { margin-top: 40px; text-align: center; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <div>
+            <div class="business-name">${business.name}</div>
+            <div>${business.address.street}</div>
+            <div>${business.address.city}, ${business.address.state} ${business.address.zipCode}</div>
+            <div>Phone: ${business.contact.phone}</div>
+            <div>Email: ${business.contact.email}</div>
+          </div>
+          <div>
+            <div class="title">QUOTE</div>
+            <div class="title">${quote.documentNumber}</div>
+            <div style="text-align: right;">Date: ${quote.quoteDate.toLocaleDateString()}</div>
+            <div style="text-align: right;">Valid Until: ${quote.validUntil.toLocaleDateString()}</div>
+          </div>
+        </div>
+
+        <div>
+          <h3 style="color: ${business.branding.primaryColor};">Prepared For:</h3>
+          ${customer ? `
+          <div><strong>${customer.name}</strong></div>
+          ${customer.email ? `<div>${customer.email}</div>` : ''}
+          ${customer.phone ? `<div>${customer.phone}</div>` : ''}
+          ` : '<div>Walk-in Customer</div>'}
+        </div>
+
+        <table>
+          <thead>
+            <tr>
+              <th>Description</th>
+              <th>Qty</th>
+              <th>Unit Price</th>
+              <th>Tax</th>
+              <th>Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${quote.lineItems.map(item => `
+            <tr>
+              <td>
+                <div><strong>${item.description}</strong></div>
+                ${item.sku ? `<div style="font-size: 12px; color: #666;">SKU: ${item.sku}</div>` : ''}
+              </td>
+              <td>${item.quantity}</td>
+              <td>${money(item.unitPrice)}</td>
+              <td>${money(item.taxAmount)}</td>
+              <td>${money(item.total)}</td>
+            </tr>
+            `).join('')}
+          </tbody>
+        </table>
+
+        <div class="totals">
+          <div class="total-line"><div>Subtotal:</div><div>${money(quote.subtotal)}</div></div>
+          ${quote.discountTotal > 0 ? `
+          <div class="total-line"><div>Discount:</div><div>-${money(quote.discountTotal)}</div></div>
+          ` : ''}
+          <div class="total-line"><div>Tax:</div><div>${money(quote.taxTotal)}</div></div>
+          <div class="total-line grand-total"><div>Total:</div><div>${money(quote.grandTotal)}</div></div>
+        </div>
+
+        <div class="validity">
+          <p style="margin: 0;">
+            Prices are valid until <strong>${quote.validUntil.toLocaleDateString()}</strong>.
+            Stock is not reserved until the quote is accepted.
+          </p>
+        </div>
+
+        ${quote.notes ? `
+        <div style="margin: 30px 0; padding: 20px; background-color: #f8f9fa; border-radius: 5px;">
+          <h4 style="margin-top: 0; color: ${business.branding.primaryColor};">Notes:</h4>
+          <p style="margin-bottom: 0;">${quote.notes}</p>
+        </div>
+        ` : ''}
+
+        <div class="footer">
+          <p>Thank you for the opportunity to quote!</p>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateStatementHTML(statement: CustomerStatement, options: DocumentGenerationOptions): string {
+    const business = statement.businessInfo;
+    const customer = statement.customerInfo;
+    const money = (value: number) => `$${value.toFixed(2)}`;
+    const aging: [string, number][] = [
+      ['Current', statement.aging.current],
+      ['1-30 Days', statement.aging.days1to30],
+      ['31-60 Days', statement.aging.days31to60],
+      ['61-90 Days', statement.aging.days61to90],
+      ['Over 90 Days', statement.aging.over90],
+    ];
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Statement ${statement.documentNumber}</title>
+        <style>
+          body { font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 40px; font-size: 14px; }
+          .header {
+            display: flex;
+            justify-content: space-between;
+            border-bottom: 3px solid ${business.branding.primaryColor};
+            padding-bottom: 20px;
+            margin-bottom: 30px;
+          }
+          .business-name { font-size: 28px; font-weight: bold; color: ${business.branding.primaryColor}; }
+          .title { font-size: 24px; font-weight: bold; color: ${business.branding.primaryColor}; text-align: right; }
+          table { width: 100%; border-collapse: collapse; margin: 20px 0; }
+          th, td { padding: 10px; text-align: right; border-bottom: 1px solid #ddd; }
+          th:first-child, td:first-child { text-align: left; }
+          th { background-color: ${business.branding.primaryColor}; color: white; }
+          .overdue { color: #e74c3c; font-weight: bold; }
+          .balance {
+            font-size: 18px;
+            font-weight: bold;
+            text-align: right;
+            color: ${business.branding.primaryColor};
+            margin: 20px 0;
+          }
+          .footer { margin-top: 40px; text-align: center; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <div>
+            <div class="business-name">${business.name}</div>
+            <div>${business.address.street}</div>
+            <div>${business.address.city}, ${business.address.state} ${business.address.zipCode}</div>
+            <div>Phone: ${business.contact.phone}</div>
+          </div>
+          <div>
+            <div class="title">STATEMENT</div>
+            <div style="text-align: right;">Date: ${statement.createdAt.toLocaleDateString()}</div>
+          </div>
+        </div>
+
+        <div>
+          <strong>${customer.name}</strong>
+          ${customer.email ? `<div>${customer.email}</div>` : ''}
+          ${customer.phone ? `<div>${customer.phone}</div>` : ''}
+          ${customer.address?.street ? `<div>${customer.address.street}</div>
+          <div>${customer.address.city}, ${customer.address.state} ${customer.address.zipCode}</div>` : ''}
+        </div>
+
+        <table>
+          <thead>
+            <tr>
+              <th>Invoice</th>
+              <th>Date</th>
+              <th>Due</th>
+              <th>Amount</th>
+              <th>Paid</th>
+              <th>Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${statement.invoices.length === 0 ? '<tr><td colspan="6">No open invoices</td></tr>' : ''}
+            ${statement.invoices.map(invoice => `
+            <tr>
+              <td>${invoice.documentNumber}</td>
+              <td>${invoice.invoiceDate.toLocaleDateString()}</td>
+              <td class="${invoice.daysOverdue > 0 ? 'overdue' : ''}">
+                ${invoice.dueDate.toLocaleDateString()}${invoice.daysOverdue > 0 ? ` (${invoice.daysOverdue} days late)` : ''}
+              </td>
+              <td>${money(invoice.total)}</td>
+              <td>${money(invoice.paid)}</td>
+              <td>${money(invoice.balance)}</td>
+            </tr>
+            `).join('')}
+          </tbody>
+        </table>
+
+        <table>
+          <thead>
+            <tr>${aging.map(([label]) => `<th>${label}</th>`).join('')}</tr>
+          </thead>
+          <tbody>
+            <tr>${aging.map(([, value]) => `<td>${money(value)}</td>`).join('')}</tr>
+          </tbody>
+        </table>
+
+        <div class="balance">Balance Due: ${money(statement.balance)}</div>
+        ${statement.creditLimit !== undefined ? `
+        <div style="text-align: right;">
+          Credit Limit: ${money(statement.creditLimit)} ·
+          Available: ${money(Math.max(0, statement.creditLimit - statement.balance))}
+        </div>
+        ` : ''}
+
+        <div class="footer">
+          <p>Please remit the balance due. Thank you for your business!</p>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateShiftReportHTML(report: ShiftReport, options: DocumentGenerationOptions): string {
+    const business = report.businessInfo;
+    const { shift, tenders } = report.summary;
+    const isZ = report.type === 'z_report';
+    const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+    const line = (label: string, value: string) => `
+          <div class="total-line">
+            <div>${label}</div>
+            <div>${value}</div>
+          </div>`;
+
+    let html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>${isZ ? 'Z' : 'X'} Report ${report.documentNumber}</title>
+        <style>
+          body {
+            font-family: Arial, sans-serif;
+            max-width: ${options.format === 'thermal' ? '280px' : '600px'};
+            margin: 0 auto;
+            padding: 20px;
+            font-size: ${options.format === 'thermal' ? '12px' : '14px'};
+          }
+          .header {
+            text-align: center;
+            border-bottom: 2px solid ${business.branding.primaryColor};
+            padding-bottom: 20px;
+            margin-bottom: 20px;
+          }
+          .business-name {
+            font-size: ${options.format === 'thermal' ? '16px' : '24px'};
+            font-weight: bold;
+            color: ${business.branding.primaryColor};
+          }
+          .section {
+            margin-top: 15px;
+            padding-top: 10px;
+            border-top: 1px dotted #ccc;
+          }
+          .section-title { font-weight: bold; margin-bottom: 5px; }
+          .total-line { display: flex; justify-content: space-between; padding: 3px 0; }
+          .grand-total { font-weight: bold; border-top: 1px solid #000; margin-top: 5px; padding-top: 5px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <div class="business-name">${business.name}</div>
+          <div>${isZ ? 'Z Report (End of Shift)' : 'X Report (Mid-Shift)'} #${report.documentNumber}</div>
+        </div>
+
+        <div>Cashier: ${report.cashier.name}</div>
+        <div>Opened: ${new Date(shift.openedAt).toLocaleString()}</div>
+        ${shift.closedAt ? `<div>Closed: ${new Date(shift.closedAt).toLocaleString()}</div>` : ''}
+        <div>Printed: ${report.createdAt.toLocaleString()} by ${report.generatedBy.name}</div>
+
+        <div class="section">
+          <div class="section-title">Sales</div>
+          ${line(`Sales (${report.summary.saleCount})`, money(report.summary.grossSales))}
+          ${line(`Returns (${report.summary.returnCount})`, money(-report.summary.refunds))}
+          ${line('Discounts', money(report.summary.discountTotal))}
+          ${line('Tax', money(report.summary.taxTotal))}
+        </div>
+
+        <div class="section">
+          <div class="section-title">Tenders</div>
+    `;
+
+    Object.entries(tenders).forEach(([type, tender]) => {
+      html += line(`${type.replace('_', ' ').toUpperCase()} (${tender!.count})`, money(tender!.amount));
+    });
+
+    html += `
+        </div>
+
+        <div class="section">
+          <div class="section-title">Cash Drawer</div>
+          ${line('Opening Float', money(shift.openingFloat))}
+          ${line('Cash Sales', money(report.summary.cashSales))}
+          ${line('Paid In', money(report.summary.paidIn))}
+          ${line('Paid Out', money(-report.summary.paidOut))}
+          ${line('No Sales', `${report.summary.noSaleCount}`)}
+          <div class="total-line grand-total">
+            <div>Expected Cash</div>
+            <div>${money(report.summary.expectedCash)}</div>
+          </div>
+          ${report.summary.countedCash !== undefined ? line('Counted Cash', money(report.summary.countedCash)) : ''}
+          ${report.summary.overShort !== undefined
+            ? line(report.summary.overShort < 0 ? 'Short' : 'Over', money(report.summary.overShort))
+            : ''}
+        </div>
+      </body>
+      </html>
+    `;
+
+    return html;
+  }
+
+  // PDF layouts, following the HTML templates above
+  private async generateReceiptPDF(receipt: Receipt, options: DocumentGenerationOptions): Promise<Uint8Array> {
+    const business = receipt.businessInfo;
+    const isRefund = receipt.type === 'refund_receipt';
+    const title = `${isRefund ? 'Refund Receipt' : 'Receipt'} #${receipt.documentNumber}`;
+    const template = await this.getTemplate(receipt.type, options, business);
+    const { content, layout, styling } = template;
+    const money = (value: number) => `$${value.toFixed(2)}`;
+    const pdf = await this.startPDF(template, business, title, options);
+
+    pdf.text(business.name, { size: layout.fontSize.header, bold: true, color: styling.colors.primary, align: 'center' });
+    pdf.text(business.address.street, { align: 'center' });
+    pdf.text(`${business.address.city}, ${business.address.state} ${business.address.zipCode}`, { align: 'center' });
+    pdf.text(`${business.contact.phone} | ${business.contact.email}`, { align: 'center' });
+    pdf.rule({ color: styling.colors.primary, thickness: 2 });
+
+    pdf.text(title, { bold: true, align: 'center' });
+    if (isRefund) {
+      pdf.text(`Original Sale: ${receipt.saleId}`);
+    }
+    if (receipt.refundReason) {
+      pdf.text(`Reason: ${receipt.refundReason}`);
+    }
+    pdf.text(`Date: ${receipt.createdAt.toLocaleDateString()} ${receipt.createdAt.toLocaleTimeString()}`);
+    if (content.showCustomerInfo && receipt.customerInfo) {
+      pdf.text(`Customer: ${receipt.customerInfo.name}`);
+    }
+    pdf.space();
+
+    receipt.lineItems.forEach(item => {
+      pdf.pair(item.description, money(item.total));
+      if (content.showItemDetails) {
+        pdf.text(`${item.quantity} x ${money(item.unitPrice)}${item.sku ? ` (${item.sku})` : ''}`, {
+          size: layout.fontSize.footer,
+          color: styling.colors.secondary,
+        });
+      }
+    });
+
+    pdf.rule({ color: styling.colors.primary, thickness: 2 });
+    pdf.pair('Subtotal:', money(receipt.subtotal));
+    pdf.pair('Tax:', money(receipt.taxTotal));
+    if (receipt.discountTotal > 0) {
+      pdf.pair('Discount:', `-${money(receipt.discountTotal)}`);
+    }
+    pdf.pair('Total:', money(receipt.grandTotal), { bold: true });
+
+    if (content.showPaymentDetails) {
+      pdf.space();
+      receipt.payments.forEach(payment => {
+        pdf.pair(`${payment.method.toUpperCase()} ${isRefund ? 'Refund' : 'Payment'}:`, money(payment.amount));
+      });
+      if (receipt.changeAmount > 0) {
+        pdf.pair('Change:', money(receipt.changeAmount));
+      }
+    }
+    if (receipt.loyalty) {
+      if (receipt.loyalty.earned > 0) {
+        pdf.pair('Points Earned:', `${receipt.loyalty.earned}`);
+      }
+      if (receipt.loyalty.redeemed > 0) {
+        pdf.pair('Points Redeemed:', `${receipt.loyalty.redeemed}`);
+      }
+      pdf.pair('Points Balance:', `${receipt.loyalty.balance}`);
+    }
+    receipt.giftCards?.forEach(card => {
+      pdf.pair(`Card ${card.code} Balance:`, money(card.balance));
+    });
+
+    return this.finishPDF(pdf, template, options, [
+      content.thankYouMessage || 'Thank you for your business!',
+      business.contact.website ? `Visit us at ${business.contact.website}` : '',
+      content.returnPolicy || 'Items may be returned within 30 days with receipt.',
+    ]);
+  }
+
+  private async generateInvoicePDF(invoice: Invoice, options: DocumentGenerationOptions): Promise<Uint8Array> {
+    const business = invoice.businessInfo;
+    const template = await this.getTemplate('invoice', options, business);
+    const { content, layout, styling } = template;
+    const money = (value: number) => `$${value.toFixed(2)}`;
+    const totalsWidth = layout.fontSize.body * 24;
+    const pdf = await this.startPDF(template, business, `Invoice ${invoice.documentNumber}`, options);
+
+    this.addBusinessHeaderPDF(pdf, template, business, [
+      { text: 'INVOICE', size: layout.fontSize.header, bold: true, color: styling.colors.primary },
+      { text: invoice.documentNumber, bold: true },
+      { text: `Invoice Date: ${invoice.invoiceDate.toLocaleDateString()}` },
+      { text: `Due Date: ${invoice.dueDate.toLocaleDateString()}` },
+    ]);
+    pdf.space();
+    pdf.sideBySide(
+      content.showCustomerInfo
+        ? [{ text: 'Bill To:', bold: true, color: styling.colors.primary }, ...this.customerLinesPDF(invoice.customerInfo)]
+        : [],
+      [
+        { text: 'Invoice Details:', bold: true, color: styling.colors.primary },
+        { text: `Payment Terms: ${invoice.paymentTerms}` },
+        { text: `Amount Due: ${money(invoice.remainingBalance)}` },
+        ...(invoice.poNumber ? [{ text: `PO Number: ${invoice.poNumber}` }] : []),
+        ...(invoice.referenceNumber ? [{ text: `Reference: ${invoice.referenceNumber}` }] : []),
+      ]
+    );
+    pdf.space();
+    this.addLineItemsPDF(pdf, template, invoice.lineItems);
+    pdf.space();
+
+    pdf.pair('Subtotal:', money(invoice.subtotal), { width: totalsWidth });
+    pdf.pair('Tax Total:', money(invoice.taxTotal), { width: totalsWidth });
+    if (invoice.discountTotal > 0) {
+      pdf.pair('Discount:', `-${money(invoice.discountTotal)}`, { width: totalsWidth });
+    }
+    pdf.pair('Total Amount:', money(invoice.grandTotal), { width: totalsWidth, bold: true, color: styling.colors.primary });
+    if (invoice.paidAmount) {
+      pdf.pair('Paid:', `-${money(invoice.paidAmount)}`, { width: totalsWidth });
+      pdf.pair('Balance Due:', money(invoice.remainingBalance), { width: totalsWidth, bold: true, color: styling.colors.primary });
+    }
+
+    if (content.showPaymentDetails) {
+      pdf.space();
+      pdf.text('Payment Information', { bold: true, color: styling.colors.primary });
+      pdf.text(`Terms: ${invoice.paymentTerms}`);
+      if (invoice.paymentInstructions) {
+        pdf.text(`Instructions: ${invoice.paymentInstructions}`);
+      }
+      pdf.text(`Please remit payment by ${invoice.dueDate.toLocaleDateString()}`);
+    }
+    this.addNotesPDF(pdf, template, invoice.notes);
+
+    return this.finishPDF(pdf, template, options, [
+      content.thankYouMessage || 'Thank you for your business!',
+      'This invoice was generated electronically and is valid without signature.',
+    ]);
+  }
+
+  private async generateQuotePDF(quote: Quote, options: DocumentGenerationOptions): Promise<Uint8Array> {
+    const business = quote.businessInfo;
+    const template = await this.getTemplate('quote', options, business);
+    const { content, layout, styling } = template;
+    const money = (value: number) => `$${value.toFixed(2)}`;
+    const totalsWidth = layout.fontSize.body * 24;
+    const pdf = await this.startPDF(template, business, `Quote ${quote.documentNumber}`, options);
+
+    this.addBusinessHeaderPDF(pdf, template, business, [
+      { text: 'QUOTE', size: layout.fontSize.header, bold: true, color: styling.colors.primary },
+      { text: quote.documentNumber, bold: true },
+      { text: `Date: ${quote.quoteDate.toLocaleDateString()}` },
+      { text: `Valid Until: ${quote.validUntil.toLocaleDateString()}` },
+    ]);
+    if (content.showCustomerInfo) {
+      pdf.space();
+      pdf.text('Prepared For:', { bold: true, color: styling.colors.primary });
+      this.customerLinesPDF(quote.customerInfo).forEach(line => pdf.text(line.text, line));
+    }
+    pdf.space();
+    this.addLineItemsPDF(pdf, template, quote.lineItems);
+    pdf.space();
+
+    pdf.pair('Subtotal:', money(quote.subtotal), { width: totalsWidth });
+    if (quote.discountTotal > 0) {
+      pdf.pair('Discount:', `-${money(quote.discountTotal)}`, { width: totalsWidth });
+    }
+    pdf.pair('Tax:', money(quote.taxTotal), { width: totalsWidth });
+    pdf.pair('Total:', money(quote.grandTotal), { width: totalsWidth, bold: true, color: styling.colors.primary });
+
+    pdf.space();
+    pdf.text(
+      `Prices are valid until ${quote.validUntil.toLocaleDateString()}. Stock is not reserved until the quote is accepted.`
+    );
+    this.addNotesPDF(pdf, template, quote.notes);
+
+    return this.finishPDF(pdf, template, options, [content.thankYouMessage || 'Thank you for the opportunity to quote!']);
+  }
+
+  private async generateStatementPDF(statement: CustomerStatement, options: DocumentGenerationOptions): Promise<Uint8Array> {
+    const business = statement.businessInfo;
+    // Statements print on the invoice template
+    const template = await this.getTemplate('invoice', options, business);
+    const { layout, styling } = template;
+    const money = (value: number) => `$${value.toFixed(2)}`;
+    const totalsWidth = layout.fontSize.body * 24;
+    const header = { headerColor: styling.colors.primary, headerTextColor: '#ffffff' };
+    const pdf = await this.startPDF(template, business, `Statement ${statement.documentNumber}`, options);
+
+    this.addBusinessHeaderPDF(pdf, template, business, [
+      { text: 'STATEMENT', size: layout.fontSize.header, bold: true, color: styling.colors.primary },
+      { text: `Date: ${statement.createdAt.toLocaleDateString()}` },
+    ]);
+    pdf.space();
+    this.customerLinesPDF(statement.customerInfo).forEach(line => pdf.text(line.text, line));
+    pdf.space();
+
+    if (statement.invoices.length === 0) {
+      pdf.text('No open invoices');
+    } else {
+      pdf.table(
+        [
+          { header: 'Invoice', width: 2 },
+          { header: 'Date', width: 2 },
+          { header: 'Due', width: 3 },
+          { header: 'Amount', width: 1.5, align: 'right' },
+          { header: 'Paid', width: 1.5, align: 'right' },
+          { header: 'Balance', width: 1.5, align: 'right' },
+        ],
+        statement.invoices.map(invoice => [
+          invoice.documentNumber,
+          invoice.invoiceDate.toLocaleDateString(),
+          invoice.daysOverdue > 0
+            ? { text: `${invoice.dueDate.toLocaleDateString()} (${invoice.daysOverdue} days late)`, bold: true, color: '#e74c3c' }
+            : invoice.dueDate.toLocaleDateString(),
+          money(invoice.total),
+          money(invoice.paid),
+          money(invoice.balance),
+        ]),
+        header
+      );
+    }
+    pdf.space();
+
+    const aging: [string, number][] = [
+      ['Current', statement.aging.current],
+      ['1-30 Days', statement.aging.days1to30],
+      ['31-60 Days', statement.aging.days31to60],
+      ['61-90 Days', statement.aging.days61to90],
+      ['Over 90 Days', statement.aging.over90],
+    ];
+    pdf.table(
+      aging.map(([label]) => ({ header: label, width: 1, align: 'right' as const })),
+      [aging.map(([, value]) => money(value))],
+      header
+    );
+    pdf.space();
+
+    pdf.pair('Balance Due:', money(statement.balance), { width: totalsWidth, bold: true, color: styling.colors.primary });
+    if (statement.creditLimit !== undefined) {
+      pdf.pair('Credit Limit:', money(statement.creditLimit), { width: totalsWidth });
+      pdf.pair('Available:', money(Math.max(0, statement.creditLimit - statement.balance)), { width: totalsWidth });
+    }
+
+    return this.finishPDF(pdf, template, options, ['Please remit the balance due. Thank you for your business!']);
+  }
+
+  private async generateShiftReportPDF(report: ShiftReport, options: DocumentGenerationOptions): Promise<Uint8Array> {
+    const business = report.businessInfo;
+    const { shift, tenders } = report.summary;
+    const isZ = report.type === 'z_report';
+    const template = await this.getTemplate(report.type, options, business);
+    const { layout, styling } = template;
+    const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+    const pdf = await this.startPDF(template, business, `${isZ ? 'Z' : 'X'} Report ${report.documentNumber}`, options);
+    const section = (title: string) => {
+      pdf.space();
+      pdf.text(title, { bold: true });
+    };
+
+    pdf.text(business.name, { size: layout.fontSize.header, bold: true, color: styling.colors.primary, align: 'center' });
+    pdf.text(`${isZ ? 'Z Report (End of Shift)' : 'X Report (Mid-Shift)'} #${report.documentNumber}`, { align: 'center' });
+    pdf.rule();
+    pdf.text(`Cashier: ${report.cashier.name}`);
+    pdf.text(`Opened: ${new Date(shift.openedAt).toLocaleString()}`);
+    if (shift.closedAt) {
+      pdf.text(`Closed: ${new Date(shift.closedAt).toLocaleString()}`);
+    }
+    pdf.text(`Printed: ${report.createdAt.toLocaleString()} by ${report.generatedBy.name}`);
+
+    section('Sales');
+    pdf.pair(`Sales (${report.summary.saleCount})`, money(report.summary.grossSales));
+    pdf.pair(`Returns (${report.summary.returnCount})`, money(-report.summary.refunds));
+    pdf.pair('Discounts', money(report.summary.discountTotal));
+    pdf.pair('Tax', money(report.summary.taxTotal));
+
+    section('Tenders');
+    Object.entries(tenders).forEach(([type, tender]) => {
+      pdf.pair(`${type.replace('_', ' ').toUpperCase()} (${tender!.count})`, money(tender!.amount));
+    });
+
+    section('Cash Drawer');
+    pdf.pair('Opening Float', money(shift.openingFloat));
+    pdf.pair('Cash Sales', money(report.summary.cashSales));
+    pdf.pair('Paid In', money(report.summary.paidIn));
+    pdf.pair('Paid Out', money(-report.summary.paidOut));
+    pdf.pair('No Sales', `${report.summary.noSaleCount}`);
+    pdf.rule({ thickness: 0.5 });
+    pdf.pair('Expected Cash', money(report.summary.expectedCash), { bold: true });
+    if (report.summary.countedCash !== undefined) {
+      pdf.pair('Counted Cash', money(report.summary.countedCash));
+    }
+    if (report.summary.overShort !== undefined) {
+      pdf.pair(report.summary.overShort < 0 ? 'Short' : 'Over', money(report.summary.overShort));
+    }
+
+    return this.finishPDF(pdf, template, options, []);
+  }
+
+  // The template picked in the options, else the business default for the
+  // document type, else the built-in layout: roll paper for receipts and
+  // drawer reports, a letter-size page for everything else
+  private async getTemplate(
+    type: DocumentType,
+    options: DocumentGenerationOptions,
+    business: BusinessInfo
+  ): Promise<DocumentTemplate> {
+    const isRoll = type === 'receipt' || type === 'refund_receipt' || type === 'x_report' || type === 'z_report';
+    const documentSettings = await businessConfigService.getDocumentSettings();
+    const templateId = options.templateId
+      || (isRoll ? documentSettings.defaultTemplate.receipt : documentSettings.defaultTemplate.invoice);
+    const stored = (await this.getTemplates()).find(template => template.id === templateId);
+    if (stored) {
+      return stored;
+    }
+
+    return {
+      id: templateId,
+      name: isRoll ? 'Receipt (80mm roll)' : 'Letter',
+      type,
+      format: isRoll ? 'thermal' : 'pdf',
+      isDefault: true,
+      layout: {
+        width: isRoll ? 226 : 612,
+        margin: isRoll ? { top: 12, right: 12, bottom: 12, left: 12 } : { top: 54, right: 54, bottom: 54, left: 54 },
+        fontSize: isRoll ? { header: 14, body: 8, footer: 7 } : { header: 20, body: 10, footer: 8 },
+        showLogo: true,
+        showQRCode: false,
+        showBarcode: false,
+      },
+      content: {
+        returnPolicy: isRoll ? documentSettings.defaultTerms.returnPolicy : undefined,
+        termsAndConditions: isRoll ? undefined : documentSettings.defaultTerms.termsAndConditions,
+        showCustomerInfo: true,
+        showItemDetails: true,
+        showTaxBreakdown: true,
+        showPaymentDetails: true,
+      },
+      styling: {
+        colors: {
+          primary: business.branding.primaryColor,
+          secondary: '#666666',
+          text: '#000000',
+          accent: business.branding.accentColor,
+        },
+        fonts: { header: 'Helvetica-Bold', body: 'Helvetica', monospace: 'Courier' },
+        spacing: { lineHeight: 1.3, sectionSpacing: isRoll ? 8 : 16 },
+      },
+    };
+  }
+
+  // A writer for the template's page and margins, with the logo and header
+  // text already drawn. Thermal templates print on a roll as long as the
+  // document; other pages keep US Letter proportions at the template width.
+  private async startPDF(
+    template: DocumentTemplate,
+    business: BusinessInfo,
+    title: string,
+    options: DocumentGenerationOptions
+  ): Promise<PdfWriter> {
+    const { layout, styling } = template;
+    const isRoll = template.format === 'thermal';
+    const pdf = new PdfWriter({
+      width: layout.width,
+      height: isRoll ? undefined : Math.round((layout.width * 11) / 8.5),
+      margin: layout.margin,
+      fontSize: layout.fontSize,
+      lineHeight: styling.spacing.lineHeight,
+      sectionSpacing: styling.spacing.sectionSpacing,
+      title,
+    });
+
+    const logo = layout.showLogo ? await this.loadLogo(business.branding.logoUrl) : null;
+    if (logo) {
+      pdf.image(logo, { height: layout.fontSize.header * 3, align: isRoll ? 'center' : 'left' });
+      pdf.space(layout.fontSize.body / 2);
+    }
+    const headerText = options.customHeader || template.content.headerText;
+    if (headerText) {
+      pdf.text(headerText, { align: 'center', color: styling.colors.secondary });
+    }
+    return pdf;
+  }
+
+  // Footer lines, the template's terms and footer text, then the finished file
+  private finishPDF(
+    pdf: PdfWriter,
+    template: DocumentTemplate,
+    options: DocumentGenerationOptions,
+    lines: string[]
+  ): Uint8Array {
+    const { content, layout, styling } = template;
+    const footer = [...lines, options.customFooter || content.footerText].filter(Boolean) as string[];
+    if (content.termsAndConditions) {
+      pdf.space();
+      pdf.text('Terms & Conditions', { bold: true, color: styling.colors.primary });
+      pdf.text(content.termsAndConditions, { size: layout.fontSize.footer });
+    }
+    if (footer.length > 0) {
+      pdf.space();
+      pdf.rule({ color: '#cccccc', thickness: 0.5 });
+      footer.forEach(line => pdf.text(line, { size: layout.fontSize.footer, color: styling.colors.secondary, align: 'center' }));
+    }
+    return pdf.toBytes();
+  }
+
+  private addBusinessHeaderPDF(
+    pdf: PdfWriter,
+    template: DocumentTemplate,
+    business: BusinessInfo,
+    documentLines: PdfTextLine[]
+  ): void {
+    const { layout, styling } = template;
+    pdf.sideBySide(
+      [
+        { text: business.name, size: layout.fontSize.header, bold: true, color: styling.colors.primary },
+        { text: business.address.street },
+        { text: `${business.address.city}, ${business.address.state} ${business.address.zipCode}` },
+        { text: business.address.country },
+        { text: `Phone: ${business.contact.phone}` },
+        { text: `Email: ${business.contact.email}` },
+        ...(business.contact.website ? [{ text: `Web: ${business.contact.website}` }] : []),
+        ...(business.tax.taxIdNumber ? [{ text: `Tax ID: ${business.tax.taxIdNumber}` }] : []),
+      ],
+      documentLines
+    );
+  }
+
+  private customerLinesPDF(customer?: CustomerInfo): PdfTextLine[] {
+    if (!customer) {
+      return [{ text: 'Walk-in Customer' }];
+    }
+    const lines: PdfTextLine[] = [{ text: customer.name, bold: true }];
+    if (customer.email) {
+      lines.push({ text: customer.email });
+    }
+    if (customer.phone) {
+      lines.push({ text: customer.phone });
+    }
+    if (customer.address?.street) {
+      lines.push({ text: customer.address.street });
+      lines.push({ text: `${customer.address.city}, ${customer.address.state} ${customer.address.zipCode}` });
+    }
+    return lines;
+  }
+
+  private addLineItemsPDF(pdf: PdfWriter, template: DocumentTemplate, items: DocumentLineItem[]): void {
+    const { content, styling } = template;
+    const money = (value: number) => `$${value.toFixed(2)}`;
+    pdf.table(
+      [
+        { header: 'Description', width: 4 },
+        { header: 'Qty', width: 1, align: 'center' },
+        { header: 'Unit Price', width: 1.5, align: 'right' },
+        ...(content.showTaxBreakdown ? [{ header: 'Tax', width: 1.3, align: 'right' as const }] : []),
+        { header: 'Amount', width: 1.5, align: 'right' },
+      ],
+      items.map(item => [
+        content.showItemDetails && item.sku ? `${item.description}\nSKU: ${item.sku}` : item.description,
+        `${item.quantity}`,
+        money(item.unitPrice),
+        ...(content.showTaxBreakdown ? [money(item.taxAmount)] : []),
+        { text: money(item.total), bold: true },
+      ]),
+      { headerColor: styling.colors.primary, headerTextColor: '#ffffff' }
+    );
+  }
+
+  private addNotesPDF(pdf: PdfWriter, template: DocumentTemplate, notes?: string): void {
+    if (!notes) {
+      return;
+    }
+    pdf.space();
+    pdf.text('Notes:', { bold: true, color: template.styling.colors.primary });
+    pdf.text(notes);
+  }
+
+  // The business logo for PDFs; documents go out without it if it can't be read
+  private async loadLogo(logoUrl?: string): Promise<PdfImage | null> {
+    if (!logoUrl) {
+      return null;
+    }
+    try {
+      const bytes = logoUrl.startsWith('data:')
+        ? decodeBase64(logoUrl.slice(logoUrl.indexOf(',') + 1))
+        : new Uint8Array(await (await fetch(logoUrl)).arrayBuffer());
+      const logo = parseImage(bytes);
+      if (!logo) {
+        console.warn('Logo must be a JPEG or a PNG without transparency; leaving it off');
+      }
+      return logo;
+    } catch (error) {
+      console.error('Failed to load logo:', error);
+      return null;
+    }
+  }
+
   // Helper Methods
-  private extractCustomerInfo(sale: RetailTransaction): CustomerInfo | undefined {
-    // For now, return undefined since SimpleSalesService doesn't store customer info
-    // This could be enhanced later to extract from sale metadata
-    return undefined;
+  // The customer attached at checkout; a missing customer never blocks the receipt
+  private async extractCustomerInfo(sale: RetailTransaction): Promise<CustomerInfo | undefined> {
+    if (!sale.customerId) {
+      return undefined;
+    }
+    try {
+      const customer = await customerService.getCustomer(sale.customerId);
+      return customer ? customerService.toCustomerInfo(customer) : undefined;
+    } catch (error) {
+      console.error('Failed to load receipt customer:', error);
+      return undefined;
+    }
+  }
+
+  private async extractLoyalty(sale: RetailTransaction): Promise<Receipt['loyalty']> {
+    if (!sale.customerId || !sale.id) {
+      return undefined;
+    }
+    try {
+      return await loyaltyService.getTransactionSummary(sale.customerId, sale.id);
+    } catch (error) {
+      console.error('Failed to load receipt loyalty points:', error);
+      return undefined;
+    }
+  }
+
+  private async extractGiftCards(sale: RetailTransaction): Promise<Receipt['giftCards']> {
+    try {
+      const lines = await giftCardService.getReceiptLines(sale);
+      return lines.length > 0 ? lines : undefined;
+    } catch (error) {
+      console.error('Failed to load receipt gift card balances:', error);
+      return undefined;
+    }
   }
 
   private convertSaleItemsToLineItems(saleItems: SaleLineItem[]): DocumentLineItem[] {
@@ -758,9 +2281,9 @@ export class DocumentService {
       description: item.name,
       quantity: item.quantity,
       unitPrice: item.unitPrice,
-      taxRate: item.taxes?.[0]?.rate || 0.08,
+      taxRate: (item.taxes || []).reduce((sum, tax) => sum + tax.rate, 0),
       taxAmount: item.lineTotal.tax,
-      discount: item.discounts?.reduce((sum, d) => sum + d.value, 0) || 0,
+      discount: item.discounts?.reduce((sum, d) => sum + (d.amount ?? d.value), 0) || 0,
       subtotal: item.lineTotal.net,
       total: item.lineTotal.gross,
       sku: item.sku,
@@ -768,15 +2291,33 @@ export class DocumentService {
   }
 
   private convertSalePayments(sale: RetailTransaction): PaymentInfo[] {
-    return [{
-      method: this.mapTenderTypeToPaymentMethod(sale.tenders[0]?.type) || 'cash',
-      amount: sale.tenders[0]?.amount || 0,
-      timestamp: sale.timestamp,
-    }];
+    // One entry per tender; change is reported separately as changeAmount
+    return sale.tenders
+      .filter(tender => tender.amount > 0)
+      .map(tender => ({
+        method: this.mapTenderTypeToPaymentMethod(tender.type),
+        amount: tender.amount,
+        reference: tender.reference,
+        timestamp: sale.timestamp,
+      }));
+  }
+
+  // Money paid back to the customer, one entry per refund tender
+  private convertRefundPayments(refund: RetailTransaction): PaymentInfo[] {
+    return refund.tenders
+      .filter(tender => tender.amount < 0)
+      .map(tender => ({
+        method: this.mapTenderTypeToPaymentMethod(tender.type),
+        amount: -tender.amount,
+        reference: tender.reference,
+        timestamp: refund.timestamp,
+      }));
   }
 
-  private mapTenderTypeToPaymentMethod(tenderType?: string): 'cash' | 'card' | 'digital' | 'check' | 'bank_transfer' {
+  private mapTenderTypeToPaymentMethod(tenderType?: string): PaymentInfo['method'] {
     switch (tenderType) {
+      case 'loyalty_points':
+        return 'loyalty_points';
       case 'cash':
         return 'cash';
       case 'card':
@@ -784,13 +2325,82 @@ export class DocumentService {
       case 'digital':
         return 'digital';
       case 'store_credit':
+        return 'store_credit';
+      case 'on_account':
+        return 'on_account';
       case 'other':
       default:
         return 'cash';
     }
   }
 
-  private filterDocuments<T extends Receipt | Invoice>(documents: T[], filter?: DocumentFilter): T[] {
+  private async saveInvoice(invoice: Invoice): Promise<void> {
+    await this.storage.setItem(`${this.INVOICES_KEY}${invoice.id}`, JSON.stringify({
+      ...invoice,
+      createdAt: invoice.createdAt.toISOString(),
+      updatedAt: invoice.updatedAt.toISOString(),
+      invoiceDate: invoice.invoiceDate.toISOString(),
+      dueDate: invoice.dueDate.toISOString(),
+      sentAt: invoice.sentAt?.toISOString(),
+      paidAt: invoice.paidAt?.toISOString(),
+      payments: invoice.payments?.map(payment => ({
+        ...payment,
+        receivedAt: payment.receivedAt.toISOString(),
+      })),
+    }));
+  }
+
+  // Sent invoices still carrying a balance after their due date read as overdue
+  private parseInvoice(data: any): Invoice {
+    const invoice: Invoice = {
+      ...data,
+      createdAt: new Date(data.createdAt),
+      updatedAt: new Date(data.updatedAt),
+      invoiceDate: new Date(data.invoiceDate),
+      dueDate: new Date(data.dueDate),
+      sentAt: data.sentAt ? new Date(data.sentAt) : undefined,
+      paidAt: data.paidAt ? new Date(data.paidAt) : undefined,
+      payments: data.payments?.map((payment: any) => ({
+        ...payment,
+        receivedAt: new Date(payment.receivedAt),
+      })),
+    };
+    if (invoice.status === 'sent' && invoice.remainingBalance > 0 && invoice.dueDate < new Date()) {
+      invoice.status = 'overdue';
+    }
+    return invoice;
+  }
+
+  private async saveQuote(quote: Quote): Promise<void> {
+    await this.storage.setItem(`${this.QUOTES_KEY}${quote.id}`, JSON.stringify({
+      ...quote,
+      createdAt: quote.createdAt.toISOString(),
+      updatedAt: quote.updatedAt.toISOString(),
+      quoteDate: quote.quoteDate.toISOString(),
+      validUntil: quote.validUntil.toISOString(),
+      sentAt: quote.sentAt?.toISOString(),
+      acceptedAt: quote.acceptedAt?.toISOString(),
+    }));
+  }
+
+  // Open quotes past their validity date read as expired
+  private parseQuote(data: any): Quote {
+    const quote: Quote = {
+      ...data,
+      createdAt: new Date(data.createdAt),
+      updatedAt: new Date(data.updatedAt),
+      quoteDate: new Date(data.quoteDate),
+      validUntil: new Date(data.validUntil),
+      sentAt: data.sentAt ? new Date(data.sentAt) : undefined,
+      acceptedAt: data.acceptedAt ? new Date(data.acceptedAt) : undefined,
+    };
+    if ((quote.status === 'draft' || quote.status === 'sent') && quote.validUntil < new Date()) {
+      quote.status = 'expired';
+    }
+    return quote;
+  }
+
+  private filterDocuments<T extends Receipt | Invoice | Quote>(documents: T[], filter?: DocumentFilter): T[] {
     if (!filter) {return documents;}
 
     return documents.filter(doc => {
@@ -0,0 +1,393 @@
+import { database } from '../stores/DatabaseFactory';
+import {
+  CartItem,
+  GiftCard,
+  GiftCardEntry,
+  GiftCardEntryType,
+  GiftCardKind,
+  RetailTransaction,
+  TenderLineItem,
+} from '../types';
+import { randomBytes } from '../utils/password';
+import { authService } from './AuthService';
+
+// SKU on cart and sale lines that sell or reload a gift card
+export const GIFT_CARD_SKU = 'GIFT-CARD';
+
+export interface GiftCardBalance {
+  card: GiftCard;
+  balance: number;
+}
+
+// A card touched by a sale or return, with its balance now, for receipts
+export interface GiftCardReceiptLine {
+  code: string; // in full for cards the customer holds, masked when only spent
+  balance: number;
+}
+
+export interface GiftCardLiabilityReport {
+  asOf: Date;
+  // Cards with money left on them, largest balance first
+  cards: (GiftCardBalance & { lastActivity: Date })[];
+  byKind: Record<GiftCardKind, { count: number; balance: number }>;
+  totalOutstanding: number;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const sumEntries = (entries: GiftCardEntry[]): number =>
+  roundCurrency(entries.reduce((sum, entry) => sum + entry.amount, 0));
+
+/**
+ * Gift cards and store credit. Gift cards are sold or reloaded at the register
+ * as non-stock cart lines; store credit is issued when a return is refunded
+ * to the 'store_credit' tender. Both are spent with that tender, whose
+ * `reference` is the card code. Balances are the sum of the card's ledger
+ * entries, and unspent balances are reported as a liability.
+ */
+export class GiftCardService {
+  private static instance: GiftCardService;
+
+  private constructor() {}
+
+  public static getInstance(): GiftCardService {
+    if (!GiftCardService.instance) {
+      GiftCardService.instance = new GiftCardService();
+    }
+    return GiftCardService.instance;
+  }
+
+  // 16 digits, so codes print and scan as ordinary barcodes. Bytes past the
+  // last whole multiple of the digit range are dropped to keep digits even.
+  public generateCode(): string {
+    let code = '';
+    while (code.length < 16) {
+      for (const byte of randomBytes(16)) {
+        const range = code ? 10 : 9;
+        if (code.length < 16 && byte < 256 - (256 % range)) {
+          code += code ? byte % 10 : 1 + (byte % 9);
+        }
+      }
+    }
+    return code;
+  }
+
+  // Codes are typed with spaces or dashes and scanned without them
+  public normalizeCode(input: string): string {
+    return input.replace(/[\s-]/g, '').toUpperCase();
+  }
+
+  public formatCode(code: string): string {
+    return code.replace(/(.{4})(?=.)/g, '$1 ');
+  }
+
+  public maskCode(code: string): string {
+    return `•••• ${code.slice(-4)}`;
+  }
+
+  public async getCard(code: string): Promise<GiftCard | null> {
+    try {
+      return await database.getGiftCard(this.normalizeCode(code));
+    } catch (error) {
+      console.error('Failed to load gift card:', error);
+      throw new Error('Failed to load gift card');
+    }
+  }
+
+  /**
+   * Balance check by typed or scanned code
+   */
+  public async lookup(code: string): Promise<GiftCardBalance> {
+    const card = await this.getCard(code);
+    if (!card) {
+      throw new Error('Gift card not found');
+    }
+    return { card, balance: await this.getBalance(card.code) };
+  }
+
+  public async getBalance(code: string): Promise<number> {
+    return sumEntries(await this.getHistory(code));
+  }
+
+  /**
+   * Every change to the card's balance, newest first
+   */
+  public async getHistory(code: string): Promise<GiftCardEntry[]> {
+    try {
+      return await database.getGiftCardEntries(this.normalizeCode(code));
+    } catch (error) {
+      console.error('Failed to load gift card history:', error);
+      throw new Error('Failed to load gift card history');
+    }
+  }
+
+  /**
+   * Cart line that sells a new card or reloads an existing one. Without a
+   * code a new one is generated; a code that isn't on file is a new card.
+   */
+  public async createCartItem(amount: number, code?: string): Promise<CartItem> {
+    if (!(amount > 0)) {
+      throw new Error('Gift card amount must be greater than zero');
+    }
+
+    const cardCode = code ? this.normalizeCode(code) : this.generateCode();
+    if (!/^[A-Z0-9]{6,32}$/.test(cardCode)) {
+      throw new Error('Gift card codes are 6 to 32 letters or digits');
+    }
+
+    const existing = await this.getCard(cardCode);
+    const name = `${existing ? 'Gift Card Reload' : 'Gift Card'} ${this.maskCode(cardCode)}`;
+    const price = roundCurrency(amount);
+
+    return {
+      id: `gift_${cardCode}_${Date.now()}`,
+      productId: 0,
+      name,
+      sku: GIFT_CARD_SKU,
+      price,
+      quantity: 1,
+      unitPrice: price,
+      description: name,
+      taxRate: 0,
+      giftCardCode: cardCode,
+    };
+  }
+
+  /**
+   * Check gift card lines and store_credit tenders before a sale is saved
+   */
+  public async assertSaleValid(items: CartItem[], tenders: TenderLineItem[]): Promise<void> {
+    if (items.some(item => item.giftCardCode && (item.discounts || []).length > 0)) {
+      throw new Error('Gift cards are sold at face value and cannot be discounted');
+    }
+
+    const spent = new Map<string, number>();
+    for (const tender of tenders.filter(t => t.type === 'store_credit')) {
+      if (!tender.reference || !tender.reference.trim()) {
+        throw new Error('Enter the gift card or store credit code');
+      }
+      const code = this.normalizeCode(tender.reference);
+      spent.set(code, roundCurrency((spent.get(code) || 0) + tender.amount));
+    }
+
+    for (const [code, amount] of spent) {
+      const { balance } = await this.lookup(code);
+      if (amount > balance + 0.005) {
+        throw new Error(`Gift card ${this.maskCode(code)} has only $${balance.toFixed(2)} available`);
+      }
+      if (items.some(item => item.giftCardCode === code)) {
+        throw new Error('A gift card cannot be used to pay for its own reload');
+      }
+    }
+  }
+
+  /**
+   * Load cards sold or reloaded on a sale and take store_credit tenders off
+   * their cards
+   */
+  public async recordSale(transaction: RetailTransaction): Promise<void> {
+    for (const item of transaction.items.filter(line => line.giftCardCode)) {
+      const code = item.giftCardCode!;
+      const amount = roundCurrency(item.unitPrice * item.quantity);
+      const existing = await this.getCard(code);
+      if (!existing) {
+        await this.saveCard({ code, kind: 'gift_card', customerId: transaction.customerId, createdAt: new Date() });
+      }
+
+      const balance = await this.addEntry(code, existing ? 'reload' : 'issue', amount, transaction);
+      await this.logAudit(existing ? 'gift_card_reloaded' : 'gift_card_issued', transaction.operatorId, {
+        code: this.maskCode(code),
+        amount,
+        balance,
+        transactionId: transaction.id,
+      });
+    }
+
+    for (const tender of transaction.tenders.filter(t => t.type === 'store_credit' && t.amount > 0)) {
+      const code = this.normalizeCode(tender.reference || '');
+      const balance = await this.addEntry(code, 'redeem', -tender.amount, transaction);
+      await this.logAudit('gift_card_redeemed', transaction.operatorId, {
+        code: this.maskCode(code),
+        amount: tender.amount,
+        balance,
+        transactionId: transaction.id,
+      });
+    }
+  }
+
+  /**
+   * Credit store_credit refund tenders: back onto the card the sale was paid
+   * with, or onto a new store credit for the code the return was given
+   */
+  public async recordReturn(refund: RetailTransaction): Promise<void> {
+    // Refund tenders are negative on the return
+    for (const tender of refund.tenders.filter(t => t.type === 'store_credit' && t.amount < 0)) {
+      const code = this.normalizeCode(tender.reference || '');
+      const amount = -tender.amount;
+      const existing = await this.getCard(code);
+      if (!existing) {
+        await this.saveCard({ code, kind: 'store_credit', customerId: refund.customerId, createdAt: new Date() });
+      }
+
+      const balance = await this.addEntry(code, existing ? 'refund' : 'issue', amount, refund);
+      await this.logAudit(existing ? 'gift_card_refunded' : 'store_credit_issued', refund.operatorId, {
+        code: this.maskCode(code),
+        amount,
+        balance,
+        transactionId: refund.id,
+        originalTransactionId: refund.originalTransactionId,
+      });
+    }
+  }
+
+  /**
+   * Take back every balance change a transaction made, for a checkout or
+   * return that could not be completed. Running it again changes nothing.
+   */
+  public async reverseTransaction(transaction: RetailTransaction): Promise<void> {
+    if (!transaction.id) {
+      return;
+    }
+
+    let entries: GiftCardEntry[];
+    try {
+      entries = await database.getGiftCardEntries();
+    } catch (error) {
+      console.error('Failed to load gift card history:', error);
+      throw new Error('Failed to load gift card history');
+    }
+
+    const byCode = new Map<string, number>();
+    for (const entry of entries.filter(e => e.transactionId === transaction.id)) {
+      byCode.set(entry.code, roundCurrency((byCode.get(entry.code) || 0) + entry.amount));
+    }
+
+    for (const [code, amount] of byCode) {
+      if (amount === 0) {
+        continue;
+      }
+      const balance = await this.addEntry(code, 'reverse', -amount, transaction);
+      await this.logAudit('gift_card_reversed', transaction.operatorId, {
+        code: this.maskCode(code),
+        amount: -amount,
+        balance,
+        transactionId: transaction.id,
+      });
+    }
+  }
+
+  /**
+   * Cards sold, reloaded, spent or credited on a transaction. Codes of cards
+   * just sold or issued as store credit are printed in full so the customer
+   * can use them; cards only spent are masked.
+   */
+  public async getReceiptLines(transaction: RetailTransaction): Promise<GiftCardReceiptLine[]> {
+    const issued = [
+      ...transaction.items.map(item => item.giftCardCode),
+      ...transaction.tenders.filter(t => t.type === 'store_credit' && t.amount < 0).map(t => t.reference),
+    ].filter((code): code is string => !!code).map(code => this.normalizeCode(code));
+    const spent = transaction.tenders
+      .filter(t => t.type === 'store_credit' && t.amount > 0 && t.reference)
+      .map(t => this.normalizeCode(t.reference!));
+
+    const lines: GiftCardReceiptLine[] = [];
+    for (const code of Array.from(new Set([...issued, ...spent]))) {
+      lines.push({
+        code: issued.includes(code) ? this.formatCode(code) : this.maskCode(code),
+        balance: await this.getBalance(code),
+      });
+    }
+    return lines;
+  }
+
+  /**
+   * Outstanding balances on every card, the money owed to card holders
+   */
+  public async getLiabilityReport(): Promise<GiftCardLiabilityReport> {
+    authService.requirePermission('canViewReports');
+
+    let cards: GiftCard[];
+    let entries: GiftCardEntry[];
+    try {
+      [cards, entries] = await Promise.all([database.getGiftCards(), database.getGiftCardEntries()]);
+    } catch (error) {
+      console.error('Failed to load gift card liability:', error);
+      throw new Error('Failed to load gift card liability');
+    }
+
+    const byKind: GiftCardLiabilityReport['byKind'] = {
+      gift_card: { count: 0, balance: 0 },
+      store_credit: { count: 0, balance: 0 },
+    };
+    const outstanding: GiftCardLiabilityReport['cards'] = [];
+
+    for (const card of cards) {
+      // Entries come back newest first
+      const cardEntries = entries.filter(entry => entry.code === card.code);
+      const balance = sumEntries(cardEntries);
+      if (balance <= 0) {
+        continue;
+      }
+
+      outstanding.push({ card, balance, lastActivity: new Date(cardEntries[0]?.createdAt ?? card.createdAt) });
+      byKind[card.kind].count++;
+      byKind[card.kind].balance = roundCurrency(byKind[card.kind].balance + balance);
+    }
+
+    return {
+      asOf: new Date(),
+      cards: outstanding.sort((a, b) => b.balance - a.balance),
+      byKind,
+      totalOutstanding: roundCurrency(byKind.gift_card.balance + byKind.store_credit.balance),
+    };
+  }
+
+  private async saveCard(card: GiftCard): Promise<void> {
+    try {
+      await database.saveGiftCard(card);
+    } catch (error) {
+      console.error('Failed to save gift card:', error);
+      throw new Error('Failed to save gift card');
+    }
+  }
+
+  private async addEntry(
+    code: string,
+    type: GiftCardEntryType,
+    amount: number,
+    transaction: RetailTransaction
+  ): Promise<number> {
+    const balance = await this.getBalance(code);
+    const entry: GiftCardEntry = {
+      id: `giftcard-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      code,
+      type,
+      amount,
+      balance: roundCurrency(balance + amount),
+      transactionId: transaction.id,
+      userId: transaction.operatorId,
+      createdAt: new Date(),
+    };
+
+    try {
+      await database.saveGiftCardEntry(entry);
+    } catch (error) {
+      console.error('Failed to record gift card entry:', error);
+      throw new Error('Failed to update gift card balance');
+    }
+
+    console.log(`🎟️ Gift card ${this.maskCode(code)} ${type} $${amount.toFixed(2)}, balance $${entry.balance.toFixed(2)}`);
+    return entry.balance;
+  }
+
+  private async logAudit(action: string, userId: string | undefined, details: Record<string, unknown>): Promise<void> {
+    try {
+      await database.logAuditEvent(userId || null, action, 'gift_cards', details);
+    } catch (error) {
+      console.error('Failed to log gift card change:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const giftCardService = GiftCardService.getInstance();
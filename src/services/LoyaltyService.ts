@@ -0,0 +1,432 @@
+import { format } from 'date-fns';
+import { database } from '../stores/DatabaseFactory';
+import { LoyaltyEntryType, LoyaltyLedgerEntry, LoyaltyProgram, RetailTransaction, TenderType } from '../types';
+import { authService } from './AuthService';
+import { productService } from './ProductService';
+import { profileService } from './ProfileService';
+
+// Points earned and spent on one sale, and the balance after it
+export interface LoyaltySummary {
+  earned: number;
+  redeemed: number;
+  balance: number;
+}
+
+const DEFAULT_LOYALTY_PROGRAM: LoyaltyProgram = {
+  enabled: false,
+  pointsPerUnit: 1,
+  pointValue: 0.01,
+  minRedeemPoints: 0,
+};
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const tenderTotal = (transaction: RetailTransaction, types: TenderType[]): number =>
+  roundCurrency(
+    transaction.tenders
+      .filter(tender => types.includes(tender.type))
+      .reduce((sum, tender) => sum + tender.amount, 0)
+  );
+
+const loyaltyTenderTotal = (transaction: RetailTransaction): number => tenderTotal(transaction, ['loyalty_points']);
+
+// Points and gift card balances were earned on, or paid for, already
+const NON_EARNING_TENDERS: TenderType[] = ['loyalty_points', 'store_credit'];
+
+/**
+ * Loyalty points for customers attached to sales. Points are earned on the
+ * pre-tax amount by the program's rules (per currency unit, per category
+ * multiplier, bonus days) and spent as the 'loyalty_points' tender. Every
+ * change is a ledger entry with a running balance; redemptions and manual
+ * adjustments are also written to the audit log.
+ */
+export class LoyaltyService {
+  private static instance: LoyaltyService;
+
+  private constructor() {}
+
+  public static getInstance(): LoyaltyService {
+    if (!LoyaltyService.instance) {
+      LoyaltyService.instance = new LoyaltyService();
+    }
+    return LoyaltyService.instance;
+  }
+
+  public async getProgram(): Promise<LoyaltyProgram> {
+    try {
+      const business = await profileService.getBusinessSettings();
+      return { ...DEFAULT_LOYALTY_PROGRAM, ...business?.loyaltyProgram };
+    } catch (error) {
+      console.error('Failed to load loyalty program:', error);
+      return DEFAULT_LOYALTY_PROGRAM;
+    }
+  }
+
+  public async saveProgram(program: LoyaltyProgram): Promise<LoyaltyProgram> {
+    authService.requirePermission('canManageSettings');
+
+    if (!(program.pointsPerUnit >= 0)) {
+      throw new Error('Points per unit cannot be negative');
+    }
+    if (!(program.pointValue > 0)) {
+      throw new Error('Point value must be greater than zero');
+    }
+    const multipliers = [
+      ...Object.values(program.categoryMultipliers || {}),
+      ...(program.bonusDays || []).map(day => day.multiplier),
+    ];
+    if (multipliers.some(multiplier => !(multiplier >= 0))) {
+      throw new Error('Multipliers cannot be negative');
+    }
+
+    const saved: LoyaltyProgram = {
+      ...program,
+      minRedeemPoints: Math.max(0, Math.floor(program.minRedeemPoints || 0)),
+    };
+    try {
+      await profileService.updateBusinessSettings({ loyaltyProgram: saved });
+    } catch (error) {
+      console.error('Failed to save loyalty program:', error);
+      throw new Error('Failed to save loyalty program');
+    }
+
+    await this.logAudit('loyalty_program_updated', { ...saved });
+    return saved;
+  }
+
+  public async getBalance(customerId: string): Promise<number> {
+    const entries = await this.getHistory(customerId);
+    return entries.reduce((sum, entry) => sum + entry.points, 0);
+  }
+
+  /**
+   * Every change to the customer's points, newest first
+   */
+  public async getHistory(customerId: string): Promise<LoyaltyLedgerEntry[]> {
+    try {
+      return await database.getLoyaltyEntries(customerId);
+    } catch (error) {
+      console.error('Failed to load loyalty history:', error);
+      throw new Error('Failed to load loyalty points');
+    }
+  }
+
+  public pointsToAmount(points: number, program: LoyaltyProgram): number {
+    return roundCurrency(points * program.pointValue);
+  }
+
+  // Whole points needed to cover `amount`
+  public pointsForAmount(amount: number, program: LoyaltyProgram): number {
+    return Math.ceil(roundCurrency(amount) / program.pointValue - 1e-9);
+  }
+
+  /**
+   * Points the sale earns: the pre-tax amount of each line times the
+   * category multiplier, less the share paid with points or gift cards, times
+   * any bonus for the day. Gift cards sold on the sale earn nothing.
+   */
+  public async calculatePoints(transaction: RetailTransaction, program: LoyaltyProgram): Promise<number> {
+    if (!program.enabled || program.pointsPerUnit <= 0) {
+      return 0;
+    }
+
+    let base = 0;
+    for (const item of transaction.items.filter(line => !line.giftCardCode && line.productId !== 0)) {
+      const category = program.categoryMultipliers
+        ? (await productService.getProduct(item.productId))?.category
+        : undefined;
+      const multiplier = category ? program.categoryMultipliers?.[category] ?? 1 : 1;
+      base += Math.max(0, item.lineTotal.net) * program.pointsPerUnit * multiplier;
+    }
+
+    const grandTotal = transaction.totals.grandTotal;
+    const unearned = tenderTotal(transaction, NON_EARNING_TENDERS);
+    const share = grandTotal > 0 ? Math.max(0, (grandTotal - unearned) / grandTotal) : 0;
+
+    return Math.floor(base * share * this.getBonusMultiplier(new Date(transaction.timestamp), program) + 1e-9);
+  }
+
+  /**
+   * Throws unless the customer has enough points, and the program allows,
+   * paying `amount` with them
+   */
+  public async assertRedeemable(customerId: string | undefined, amount: number): Promise<void> {
+    if (!customerId) {
+      throw new Error('Attach a customer to pay with loyalty points');
+    }
+    const program = await this.getProgram();
+    if (!program.enabled) {
+      throw new Error('The loyalty program is turned off');
+    }
+
+    const points = this.pointsForAmount(amount, program);
+    const balance = await this.getBalance(customerId);
+    if (points > balance) {
+      throw new Error(`Not enough points: ${points} needed, ${balance} available`);
+    }
+    if (points < (program.minRedeemPoints || 0)) {
+      throw new Error(`At least ${program.minRedeemPoints} points must be redeemed at a time`);
+    }
+  }
+
+  /**
+   * Spend the points used as a tender on a sale. Checkout does this before
+   * the sale is saved so a failure stops the sale; a sale already redeemed
+   * is not charged again. Returns the points spent.
+   */
+  public async recordRedemption(transaction: RetailTransaction): Promise<number> {
+    const redeemedAmount = loyaltyTenderTotal(transaction);
+    if (!transaction.customerId || transaction.status !== 'completed' || redeemedAmount <= 0) {
+      return 0;
+    }
+
+    const customerId = transaction.customerId;
+    const history = await this.getHistory(customerId);
+    const existing = history.filter(entry => entry.transactionId === transaction.id && entry.type === 'redeem');
+    if (transaction.id && existing.length > 0) {
+      return -existing.reduce((sum, entry) => sum + entry.points, 0);
+    }
+
+    const program = await this.getProgram();
+    const redeemed = this.pointsForAmount(redeemedAmount, program);
+    const balance = await this.addEntry(
+      customerId,
+      'redeem',
+      -redeemed,
+      history.reduce((sum, entry) => sum + entry.points, 0),
+      { transactionId: transaction.id, userId: transaction.operatorId }
+    );
+    await this.logAudit('loyalty_points_redeemed', {
+      customerId,
+      transactionId: transaction.id,
+      points: redeemed,
+      amount: redeemedAmount,
+      balance,
+    });
+    return redeemed;
+  }
+
+  /**
+   * Undo recordRedemption for a sale that could not be saved
+   */
+  public async reverseRedemption(transaction: RetailTransaction): Promise<void> {
+    if (!transaction.customerId || !transaction.id) {
+      return;
+    }
+
+    const customerId = transaction.customerId;
+    const history = await this.getHistory(customerId);
+    const spent = -history
+      .filter(entry => entry.transactionId === transaction.id && (entry.type === 'redeem' || entry.type === 'reverse'))
+      .reduce((sum, entry) => sum + entry.points, 0);
+    if (spent <= 0) {
+      return;
+    }
+
+    const balance = await this.addEntry(
+      customerId,
+      'reverse',
+      spent,
+      history.reduce((sum, entry) => sum + entry.points, 0),
+      { transactionId: transaction.id, reason: `Sale ${transaction.id} not completed`, userId: transaction.operatorId }
+    );
+    await this.logAudit('loyalty_redemption_reversed', {
+      customerId,
+      transactionId: transaction.id,
+      points: spent,
+      balance,
+    });
+  }
+
+  /**
+   * Undo everything a voided sale did to the customer's points: points paid
+   * with come back and points it earned are taken back, as far as the balance
+   * allows
+   */
+  public async reverseSale(transaction: RetailTransaction): Promise<void> {
+    if (!transaction.customerId || !transaction.id) {
+      return;
+    }
+
+    const customerId = transaction.customerId;
+    const history = await this.getHistory(customerId);
+    const balance = history.reduce((sum, entry) => sum + entry.points, 0);
+    const net = history
+      .filter(entry => entry.transactionId === transaction.id)
+      .reduce((sum, entry) => sum + entry.points, 0);
+    const points = net > 0 ? -Math.min(net, Math.max(0, balance)) : -net;
+    if (points === 0) {
+      return;
+    }
+
+    const updated = await this.addEntry(customerId, 'reverse', points, balance, {
+      transactionId: transaction.id,
+      reason: `Sale ${transaction.id} voided`,
+      userId: transaction.operatorId,
+    });
+    await this.logAudit('loyalty_sale_reversed', {
+      customerId,
+      transactionId: transaction.id,
+      points,
+      balance: updated,
+    });
+  }
+
+  /**
+   * Post a completed sale: spend the points used as a tender, unless
+   * checkout already did, then credit the points it earned. Returns null for
+   * sales without a customer.
+   */
+  public async recordSale(transaction: RetailTransaction): Promise<LoyaltySummary | null> {
+    if (!transaction.customerId || transaction.status !== 'completed') {
+      return null;
+    }
+
+    const customerId = transaction.customerId;
+    const redeemed = await this.recordRedemption(transaction);
+    const program = await this.getProgram();
+    let balance = await this.getBalance(customerId);
+
+    const earned = await this.calculatePoints(transaction, program);
+    if (earned > 0) {
+      balance = await this.addEntry(customerId, 'earn', earned, balance, {
+        transactionId: transaction.id,
+        userId: transaction.operatorId,
+      });
+    }
+
+    if (earned > 0 || redeemed > 0) {
+      console.log(`⭐ Loyalty: ${customerId} earned ${earned}, redeemed ${redeemed}, balance ${balance}`);
+    }
+    return { earned, redeemed, balance };
+  }
+
+  /**
+   * Take back the points a returned part of a sale earned, and give back
+   * points refunded to the loyalty tender
+   */
+  public async recordReturn(refund: RetailTransaction, original: RetailTransaction): Promise<void> {
+    const customerId = original.customerId;
+    if (!customerId) {
+      return;
+    }
+
+    const program = await this.getProgram();
+    const history = await this.getHistory(customerId);
+    let balance = history.reduce((sum, entry) => sum + entry.points, 0);
+
+    // loyalty_points refund tenders are negative on the return
+    const refundedAmount = -loyaltyTenderTotal(refund);
+    if (refundedAmount > 0) {
+      const points = this.pointsForAmount(refundedAmount, program);
+      balance = await this.addEntry(customerId, 'reverse', points, balance, {
+        transactionId: refund.id,
+        reason: `Points refunded on return ${refund.id}`,
+        userId: refund.operatorId,
+      });
+    }
+
+    // Reversals are recorded against the original sale so they never exceed what it earned
+    const forOriginal = history.filter(entry => entry.transactionId === original.id);
+    const earned = forOriginal.filter(entry => entry.type === 'earn').reduce((sum, entry) => sum + entry.points, 0);
+    const reversed = -forOriginal.filter(entry => entry.type === 'reverse').reduce((sum, entry) => sum + entry.points, 0);
+    const share = original.totals.grandTotal > 0
+      ? Math.abs(refund.totals.grandTotal) / original.totals.grandTotal
+      : 0;
+    const points = Math.min(Math.round(earned * share), earned - reversed, Math.max(0, balance));
+
+    if (points > 0) {
+      await this.addEntry(customerId, 'reverse', -points, balance, {
+        transactionId: original.id,
+        reason: `Return ${refund.id}`,
+        userId: refund.operatorId,
+      });
+    }
+  }
+
+  /**
+   * Manual correction by a manager, e.g. goodwill points or a fix
+   */
+  public async adjustPoints(customerId: string, points: number, reason: string): Promise<number> {
+    authService.requirePermission('canManageSettings');
+
+    if (!Number.isInteger(points) || points === 0) {
+      throw new Error('Enter a whole number of points');
+    }
+    if (!reason.trim()) {
+      throw new Error('A reason is required for point adjustments');
+    }
+    const balance = await this.getBalance(customerId);
+    if (balance + points < 0) {
+      throw new Error(`Only ${balance} points can be removed`);
+    }
+
+    const operator = await authService.getCurrentUser();
+    const updated = await this.addEntry(customerId, 'adjust', points, balance, {
+      reason: reason.trim(),
+      userId: operator?.id,
+    });
+    await this.logAudit('loyalty_points_adjusted', { customerId, points, reason: reason.trim(), balance: updated });
+    return updated;
+  }
+
+  /**
+   * What a sale did to the customer's points, for receipts
+   */
+  public async getTransactionSummary(customerId: string, transactionId: string): Promise<LoyaltySummary> {
+    const history = await this.getHistory(customerId);
+    const entries = history.filter(entry => entry.transactionId === transactionId);
+
+    return {
+      earned: entries.filter(entry => entry.type === 'earn').reduce((sum, entry) => sum + entry.points, 0),
+      redeemed: entries.filter(entry => entry.type === 'redeem').reduce((sum, entry) => sum - entry.points, 0),
+      balance: history.reduce((sum, entry) => sum + entry.points, 0),
+    };
+  }
+
+  // The highest bonus that applies on `date`, or 1
+  private getBonusMultiplier(date: Date, program: LoyaltyProgram): number {
+    const day = format(date, 'yyyy-MM-dd');
+    return (program.bonusDays || [])
+      .filter(bonus => bonus.date === day || bonus.weekday === date.getDay())
+      .reduce((best, bonus) => Math.max(best, bonus.multiplier), 1);
+  }
+
+  private async addEntry(
+    customerId: string,
+    type: LoyaltyEntryType,
+    points: number,
+    balance: number,
+    details: Pick<LoyaltyLedgerEntry, 'transactionId' | 'reason' | 'userId'>
+  ): Promise<number> {
+    const entry: LoyaltyLedgerEntry = {
+      id: `loyalty-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      customerId,
+      type,
+      points,
+      balance: balance + points,
+      ...details,
+      createdAt: new Date(),
+    };
+
+    try {
+      await database.saveLoyaltyEntry(entry);
+    } catch (error) {
+      console.error('Failed to record loyalty points:', error);
+      throw new Error('Failed to record loyalty points');
+    }
+    return entry.balance;
+  }
+
+  private async logAudit(action: string, details: Record<string, unknown>): Promise<void> {
+    try {
+      const currentUser = await authService.getCurrentUser();
+      await database.logAuditEvent(currentUser?.id || null, action, 'loyalty', details);
+    } catch (error) {
+      console.error('Failed to log loyalty change:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const loyaltyService = LoyaltyService.getInstance();
@@ -0,0 +1,235 @@
+import { database } from '../stores/DatabaseFactory';
+import { User, UserPermissions } from '../types';
+import { authService } from './AuthService';
+
+export interface ManagerCredentials {
+  username: string;
+  password: string; // register PIN or password
+  totpCode?: string; // authenticator or recovery code, for managers with two-factor on
+}
+
+// One restricted action the operator is asking a manager to allow
+export interface OverrideRequest {
+  permission: keyof UserPermissions;
+  action: string; // e.g. 'refund', 'discount', 'void'
+  amount?: number;
+  reference?: string; // sale, return or cart the action applies to
+  reason?: string;
+  details?: Record<string, unknown>; // extra context for the audit log
+}
+
+export interface OverrideApproval {
+  id: string;
+  permission: keyof UserPermissions;
+  action: string;
+  amount?: number;
+  reference?: string;
+  approvedBy: string;
+  approverName: string;
+  requestedBy?: string;
+  approvedAt: string;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// An approval is for the action at hand, not to be saved up for later
+const APPROVAL_TTL_MS = 15 * 60 * 1000;
+const APPROVAL_USED = 'manager_override_used';
+
+/**
+ * Inline manager approval for actions the signed-in operator's role does not
+ * allow. A manager enters their PIN or password at the register, and the
+ * approval they grant covers exactly one action: the permission, the action
+ * name and at most the approved amount. Approvals and denials both go to the
+ * audit log with the approver, requester, action and amount.
+ */
+export class ManagerOverrideService {
+  private static instance: ManagerOverrideService;
+  private usedApprovals = new Set<string>();
+
+  private constructor() {}
+
+  public static getInstance(): ManagerOverrideService {
+    if (!ManagerOverrideService.instance) {
+      ManagerOverrideService.instance = new ManagerOverrideService();
+    }
+    return ManagerOverrideService.instance;
+  }
+
+  /**
+   * Whether the signed-in operator needs a manager for this permission
+   */
+  public requiresOverride(permission: keyof UserPermissions): boolean {
+    return !authService.hasPermission(permission);
+  }
+
+  /**
+   * Check the manager's credentials and grant a single-use approval
+   */
+  public async requestOverride(
+    request: OverrideRequest,
+    manager: ManagerCredentials
+  ): Promise<OverrideApproval> {
+    const requester = await authService.getCurrentUser();
+    const approver = manager.username.trim()
+      ? await authService.verifyCredentials(manager.username.trim(), manager.password, manager.totpCode)
+      : null;
+
+    if (!approver) {
+      await this.logOverride('manager_override_denied', null, requester, request, {
+        attemptedUsername: manager.username.trim(),
+        denialReason: 'invalid_credentials',
+      });
+      throw new Error('Manager approval failed');
+    }
+    if (requester && approver.id === requester.id) {
+      await this.logOverride('manager_override_denied', approver, requester, request, {
+        denialReason: 'self_approval',
+      });
+      throw new Error('A different user must approve the override');
+    }
+    if (!authService.getPermissionsForUser(approver)[request.permission]) {
+      await this.logOverride('manager_override_denied', approver, requester, request, {
+        denialReason: 'not_permitted',
+      });
+      throw new Error(`${approver.firstName} is not allowed to approve this`);
+    }
+
+    const approval: OverrideApproval = {
+      id: `override_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      permission: request.permission,
+      action: request.action,
+      amount: request.amount !== undefined ? roundCurrency(request.amount) : undefined,
+      reference: request.reference,
+      approvedBy: approver.id,
+      approverName: `${approver.firstName} ${approver.lastName}`.trim(),
+      requestedBy: requester?.id,
+      approvedAt: new Date().toISOString(),
+    };
+
+    await this.logOverride('manager_override_approved', approver, requester, request, {
+      approvalId: approval.id,
+    });
+    console.log(`🔑 ${approval.approverName} approved ${request.action} for ${requester?.username || 'unknown'}`);
+    return approval;
+  }
+
+  /**
+   * Guard for restricted actions: passes if the operator holds the permission,
+   * otherwise consumes a matching, unused approval. Returns the approver's id
+   * when an approval was used.
+   */
+  public assertAuthorized(
+    permission: keyof UserPermissions,
+    action: string,
+    approval?: OverrideApproval,
+    amount?: number
+  ): string | undefined {
+    const approvedBy = this.checkAuthorized(permission, action, approval, amount);
+    if (approval && approvedBy) {
+      this.usedApprovals.add(approval.id);
+      // The audit log remembers it across restarts
+      this.recordUse(approval, amount);
+    }
+    return approvedBy;
+  }
+
+  /**
+   * Reload the approvals used before the app started from the audit log, so
+   * a restart can't make one usable again. Older ones have expired anyway.
+   */
+  public async loadUsedApprovals(): Promise<void> {
+    try {
+      const { entries } = await database.queryAuditLogs({
+        action: APPROVAL_USED,
+        resource: 'manager_override',
+        from: new Date(Date.now() - APPROVAL_TTL_MS),
+        limit: 1000,
+      });
+      entries
+        .map(entry => entry.details?.approvalId)
+        .filter((id): id is string => typeof id === 'string')
+        .forEach(id => this.usedApprovals.add(id));
+    } catch (error) {
+      console.error('Failed to load used manager approvals:', error);
+    }
+  }
+
+  /**
+   * Same checks as assertAuthorized without using up the approval, for
+   * actions that consume it only once their writes have succeeded
+   */
+  public checkAuthorized(
+    permission: keyof UserPermissions,
+    action: string,
+    approval?: OverrideApproval,
+    amount?: number
+  ): string | undefined {
+    if (!this.requiresOverride(permission)) {
+      return undefined;
+    }
+
+    if (!approval || approval.permission !== permission || approval.action !== action) {
+      throw new Error('Manager approval required');
+    }
+    if (this.usedApprovals.has(approval.id)) {
+      throw new Error('This manager approval has already been used');
+    }
+    if (!(Date.now() - new Date(approval.approvedAt).getTime() <= APPROVAL_TTL_MS)) {
+      throw new Error('This manager approval has expired');
+    }
+    // Amounts shown at the register are estimates, so allow a cent of rounding
+    if (
+      amount !== undefined &&
+      approval.amount !== undefined &&
+      roundCurrency(Math.abs(amount)) > roundCurrency(Math.abs(approval.amount) + 0.01)
+    ) {
+      throw new Error(`Manager approval covers up to $${Math.abs(approval.amount).toFixed(2)}`);
+    }
+
+    return approval.approvedBy;
+  }
+
+  private async recordUse(approval: OverrideApproval, amount?: number): Promise<void> {
+    try {
+      await database.logAuditEvent(approval.approvedBy, APPROVAL_USED, 'manager_override', {
+        approvalId: approval.id,
+        approvedBy: approval.approvedBy,
+        requestedBy: approval.requestedBy || null,
+        permission: approval.permission,
+        overrideAction: approval.action,
+        amount,
+        reference: approval.reference,
+      });
+    } catch (error) {
+      console.error('Failed to log manager override use:', error);
+    }
+  }
+
+  private async logOverride(
+    action: string,
+    approver: User | null,
+    requester: User | null,
+    request: OverrideRequest,
+    details: Record<string, unknown> = {}
+  ): Promise<void> {
+    try {
+      await database.logAuditEvent(approver?.id || null, action, 'manager_override', {
+        approvedBy: approver?.id || null,
+        requestedBy: requester?.id || null,
+        permission: request.permission,
+        overrideAction: request.action,
+        amount: request.amount,
+        reference: request.reference,
+        reason: request.reason,
+        ...request.details,
+        ...details,
+      });
+    } catch (error) {
+      console.error('Failed to log manager override:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const managerOverrideService = ManagerOverrideService.getInstance();
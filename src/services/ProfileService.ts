@@ -5,6 +5,7 @@ import {
   UpdateUserProfileInput,
   UpdateBusinessSettingsInput
 } from '../types';
+import { authService } from './AuthService';
 
 class ProfileService {
   private static instance: ProfileService;
@@ -118,6 +119,11 @@ class ProfileService {
         taxRate: settings.taxRate || 0.08,
         timezone: settings.timezone || 'UTC',
         language: settings.language || 'en',
+        heldCartExpiryHours: settings.heldCartExpiryHours ?? 24,
+        idleLockMinutes: settings.idleLockMinutes ?? 5,
+        loginMaxAttempts: settings.loginMaxAttempts ?? 5,
+        loginDeviceMaxAttempts: settings.loginDeviceMaxAttempts ?? 20,
+        loginLockoutMinutes: settings.loginLockoutMinutes ?? 15,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -174,10 +180,7 @@ class ProfileService {
   // Password Management
   async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<boolean> {
     try {
-      // This would typically involve the AuthService for password validation
-      // For now, we'll just return true as a placeholder
-      console.log(`Password change requested for user ${userId}`);
-      return true;
+      return await authService.changePassword(userId, currentPassword, newPassword);
     } catch (error) {
       console.error('Failed to change password:', error);
       throw error;
@@ -0,0 +1,224 @@
+import { format } from 'date-fns';
+import { database } from '../stores/DatabaseFactory';
+import { CartItem, Product, RetailTransaction } from '../types';
+import { DocumentLineItem, Invoice, Quote } from '../types/documents';
+import { authService } from './AuthService';
+import { customerService } from './CustomerService';
+import { documentService } from './DocumentService';
+import { productService } from './ProductService';
+import { taxService } from './TaxService';
+
+export interface QuoteLineInput {
+  productId: number;
+  quantity: number;
+}
+
+/**
+ * Quotes (estimates) for B2B customers. A quote prices products at list
+ * price with today's tax, and holds those prices until it expires. Accepting
+ * it either loads it into the register cart, linked to the sale once paid,
+ * or raises an invoice that references the quote.
+ */
+export class QuoteService {
+  private static instance: QuoteService;
+
+  private constructor() {}
+
+  public static getInstance(): QuoteService {
+    if (!QuoteService.instance) {
+      QuoteService.instance = new QuoteService();
+    }
+    return QuoteService.instance;
+  }
+
+  public async createQuote(input: {
+    lines: QuoteLineInput[];
+    customerId?: string;
+    notes?: string;
+    validUntil?: Date;
+  }): Promise<Quote> {
+    authService.requirePermission('canProcessSales');
+
+    if (input.lines.length === 0) {
+      throw new Error('Add at least one product to the quote');
+    }
+    if (input.lines.some(line => !(line.quantity > 0))) {
+      throw new Error('Quantities must be greater than zero');
+    }
+    if (input.validUntil && input.validUntil.getTime() <= Date.now()) {
+      throw new Error('The validity date must be in the future');
+    }
+
+    const customer = input.customerId ? await customerService.getCustomer(input.customerId) : null;
+    if (input.customerId && !customer) {
+      throw new Error('Customer not found');
+    }
+
+    const products: Product[] = [];
+    for (const line of input.lines) {
+      const product = await productService.getProduct(line.productId);
+      if (!product) {
+        throw new Error(`Product ${line.productId} not found`);
+      }
+      products.push(product);
+    }
+
+    // Same tax rules as the register, so the quote matches the sale
+    const settings = await taxService.loadSettings();
+    const taxed = taxService.calculate(
+      input.lines.map((line, idx) => ({
+        amount: Math.round(products[idx].price * line.quantity * 100) / 100,
+        taxRate: products[idx].tax_rate,
+        taxClassId: products[idx].tax_class_id || undefined,
+      })),
+      { exempt: !!(customer?.taxExempt && customer.taxExemptionId), settings }
+    );
+
+    const lineItems: DocumentLineItem[] = input.lines.map((line, idx) => {
+      const product = products[idx];
+      const taxedLine = taxed.lines[idx];
+      return {
+        id: `line_${Date.now()}_${idx + 1}`,
+        productId: product.id,
+        description: product.name,
+        quantity: line.quantity,
+        unitPrice: product.price,
+        taxRate: taxedLine.taxes.reduce((sum, tax) => sum + tax.rate, 0),
+        taxAmount: taxedLine.tax,
+        discount: 0,
+        subtotal: taxedLine.net,
+        total: taxedLine.gross,
+        sku: product.sku,
+      };
+    });
+
+    const result = await documentService.generateQuote({
+      lineItems,
+      customerInfo: customer ? customerService.toCustomerInfo(customer) : undefined,
+      customerId: customer?.id,
+      notes: input.notes?.trim() || undefined,
+      validUntil: input.validUntil,
+    });
+    const quote = result.success ? await documentService.getQuote(result.documentId) : null;
+    if (!quote) {
+      throw new Error(result.error || 'Failed to create quote');
+    }
+
+    await this.logAudit('quote_created', {
+      quoteNumber: quote.documentNumber,
+      customerId: quote.customerId,
+      total: quote.grandTotal,
+      validUntil: quote.validUntil.toISOString(),
+    });
+    return quote;
+  }
+
+  /**
+   * Every quote, newest first
+   */
+  public async getQuotes(): Promise<Quote[]> {
+    return documentService.getAllQuotes();
+  }
+
+  /**
+   * Cart lines for an open quote at the quoted prices. The quote is marked
+   * accepted when the sale is paid (see `recordSale`).
+   */
+  public async convertToCart(quoteId: string): Promise<{ quote: Quote; items: CartItem[] }> {
+    authService.requirePermission('canProcessSales');
+    const quote = await this.requireOpenQuote(quoteId);
+
+    const items: CartItem[] = [];
+    for (const [idx, line] of quote.lineItems.entries()) {
+      const product = line.productId ? await productService.getProduct(line.productId) : null;
+      if (!product) {
+        throw new Error(`${line.description} is no longer available`);
+      }
+      items.push({
+        id: `${product.id}_${Date.now()}_${idx + 1}`,
+        productId: product.id,
+        name: product.name,
+        sku: product.sku,
+        price: line.unitPrice,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        description: product.name,
+        taxRate: product.tax_rate,
+        taxClassId: product.tax_class_id || undefined,
+      });
+    }
+    return { quote, items };
+  }
+
+  /**
+   * Link a sale rung up from a quote back to it
+   */
+  public async recordSale(quoteId: string, sale: RetailTransaction): Promise<Quote> {
+    const quote = await documentService.markQuoteAccepted(quoteId, { type: 'sale', id: sale.id || '' });
+    await this.logAudit('quote_accepted', {
+      quoteNumber: quote.documentNumber,
+      convertedTo: 'sale',
+      transactionId: sale.id,
+    });
+    return quote;
+  }
+
+  /**
+   * Accept an open quote as an invoice at the quoted prices
+   */
+  public async convertToInvoice(quoteId: string): Promise<Invoice> {
+    authService.requirePermission('canProcessSales');
+    const quote = await this.requireOpenQuote(quoteId);
+
+    const result = await documentService.generateInvoiceFromQuote(quote);
+    const invoice = result.success ? await documentService.getInvoice(result.documentId) : null;
+    if (!invoice) {
+      throw new Error(result.error || 'Failed to create invoice');
+    }
+
+    await documentService.markQuoteAccepted(quote.id, {
+      type: 'invoice',
+      id: invoice.id,
+      documentNumber: invoice.documentNumber,
+    });
+    await this.logAudit('quote_accepted', {
+      quoteNumber: quote.documentNumber,
+      convertedTo: 'invoice',
+      invoiceNumber: invoice.documentNumber,
+    });
+    return invoice;
+  }
+
+  /**
+   * The quote, if it can still be accepted; throws when it has been accepted,
+   * has expired or was cancelled
+   */
+  public async requireOpenQuote(quoteId: string): Promise<Quote> {
+    const quote = await documentService.getQuote(quoteId);
+    if (!quote) {
+      throw new Error('Quote not found');
+    }
+    switch (quote.status) {
+      case 'accepted':
+        throw new Error(`Quote ${quote.documentNumber} has already been accepted`);
+      case 'expired':
+        throw new Error(`Quote ${quote.documentNumber} expired on ${format(quote.validUntil, 'MMM d, yyyy')}`);
+      case 'cancelled':
+        throw new Error(`Quote ${quote.documentNumber} was cancelled`);
+      default:
+        return quote;
+    }
+  }
+
+  private async logAudit(action: string, details: Record<string, unknown>): Promise<void> {
+    try {
+      const currentUser = await authService.getCurrentUser();
+      await database.logAuditEvent(currentUser?.id || null, action, 'quotes', details);
+    } catch (error) {
+      console.error('Failed to log quote change:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const quoteService = QuoteService.getInstance();
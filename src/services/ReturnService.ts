@@ -0,0 +1,382 @@
+import { database } from '../stores/DatabaseFactory';
+import { generateTransactionId, summarizeTenders } from '../stores/TransactionLedger';
+import {
+  RetailTransaction,
+  ReturnDisposition,
+  SaleLineItem,
+  TenderLineItem,
+  TenderType,
+} from '../types';
+import { DocumentGenerationResult } from '../types/documents';
+import { rollBack, UndoStep } from '../utils/rollback';
+import { accountsReceivableService } from './AccountsReceivableService';
+import { authService } from './AuthService';
+import { documentService } from './DocumentService';
+import { giftCardService } from './GiftCardService';
+import { inventoryService } from './InventoryService';
+import { loyaltyService } from './LoyaltyService';
+import { managerOverrideService, OverrideApproval } from './ManagerOverrideService';
+import { productService } from './ProductService';
+import { salesService } from './SalesService';
+
+export interface ReturnLineRequest {
+  lineNumber: number; // line on the original sale
+  quantity: number; // units coming back, always positive
+  disposition: ReturnDisposition;
+}
+
+export interface ReturnRequest {
+  originalTransactionId: string;
+  lines: ReturnLineRequest[];
+  // Tender to pay the whole refund back on; defaults to the original tenders
+  refundTo?: TenderType;
+  reason: string;
+  // Manager sign-off when the operator cannot refund on their own
+  approval?: OverrideApproval;
+}
+
+export interface ReturnableLine {
+  item: SaleLineItem;
+  returnedQuantity: number;
+  returnableQuantity: number;
+}
+
+export interface ReturnResult {
+  transaction: RetailTransaction;
+  receipt: DocumentGenerationResult;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Full and partial returns against sales in the ledger. A return is recorded
+ * as its own transaction with status 'returned', negative quantities and
+ * amounts, and `originalTransactionId` pointing at the sale. The original
+ * sale is never modified, so revenue and stock reports simply net the two.
+ */
+export class ReturnService {
+  private static instance: ReturnService;
+
+  private constructor() {}
+
+  public static getInstance(): ReturnService {
+    if (!ReturnService.instance) {
+      ReturnService.instance = new ReturnService();
+    }
+    return ReturnService.instance;
+  }
+
+  /**
+   * Returns already recorded against a sale
+   */
+  public async getReturns(originalTransactionId: string): Promise<RetailTransaction[]> {
+    return salesService.getTransactions({ originalTransactionId, status: 'returned' });
+  }
+
+  /**
+   * Lines of a sale with the quantity still available to return
+   */
+  public async getReturnableLines(original: RetailTransaction): Promise<ReturnableLine[]> {
+    const returns = original.id ? await this.getReturns(original.id) : [];
+
+    return original.items.map(item => {
+      const returnedQuantity = this.returnedLines(returns, item.lineNumber)
+        .reduce((sum, line) => sum - line.quantity, 0);
+
+      return {
+        item,
+        returnedQuantity,
+        // Money on a gift card is refunded by spending it, not by returning the card
+        returnableQuantity: item.giftCardCode ? 0 : Math.max(0, item.quantity - returnedQuantity),
+      };
+    });
+  }
+
+  /**
+   * Price the requested lines against the original sale. Amounts are negative;
+   * returning the last units of a line refunds exactly what is left of it.
+   */
+  public async buildReturnItems(
+    original: RetailTransaction,
+    lines: ReturnLineRequest[]
+  ): Promise<SaleLineItem[]> {
+    const returns = original.id ? await this.getReturns(original.id) : [];
+    const returnable = await this.getReturnableLines(original);
+
+    return lines.map((line, idx) => {
+      const entry = returnable.find(r => r.item.lineNumber === line.lineNumber);
+      if (!entry) {
+        throw new Error(`Line ${line.lineNumber} is not on the original sale`);
+      }
+      if (entry.item.giftCardCode) {
+        throw new Error('Gift cards cannot be returned');
+      }
+      if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+        throw new Error('Return quantities must be whole numbers greater than zero');
+      }
+      if (line.quantity > entry.returnableQuantity) {
+        throw new Error(
+          `Only ${entry.returnableQuantity} of ${entry.item.name} can still be returned`
+        );
+      }
+
+      const { item } = entry;
+      let net: number;
+      let tax: number;
+      if (line.quantity === entry.returnableQuantity) {
+        const previous = this.returnedLines(returns, item.lineNumber);
+        net = roundCurrency(item.lineTotal.net + previous.reduce((sum, l) => sum + l.lineTotal.net, 0));
+        tax = roundCurrency(item.lineTotal.tax + previous.reduce((sum, l) => sum + l.lineTotal.tax, 0));
+      } else {
+        const ratio = line.quantity / item.quantity;
+        net = roundCurrency(item.lineTotal.net * ratio);
+        tax = roundCurrency(item.lineTotal.tax * ratio);
+      }
+
+      return {
+        lineNumber: idx + 1,
+        productId: item.productId,
+        sku: item.sku,
+        description: item.description,
+        name: item.name,
+        quantity: -line.quantity,
+        unitPrice: item.unitPrice,
+        price: item.price,
+        discounts: [],
+        taxes: (item.taxes || []).map(component => ({
+          ...component,
+          amount: -roundCurrency(component.amount * line.quantity / item.quantity),
+        })),
+        lineTotal: { net: -net, tax: -tax, gross: -roundCurrency(net + tax) },
+        originalLineNumber: item.lineNumber,
+        disposition: line.disposition,
+      };
+    });
+  }
+
+  /**
+   * Refund `amount` back to the tenders the customer paid with: non-cash
+   * tenders first, up to what each one paid less what earlier `returns`
+   * already refunded to it, and whatever is left as cash
+   */
+  public getOriginalTenderRefunds(
+    original: RetailTransaction,
+    amount: number,
+    returns: RetailTransaction[] = []
+  ): TenderLineItem[] {
+    const refunds: TenderLineItem[] = [];
+    let remaining = roundCurrency(amount);
+
+    // Refund tenders are negative on the returns
+    const tenderKey = (tender: TenderLineItem) => `${tender.type}:${tender.reference || ''}`;
+    const refunded = new Map<string, number>();
+    for (const tender of returns.flatMap(r => r.tenders).filter(t => t.amount < 0)) {
+      const key = tenderKey(tender);
+      refunded.set(key, roundCurrency((refunded.get(key) || 0) - tender.amount));
+    }
+
+    const nonCash = original.tenders.filter(t => t.type !== 'cash' && t.amount > 0);
+    for (const tender of nonCash) {
+      if (remaining <= 0) {
+        break;
+      }
+      // Two tenders of the same type and reference share what was refunded, in order
+      const key = tenderKey(tender);
+      const alreadyRefunded = Math.min(refunded.get(key) || 0, tender.amount);
+      refunded.set(key, roundCurrency((refunded.get(key) || 0) - alreadyRefunded));
+
+      const refund = Math.min(remaining, roundCurrency(tender.amount - alreadyRefunded));
+      if (refund <= 0) {
+        continue;
+      }
+      refunds.push({ type: tender.type, amount: refund, reference: tender.reference });
+      remaining = roundCurrency(remaining - refund);
+    }
+
+    if (remaining > 0) {
+      refunds.push({ type: 'cash', amount: remaining });
+    }
+
+    return refunds;
+  }
+
+  /**
+   * Record a return, move stock, and produce the refund receipt. The refund
+   * tenders, ledger entry and stock are written together: if any of them
+   * fails the others are put back and the manager approval is left unused.
+   */
+  public async processReturn(request: ReturnRequest): Promise<ReturnResult> {
+    if (!request.reason || !request.reason.trim()) {
+      throw new Error('A reason is required for returns');
+    }
+    if (request.lines.length === 0) {
+      throw new Error('Select at least one item to return');
+    }
+
+    const original = await salesService.getTransaction(request.originalTransactionId);
+    if (!original) {
+      throw new Error('Original sale not found');
+    }
+    if (original.status !== 'completed') {
+      throw new Error(`Cannot return a sale that is ${original.status}`);
+    }
+
+    const items = await this.buildReturnItems(original, request.lines);
+    const extended = roundCurrency(items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0));
+    const net = roundCurrency(items.reduce((sum, item) => sum + item.lineTotal.net, 0));
+    const tax = roundCurrency(items.reduce((sum, item) => sum + item.lineTotal.tax, 0));
+    const refundTotal = -roundCurrency(net + tax);
+    // Checked now, used up only once the return is saved
+    managerOverrideService.checkAuthorized('canRefundSales', 'refund', request.approval, refundTotal);
+    // With tax-inclusive prices the extended amount already contains the tax
+    const inclusive = !!original.totals.taxInclusive;
+
+    const returns = original.id ? await this.getReturns(original.id) : [];
+    if (request.refundTo) {
+      // A single tender can give back at most what it took, less earlier refunds to it
+      const available = roundCurrency(summarizeTenders([original, ...returns])[request.refundTo]?.amount || 0);
+      if (refundTotal > available) {
+        throw new Error(`Only $${Math.max(0, available).toFixed(2)} can be refunded to ${request.refundTo}`);
+      }
+    }
+    const refundTenders = await accountsReceivableService.limitAccountRefunds(original, (request.refundTo
+      ? [{ type: request.refundTo, amount: refundTotal }]
+      : this.getOriginalTenderRefunds(original, refundTotal, returns)
+    ).map(tender => (
+      // Store credit goes back on the card that paid, or onto a new one
+      tender.type === 'store_credit' && !tender.reference
+        ? { ...tender, reference: giftCardService.generateCode() }
+        : tender
+    )));
+
+    const operator = await authService.getCurrentUser();
+    const now = new Date();
+    const returnTransaction: RetailTransaction = {
+      // Assigned up front so store and account credit written before the save point at it
+      id: generateTransactionId(),
+      businessDate: now.toISOString().slice(0, 10),
+      startTime: now.toISOString(),
+      endTime: now.toISOString(),
+      timestamp: now,
+      status: 'returned',
+      customerId: original.customerId,
+      operatorId: operator?.id,
+      items,
+      tenders: refundTenders.map((tender, idx) => ({ ...tender, id: `${idx + 1}`, amount: -tender.amount })),
+      totals: {
+        subTotal: extended,
+        discountTotal: roundCurrency(extended - net - (inclusive ? tax : 0)),
+        taxTotal: tax,
+        grandTotal: roundCurrency(net + tax),
+        currency: original.totals.currency,
+        taxInclusive: original.totals.taxInclusive,
+      },
+      notes: request.reason.trim(),
+      originalTransactionId: original.id,
+    };
+
+    const undo: UndoStep[] = [];
+    let saved: RetailTransaction;
+    let approvedBy: string | undefined;
+    try {
+      undo.push(() => giftCardService.reverseTransaction(returnTransaction));
+      await giftCardService.recordReturn(returnTransaction);
+      undo.push(() => accountsReceivableService.reverseReturnCredit(returnTransaction));
+      await accountsReceivableService.creditReturn(returnTransaction);
+
+      saved = await salesService.recordTransaction(returnTransaction, { adjustStock: false });
+      undo.push(() => salesService.discardTransaction(saved.id!));
+      await this.restock(saved, undo);
+
+      approvedBy = managerOverrideService.assertAuthorized('canRefundSales', 'refund', request.approval, refundTotal);
+    } catch (error) {
+      await rollBack(undo);
+      console.error('Failed to process return:', error);
+      throw new Error('Failed to process return');
+    }
+
+    // The return stands from here on; what follows is bookkeeping
+    await this.logStockMovements(saved, operator?.id || 'system');
+
+    try {
+      await loyaltyService.recordReturn(saved, original);
+    } catch (error) {
+      console.error('Failed to reverse loyalty points:', error);
+    }
+
+    try {
+      await database.logAuditEvent(operator?.id || null, 'sale_returned', 'sales', {
+        returnId: saved.id,
+        originalTransactionId: original.id,
+        amount: refundTotal,
+        tenders: refundTenders.map(tender => tender.type),
+        reason: saved.notes,
+        approvedBy,
+      });
+    } catch (error) {
+      console.error('Failed to log return:', error);
+    }
+
+    let receipt: DocumentGenerationResult;
+    try {
+      receipt = await documentService.generateRefundReceipt(saved);
+    } catch (error) {
+      console.error('Failed to generate refund receipt:', error);
+      receipt = { success: false, documentId: '', error: 'Failed to generate refund receipt' };
+    }
+
+    console.log(`↩️ Return ${saved.id} recorded against ${original.id}: $${refundTotal.toFixed(2)}`);
+    return { transaction: saved, receipt };
+  }
+
+  // Restocked goods go back on the shelf; written-off goods never reach it.
+  // Each update registers the undo that puts the previous count back.
+  private async restock(refund: RetailTransaction, undo: UndoStep[]): Promise<void> {
+    for (const item of refund.items.filter(line => line.disposition !== 'write_off')) {
+      const product = await productService.getProduct(item.productId);
+      if (!product) {
+        console.warn(`Warning: Product ${item.productId} not found, stock not restored`);
+        continue;
+      }
+      undo.push(async () => {
+        await productService.updateStock(product.id, product.stock_qty);
+      });
+      await productService.updateStock(product.id, product.stock_qty + Math.abs(item.quantity));
+    }
+  }
+
+  // Written-off goods come back in and straight out as damage
+  private async logStockMovements(refund: RetailTransaction, userId: string): Promise<void> {
+    for (const item of refund.items) {
+      const quantity = Math.abs(item.quantity);
+      const productId = String(item.productId);
+
+      await inventoryService.logStockMovement({
+        productId,
+        movementType: 'return',
+        quantity,
+        referenceId: refund.id,
+        userId,
+        notes: refund.notes,
+      });
+
+      if (item.disposition === 'write_off') {
+        await inventoryService.logStockMovement({
+          productId,
+          movementType: 'damage',
+          quantity: -quantity,
+          referenceId: refund.id,
+          userId,
+          notes: `Written off on return: ${refund.notes || ''}`.trim(),
+        });
+      }
+    }
+  }
+
+  private returnedLines(returns: RetailTransaction[], lineNumber: number): SaleLineItem[] {
+    return returns.flatMap(r => r.items.filter(item => item.originalLineNumber === lineNumber));
+  }
+}
+
+// Export singleton instance
+export const returnService = ReturnService.getInstance();
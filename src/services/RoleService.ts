@@ -0,0 +1,179 @@
+import { database } from '../stores/DatabaseFactory';
+import { Role, User, UserPermissions } from '../types';
+import { authService } from './AuthService';
+
+export interface SaveRoleInput {
+  id?: string;
+  name: string;
+  description?: string;
+  permissions: UserPermissions;
+}
+
+// The admin role keeps every permission so the store can never lock itself out
+const LOCKED_ROLE_ID = 'admin';
+
+const slugify = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+/**
+ * Roles and the permission matrix. Roles live in the database, each with its
+ * own set of permissions; the built-in admin, manager and cashier roles can be
+ * edited (except admin) but not deleted. Users can also carry per-user
+ * overrides on top of their role. Every change is audited and applied to the
+ * signed-in session straight away.
+ */
+export class RoleService {
+  private static instance: RoleService;
+
+  private constructor() {}
+
+  public static getInstance(): RoleService {
+    if (!RoleService.instance) {
+      RoleService.instance = new RoleService();
+    }
+    return RoleService.instance;
+  }
+
+  public async getRoles(): Promise<Role[]> {
+    try {
+      return await database.getRoles();
+    } catch (error) {
+      console.error('Failed to get roles:', error);
+      throw new Error('Failed to load roles');
+    }
+  }
+
+  /**
+   * Create a role, or update one when `input.id` is given
+   */
+  public async saveRole(input: SaveRoleInput): Promise<Role> {
+    authService.requirePermission('canManageUsers');
+
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('Role name is required');
+    }
+    if (input.id === LOCKED_ROLE_ID) {
+      throw new Error('The admin role always has every permission');
+    }
+
+    const roles = await this.getRoles();
+    const existing = input.id ? roles.find(role => role.id === input.id) : undefined;
+    if (input.id && !existing) {
+      throw new Error('Role not found');
+    }
+    if (roles.some(role => role.id !== existing?.id && role.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`A role named "${name}" already exists`);
+    }
+
+    let id = existing?.id || slugify(name) || `role_${Date.now()}`;
+    if (!existing && roles.some(role => role.id === id)) {
+      id = `${id}_${Date.now()}`;
+    }
+
+    const now = new Date();
+    const role: Role = {
+      id,
+      name,
+      description: input.description?.trim() || undefined,
+      permissions: { ...input.permissions },
+      isSystem: existing?.isSystem ?? false,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    try {
+      await database.saveRole(role);
+    } catch (error) {
+      console.error('Failed to save role:', error);
+      throw new Error('Failed to save role');
+    }
+
+    await this.logAudit(existing ? 'role_updated' : 'role_created', {
+      roleId: role.id,
+      name: role.name,
+      permissions: role.permissions,
+      previousPermissions: existing?.permissions,
+    });
+    await authService.refreshPermissions();
+    console.log(`🛡️ Role ${existing ? 'updated' : 'created'}: ${role.name}`);
+    return role;
+  }
+
+  /**
+   * Delete a custom role; built-in roles and roles still assigned to a user stay
+   */
+  public async deleteRole(id: string): Promise<void> {
+    authService.requirePermission('canManageUsers');
+
+    const role = (await this.getRoles()).find(r => r.id === id);
+    if (!role) {
+      throw new Error('Role not found');
+    }
+    if (role.isSystem) {
+      throw new Error('Built-in roles cannot be deleted');
+    }
+
+    const users = await authService.getAllUsers();
+    const assigned = users.filter(user => user.role === id);
+    if (assigned.length > 0) {
+      throw new Error(`${assigned.length} user(s) still have the ${role.name} role`);
+    }
+
+    try {
+      await database.deleteRole(id);
+    } catch (error) {
+      console.error('Failed to delete role:', error);
+      throw new Error('Failed to delete role');
+    }
+
+    await this.logAudit('role_deleted', { roleId: id, name: role.name });
+    console.log(`🗑️ Role deleted: ${role.name}`);
+  }
+
+  /**
+   * Replace a user's per-user overrides; an empty object clears them
+   */
+  public async setUserPermissionOverrides(
+    userId: string,
+    overrides: Partial<UserPermissions>
+  ): Promise<User> {
+    authService.requirePermission('canManageUsers');
+
+    const user = await database.getUser(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.role === LOCKED_ROLE_ID && Object.values(overrides).some(value => value === false)) {
+      throw new Error('Admins always have every permission');
+    }
+
+    let updated: User;
+    try {
+      updated = await database.updateUser({ id: userId, permissionOverrides: overrides });
+    } catch (error) {
+      console.error('Failed to save permission overrides:', error);
+      throw new Error('Failed to save permission overrides');
+    }
+
+    await this.logAudit('user_permissions_overridden', {
+      targetUserId: userId,
+      overrides,
+      previousOverrides: user.permissionOverrides || {},
+    });
+    await authService.refreshPermissions();
+    return updated;
+  }
+
+  private async logAudit(action: string, details: Record<string, unknown>): Promise<void> {
+    try {
+      const currentUser = await authService.getCurrentUser();
+      await database.logAuditEvent(currentUser?.id || null, action, 'roles', details);
+    } catch (error) {
+      console.error('Failed to log role change:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const roleService = RoleService.getInstance();
@@ -1,17 +1,41 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { database } from '../stores/DatabaseFactory';
-import { Sale, SaleItem, Payment, Product, CreateSaleInput, CreateSaleItemInput, CreatePaymentInput } from '../types';
+import { fromLedgerRecords } from '../stores/TransactionLedger';
+import { Sale, SaleItem, Payment, Product } from '../types';
+import { RetailTransaction, SaleLineItem, TaxComponent, TenderLineItem, TransactionQuery } from '../types/pos';
+import { rollBack, UndoStep } from '../utils/rollback';
+import { accountsReceivableService } from './AccountsReceivableService';
+import { authService } from './AuthService';
+import { giftCardService } from './GiftCardService';
+import { loyaltyService } from './LoyaltyService';
+import { managerOverrideService, OverrideApproval } from './ManagerOverrideService';
 import { productService } from './ProductService';
+import { taxService } from './TaxService';
+
+// Sales written by earlier builds straight to AsyncStorage
+const LEGACY_SALES_PREFIX = 'sales_';
+const LEGACY_MIGRATION_KEY = 'ledger_migration_v1';
 
 export interface CartItem {
   product: Product;
   quantity: number;
 }
 
+export interface CartLineTotals {
+  product: Product;
+  quantity: number;
+  itemSubtotal: number; // before tax
+  itemTax: number;
+  itemTotal: number;
+  taxes: TaxComponent[];
+}
+
 export interface SaleResult {
   sale: Sale;
   saleItems: SaleItem[];
   payments: Payment[];
   receiptData: ReceiptData;
+  transaction: RetailTransaction;
 }
 
 export interface ReceiptData {
@@ -58,92 +82,223 @@ export class SalesService {
     }
 
     try {
-      // Ensure database is initialized
-      if (!database) {
-        throw new Error('Database not available');
-      }
-
-      // Check if database is already initialized
-      if (!database.isInitialized()) {
-        console.log('Database not initialized, initializing now...');
-        try {
-          await database.initialize();
-          console.log('Database initialized successfully');
-        } catch (initError) {
-          console.error('Database initialization failed:', initError);
-          throw new Error('Database initialization failed. Please restart the app.');
-        }
-      }
-
       // Calculate totals
-      const { subtotal, totalTax, grandTotal } = this.calculateTotals(cart);
+      const taxSettings = await taxService.loadSettings();
+      const { subtotal, totalTax, grandTotal, itemBreakdown } = this.calculateTotals(cart);
 
       // Validate payment
       if (paymentAmount < grandTotal) {
         throw new Error(`Insufficient payment. Required: $${grandTotal.toFixed(2)}, Received: $${paymentAmount.toFixed(2)}`);
       }
 
-      // Use transaction to ensure atomicity
-      return await database.executeTransaction(async () => {
-        // 1. Create sale record
-        const saleInput: CreateSaleInput = {
-          total: grandTotal,
-          tax_total: totalTax,
-          status: 'completed'
-        };
-
-        const sale = await database.createSale(saleInput);
-
-        // 2. Create sale items
-        const saleItems: SaleItem[] = [];
-        for (const cartItem of cart) {
-          const saleItemInput: CreateSaleItemInput = {
-            sale_id: sale.id,
-            product_id: cartItem.product.id,
-            qty: cartItem.quantity,
-            unit_price: cartItem.product.price
-          };
-
-          const saleItem = await database.createSaleItem(saleItemInput);
-          saleItems.push(saleItem);
-
-          // Update product stock
-          const newStock = cartItem.product.stock_qty - cartItem.quantity;
-          if (newStock < 0) {
-            console.warn(`Warning: Product "${cartItem.product.name}" stock will be negative: ${newStock}`);
-          }
-          await productService.updateStock(cartItem.product.id, Math.max(0, newStock));
-        }
-
-        // 3. Create payment record
-        const paymentInput: CreatePaymentInput = {
-          sale_id: sale.id,
-          method: paymentMethod,
+      const now = new Date();
+      const items: SaleLineItem[] = itemBreakdown.map((line, idx) => ({
+        lineNumber: idx + 1,
+        productId: line.product.id,
+        sku: line.product.sku,
+        description: line.product.name,
+        name: line.product.name,
+        quantity: line.quantity,
+        unitPrice: line.product.price,
+        price: line.product.price,
+        discounts: [],
+        taxes: line.taxes,
+        lineTotal: { net: line.itemSubtotal, tax: line.itemTax, gross: line.itemTotal },
+      }));
+
+      const change = paymentAmount - grandTotal;
+      const tenders: TenderLineItem[] = [
+        {
+          type: paymentMethod,
           amount: paymentAmount,
           reference: paymentMethod === 'cash' ? undefined : `${paymentMethod.toUpperCase()}_${Date.now()}`
-        };
-
-        const payment = await database.createPayment(paymentInput);
+        },
+        // Change (if any) represented as negative tender amount
+        ...(change > 0 ? [{ type: 'cash' as const, amount: -change }] : []),
+      ];
+
+      const transaction = await this.recordTransaction({
+        businessDate: now.toISOString().slice(0, 10),
+        startTime: now.toISOString(),
+        endTime: now.toISOString(),
+        timestamp: now,
+        status: 'completed',
+        items,
+        tenders,
+        totals: {
+          subTotal: subtotal,
+          discountTotal: 0,
+          taxTotal: totalTax,
+          grandTotal,
+          currency: 'USD',
+          taxInclusive: taxSettings.pricesIncludeTax || undefined,
+        },
+      });
 
-        // 4. Generate receipt data
-        const receiptData = this.generateReceiptData(sale, cart, paymentMethod, paymentAmount);
+      const saleId = transaction.sequence!;
+      const sale = await database.getSale(saleId);
+      if (!sale) {
+        throw new Error('Failed to retrieve recorded sale');
+      }
+      const saleItems = await database.getSaleItems(saleId);
+      const payments = await database.getPayments(saleId);
 
-        console.log(`✅ Sale completed: $${grandTotal.toFixed(2)} via ${paymentMethod}`);
+      const receiptData = this.generateReceiptData(sale, itemBreakdown, paymentMethod, paymentAmount);
 
-        return {
-          sale,
-          saleItems,
-          payments: [payment],
-          receiptData
-        };
-      });
+      console.log(`✅ Sale completed: $${grandTotal.toFixed(2)} via ${paymentMethod}`);
 
+      return {
+        sale,
+        saleItems,
+        payments,
+        receiptData,
+        transaction
+      };
     } catch (error) {
       console.error('❌ Sale processing failed:', error);
       throw error;
     }
   }
 
+  /**
+   * Record a RetailTransaction in the sales ledger. Every POS write path ends
+   * here; completed sales also decrement product stock unless told otherwise.
+   * If the stock can't all be updated, the counts already changed are put
+   * back and the sale is voided before the error is rethrown.
+   */
+  public async recordTransaction(
+    transaction: RetailTransaction,
+    options: { adjustStock?: boolean } = {}
+  ): Promise<RetailTransaction> {
+    await this.ensureDatabase();
+
+    const saved = await database.saveTransaction(transaction);
+    if (options.adjustStock === false || saved.status !== 'completed') {
+      return saved;
+    }
+
+    const undo: UndoStep[] = [() => this.discardTransaction(saved.id!)];
+    try {
+      for (const item of saved.items) {
+        // Gift cards are sold as non-stock lines
+        if (item.giftCardCode) {
+          continue;
+        }
+        const product = await productService.getProduct(item.productId);
+        if (!product) {
+          console.warn(`Warning: Product ${item.productId} not found, stock not adjusted`);
+          continue;
+        }
+
+        const newStock = product.stock_qty - item.quantity;
+        if (newStock < 0) {
+          console.warn(`Warning: Product "${product.name}" stock will be negative: ${newStock}`);
+        }
+        undo.push(async () => {
+          await productService.updateStock(product.id, product.stock_qty);
+        });
+        await productService.updateStock(product.id, Math.max(0, newStock));
+      }
+    } catch (error) {
+      await rollBack(undo);
+      throw error;
+    }
+
+    return saved;
+  }
+
+  /**
+   * Mark a transaction whose checkout or return could not finish as voided,
+   * so it stays in the ledger for the record but no report counts it
+   */
+  public async discardTransaction(id: string): Promise<void> {
+    await this.ensureDatabase();
+    await database.updateTransactionStatus(id, 'voided');
+    console.log(`🗑️ Transaction ${id} voided after a failed write`);
+  }
+
+  /**
+   * Read transactions from the ledger, most recent first
+   */
+  public async getTransactions(query: TransactionQuery = {}): Promise<RetailTransaction[]> {
+    await this.ensureDatabase();
+    return database.getTransactions(query);
+  }
+
+  public async getTransaction(id: string): Promise<RetailTransaction | null> {
+    await this.ensureDatabase();
+    return database.getTransaction(id);
+  }
+
+  /**
+   * One-time move of sales that older builds kept in AsyncStorage under
+   * `sales_<id>` keys into the ledger. Returns the number of sales migrated.
+   */
+  public async migrateLegacySales(): Promise<number> {
+    try {
+      if (await AsyncStorage.getItem(LEGACY_MIGRATION_KEY)) {
+        return 0;
+      }
+
+      await this.ensureDatabase();
+
+      const keys = await AsyncStorage.getAllKeys();
+      const legacyKeys = keys.filter(key => key.startsWith(LEGACY_SALES_PREFIX));
+      let migrated = 0;
+
+      if (legacyKeys.length > 0) {
+        const entries = await AsyncStorage.multiGet(legacyKeys);
+
+        for (const [key, value] of entries) {
+          if (!value) {
+            continue;
+          }
+
+          const legacy = JSON.parse(value) as RetailTransaction;
+          const id = legacy.id || key.slice(LEGACY_SALES_PREFIX.length);
+          if (await database.getTransaction(id)) {
+            continue;
+          }
+
+          const startTime = legacy.startTime || new Date(legacy.timestamp).toISOString();
+          await database.saveTransaction({
+            ...legacy,
+            id,
+            startTime,
+            timestamp: new Date(legacy.endTime || startTime),
+          });
+          migrated++;
+        }
+
+        await AsyncStorage.multiRemove(legacyKeys);
+      }
+
+      await AsyncStorage.setItem(LEGACY_MIGRATION_KEY, new Date().toISOString());
+      console.log(`✅ Migrated ${migrated} legacy sales into the transaction ledger`);
+      return migrated;
+    } catch (error) {
+      console.error('Failed to migrate legacy sales:', error);
+      throw new Error('Failed to migrate legacy sales');
+    }
+  }
+
+  private async ensureDatabase(): Promise<void> {
+    if (!database) {
+      throw new Error('Database not available');
+    }
+
+    if (!database.isInitialized()) {
+      console.log('Database not initialized, initializing now...');
+      try {
+        await database.initialize();
+        console.log('Database initialized successfully');
+      } catch (initError) {
+        console.error('Database initialization failed:', initError);
+        throw new Error('Database initialization failed. Please restart the app.');
+      }
+    }
+  }
+
   /**
    * Calculate cart totals
    */
@@ -151,47 +306,27 @@ export class SalesService {
     subtotal: number;
     totalTax: number;
     grandTotal: number;
-    itemBreakdown: Array<{
-      product: Product;
-      quantity: number;
-      itemSubtotal: number;
-      itemTax: number;
-      itemTotal: number;
-    }>;
+    itemBreakdown: CartLineTotals[];
   } {
-    let subtotal = 0;
-    let totalTax = 0;
-    const itemBreakdown: Array<{
-      product: Product;
-      quantity: number;
-      itemSubtotal: number;
-      itemTax: number;
-      itemTotal: number;
-    }> = [];
-
-    for (const item of cart) {
-      const itemSubtotal = item.product.price * item.quantity;
-      const itemTax = itemSubtotal * item.product.tax_rate;
-      const itemTotal = itemSubtotal + itemTax;
-
-      subtotal += itemSubtotal;
-      totalTax += itemTax;
-
-      itemBreakdown.push({
-        product: item.product,
-        quantity: item.quantity,
-        itemSubtotal,
-        itemTax,
-        itemTotal
-      });
-    }
-
-    const grandTotal = subtotal + totalTax;
+    const taxed = taxService.calculate(cart.map(item => ({
+      amount: item.product.price * item.quantity,
+      taxRate: item.product.tax_rate,
+      taxClassId: item.product.tax_class_id || undefined,
+    })));
+
+    const itemBreakdown: CartLineTotals[] = cart.map((item, idx) => ({
+      product: item.product,
+      quantity: item.quantity,
+      itemSubtotal: taxed.lines[idx].net,
+      itemTax: taxed.lines[idx].tax,
+      itemTotal: taxed.lines[idx].gross,
+      taxes: taxed.lines[idx].taxes,
+    }));
 
     return {
-      subtotal,
-      totalTax,
-      grandTotal,
+      subtotal: cart.reduce((sum, item) => sum + item.product.price * item.quantity, 0),
+      totalTax: taxed.tax,
+      grandTotal: taxed.gross,
       itemBreakdown
     };
   }
@@ -201,17 +336,17 @@ export class SalesService {
    */
   private generateReceiptData(
     sale: Sale, 
-    cart: CartItem[], 
+    itemBreakdown: CartLineTotals[],
     paymentMethod: string, 
     paymentAmount: number
   ): ReceiptData {
-    const items = cart.map(item => ({
+    const items = itemBreakdown.map(item => ({
       name: item.product.name,
       sku: item.product.sku,
       quantity: item.quantity,
       unitPrice: item.product.price,
       total: item.product.price * item.quantity,
-      tax: item.product.price * item.quantity * item.product.tax_rate
+      tax: item.itemTax
     }));
 
     const subtotal = items.reduce((sum, item) => sum + item.total, 0);
@@ -314,23 +449,14 @@ export class SalesService {
     salesByPaymentMethod: { [method: string]: number };
   }> {
     try {
-      const sales = await database.getAllSales();
-      
-      // Filter by date if provided
-      let filteredSales = sales.filter(sale => sale.status === 'completed');
-      if (dateFrom) {
-        filteredSales = filteredSales.filter(sale => 
-          new Date(sale.timestamp) >= dateFrom
-        );
-      }
-      if (dateTo) {
-        filteredSales = filteredSales.filter(sale => 
-          new Date(sale.timestamp) <= dateTo
-        );
-      }
-
-      const totalSales = filteredSales.length;
-      const totalRevenue = filteredSales.reduce((sum, sale) => sum + sale.total, 0);
+      // Returns are included so refunds net off revenue and tender totals
+      const transactions = (await this.getTransactions({
+        startDate: dateFrom,
+        endDate: dateTo
+      })).filter(txn => txn.status === 'completed' || txn.status === 'returned');
+
+      const totalSales = transactions.filter(txn => txn.status === 'completed').length;
+      const totalRevenue = transactions.reduce((sum, txn) => sum + txn.totals.grandTotal, 0);
       const averageTransaction = totalSales > 0 ? totalRevenue / totalSales : 0;
 
       // Get top products (this is a simplified version)
@@ -340,12 +466,17 @@ export class SalesService {
         totalRevenue: number;
       }> = [];
 
-      // Sales by payment method (simplified - would need to join with payments table)
+      // Net amount taken per tender type (change is recorded as negative cash)
       const salesByPaymentMethod: { [method: string]: number } = {
         cash: 0,
         card: 0,
         digital: 0
       };
+      transactions.forEach(txn => {
+        txn.tenders.forEach(tender => {
+          salesByPaymentMethod[tender.type] = (salesByPaymentMethod[tender.type] || 0) + tender.amount;
+        });
+      });
 
       return {
         totalSales,
@@ -362,37 +493,76 @@ export class SalesService {
   }
 
   /**
-   * Void/cancel a sale
+   * Void/cancel a sale; operators without canVoidTransactions need a manager
+   * approval. Puts back the stock and undoes the gift card, account and
+   * loyalty writes the sale made, all or none. Sales with returns can't be
+   * voided; return the rest of the items instead.
    */
-  public async voidSale(saleId: number, reason: string): Promise<void> {
-    try {
-      const sale = await database.getSale(saleId);
-      if (!sale) {
-        throw new Error('Sale not found');
-      }
+  public async voidSale(saleId: number, reason: string, approval?: OverrideApproval): Promise<void> {
+    managerOverrideService.checkAuthorized('canVoidTransactions', 'void', approval);
 
-      if (sale.status === 'cancelled') {
-        throw new Error('Sale already cancelled');
-      }
+    const sale = await database.getSale(saleId);
+    if (!sale) {
+      throw new Error('Sale not found');
+    }
+    if (sale.status === 'cancelled') {
+      throw new Error('Sale already cancelled');
+    }
+
+    const transaction = fromLedgerRecords(sale, await database.getSaleItems(saleId), await database.getPayments(saleId));
+    const returns = await this.getTransactions({ originalTransactionId: transaction.id });
+    if (returns.some(refund => refund.status === 'returned')) {
+      throw new Error('Sales with returns cannot be voided');
+    }
 
-      // Update sale status
+    const undo: UndoStep[] = [];
+    let approvedBy: string | undefined;
+    try {
+      undo.push(async () => {
+        await database.updateSaleStatus(saleId, sale.status);
+      });
       await database.updateSaleStatus(saleId, 'cancelled');
 
-      // Restore product stock
-      const saleItems = await database.getSaleItems(saleId);
-      for (const item of saleItems) {
-        const product = await database.getProduct(item.product_id);
-        if (product) {
-          const newStock = product.stock_qty + item.qty;
-          await productService.updateStock(product.id, newStock);
+      // Gift cards are sold as non-stock lines
+      for (const item of transaction.items.filter(line => !line.giftCardCode)) {
+        const product = await productService.getProduct(item.productId);
+        if (!product) {
+          continue;
         }
+        undo.push(async () => {
+          await productService.updateStock(product.id, product.stock_qty);
+        });
+        await productService.updateStock(product.id, product.stock_qty + item.quantity);
       }
 
-      console.log(`✅ Sale #${saleId} voided. Reason: ${reason}`);
+      undo.push(() => giftCardService.recordSale(transaction));
+      await giftCardService.reverseTransaction(transaction);
+      undo.push(() => accountsReceivableService.reinstateCharge(transaction));
+      await accountsReceivableService.cancelCharge(transaction);
+      // Last, as it has no undo
+      await loyaltyService.reverseSale(transaction);
+
+      approvedBy = managerOverrideService.assertAuthorized('canVoidTransactions', 'void', approval);
     } catch (error) {
       console.error('Failed to void sale:', error);
+      await rollBack(undo);
       throw error;
     }
+
+    try {
+      const operator = await authService.getCurrentUser();
+      await database.logAuditEvent(operator?.id || null, 'sale_voided', 'sales', {
+        saleId,
+        transactionId: transaction.id,
+        amount: sale.total,
+        reason,
+        approvedBy,
+      });
+    } catch (error) {
+      console.error('Failed to log voided sale:', error);
+    }
+
+    console.log(`✅ Sale #${saleId} voided. Reason: ${reason}`);
   }
 
   // Helper methods for receipt formatting
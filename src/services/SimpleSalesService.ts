@@ -1,4 +1,4 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { database } from '../stores/DatabaseFactory';
 import {
   RetailTransaction,
   SaleLineItem,
@@ -6,17 +6,18 @@ import {
   TransactionTotals,
   CartItemInput,
 } from '../types';
+import { discountService } from './DiscountService';
+import { salesService as ledger } from './SalesService';
+import { isRecordedTransaction, summarizeTenders } from '../stores/TransactionLedger';
+import { taxService, TaxCalculation } from './TaxService';
 
+// Convenience API over the sales ledger kept by SalesService
 class SimpleSalesService {
-  private readonly SALES_STORAGE_KEY = 'sales_';
-
-  // Complete a sale and store it
+  // Complete a sale and store it; tax is worked out per line from each item's rate
   async completeSale(
     cart: CartItemInput[],
     paymentMethod: 'cash' | 'card' | 'digital',
     amountPaid: number,
-    subtotal: number,
-    tax: number,
     discount: number = 0,
     cashier?: string
   ): Promise<RetailTransaction> {
@@ -24,7 +25,22 @@ class SimpleSalesService {
       throw new Error('Cannot complete sale with empty cart');
     }
 
-    const total = subtotal + tax - discount;
+    // A sale discount is spread across the lines, so tax is charged on the discounted amount
+    const taxSettings = await taxService.loadSettings();
+    const priced = discountService.priceCart(
+      cart.map((c, idx) => ({
+        id: `${idx + 1}`,
+        productId: c.productId,
+        name: c.description || `Product ${c.productId}`,
+        price: c.unitPrice,
+        quantity: c.quantity,
+      })),
+      discount > 0 ? [{ id: 'sale', type: 'amount', value: discount, reason: 'Sale discount' }] : []
+    );
+    const taxed = this.calculateTaxes(cart, priced.lines.map(line => line.net));
+    const subtotal = priced.subtotal;
+    const tax = taxed.tax;
+    const total = taxed.gross;
     
     if (amountPaid < total) {
       throw new Error(`Insufficient payment. Required: $${total.toFixed(2)}, Received: $${amountPaid.toFixed(2)}`);
@@ -32,8 +48,7 @@ class SimpleSalesService {
 
     // Build standardized line items
     const items: SaleLineItem[] = cart.map((c, idx) => {
-      const net = c.unitPrice * c.quantity;
-      const lineTax = 0; // tax per-line not tracked here
+      const line = taxed.lines[idx];
       return {
         id: `${idx + 1}`,
         lineNumber: idx + 1,
@@ -44,9 +59,9 @@ class SimpleSalesService {
         quantity: c.quantity,
         unitPrice: c.unitPrice,
         price: c.unitPrice, // Map unitPrice to price
-        discounts: discount > 0 ? [{ id: 'header', type: 'amount', value: 0 }] : [],
-        taxes: [],
-        lineTotal: { net, tax: lineTax, gross: net + lineTax },
+        discounts: priced.lines[idx].discounts,
+        taxes: line.taxes,
+        lineTotal: { net: line.net, tax: line.tax, gross: line.gross },
       };
     });
 
@@ -64,10 +79,11 @@ class SimpleSalesService {
 
     const totals: TransactionTotals = {
       subTotal: subtotal,
-      discountTotal: discount,
+      discountTotal: priced.discountTotal,
       taxTotal: tax,
       grandTotal: total,
       currency: 'USD',
+      taxInclusive: taxSettings.pricesIncludeTax || undefined,
     };
 
     const sale: RetailTransaction = {
@@ -84,52 +100,31 @@ class SimpleSalesService {
     };
 
     try {
-      // Store the sale
-      await AsyncStorage.setItem(
-        `${this.SALES_STORAGE_KEY}${sale.id}`,
-        JSON.stringify(sale)
-      );
+      // Record the sale in the ledger
+      const saved = await ledger.recordTransaction(sale);
 
-      console.log(`✅ Sale completed: ${sale.id} - $${sale.totals.grandTotal.toFixed(2)} via ${paymentMethod}`);
-      return sale;
+      console.log(`✅ Sale completed: ${saved.id} - $${saved.totals.grandTotal.toFixed(2)} via ${paymentMethod}`);
+      return saved;
     } catch (error) {
       console.error('Failed to save sale:', error);
       throw new Error('Failed to complete sale');
     }
   }
 
-  // Get all sales (for analytics)
+  // Get all completed sales and returns (for analytics); voided sales are left out
   async getAllSales(): Promise<RetailTransaction[]> {
     try {
-      const keys = await AsyncStorage.getAllKeys();
-      const saleKeys = keys.filter(key => key.startsWith(this.SALES_STORAGE_KEY));
-      
-      const salesData = await AsyncStorage.multiGet(saleKeys);
-      const sales: RetailTransaction[] = [];
-      
-      salesData.forEach(([key, value]) => {
-        if (value) {
-          const sale = JSON.parse(value);
-          sales.push(sale);
-        }
-      });
-      
-      return sales.sort((a, b) => new Date(b.endTime ?? b.startTime).getTime() - new Date(a.endTime ?? a.startTime).getTime());
+      return (await ledger.getTransactions()).filter(isRecordedTransaction);
     } catch (error) {
       console.error('Failed to get all sales:', error);
       throw new Error('Failed to retrieve sales data');
     }
   }
 
-  // Get sales within a date range
+  // Get completed sales and returns within a date range
   async getSalesByDateRange(startDate: Date, endDate: Date): Promise<RetailTransaction[]> {
     try {
-      const allSales = await this.getAllSales();
-      
-      return allSales.filter(sale => {
-        const saleDate = new Date(sale.endTime ?? sale.startTime);
-        return saleDate >= startDate && saleDate <= endDate;
-      });
+      return (await ledger.getTransactions({ startDate, endDate })).filter(isRecordedTransaction);
     } catch (error) {
       console.error('Failed to get sales by date range:', error);
       throw new Error('Failed to retrieve sales data for date range');
@@ -152,11 +147,7 @@ class SimpleSalesService {
   // Get a specific sale by ID
   async getSale(saleId: string): Promise<RetailTransaction | null> {
     try {
-      const saleData = await AsyncStorage.getItem(`${this.SALES_STORAGE_KEY}${saleId}`);
-      if (!saleData) {return null;}
-
-      const sale = JSON.parse(saleData);
-      return sale as RetailTransaction;
+      return await ledger.getTransaction(saleId);
     } catch (error) {
       console.error('Failed to get sale:', error);
       return null;
@@ -166,14 +157,15 @@ class SimpleSalesService {
   // Delete all sales (for testing/reset purposes)
   async clearAllSales(): Promise<void> {
     try {
-      const keys = await AsyncStorage.getAllKeys();
-      const saleKeys = keys.filter(key => key.startsWith(this.SALES_STORAGE_KEY));
-      
-      if (saleKeys.length > 0) {
-        await AsyncStorage.multiRemove(saleKeys);
+      const sales = await ledger.getTransactions();
+
+      for (const sale of sales) {
+        if (sale.sequence !== undefined) {
+          await database.deleteSale(sale.sequence);
+        }
       }
-      
-      console.log(`✅ Cleared ${saleKeys.length} sales from storage`);
+
+      console.log(`✅ Cleared ${sales.length} sales from storage`);
     } catch (error) {
       console.error('Failed to clear sales:', error);
       throw new Error('Failed to clear sales data');
@@ -181,19 +173,24 @@ class SimpleSalesService {
   }
 
   // Calculate cart totals (helper method)
-  calculateCartTotals(
-    cart: CartItemInput[],
-    taxRate: number = 0.08
-  ): {
+  calculateCartTotals(cart: CartItemInput[]): {
     subtotal: number;
     tax: number;
     total: number;
   } {
     const subtotal = cart.reduce((sum, item) => sum + (item.unitPrice * item.quantity), 0);
-    const tax = subtotal * taxRate;
-    const total = subtotal + tax;
+    const { tax, gross } = this.calculateTaxes(cart);
+
+    return { subtotal, tax, total: gross };
+  }
 
-    return { subtotal, tax, total };
+  // Tax each line on `nets` when given (after discounts), else on its full price
+  private calculateTaxes(cart: CartItemInput[], nets?: number[]): TaxCalculation {
+    return taxService.calculate(cart.map((item, idx) => ({
+      amount: nets ? nets[idx] : item.unitPrice * item.quantity,
+      taxRate: item.taxRate,
+      taxClassId: item.taxClassId,
+    })));
   }
 
   // Generate unique sale ID
@@ -224,7 +221,8 @@ class SimpleSalesService {
         sales = await this.getAllSales();
       }
 
-      const totalSales = sales.length;
+      // Returns net off revenue but are not sales of their own
+      const totalSales = sales.filter(sale => sale.status === 'completed').length;
       const totalRevenue = sales.reduce((sum, sale) => sum + sale.totals.grandTotal, 0);
       const totalTax = sales.reduce((sum, sale) => sum + sale.totals.taxTotal, 0);
       const averageTransaction = totalSales > 0 ? totalRevenue / totalSales : 0;
@@ -235,13 +233,10 @@ class SimpleSalesService {
         digital: { count: 0, amount: 0 }
       };
 
-      sales.forEach(sale => {
-        sale.tenders.forEach(t => {
-          const type = (t.type === 'cash' || t.type === 'card' || t.type === 'digital') ? t.type : 'other';
-          if (type === 'other') {return;}
-          paymentMethodBreakdown[type].count++;
-          paymentMethodBreakdown[type].amount += Math.max(0, t.amount);
-        });
+      // Net of change, so cash reflects what stayed in the drawer
+      const tenderSummary = summarizeTenders(sales);
+      (Object.keys(paymentMethodBreakdown) as (keyof typeof paymentMethodBreakdown)[]).forEach(type => {
+        paymentMethodBreakdown[type] = tenderSummary[type] || { count: 0, amount: 0 };
       });
 
       return {
@@ -269,6 +264,7 @@ class SimpleSalesService {
 
     const paymentMethods: ('cash' | 'card' | 'digital')[] = ['cash', 'card', 'digital'];
     const numberOfSales = 20;
+    await taxService.loadSettings();
 
     for (let i = 0; i < numberOfSales; i++) {
       // Create random cart
@@ -290,6 +286,7 @@ class SimpleSalesService {
 
       // Calculate totals
       const { subtotal, tax, total } = this.calculateCartTotals(cart);
+      const { lines } = this.calculateTaxes(cart);
       
       // Random payment method and amount
       const paymentMethod = paymentMethods[Math.floor(Math.random() * paymentMethods.length)];
@@ -316,7 +313,8 @@ class SimpleSalesService {
         quantity: c.quantity,
         unitPrice: c.unitPrice,
         price: c.unitPrice, // Map unitPrice to price
-        lineTotal: { net: c.unitPrice * c.quantity, tax: 0, gross: c.unitPrice * c.quantity },
+        taxes: lines[idx].taxes,
+        lineTotal: { net: lines[idx].net, tax: lines[idx].tax, gross: lines[idx].gross },
       }));
 
       const sale: RetailTransaction = {
@@ -329,14 +327,18 @@ class SimpleSalesService {
         operatorId: 'Demo User',
         items,
         tenders: [{ id: '1', type: paymentMethod, amount: amountPaid }],
-        totals: { subTotal: subtotal, discountTotal: 0, taxTotal: tax, grandTotal: total, currency: 'USD' },
+        totals: {
+          subTotal: subtotal,
+          discountTotal: 0,
+          taxTotal: tax,
+          grandTotal: total,
+          currency: 'USD',
+          taxInclusive: taxService.getSettings().pricesIncludeTax || undefined,
+        },
       };
 
-      // Store the sale
-      await AsyncStorage.setItem(
-        `${this.SALES_STORAGE_KEY}${sale.id}`,
-        JSON.stringify(sale)
-      );
+      // Sample sales are history only, so leave current stock untouched
+      await ledger.recordTransaction(sale, { adjustStock: false });
     }
 
     console.log(`✅ Added ${numberOfSales} sample sales`);
@@ -5,17 +5,35 @@ import {
   SaleLineItem,
   TenderLineItem,
   TransactionTotals,
-  TenderType,
   ReceiptData,
   POSService,
   TaxComponent,
   DiscountComponent,
+  TransactionQuery,
+  ProcessTransactionOptions,
+  HeldCart,
+  HoldCartOptions,
+  TaxExemption,
 } from '../types';
+import { generateTransactionId, isRecordedTransaction, summarizeTenders } from '../stores/TransactionLedger';
+import { rollBack, UndoStep } from '../utils/rollback';
+import { accountsReceivableService } from './AccountsReceivableService';
+import { authService } from './AuthService';
+import { discountService, PricedLine } from './DiscountService';
+import { giftCardService } from './GiftCardService';
+import { loyaltyService } from './LoyaltyService';
 import { productService } from './ProductService';
+import { profileService } from './ProfileService';
+import { quoteService } from './QuoteService';
+import { salesService } from './SalesService';
+import { taxService, TaxCalculation } from './TaxService';
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
 
 export class StandardPOSService implements POSService {
-  private readonly SALES_STORAGE_KEY = 'sales_';
   private readonly CART_STORAGE_KEY = 'pos_cart_';
+  private readonly HELD_CARTS_STORAGE_KEY = 'pos_held_carts';
+  private readonly DEFAULT_HELD_CART_EXPIRY_HOURS = 24;
 
   // Cart Management
   addToCart(cart: CartItem[], product: any, quantity: number = 1): CartItem[] {
@@ -39,7 +57,9 @@ export class StandardPOSService implements POSService {
         price: product.price,
         quantity: quantity,
         unitPrice: product.price,
-        description: product.name
+        description: product.name,
+        taxRate: product.tax_rate,
+        taxClassId: product.tax_class_id || undefined
       };
       return [...cart, newItem];
     }
@@ -62,46 +82,139 @@ export class StandardPOSService implements POSService {
   }
 
   // Cart Calculations
-  calculateCartTotals(cart: CartItem[], taxRate: number = 0.08): {
+  calculateCartTotals(
+    cart: CartItem[],
+    headerDiscounts: DiscountComponent[] = [],
+    taxExemption?: TaxExemption
+  ): {
     subtotal: number;
+    discountTotal: number;
     tax: number;
+    taxes: TaxComponent[];
+    pricesIncludeTax: boolean;
     total: number;
     itemCount: number;
   } {
-    const subtotal = cart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-    const tax = subtotal * taxRate;
-    const total = subtotal + tax;
+    // Tax is charged on the discounted amount
+    const priced = discountService.priceCart(cart, headerDiscounts);
+    const taxed = this.calculateTaxes(priced.lines, taxExemption);
     const itemCount = cart.reduce((sum, item) => sum + item.quantity, 0);
 
     return {
-      subtotal,
-      tax,
-      total,
+      subtotal: priced.subtotal,
+      discountTotal: priced.discountTotal,
+      tax: taxed.tax,
+      taxes: taxed.taxes,
+      pricesIncludeTax: taxService.getSettings().pricesIncludeTax,
+      total: taxed.gross,
       itemCount
     };
   }
 
+  // Tax each priced line on its discounted amount
+  private calculateTaxes(lines: PricedLine[], taxExemption?: TaxExemption): TaxCalculation {
+    return taxService.calculate(
+      lines.map(({ item, net }) => ({ amount: net, taxRate: item.taxRate, taxClassId: item.taxClassId })),
+      { exempt: !!taxExemption }
+    );
+  }
+
+  // Tender Handling
+  calculateTenderBalance(total: number, tenders: TenderLineItem[]): {
+    paid: number;
+    remaining: number;
+    change: number;
+  } {
+    const paid = roundCurrency(tenders.reduce((sum, tender) => sum + tender.amount, 0));
+    const due = roundCurrency(total);
+
+    return {
+      paid,
+      remaining: Math.max(0, roundCurrency(due - paid)),
+      change: Math.max(0, roundCurrency(paid - due)),
+    };
+  }
+
+  // Validate the tenders against the amount due and append the change line
+  settleTenders(total: number, tenders: TenderLineItem[]): TenderLineItem[] {
+    if (tenders.length === 0) {
+      throw new Error('At least one payment is required');
+    }
+    if (tenders.some(tender => !(tender.amount > 0))) {
+      throw new Error('Payment amounts must be greater than zero');
+    }
+
+    const { paid, remaining, change } = this.calculateTenderBalance(total, tenders);
+    if (remaining > 0) {
+      throw new Error(`Insufficient payment. Required: $${total.toFixed(2)}, Received: $${paid.toFixed(2)}`);
+    }
+
+    // Change can only come out of the cash that was handed over
+    const nonCashPaid = tenders
+      .filter(tender => tender.type !== 'cash')
+      .reduce((sum, tender) => sum + tender.amount, 0);
+    if (roundCurrency(nonCashPaid) > roundCurrency(total)) {
+      throw new Error('Non-cash payments cannot exceed the balance due');
+    }
+
+    return [
+      ...tenders.map((tender, idx) => ({ ...tender, id: `${idx + 1}` })),
+      // Change (if any) represented as negative tender amount
+      ...(change > 0 ? [{ id: 'change', type: 'cash' as const, amount: -change }] : []),
+    ];
+  }
+
   // Transaction Processing
   async processTransaction(
     cart: CartItem[], 
-    paymentMethod: TenderType, 
-    amount: number
+    payments: TenderLineItem[], 
+    options: ProcessTransactionOptions = {}
   ): Promise<RetailTransaction> {
     if (cart.length === 0) {
       throw new Error('Cannot process transaction with empty cart');
     }
 
-    const { subtotal, tax, total } = this.calculateCartTotals(cart);
-    
-    if (amount < total) {
-      throw new Error(`Insufficient payment. Required: $${total.toFixed(2)}, Received: $${amount.toFixed(2)}`);
+    const { taxExemption } = options;
+    if (taxExemption && !taxExemption.exemptionId.trim()) {
+      throw new Error('A tax exemption ID is required for tax-exempt sales');
+    }
+
+    // Charge tax with the current business settings, not whatever the UI last loaded
+    const taxSettings = await taxService.loadSettings();
+    const priced = discountService.priceCart(cart, options.headerDiscounts || []);
+    // Checked with the amounts they actually take off, so an approval can't stretch further
+    const discounts = [
+      ...priced.lines.flatMap(line => line.discounts.filter(discount => discount.scope === 'line')),
+      ...priced.headerDiscounts,
+    ];
+    discountService.assertDiscountsAuthorized(discounts);
+    const taxed = this.calculateTaxes(priced.lines, taxExemption);
+    const tenders = this.settleTenders(taxed.gross, payments);
+    const customerId = options.customerId ?? taxExemption?.customerId;
+
+    const pointsTendered = payments
+      .filter(tender => tender.type === 'loyalty_points')
+      .reduce((sum, tender) => sum + tender.amount, 0);
+    if (pointsTendered > 0) {
+      await loyaltyService.assertRedeemable(customerId, pointsTendered);
+    }
+    await giftCardService.assertSaleValid(cart, payments);
+    // A quote is paid for once; refuse before anything is charged
+    if (options.quoteId) {
+      await quoteService.requireOpenQuote(options.quoteId);
+    }
+
+    const charged = payments
+      .filter(tender => tender.type === 'on_account')
+      .reduce((sum, tender) => sum + tender.amount, 0);
+    if (charged > 0) {
+      await accountsReceivableService.assertCanCharge(customerId, charged);
     }
 
     // Build standardized line items
-    const items: SaleLineItem[] = cart.map((item, idx) => {
-      const net = item.price * item.quantity;
-      const lineTax = net * 0.08; // Default tax rate per line
-      
+    const items: SaleLineItem[] = priced.lines.map(({ item, discounts }, idx) => {
+      const line = taxed.lines[idx];
+
       return {
         id: `${idx + 1}`,
         lineNumber: idx + 1,
@@ -112,67 +225,85 @@ export class StandardPOSService implements POSService {
         quantity: item.quantity,
         unitPrice: item.price,
         price: item.price,
-        discounts: [],
-        taxes: [{
-          id: 'tax',
-          name: 'Sales Tax',
-          rate: 0.08,
-          amount: lineTax
-        }],
-        lineTotal: { 
-          net, 
-          tax: lineTax, 
-          gross: net + lineTax 
+        discounts,
+        taxes: line.taxes,
+        lineTotal: {
+          net: line.net,
+          tax: line.tax,
+          gross: line.gross
         },
+        giftCardCode: item.giftCardCode,
       };
     });
 
-    const tenders: TenderLineItem[] = [
-      {
-        id: '1',
-        type: paymentMethod,
-        amount: amount,
-      },
-      // Change (if any) represented as negative tender amount
-      ...(amount - total > 0
-        ? [{ id: 'change', type: 'cash' as const, amount: -(amount - total) }]
-        : []),
-    ];
-
     const totals: TransactionTotals = {
-      subTotal: subtotal,
-      discountTotal: 0,
-      taxTotal: tax,
-      grandTotal: total,
+      subTotal: priced.subtotal,
+      discountTotal: priced.discountTotal,
+      taxTotal: taxed.tax,
+      grandTotal: taxed.gross,
       currency: 'USD',
+      taxInclusive: taxSettings.pricesIncludeTax || undefined,
     };
 
+    // Whoever is signed in at the register now, after any PIN switch
+    const operator = await authService.getCurrentUser();
+
     const transaction: RetailTransaction = {
-      id: this.generateTransactionId(),
+      id: generateTransactionId(),
       businessDate: new Date().toISOString().slice(0, 10),
       startTime: new Date().toISOString(),
       endTime: new Date().toISOString(),
       timestamp: new Date(),
       status: 'completed',
-      operatorId: 'cashier_001', // Default cashier ID
+      operatorId: operator?.id,
+      customerId,
       items,
       tenders,
       totals,
+      notes: taxExemption?.customerName ? `Tax exempt customer: ${taxExemption.customerName}` : undefined,
+      taxExemptionId: taxExemption?.exemptionId.trim(),
     };
 
+    // Points, gift cards and account charges are taken before the sale is
+    // saved, so a failure at any step stops the sale and puts back the
+    // earlier ones
+    const undo: UndoStep[] = [];
+    let saved: RetailTransaction;
     try {
-      // Store the transaction
-      await AsyncStorage.setItem(
-        `${this.SALES_STORAGE_KEY}${transaction.id}`,
-        JSON.stringify(transaction)
-      );
+      undo.push(() => loyaltyService.reverseRedemption(transaction));
+      await loyaltyService.recordRedemption(transaction);
+      undo.push(() => giftCardService.reverseTransaction(transaction));
+      await giftCardService.recordSale(transaction);
+      undo.push(() => accountsReceivableService.cancelCharge(transaction));
+      await accountsReceivableService.chargeSale(transaction);
 
-      console.log(`✅ Transaction completed: ${transaction.id} - $${transaction.totals.grandTotal.toFixed(2)} via ${paymentMethod}`);
-      return transaction;
+      // Record the transaction in the sales ledger
+      saved = await salesService.recordTransaction(transaction);
     } catch (error) {
       console.error('Failed to save transaction:', error);
+      await rollBack(undo);
       throw new Error('Failed to complete transaction');
     }
+    discountService.consumeApprovals(discounts);
+
+    // The sale stands even if its points can't be earned
+    try {
+      await loyaltyService.recordSale(saved);
+    } catch (error) {
+      console.error('Failed to post loyalty points:', error);
+    }
+
+    if (options.quoteId) {
+      try {
+        await quoteService.recordSale(options.quoteId, saved);
+      } catch (error) {
+        console.error('Failed to link sale to quote:', error);
+      }
+    }
+
+    const methods = payments.map(tender => tender.type).join(' + ');
+    console.log(`✅ Transaction completed: ${saved.id} - $${saved.totals.grandTotal.toFixed(2)} via ${methods}`);
+    return saved;
   }
 
   // Receipt Generation
@@ -185,10 +316,10 @@ export class StandardPOSService implements POSService {
         phone: '(555) 123-4567',
         website: 'www.salesmvp.com'
       },
-      cashierInfo: {
+      cashierInfo: transaction.operatorId ? {
         name: 'Cashier',
-        id: transaction.operatorId || 'cashier_001'
-      }
+        id: transaction.operatorId
+      } : undefined
     };
   }
 
@@ -219,19 +350,101 @@ export class StandardPOSService implements POSService {
     }
   }
 
+  // Held Carts
+  async holdCart(cart: CartItem[], options: HoldCartOptions = {}): Promise<HeldCart> {
+    if (cart.length === 0) {
+      throw new Error('Cannot hold an empty cart');
+    }
+
+    const heldCarts = await this.getHeldCarts();
+    const operator = await authService.getCurrentUser();
+    const expiryHours = await this.getHeldCartExpiryHours();
+    const heldAt = new Date();
+
+    // Reuse the lowest free number so cashiers keep seeing small numbers
+    let number = 1;
+    while (heldCarts.some(held => held.number === number)) {
+      number++;
+    }
+
+    const heldCart: HeldCart = {
+      id: `HELD_${heldAt.getTime()}_${Math.random().toString(36).substr(2, 6)}`,
+      number,
+      label: options.label?.trim() || undefined,
+      note: options.note?.trim() || undefined,
+      operatorId: operator?.id,
+      operatorName: operator ? `${operator.firstName} ${operator.lastName}`.trim() : undefined,
+      heldAt: heldAt.toISOString(),
+      expiresAt: new Date(heldAt.getTime() + expiryHours * 60 * 60 * 1000).toISOString(),
+      items: cart,
+      headerDiscounts: options.headerDiscounts?.length ? options.headerDiscounts : undefined,
+    };
+
+    try {
+      await this.saveHeldCarts([...heldCarts, heldCart]);
+      console.log(`⏸️ Cart ${number} held with ${cart.length} item(s)`);
+      return heldCart;
+    } catch (error) {
+      console.error('Failed to hold cart:', error);
+      throw new Error('Failed to hold cart');
+    }
+  }
+
+  // Held carts that have not expired, oldest first; expired ones are purged
+  async getHeldCarts(): Promise<HeldCart[]> {
+    try {
+      const data = await AsyncStorage.getItem(this.HELD_CARTS_STORAGE_KEY);
+      const heldCarts: HeldCart[] = data ? JSON.parse(data) : [];
+      const now = Date.now();
+      const active = heldCarts.filter(held => new Date(held.expiresAt).getTime() > now);
+
+      if (active.length !== heldCarts.length) {
+        await this.saveHeldCarts(active);
+        console.log(`🗑️ Discarded ${heldCarts.length - active.length} expired held cart(s)`);
+      }
+
+      return active.sort((a, b) => a.heldAt.localeCompare(b.heldAt));
+    } catch (error) {
+      console.error('Failed to load held carts:', error);
+      return [];
+    }
+  }
+
+  // Take a held cart off the list so it can be rung up
+  async recallHeldCart(id: string): Promise<HeldCart> {
+    const heldCarts = await this.getHeldCarts();
+    const heldCart = heldCarts.find(held => held.id === id);
+    if (!heldCart) {
+      throw new Error('Held cart not found or expired');
+    }
+
+    await this.saveHeldCarts(heldCarts.filter(held => held.id !== id));
+    console.log(`▶️ Cart ${heldCart.number} recalled`);
+    return heldCart;
+  }
+
+  async deleteHeldCart(id: string): Promise<void> {
+    const heldCarts = await this.getHeldCarts();
+    await this.saveHeldCarts(heldCarts.filter(held => held.id !== id));
+  }
+
+  private async saveHeldCarts(heldCarts: HeldCart[]): Promise<void> {
+    await AsyncStorage.setItem(this.HELD_CARTS_STORAGE_KEY, JSON.stringify(heldCarts));
+  }
+
+  private async getHeldCartExpiryHours(): Promise<number> {
+    try {
+      const settings = await profileService.getBusinessSettings();
+      return settings?.heldCartExpiryHours || this.DEFAULT_HELD_CART_EXPIRY_HOURS;
+    } catch (error) {
+      return this.DEFAULT_HELD_CART_EXPIRY_HOURS;
+    }
+  }
+
   // Transaction History
-  async getAllTransactions(): Promise<RetailTransaction[]> {
+  async getAllTransactions(query?: TransactionQuery): Promise<RetailTransaction[]> {
     try {
-      const keys = await AsyncStorage.getAllKeys();
-      const salesKeys = keys.filter(key => key.startsWith(this.SALES_STORAGE_KEY));
-      
-      if (salesKeys.length === 0) {return [];}
-
-      const transactions = await AsyncStorage.multiGet(salesKeys);
-      return transactions
-        .map(([key, value]) => value ? JSON.parse(value) : null)
-        .filter(Boolean)
-        .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+      return await salesService.getTransactions(query);
     } catch (error) {
       console.error('Failed to load transactions:', error);
       return [];
@@ -240,19 +453,13 @@ export class StandardPOSService implements POSService {
 
   async getTransaction(id: string): Promise<RetailTransaction | null> {
     try {
-      const transactionData = await AsyncStorage.getItem(`${this.SALES_STORAGE_KEY}${id}`);
-      return transactionData ? JSON.parse(transactionData) : null;
+      return await salesService.getTransaction(id);
     } catch (error) {
       console.error('Failed to load transaction:', error);
       return null;
     }
   }
 
-  // Utility Methods
-  private generateTransactionId(): string {
-    return `TXN_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-
   // Product Search
   async searchProducts(query: string): Promise<any[]> {
     try {
@@ -280,16 +487,11 @@ export class StandardPOSService implements POSService {
     };
   }> {
     try {
-      const transactions = await this.getAllTransactions();
-      
-      const filteredTransactions = transactions.filter(txn => {
-        const txnDate = new Date(txn.startTime);
-        if (startDate && txnDate < startDate) {return false;}
-        if (endDate && txnDate > endDate) {return false;}
-        return true;
-      });
+      const filteredTransactions = (await this.getAllTransactions({ startDate, endDate }))
+        .filter(isRecordedTransaction);
 
-      const totalTransactions = filteredTransactions.length;
+      // Returns net off revenue but are not transactions of their own
+      const totalTransactions = filteredTransactions.filter(txn => txn.status === 'completed').length;
       const totalRevenue = filteredTransactions.reduce((sum, txn) => sum + txn.totals.grandTotal, 0);
       const totalTax = filteredTransactions.reduce((sum, txn) => sum + txn.totals.taxTotal, 0);
       const averageTransaction = totalTransactions > 0 ? totalRevenue / totalTransactions : 0;
@@ -300,16 +502,10 @@ export class StandardPOSService implements POSService {
         digital: { count: 0, amount: 0 }
       };
 
-      filteredTransactions.forEach(txn => {
-        txn.tenders.forEach(tender => {
-          if (tender.amount > 0) { // Only count payments, not change
-            const method = tender.type as keyof typeof paymentMethodBreakdown;
-            if (paymentMethodBreakdown[method]) {
-              paymentMethodBreakdown[method].count++;
-              paymentMethodBreakdown[method].amount += tender.amount;
-            }
-          }
-        });
+      // Net revenue per tender type, with change taken off cash
+      const tenderSummary = summarizeTenders(filteredTransactions);
+      (Object.keys(paymentMethodBreakdown) as (keyof typeof paymentMethodBreakdown)[]).forEach(method => {
+        paymentMethodBreakdown[method] = tenderSummary[method] || { count: 0, amount: 0 };
       });
 
       return {
@@ -0,0 +1,226 @@
+import { TaxClass, TaxComponent, TaxRoundingMode } from '../types';
+import { profileService } from './ProfileService';
+
+export interface TaxSettings {
+  pricesIncludeTax: boolean;
+  rounding: TaxRoundingMode;
+  taxClasses: TaxClass[];
+  defaultRate: number; // business rate for lines that carry no rate of their own
+}
+
+export interface TaxableLine {
+  amount: number; // price after discounts; includes tax when prices include tax
+  taxRate?: number;
+  taxClassId?: string;
+}
+
+export interface TaxedLine {
+  net: number;
+  tax: number;
+  gross: number;
+  taxes: TaxComponent[];
+}
+
+export interface TaxCalculation {
+  lines: TaxedLine[];
+  net: number;
+  tax: number;
+  gross: number;
+  taxes: TaxComponent[]; // one entry per tax, summed across lines
+}
+
+const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  pricesIncludeTax: false,
+  rounding: 'line',
+  taxClasses: [],
+  defaultRate: 0,
+};
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// 0.0825 -> "8.25%"
+export const formatTaxRate = (rate: number): string => `${parseFloat((rate * 100).toFixed(3))}%`;
+
+/**
+ * Sales tax for carts and transactions. Each line is taxed at its tax class
+ * (one or more components, e.g. state + city) or else its product rate.
+ * Prices can be tax-exclusive (tax added on top) or tax-inclusive (VAT/GST
+ * style, tax backed out of the price), and taxes are rounded per line or
+ * once per invoice, both as configured in BusinessSettings.
+ */
+export class TaxService {
+  private static instance: TaxService;
+  private settings: TaxSettings = DEFAULT_TAX_SETTINGS;
+
+  private constructor() {}
+
+  public static getInstance(): TaxService {
+    if (!TaxService.instance) {
+      TaxService.instance = new TaxService();
+    }
+    return TaxService.instance;
+  }
+
+  /**
+   * Read the tax configuration from business settings and cache it for
+   * synchronous cart calculations
+   */
+  public async loadSettings(): Promise<TaxSettings> {
+    try {
+      const business = await profileService.getBusinessSettings();
+      this.settings = {
+        pricesIncludeTax: !!business?.pricesIncludeTax,
+        rounding: business?.taxRounding || 'line',
+        taxClasses: business?.taxClasses || [],
+        defaultRate: business?.taxRate ?? 0,
+      };
+    } catch (error) {
+      console.error('Failed to load tax settings:', error);
+    }
+    return this.settings;
+  }
+
+  /**
+   * Tax configuration from the last load
+   */
+  public getSettings(): TaxSettings {
+    return this.settings;
+  }
+
+  public async getTaxClasses(): Promise<TaxClass[]> {
+    return (await this.loadSettings()).taxClasses;
+  }
+
+  /**
+   * Create or replace a tax class
+   */
+  public async saveTaxClass(taxClass: Omit<TaxClass, 'id'> & { id?: string }): Promise<TaxClass> {
+    if (!taxClass.name || !taxClass.name.trim()) {
+      throw new Error('Tax class name is required');
+    }
+    if (taxClass.components.length === 0) {
+      throw new Error('A tax class needs at least one tax');
+    }
+    for (const component of taxClass.components) {
+      if (!component.name || !component.name.trim()) {
+        throw new Error('Each tax needs a name');
+      }
+      if (!(component.rate >= 0 && component.rate <= 1)) {
+        throw new Error('Tax rates must be between 0 and 1');
+      }
+    }
+
+    const saved: TaxClass = {
+      id: taxClass.id || `taxclass_${Date.now()}`,
+      name: taxClass.name.trim(),
+      components: taxClass.components.map((component, idx) => ({
+        id: component.id || `${idx + 1}`,
+        name: component.name.trim(),
+        rate: component.rate,
+      })),
+    };
+
+    const existing = await this.getTaxClasses();
+    await this.saveTaxClasses([...existing.filter(c => c.id !== saved.id), saved]);
+    return saved;
+  }
+
+  public async deleteTaxClass(id: string): Promise<void> {
+    const existing = await this.getTaxClasses();
+    await this.saveTaxClasses(existing.filter(c => c.id !== id));
+  }
+
+  /**
+   * Taxes charged on a line: its tax class if it has one, otherwise a single
+   * component at the line's own rate (or the business default)
+   */
+  public resolveRates(line: TaxableLine, settings: TaxSettings = this.settings): Omit<TaxComponent, 'amount'>[] {
+    if (line.taxClassId) {
+      const taxClass = settings.taxClasses.find(c => c.id === line.taxClassId);
+      if (taxClass) {
+        return taxClass.components;
+      }
+      console.warn(`Warning: Tax class ${line.taxClassId} not found, using product rate`);
+    }
+
+    const rate = line.taxRate ?? settings.defaultRate;
+    return rate > 0 ? [{ id: 'tax', name: 'Sales Tax', rate }] : [];
+  }
+
+  /**
+   * Tax a set of lines. Exempt sales charge no tax; with tax-inclusive prices
+   * the exempt customer pays the price less the tax it contained.
+   */
+  public calculate(
+    lines: TaxableLine[],
+    options: { exempt?: boolean; settings?: TaxSettings } = {}
+  ): TaxCalculation {
+    const settings = options.settings || this.settings;
+    const inclusive = settings.pricesIncludeTax;
+    const perLine = settings.rounding === 'line';
+
+    // Unrounded component amounts, kept for invoice-level rounding
+    const rawTotals = new Map<string, TaxComponent>();
+
+    const taxedLines: TaxedLine[] = lines.map(line => {
+      const rates = this.resolveRates(line, settings);
+      const totalRate = rates.reduce((sum, r) => sum + r.rate, 0);
+      const netRaw = inclusive ? line.amount / (1 + totalRate) : line.amount;
+
+      if (options.exempt) {
+        const net = roundCurrency(netRaw);
+        return { net, tax: 0, gross: net, taxes: [] };
+      }
+
+      const taxes = rates.map(r => {
+        const raw = netRaw * r.rate;
+        const key = `${r.id || r.name}@${r.rate}`;
+        const total = rawTotals.get(key) || { id: r.id, name: r.name, rate: r.rate, amount: 0 };
+        total.amount += perLine ? roundCurrency(raw) : raw;
+        rawTotals.set(key, total);
+        return { ...r, amount: perLine ? roundCurrency(raw) : raw };
+      });
+
+      const taxRaw = taxes.reduce((sum, t) => sum + t.amount, 0);
+      const tax = roundCurrency(taxRaw);
+      const net = inclusive ? roundCurrency(line.amount - tax) : roundCurrency(line.amount);
+
+      return {
+        net,
+        tax,
+        gross: inclusive ? roundCurrency(line.amount) : roundCurrency(net + tax),
+        taxes: taxes.map(t => ({ ...t, amount: roundCurrency(t.amount) })),
+      };
+    });
+
+    const taxes = Array.from(rawTotals.values()).map(t => ({ ...t, amount: roundCurrency(t.amount) }));
+    const tax = roundCurrency(taxes.reduce((sum, t) => sum + t.amount, 0));
+    const amount = roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+
+    if (options.exempt) {
+      const net = roundCurrency(taxedLines.reduce((sum, line) => sum + line.net, 0));
+      return { lines: taxedLines, net, tax: 0, gross: net, taxes: [] };
+    }
+
+    return {
+      lines: taxedLines,
+      net: inclusive ? roundCurrency(amount - tax) : amount,
+      tax,
+      gross: inclusive ? amount : roundCurrency(amount + tax),
+      taxes,
+    };
+  }
+
+  private async saveTaxClasses(taxClasses: TaxClass[]): Promise<void> {
+    try {
+      await profileService.updateBusinessSettings({ taxClasses });
+      this.settings = { ...this.settings, taxClasses };
+    } catch (error) {
+      console.error('Failed to save tax classes:', error);
+      throw new Error('Failed to save tax classes');
+    }
+  }
+}
+
+// Export singleton instance
+export const taxService = TaxService.getInstance();
@@ -0,0 +1,191 @@
+import { database } from '../stores/DatabaseFactory';
+import { CreateUserInput, User, UserRole } from '../types';
+import { generateTemporaryPassword } from '../utils/passwordPolicy';
+import { authService } from './AuthService';
+import { roleService } from './RoleService';
+
+export interface ManagedUser {
+  user: User;
+  activeSessions: number;
+  twoFactorEnabled: boolean;
+}
+
+export interface UserInvite {
+  user: User;
+  // Handed to the new user; it must be changed at their first login
+  temporaryPassword: string;
+}
+
+/**
+ * Admin user management: list, invite, deactivate/reactivate and change
+ * roles. Password resets go through AuthService. Every change needs
+ * canManageUsers and is audited; admins can't lock themselves or the store
+ * out by deactivating or demoting the last active admin.
+ */
+export class UserManagementService {
+  private static instance: UserManagementService;
+
+  private constructor() {}
+
+  public static getInstance(): UserManagementService {
+    if (!UserManagementService.instance) {
+      UserManagementService.instance = new UserManagementService();
+    }
+    return UserManagementService.instance;
+  }
+
+  /**
+   * Every user, active or not, with their session count and two-factor
+   * state, optionally filtered by name, username, email or role
+   */
+  public async getUsers(search: string = ''): Promise<ManagedUser[]> {
+    authService.requirePermission('canManageUsers');
+
+    try {
+      const [users, sessionCounts] = await Promise.all([
+        database.getAllUsers(),
+        database.getActiveSessionCounts(),
+      ]);
+      const term = search.trim().toLowerCase();
+      const matches = users.filter(user =>
+        !term || [user.firstName, user.lastName, user.username, user.email, user.role]
+          .some(value => value.toLowerCase().includes(term))
+      );
+
+      return await Promise.all(
+        matches.map(async user => ({
+          user,
+          activeSessions: sessionCounts[user.id] || 0,
+          twoFactorEnabled: !!(await database.getUserTotp(user.id))?.confirmed,
+        }))
+      );
+    } catch (error) {
+      console.error('Failed to load users:', error);
+      throw new Error('Failed to load users');
+    }
+  }
+
+  /**
+   * Create a user with a temporary password to hand over, so an admin never
+   * has to pick (or learn) someone else's password
+   */
+  public async inviteUser(input: CreateUserInput): Promise<UserInvite> {
+    authService.requirePermission('canManageUsers');
+    await this.assertRoleExists(input.role);
+
+    const temporaryPassword = generateTemporaryPassword();
+    const user = await authService.createUser(
+      { ...input, username: input.username.trim(), email: input.email.trim() },
+      temporaryPassword,
+      true
+    );
+
+    await this.logAudit('user_invited', { userId: user.id, username: user.username, role: user.role });
+    console.log(`✉️ User invited: ${user.username}`);
+    return { user, temporaryPassword };
+  }
+
+  /**
+   * Deactivating signs the user out everywhere and blocks every way of
+   * signing in; their sales and audit history stay
+   */
+  public async setUserActive(userId: string, isActive: boolean): Promise<User> {
+    authService.requirePermission('canManageUsers');
+
+    const user = await this.getUser(userId);
+    if (user.isActive === isActive) {
+      return user;
+    }
+    if (!isActive) {
+      if (userId === (await authService.getCurrentUser())?.id) {
+        throw new Error('You cannot deactivate your own account');
+      }
+      await this.assertNotLastAdmin(user);
+    }
+
+    let updated: User;
+    try {
+      updated = await database.updateUser({ id: userId, isActive });
+      if (!isActive) {
+        await database.deleteUserAuthSessions(userId);
+      }
+    } catch (error) {
+      console.error('Failed to update user status:', error);
+      throw new Error(isActive ? 'Failed to reactivate user' : 'Failed to deactivate user');
+    }
+
+    await this.logAudit(isActive ? 'user_reactivated' : 'user_deactivated', {
+      userId,
+      username: user.username,
+    });
+    return updated;
+  }
+
+  public async changeUserRole(userId: string, role: UserRole): Promise<User> {
+    authService.requirePermission('canManageUsers');
+
+    const user = await this.getUser(userId);
+    if (user.role === role) {
+      return user;
+    }
+    if (userId === (await authService.getCurrentUser())?.id) {
+      throw new Error('You cannot change your own role');
+    }
+    await this.assertRoleExists(role);
+    await this.assertNotLastAdmin(user);
+
+    let updated: User;
+    try {
+      updated = await database.updateUser({ id: userId, role });
+    } catch (error) {
+      console.error('Failed to change user role:', error);
+      throw new Error('Failed to change user role');
+    }
+
+    await this.logAudit('user_role_changed', {
+      userId,
+      username: user.username,
+      role,
+      previousRole: user.role,
+    });
+    return updated;
+  }
+
+  private async getUser(userId: string): Promise<User> {
+    const user = await database.getUser(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+
+  private async assertRoleExists(role: UserRole): Promise<void> {
+    const roles = await roleService.getRoles();
+    if (!roles.some(existing => existing.id === role)) {
+      throw new Error('Role not found');
+    }
+  }
+
+  // Called before `user` stops being an active admin
+  private async assertNotLastAdmin(user: User): Promise<void> {
+    if (user.role !== 'admin' || !user.isActive) {
+      return;
+    }
+    const admins = (await database.getAllUsers()).filter(other => other.role === 'admin' && other.isActive);
+    if (admins.length <= 1) {
+      throw new Error('At least one active admin is required');
+    }
+  }
+
+  private async logAudit(action: string, details: Record<string, unknown>): Promise<void> {
+    try {
+      const currentUser = await authService.getCurrentUser();
+      await database.logAuditEvent(currentUser?.id || null, action, 'user_management', details);
+    } catch (error) {
+      console.error('Failed to log user change:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const userManagementService = UserManagementService.getInstance();
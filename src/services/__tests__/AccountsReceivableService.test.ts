@@ -0,0 +1,157 @@
+import { accountsReceivableService } from '../AccountsReceivableService';
+import { authService } from '../AuthService';
+import { documentService } from '../DocumentService';
+import { Customer, RetailTransaction } from '../../types';
+
+const mockStore = new Map<string, string>();
+const mockCustomer: Customer = {
+  id: 'cust-1',
+  name: 'Harbor Cafe',
+  taxExempt: false,
+  creditLimit: 500,
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+};
+
+jest.mock('../StorageService', () => ({
+  storageService: {
+    getItem: jest.fn(async (key) => mockStore.get(key) ?? null),
+    setItem: jest.fn(async (key, value) => {
+      mockStore.set(key, value);
+    }),
+    getAllKeys: jest.fn(async () => Array.from(mockStore.keys())),
+  },
+}));
+
+jest.mock('../BusinessConfigService', () => {
+  let mockInvoiceNumber = 0;
+  return {
+    businessConfigService: {
+      getBusinessInfo: jest.fn(async () => ({
+        name: 'Corner Shop',
+        address: { street: '1 Main St', city: 'Springfield', state: 'IL', zipCode: '62701', country: 'US' },
+        contact: { phone: '555-0100', email: 'shop@example.com' },
+        tax: {},
+        branding: { primaryColor: '#27ae60', accentColor: '#2c3e50' },
+      })),
+      getDocumentSettings: jest.fn(async () => ({
+        defaultTemplate: { receipt: 'default_receipt', invoice: 'default_invoice' },
+        defaultTerms: { paymentDays: 30, paymentTerms: 'Net 30' },
+      })),
+      getNextInvoiceNumber: jest.fn(async () => `INV-${++mockInvoiceNumber}`),
+    },
+  };
+});
+
+jest.mock('../CustomerService', () => ({
+  customerService: {
+    getCustomer: jest.fn(async (id) => (id === mockCustomer.id ? mockCustomer : null)),
+    toCustomerInfo: jest.fn((customer) => ({ id: customer.id, name: customer.name })),
+  },
+}));
+
+jest.mock('../../stores/DatabaseFactory', () => ({ database: { logAuditEvent: jest.fn() } }));
+jest.mock('../GiftCardService', () => ({ giftCardService: {} }));
+jest.mock('../LoyaltyService', () => ({ loyaltyService: {} }));
+jest.mock('../AuthService', () => ({
+  authService: {
+    requirePermission: jest.fn(),
+    getCurrentUser: jest.fn(async () => ({ id: 'cashier-001' })),
+  },
+}));
+
+const sale = (id: string, tenders: RetailTransaction['tenders'], grandTotal: number): RetailTransaction => ({
+  id,
+  businessDate: '2026-06-10',
+  startTime: '2026-06-10T15:00:00.000Z',
+  timestamp: new Date('2026-06-10T15:00:00.000Z'),
+  status: 'completed',
+  operatorId: 'cashier-001',
+  customerId: 'cust-1',
+  items: [{ lineNumber: 1, productId: 7, name: 'Beans', quantity: 1, unitPrice: grandTotal, price: grandTotal,
+    lineTotal: { net: grandTotal, tax: 0, gross: grandTotal } }],
+  tenders,
+  totals: { subTotal: grandTotal, discountTotal: 0, taxTotal: 0, grandTotal, currency: 'USD' },
+});
+
+describe('AccountsReceivableService', () => {
+  beforeEach(() => {
+    mockStore.clear();
+    jest.clearAllMocks();
+  });
+
+  it('invoices account charges and pays them down to paid', async () => {
+    await expect(accountsReceivableService.assertCanCharge(undefined, 10))
+      .rejects.toThrow('Attach a customer to charge to account');
+    await expect(accountsReceivableService.assertCanCharge('cust-1', 500.01))
+      .rejects.toThrow("Charge exceeds Harbor Cafe's credit limit: $500.00 available");
+
+    const invoice = await accountsReceivableService.chargeSale(sale('TXN_1', [
+      { type: 'cash', amount: 50 },
+      { type: 'on_account', amount: 120 },
+      { type: 'cash', amount: -10 },
+    ], 160));
+
+    expect(invoice).toMatchObject({ status: 'sent', customerId: 'cust-1', paidAmount: 40, remainingBalance: 120 });
+    expect(invoice!.payments).toEqual([expect.objectContaining({ method: 'cash', amount: 40 })]);
+    expect(await accountsReceivableService.getAccount('cust-1')).toMatchObject({ balance: 120, available: 380 });
+
+    await expect(accountsReceivableService.recordPayment(invoice!.id, 150, 'check'))
+      .rejects.toThrow('Payment exceeds the $120.00 due on invoice INV-1');
+    const partial = await accountsReceivableService.recordPayment(invoice!.id, 100, 'check', ' 1042 ');
+    expect(partial).toMatchObject({ status: 'sent', paidAmount: 140, remainingBalance: 20 });
+    expect(partial.payments![1]).toMatchObject({ method: 'check', reference: '1042', userId: 'cashier-001' });
+
+    const paid = await accountsReceivableService.recordPayment(invoice!.id, 20, 'cash');
+    expect(paid).toMatchObject({ status: 'paid', remainingBalance: 0 });
+    expect(paid.paidAt).toBeInstanceOf(Date);
+    expect(authService.requirePermission).toHaveBeenCalledWith('canProcessSales');
+    expect(await accountsReceivableService.getOpenInvoices('cust-1')).toEqual([]);
+  });
+
+  it('cancels the invoice of a charge whose sale was not saved', async () => {
+    const charged = sale('TXN_2', [{ type: 'on_account', amount: 80 }], 80);
+    const invoice = await accountsReceivableService.chargeSale(charged);
+    expect(await accountsReceivableService.getAccount('cust-1')).toMatchObject({ balance: 80 });
+
+    await accountsReceivableService.cancelCharge(charged);
+    await accountsReceivableService.cancelCharge(charged);
+
+    expect(await documentService.getInvoice(invoice!.id)).toMatchObject({ status: 'cancelled' });
+    expect(await accountsReceivableService.getAccount('cust-1')).toMatchObject({ balance: 0, available: 500 });
+    await expect(accountsReceivableService.recordPayment(invoice!.id, 10, 'cash'))
+      .rejects.toThrow('Cannot record a payment on a cancelled invoice');
+  });
+
+  it('ages open invoices and marks them overdue past their due date', async () => {
+    const recent = await accountsReceivableService.chargeSale(sale('TXN_1', [{ type: 'on_account', amount: 100 }], 100));
+    const old = await accountsReceivableService.chargeSale(sale('TXN_2', [{ type: 'on_account', amount: 60 }], 60));
+
+    // Back-date the second invoice so it fell due 45 days ago
+    const stored = JSON.parse(mockStore.get(`invoices_${old!.id}`)!);
+    stored.dueDate = new Date(Date.now() - 45 * 24 * 60 * 60 * 1000).toISOString();
+    mockStore.set(`invoices_${old!.id}`, JSON.stringify(stored));
+
+    expect((await documentService.getInvoice(old!.id))!.status).toBe('overdue');
+    expect((await documentService.getInvoice(recent!.id))!.status).toBe('sent');
+
+    const report = await accountsReceivableService.getAgedReceivables();
+    expect(authService.requirePermission).toHaveBeenCalledWith('canViewReports');
+    expect(report.totals).toEqual({ current: 100, days1to30: 0, days31to60: 60, days61to90: 0, over90: 0 });
+    expect(report.customers).toEqual([
+      expect.objectContaining({ customerId: 'cust-1', name: 'Harbor Cafe', total: 160 }),
+    ]);
+
+    const statement = await accountsReceivableService.getStatement('cust-1');
+    expect(statement.invoices.map(invoice => [invoice.documentNumber, invoice.daysOverdue]))
+      .toEqual([[old!.documentNumber, 45], [recent!.documentNumber, 0]]);
+    expect(statement).toMatchObject({ balance: 160, creditLimit: 500 });
+
+    // A return can only credit what is still owed; the rest goes back as cash
+    const tenders = await accountsReceivableService.limitAccountRefunds(
+      sale('TXN_2', [], 60),
+      [{ type: 'on_account', amount: 80 }]
+    );
+    expect(tenders).toEqual([{ type: 'on_account', amount: 60 }, { type: 'cash', amount: 20 }]);
+  });
+});
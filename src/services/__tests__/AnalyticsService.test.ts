@@ -0,0 +1,73 @@
+import { RetailTransaction } from '../../types';
+import { analyticsService } from '../AnalyticsService';
+import { salesService } from '../SimpleSalesService';
+import { standardPOSService } from '../StandardPOSService';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({}));
+jest.mock('../../stores/DatabaseFactory', () => ({ database: {} }));
+jest.mock('../AccountsReceivableService', () => ({ accountsReceivableService: {} }));
+jest.mock('../AuthService', () => ({ authService: {} }));
+jest.mock('../DiscountService', () => ({ discountService: {} }));
+jest.mock('../GiftCardService', () => ({ giftCardService: {} }));
+jest.mock('../LoyaltyService', () => ({ loyaltyService: {} }));
+jest.mock('../ProfileService', () => ({ profileService: {} }));
+jest.mock('../QuoteService', () => ({ quoteService: {} }));
+jest.mock('../TaxService', () => ({ taxService: {} }));
+jest.mock('../ProductService', () => ({ productService: { getProduct: jest.fn(async () => null) } }));
+jest.mock('../SalesService', () => ({
+  salesService: { getTransactions: jest.fn(async () => mockTransactions) },
+}));
+
+const transaction = (
+  id: string,
+  status: RetailTransaction['status'],
+  grandTotal: number
+): RetailTransaction => ({
+  id,
+  businessDate: '2026-06-10',
+  startTime: '2026-06-10T15:00:00.000Z',
+  timestamp: new Date(2026, 5, 10, 15),
+  status,
+  items: [{ lineNumber: 1, productId: 1, name: 'Mug', quantity: 1, unitPrice: 10, price: 10,
+    lineTotal: { net: grandTotal, tax: 0, gross: grandTotal } }],
+  tenders: [{ type: 'card', amount: grandTotal }],
+  totals: { subTotal: grandTotal, discountTotal: 0, taxTotal: 1, grandTotal, currency: 'USD' },
+});
+
+const mockTransactions = [
+  transaction('TXN_1', 'completed', 20),
+  transaction('TXN_2', 'completed', 30),
+  transaction('TXN_3', 'returned', -5),
+  transaction('TXN_4', 'voided', 40),
+  transaction('TXN_5', 'inProgress', 60),
+];
+
+describe('sales summaries', () => {
+  const start = new Date(2026, 5, 10);
+  const end = new Date(2026, 5, 10, 23, 59, 59);
+
+  it('leave voided and in-progress transactions out of every summary', async () => {
+    expect(await analyticsService.getDailySummary(start, end)).toMatchObject({
+      totalSales: 2,
+      totalRevenue: 45,
+      totalTax: 3,
+      paymentMethods: { card: { count: 2, amount: 45 } },
+    });
+    expect(await analyticsService.getTimeRangeAnalytics(start, end)).toMatchObject({
+      totalSales: 2,
+      totalRevenue: 45,
+      averageTransaction: 22.5,
+    });
+    expect(await salesService.getSalesStatistics(start, end)).toMatchObject({
+      totalSales: 2,
+      totalRevenue: 45,
+      paymentMethodBreakdown: { card: { count: 2, amount: 45 } },
+    });
+    expect(await salesService.getSalesStatistics()).toMatchObject({ totalSales: 2, totalRevenue: 45 });
+    expect(await standardPOSService.getTransactionStatistics(start, end)).toMatchObject({
+      totalTransactions: 2,
+      totalRevenue: 45,
+    });
+    expect((await salesService.getAllSales()).map(sale => sale.id)).toEqual(['TXN_1', 'TXN_2', 'TXN_3']);
+  });
+});
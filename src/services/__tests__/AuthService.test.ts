@@ -0,0 +1,361 @@
+import { User } from '../../types';
+import { authService, TwoFactorRequiredError } from '../AuthService';
+import { database } from '../../stores/DatabaseFactory';
+import { generateTotp } from '../../utils/totp';
+
+jest.mock('@react-native-async-storage/async-storage', () => {
+  const store: Record<string, string> = {};
+  return {
+    getItem: jest.fn(async (key: string) => store[key] ?? null),
+    setItem: jest.fn(async (key: string, value: string) => {
+      store[key] = value;
+    }),
+    removeItem: jest.fn(async (key: string) => {
+      delete store[key];
+    }),
+  };
+});
+
+const mockUsers: User[] = [];
+const mockPasswords = new Map<string, { passwordHash: string; salt: string; mustChange?: boolean }>();
+const mockPins = new Map<string, { userId: string; pinHash: string; salt: string }>();
+const mockLoginAttempts = new Map<string, any>();
+const mockResetCodes = new Map<string, any>();
+const mockTotp = new Map<string, any>();
+const mockSessions = new Map<string, any>();
+
+jest.mock('../../stores/DatabaseFactory', () => ({
+  database: {
+    getAllUsers: jest.fn(async () => mockUsers),
+    getUser: jest.fn(async (id) => mockUsers.find(user => user.id === id) || null),
+    getUserByUsername: jest.fn(async (username) => mockUsers.find(user => user.username === username) || null),
+    createUser: jest.fn(async (input) => {
+      const user = { ...input, id: `user-${mockUsers.length + 1}`, isActive: true, createdAt: new Date(), updatedAt: new Date() };
+      mockUsers.push(user);
+      return user;
+    }),
+    updateUser: jest.fn(async (user) => user),
+    saveUserPassword: jest.fn(async (userId, passwordHash, salt, mustChange) => {
+      mockPasswords.set(userId, { passwordHash, salt, mustChange });
+    }),
+    getUserPassword: jest.fn(async (userId) => mockPasswords.get(userId) || null),
+    saveUserPin: jest.fn(async (userId, pinHash, salt) => {
+      mockPins.set(userId, { userId, pinHash, salt });
+    }),
+    getUserPin: jest.fn(async (userId) => mockPins.get(userId) || null),
+    getUserPins: jest.fn(async () => Array.from(mockPins.values())),
+    deleteUserPin: jest.fn(async (userId) => {
+      mockPins.delete(userId);
+    }),
+    saveAuthSession: jest.fn(async (id, userId, token, expiresAt, device) => {
+      mockSessions.set(token, { id, userId, token, expiresAt, createdAt: new Date(), lastSeenAt: new Date(), ...device });
+    }),
+    getAuthSession: jest.fn(async (token) => mockSessions.get(token) || null),
+    deleteAuthSession: jest.fn(async (token) => mockSessions.delete(token)),
+    deleteAuthSessionById: jest.fn(async (id) => {
+      const session = Array.from(mockSessions.values()).find(existing => existing.id === id);
+      return !!session && mockSessions.delete(session.token);
+    }),
+    deleteUserAuthSessions: jest.fn(async (userId, exceptToken) => {
+      const ended = Array.from(mockSessions.values()).filter(session => session.userId === userId && session.token !== exceptToken);
+      ended.forEach(session => mockSessions.delete(session.token));
+      return ended.length;
+    }),
+    getUserAuthSessions: jest.fn(async (userId) =>
+      Array.from(mockSessions.values())
+        .filter(session => session.userId === userId)
+        .map(({ token, ...session }) => session)
+    ),
+    renewAuthSession: jest.fn(async (token, expiresAt) => {
+      const session = mockSessions.get(token);
+      if (session) {
+        Object.assign(session, { expiresAt, lastSeenAt: new Date() });
+      }
+      return !!session;
+    }),
+    getUserProfile: jest.fn(async () => ({ id: 'profile-1' })),
+    getRoles: jest.fn(async () => []),
+    getBusinessSettings: jest.fn(async () => null),
+    getLoginAttempt: jest.fn(async (key) => mockLoginAttempts.get(key) || null),
+    getLoginAttempts: jest.fn(async () => Array.from(mockLoginAttempts.values())),
+    saveLoginAttempt: jest.fn(async (record) => {
+      mockLoginAttempts.set(record.key, record);
+    }),
+    deleteLoginAttempt: jest.fn(async (key) => {
+      mockLoginAttempts.delete(key);
+    }),
+    savePasswordResetCode: jest.fn(async (code) => {
+      mockResetCodes.set(code.userId, code);
+    }),
+    getPasswordResetCode: jest.fn(async (userId) => mockResetCodes.get(userId) || null),
+    deletePasswordResetCode: jest.fn(async (userId) => {
+      mockResetCodes.delete(userId);
+    }),
+    getUserTotp: jest.fn(async (userId) => mockTotp.get(userId) || null),
+    saveUserTotp: jest.fn(async (record) => {
+      mockTotp.set(record.userId, record);
+    }),
+    deleteUserTotp: jest.fn(async (userId) => {
+      mockTotp.delete(userId);
+    }),
+    logAuditEvent: jest.fn(),
+  },
+}));
+
+// Admin roles must enroll before their session grants anything
+const enrollTwoFactor = async () => {
+  const { secret } = await authService.beginTwoFactorEnrollment();
+  await authService.confirmTwoFactorEnrollment(generateTotp(secret));
+};
+
+describe('AuthService passwords', () => {
+  beforeEach(async () => {
+    await authService.logout();
+    mockUsers.length = 0;
+    mockPasswords.clear();
+    mockPins.clear();
+    mockLoginAttempts.clear();
+    mockResetCodes.clear();
+    mockTotp.clear();
+    mockSessions.clear();
+    jest.clearAllMocks();
+  });
+
+  it('seeds the default admin with a hashed password that must be changed', async () => {
+    await authService.initialize();
+
+    const admin = mockUsers[0];
+    const stored = mockPasswords.get(admin.id)!;
+    expect(stored.passwordHash).toMatch(/^pbkdf2_sha256\$/);
+    expect(stored.mustChange).toBe(true);
+
+    const session = await authService.login({ username: 'admin', password: 'admin123' });
+    expect(session.mustChangePassword).toBe(true);
+
+    await expect(authService.changePassword(admin.id, 'wrong', 'n3w-secret')).rejects.toThrow(
+      'Current password is incorrect'
+    );
+    await authService.changePassword(admin.id, 'admin123', 'n3w-secret');
+
+    expect(mockPasswords.get(admin.id)!.mustChange).toBe(false);
+    expect((await authService.getCurrentSession())?.mustChangePassword).toBe(false);
+    await expect(authService.login({ username: 'admin', password: 'admin123' })).rejects.toThrow(
+      'Invalid username or password'
+    );
+  });
+
+  it('re-hashes a legacy plaintext password on the next successful login', async () => {
+    const user = await database.createUser({
+      username: 'cashier',
+      email: 'cashier@example.com',
+      firstName: 'Cam',
+      lastName: 'Lee',
+      role: 'cashier',
+    });
+    mockPasswords.set(user.id, { passwordHash: 'letmein', salt: 'default-salt' });
+
+    await expect(authService.login({ username: 'cashier', password: 'wrong' })).rejects.toThrow();
+    expect(mockPasswords.get(user.id)!.passwordHash).toBe('letmein');
+
+    await authService.login({ username: 'cashier', password: 'letmein' });
+
+    const upgraded = mockPasswords.get(user.id)!;
+    expect(upgraded.passwordHash).toMatch(/^pbkdf2_sha256\$\d+\$[0-9a-f]{64}$/);
+    expect(upgraded.salt).not.toBe('default-salt');
+    expect(database.logAuditEvent).toHaveBeenCalledWith(null, 'password_rehashed', 'auth', { userId: user.id });
+    expect(await authService.verifyCredentials('cashier', 'letmein')).toEqual(expect.objectContaining({ id: user.id }));
+  });
+
+  it('switches the operator with a PIN', async () => {
+    const create = (username: string) =>
+      authService.createUser(
+        { username, email: `${username}@example.com`, firstName: username, lastName: 'Test', role: 'cashier' },
+        'password1'
+      );
+    const first = await create('first');
+    const second = await create('second');
+
+    await expect(authService.setPin(second.id, '12ab', 'password1')).rejects.toThrow('PIN must be 4 to 6 digits');
+    await expect(authService.setPin(second.id, '4321', 'wrong')).rejects.toThrow('Current password is incorrect');
+    await authService.setPin(second.id, '4321', 'password1');
+    expect(mockPins.get(second.id)!.pinHash).not.toContain('4321');
+
+    const firstSession = await authService.login({ username: 'first', password: 'password1' });
+    await expect(authService.loginWithPin(second.id, '1234')).rejects.toThrow('Incorrect PIN');
+    await expect(authService.loginWithPin(first.id, '4321')).rejects.toThrow('Incorrect PIN');
+
+    await authService.loginWithPin(second.id, '4321');
+
+    expect((await authService.getCurrentUser())?.id).toBe(second.id);
+    expect(database.deleteAuthSession).toHaveBeenCalledWith(firstSession.token);
+    expect(database.logAuditEvent).toHaveBeenCalledWith(second.id, 'operator_switched', 'auth',
+      expect.objectContaining({ userId: second.id, previousUserId: first.id }));
+    expect(await authService.getRegisterOperators()).toEqual([
+      { user: expect.objectContaining({ id: first.id }), hasPin: false, needsTwoFactor: false },
+      { user: expect.objectContaining({ id: second.id }), hasPin: true, needsTwoFactor: false },
+    ]);
+  });
+
+  it('backs off, then locks a username out until an admin unlocks it', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-02T09:00:00Z') });
+    try {
+      await authService.initialize();
+      await authService.createUser(
+        { username: 'cashier', email: 'cashier@example.com', firstName: 'Cam', lastName: 'Lee', role: 'cashier' },
+        'password1'
+      );
+      const attempt = (password: string) => authService.login({ username: 'cashier', password });
+
+      for (let i = 0; i < 3; i++) {
+        await expect(attempt('wrong')).rejects.toThrow('Invalid username or password');
+      }
+      await expect(attempt('password1')).rejects.toThrow('Please wait 1 second');
+      jest.advanceTimersByTime(1000);
+      await expect(attempt('wrong')).rejects.toThrow('Invalid username or password');
+      jest.advanceTimersByTime(2000);
+      await expect(attempt('wrong')).rejects.toThrow('Invalid username or password');
+
+      await expect(attempt('password1')).rejects.toThrow('Try again in 15 minutes');
+      expect(database.logAuditEvent).toHaveBeenCalledWith(null, 'account_locked', 'auth',
+        expect.objectContaining({ key: 'user:cashier', failures: 5 }));
+
+      jest.advanceTimersByTime(4000);
+      await authService.login({ username: 'admin', password: 'admin123' });
+      await enrollTwoFactor();
+      expect(await authService.getLockedAccounts()).toEqual([expect.objectContaining({ key: 'user:cashier' })]);
+
+      await authService.unlockAccount('user:cashier');
+      expect((await attempt('password1')).user.username).toBe('cashier');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('lets an admin issue a temporary password or a one-time reset code', async () => {
+    await authService.initialize();
+    const cashier = await authService.createUser(
+      { username: 'cashier', email: 'cashier@example.com', firstName: 'Cam', lastName: 'Lee', role: 'cashier' },
+      'password1'
+    );
+    await expect(
+      authService.createUser({ username: 'weak', email: 'weak@example.com', firstName: 'W', lastName: 'K', role: 'cashier' }, 'letters')
+    ).rejects.toThrow('Password must be at least 8 characters long');
+
+    await authService.login({ username: 'admin', password: 'admin123' });
+    await enrollTwoFactor();
+    const temporary = await authService.issueTemporaryPassword(cashier.id);
+    const { code } = await authService.issueResetCode(cashier.id);
+    await authService.logout();
+
+    const session = await authService.login({ username: 'cashier', password: temporary });
+    expect(session.mustChangePassword).toBe(true);
+    await expect(authService.changePassword(cashier.id, temporary, 'cashier99')).rejects.toThrow(
+      'Password must not contain your username'
+    );
+    await authService.logout();
+
+    const reset = { email: '', username: 'cashier', newPassword: 'fresh-start9' };
+    await expect(authService.resetPassword({ ...reset, resetToken: 'AAAA-AAAA' })).rejects.toThrow(
+      'Invalid or expired reset code'
+    );
+    await authService.resetPassword({ ...reset, resetToken: code.toLowerCase() });
+    await expect(authService.resetPassword({ ...reset, resetToken: code })).rejects.toThrow(
+      'Invalid or expired reset code'
+    );
+
+    expect((await authService.login({ username: 'cashier', password: 'fresh-start9' })).mustChangePassword).toBe(false);
+    expect(database.logAuditEvent).toHaveBeenCalledWith(expect.anything(), 'password_reset_code_issued', 'user_management',
+      expect.objectContaining({ userId: cashier.id }));
+  });
+
+  it('requires an authenticator code or a recovery code once an admin enrolls', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-02T09:00:00Z') });
+    try {
+      await authService.initialize();
+      const admin = mockUsers[0];
+      expect((await authService.login({ username: 'admin', password: 'admin123' })).mustEnrollTwoFactor).toBe(true);
+      expect(() => authService.requirePermission('canManageUsers')).toThrow('Access denied');
+
+      const { secret, uri } = await authService.beginTwoFactorEnrollment();
+      expect(uri).toContain(`secret=${secret}`);
+      await expect(authService.confirmTwoFactorEnrollment('000000')).rejects.toThrow('That code is not valid');
+      const firstCode = generateTotp(secret);
+      const recoveryCodes = await authService.confirmTwoFactorEnrollment(firstCode);
+      expect(recoveryCodes).toHaveLength(10);
+      expect(mockTotp.get(admin.id).recoveryCodeHashes).not.toContain(recoveryCodes[0]);
+      expect(() => authService.requirePermission('canManageUsers')).not.toThrow();
+      await authService.setPin(admin.id, '2468', 'admin123');
+      await authService.logout();
+
+      const credentials = { username: 'admin', password: 'admin123' };
+      await expect(authService.login(credentials)).rejects.toBeInstanceOf(TwoFactorRequiredError);
+      await expect(authService.login({ ...credentials, totpCode: firstCode })).rejects.toThrow('Invalid authentication code');
+
+      jest.advanceTimersByTime(30 * 1000);
+      const session = await authService.login({ ...credentials, totpCode: generateTotp(secret) });
+      expect(session.mustEnrollTwoFactor).toBe(false);
+      await authService.logout();
+
+      // Manager overrides need the same second factor, and a PIN alone won't do
+      expect(await authService.verifyCredentials('admin', '2468')).toBeNull();
+      await expect(authService.verifyCredentials('admin', 'admin123')).rejects.toBeInstanceOf(TwoFactorRequiredError);
+      jest.advanceTimersByTime(30 * 1000);
+      expect(await authService.verifyCredentials('admin', 'admin123', generateTotp(secret))).toEqual(admin);
+
+      await authService.login({ ...credentials, totpCode: recoveryCodes[0].toUpperCase() });
+      await authService.logout();
+      await expect(authService.login({ ...credentials, totpCode: recoveryCodes[0] })).rejects.toThrow(
+        'Invalid authentication code'
+      );
+      expect((await authService.getTwoFactorStatus(admin.id)).recoveryCodesLeft).toBe(9);
+
+      await expect(authService.loginWithPin(admin.id, '2468')).rejects.toThrow(
+        'Sign in with your password and authenticator code'
+      );
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('slides sessions, lists them and signs other devices out after a password change', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-02T09:00:00Z') });
+    try {
+      const cashier = await authService.createUser(
+        { username: 'cashier', email: 'cashier@example.com', firstName: 'Cam', lastName: 'Lee', role: 'cashier' },
+        'password1'
+      );
+      const session = await authService.login({ username: 'cashier', password: 'password1' });
+      expect(session.token).toMatch(/^token-[0-9a-f]{64}$/);
+      expect(mockSessions.get(session.token).id).toMatch(/^session-[0-9a-f]{32}$/);
+      const otherDevice = () => mockSessions.set('token-other', {
+        id: 'session-other', userId: cashier.id, token: 'token-other', expiresAt: new Date('2026-03-02T17:00:00Z'),
+        createdAt: new Date(), deviceName: 'Android 14',
+      });
+      otherDevice();
+
+      expect(await authService.getUserSessions(cashier.id)).toEqual(expect.arrayContaining([
+        expect.objectContaining({ id: 'session-other', isCurrent: false }),
+        expect.objectContaining({ isCurrent: true }),
+      ]));
+      await expect(authService.getUserSessions('someone-else')).rejects.toThrow('Access denied');
+
+      jest.advanceTimersByTime(2 * 60 * 60 * 1000);
+      expect((await authService.getCurrentSession())!.expiresAt).toEqual(new Date('2026-03-02T19:00:00Z'));
+
+      await authService.revokeSession(cashier.id, 'session-other');
+      expect(mockSessions.has('token-other')).toBe(false);
+
+      otherDevice();
+      await authService.changePassword(cashier.id, 'password1', 'password2');
+      expect(Array.from(mockSessions.keys())).toEqual([session.token]);
+      expect(database.logAuditEvent).toHaveBeenCalledWith(cashier.id, 'sessions_revoked', 'auth',
+        expect.objectContaining({ reason: 'password_changed', count: 1 }));
+
+      mockSessions.delete(session.token);
+      expect(await authService.isSessionActive()).toBe(false);
+      expect(await authService.getCurrentSession()).toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
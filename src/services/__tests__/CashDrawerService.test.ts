@@ -0,0 +1,126 @@
+import { DrawerEvent, DrawerShift, RetailTransaction } from '../../types';
+import { cashDrawerService, countDenominations } from '../CashDrawerService';
+import { database } from '../../stores/DatabaseFactory';
+import { documentService } from '../DocumentService';
+
+const mockShifts = new Map<string, DrawerShift>();
+const mockEvents: DrawerEvent[] = [];
+const mockTransactions: RetailTransaction[] = [];
+
+jest.mock('../../stores/DatabaseFactory', () => ({
+  database: {
+    saveDrawerShift: jest.fn(async (shift) => {
+      mockShifts.set(shift.id, shift);
+      return shift;
+    }),
+    getDrawerShift: jest.fn(async (id) => mockShifts.get(id) || null),
+    getDrawerShifts: jest.fn(async ({ status } = {}) =>
+      Array.from(mockShifts.values()).filter(shift => !status || shift.status === status)
+    ),
+    saveDrawerEvent: jest.fn(async (event) => {
+      mockEvents.push(event);
+      return event;
+    }),
+    getDrawerEvents: jest.fn(async (shiftId) => mockEvents.filter(event => event.shiftId === shiftId)),
+    getTransactions: jest.fn(async () => mockTransactions),
+    getUser: jest.fn(),
+    logAuditEvent: jest.fn(),
+  },
+}));
+
+jest.mock('../AuthService', () => ({
+  authService: {
+    getCurrentUser: jest.fn(async () => ({ id: 'user-1', firstName: 'Ana', lastName: 'Diaz' })),
+  },
+}));
+
+jest.mock('../DocumentService', () => ({
+  documentService: {
+    generateShiftReport: jest.fn(async () => ({ success: true, documentId: 'shift_report_1' })),
+  },
+}));
+
+const transaction = (
+  status: RetailTransaction['status'],
+  grandTotal: number,
+  tenders: RetailTransaction['tenders']
+): RetailTransaction => ({
+  businessDate: '2026-01-01',
+  startTime: new Date().toISOString(),
+  timestamp: new Date(),
+  status,
+  items: [],
+  tenders,
+  totals: { subTotal: grandTotal, discountTotal: 0, taxTotal: 0, grandTotal, currency: 'USD' },
+});
+
+describe('CashDrawerService', () => {
+  beforeEach(() => {
+    mockShifts.clear();
+    mockEvents.length = 0;
+    mockTransactions.length = 0;
+    jest.clearAllMocks();
+  });
+
+  it('totals a denomination count', () => {
+    expect(countDenominations({ '20': 3, '1': 4, '0.25': 3, '0.1': 0 })).toBe(64.75);
+  });
+
+  it('closes a shift against the expected cash and produces a Z report', async () => {
+    await cashDrawerService.openShift(100);
+    await expect(cashDrawerService.openShift(50)).rejects.toThrow('A shift is already open on this drawer');
+
+    mockTransactions.push(
+      transaction('completed', 18.5, [{ type: 'cash', amount: 20 }, { type: 'cash', amount: -1.5 }]),
+      transaction('completed', 40, [{ type: 'card', amount: 40 }]),
+      transaction('returned', -5, [{ type: 'cash', amount: -5 }]),
+      transaction('voided', 12, [{ type: 'cash', amount: 12 }])
+    );
+    await cashDrawerService.recordPaidIn(25, 'Change from bank');
+    await cashDrawerService.recordPaidOut(10, 'Window cleaner');
+    await cashDrawerService.recordNoSale();
+    await expect(cashDrawerService.recordPaidOut(500, 'Too much')).rejects.toThrow('Only $128.50 is in the drawer');
+
+    const summary = await cashDrawerService.getShiftSummary();
+    expect(summary).toEqual(expect.objectContaining({
+      saleCount: 2,
+      returnCount: 1,
+      grossSales: 58.5,
+      refunds: 5,
+      cashSales: 13.5,
+      paidIn: 25,
+      paidOut: 10,
+      noSaleCount: 1,
+      expectedCash: 128.5,
+    }));
+
+    // $128.00 counted: 50 cents short
+    const result = await cashDrawerService.closeShift({ '100': 1, '20': 1, '5': 1, '1': 3 });
+
+    expect(result.shift).toEqual(expect.objectContaining({
+      status: 'closed',
+      closedBy: 'user-1',
+      countedCash: 128,
+      expectedCash: 128.5,
+      overShort: -0.5,
+    }));
+    expect(documentService.generateShiftReport).toHaveBeenCalledWith(
+      expect.objectContaining({ overShort: -0.5 }),
+      'z_report',
+      expect.objectContaining({ generatedBy: expect.objectContaining({ id: 'user-1' }) })
+    );
+    expect(database.logAuditEvent).toHaveBeenCalledWith('user-1', 'drawer_shift_closed', 'drawer_shifts',
+      expect.objectContaining({ shiftId: result.shift.id, documentId: 'shift_report_1', overShort: -0.5 }));
+    expect(await cashDrawerService.getCurrentShift()).toBeNull();
+  });
+
+  it('requires an open shift and a reason for cash movements', async () => {
+    await expect(cashDrawerService.recordNoSale()).rejects.toThrow('Open a shift before using the drawer');
+
+    await cashDrawerService.openShift({ '20': 5 });
+    await expect(cashDrawerService.recordPaidIn(10, ' ')).rejects.toThrow(
+      'A reason is required for paid-in and paid-out'
+    );
+    expect((await cashDrawerService.getCurrentShift())?.openingFloat).toBe(100);
+  });
+});
@@ -0,0 +1,90 @@
+import { customerService } from '../CustomerService';
+import { authService } from '../AuthService';
+import { database } from '../../stores/DatabaseFactory';
+import { Customer } from '../../types';
+
+const mockCustomers: Customer[] = [];
+
+jest.mock('../../stores/DatabaseFactory', () => ({
+  database: {
+    searchCustomers: jest.fn(async (query: string) =>
+      mockCustomers.filter(customer => customer.name.toLowerCase().includes(query.toLowerCase()))
+    ),
+    getCustomer: jest.fn(async (id) => mockCustomers.find(customer => customer.id === id) || null),
+    createCustomer: jest.fn(async (input) => {
+      const customer = { ...input, id: `cust-${mockCustomers.length + 1}`, createdAt: new Date(), updatedAt: new Date() };
+      mockCustomers.push(customer);
+      return customer;
+    }),
+    updateCustomer: jest.fn(async (input) => {
+      const index = mockCustomers.findIndex(existing => existing.id === input.id);
+      mockCustomers[index] = { ...mockCustomers[index], ...input };
+      return mockCustomers[index];
+    }),
+    logAuditEvent: jest.fn(),
+  },
+}));
+
+jest.mock('../AuthService', () => ({
+  authService: {
+    requirePermission: jest.fn(),
+    getCurrentUser: jest.fn(async () => ({ id: 'cashier-001' })),
+  },
+}));
+
+describe('CustomerService', () => {
+  beforeEach(() => {
+    mockCustomers.length = 0;
+    jest.clearAllMocks();
+  });
+
+  it('creates a customer with trimmed details and audits it', async () => {
+    const customer = await customerService.createCustomer({
+      name: '  Acme School  ',
+      email: ' office@acme.edu ',
+      phone: '',
+      taxExempt: true,
+      taxExemptionId: ' EX-42 ',
+    });
+
+    expect(customer).toEqual(expect.objectContaining({
+      name: 'Acme School',
+      email: 'office@acme.edu',
+      phone: undefined,
+      taxExempt: true,
+      taxExemptionId: 'EX-42',
+    }));
+    expect(authService.requirePermission).toHaveBeenCalledWith('canProcessSales');
+    expect(database.logAuditEvent).toHaveBeenCalledWith('cashier-001', 'customer_created', 'customers',
+      expect.objectContaining({ customerId: customer.id }));
+    expect(await customerService.searchCustomers('acme')).toEqual([customer]);
+    expect(customerService.toCustomerInfo(customer)).toEqual(expect.objectContaining({
+      id: customer.id,
+      name: 'Acme School',
+    }));
+  });
+
+  it('rejects a customer without a name, a bad email or an exemption without a certificate', async () => {
+    await expect(customerService.createCustomer({ name: ' ', taxExempt: false })).rejects.toThrow(
+      'Customer name is required'
+    );
+    await expect(customerService.createCustomer({ name: 'Ann', email: 'ann@', taxExempt: false })).rejects.toThrow(
+      'Enter a valid email address'
+    );
+    await expect(customerService.createCustomer({ name: 'Ann', taxExempt: true })).rejects.toThrow(
+      'A tax exemption certificate number is required'
+    );
+    expect(database.createCustomer).not.toHaveBeenCalled();
+  });
+
+  it('updates a customer and drops the certificate when no longer exempt', async () => {
+    const customer = await customerService.createCustomer({ name: 'Ann', taxExempt: true, taxExemptionId: 'EX-1' });
+
+    const updated = await customerService.updateCustomer({ id: customer.id, taxExempt: false, notes: 'Prefers email' });
+
+    expect(updated).toEqual(expect.objectContaining({ taxExempt: false, taxExemptionId: undefined, notes: 'Prefers email' }));
+    expect(database.logAuditEvent).toHaveBeenCalledWith('cashier-001', 'customer_updated', 'customers',
+      expect.objectContaining({ customerId: customer.id, taxExempt: false }));
+    await expect(customerService.updateCustomer({ id: 'missing', name: 'X' })).rejects.toThrow('Customer not found');
+  });
+});
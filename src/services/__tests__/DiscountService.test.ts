@@ -0,0 +1,114 @@
+import { CartItem, DiscountComponent } from '../../types';
+import { authService } from '../AuthService';
+import { discountService } from '../DiscountService';
+
+jest.mock('../../stores/DatabaseFactory', () => ({
+  database: { logAuditEvent: jest.fn() },
+}));
+
+jest.mock('../AuthService', () => ({
+  authService: {
+    hasPermission: jest.fn(() => false),
+    verifyCredentials: jest.fn(),
+    getPermissionsForUser: jest.fn(),
+    getCurrentUser: jest.fn(),
+  },
+}));
+
+const item = (id: string, price: number, quantity: number, extra: Partial<CartItem> = {}): CartItem => ({
+  id,
+  productId: Number(id),
+  name: `Item ${id}`,
+  sku: `SKU${id}`,
+  price,
+  unitPrice: price,
+  quantity,
+  ...extra,
+});
+
+describe('DiscountService', () => {
+  it('applies line discounts before cart discounts and allocates the cart discount', () => {
+    const cart = [
+      item('1', 10, 2, { discounts: [{ type: 'percent', value: 10, reason: 'Damaged' }] }),
+      item('2', 5, 1),
+    ];
+
+    const priced = discountService.priceCart(cart, [{ type: 'amount', value: 5, reason: 'Loyalty' }]);
+
+    expect(priced.subtotal).toBe(25);
+    expect(priced.discountTotal).toBe(7);
+    expect(priced.net).toBe(18);
+    // Line 1: 20 - 2 = 18 net before cart discount, takes 18/23 of the $5
+    expect(priced.lines[0].discounts.map(d => d.amount)).toEqual([2, 3.91]);
+    expect(priced.lines[1].discounts.map(d => d.amount)).toEqual([1.09]);
+    expect(priced.headerDiscounts[0].amount).toBe(5);
+  });
+
+  it('allocates exactly the cart discount when shares round up', () => {
+    const cart = [item('1', 1.01, 1), item('2', 1.01, 1), item('3', 1.01, 1), item('4', 0.01, 1)];
+
+    const priced = discountService.priceCart(cart, [{ type: 'percent', value: 40, reason: 'Promo' }]);
+
+    // Each $1.01 line rounds up to $0.41, one cent more than the $1.22 discount
+    expect(priced.headerDiscounts[0].amount).toBe(1.22);
+    expect(priced.lines.map(line => line.discountTotal)).toEqual([0.4, 0.41, 0.41, 0]);
+    expect(priced.discountTotal).toBe(1.22);
+    expect(priced.lines.every(line => line.net >= 0)).toBe(true);
+  });
+
+  it('leaves gift cards out of cart discounts', () => {
+    const cart = [item('1', 20, 1), item('0', 50, 1, { giftCardCode: '1234567890' })];
+
+    const priced = discountService.priceCart(cart, [{ type: 'percent', value: 10, reason: 'Promo' }]);
+
+    expect(priced.discountTotal).toBe(2);
+    expect(priced.lines.map(line => line.net)).toEqual([18, 50]);
+  });
+
+  it('never discounts more than the line is worth', () => {
+    const cart = [item('1', 3, 1, { discounts: [{ type: 'amount', value: 10, reason: 'Promo' }] })];
+
+    const priced = discountService.priceCart(cart);
+
+    expect(priced.lines[0].net).toBe(0);
+    expect(priced.discountTotal).toBe(3);
+  });
+
+  it('requires manager approval when the operator cannot discount', () => {
+    expect(() =>
+      discountService.assertDiscountsAuthorized([{ type: 'percent', value: 5, reason: 'Promo' }])
+    ).toThrow('Manager approval required for discounts');
+
+    // A manager's id on the discount is not an approval
+    expect(() =>
+      discountService.assertDiscountsAuthorized([
+        { type: 'percent', value: 5, reason: 'Promo', approvedBy: 'manager-1' },
+      ])
+    ).toThrow('Manager approval required for discounts');
+  });
+
+  it('binds an approval to one discount, up to its amount, and uses it once', async () => {
+    (authService.verifyCredentials as jest.Mock).mockResolvedValue({ id: 'manager-1', firstName: 'Mia', lastName: 'Cruz' });
+    (authService.getPermissionsForUser as jest.Mock).mockReturnValue({ canDiscountItems: true });
+    const assert = (...discounts: DiscountComponent[]) => () => discountService.assertDiscountsAuthorized(discounts);
+    const discount: DiscountComponent = { id: 'disc_1', type: 'percent', value: 10, reason: 'Promo' };
+
+    await expect(discountService.approveDiscount(discount, { username: 'mia', password: '2468' })).rejects.toThrow(
+      'A percentage discount needs the amount it applies to'
+    );
+    // 10% of 50
+    const approved = await discountService.approveDiscount(discount, { username: 'mia', password: '2468' }, 50);
+    expect(approved.approvedBy).toBe('manager-1');
+
+    expect(assert({ ...approved, amount: 5 })).not.toThrow();
+    expect(assert({ ...approved, amount: 6 })).toThrow('Manager approval covers up to $5.00');
+    expect(assert({ ...approved, value: 20, amount: 5 })).toThrow('Manager approval required for discounts');
+    expect(assert({ ...approved, id: 'disc_2', amount: 5 })).toThrow('Manager approval required for discounts');
+    expect(assert({ ...approved, amount: 2 }, { ...approved, amount: 2 })).toThrow(
+      'This manager approval has already been used'
+    );
+
+    discountService.consumeApprovals([{ ...approved, amount: 5 }]);
+    expect(assert({ ...approved, amount: 5 })).toThrow('This manager approval has already been used');
+  });
+});
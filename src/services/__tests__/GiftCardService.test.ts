@@ -0,0 +1,127 @@
+import { giftCardService } from '../GiftCardService';
+import { authService } from '../AuthService';
+import { GiftCard, GiftCardEntry, RetailTransaction } from '../../types';
+
+const mockCards = new Map<string, GiftCard>();
+const mockEntries: GiftCardEntry[] = [];
+
+jest.mock('../../stores/DatabaseFactory', () => ({
+  database: {
+    saveGiftCard: jest.fn(async (card) => {
+      mockCards.set(card.code, card);
+      return card;
+    }),
+    getGiftCard: jest.fn(async (code) => mockCards.get(code) || null),
+    getGiftCards: jest.fn(async () => Array.from(mockCards.values())),
+    saveGiftCardEntry: jest.fn(async (entry) => {
+      mockEntries.unshift(entry);
+      return entry;
+    }),
+    getGiftCardEntries: jest.fn(async (code) => mockEntries.filter(entry => !code || entry.code === code)),
+    logAuditEvent: jest.fn(),
+  },
+}));
+
+jest.mock('../AuthService', () => ({
+  authService: {
+    requirePermission: jest.fn(),
+  },
+}));
+
+const transaction = (overrides: Partial<RetailTransaction>): RetailTransaction => ({
+  id: 'TXN_1',
+  businessDate: '2026-06-10',
+  startTime: '2026-06-10T15:00:00.000Z',
+  timestamp: new Date('2026-06-10T15:00:00.000Z'),
+  status: 'completed',
+  operatorId: 'cashier-001',
+  items: [],
+  tenders: [],
+  totals: { subTotal: 0, discountTotal: 0, taxTotal: 0, grandTotal: 0, currency: 'USD' },
+  ...overrides,
+});
+
+describe('GiftCardService', () => {
+  beforeEach(() => {
+    mockCards.clear();
+    mockEntries.length = 0;
+    jest.clearAllMocks();
+  });
+
+  it('generates 16-digit codes that do not start with zero', () => {
+    const codes = Array.from({ length: 50 }, () => giftCardService.generateCode());
+
+    expect(codes.every(code => /^[1-9]\d{15}$/.test(code))).toBe(true);
+    expect(new Set(codes).size).toBe(codes.length);
+  });
+
+  it('sells, reloads and redeems a gift card', async () => {
+    const item = await giftCardService.createCartItem(50, '1234-5678-9012');
+    expect(item).toMatchObject({ giftCardCode: '123456789012', price: 50, taxRate: 0, name: 'Gift Card •••• 9012' });
+
+    await giftCardService.recordSale(transaction({
+      items: [{ lineNumber: 1, productId: 0, name: item.name, quantity: 1, unitPrice: 50, price: 50,
+        lineTotal: { net: 50, tax: 0, gross: 50 }, giftCardCode: item.giftCardCode }],
+      tenders: [{ type: 'cash', amount: 50 }],
+    }));
+
+    const reload = await giftCardService.createCartItem(20, '1234 5678 9012');
+    expect(reload.name).toBe('Gift Card Reload •••• 9012');
+    await giftCardService.recordSale(transaction({
+      id: 'TXN_2',
+      items: [{ lineNumber: 1, productId: 0, name: reload.name, quantity: 1, unitPrice: 20, price: 20,
+        lineTotal: { net: 20, tax: 0, gross: 20 }, giftCardCode: reload.giftCardCode }],
+    }));
+
+    const tenders = [{ type: 'store_credit' as const, amount: 45, reference: '123456789012' }];
+    await expect(giftCardService.assertSaleValid([], [{ type: 'store_credit', amount: 71, reference: '123456789012' }]))
+      .rejects.toThrow('Gift card •••• 9012 has only $70.00 available');
+    await expect(giftCardService.assertSaleValid([], [{ type: 'store_credit', amount: 5 }]))
+      .rejects.toThrow('Enter the gift card or store credit code');
+    await giftCardService.assertSaleValid([], tenders);
+
+    await giftCardService.recordSale(transaction({ id: 'TXN_3', tenders }));
+
+    expect(await giftCardService.lookup('123456789012')).toMatchObject({ balance: 25 });
+    expect((await giftCardService.getHistory('123456789012')).map(entry => entry.type))
+      .toEqual(['redeem', 'reload', 'issue']);
+  });
+
+  it('issues store credit on refunds and reports outstanding balances', async () => {
+    await giftCardService.recordReturn(transaction({
+      id: 'RET_1',
+      status: 'returned',
+      customerId: 'cust-1',
+      originalTransactionId: 'TXN_1',
+      tenders: [{ type: 'store_credit', amount: -30, reference: '9999888877776666' }],
+    }));
+
+    expect(mockCards.get('9999888877776666')).toMatchObject({ kind: 'store_credit', customerId: 'cust-1' });
+    expect(await giftCardService.getReceiptLines(transaction({
+      tenders: [{ type: 'store_credit', amount: -30, reference: '9999888877776666' }],
+    }))).toEqual([{ code: '9999 8888 7777 6666', balance: 30 }]);
+
+    await giftCardService.recordSale(transaction({
+      items: [{ lineNumber: 1, productId: 0, name: 'Gift Card', quantity: 2, unitPrice: 25, price: 25,
+        lineTotal: { net: 50, tax: 0, gross: 50 }, giftCardCode: 'ABC123' }],
+    }));
+    await giftCardService.recordSale(transaction({
+      items: [{ lineNumber: 1, productId: 0, name: 'Gift Card', quantity: 1, unitPrice: 10, price: 10,
+        lineTotal: { net: 10, tax: 0, gross: 10 }, giftCardCode: 'SPENT1' }],
+    }));
+    await giftCardService.recordSale(transaction({ tenders: [{ type: 'store_credit', amount: 10, reference: 'SPENT1' }] }));
+
+    const report = await giftCardService.getLiabilityReport();
+
+    expect(authService.requirePermission).toHaveBeenCalledWith('canViewReports');
+    expect(report.totalOutstanding).toBe(80);
+    expect(report.byKind).toEqual({
+      gift_card: { count: 1, balance: 50 },
+      store_credit: { count: 1, balance: 30 },
+    });
+    expect(report.cards.map(({ card, balance }) => [card.code, balance])).toEqual([
+      ['ABC123', 50],
+      ['9999888877776666', 30],
+    ]);
+  });
+});
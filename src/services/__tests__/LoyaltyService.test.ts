@@ -0,0 +1,175 @@
+import { loyaltyService } from '../LoyaltyService';
+import { database } from '../../stores/DatabaseFactory';
+import { productService } from '../ProductService';
+import { LoyaltyLedgerEntry, LoyaltyProgram, RetailTransaction } from '../../types';
+
+const mockEntries: LoyaltyLedgerEntry[] = [];
+const mockProgram: { current: LoyaltyProgram } = {
+  current: { enabled: true, pointsPerUnit: 1, pointValue: 0.01 },
+};
+
+jest.mock('../../stores/DatabaseFactory', () => ({
+  database: {
+    saveLoyaltyEntry: jest.fn(async (entry) => {
+      mockEntries.unshift(entry);
+      return entry;
+    }),
+    getLoyaltyEntries: jest.fn(async (customerId) => mockEntries.filter(entry => entry.customerId === customerId)),
+    logAuditEvent: jest.fn(),
+  },
+}));
+
+jest.mock('../AuthService', () => ({
+  authService: {
+    requirePermission: jest.fn(),
+    getCurrentUser: jest.fn(async () => ({ id: 'manager-001' })),
+  },
+}));
+
+jest.mock('../ProductService', () => ({
+  productService: {
+    getProduct: jest.fn(async (id) => ({ id, category: id === 2 ? 'Coffee' : 'Snacks' })),
+  },
+}));
+
+jest.mock('../ProfileService', () => ({
+  profileService: {
+    getBusinessSettings: jest.fn(async () => ({ loyaltyProgram: mockProgram.current })),
+  },
+}));
+
+// Wednesday 10 June 2026
+const sale = (overrides: Partial<RetailTransaction> = {}): RetailTransaction => ({
+  id: 'TXN_1',
+  businessDate: '2026-06-10',
+  startTime: '2026-06-10T15:00:00.000Z',
+  timestamp: new Date(2026, 5, 10, 15),
+  status: 'completed',
+  customerId: 'cust-1',
+  items: [
+    { id: '1', lineNumber: 1, productId: 1, name: 'Chips', description: 'Chips', quantity: 2, unitPrice: 10, price: 10,
+      lineTotal: { net: 20, tax: 2, gross: 22 } },
+    { id: '2', lineNumber: 2, productId: 2, name: 'Beans', description: 'Beans', quantity: 1, unitPrice: 30, price: 30,
+      lineTotal: { net: 30, tax: 3, gross: 33 } },
+  ],
+  tenders: [{ type: 'cash', amount: 55 }],
+  totals: { subTotal: 50, discountTotal: 0, taxTotal: 5, grandTotal: 55, currency: 'USD' },
+  ...overrides,
+});
+
+describe('LoyaltyService', () => {
+  beforeEach(() => {
+    mockEntries.length = 0;
+    mockProgram.current = { enabled: true, pointsPerUnit: 1, pointValue: 0.01 };
+    jest.clearAllMocks();
+  });
+
+  it('earns points on the pre-tax amount with category multipliers and bonus days', async () => {
+    mockProgram.current = {
+      ...mockProgram.current,
+      pointsPerUnit: 2,
+      categoryMultipliers: { Coffee: 3 },
+      bonusDays: [{ weekday: 3, multiplier: 2 }, { date: '2026-06-11', multiplier: 5 }],
+    };
+
+    // (20 * 2 + 30 * 2 * 3) doubled for Wednesday
+    expect(await loyaltyService.recordSale(sale())).toEqual({ earned: 440, redeemed: 0, balance: 440 });
+    expect(await loyaltyService.recordSale(sale({ customerId: undefined }))).toBeNull();
+    expect(await loyaltyService.getTransactionSummary('cust-1', 'TXN_1')).toEqual({
+      earned: 440,
+      redeemed: 0,
+      balance: 440,
+    });
+  });
+
+  it('redeems points as a tender and earns only on the rest', async () => {
+    await loyaltyService.adjustPoints('cust-1', 1000, 'Welcome bonus');
+
+    await expect(loyaltyService.assertRedeemable(undefined, 5)).rejects.toThrow('Attach a customer');
+    await expect(loyaltyService.assertRedeemable('cust-1', 10.01)).rejects.toThrow(
+      'Not enough points: 1001 needed, 1000 available'
+    );
+    await loyaltyService.assertRedeemable('cust-1', 5.5);
+
+    const summary = await loyaltyService.recordSale(sale({
+      id: 'TXN_2',
+      tenders: [{ type: 'loyalty_points', amount: 5.5 }, { type: 'cash', amount: 49.5 }],
+    }));
+
+    // 550 points spent; 50 pre-tax * 90% paid in cash = 45 earned
+    expect(summary).toEqual({ earned: 45, redeemed: 550, balance: 495 });
+    expect(database.logAuditEvent).toHaveBeenCalledWith('manager-001', 'loyalty_points_redeemed', 'loyalty',
+      expect.objectContaining({ customerId: 'cust-1', points: 550 }));
+
+    mockProgram.current = { ...mockProgram.current, minRedeemPoints: 600 };
+    await expect(loyaltyService.assertRedeemable('cust-1', 1)).rejects.toThrow('At least 600 points');
+  });
+
+  it('earns nothing on gift cards sold or on the part paid with a gift card', async () => {
+    const withGiftCard = sale({
+      items: [
+        ...sale().items,
+        { id: '3', lineNumber: 3, productId: 0, name: 'Gift Card', description: 'Gift Card', quantity: 1, unitPrice: 45,
+          price: 45, giftCardCode: 'GC-NEW', lineTotal: { net: 45, tax: 0, gross: 45 } },
+      ],
+      tenders: [{ type: 'store_credit', amount: 50, reference: 'GC-OLD' }, { type: 'cash', amount: 50 }],
+      totals: { subTotal: 95, discountTotal: 0, taxTotal: 5, grandTotal: 100, currency: 'USD' },
+    });
+
+    // 50 pre-tax on the goods, half of the sale paid with a gift card
+    const program = { ...mockProgram.current, categoryMultipliers: { Coffee: 1 } };
+    expect(await loyaltyService.calculatePoints(withGiftCard, program)).toBe(25);
+    expect(productService.getProduct).not.toHaveBeenCalledWith(0);
+  });
+
+  it('redeems once per sale and gives the points back when checkout fails', async () => {
+    await loyaltyService.adjustPoints('cust-1', 1000, 'Welcome bonus');
+    const pending = sale({ id: 'TXN_3', tenders: [{ type: 'loyalty_points', amount: 2 }, { type: 'cash', amount: 53 }] });
+
+    expect(await loyaltyService.recordRedemption(pending)).toBe(200);
+    expect(await loyaltyService.recordRedemption(pending)).toBe(200);
+    expect(await loyaltyService.getBalance('cust-1')).toBe(800);
+
+    await loyaltyService.reverseRedemption(pending);
+    await loyaltyService.reverseRedemption(pending);
+    expect(await loyaltyService.getBalance('cust-1')).toBe(1000);
+    expect(database.logAuditEvent).toHaveBeenCalledWith('manager-001', 'loyalty_redemption_reversed', 'loyalty',
+      expect.objectContaining({ transactionId: 'TXN_3', points: 200 }));
+  });
+
+  it('gives back points paid with and takes back points earned when a sale is voided', async () => {
+    await loyaltyService.adjustPoints('cust-1', 100, 'Opening balance');
+    const voided = sale({ id: 'TXN_4', tenders: [{ type: 'loyalty_points', amount: 1 }, { type: 'cash', amount: 54 }] });
+    await loyaltyService.recordSale(voided);
+    expect(await loyaltyService.getBalance('cust-1')).toBe(49);
+
+    await loyaltyService.reverseSale(voided);
+    await loyaltyService.reverseSale(voided);
+
+    // 100 redeemed and 49 earned cancel out to 51 back
+    expect(await loyaltyService.getBalance('cust-1')).toBe(100);
+    expect(mockEntries.filter(entry => entry.type === 'reverse').map(entry => entry.points)).toEqual([51]);
+  });
+
+  it('takes back points earned by returned items and refunds points paid with', async () => {
+    const original = sale({ tenders: [{ type: 'loyalty_points', amount: 1 }, { type: 'cash', amount: 54 }] });
+    await loyaltyService.adjustPoints('cust-1', 100, 'Opening balance');
+    await loyaltyService.recordSale(original);
+    expect(await loyaltyService.getBalance('cust-1')).toBe(49);
+
+    const refund = sale({
+      id: 'RET_1',
+      status: 'returned',
+      tenders: [{ type: 'loyalty_points', amount: -1 }, { type: 'cash', amount: -21 }],
+      totals: { subTotal: 20, discountTotal: 0, taxTotal: 2, grandTotal: -22, currency: 'USD' },
+    });
+    await loyaltyService.recordReturn(refund, original);
+
+    // 100 points back for the refunded tender, 49 earned * 22/55 = 20 reversed
+    expect(await loyaltyService.getBalance('cust-1')).toBe(129);
+    expect(mockEntries.filter(entry => entry.type === 'reverse').map(entry => entry.points)).toEqual([-20, 100]);
+
+    await expect(loyaltyService.adjustPoints('cust-1', -500, 'Fix')).rejects.toThrow('Only 129 points can be removed');
+    await expect(loyaltyService.adjustPoints('cust-1', 5, ' ')).rejects.toThrow('A reason is required');
+  });
+});
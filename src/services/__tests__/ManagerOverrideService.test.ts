@@ -0,0 +1,105 @@
+import { managerOverrideService } from '../ManagerOverrideService';
+import { authService } from '../AuthService';
+import { database } from '../../stores/DatabaseFactory';
+
+jest.mock('../../stores/DatabaseFactory', () => ({
+  database: { logAuditEvent: jest.fn(), queryAuditLogs: jest.fn() },
+}));
+
+const mockCashier = { id: 'user-1', username: 'cam', firstName: 'Cam', lastName: 'Lee', role: 'cashier' };
+const mockManager = { id: 'user-2', username: 'mia', firstName: 'Mia', lastName: 'Cruz', role: 'manager' };
+
+jest.mock('../AuthService', () => ({
+  authService: {
+    hasPermission: jest.fn(() => false),
+    getCurrentUser: jest.fn(async () => mockCashier),
+    verifyCredentials: jest.fn(async (username: string, password: string) =>
+      username === 'mia' && password === '2468' ? mockManager : null
+    ),
+    getPermissionsForUser: jest.fn((user) => jest.requireActual('../../types').ROLE_PERMISSIONS[user.role]),
+  },
+}));
+
+const refund = { permission: 'canRefundSales' as const, action: 'refund', amount: -42.5, reference: 'sale-9' };
+
+describe('ManagerOverrideService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('records the approver, requester, action and amount', async () => {
+    await expect(managerOverrideService.requestOverride(refund, { username: 'mia', password: '0000' })).rejects.toThrow(
+      'Manager approval failed'
+    );
+    expect(database.logAuditEvent).toHaveBeenCalledWith(null, 'manager_override_denied', 'manager_override',
+      expect.objectContaining({ requestedBy: 'user-1', attemptedUsername: 'mia', overrideAction: 'refund' }));
+
+    const approval = await managerOverrideService.requestOverride(refund, { username: 'mia', password: '2468' });
+
+    expect(approval).toEqual(expect.objectContaining({ approvedBy: 'user-2', requestedBy: 'user-1', amount: -42.5 }));
+    expect(database.logAuditEvent).toHaveBeenLastCalledWith('user-2', 'manager_override_approved', 'manager_override',
+      expect.objectContaining({
+        approvedBy: 'user-2',
+        requestedBy: 'user-1',
+        permission: 'canRefundSales',
+        overrideAction: 'refund',
+        amount: -42.5,
+        reference: 'sale-9',
+        approvalId: approval.id,
+      }));
+  });
+
+  it('lets an approval cover one matching action only', async () => {
+    const approval = await managerOverrideService.requestOverride(refund, { username: 'mia', password: '2468' });
+
+    expect(() => managerOverrideService.assertAuthorized('canRefundSales', 'refund')).toThrow('Manager approval required');
+    expect(() => managerOverrideService.assertAuthorized('canVoidTransactions', 'void', approval)).toThrow(
+      'Manager approval required'
+    );
+    expect(() => managerOverrideService.assertAuthorized('canRefundSales', 'refund', approval, -60)).toThrow(
+      'Manager approval covers up to $42.50'
+    );
+    expect(managerOverrideService.assertAuthorized('canRefundSales', 'refund', approval, -42.5)).toBe('user-2');
+    expect(() => managerOverrideService.assertAuthorized('canRefundSales', 'refund', approval, -42.5)).toThrow(
+      'This manager approval has already been used'
+    );
+  });
+
+  it('remembers used approvals across restarts through the audit log and lets them expire', async () => {
+    jest.useFakeTimers({ now: new Date('2026-06-10T15:00:00Z') });
+    try {
+      const used = await managerOverrideService.requestOverride(refund, { username: 'mia', password: '2468' });
+      managerOverrideService.assertAuthorized('canRefundSales', 'refund', used, -42.5);
+      expect(database.logAuditEvent).toHaveBeenLastCalledWith('user-2', 'manager_override_used', 'manager_override',
+        expect.objectContaining({ approvalId: used.id, overrideAction: 'refund', amount: -42.5 }));
+
+      // As if used before the app restarted
+      const earlier = await managerOverrideService.requestOverride(refund, { username: 'mia', password: '2468' });
+      (database.queryAuditLogs as jest.Mock).mockResolvedValueOnce({
+        entries: [{ action: 'manager_override_used', details: { approvalId: earlier.id } }],
+        total: 1,
+      });
+      await managerOverrideService.loadUsedApprovals();
+      expect(database.queryAuditLogs).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'manager_override_used',
+        from: new Date('2026-06-10T14:45:00Z'),
+      }));
+      expect(() => managerOverrideService.checkAuthorized('canRefundSales', 'refund', earlier)).toThrow(
+        'This manager approval has already been used'
+      );
+
+      const stale = await managerOverrideService.requestOverride(refund, { username: 'mia', password: '2468' });
+      jest.advanceTimersByTime(16 * 60 * 1000);
+      expect(() => managerOverrideService.checkAuthorized('canRefundSales', 'refund', stale)).toThrow(
+        'This manager approval has expired'
+      );
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('needs no approval when the operator holds the permission', () => {
+    (authService.hasPermission as jest.Mock).mockReturnValueOnce(true);
+    expect(managerOverrideService.assertAuthorized('canRefundSales', 'refund')).toBeUndefined();
+  });
+});
@@ -0,0 +1,182 @@
+import { quoteService } from '../QuoteService';
+import { authService } from '../AuthService';
+import { documentService } from '../DocumentService';
+import { Customer, Product, RetailTransaction } from '../../types';
+
+const mockStore = new Map<string, string>();
+const mockCustomer: Customer = {
+  id: 'cust-1',
+  name: 'Harbor Cafe',
+  taxExempt: false,
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+};
+const mockProducts: Record<number, Product> = {
+  7: { id: 7, sku: 'BEANS', name: 'Beans', price: 12.5, cost: 6, stock_qty: 40, tax_rate: 0.08 },
+  9: { id: 9, sku: 'MUG', name: 'Mug', price: 8, cost: 3, stock_qty: 10, tax_rate: 0.08 },
+};
+
+jest.mock('../StorageService', () => ({
+  storageService: {
+    getItem: jest.fn(async (key) => mockStore.get(key) ?? null),
+    setItem: jest.fn(async (key, value) => {
+      mockStore.set(key, value);
+    }),
+    getAllKeys: jest.fn(async () => Array.from(mockStore.keys())),
+  },
+}));
+
+jest.mock('../BusinessConfigService', () => {
+  let mockNumber = 0;
+  return {
+    businessConfigService: {
+      getBusinessInfo: jest.fn(async () => ({
+        name: 'Corner Shop',
+        address: { street: '1 Main St', city: 'Springfield', state: 'IL', zipCode: '62701', country: 'US' },
+        contact: { phone: '555-0100', email: 'shop@example.com' },
+        tax: {},
+        branding: { primaryColor: '#27ae60', accentColor: '#2c3e50' },
+      })),
+      getDocumentSettings: jest.fn(async () => ({
+        defaultTemplate: { receipt: 'default_receipt', invoice: 'default_invoice' },
+        defaultTerms: { paymentDays: 30, paymentTerms: 'Net 30', quoteValidDays: 14 },
+      })),
+      getNextInvoiceNumber: jest.fn(async () => `INV-${++mockNumber}`),
+      getNextQuoteNumber: jest.fn(async () => `QTE-${++mockNumber}`),
+    },
+  };
+});
+
+jest.mock('../ProductService', () => ({
+  productService: {
+    getProduct: jest.fn(async (id) => mockProducts[id] ?? null),
+  },
+}));
+
+jest.mock('../ProfileService', () => ({
+  profileService: {
+    getBusinessSettings: jest.fn(async () => ({ taxRate: 0.08 })),
+  },
+}));
+
+jest.mock('../CustomerService', () => ({
+  customerService: {
+    getCustomer: jest.fn(async (id) => (id === mockCustomer.id ? mockCustomer : null)),
+    toCustomerInfo: jest.fn((customer) => ({ id: customer.id, name: customer.name })),
+  },
+}));
+
+jest.mock('../../stores/DatabaseFactory', () => ({ database: { logAuditEvent: jest.fn() } }));
+jest.mock('../AuthService', () => ({
+  authService: {
+    requirePermission: jest.fn(),
+    getCurrentUser: jest.fn(async () => ({ id: 'cashier-001' })),
+  },
+}));
+
+describe('QuoteService', () => {
+  beforeEach(() => {
+    mockStore.clear();
+    jest.clearAllMocks();
+  });
+
+  it('prices a quote at list price and converts it into a linked invoice', async () => {
+    await expect(quoteService.createQuote({ lines: [] })).rejects.toThrow('Add at least one product to the quote');
+
+    const quote = await quoteService.createQuote({
+      lines: [{ productId: 7, quantity: 2 }, { productId: 9, quantity: 1 }],
+      customerId: 'cust-1',
+      notes: ' Delivery Friday ',
+    });
+
+    expect(authService.requirePermission).toHaveBeenCalledWith('canProcessSales');
+    expect(quote).toMatchObject({
+      type: 'quote',
+      status: 'sent',
+      customerId: 'cust-1',
+      notes: 'Delivery Friday',
+      subtotal: 33,
+      taxTotal: 2.64,
+      grandTotal: 35.64,
+    });
+    const validDays = Math.round((quote.validUntil.getTime() - quote.quoteDate.getTime()) / (24 * 60 * 60 * 1000));
+    expect(validDays).toBe(14);
+
+    const rendered = await documentService.renderQuote(quote.id);
+    expect(rendered.documentUrl).toContain(quote.documentNumber);
+    const pdf = Array.from(rendered.pdfBuffer!, byte => String.fromCharCode(byte)).join('');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/MediaBox [0 0 612 792]');
+    expect(pdf).toContain(`(${quote.documentNumber}) Tj`);
+
+    // A saved template replaces the built-in page, margins and font sizes
+    await documentService.saveTemplate({
+      id: 'default_invoice',
+      name: 'Half letter',
+      type: 'invoice',
+      format: 'pdf',
+      isDefault: true,
+      layout: {
+        width: 396,
+        margin: { top: 24, right: 24, bottom: 24, left: 24 },
+        fontSize: { header: 16, body: 9, footer: 7 },
+        showLogo: false,
+        showQRCode: false,
+        showBarcode: false,
+      },
+      content: { showCustomerInfo: true, showItemDetails: false, showTaxBreakdown: false, showPaymentDetails: true },
+      styling: {
+        colors: { primary: '#000000', secondary: '#666666', text: '#000000', accent: '#000000' },
+        fonts: { header: 'Helvetica-Bold', body: 'Helvetica', monospace: 'Courier' },
+        spacing: { lineHeight: 1.2, sectionSpacing: 10 },
+      },
+    });
+    const custom = Array.from((await documentService.renderQuote(quote.id)).pdfBuffer!, byte => String.fromCharCode(byte)).join('');
+    expect(custom).toContain('/MediaBox [0 0 396 512]');
+    expect(custom).toMatch(/BT \/F2 16 Tf 0 0 0 rg 24 [\d.]+ Td \(Corner Shop\) Tj ET/);
+    expect(custom).not.toContain('(Tax) Tj');
+
+    const invoice = await quoteService.convertToInvoice(quote.id);
+    expect(invoice).toMatchObject({
+      quoteId: quote.id,
+      customerId: 'cust-1',
+      referenceNumber: quote.documentNumber,
+      grandTotal: 35.64,
+      remainingBalance: 35.64,
+    });
+
+    const accepted = await documentService.getQuote(quote.id);
+    expect(accepted).toMatchObject({
+      status: 'accepted',
+      convertedTo: { type: 'invoice', id: invoice.id, documentNumber: invoice.documentNumber },
+    });
+    await expect(quoteService.convertToCart(quote.id))
+      .rejects.toThrow(`Quote ${quote.documentNumber} has already been accepted`);
+    await expect(quoteService.recordSale(quote.id, { id: 'TXN_9' } as RetailTransaction))
+      .rejects.toThrow(`Quote ${quote.documentNumber} is accepted`);
+    expect((await documentService.getQuote(quote.id))!.convertedTo).toMatchObject({ type: 'invoice', id: invoice.id });
+  });
+
+  it('holds quoted prices for the cart until the quote expires', async () => {
+    const quote = await quoteService.createQuote({ lines: [{ productId: 7, quantity: 3 }] });
+
+    // The list price went up after the quote was sent
+    mockProducts[7] = { ...mockProducts[7], price: 15 };
+    try {
+      const { items } = await quoteService.convertToCart(quote.id);
+      expect(items).toEqual([
+        expect.objectContaining({ productId: 7, quantity: 3, price: 12.5, unitPrice: 12.5 }),
+      ]);
+    } finally {
+      mockProducts[7] = { ...mockProducts[7], price: 12.5 };
+    }
+
+    // Back-date the validity so the quote has lapsed
+    const stored = JSON.parse(mockStore.get(`quotes_${quote.id}`)!);
+    stored.validUntil = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    mockStore.set(`quotes_${quote.id}`, JSON.stringify(stored));
+
+    expect((await quoteService.getQuotes())[0].status).toBe('expired');
+    await expect(quoteService.convertToInvoice(quote.id)).rejects.toThrow(/expired on/);
+  });
+});
@@ -0,0 +1,207 @@
+import { RetailTransaction } from '../../types';
+import { accountsReceivableService } from '../AccountsReceivableService';
+import { documentService } from '../DocumentService';
+import { giftCardService } from '../GiftCardService';
+import { inventoryService } from '../InventoryService';
+import { managerOverrideService, OverrideApproval } from '../ManagerOverrideService';
+import { productService } from '../ProductService';
+import { returnService } from '../ReturnService';
+import { salesService } from '../SalesService';
+
+jest.mock('../../stores/DatabaseFactory', () => ({ database: {} }));
+jest.mock('../AuthService', () => ({
+  authService: {
+    hasPermission: jest.fn(() => false),
+    getCurrentUser: jest.fn(async () => ({ id: 'cashier-1' })),
+  },
+}));
+jest.mock('../DocumentService', () => ({ documentService: {} }));
+jest.mock('../InventoryService', () => ({ inventoryService: {} }));
+jest.mock('../AccountsReceivableService', () => ({
+  accountsReceivableService: {
+    limitAccountRefunds: jest.fn(async (_original, tenders) => tenders),
+    creditReturn: jest.fn(),
+    reverseReturnCredit: jest.fn(),
+  },
+}));
+jest.mock('../GiftCardService', () => ({
+  giftCardService: { recordReturn: jest.fn(), reverseTransaction: jest.fn() },
+}));
+jest.mock('../LoyaltyService', () => ({ loyaltyService: {} }));
+jest.mock('../ProductService', () => ({ productService: { getProduct: jest.fn(), updateStock: jest.fn() } }));
+jest.mock('../SalesService', () => ({
+  salesService: {
+    getTransactions: jest.fn(),
+    getTransaction: jest.fn(),
+    recordTransaction: jest.fn(),
+    discardTransaction: jest.fn(),
+  },
+}));
+
+const sale: RetailTransaction = {
+  id: 'TXN_1',
+  businessDate: '2024-01-01',
+  startTime: '2024-01-01T10:00:00.000Z',
+  timestamp: new Date('2024-01-01T10:00:00.000Z'),
+  status: 'completed',
+  items: [{
+    lineNumber: 1,
+    productId: 7,
+    name: 'Mug',
+    quantity: 3,
+    unitPrice: 10,
+    price: 10,
+    lineTotal: { net: 27, tax: 2.16, gross: 29.16 },
+  }],
+  tenders: [{ type: 'card', amount: 20 }, { type: 'cash', amount: 9.16 }],
+  totals: { subTotal: 30, discountTotal: 3, taxTotal: 2.16, grandTotal: 29.16, currency: 'USD' },
+};
+
+describe('ReturnService', () => {
+  it('refunds part of a line in proportion to what was paid', async () => {
+    (salesService.getTransactions as jest.Mock).mockResolvedValue([]);
+
+    const [item] = await returnService.buildReturnItems(sale, [
+      { lineNumber: 1, quantity: 1, disposition: 'restock' },
+    ]);
+
+    expect(item.quantity).toBe(-1);
+    expect(item.lineTotal).toEqual({ net: -9, tax: -0.72, gross: -9.72 });
+    expect(item.originalLineNumber).toBe(1);
+  });
+
+  it('refunds exactly what is left when the last units come back', async () => {
+    const earlierReturn = {
+      ...sale,
+      id: 'TXN_2',
+      status: 'returned' as const,
+      originalTransactionId: 'TXN_1',
+      items: [{
+        ...sale.items[0],
+        quantity: -1,
+        originalLineNumber: 1,
+        lineTotal: { net: -9, tax: -0.72, gross: -9.72 },
+      }],
+    };
+    (salesService.getTransactions as jest.Mock).mockResolvedValue([earlierReturn]);
+
+    const [line] = await returnService.getReturnableLines(sale);
+    expect(line.returnableQuantity).toBe(2);
+
+    const [item] = await returnService.buildReturnItems(sale, [
+      { lineNumber: 1, quantity: 2, disposition: 'write_off' },
+    ]);
+    expect(item.lineTotal).toEqual({ net: -18, tax: -1.44, gross: -19.44 });
+
+    await expect(
+      returnService.buildReturnItems(sale, [{ lineNumber: 1, quantity: 3, disposition: 'restock' }])
+    ).rejects.toThrow('Only 2 of Mug can still be returned');
+  });
+
+  it('sends refunds back to card before cash', () => {
+    expect(returnService.getOriginalTenderRefunds(sale, 25)).toEqual([
+      { type: 'card', amount: 20, reference: undefined },
+      { type: 'cash', amount: 5 },
+    ]);
+  });
+
+  it('never refunds a tender more than it paid across partial returns', () => {
+    const splitSale = {
+      ...sale,
+      tenders: [
+        { type: 'card' as const, amount: 10, reference: 'AUTH-1' },
+        { type: 'store_credit' as const, amount: 5, reference: 'GC1' },
+        { type: 'cash' as const, amount: 14.16 },
+      ],
+    };
+
+    const first = returnService.getOriginalTenderRefunds(splitSale, 9.72);
+    expect(first).toEqual([{ type: 'card', amount: 9.72, reference: 'AUTH-1' }]);
+
+    const earlierReturn = {
+      ...sale,
+      id: 'TXN_2',
+      status: 'returned' as const,
+      originalTransactionId: 'TXN_1',
+      tenders: first.map(tender => ({ ...tender, amount: -tender.amount })),
+    };
+    expect(returnService.getOriginalTenderRefunds(splitSale, 9.72, [earlierReturn])).toEqual([
+      { type: 'card', amount: 0.28, reference: 'AUTH-1' },
+      { type: 'store_credit', amount: 5, reference: 'GC1' },
+      { type: 'cash', amount: 4.44 },
+    ]);
+  });
+
+  it('puts every write back and keeps the approval when a return fails partway', async () => {
+    (salesService.getTransactions as jest.Mock).mockResolvedValue([]);
+    (salesService.getTransaction as jest.Mock).mockResolvedValue(sale);
+    (salesService.recordTransaction as jest.Mock).mockImplementation(async (transaction) => transaction);
+    (productService.getProduct as jest.Mock).mockResolvedValue({ id: 7, stock_qty: 5 });
+    (productService.updateStock as jest.Mock).mockRejectedValueOnce(new Error('disk full'));
+
+    const approval: OverrideApproval = {
+      id: 'override-1',
+      permission: 'canRefundSales',
+      action: 'refund',
+      amount: -9.72,
+      approvedBy: 'manager-1',
+      approverName: 'Mia Cruz',
+      approvedAt: new Date().toISOString(),
+    };
+
+    await expect(returnService.processReturn({
+      originalTransactionId: 'TXN_1',
+      lines: [{ lineNumber: 1, quantity: 1, disposition: 'restock' }],
+      reason: 'Chipped',
+      approval,
+    })).rejects.toThrow('Failed to process return');
+
+    const [recorded] = (salesService.recordTransaction as jest.Mock).mock.calls[0];
+    expect(giftCardService.reverseTransaction).toHaveBeenCalledWith(recorded);
+    expect(accountsReceivableService.reverseReturnCredit).toHaveBeenCalledWith(recorded);
+    expect(salesService.discardTransaction).toHaveBeenCalledWith(recorded.id);
+    expect(productService.updateStock).toHaveBeenLastCalledWith(7, 5);
+    expect(managerOverrideService.assertAuthorized('canRefundSales', 'refund', approval, -9.72)).toBe('manager-1');
+  });
+
+  it('refunds a chosen tender only up to what it paid, and keeps the return if the receipt fails', async () => {
+    const earlierReturn = {
+      ...sale,
+      id: 'RET_0',
+      status: 'returned' as const,
+      originalTransactionId: 'TXN_1',
+      tenders: [{ type: 'cash' as const, amount: -1 }],
+    };
+    (salesService.getTransactions as jest.Mock).mockResolvedValue([earlierReturn]);
+    (salesService.getTransaction as jest.Mock).mockResolvedValue(sale);
+    (salesService.recordTransaction as jest.Mock).mockClear().mockImplementation(async (transaction) => transaction);
+    (productService.getProduct as jest.Mock).mockResolvedValue({ id: 7, stock_qty: 5 });
+    Object.assign(inventoryService, { logStockMovement: jest.fn() });
+    Object.assign(documentService, { generateRefundReceipt: jest.fn().mockRejectedValue(new Error('printer offline')) });
+    const approval = (id: string): OverrideApproval => ({
+      id,
+      permission: 'canRefundSales',
+      action: 'refund',
+      amount: -9.72,
+      approvedBy: 'manager-1',
+      approverName: 'Mia Cruz',
+      approvedAt: new Date().toISOString(),
+    });
+    const request = {
+      originalTransactionId: 'TXN_1',
+      lines: [{ lineNumber: 1, quantity: 1, disposition: 'restock' as const }],
+      reason: 'Chipped',
+    };
+
+    // Cash took 9.16 and 1 of it has been refunded already
+    await expect(returnService.processReturn({ ...request, refundTo: 'cash', approval: approval('override-2') }))
+      .rejects.toThrow('Only $8.16 can be refunded to cash');
+    await expect(returnService.processReturn({ ...request, refundTo: 'store_credit', approval: approval('override-3') }))
+      .rejects.toThrow('Only $0.00 can be refunded to store_credit');
+    expect(salesService.recordTransaction).not.toHaveBeenCalled();
+
+    const result = await returnService.processReturn({ ...request, refundTo: 'card', approval: approval('override-4') });
+    expect(result.transaction.tenders).toEqual([expect.objectContaining({ type: 'card', amount: -9.72 })]);
+    expect(result.receipt).toEqual(expect.objectContaining({ success: false }));
+  });
+});
@@ -0,0 +1,101 @@
+import { roleService } from '../RoleService';
+import { authService } from '../AuthService';
+import { database } from '../../stores/DatabaseFactory';
+import { resolvePermissions, NO_PERMISSIONS } from '../../utils/permissions';
+import { ROLE_PERMISSIONS, Role, User } from '../../types';
+
+const mockRoles: Role[] = [];
+const mockUsers: User[] = [];
+
+jest.mock('../../stores/DatabaseFactory', () => ({
+  database: {
+    getRoles: jest.fn(async () => mockRoles),
+    saveRole: jest.fn(async (role) => {
+      mockRoles.push(role);
+      return role;
+    }),
+    deleteRole: jest.fn(async () => true),
+    getUser: jest.fn(async (id) => mockUsers.find(user => user.id === id) || null),
+    updateUser: jest.fn(async (input) => ({ ...mockUsers.find(user => user.id === input.id), ...input })),
+    logAuditEvent: jest.fn(),
+  },
+}));
+
+jest.mock('../AuthService', () => ({
+  authService: {
+    requirePermission: jest.fn(),
+    getCurrentUser: jest.fn(async () => ({ id: 'admin-001' })),
+    getAllUsers: jest.fn(async () => mockUsers),
+    refreshPermissions: jest.fn(),
+  },
+}));
+
+const user = (id: string, role: string): User => ({
+  id,
+  username: id,
+  email: `${id}@example.com`,
+  firstName: id,
+  lastName: 'Test',
+  role,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('RoleService', () => {
+  beforeEach(() => {
+    mockRoles.length = 0;
+    mockUsers.length = 0;
+    jest.clearAllMocks();
+  });
+
+  it('creates an audited custom role and applies it to the session', async () => {
+    const role = await roleService.saveRole({
+      name: 'Shift Lead',
+      permissions: { ...ROLE_PERMISSIONS.cashier, canVoidTransactions: true },
+    });
+
+    expect(role).toEqual(expect.objectContaining({ id: 'shift_lead', isSystem: false }));
+    expect(authService.requirePermission).toHaveBeenCalledWith('canManageUsers');
+    expect(database.logAuditEvent).toHaveBeenCalledWith('admin-001', 'role_created', 'roles',
+      expect.objectContaining({ roleId: 'shift_lead' }));
+    expect(authService.refreshPermissions).toHaveBeenCalled();
+
+    await expect(roleService.saveRole({ name: 'shift lead', permissions: NO_PERMISSIONS })).rejects.toThrow(
+      'A role named "shift lead" already exists'
+    );
+    await expect(roleService.saveRole({ id: 'admin', name: 'Admin', permissions: NO_PERMISSIONS })).rejects.toThrow(
+      'The admin role always has every permission'
+    );
+  });
+
+  it('keeps roles that are built in or still assigned', async () => {
+    mockRoles.push(
+      { id: 'cashier', name: 'Cashier', permissions: ROLE_PERMISSIONS.cashier, isSystem: true, createdAt: new Date(), updatedAt: new Date() },
+      { id: 'stock', name: 'Stock', permissions: NO_PERMISSIONS, isSystem: false, createdAt: new Date(), updatedAt: new Date() }
+    );
+    mockUsers.push(user('user-1', 'stock'));
+
+    await expect(roleService.deleteRole('cashier')).rejects.toThrow('Built-in roles cannot be deleted');
+    await expect(roleService.deleteRole('stock')).rejects.toThrow('1 user(s) still have the Stock role');
+
+    mockUsers.length = 0;
+    await roleService.deleteRole('stock');
+    expect(database.deleteRole).toHaveBeenCalledWith('stock');
+  });
+
+  it('layers per-user overrides over the role', async () => {
+    mockUsers.push(user('user-1', 'cashier'));
+
+    const updated = await roleService.setUserPermissionOverrides('user-1', {
+      canRefundSales: true,
+      canProcessSales: false,
+    });
+    const permissions = resolvePermissions(updated);
+
+    expect(permissions.canRefundSales).toBe(true);
+    expect(permissions.canProcessSales).toBe(false);
+    expect(permissions.canViewInventory).toBe(ROLE_PERMISSIONS.cashier.canViewInventory);
+    expect(resolvePermissions(user('user-2', 'deleted_role'))).toEqual(NO_PERMISSIONS);
+  });
+});
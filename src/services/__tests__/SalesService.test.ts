@@ -0,0 +1,137 @@
+import { database } from '../../stores/DatabaseFactory';
+import { RetailTransaction, Sale } from '../../types';
+import { accountsReceivableService } from '../AccountsReceivableService';
+import { giftCardService } from '../GiftCardService';
+import { loyaltyService } from '../LoyaltyService';
+import { managerOverrideService } from '../ManagerOverrideService';
+import { productService } from '../ProductService';
+import { salesService } from '../SalesService';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({}));
+jest.mock('../../stores/DatabaseFactory', () => ({
+  database: {
+    isInitialized: jest.fn(() => true),
+    saveTransaction: jest.fn(async (transaction) => transaction),
+    updateTransactionStatus: jest.fn(),
+    getSale: jest.fn(),
+    getSaleItems: jest.fn(async () => [
+      { id: 1, sale_id: 5, product_id: 1, qty: 2, unit_price: 10, line_number: 1 },
+      { id: 2, sale_id: 5, product_id: 0, qty: 1, unit_price: 25, line_number: 2, gift_card_code: 'GC1' },
+    ]),
+    getPayments: jest.fn(async () => [{ id: 1, sale_id: 5, method: 'card', amount: 45 }]),
+    getTransactions: jest.fn(async () => []),
+    updateSaleStatus: jest.fn(),
+    logAuditEvent: jest.fn(),
+  },
+}));
+jest.mock('../AuthService', () => ({ authService: { getCurrentUser: jest.fn(async () => ({ id: 'manager-1' })) } }));
+jest.mock('../ManagerOverrideService', () => ({
+  managerOverrideService: { checkAuthorized: jest.fn(), assertAuthorized: jest.fn(() => 'manager-1') },
+}));
+jest.mock('../AccountsReceivableService', () => ({
+  accountsReceivableService: { cancelCharge: jest.fn(), reinstateCharge: jest.fn() },
+}));
+jest.mock('../GiftCardService', () => ({
+  giftCardService: { reverseTransaction: jest.fn(), recordSale: jest.fn() },
+}));
+jest.mock('../LoyaltyService', () => ({ loyaltyService: { reverseSale: jest.fn() } }));
+jest.mock('../TaxService', () => ({ taxService: {} }));
+jest.mock('../ProductService', () => ({
+  productService: {
+    getProduct: jest.fn(async (id) => ({ id, name: id === 1 ? 'Mug' : 'Tea', stock_qty: 10 })),
+    updateStock: jest.fn(),
+  },
+}));
+
+const sale: RetailTransaction = {
+  id: 'TXN_1',
+  businessDate: '2026-06-10',
+  startTime: '2026-06-10T15:00:00.000Z',
+  timestamp: new Date('2026-06-10T15:00:00.000Z'),
+  status: 'completed',
+  items: [
+    { lineNumber: 1, productId: 1, name: 'Mug', quantity: 2, unitPrice: 10, price: 10,
+      lineTotal: { net: 20, tax: 0, gross: 20 } },
+    { lineNumber: 2, productId: 2, name: 'Tea', quantity: 1, unitPrice: 5, price: 5,
+      lineTotal: { net: 5, tax: 0, gross: 5 } },
+  ],
+  tenders: [{ type: 'cash', amount: 25 }],
+  totals: { subTotal: 25, discountTotal: 0, taxTotal: 0, grandTotal: 25, currency: 'USD' },
+};
+
+describe('SalesService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('saves a sale and takes its items out of stock', async () => {
+    await salesService.recordTransaction(sale);
+
+    expect(productService.updateStock).toHaveBeenCalledWith(1, 8);
+    expect(productService.updateStock).toHaveBeenCalledWith(2, 9);
+    expect(database.updateTransactionStatus).not.toHaveBeenCalled();
+  });
+
+  it('puts stock back and voids the sale when a stock update fails', async () => {
+    (productService.updateStock as jest.Mock)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(salesService.recordTransaction(sale)).rejects.toThrow('disk full');
+
+    expect(productService.updateStock).toHaveBeenLastCalledWith(1, 10);
+    expect(database.updateTransactionStatus).toHaveBeenCalledWith('TXN_1', 'voided');
+  });
+
+  describe('voidSale', () => {
+    const recorded: Sale = {
+      id: 5,
+      transaction_id: 'TXN_5',
+      timestamp: '2026-06-10T15:00:00.000Z',
+      total: 45,
+      tax_total: 0,
+      status: 'completed',
+      customer_id: 'cust-1',
+    };
+
+    beforeEach(() => {
+      (database.getSale as jest.Mock).mockResolvedValue(recorded);
+    });
+
+    it('puts stock back and undoes gift card, account and loyalty writes', async () => {
+      await salesService.voidSale(5, 'Rang up twice');
+
+      const [transaction] = (giftCardService.reverseTransaction as jest.Mock).mock.calls[0];
+      expect(transaction.id).toBe('TXN_5');
+      expect(database.updateSaleStatus).toHaveBeenCalledWith(5, 'cancelled');
+      // Gift card lines are not stock
+      expect(productService.updateStock).toHaveBeenCalledTimes(1);
+      expect(productService.updateStock).toHaveBeenCalledWith(1, 12);
+      expect(accountsReceivableService.cancelCharge).toHaveBeenCalledWith(transaction);
+      expect(loyaltyService.reverseSale).toHaveBeenCalledWith(transaction);
+      expect(managerOverrideService.assertAuthorized).toHaveBeenCalledWith('canVoidTransactions', 'void', undefined);
+    });
+
+    it('refuses a sale that has returns', async () => {
+      (database.getTransactions as jest.Mock).mockResolvedValueOnce([{ ...sale, id: 'RET_1', status: 'returned' }]);
+
+      await expect(salesService.voidSale(5, 'Changed mind')).rejects.toThrow('Sales with returns cannot be voided');
+      expect(database.updateSaleStatus).not.toHaveBeenCalled();
+      expect(productService.updateStock).not.toHaveBeenCalled();
+    });
+
+    it('rolls every write back when a later one fails', async () => {
+      (loyaltyService.reverseSale as jest.Mock).mockRejectedValueOnce(new Error('Failed to record loyalty points'));
+
+      await expect(salesService.voidSale(5, 'Rang up twice')).rejects.toThrow('Failed to record loyalty points');
+
+      const [transaction] = (giftCardService.reverseTransaction as jest.Mock).mock.calls[0];
+      expect(accountsReceivableService.reinstateCharge).toHaveBeenCalledWith(transaction);
+      expect(giftCardService.recordSale).toHaveBeenCalledWith(transaction);
+      expect(productService.updateStock).toHaveBeenLastCalledWith(1, 10);
+      expect(database.updateSaleStatus).toHaveBeenLastCalledWith(5, 'completed');
+      expect(managerOverrideService.assertAuthorized).not.toHaveBeenCalled();
+      expect(database.logAuditEvent).not.toHaveBeenCalled();
+    });
+  });
+});
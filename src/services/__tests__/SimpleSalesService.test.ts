@@ -0,0 +1,36 @@
+import { salesService as ledger } from '../SalesService';
+import { salesService } from '../SimpleSalesService';
+
+jest.mock('../../stores/DatabaseFactory', () => ({ database: {} }));
+jest.mock('../ManagerOverrideService', () => ({ managerOverrideService: {} }));
+jest.mock('../ProfileService', () => ({
+  profileService: { getBusinessSettings: jest.fn(async () => ({ taxRate: 0.1 })) },
+}));
+jest.mock('../SalesService', () => ({
+  salesService: { recordTransaction: jest.fn(async (transaction) => transaction) },
+}));
+
+describe('SimpleSalesService', () => {
+  it('takes a sale discount off the lines before tax', async () => {
+    const sale = await salesService.completeSale([
+      { productId: 1, description: 'Mug', unitPrice: 10, quantity: 3 },
+      { productId: 2, description: 'Tea', unitPrice: 5, quantity: 2 },
+    ], 'cash', 40, 4);
+
+    // $40 less $4, taxed at 10%
+    expect(sale.totals).toMatchObject({ subTotal: 40, discountTotal: 4, taxTotal: 3.6, grandTotal: 39.6 });
+    expect(sale.items.map(item => item.lineTotal)).toEqual([
+      { net: 27, tax: 2.7, gross: 29.7 },
+      { net: 9, tax: 0.9, gross: 9.9 },
+    ]);
+    expect(sale.items.map(item => item.discounts!.map(d => d.amount))).toEqual([[3], [1]]);
+    expect(sale.tenders[1].amount).toBeCloseTo(-0.4);
+    expect(ledger.recordTransaction).toHaveBeenCalledWith(sale);
+  });
+
+  it('charges the discounted total with tax', async () => {
+    await expect(salesService.completeSale([
+      { productId: 1, description: 'Mug', unitPrice: 10, quantity: 1 },
+    ], 'cash', 9, 1)).rejects.toThrow('Insufficient payment. Required: $9.90, Received: $9.00');
+  });
+});
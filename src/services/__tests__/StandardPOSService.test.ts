@@ -0,0 +1,193 @@
+import { accountsReceivableService } from '../AccountsReceivableService';
+import { discountService } from '../DiscountService';
+import { giftCardService } from '../GiftCardService';
+import { loyaltyService } from '../LoyaltyService';
+import { quoteService } from '../QuoteService';
+import { salesService } from '../SalesService';
+import { standardPOSService } from '../StandardPOSService';
+
+jest.mock('@react-native-async-storage/async-storage', () => {
+  const store: Record<string, string> = {};
+  return {
+    getItem: jest.fn(async (key: string) => store[key] ?? null),
+    setItem: jest.fn(async (key: string, value: string) => {
+      store[key] = value;
+    }),
+  };
+});
+jest.mock('../SalesService', () => ({ salesService: {} }));
+jest.mock('../ProductService', () => ({ productService: {} }));
+jest.mock('../DiscountService', () => ({ discountService: {} }));
+jest.mock('../AccountsReceivableService', () => ({ accountsReceivableService: {} }));
+jest.mock('../GiftCardService', () => ({ giftCardService: {} }));
+jest.mock('../LoyaltyService', () => ({ loyaltyService: {} }));
+jest.mock('../QuoteService', () => ({ quoteService: {} }));
+jest.mock('../AuthService', () => ({
+  authService: {
+    getCurrentUser: jest.fn().mockResolvedValue({ id: 'user_1', firstName: 'Ana', lastName: 'Diaz' }),
+  },
+}));
+jest.mock('../ProfileService', () => ({
+  profileService: { getBusinessSettings: jest.fn().mockResolvedValue({ heldCartExpiryHours: 2 }) },
+}));
+
+describe('StandardPOSService split tender', () => {
+  it('keeps each tender and gives change only from cash', () => {
+    const tenders = standardPOSService.settleTenders(50, [
+      { type: 'card', amount: 30 },
+      { type: 'cash', amount: 25 },
+    ]);
+
+    expect(tenders).toEqual([
+      { id: '1', type: 'card', amount: 30 },
+      { id: '2', type: 'cash', amount: 25 },
+      { id: 'change', type: 'cash', amount: -5 },
+    ]);
+  });
+
+  it('rejects payments that leave a balance due', () => {
+    expect(() =>
+      standardPOSService.settleTenders(50, [{ type: 'card', amount: 20 }, { type: 'cash', amount: 20 }])
+    ).toThrow('Insufficient payment');
+  });
+
+  it('rejects change that would come out of a non-cash tender', () => {
+    expect(() =>
+      standardPOSService.settleTenders(50, [
+        { type: 'cash', amount: 5 },
+        { type: 'card', amount: 30 },
+        { type: 'digital', amount: 25 },
+      ])
+    ).toThrow('Non-cash payments cannot exceed the balance due');
+  });
+});
+
+describe('StandardPOSService held carts', () => {
+  const cart = [{ id: '1_1', productId: 1, name: 'Mug', price: 10, quantity: 2 }];
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('numbers held carts and recalls them with operator and note', async () => {
+    const first = await standardPOSService.holdCart(cart, { label: 'Blue jacket', note: 'Back in 5' });
+    const second = await standardPOSService.holdCart(cart);
+
+    expect(first.number).toBe(1);
+    expect(second.number).toBe(2);
+    expect(first.operatorId).toBe('user_1');
+    expect(first.operatorName).toBe('Ana Diaz');
+
+    const recalled = await standardPOSService.recallHeldCart(first.id);
+    expect(recalled.items).toEqual(cart);
+    expect(recalled.note).toBe('Back in 5');
+
+    const remaining = await standardPOSService.getHeldCarts();
+    expect(remaining.map(held => held.number)).toEqual([2]);
+
+    // The freed number is handed out again
+    expect((await standardPOSService.holdCart(cart)).number).toBe(1);
+  });
+
+  it('drops held carts once the configured period has passed', async () => {
+    await standardPOSService.holdCart(cart);
+    expect((await standardPOSService.getHeldCarts()).length).toBeGreaterThan(0);
+
+    jest.useFakeTimers().setSystemTime(Date.now() + 2 * 60 * 60 * 1000 + 1);
+
+    expect(await standardPOSService.getHeldCarts()).toEqual([]);
+    await expect(standardPOSService.recallHeldCart('missing')).rejects.toThrow(
+      'Held cart not found or expired'
+    );
+  });
+});
+
+describe('StandardPOSService checkout', () => {
+  const cart = [{ id: '1_1', productId: 1, name: 'Mug', price: 10, quantity: 2 }];
+  const payments = [
+    { type: 'loyalty_points' as const, amount: 5 },
+    { type: 'store_credit' as const, amount: 5, reference: 'GC1' },
+    { type: 'on_account' as const, amount: 10 },
+  ];
+
+  beforeEach(() => {
+    Object.assign(discountService, {
+      assertDiscountsAuthorized: jest.fn(),
+      consumeApprovals: jest.fn(),
+      priceCart: jest.fn(() => ({
+        lines: [{ item: cart[0], gross: 20, discounts: [], discountTotal: 0, net: 20 }],
+        subtotal: 20,
+        discountTotal: 0,
+        net: 20,
+        headerDiscounts: [],
+      })),
+    });
+    Object.assign(loyaltyService, {
+      assertRedeemable: jest.fn(),
+      recordRedemption: jest.fn(),
+      reverseRedemption: jest.fn(),
+      recordSale: jest.fn(),
+    });
+    Object.assign(giftCardService, { assertSaleValid: jest.fn(), recordSale: jest.fn(), reverseTransaction: jest.fn() });
+    Object.assign(accountsReceivableService, { assertCanCharge: jest.fn(), chargeSale: jest.fn(), cancelCharge: jest.fn() });
+  });
+
+  it('spends points, gift cards and account credit before the sale is saved', async () => {
+    Object.assign(salesService, { recordTransaction: jest.fn(async (transaction) => transaction) });
+    (loyaltyService.recordSale as jest.Mock).mockRejectedValue(new Error('offline'));
+
+    const saved = await standardPOSService.processTransaction(cart, payments, { customerId: 'cust-1' });
+
+    expect(saved.id).toMatch(/^TXN_/);
+    expect(loyaltyService.recordRedemption).toHaveBeenCalledWith(saved);
+    expect(giftCardService.recordSale).toHaveBeenCalledWith(saved);
+    expect(accountsReceivableService.chargeSale).toHaveBeenCalledWith(saved);
+    // Points the sale earns are best-effort once it is saved
+    expect(loyaltyService.recordSale).toHaveBeenCalledWith(saved);
+    expect(loyaltyService.reverseRedemption).not.toHaveBeenCalled();
+  });
+
+  it('puts back every earlier write when the sale cannot be saved', async () => {
+    Object.assign(salesService, { recordTransaction: jest.fn().mockRejectedValue(new Error('disk full')) });
+
+    await expect(
+      standardPOSService.processTransaction(cart, payments, { customerId: 'cust-1' })
+    ).rejects.toThrow('Failed to complete transaction');
+
+    const [transaction] = (loyaltyService.recordRedemption as jest.Mock).mock.calls[0];
+    expect(accountsReceivableService.cancelCharge).toHaveBeenCalledWith(transaction);
+    expect(giftCardService.reverseTransaction).toHaveBeenCalledWith(transaction);
+    expect(loyaltyService.reverseRedemption).toHaveBeenCalledWith(transaction);
+    expect(loyaltyService.recordSale).not.toHaveBeenCalled();
+  });
+
+  it('stops the sale when points cannot be redeemed', async () => {
+    Object.assign(salesService, { recordTransaction: jest.fn() });
+    (loyaltyService.recordRedemption as jest.Mock).mockRejectedValue(new Error('Failed to record loyalty points'));
+
+    await expect(
+      standardPOSService.processTransaction(cart, payments, { customerId: 'cust-1' })
+    ).rejects.toThrow('Failed to complete transaction');
+
+    expect(giftCardService.recordSale).not.toHaveBeenCalled();
+    expect(salesService.recordTransaction).not.toHaveBeenCalled();
+    expect(loyaltyService.reverseRedemption).toHaveBeenCalled();
+  });
+
+  it('refuses to charge for a quote that is no longer open', async () => {
+    Object.assign(salesService, { recordTransaction: jest.fn() });
+    Object.assign(quoteService, {
+      requireOpenQuote: jest.fn().mockRejectedValue(new Error('Quote QTE-1 has already been accepted')),
+      recordSale: jest.fn(),
+    });
+
+    await expect(
+      standardPOSService.processTransaction(cart, payments, { customerId: 'cust-1', quoteId: 'quote-1' })
+    ).rejects.toThrow('Quote QTE-1 has already been accepted');
+
+    expect(quoteService.requireOpenQuote).toHaveBeenCalledWith('quote-1');
+    expect(loyaltyService.recordRedemption).not.toHaveBeenCalled();
+    expect(salesService.recordTransaction).not.toHaveBeenCalled();
+    expect(quoteService.recordSale).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import { taxService, TaxSettings } from '../TaxService';
+
+jest.mock('../ProfileService', () => ({
+  profileService: {
+    getBusinessSettings: jest.fn(),
+    updateBusinessSettings: jest.fn(),
+  },
+}));
+
+const settings = (overrides: Partial<TaxSettings> = {}): TaxSettings => ({
+  pricesIncludeTax: false,
+  rounding: 'line',
+  taxClasses: [
+    {
+      id: 'standard',
+      name: 'Standard',
+      components: [
+        { id: 'state', name: 'State', rate: 0.06 },
+        { id: 'city', name: 'City', rate: 0.02 },
+      ],
+    },
+  ],
+  defaultRate: 0.05,
+  ...overrides,
+});
+
+describe('TaxService', () => {
+  it('charges every component of a tax class on top of exclusive prices', () => {
+    const result = taxService.calculate(
+      [{ amount: 100, taxClassId: 'standard' }, { amount: 10, taxRate: 0.1 }, { amount: 20 }],
+      { settings: settings() }
+    );
+
+    expect(result.taxes).toEqual([
+      { id: 'state', name: 'State', rate: 0.06, amount: 6 },
+      { id: 'city', name: 'City', rate: 0.02, amount: 2 },
+      { id: 'tax', name: 'Sales Tax', rate: 0.1, amount: 1 },
+      // The line without a rate falls back to the business default
+      { id: 'tax', name: 'Sales Tax', rate: 0.05, amount: 1 },
+    ]);
+    expect(result.net).toBe(130);
+    expect(result.tax).toBe(10);
+    expect(result.gross).toBe(140);
+  });
+
+  it('backs tax out of tax-inclusive prices', () => {
+    const result = taxService.calculate([{ amount: 108, taxClassId: 'standard' }], {
+      settings: settings({ pricesIncludeTax: true }),
+    });
+
+    expect(result.lines[0]).toEqual(expect.objectContaining({ net: 100, tax: 8, gross: 108 }));
+    expect(result.gross).toBe(108);
+  });
+
+  it('rounds per line or once per invoice', () => {
+    const lines = [{ amount: 0.25, taxRate: 0.1 }, { amount: 0.25, taxRate: 0.1 }, { amount: 0.25, taxRate: 0.1 }];
+
+    // 0.025 rounds up to 0.03 on each line, but 0.075 rounds to 0.08 once
+    expect(taxService.calculate(lines, { settings: settings() }).tax).toBe(0.09);
+    expect(taxService.calculate(lines, { settings: settings({ rounding: 'invoice' }) }).tax).toBe(0.08);
+  });
+
+  it('charges no tax to exempt customers', () => {
+    const exclusive = taxService.calculate([{ amount: 50, taxClassId: 'standard' }], {
+      exempt: true,
+      settings: settings(),
+    });
+    expect(exclusive).toEqual(expect.objectContaining({ net: 50, tax: 0, gross: 50, taxes: [] }));
+
+    const inclusive = taxService.calculate([{ amount: 54, taxClassId: 'standard' }], {
+      exempt: true,
+      settings: settings({ pricesIncludeTax: true }),
+    });
+    expect(inclusive.gross).toBe(50);
+  });
+});
@@ -0,0 +1,106 @@
+import { userManagementService } from '../UserManagementService';
+import { authService } from '../AuthService';
+import { database } from '../../stores/DatabaseFactory';
+import { User } from '../../types';
+
+const mockUsers: User[] = [];
+
+jest.mock('../../stores/DatabaseFactory', () => ({
+  database: {
+    getAllUsers: jest.fn(async () => mockUsers),
+    getUser: jest.fn(async (id) => mockUsers.find(user => user.id === id) || null),
+    updateUser: jest.fn(async (input) => {
+      const index = mockUsers.findIndex(existing => existing.id === input.id);
+      mockUsers[index] = { ...mockUsers[index], ...input };
+      return mockUsers[index];
+    }),
+    getActiveSessionCounts: jest.fn(async () => ({ 'admin-001': 2 })),
+    deleteUserAuthSessions: jest.fn(async () => 1),
+    getUserTotp: jest.fn(async (userId) => (userId === 'admin-001' ? { confirmed: true } : null)),
+    logAuditEvent: jest.fn(),
+  },
+}));
+
+jest.mock('../AuthService', () => ({
+  authService: {
+    requirePermission: jest.fn(),
+    getCurrentUser: jest.fn(async () => ({ id: 'admin-001' })),
+    createUser: jest.fn(async (input) => ({ ...input, id: 'user-new', isActive: true })),
+  },
+}));
+
+jest.mock('../RoleService', () => ({
+  roleService: {
+    getRoles: jest.fn(async () => [{ id: 'admin' }, { id: 'manager' }, { id: 'cashier' }]),
+  },
+}));
+
+const user = (id: string, role: string, firstName: string = id): User => ({
+  id,
+  username: id,
+  email: `${id}@example.com`,
+  firstName,
+  lastName: 'Test',
+  role,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('UserManagementService', () => {
+  beforeEach(() => {
+    mockUsers.length = 0;
+    mockUsers.push(user('admin-001', 'admin', 'Ada'), user('user-2', 'cashier', 'Cam'));
+    jest.clearAllMocks();
+  });
+
+  it('lists and searches users with session counts and two-factor state', async () => {
+    expect(await userManagementService.getUsers()).toEqual([
+      { user: expect.objectContaining({ id: 'admin-001' }), activeSessions: 2, twoFactorEnabled: true },
+      { user: expect.objectContaining({ id: 'user-2' }), activeSessions: 0, twoFactorEnabled: false },
+    ]);
+    expect(await userManagementService.getUsers('CAM')).toEqual([
+      expect.objectContaining({ user: expect.objectContaining({ id: 'user-2' }) }),
+    ]);
+    expect(authService.requirePermission).toHaveBeenCalledWith('canManageUsers');
+  });
+
+  it('invites a user with a temporary password they must change', async () => {
+    const input = { username: ' newbie ', email: 'new@example.com', firstName: 'New', lastName: 'Bie', role: 'cashier' };
+    const { user: invited, temporaryPassword } = await userManagementService.inviteUser(input);
+
+    expect(invited.username).toBe('newbie');
+    expect(authService.createUser).toHaveBeenCalledWith(expect.objectContaining({ username: 'newbie' }), temporaryPassword, true);
+    expect(database.logAuditEvent).toHaveBeenCalledWith('admin-001', 'user_invited', 'user_management',
+      expect.objectContaining({ userId: 'user-new' }));
+    await expect(userManagementService.inviteUser({ ...input, role: 'ghost' })).rejects.toThrow('Role not found');
+  });
+
+  it('deactivates a user everywhere but never the last admin or yourself', async () => {
+    await userManagementService.setUserActive('user-2', false);
+    expect(mockUsers[1].isActive).toBe(false);
+    expect(database.deleteUserAuthSessions).toHaveBeenCalledWith('user-2');
+    expect(database.logAuditEvent).toHaveBeenCalledWith('admin-001', 'user_deactivated', 'user_management',
+      expect.objectContaining({ userId: 'user-2' }));
+
+    await userManagementService.setUserActive('user-2', true);
+    expect(mockUsers[1].isActive).toBe(true);
+
+    await expect(userManagementService.setUserActive('admin-001', false)).rejects.toThrow(
+      'You cannot deactivate your own account'
+    );
+    await expect(userManagementService.changeUserRole('admin-001', 'cashier')).rejects.toThrow(
+      'You cannot change your own role'
+    );
+
+    mockUsers.push(user('admin-002', 'admin'));
+    mockUsers[0] = { ...mockUsers[0], isActive: false };
+    await expect(userManagementService.changeUserRole('admin-002', 'manager')).rejects.toThrow(
+      'At least one active admin is required'
+    );
+
+    await userManagementService.changeUserRole('user-2', 'manager');
+    expect(database.logAuditEvent).toHaveBeenCalledWith('admin-001', 'user_role_changed', 'user_management',
+      expect.objectContaining({ userId: 'user-2', role: 'manager', previousRole: 'cashier' }));
+  });
+});
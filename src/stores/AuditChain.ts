@@ -0,0 +1,104 @@
+import { AuditChainIssue, AuditChainVerification, AuditLog, AuditLogQuery } from '../types';
+import { sha256, toHex, utf8Encode } from '../utils/password';
+
+/**
+ * Hash chain over the audit log, shared by both database backends. Each entry
+ * gets the next sequence number and a SHA-256 hash of its contents plus the
+ * previous entry's hash, so editing an entry breaks its hash and deleting one
+ * leaves a gap in the sequence.
+ */
+
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+export type AuditChainLink = Pick<AuditLog, 'sequence' | 'previousHash' | 'hash'>;
+
+// Details are hashed as stored: a JSON string, or an object from a parsed row
+export function serializeAuditDetails(details: unknown): string {
+  if (details === undefined || details === null || details === '') {
+    return '';
+  }
+  return typeof details === 'string' ? details : JSON.stringify(details);
+}
+
+export function computeAuditHash(entry: AuditLog, sequence: number, previousHash: string): string {
+  const date = new Date(entry.timestamp);
+  // An unparseable legacy timestamp is hashed as read
+  const timestamp = isNaN(date.getTime()) ? String(entry.timestamp) : date.toISOString();
+  const payload = [
+    sequence,
+    entry.id,
+    entry.userId || '',
+    entry.action,
+    entry.resource,
+    serializeAuditDetails(entry.details),
+    entry.ipAddress || '',
+    timestamp,
+    previousHash,
+  ].join('|');
+  return toHex(sha256(utf8Encode(payload)));
+}
+
+/**
+ * The chain fields for an entry appended after `last`
+ */
+export function linkAuditEntry(entry: AuditLog, last: AuditChainLink | null): Required<AuditChainLink> {
+  const sequence = (last?.sequence ?? 0) + 1;
+  const previousHash = last?.hash || AUDIT_GENESIS_HASH;
+  return { sequence, previousHash, hash: computeAuditHash(entry, sequence, previousHash) };
+}
+
+/**
+ * Re-hash every entry and report edits, deletions and reordering. Entries
+ * may be passed in any order.
+ */
+export function verifyAuditChain(entries: AuditLog[]): AuditChainVerification {
+  const sorted = [...entries].sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
+  const issues: AuditChainIssue[] = [];
+  let expectedSequence = 1;
+  let previousHash = AUDIT_GENESIS_HASH;
+
+  for (const entry of sorted) {
+    if (entry.sequence === undefined || entry.sequence === null || !entry.hash) {
+      issues.push({ sequence: expectedSequence, entryId: entry.id, problem: 'unsealed' });
+      continue;
+    }
+    if (entry.sequence !== expectedSequence) {
+      issues.push({
+        sequence: expectedSequence,
+        entryId: entry.id,
+        problem: entry.sequence < expectedSequence ? 'duplicate' : 'missing',
+      });
+    }
+    if (entry.previousHash !== previousHash) {
+      issues.push({ sequence: entry.sequence, entryId: entry.id, problem: 'broken_link' });
+    }
+    if (computeAuditHash(entry, entry.sequence, entry.previousHash || '') !== entry.hash) {
+      issues.push({ sequence: entry.sequence, entryId: entry.id, problem: 'modified' });
+    }
+
+    expectedSequence = entry.sequence + 1;
+    previousHash = entry.hash;
+  }
+
+  return {
+    valid: issues.length === 0,
+    checked: sorted.length,
+    lastSequence: sorted.length > 0 ? sorted[sorted.length - 1].sequence ?? 0 : 0,
+    issues,
+    verifiedAt: new Date(),
+  };
+}
+
+/**
+ * Whether an entry matches the query filters (paging is left to the caller)
+ */
+export function matchesAuditQuery(entry: AuditLog, query: AuditLogQuery): boolean {
+  const timestamp = new Date(entry.timestamp).getTime();
+  return (
+    (!query.userId || entry.userId === query.userId) &&
+    (!query.action || entry.action === query.action) &&
+    (!query.resource || entry.resource === query.resource) &&
+    (!query.from || timestamp >= query.from.getTime()) &&
+    (!query.to || timestamp <= query.to.getTime())
+  );
+}
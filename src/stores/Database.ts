@@ -12,7 +12,22 @@ import {
     DatabaseService,
     BusinessSettings,
     UserProfile,
-    AuditLog
+    AuditLog,
+    UserPasswordRecord,
+    UserPinRecord,
+    Role,
+    AuditLogQuery,
+    AuditLogPage,
+    LoginAttemptRecord,
+    PasswordResetCode,
+    UserTotpRecord,
+    AuthSessionRecord,
+    Customer,
+    CreateCustomerInput,
+    UpdateCustomerInput,
+    LoyaltyLedgerEntry,
+    GiftCard,
+    GiftCardEntry
 } from '../types';
 import {
     User,
@@ -20,10 +35,32 @@ import {
     CreateUserInput,
     UpdateUserInput
 } from '../types/auth';
+import {
+    DrawerEvent,
+    DrawerShift,
+    DrawerShiftQuery,
+    RetailTransaction,
+    TransactionQuery
+} from '../types/pos';
+import {
+    fromLedgerRecords,
+    generateTransactionId,
+    toPaymentRecords,
+    toSaleItemRecords,
+    toSaleRecord,
+    toSaleStatus
+} from './TransactionLedger';
+import { linkAuditEntry } from './AuditChain';
+import { BASELINE_SCHEMA_VERSION, getPendingMigrations } from './migrations';
+
+// SQLite caps bound parameters per statement, so IN (...) lookups are chunked
+const LEDGER_BATCH_SIZE = 500;
 
 class Database implements DatabaseService {
     private db: SQLite.SQLiteDatabase | null = null;
     private static instance: Database;
+    // Audit entries are chained, so they are written one at a time
+    private auditQueue: Promise<void> = Promise.resolve();
 
     private constructor() { }
 
@@ -46,6 +83,8 @@ class Database implements DatabaseService {
             console.log('Creating database tables...');
             await this.createTables();
             console.log('Database tables created successfully');
+
+            await this.runMigrations();
             
             console.log('Database initialized successfully');
         } catch (error) {
@@ -263,6 +302,15 @@ class Database implements DatabaseService {
         );
       `);
 
+            // Create schema version table
+            await this.db.execAsync(`
+        CREATE TABLE IF NOT EXISTS schema_version (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
             console.log('All database tables created successfully');
         } catch (error) {
             console.error('Failed to create tables:', error);
@@ -273,6 +321,52 @@ class Database implements DatabaseService {
         }
     }
 
+    /**
+     * Apply pending schema migrations in order, each in its own transaction
+     */
+    private async runMigrations(): Promise<void> {
+        const currentVersion = await this.getSchemaVersion();
+        const pending = getPendingMigrations(currentVersion);
+
+        if (pending.length === 0) {
+            console.log(`Database schema is up to date (version ${currentVersion})`);
+            return;
+        }
+
+        for (const migration of pending) {
+            try {
+                console.log(`Applying migration ${migration.version}: ${migration.name}...`);
+                await this.executeTransaction(async (db) => {
+                    await migration.sqlite(db);
+                    await db.runAsync(
+                        'INSERT INTO schema_version (version, name) VALUES (?, ?)',
+                        [migration.version, migration.name]
+                    );
+                });
+            } catch (error) {
+                console.error(`Migration ${migration.version} (${migration.name}) failed:`, error);
+                throw new DatabaseError({
+                    code: 'MIGRATION_ERROR',
+                    message: `Failed to apply migration ${migration.version} (${migration.name})`,
+                    table: 'schema_version'
+                });
+            }
+        }
+
+        console.log(`Database schema migrated to version ${pending[pending.length - 1].version}`);
+    }
+
+    /**
+     * Current schema version; databases created before versioning count as the baseline
+     */
+    public async getSchemaVersion(): Promise<number> {
+        const db = this.getConnection();
+        const row = await db.getFirstAsync<{ version: number | null }>(
+            'SELECT MAX(version) AS version FROM schema_version'
+        );
+        return row?.version ?? BASELINE_SCHEMA_VERSION;
+    }
+
     /**
      * Get database connection
      */
@@ -299,17 +393,28 @@ class Database implements DatabaseService {
         const db = this.getConnection();
 
         try {
+            const columns = ['sku', 'name', 'price', 'cost', 'stock_qty', 'tax_rate'];
+            const values: (string | number)[] = [
+                input.sku,
+                input.name,
+                input.price,
+                input.cost,
+                input.stock_qty || 0,
+                input.tax_rate || 0.0
+            ];
+
+            // Catalog (version 3) and tax class (version 6) fields are only written when provided
+            for (const field of ['category', 'description', 'barcode', 'tax_class_id'] as const) {
+                if (input[field] !== undefined && input[field] !== null) {
+                    columns.push(field);
+                    values.push(input[field]!);
+                }
+            }
+
             const result = await db.runAsync(
-                `INSERT INTO products (sku, name, price, cost, stock_qty, tax_rate) 
-         VALUES (?, ?, ?, ?, ?, ?)`,
-                [
-                    input.sku,
-                    input.name,
-                    input.price,
-                    input.cost,
-                    input.stock_qty || 0,
-                    input.tax_rate || 0.0
-                ]
+                `INSERT INTO products (${columns.join(', ')}) 
+         VALUES (${columns.map(() => '?').join(', ')})`,
+                values
             );
 
             const product = await this.getProduct(result.lastInsertRowId);
@@ -415,6 +520,22 @@ class Database implements DatabaseService {
                 updates.push('tax_rate = ?');
                 values.push(input.tax_rate);
             }
+            if (input.tax_class_id !== undefined) {
+                updates.push('tax_class_id = ?');
+                values.push(input.tax_class_id);
+            }
+            if (input.category !== undefined) {
+                updates.push('category = ?');
+                values.push(input.category);
+            }
+            if (input.description !== undefined) {
+                updates.push('description = ?');
+                values.push(input.description);
+            }
+            if (input.barcode !== undefined) {
+                updates.push('barcode = ?');
+                values.push(input.barcode);
+            }
 
             if (updates.length === 0) {
                 throw new Error('No fields to update');
@@ -817,460 +938,1567 @@ class Database implements DatabaseService {
         }
     }
 
-    /**
-     * Close database connection
-     */
-    public async close(): Promise<void> {
-        if (this.db) {
-            await this.db.closeAsync();
-            this.db = null;
-            console.log('Database connection closed');
-        }
-    }
+    // Transaction ledger operations
 
     /**
-     * Execute a transaction with rollback support
+     * Persist a RetailTransaction across the sales, sale_items and payments tables
      */
-    public async executeTransaction<T>(
-        operations: (db: SQLite.SQLiteDatabase) => Promise<T>
-    ): Promise<T> {
-        const db = this.getConnection();
+    public async saveTransaction(transaction: RetailTransaction): Promise<RetailTransaction> {
+        const record = toSaleRecord({ ...transaction, id: transaction.id || generateTransactionId() });
 
         try {
-            await db.execAsync('BEGIN TRANSACTION');
-            const result = await operations(db);
-            await db.execAsync('COMMIT');
-            return result;
+            await this.executeTransaction(async (db) => {
+                const result = await db.runAsync(
+                    `INSERT INTO sales (transaction_id, timestamp, business_date, total, tax_total, subtotal,
+                     discount_total, currency, status, operator_id, customer_id, workstation_id, notes,
+                     original_transaction_id, tax_exemption_id, tax_inclusive)
+                     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                    [
+                        record.transaction_id!,
+                        record.timestamp,
+                        record.business_date || null,
+                        record.total,
+                        record.tax_total,
+                        record.subtotal ?? null,
+                        record.discount_total ?? 0,
+                        record.currency || 'USD',
+                        record.status,
+                        record.operator_id || null,
+                        record.customer_id || null,
+                        record.workstation_id || null,
+                        record.notes || null,
+                        record.original_transaction_id || null,
+                        record.tax_exemption_id || null,
+                        record.tax_inclusive ?? 0
+                    ]
+                );
+                const saleId = result.lastInsertRowId;
+
+                for (const item of toSaleItemRecords(saleId, transaction)) {
+                    await db.runAsync(
+                        `INSERT INTO sale_items (sale_id, product_id, qty, unit_price, line_number, sku, name,
+                         discounts, taxes, net_total, tax_total, original_line_number, disposition, gift_card_code)
+                         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                        [
+                            item.sale_id,
+                            item.product_id,
+                            item.qty,
+                            item.unit_price,
+                            item.line_number ?? null,
+                            item.sku || null,
+                            item.name || null,
+                            item.discounts || null,
+                            item.taxes || null,
+                            item.net_total ?? null,
+                            item.tax_total ?? null,
+                            item.original_line_number ?? null,
+                            item.disposition || null,
+                            item.gift_card_code || null
+                        ]
+                    );
+                }
+
+                for (const payment of toPaymentRecords(saleId, transaction)) {
+                    await db.runAsync(
+                        'INSERT INTO payments (sale_id, method, amount, reference) VALUES (?, ?, ?, ?)',
+                        [payment.sale_id, payment.method, payment.amount, payment.reference || null]
+                    );
+                }
+            });
+
+            const saved = await this.getTransaction(record.transaction_id!);
+            if (!saved) {
+                throw new Error('Failed to retrieve saved transaction');
+            }
+
+            return saved;
         } catch (error) {
-            await db.execAsync('ROLLBACK');
-            console.error('Transaction rolled back:', error);
-            throw error;
+            console.error('Failed to save transaction:', error);
+            throw new DatabaseError({
+                code: 'SAVE_TRANSACTION_ERROR',
+                message: 'Failed to save transaction',
+                table: 'sales'
+            });
         }
     }
 
-    /**
-     * Get database statistics
-     */
-    public async getStats(): Promise<{
-        totalProducts: number;
-        totalSales: number;
-        totalRevenue: number;
-    }> {
+    public async getTransaction(id: string): Promise<RetailTransaction | null> {
         const db = this.getConnection();
 
         try {
-            const productCount = await db.getFirstAsync<{ count: number }>(
-                'SELECT COUNT(*) as count FROM products'
+            const sale = await db.getFirstAsync<Sale>(
+                `SELECT * FROM sales WHERE transaction_id = ? OR ('SALE_' || id) = ?`,
+                [id, id]
             );
+            if (!sale) {
+                return null;
+            }
 
-            const salesCount = await db.getFirstAsync<{ count: number }>(
-                'SELECT COUNT(*) as count FROM sales'
-            );
+            const [transaction] = await this.loadTransactions(db, [sale]);
+            return transaction;
+        } catch (error) {
+            console.error('Failed to get transaction:', error);
+            throw new DatabaseError({
+                code: 'GET_TRANSACTION_ERROR',
+                message: 'Failed to retrieve transaction',
+                table: 'sales'
+            });
+        }
+    }
 
-            const revenue = await db.getFirstAsync<{ total: number }>(
-                'SELECT SUM(total) as total FROM sales WHERE status = "completed"'
-            );
+    public async getTransactions(query: TransactionQuery = {}): Promise<RetailTransaction[]> {
+        const db = this.getConnection();
+        const conditions: string[] = [];
+        const params: (string | number)[] = [];
 
-            return {
-                totalProducts: productCount?.count || 0,
-                totalSales: salesCount?.count || 0,
-                totalRevenue: revenue?.total || 0
-            };
+        if (query.startDate) {
+            conditions.push('datetime(timestamp) >= datetime(?)');
+            params.push(query.startDate.toISOString());
+        }
+        if (query.endDate) {
+            conditions.push('datetime(timestamp) <= datetime(?)');
+            params.push(query.endDate.toISOString());
+        }
+        if (query.status) {
+            conditions.push('status = ?');
+            params.push(toSaleStatus(query.status));
+        }
+        if (query.operatorId) {
+            conditions.push('operator_id = ?');
+            params.push(query.operatorId);
+        }
+        if (query.originalTransactionId) {
+            conditions.push('original_transaction_id = ?');
+            params.push(query.originalTransactionId);
+        }
+
+        let sql = 'SELECT * FROM sales';
+        if (conditions.length > 0) {
+            sql += ` WHERE ${conditions.join(' AND ')}`;
+        }
+        sql += ' ORDER BY datetime(timestamp) DESC, id DESC';
+        if (query.limit) {
+            sql += ' LIMIT ?';
+            params.push(query.limit);
+        }
+
+        try {
+            const sales = (await db.getAllAsync<Sale>(sql, params)) || [];
+            return await this.loadTransactions(db, sales);
         } catch (error) {
-            console.error('Failed to get database stats:', error);
+            console.error('Failed to get transactions:', error);
             throw new DatabaseError({
-                code: 'GET_STATS_ERROR',
-                message: 'Failed to retrieve database statistics'
+                code: 'GET_TRANSACTIONS_ERROR',
+                message: 'Failed to retrieve transactions',
+                table: 'sales'
             });
         }
     }
 
-    /**
-     * Get sales summary for a specific date
-     */
-    public async getSalesSummaryByDate(date: string): Promise<{
-        totalSales: number;
-        totalRevenue: number;
-        averageTransaction: number;
-        transactionCount: number;
-    }> {
+    public async updateTransactionStatus(
+        id: string,
+        status: RetailTransaction['status']
+    ): Promise<RetailTransaction> {
         const db = this.getConnection();
 
         try {
-            const summary = await db.getFirstAsync<{
-                total_sales: number;
-                completed_sales: number;
-                total_revenue: number;
-                average_transaction: number;
-            }>(
-                `SELECT 
-                    COUNT(*) as total_sales,
-                    COUNT(CASE WHEN status = 'completed' THEN 1 END) as completed_sales,
-                    COALESCE(SUM(CASE WHEN status = 'completed' THEN total ELSE 0 END), 0) as total_revenue,
-                    COALESCE(AVG(CASE WHEN status = 'completed' THEN total END), 0) as average_transaction
-                 FROM sales 
-                 WHERE DATE(timestamp) = DATE(?)`,
-                [date]
+            await db.runAsync(
+                `UPDATE sales SET status = ? WHERE transaction_id = ? OR ('SALE_' || id) = ?`,
+                [toSaleStatus(status), id, id]
             );
 
-            return {
-                totalSales: summary?.total_sales || 0,
-                totalRevenue: summary?.total_revenue || 0,
-                averageTransaction: summary?.average_transaction || 0,
-                transactionCount: summary?.completed_sales || 0,
-            };
+            const transaction = await this.getTransaction(id);
+            if (!transaction) {
+                throw new Error('Failed to retrieve updated transaction');
+            }
+
+            return transaction;
         } catch (error) {
-            console.error('Failed to get sales summary by date:', error);
+            console.error('Failed to update transaction status:', error);
             throw new DatabaseError({
-                code: 'GET_SALES_SUMMARY_ERROR',
-                message: 'Failed to retrieve sales summary',
+                code: 'UPDATE_TRANSACTION_STATUS_ERROR',
+                message: 'Failed to update transaction status',
                 table: 'sales'
             });
         }
     }
 
-    // ==================== USER MANAGEMENT METHODS ====================
+    /**
+     * Attach line items and tenders to sale rows, batching lookups by sale id
+     */
+    private async loadTransactions(db: SQLite.SQLiteDatabase, sales: Sale[]): Promise<RetailTransaction[]> {
+        const itemsBySale = new Map<number, SaleItem[]>();
+        const paymentsBySale = new Map<number, Payment[]>();
+
+        for (let i = 0; i < sales.length; i += LEDGER_BATCH_SIZE) {
+            const ids = sales.slice(i, i + LEDGER_BATCH_SIZE).map(sale => sale.id);
+            const placeholders = ids.map(() => '?').join(', ');
+
+            const items = (await db.getAllAsync<SaleItem>(
+                `SELECT * FROM sale_items WHERE sale_id IN (${placeholders}) ORDER BY id`,
+                ids
+            )) || [];
+            for (const item of items) {
+                itemsBySale.set(item.sale_id, [...(itemsBySale.get(item.sale_id) || []), item]);
+            }
+
+            const payments = (await db.getAllAsync<Payment>(
+                `SELECT * FROM payments WHERE sale_id IN (${placeholders}) ORDER BY id`,
+                ids
+            )) || [];
+            for (const payment of payments) {
+                paymentsBySale.set(payment.sale_id, [...(paymentsBySale.get(payment.sale_id) || []), payment]);
+            }
+        }
+
+        return sales.map(sale =>
+            fromLedgerRecords(sale, itemsBySale.get(sale.id) || [], paymentsBySale.get(sale.id) || [])
+        );
+    }
 
+    // Cash drawer shifts
     /**
-     * Get all users
+     * Insert or replace a drawer shift
      */
-    public async getAllUsers(): Promise<User[]> {
+    public async saveDrawerShift(shift: DrawerShift): Promise<DrawerShift> {
         const db = this.getConnection();
 
         try {
-            const users = await db.getAllAsync<{
-                id: string;
-                username: string;
-                email: string;
-                first_name: string;
-                last_name: string;
-                role: string;
-                is_active: number;
-                last_login: string | null;
-                created_at: string;
-                updated_at: string;
-            }>('SELECT * FROM users ORDER BY created_at DESC');
+            await db.runAsync(
+                `INSERT OR REPLACE INTO drawer_shifts (
+                    id, status, user_id, workstation_id, opened_at, opening_float, opening_count,
+                    closed_at, closed_by, closing_count, counted_cash, expected_cash, over_short, notes
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    shift.id,
+                    shift.status,
+                    shift.userId,
+                    shift.workstationId || null,
+                    shift.openedAt,
+                    shift.openingFloat,
+                    shift.openingCount ? JSON.stringify(shift.openingCount) : null,
+                    shift.closedAt || null,
+                    shift.closedBy || null,
+                    shift.closingCount ? JSON.stringify(shift.closingCount) : null,
+                    shift.countedCash ?? null,
+                    shift.expectedCash ?? null,
+                    shift.overShort ?? null,
+                    shift.notes || null
+                ]
+            );
+            return shift;
+        } catch (error) {
+            console.error('Failed to save drawer shift:', error);
+            throw new DatabaseError({
+                code: 'SAVE_DRAWER_SHIFT_ERROR',
+                message: 'Failed to save drawer shift',
+                table: 'drawer_shifts'
+            });
+        }
+    }
 
-            return users.map(user => ({
-                id: user.id,
-                username: user.username,
-                email: user.email,
-                firstName: user.first_name,
-                lastName: user.last_name,
-                role: user.role as UserRole,
-                isActive: Boolean(user.is_active),
-                lastLogin: user.last_login ? new Date(user.last_login) : undefined,
-                createdAt: new Date(user.created_at),
-                updatedAt: new Date(user.updated_at)
-            }));
+    public async getDrawerShift(id: string): Promise<DrawerShift | null> {
+        const db = this.getConnection();
+
+        try {
+            const row = await db.getFirstAsync('SELECT * FROM drawer_shifts WHERE id = ?', [id]);
+            return row ? this.mapDrawerShift(row) : null;
         } catch (error) {
-            console.error('Failed to get all users:', error);
+            console.error('Failed to get drawer shift:', error);
             throw new DatabaseError({
-                code: 'GET_USERS_ERROR',
-                message: 'Failed to retrieve users',
-                table: 'users'
+                code: 'GET_DRAWER_SHIFT_ERROR',
+                message: 'Failed to retrieve drawer shift',
+                table: 'drawer_shifts'
             });
         }
     }
 
     /**
-     * Get user by ID
+     * Drawer shifts, most recently opened first
      */
-    public async getUser(id: string): Promise<User | null> {
+    public async getDrawerShifts(query: DrawerShiftQuery = {}): Promise<DrawerShift[]> {
         const db = this.getConnection();
+        const conditions: string[] = [];
+        const params: (string | number)[] = [];
 
-        try {
-            const user = await db.getFirstAsync<{
-                id: string;
-                username: string;
-                email: string;
-                first_name: string;
-                last_name: string;
-                role: string;
-                is_active: number;
-                last_login: string | null;
-                created_at: string;
-                updated_at: string;
-            }>('SELECT * FROM users WHERE id = ?', [id]);
+        if (query.status) {
+            conditions.push('status = ?');
+            params.push(query.status);
+        }
+        if (query.userId) {
+            conditions.push('user_id = ?');
+            params.push(query.userId);
+        }
 
-            if (!user) {return null;}
+        let sql = 'SELECT * FROM drawer_shifts';
+        if (conditions.length > 0) {
+            sql += ` WHERE ${conditions.join(' AND ')}`;
+        }
+        sql += ' ORDER BY datetime(opened_at) DESC';
+        if (query.limit) {
+            sql += ' LIMIT ?';
+            params.push(query.limit);
+        }
 
-            return {
-                id: user.id,
-                username: user.username,
-                email: user.email,
-                firstName: user.first_name,
-                lastName: user.last_name,
-                role: user.role as UserRole,
-                isActive: Boolean(user.is_active),
-                lastLogin: user.last_login ? new Date(user.last_login) : undefined,
-                createdAt: new Date(user.created_at),
-                updatedAt: new Date(user.updated_at)
-            };
+        try {
+            const rows = (await db.getAllAsync(sql, params)) || [];
+            return rows.map(row => this.mapDrawerShift(row));
         } catch (error) {
-            console.error('Failed to get user:', error);
+            console.error('Failed to get drawer shifts:', error);
             throw new DatabaseError({
-                code: 'GET_USER_ERROR',
-                message: 'Failed to retrieve user',
-                table: 'users'
+                code: 'GET_DRAWER_SHIFTS_ERROR',
+                message: 'Failed to retrieve drawer shifts',
+                table: 'drawer_shifts'
             });
         }
     }
 
-    /**
-     * Get user by username
-     */
-    public async getUserByUsername(username: string): Promise<User | null> {
+    public async saveDrawerEvent(event: DrawerEvent): Promise<DrawerEvent> {
         const db = this.getConnection();
 
         try {
-            const user = await db.getFirstAsync<{
-                id: string;
-                username: string;
-                email: string;
+            await db.runAsync(
+                `INSERT INTO drawer_events (id, shift_id, type, amount, reason, user_id, timestamp)
+                 VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                [event.id, event.shiftId, event.type, event.amount, event.reason || null, event.userId, event.timestamp]
+            );
+            return event;
+        } catch (error) {
+            console.error('Failed to save drawer event:', error);
+            throw new DatabaseError({
+                code: 'SAVE_DRAWER_EVENT_ERROR',
+                message: 'Failed to save drawer event',
+                table: 'drawer_events'
+            });
+        }
+    }
+
+    /**
+     * Paid-in, paid-out and no-sale events for a shift, oldest first
+     */
+    public async getDrawerEvents(shiftId: string): Promise<DrawerEvent[]> {
+        const db = this.getConnection();
+
+        try {
+            const rows = (await db.getAllAsync(
+                'SELECT * FROM drawer_events WHERE shift_id = ? ORDER BY datetime(timestamp), id',
+                [shiftId]
+            )) || [];
+            return rows.map((row: any) => ({
+                id: row.id,
+                shiftId: row.shift_id,
+                type: row.type,
+                amount: row.amount,
+                reason: row.reason || undefined,
+                userId: row.user_id,
+                timestamp: row.timestamp
+            }));
+        } catch (error) {
+            console.error('Failed to get drawer events:', error);
+            throw new DatabaseError({
+                code: 'GET_DRAWER_EVENTS_ERROR',
+                message: 'Failed to retrieve drawer events',
+                table: 'drawer_events'
+            });
+        }
+    }
+
+    public async createCustomer(input: CreateCustomerInput): Promise<Customer> {
+        const now = new Date();
+        const customer: Customer = {
+            ...input,
+            id: `cust-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            createdAt: now,
+            updatedAt: now
+        };
+
+        try {
+            await this.writeCustomer(customer);
+            return customer;
+        } catch (error) {
+            console.error('Failed to create customer:', error);
+            throw new DatabaseError({
+                code: 'CREATE_CUSTOMER_ERROR',
+                message: 'Failed to create customer',
+                table: 'customers'
+            });
+        }
+    }
+
+    public async getCustomer(id: string): Promise<Customer | null> {
+        const db = this.getConnection();
+
+        try {
+            const row = await db.getFirstAsync('SELECT * FROM customers WHERE id = ?', [id]);
+            return row ? this.mapCustomer(row) : null;
+        } catch (error) {
+            console.error('Failed to get customer:', error);
+            throw new DatabaseError({
+                code: 'GET_CUSTOMER_ERROR',
+                message: 'Failed to retrieve customer',
+                table: 'customers'
+            });
+        }
+    }
+
+    public async searchCustomers(query: string, limit: number = 50): Promise<Customer[]> {
+        const db = this.getConnection();
+        const pattern = `%${query.trim()}%`;
+
+        try {
+            const rows = (await db.getAllAsync(
+                `SELECT * FROM customers
+                 WHERE name LIKE ? OR email LIKE ? OR phone LIKE ?
+                 ORDER BY name COLLATE NOCASE LIMIT ?`,
+                [pattern, pattern, pattern, limit]
+            )) || [];
+            return rows.map((row: any) => this.mapCustomer(row));
+        } catch (error) {
+            console.error('Failed to search customers:', error);
+            throw new DatabaseError({
+                code: 'SEARCH_CUSTOMERS_ERROR',
+                message: 'Failed to search customers',
+                table: 'customers'
+            });
+        }
+    }
+
+    public async updateCustomer(input: UpdateCustomerInput): Promise<Customer> {
+        const existing = await this.getCustomer(input.id);
+        if (!existing) {
+            throw new DatabaseError({
+                code: 'CUSTOMER_NOT_FOUND',
+                message: 'Customer not found',
+                table: 'customers'
+            });
+        }
+
+        const customer: Customer = { ...existing, ...input, updatedAt: new Date() };
+        try {
+            await this.writeCustomer(customer);
+            return customer;
+        } catch (error) {
+            console.error('Failed to update customer:', error);
+            throw new DatabaseError({
+                code: 'UPDATE_CUSTOMER_ERROR',
+                message: 'Failed to update customer',
+                table: 'customers'
+            });
+        }
+    }
+
+    public async saveLoyaltyEntry(entry: LoyaltyLedgerEntry): Promise<LoyaltyLedgerEntry> {
+        const db = this.getConnection();
+
+        try {
+            await db.runAsync(
+                `INSERT INTO loyalty_ledger (id, customer_id, type, points, balance, transaction_id, reason, user_id, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    entry.id,
+                    entry.customerId,
+                    entry.type,
+                    entry.points,
+                    entry.balance,
+                    entry.transactionId || null,
+                    entry.reason || null,
+                    entry.userId || null,
+                    entry.createdAt.toISOString()
+                ]
+            );
+            return entry;
+        } catch (error) {
+            console.error('Failed to save loyalty entry:', error);
+            throw new DatabaseError({
+                code: 'SAVE_LOYALTY_ENTRY_ERROR',
+                message: 'Failed to save loyalty points',
+                table: 'loyalty_ledger'
+            });
+        }
+    }
+
+    public async getLoyaltyEntries(customerId: string): Promise<LoyaltyLedgerEntry[]> {
+        const db = this.getConnection();
+
+        try {
+            const rows = (await db.getAllAsync(
+                'SELECT * FROM loyalty_ledger WHERE customer_id = ? ORDER BY datetime(created_at) DESC, rowid DESC',
+                [customerId]
+            )) || [];
+            return rows.map((row: any) => ({
+                id: row.id,
+                customerId: row.customer_id,
+                type: row.type,
+                points: row.points,
+                balance: row.balance,
+                transactionId: row.transaction_id || undefined,
+                reason: row.reason || undefined,
+                userId: row.user_id || undefined,
+                createdAt: new Date(row.created_at)
+            }));
+        } catch (error) {
+            console.error('Failed to get loyalty entries:', error);
+            throw new DatabaseError({
+                code: 'GET_LOYALTY_ENTRIES_ERROR',
+                message: 'Failed to retrieve loyalty points',
+                table: 'loyalty_ledger'
+            });
+        }
+    }
+
+    public async saveGiftCard(card: GiftCard): Promise<GiftCard> {
+        const db = this.getConnection();
+
+        try {
+            await db.runAsync(
+                'INSERT OR REPLACE INTO gift_cards (code, kind, customer_id, created_at) VALUES (?, ?, ?, ?)',
+                [card.code, card.kind, card.customerId || null, card.createdAt.toISOString()]
+            );
+            return card;
+        } catch (error) {
+            console.error('Failed to save gift card:', error);
+            throw new DatabaseError({
+                code: 'SAVE_GIFT_CARD_ERROR',
+                message: 'Failed to save gift card',
+                table: 'gift_cards'
+            });
+        }
+    }
+
+    public async getGiftCard(code: string): Promise<GiftCard | null> {
+        const db = this.getConnection();
+
+        try {
+            const row = await db.getFirstAsync('SELECT * FROM gift_cards WHERE code = ?', [code]);
+            return row ? this.mapGiftCard(row) : null;
+        } catch (error) {
+            console.error('Failed to get gift card:', error);
+            throw new DatabaseError({
+                code: 'GET_GIFT_CARD_ERROR',
+                message: 'Failed to retrieve gift card',
+                table: 'gift_cards'
+            });
+        }
+    }
+
+    public async getGiftCards(): Promise<GiftCard[]> {
+        const db = this.getConnection();
+
+        try {
+            const rows = (await db.getAllAsync('SELECT * FROM gift_cards ORDER BY datetime(created_at)')) || [];
+            return rows.map(row => this.mapGiftCard(row));
+        } catch (error) {
+            console.error('Failed to get gift cards:', error);
+            throw new DatabaseError({
+                code: 'GET_GIFT_CARDS_ERROR',
+                message: 'Failed to retrieve gift cards',
+                table: 'gift_cards'
+            });
+        }
+    }
+
+    public async saveGiftCardEntry(entry: GiftCardEntry): Promise<GiftCardEntry> {
+        const db = this.getConnection();
+
+        try {
+            await db.runAsync(
+                `INSERT INTO gift_card_ledger (id, code, type, amount, balance, transaction_id, user_id, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    entry.id,
+                    entry.code,
+                    entry.type,
+                    entry.amount,
+                    entry.balance,
+                    entry.transactionId || null,
+                    entry.userId || null,
+                    entry.createdAt.toISOString()
+                ]
+            );
+            return entry;
+        } catch (error) {
+            console.error('Failed to save gift card entry:', error);
+            throw new DatabaseError({
+                code: 'SAVE_GIFT_CARD_ENTRY_ERROR',
+                message: 'Failed to update gift card balance',
+                table: 'gift_card_ledger'
+            });
+        }
+    }
+
+    public async getGiftCardEntries(code?: string): Promise<GiftCardEntry[]> {
+        const db = this.getConnection();
+
+        try {
+            const rows = (await db.getAllAsync(
+                `SELECT * FROM gift_card_ledger ${code ? 'WHERE code = ?' : ''}
+                 ORDER BY datetime(created_at) DESC, rowid DESC`,
+                code ? [code] : []
+            )) || [];
+            return rows.map((row: any) => ({
+                id: row.id,
+                code: row.code,
+                type: row.type,
+                amount: row.amount,
+                balance: row.balance,
+                transactionId: row.transaction_id || undefined,
+                userId: row.user_id || undefined,
+                createdAt: new Date(row.created_at)
+            }));
+        } catch (error) {
+            console.error('Failed to get gift card entries:', error);
+            throw new DatabaseError({
+                code: 'GET_GIFT_CARD_ENTRIES_ERROR',
+                message: 'Failed to retrieve gift card history',
+                table: 'gift_card_ledger'
+            });
+        }
+    }
+
+    private mapGiftCard(row: any): GiftCard {
+        return {
+            code: row.code,
+            kind: row.kind,
+            customerId: row.customer_id || undefined,
+            createdAt: new Date(row.created_at)
+        };
+    }
+
+    private async writeCustomer(customer: Customer): Promise<void> {
+        const db = this.getConnection();
+        await db.runAsync(
+            `INSERT OR REPLACE INTO customers
+             (id, name, email, phone, street, city, state, zip_code, country, tax_exempt, tax_exemption_id, notes, credit_limit, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                customer.id,
+                customer.name,
+                customer.email || null,
+                customer.phone || null,
+                customer.address?.street || null,
+                customer.address?.city || null,
+                customer.address?.state || null,
+                customer.address?.zipCode || null,
+                customer.address?.country || null,
+                customer.taxExempt ? 1 : 0,
+                customer.taxExemptionId || null,
+                customer.notes || null,
+                customer.creditLimit ?? null,
+                customer.createdAt.toISOString(),
+                customer.updatedAt.toISOString()
+            ]
+        );
+    }
+
+    private mapCustomer(row: any): Customer {
+        const hasAddress = row.street || row.city || row.state || row.zip_code || row.country;
+        return {
+            id: row.id,
+            name: row.name,
+            email: row.email || undefined,
+            phone: row.phone || undefined,
+            address: hasAddress ? {
+                street: row.street || undefined,
+                city: row.city || undefined,
+                state: row.state || undefined,
+                zipCode: row.zip_code || undefined,
+                country: row.country || undefined
+            } : undefined,
+            taxExempt: row.tax_exempt === 1,
+            taxExemptionId: row.tax_exemption_id || undefined,
+            notes: row.notes || undefined,
+            creditLimit: row.credit_limit ?? undefined,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        };
+    }
+
+    private mapDrawerShift(row: any): DrawerShift {
+        return {
+            id: row.id,
+            status: row.status,
+            userId: row.user_id,
+            workstationId: row.workstation_id || undefined,
+            openedAt: row.opened_at,
+            openingFloat: row.opening_float,
+            openingCount: row.opening_count ? JSON.parse(row.opening_count) : undefined,
+            closedAt: row.closed_at || undefined,
+            closedBy: row.closed_by || undefined,
+            closingCount: row.closing_count ? JSON.parse(row.closing_count) : undefined,
+            countedCash: row.counted_cash ?? undefined,
+            expectedCash: row.expected_cash ?? undefined,
+            overShort: row.over_short ?? undefined,
+            notes: row.notes || undefined
+        };
+    }
+
+    /**
+     * Close database connection
+     */
+    public async close(): Promise<void> {
+        if (this.db) {
+            await this.db.closeAsync();
+            this.db = null;
+            console.log('Database connection closed');
+        }
+    }
+
+    /**
+     * Execute a transaction with rollback support
+     */
+    public async executeTransaction<T>(
+        operations: (db: SQLite.SQLiteDatabase) => Promise<T>
+    ): Promise<T> {
+        const db = this.getConnection();
+
+        try {
+            await db.execAsync('BEGIN TRANSACTION');
+            const result = await operations(db);
+            await db.execAsync('COMMIT');
+            return result;
+        } catch (error) {
+            await db.execAsync('ROLLBACK');
+            console.error('Transaction rolled back:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get database statistics
+     */
+    public async getStats(): Promise<{
+        totalProducts: number;
+        totalSales: number;
+        totalRevenue: number;
+    }> {
+        const db = this.getConnection();
+
+        try {
+            const productCount = await db.getFirstAsync<{ count: number }>(
+                'SELECT COUNT(*) as count FROM products'
+            );
+
+            const salesCount = await db.getFirstAsync<{ count: number }>(
+                'SELECT COUNT(*) as count FROM sales'
+            );
+
+            const revenue = await db.getFirstAsync<{ total: number }>(
+                'SELECT SUM(total) as total FROM sales WHERE status = "completed"'
+            );
+
+            return {
+                totalProducts: productCount?.count || 0,
+                totalSales: salesCount?.count || 0,
+                totalRevenue: revenue?.total || 0
+            };
+        } catch (error) {
+            console.error('Failed to get database stats:', error);
+            throw new DatabaseError({
+                code: 'GET_STATS_ERROR',
+                message: 'Failed to retrieve database statistics'
+            });
+        }
+    }
+
+    /**
+     * Get sales summary for a specific date
+     */
+    public async getSalesSummaryByDate(date: string): Promise<{
+        totalSales: number;
+        totalRevenue: number;
+        averageTransaction: number;
+        transactionCount: number;
+    }> {
+        const db = this.getConnection();
+
+        try {
+            const summary = await db.getFirstAsync<{
+                total_sales: number;
+                completed_sales: number;
+                total_revenue: number;
+                average_transaction: number;
+            }>(
+                `SELECT 
+                    COUNT(*) as total_sales,
+                    COUNT(CASE WHEN status = 'completed' THEN 1 END) as completed_sales,
+                    COALESCE(SUM(CASE WHEN status = 'completed' THEN total ELSE 0 END), 0) as total_revenue,
+                    COALESCE(AVG(CASE WHEN status = 'completed' THEN total END), 0) as average_transaction
+                 FROM sales 
+                 WHERE DATE(timestamp) = DATE(?)`,
+                [date]
+            );
+
+            return {
+                totalSales: summary?.total_sales || 0,
+                totalRevenue: summary?.total_revenue || 0,
+                averageTransaction: summary?.average_transaction || 0,
+                transactionCount: summary?.completed_sales || 0,
+            };
+        } catch (error) {
+            console.error('Failed to get sales summary by date:', error);
+            throw new DatabaseError({
+                code: 'GET_SALES_SUMMARY_ERROR',
+                message: 'Failed to retrieve sales summary',
+                table: 'sales'
+            });
+        }
+    }
+
+    // ==================== USER MANAGEMENT METHODS ====================
+
+    /**
+     * Get all users
+     */
+    public async getAllUsers(): Promise<User[]> {
+        const db = this.getConnection();
+
+        try {
+            const users = await db.getAllAsync<{
+                id: string;
+                username: string;
+                email: string;
                 first_name: string;
                 last_name: string;
                 role: string;
+                permission_overrides: string | null;
+                is_active: number;
+                last_login: string | null;
+                created_at: string;
+                updated_at: string;
+            }>('SELECT * FROM users ORDER BY created_at DESC');
+
+            return users.map(user => ({
+                id: user.id,
+                username: user.username,
+                email: user.email,
+                firstName: user.first_name,
+                lastName: user.last_name,
+                role: user.role as UserRole,
+                permissionOverrides: user.permission_overrides ? JSON.parse(user.permission_overrides) : undefined,
+                isActive: Boolean(user.is_active),
+                lastLogin: user.last_login ? new Date(user.last_login) : undefined,
+                createdAt: new Date(user.created_at),
+                updatedAt: new Date(user.updated_at)
+            }));
+        } catch (error) {
+            console.error('Failed to get all users:', error);
+            throw new DatabaseError({
+                code: 'GET_USERS_ERROR',
+                message: 'Failed to retrieve users',
+                table: 'users'
+            });
+        }
+    }
+
+    /**
+     * Get user by ID
+     */
+    public async getUser(id: string): Promise<User | null> {
+        const db = this.getConnection();
+
+        try {
+            const user = await db.getFirstAsync<{
+                id: string;
+                username: string;
+                email: string;
+                first_name: string;
+                last_name: string;
+                role: string;
+                permission_overrides: string | null;
+                is_active: number;
+                last_login: string | null;
+                created_at: string;
+                updated_at: string;
+            }>('SELECT * FROM users WHERE id = ?', [id]);
+
+            if (!user) {return null;}
+
+            return {
+                id: user.id,
+                username: user.username,
+                email: user.email,
+                firstName: user.first_name,
+                lastName: user.last_name,
+                role: user.role as UserRole,
+                permissionOverrides: user.permission_overrides ? JSON.parse(user.permission_overrides) : undefined,
+                isActive: Boolean(user.is_active),
+                lastLogin: user.last_login ? new Date(user.last_login) : undefined,
+                createdAt: new Date(user.created_at),
+                updatedAt: new Date(user.updated_at)
+            };
+        } catch (error) {
+            console.error('Failed to get user:', error);
+            throw new DatabaseError({
+                code: 'GET_USER_ERROR',
+                message: 'Failed to retrieve user',
+                table: 'users'
+            });
+        }
+    }
+
+    /**
+     * Get user by username
+     */
+    public async getUserByUsername(username: string): Promise<User | null> {
+        const db = this.getConnection();
+
+        try {
+            const user = await db.getFirstAsync<{
+                id: string;
+                username: string;
+                email: string;
+                first_name: string;
+                last_name: string;
+                role: string;
+                permission_overrides: string | null;
                 is_active: number;
                 last_login: string | null;
                 created_at: string;
                 updated_at: string;
             }>('SELECT * FROM users WHERE username = ?', [username]);
 
-            if (!user) {return null;}
+            if (!user) {return null;}
+
+            return {
+                id: user.id,
+                username: user.username,
+                email: user.email,
+                firstName: user.first_name,
+                lastName: user.last_name,
+                role: user.role as UserRole,
+                permissionOverrides: user.permission_overrides ? JSON.parse(user.permission_overrides) : undefined,
+                isActive: Boolean(user.is_active),
+                lastLogin: user.last_login ? new Date(user.last_login) : undefined,
+                createdAt: new Date(user.created_at),
+                updatedAt: new Date(user.updated_at)
+            };
+        } catch (error) {
+            console.error('Failed to get user by username:', error);
+            throw new DatabaseError({
+                code: 'GET_USER_BY_USERNAME_ERROR',
+                message: 'Failed to retrieve user by username',
+                table: 'users'
+            });
+        }
+    }
+
+    /**
+     * Create new user
+     */
+    public async createUser(input: CreateUserInput): Promise<User> {
+        const db = this.getConnection();
+
+        try {
+            const userId = `user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+            const now = new Date().toISOString();
+
+            await db.runAsync(
+                `INSERT INTO users (id, username, email, first_name, last_name, role, permission_overrides, is_active, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    userId,
+                    input.username,
+                    input.email,
+                    input.firstName,
+                    input.lastName,
+                    input.role,
+                    input.permissionOverrides ? JSON.stringify(input.permissionOverrides) : null,
+                    1, // is_active
+                    now,
+                    now
+                ]
+            );
+
+            return {
+                id: userId,
+                username: input.username,
+                email: input.email,
+                firstName: input.firstName,
+                lastName: input.lastName,
+                role: input.role,
+                permissionOverrides: input.permissionOverrides,
+                isActive: true,
+                createdAt: new Date(now),
+                updatedAt: new Date(now)
+            };
+        } catch (error) {
+            console.error('Failed to create user:', error);
+            throw new DatabaseError({
+                code: 'CREATE_USER_ERROR',
+                message: 'Failed to create user',
+                table: 'users'
+            });
+        }
+    }
+
+    /**
+     * Update user
+     */
+    public async updateUser(input: UpdateUserInput): Promise<User> {
+        const db = this.getConnection();
+
+        try {
+            const existingUser = await this.getUser(input.id);
+            if (!existingUser) {
+                throw new DatabaseError({
+                    code: 'USER_NOT_FOUND',
+                    message: 'User not found',
+                    table: 'users'
+                });
+            }
+
+            const updates: string[] = [];
+            const values: any[] = [];
+
+            if (input.username !== undefined) {
+                updates.push('username = ?');
+                values.push(input.username);
+            }
+            if (input.email !== undefined) {
+                updates.push('email = ?');
+                values.push(input.email);
+            }
+            if (input.firstName !== undefined) {
+                updates.push('first_name = ?');
+                values.push(input.firstName);
+            }
+            if (input.lastName !== undefined) {
+                updates.push('last_name = ?');
+                values.push(input.lastName);
+            }
+            if (input.role !== undefined) {
+                updates.push('role = ?');
+                values.push(input.role);
+            }
+            if (input.permissionOverrides !== undefined) {
+                updates.push('permission_overrides = ?');
+                values.push(JSON.stringify(input.permissionOverrides));
+            }
+            if (input.isActive !== undefined) {
+                updates.push('is_active = ?');
+                values.push(input.isActive ? 1 : 0);
+            }
+            if (input.lastLogin !== undefined) {
+                updates.push('last_login = ?');
+                values.push(input.lastLogin.toISOString());
+            }
+
+            updates.push('updated_at = ?');
+            values.push(new Date().toISOString());
+            values.push(input.id);
+
+            if (updates.length > 1) { // Only update if there are actual changes
+                // Filter out undefined values and their corresponding updates
+                const filteredUpdates: string[] = [];
+                const filteredValues: any[] = [];
+                
+                for (let i = 0; i < updates.length; i++) {
+                    if (values[i] !== undefined) {
+                        filteredUpdates.push(updates[i]);
+                        filteredValues.push(values[i]);
+                    }
+                }
+                
+                if (filteredUpdates.length > 0) {
+                    await db.runAsync(
+                        `UPDATE users SET ${filteredUpdates.join(', ')} WHERE id = ?`,
+                        filteredValues
+                    );
+                }
+            }
+
+            return await this.getUser(input.id) as User;
+        } catch (error) {
+            console.error('Failed to update user:', error);
+            throw new DatabaseError({
+                code: 'UPDATE_USER_ERROR',
+                message: 'Failed to update user',
+                table: 'users'
+            });
+        }
+    }
 
-            return {
-                id: user.id,
-                username: user.username,
-                email: user.email,
-                firstName: user.first_name,
-                lastName: user.last_name,
-                role: user.role as UserRole,
-                isActive: Boolean(user.is_active),
-                lastLogin: user.last_login ? new Date(user.last_login) : undefined,
-                createdAt: new Date(user.created_at),
-                updatedAt: new Date(user.updated_at)
-            };
+    /**
+     * Delete user
+     */
+    public async deleteUser(id: string): Promise<boolean> {
+        const db = this.getConnection();
+
+        try {
+            const result = await db.runAsync('DELETE FROM users WHERE id = ?', [id]);
+            return result.changes > 0;
         } catch (error) {
-            console.error('Failed to get user by username:', error);
+            console.error('Failed to delete user:', error);
             throw new DatabaseError({
-                code: 'GET_USER_BY_USERNAME_ERROR',
-                message: 'Failed to retrieve user by username',
+                code: 'DELETE_USER_ERROR',
+                message: 'Failed to delete user',
                 table: 'users'
             });
         }
     }
 
     /**
-     * Create new user
+     * Save user password
      */
-    public async createUser(input: CreateUserInput): Promise<User> {
+    public async saveUserPassword(
+        userId: string,
+        passwordHash: string,
+        salt: string,
+        mustChange: boolean = false
+    ): Promise<void> {
         const db = this.getConnection();
 
         try {
-            const userId = `user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
             const now = new Date().toISOString();
+            
+            await db.runAsync(
+                `INSERT OR REPLACE INTO user_passwords (user_id, password_hash, salt, must_change, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?)`,
+                [userId, passwordHash, salt, mustChange ? 1 : 0, now, now]
+            );
+        } catch (error) {
+            console.error('Failed to save user password:', error);
+            throw new DatabaseError({
+                code: 'SAVE_PASSWORD_ERROR',
+                message: 'Failed to save user password',
+                table: 'user_passwords'
+            });
+        }
+    }
+
+    /**
+     * Get user password hash
+     */
+    public async getUserPassword(userId: string): Promise<UserPasswordRecord | null> {
+        const db = this.getConnection();
+
+        try {
+            const password = await db.getFirstAsync<{
+                password_hash: string;
+                salt: string;
+                must_change: number | null;
+            }>('SELECT password_hash, salt, must_change FROM user_passwords WHERE user_id = ?', [userId]);
+
+            return password ? {
+                passwordHash: password.password_hash,
+                salt: password.salt,
+                mustChange: password.must_change === 1
+            } : null;
+        } catch (error) {
+            console.error('Failed to get user password:', error);
+            throw new DatabaseError({
+                code: 'GET_PASSWORD_ERROR',
+                message: 'Failed to retrieve user password',
+                table: 'user_passwords'
+            });
+        }
+    }
 
+    /**
+     * Save a user's hashed register PIN
+     */
+    public async saveUserPin(userId: string, pinHash: string, salt: string): Promise<void> {
+        const db = this.getConnection();
+
+        try {
             await db.runAsync(
-                `INSERT INTO users (id, username, email, first_name, last_name, role, is_active, created_at, updated_at)
-                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                `INSERT OR REPLACE INTO user_pins (user_id, pin_hash, salt, updated_at)
+                 VALUES (?, ?, ?, ?)`,
+                [userId, pinHash, salt, new Date().toISOString()]
+            );
+        } catch (error) {
+            console.error('Failed to save user PIN:', error);
+            throw new DatabaseError({
+                code: 'SAVE_PIN_ERROR',
+                message: 'Failed to save user PIN',
+                table: 'user_pins'
+            });
+        }
+    }
+
+    public async getUserPin(userId: string): Promise<UserPinRecord | null> {
+        const db = this.getConnection();
+
+        try {
+            const row = await db.getFirstAsync<any>('SELECT * FROM user_pins WHERE user_id = ?', [userId]);
+            return row ? this.mapUserPin(row) : null;
+        } catch (error) {
+            console.error('Failed to get user PIN:', error);
+            throw new DatabaseError({
+                code: 'GET_PIN_ERROR',
+                message: 'Failed to retrieve user PIN',
+                table: 'user_pins'
+            });
+        }
+    }
+
+    public async getUserPins(): Promise<UserPinRecord[]> {
+        const db = this.getConnection();
+
+        try {
+            const rows = await db.getAllAsync<any>('SELECT * FROM user_pins');
+            return rows.map(row => this.mapUserPin(row));
+        } catch (error) {
+            console.error('Failed to get user PINs:', error);
+            throw new DatabaseError({
+                code: 'GET_PIN_ERROR',
+                message: 'Failed to retrieve user PINs',
+                table: 'user_pins'
+            });
+        }
+    }
+
+    public async deleteUserPin(userId: string): Promise<void> {
+        const db = this.getConnection();
+
+        try {
+            await db.runAsync('DELETE FROM user_pins WHERE user_id = ?', [userId]);
+        } catch (error) {
+            console.error('Failed to delete user PIN:', error);
+            throw new DatabaseError({
+                code: 'DELETE_PIN_ERROR',
+                message: 'Failed to delete user PIN',
+                table: 'user_pins'
+            });
+        }
+    }
+
+    private mapUserPin(row: any): UserPinRecord {
+        return {
+            userId: row.user_id,
+            pinHash: row.pin_hash,
+            salt: row.salt
+        };
+    }
+
+    /**
+     * Save a user's reset code, replacing any earlier one
+     */
+    public async savePasswordResetCode(code: PasswordResetCode): Promise<void> {
+        const db = this.getConnection();
+
+        try {
+            await db.runAsync(
+                `INSERT OR REPLACE INTO password_resets (user_id, code_hash, salt, expires_at, created_by, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?)`,
                 [
-                    userId,
-                    input.username,
-                    input.email,
-                    input.firstName,
-                    input.lastName,
-                    input.role,
-                    1, // is_active
-                    now,
-                    now
+                    code.userId,
+                    code.codeHash,
+                    code.salt,
+                    code.expiresAt.toISOString(),
+                    code.createdBy ?? null,
+                    code.createdAt.toISOString()
                 ]
             );
+        } catch (error) {
+            console.error('Failed to save password reset code:', error);
+            throw new DatabaseError({
+                code: 'SAVE_RESET_CODE_ERROR',
+                message: 'Failed to save password reset code',
+                table: 'password_resets'
+            });
+        }
+    }
 
-            return {
-                id: userId,
-                username: input.username,
-                email: input.email,
-                firstName: input.firstName,
-                lastName: input.lastName,
-                role: input.role,
-                isActive: true,
-                createdAt: new Date(now),
-                updatedAt: new Date(now)
-            };
+    public async getPasswordResetCode(userId: string): Promise<PasswordResetCode | null> {
+        const db = this.getConnection();
+
+        try {
+            const row = await db.getFirstAsync<any>('SELECT * FROM password_resets WHERE user_id = ?', [userId]);
+            return row ? {
+                userId: row.user_id,
+                codeHash: row.code_hash,
+                salt: row.salt,
+                expiresAt: new Date(row.expires_at),
+                createdBy: row.created_by ?? undefined,
+                createdAt: new Date(row.created_at)
+            } : null;
         } catch (error) {
-            console.error('Failed to create user:', error);
+            console.error('Failed to get password reset code:', error);
             throw new DatabaseError({
-                code: 'CREATE_USER_ERROR',
-                message: 'Failed to create user',
-                table: 'users'
+                code: 'GET_RESET_CODE_ERROR',
+                message: 'Failed to retrieve password reset code',
+                table: 'password_resets'
+            });
+        }
+    }
+
+    public async deletePasswordResetCode(userId: string): Promise<void> {
+        const db = this.getConnection();
+
+        try {
+            await db.runAsync('DELETE FROM password_resets WHERE user_id = ?', [userId]);
+        } catch (error) {
+            console.error('Failed to delete password reset code:', error);
+            throw new DatabaseError({
+                code: 'DELETE_RESET_CODE_ERROR',
+                message: 'Failed to delete password reset code',
+                table: 'password_resets'
+            });
+        }
+    }
+
+    public async getUserTotp(userId: string): Promise<UserTotpRecord | null> {
+        const db = this.getConnection();
+
+        try {
+            const row = await db.getFirstAsync<any>('SELECT * FROM user_totp WHERE user_id = ?', [userId]);
+            return row ? {
+                userId: row.user_id,
+                secret: row.secret,
+                confirmed: Boolean(row.confirmed),
+                recoveryCodeHashes: row.recovery_codes ? JSON.parse(row.recovery_codes) : [],
+                lastUsedStep: row.last_used_step ?? undefined,
+                createdAt: new Date(row.created_at),
+                confirmedAt: row.confirmed_at ? new Date(row.confirmed_at) : undefined
+            } : null;
+        } catch (error) {
+            console.error('Failed to get two-factor settings:', error);
+            throw new DatabaseError({
+                code: 'GET_TOTP_ERROR',
+                message: 'Failed to retrieve two-factor settings',
+                table: 'user_totp'
+            });
+        }
+    }
+
+    public async saveUserTotp(record: UserTotpRecord): Promise<void> {
+        const db = this.getConnection();
+
+        try {
+            await db.runAsync(
+                `INSERT OR REPLACE INTO user_totp
+                    (user_id, secret, confirmed, recovery_codes, last_used_step, created_at, confirmed_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    record.userId,
+                    record.secret,
+                    record.confirmed ? 1 : 0,
+                    JSON.stringify(record.recoveryCodeHashes),
+                    record.lastUsedStep ?? null,
+                    record.createdAt.toISOString(),
+                    record.confirmedAt ? record.confirmedAt.toISOString() : null
+                ]
+            );
+        } catch (error) {
+            console.error('Failed to save two-factor settings:', error);
+            throw new DatabaseError({
+                code: 'SAVE_TOTP_ERROR',
+                message: 'Failed to save two-factor settings',
+                table: 'user_totp'
+            });
+        }
+    }
+
+    public async deleteUserTotp(userId: string): Promise<void> {
+        const db = this.getConnection();
+
+        try {
+            await db.runAsync('DELETE FROM user_totp WHERE user_id = ?', [userId]);
+        } catch (error) {
+            console.error('Failed to delete two-factor settings:', error);
+            throw new DatabaseError({
+                code: 'DELETE_TOTP_ERROR',
+                message: 'Failed to delete two-factor settings',
+                table: 'user_totp'
+            });
+        }
+    }
+
+    public async getLoginAttempt(key: string): Promise<LoginAttemptRecord | null> {
+        const db = this.getConnection();
+
+        try {
+            const row = await db.getFirstAsync<any>('SELECT * FROM login_attempts WHERE key = ?', [key]);
+            return row ? this.mapLoginAttempt(row) : null;
+        } catch (error) {
+            console.error('Failed to get login attempts:', error);
+            throw new DatabaseError({
+                code: 'GET_LOGIN_ATTEMPT_ERROR',
+                message: 'Failed to retrieve login attempts',
+                table: 'login_attempts'
+            });
+        }
+    }
+
+    public async getLoginAttempts(): Promise<LoginAttemptRecord[]> {
+        const db = this.getConnection();
+
+        try {
+            const rows = await db.getAllAsync<any>('SELECT * FROM login_attempts ORDER BY last_failure_at DESC');
+            return rows.map(row => this.mapLoginAttempt(row));
+        } catch (error) {
+            console.error('Failed to get login attempts:', error);
+            throw new DatabaseError({
+                code: 'GET_LOGIN_ATTEMPT_ERROR',
+                message: 'Failed to retrieve login attempts',
+                table: 'login_attempts'
+            });
+        }
+    }
+
+    public async saveLoginAttempt(record: LoginAttemptRecord): Promise<void> {
+        const db = this.getConnection();
+
+        try {
+            await db.runAsync(
+                `INSERT OR REPLACE INTO login_attempts (key, failures, last_failure_at, locked_until, locked_out)
+                 VALUES (?, ?, ?, ?, ?)`,
+                [
+                    record.key,
+                    record.failures,
+                    record.lastFailureAt.toISOString(),
+                    record.lockedUntil ? record.lockedUntil.toISOString() : null,
+                    record.lockedOut ? 1 : 0
+                ]
+            );
+        } catch (error) {
+            console.error('Failed to save login attempts:', error);
+            throw new DatabaseError({
+                code: 'SAVE_LOGIN_ATTEMPT_ERROR',
+                message: 'Failed to save login attempts',
+                table: 'login_attempts'
+            });
+        }
+    }
+
+    public async deleteLoginAttempt(key: string): Promise<void> {
+        const db = this.getConnection();
+
+        try {
+            await db.runAsync('DELETE FROM login_attempts WHERE key = ?', [key]);
+        } catch (error) {
+            console.error('Failed to delete login attempts:', error);
+            throw new DatabaseError({
+                code: 'DELETE_LOGIN_ATTEMPT_ERROR',
+                message: 'Failed to delete login attempts',
+                table: 'login_attempts'
             });
         }
     }
 
+    private mapLoginAttempt(row: any): LoginAttemptRecord {
+        return {
+            key: row.key,
+            failures: row.failures,
+            lastFailureAt: new Date(row.last_failure_at),
+            lockedUntil: row.locked_until ? new Date(row.locked_until) : undefined,
+            lockedOut: Boolean(row.locked_out)
+        };
+    }
+
     /**
-     * Update user
+     * Get all roles, built-in ones first
      */
-    public async updateUser(input: UpdateUserInput): Promise<User> {
+    public async getRoles(): Promise<Role[]> {
         const db = this.getConnection();
 
         try {
-            const existingUser = await this.getUser(input.id);
-            if (!existingUser) {
-                throw new DatabaseError({
-                    code: 'USER_NOT_FOUND',
-                    message: 'User not found',
-                    table: 'users'
-                });
-            }
-
-            const updates: string[] = [];
-            const values: any[] = [];
-
-            if (input.username !== undefined) {
-                updates.push('username = ?');
-                values.push(input.username);
-            }
-            if (input.email !== undefined) {
-                updates.push('email = ?');
-                values.push(input.email);
-            }
-            if (input.firstName !== undefined) {
-                updates.push('first_name = ?');
-                values.push(input.firstName);
-            }
-            if (input.lastName !== undefined) {
-                updates.push('last_name = ?');
-                values.push(input.lastName);
-            }
-            if (input.role !== undefined) {
-                updates.push('role = ?');
-                values.push(input.role);
-            }
-            if (input.isActive !== undefined) {
-                updates.push('is_active = ?');
-                values.push(input.isActive ? 1 : 0);
-            }
-            if (input.lastLogin !== undefined) {
-                updates.push('last_login = ?');
-                values.push(input.lastLogin.toISOString());
-            }
-
-            updates.push('updated_at = ?');
-            values.push(new Date().toISOString());
-            values.push(input.id);
-
-            if (updates.length > 1) { // Only update if there are actual changes
-                // Filter out undefined values and their corresponding updates
-                const filteredUpdates: string[] = [];
-                const filteredValues: any[] = [];
-                
-                for (let i = 0; i < updates.length; i++) {
-                    if (values[i] !== undefined) {
-                        filteredUpdates.push(updates[i]);
-                        filteredValues.push(values[i]);
-                    }
-                }
-                
-                if (filteredUpdates.length > 0) {
-                    await db.runAsync(
-                        `UPDATE users SET ${filteredUpdates.join(', ')} WHERE id = ?`,
-                        filteredValues
-                    );
-                }
-            }
-
-            return await this.getUser(input.id) as User;
+            const rows = await db.getAllAsync<any>('SELECT * FROM roles ORDER BY is_system DESC, name');
+            return rows.map(row => this.mapRole(row));
         } catch (error) {
-            console.error('Failed to update user:', error);
+            console.error('Failed to get roles:', error);
             throw new DatabaseError({
-                code: 'UPDATE_USER_ERROR',
-                message: 'Failed to update user',
-                table: 'users'
+                code: 'GET_ROLES_ERROR',
+                message: 'Failed to retrieve roles',
+                table: 'roles'
             });
         }
     }
 
-    /**
-     * Delete user
-     */
-    public async deleteUser(id: string): Promise<boolean> {
+    public async getRole(id: string): Promise<Role | null> {
         const db = this.getConnection();
 
         try {
-            const result = await db.runAsync('DELETE FROM users WHERE id = ?', [id]);
-            return result.changes > 0;
+            const row = await db.getFirstAsync<any>('SELECT * FROM roles WHERE id = ?', [id]);
+            return row ? this.mapRole(row) : null;
         } catch (error) {
-            console.error('Failed to delete user:', error);
+            console.error('Failed to get role:', error);
             throw new DatabaseError({
-                code: 'DELETE_USER_ERROR',
-                message: 'Failed to delete user',
-                table: 'users'
+                code: 'GET_ROLE_ERROR',
+                message: 'Failed to retrieve role',
+                table: 'roles'
             });
         }
     }
 
     /**
-     * Save user password
+     * Insert or replace a role
      */
-    public async saveUserPassword(userId: string, passwordHash: string, salt: string): Promise<void> {
+    public async saveRole(role: Role): Promise<Role> {
         const db = this.getConnection();
 
         try {
-            const now = new Date().toISOString();
-            
             await db.runAsync(
-                `INSERT OR REPLACE INTO user_passwords (user_id, password_hash, salt, created_at, updated_at)
-                 VALUES (?, ?, ?, ?, ?)`,
-                [userId, passwordHash, salt, now, now]
+                `INSERT OR REPLACE INTO roles (id, name, description, permissions, is_system, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    role.id,
+                    role.name,
+                    role.description || null,
+                    JSON.stringify(role.permissions),
+                    role.isSystem ? 1 : 0,
+                    role.createdAt.toISOString(),
+                    role.updatedAt.toISOString()
+                ]
             );
+            return role;
         } catch (error) {
-            console.error('Failed to save user password:', error);
+            console.error('Failed to save role:', error);
             throw new DatabaseError({
-                code: 'SAVE_PASSWORD_ERROR',
-                message: 'Failed to save user password',
-                table: 'user_passwords'
+                code: 'SAVE_ROLE_ERROR',
+                message: 'Failed to save role',
+                table: 'roles'
             });
         }
     }
 
-    /**
-     * Get user password hash
-     */
-    public async getUserPassword(userId: string): Promise<{ passwordHash: string; salt: string } | null> {
+    public async deleteRole(id: string): Promise<boolean> {
         const db = this.getConnection();
 
         try {
-            const password = await db.getFirstAsync<{
-                password_hash: string;
-                salt: string;
-            }>('SELECT password_hash, salt FROM user_passwords WHERE user_id = ?', [userId]);
-
-            return password ? {
-                passwordHash: password.password_hash,
-                salt: password.salt
-            } : null;
+            const result = await db.runAsync('DELETE FROM roles WHERE id = ? AND is_system = 0', [id]);
+            return result.changes > 0;
         } catch (error) {
-            console.error('Failed to get user password:', error);
+            console.error('Failed to delete role:', error);
             throw new DatabaseError({
-                code: 'GET_PASSWORD_ERROR',
-                message: 'Failed to retrieve user password',
-                table: 'user_passwords'
+                code: 'DELETE_ROLE_ERROR',
+                message: 'Failed to delete role',
+                table: 'roles'
             });
         }
     }
 
+    private mapRole(row: any): Role {
+        return {
+            id: row.id,
+            name: row.name,
+            description: row.description || undefined,
+            permissions: JSON.parse(row.permissions),
+            isSystem: Boolean(row.is_system),
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        };
+    }
+
     /**
      * Save auth session
      */
-    public async saveAuthSession(sessionId: string, userId: string, token: string, expiresAt: Date): Promise<void> {
+    public async saveAuthSession(
+        sessionId: string,
+        userId: string,
+        token: string,
+        expiresAt: Date,
+        device?: { deviceId: string; deviceName: string }
+    ): Promise<void> {
         const db = this.getConnection();
 
         try {
+            const now = new Date().toISOString();
             await db.runAsync(
-                `INSERT INTO auth_sessions (id, user_id, token, expires_at, created_at)
-                 VALUES (?, ?, ?, ?, ?)`,
-                [sessionId, userId, token, expiresAt.toISOString(), new Date().toISOString()]
+                `INSERT INTO auth_sessions (id, user_id, token, expires_at, created_at, device_id, device_name, last_seen_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+                [sessionId, userId, token, expiresAt.toISOString(), now, device?.deviceId ?? null, device?.deviceName ?? null, now]
             );
         } catch (error) {
             console.error('Failed to save auth session:', error);
@@ -1341,6 +2569,133 @@ class Database implements DatabaseService {
         }
     }
 
+    /**
+     * Delete one session by id, e.g. when it is revoked from another device
+     */
+    public async deleteAuthSessionById(sessionId: string): Promise<boolean> {
+        const db = this.getConnection();
+
+        try {
+            const result = await db.runAsync('DELETE FROM auth_sessions WHERE id = ?', [sessionId]);
+            return result.changes > 0;
+        } catch (error) {
+            console.error('Failed to delete auth session:', error);
+            throw new DatabaseError({
+                code: 'DELETE_SESSION_ERROR',
+                message: 'Failed to delete authentication session',
+                table: 'auth_sessions'
+            });
+        }
+    }
+
+    /**
+     * Delete every session of a user, signing them out on all devices, except
+     * the session with `exceptToken`
+     */
+    public async deleteUserAuthSessions(userId: string, exceptToken?: string): Promise<number> {
+        const db = this.getConnection();
+
+        try {
+            const result = await db.runAsync(
+                'DELETE FROM auth_sessions WHERE user_id = ? AND token != ?',
+                [userId, exceptToken ?? '']
+            );
+            return result.changes;
+        } catch (error) {
+            console.error('Failed to delete user sessions:', error);
+            throw new DatabaseError({
+                code: 'DELETE_SESSION_ERROR',
+                message: 'Failed to delete user sessions',
+                table: 'auth_sessions'
+            });
+        }
+    }
+
+    /**
+     * Unexpired sessions of a user, most recently used first
+     */
+    public async getUserAuthSessions(userId: string): Promise<AuthSessionRecord[]> {
+        const db = this.getConnection();
+
+        try {
+            const rows = await db.getAllAsync<{
+                id: string;
+                user_id: string;
+                device_id: string | null;
+                device_name: string | null;
+                expires_at: string;
+                created_at: string;
+                last_seen_at: string | null;
+            }>(
+                `SELECT id, user_id, device_id, device_name, expires_at, created_at, last_seen_at
+                 FROM auth_sessions WHERE user_id = ? AND expires_at > ?
+                 ORDER BY COALESCE(last_seen_at, created_at) DESC`,
+                [userId, new Date().toISOString()]
+            );
+
+            return rows.map(row => ({
+                id: row.id,
+                userId: row.user_id,
+                deviceId: row.device_id ?? undefined,
+                deviceName: row.device_name ?? undefined,
+                expiresAt: new Date(row.expires_at),
+                createdAt: new Date(row.created_at),
+                lastSeenAt: row.last_seen_at ? new Date(row.last_seen_at) : undefined
+            }));
+        } catch (error) {
+            console.error('Failed to get user sessions:', error);
+            throw new DatabaseError({
+                code: 'GET_SESSION_ERROR',
+                message: 'Failed to retrieve user sessions',
+                table: 'auth_sessions'
+            });
+        }
+    }
+
+    /**
+     * Extend a session and record activity on it
+     */
+    public async renewAuthSession(token: string, expiresAt: Date): Promise<boolean> {
+        const db = this.getConnection();
+
+        try {
+            const result = await db.runAsync(
+                'UPDATE auth_sessions SET expires_at = ?, last_seen_at = ? WHERE token = ?',
+                [expiresAt.toISOString(), new Date().toISOString(), token]
+            );
+            return result.changes > 0;
+        } catch (error) {
+            console.error('Failed to renew auth session:', error);
+            throw new DatabaseError({
+                code: 'SAVE_SESSION_ERROR',
+                message: 'Failed to renew authentication session',
+                table: 'auth_sessions'
+            });
+        }
+    }
+
+    /**
+     * Count unexpired sessions per user
+     */
+    public async getActiveSessionCounts(): Promise<Record<string, number>> {
+        const db = this.getConnection();
+
+        try {
+            const rows = await db.getAllAsync<{ user_id: string; count: number }>(
+                'SELECT user_id, COUNT(*) AS count FROM auth_sessions WHERE expires_at > ? GROUP BY user_id',
+                [new Date().toISOString()]
+            );
+            return Object.fromEntries(rows.map(row => [row.user_id, row.count]));
+        } catch (error) {
+            console.error('Failed to count sessions:', error);
+            throw new DatabaseError({
+                code: 'GET_SESSION_ERROR',
+                message: 'Failed to count authentication sessions',
+                table: 'auth_sessions'
+            });
+        }
+    }
+
     /**
      * Clean expired sessions
      */
@@ -1361,7 +2716,7 @@ class Database implements DatabaseService {
     }
 
     /**
-     * Log audit event
+     * Log audit event, chained to the previous entry's hash
      */
     public async logAuditEvent(
         userId: string | null,
@@ -1370,30 +2725,58 @@ class Database implements DatabaseService {
         details?: any,
         ipAddress?: string
     ): Promise<void> {
-        const db = this.getConnection();
+        const write = this.auditQueue.then(() => this.appendAuditEntry(userId, action, resource, details, ipAddress));
+        this.auditQueue = write.catch(() => undefined);
 
         try {
-            const auditId = `audit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-            
-            await db.runAsync(
-                `INSERT INTO audit_logs (id, user_id, action, resource, details, ip_address, timestamp)
-                 VALUES (?, ?, ?, ?, ?, ?, ?)`,
-                [
-                    auditId,
-                    userId,
-                    action,
-                    resource,
-                    details ? JSON.stringify(details) : null,
-                    ipAddress || null,
-                    new Date().toISOString()
-                ]
-            );
+            await write;
         } catch (error) {
             console.error('Failed to log audit event:', error);
             // Don't throw error for audit logging failures
         }
     }
 
+    private async appendAuditEntry(
+        userId: string | null,
+        action: string,
+        resource: string,
+        details?: any,
+        ipAddress?: string
+    ): Promise<void> {
+        const db = this.getConnection();
+        const entry: AuditLog = {
+            id: `audit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            userId: userId || '',
+            action,
+            resource,
+            details: details ? JSON.stringify(details) : null,
+            ipAddress: ipAddress || undefined,
+            timestamp: new Date()
+        };
+
+        const last = await db.getFirstAsync<{ sequence: number; hash: string }>(
+            'SELECT sequence, hash FROM audit_logs WHERE sequence IS NOT NULL ORDER BY sequence DESC LIMIT 1'
+        );
+        const link = linkAuditEntry(entry, last);
+
+        await db.runAsync(
+            `INSERT INTO audit_logs (id, user_id, action, resource, details, ip_address, timestamp, sequence, previous_hash, hash)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                entry.id,
+                userId,
+                action,
+                resource,
+                entry.details,
+                ipAddress || null,
+                entry.timestamp.toISOString(),
+                link.sequence,
+                link.previousHash,
+                link.hash
+            ]
+        );
+    }
+
     // Business Settings Methods
     /**
      * Get business settings
@@ -1420,6 +2803,15 @@ class Database implements DatabaseService {
                 taxRate: row.tax_rate,
                 timezone: row.timezone,
                 language: row.language,
+                heldCartExpiryHours: row.held_cart_expiry_hours ?? undefined,
+                idleLockMinutes: row.idle_lock_minutes ?? undefined,
+                loginMaxAttempts: row.login_max_attempts ?? undefined,
+                loginDeviceMaxAttempts: row.login_device_max_attempts ?? undefined,
+                loginLockoutMinutes: row.login_lockout_minutes ?? undefined,
+                pricesIncludeTax: !!row.prices_include_tax,
+                taxRounding: row.tax_rounding || 'line',
+                taxClasses: row.tax_classes ? JSON.parse(row.tax_classes) : [],
+                loyaltyProgram: row.loyalty_program ? JSON.parse(row.loyalty_program) : undefined,
                 createdAt: new Date(row.created_at),
                 updatedAt: new Date(row.updated_at)
             };
@@ -1487,6 +2879,42 @@ class Database implements DatabaseService {
                     updates.push('language = ?');
                     values.push(settings.language);
                 }
+                if (settings.heldCartExpiryHours !== undefined) {
+                    updates.push('held_cart_expiry_hours = ?');
+                    values.push(settings.heldCartExpiryHours);
+                }
+                if (settings.idleLockMinutes !== undefined) {
+                    updates.push('idle_lock_minutes = ?');
+                    values.push(settings.idleLockMinutes);
+                }
+                if (settings.loginMaxAttempts !== undefined) {
+                    updates.push('login_max_attempts = ?');
+                    values.push(settings.loginMaxAttempts);
+                }
+                if (settings.loginDeviceMaxAttempts !== undefined) {
+                    updates.push('login_device_max_attempts = ?');
+                    values.push(settings.loginDeviceMaxAttempts);
+                }
+                if (settings.loginLockoutMinutes !== undefined) {
+                    updates.push('login_lockout_minutes = ?');
+                    values.push(settings.loginLockoutMinutes);
+                }
+                if (settings.pricesIncludeTax !== undefined) {
+                    updates.push('prices_include_tax = ?');
+                    values.push(settings.pricesIncludeTax ? 1 : 0);
+                }
+                if (settings.taxRounding !== undefined) {
+                    updates.push('tax_rounding = ?');
+                    values.push(settings.taxRounding);
+                }
+                if (settings.taxClasses !== undefined) {
+                    updates.push('tax_classes = ?');
+                    values.push(JSON.stringify(settings.taxClasses));
+                }
+                if (settings.loyaltyProgram !== undefined) {
+                    updates.push('loyalty_program = ?');
+                    values.push(JSON.stringify(settings.loyaltyProgram));
+                }
 
                 updates.push('updated_at = ?');
                 values.push(new Date().toISOString());
@@ -1505,8 +2933,10 @@ class Database implements DatabaseService {
                 await db.runAsync(
                     `INSERT INTO business_settings (
                         id, business_name, business_logo, business_address, business_phone, 
-                        business_email, currency, currency_symbol, tax_rate, timezone, language
-                    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                        business_email, currency, currency_symbol, tax_rate, timezone, language,
+                        held_cart_expiry_hours, idle_lock_minutes, login_max_attempts, login_device_max_attempts,
+                        login_lockout_minutes, prices_include_tax, tax_rounding, tax_classes, loyalty_program
+                    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
                     [
                         settingsId,
                         settings.businessName || 'My Business',
@@ -1518,7 +2948,16 @@ class Database implements DatabaseService {
                         settings.currencySymbol || '$',
                         settings.taxRate || 0.08,
                         settings.timezone || 'UTC',
-                        settings.language || 'en'
+                        settings.language || 'en',
+                        settings.heldCartExpiryHours ?? 24,
+                        settings.idleLockMinutes ?? 5,
+                        settings.loginMaxAttempts ?? 5,
+                        settings.loginDeviceMaxAttempts ?? 20,
+                        settings.loginLockoutMinutes ?? 15,
+                        settings.pricesIncludeTax ? 1 : 0,
+                        settings.taxRounding || 'line',
+                        JSON.stringify(settings.taxClasses || []),
+                        settings.loyaltyProgram ? JSON.stringify(settings.loyaltyProgram) : null
                     ]
                 );
 
@@ -1644,22 +3083,14 @@ class Database implements DatabaseService {
     }
 
     /**
-     * Get audit logs
+     * Get audit logs, newest first
      */
     public async getAuditLogs(): Promise<AuditLog[]> {
         const db = this.getConnection();
 
         try {
-            const result = await db.getAllAsync('SELECT * FROM audit_logs ORDER BY timestamp DESC');
-            return result.map((row: any) => ({
-                id: row.id,
-                userId: row.user_id,
-                action: row.action,
-                resource: row.resource,
-                details: row.details ? JSON.parse(row.details) : null,
-                ipAddress: row.ip_address,
-                timestamp: new Date(row.timestamp)
-            }));
+            const result = await db.getAllAsync('SELECT * FROM audit_logs ORDER BY sequence DESC, timestamp DESC');
+            return result.map(row => this.mapAuditLog(row));
         } catch (error) {
             console.error('Failed to get audit logs:', error);
             throw new DatabaseError({
@@ -1669,6 +3100,74 @@ class Database implements DatabaseService {
             });
         }
     }
+
+    /**
+     * Filtered, paged audit logs, newest first
+     */
+    public async queryAuditLogs(query: AuditLogQuery): Promise<AuditLogPage> {
+        const db = this.getConnection();
+        const conditions: string[] = [];
+        const params: (string | number)[] = [];
+
+        if (query.userId) {
+            conditions.push('user_id = ?');
+            params.push(query.userId);
+        }
+        if (query.action) {
+            conditions.push('action = ?');
+            params.push(query.action);
+        }
+        if (query.resource) {
+            conditions.push('resource = ?');
+            params.push(query.resource);
+        }
+        if (query.from) {
+            conditions.push('timestamp >= ?');
+            params.push(query.from.toISOString());
+        }
+        if (query.to) {
+            conditions.push('timestamp <= ?');
+            params.push(query.to.toISOString());
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        try {
+            const count = await db.getFirstAsync<{ total: number }>(
+                `SELECT COUNT(*) as total FROM audit_logs ${where}`,
+                params
+            );
+            const rows = await db.getAllAsync(
+                `SELECT * FROM audit_logs ${where} ORDER BY sequence DESC, timestamp DESC LIMIT ? OFFSET ?`,
+                [...params, query.limit ?? 50, query.offset ?? 0]
+            );
+            return {
+                entries: rows.map(row => this.mapAuditLog(row)),
+                total: count?.total ?? 0
+            };
+        } catch (error) {
+            console.error('Failed to query audit logs:', error);
+            throw new DatabaseError({
+                code: 'GET_AUDIT_LOGS_ERROR',
+                message: 'Failed to query audit logs',
+                table: 'audit_logs'
+            });
+        }
+    }
+
+    private mapAuditLog(row: any): AuditLog {
+        return {
+            id: row.id,
+            userId: row.user_id,
+            action: row.action,
+            resource: row.resource,
+            details: row.details ? JSON.parse(row.details) : null,
+            ipAddress: row.ip_address,
+            timestamp: new Date(row.timestamp),
+            sequence: row.sequence ?? undefined,
+            previousHash: row.previous_hash ?? undefined,
+            hash: row.hash ?? undefined
+        };
+    }
 }
 
 // Custom error class for database operations
@@ -0,0 +1,216 @@
+import { Sale, SaleItem, Payment } from '../types';
+import {
+  RetailTransaction,
+  ReturnDisposition,
+  SaleLineItem,
+  TenderLineItem,
+  TenderType,
+} from '../types/pos';
+
+/**
+ * Mapping between a RetailTransaction and the `sales`, `sale_items` and
+ * `payments` records that both database backends persist it as.
+ */
+
+export type SaleRecord = Omit<Sale, 'id'>;
+export type SaleItemRecord = Omit<SaleItem, 'id'>;
+export type PaymentRecord = Omit<Payment, 'id'>;
+
+export function generateTransactionId(): string {
+  return `TXN_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function toSaleStatus(status: RetailTransaction['status']): Sale['status'] {
+  switch (status) {
+    case 'inProgress':
+      return 'pending';
+    case 'voided':
+      return 'cancelled';
+    case 'returned':
+      return 'returned';
+    case 'completed':
+    default:
+      return 'completed';
+  }
+}
+
+export function toTransactionStatus(status: Sale['status']): RetailTransaction['status'] {
+  switch (status) {
+    case 'pending':
+      return 'inProgress';
+    case 'cancelled':
+      return 'voided';
+    case 'returned':
+      return 'returned';
+    case 'completed':
+    default:
+      return 'completed';
+  }
+}
+
+export function toSaleRecord(transaction: RetailTransaction & { id: string }): SaleRecord {
+  return {
+    transaction_id: transaction.id,
+    timestamp: transaction.endTime || transaction.startTime,
+    business_date: transaction.businessDate,
+    total: transaction.totals.grandTotal,
+    tax_total: transaction.totals.taxTotal,
+    subtotal: transaction.totals.subTotal,
+    discount_total: transaction.totals.discountTotal,
+    currency: transaction.totals.currency,
+    status: toSaleStatus(transaction.status),
+    operator_id: transaction.operatorId || null,
+    customer_id: transaction.customerId || null,
+    workstation_id: transaction.workstationId || null,
+    notes: transaction.notes || null,
+    original_transaction_id: transaction.originalTransactionId || null,
+    tax_exemption_id: transaction.taxExemptionId || null,
+    tax_inclusive: transaction.totals.taxInclusive ? 1 : 0,
+  };
+}
+
+export function toSaleItemRecords(saleId: number, transaction: RetailTransaction): SaleItemRecord[] {
+  return transaction.items.map((item, idx) => ({
+    sale_id: saleId,
+    product_id: item.productId,
+    qty: item.quantity,
+    unit_price: item.unitPrice,
+    line_number: item.lineNumber || idx + 1,
+    sku: item.sku || null,
+    name: item.name,
+    discounts: item.discounts && item.discounts.length > 0 ? JSON.stringify(item.discounts) : null,
+    taxes: item.taxes && item.taxes.length > 0 ? JSON.stringify(item.taxes) : null,
+    net_total: item.lineTotal.net,
+    tax_total: item.lineTotal.tax,
+    original_line_number: item.originalLineNumber ?? null,
+    disposition: item.disposition || null,
+    gift_card_code: item.giftCardCode || null,
+  }));
+}
+
+export function toPaymentRecords(saleId: number, transaction: RetailTransaction): PaymentRecord[] {
+  return transaction.tenders.map(tender => ({
+    sale_id: saleId,
+    method: tender.type,
+    amount: tender.amount,
+    reference: tender.reference,
+  }));
+}
+
+/**
+ * Rebuild a RetailTransaction from its ledger records. Rows written before the
+ * ledger columns existed fall back to values derived from qty/unit_price.
+ */
+export function fromLedgerRecords(sale: Sale, items: SaleItem[], payments: Payment[]): RetailTransaction {
+  const timestamp = parseTimestamp(sale.timestamp);
+
+  const lineItems: SaleLineItem[] = [...items]
+    .sort((a, b) => (a.line_number ?? a.id) - (b.line_number ?? b.id))
+    .map((item, idx) => {
+      const net = item.net_total ?? item.qty * item.unit_price;
+      const tax = item.tax_total ?? 0;
+      const name = item.name || `Product ${item.product_id}`;
+
+      return {
+        id: String(item.id),
+        lineNumber: item.line_number ?? idx + 1,
+        productId: item.product_id,
+        sku: item.sku || undefined,
+        description: name,
+        name,
+        quantity: item.qty,
+        unitPrice: item.unit_price,
+        price: item.unit_price,
+        discounts: parseJson(item.discounts, []),
+        taxes: parseJson(item.taxes, []),
+        lineTotal: { net, tax, gross: net + tax },
+        originalLineNumber: item.original_line_number ?? undefined,
+        disposition: (item.disposition as ReturnDisposition | null) || undefined,
+        giftCardCode: item.gift_card_code || undefined,
+      };
+    });
+
+  const tenders: TenderLineItem[] = payments.map(payment => ({
+    id: String(payment.id),
+    type: payment.method,
+    amount: payment.amount,
+    reference: payment.reference || undefined,
+  }));
+
+  return {
+    id: sale.transaction_id || `SALE_${sale.id}`,
+    sequence: sale.id,
+    businessDate: sale.business_date || timestamp.toISOString().slice(0, 10),
+    startTime: timestamp.toISOString(),
+    endTime: timestamp.toISOString(),
+    timestamp,
+    status: toTransactionStatus(sale.status),
+    customerId: sale.customer_id || undefined,
+    operatorId: sale.operator_id || undefined,
+    workstationId: sale.workstation_id || undefined,
+    items: lineItems,
+    tenders,
+    totals: {
+      subTotal: sale.subtotal ?? lineItems.reduce((sum, item) => sum + item.lineTotal.net, 0),
+      discountTotal: sale.discount_total ?? 0,
+      taxTotal: sale.tax_total,
+      grandTotal: sale.total,
+      currency: sale.currency || 'USD',
+      taxInclusive: sale.tax_inclusive ? true : undefined,
+    },
+    notes: sale.notes || undefined,
+    originalTransactionId: sale.original_transaction_id || undefined,
+    taxExemptionId: sale.tax_exemption_id || undefined,
+  };
+}
+
+// Transactions that count in reports: completed sales, and returns that net
+// off their revenue. Voided and in-progress transactions never count.
+export const isRecordedTransaction = (transaction: RetailTransaction): boolean =>
+  transaction.status === 'completed' || transaction.status === 'returned';
+
+export interface TenderSummary {
+  count: number; // payments taken with this tender type
+  amount: number; // net amount kept, after change given
+}
+
+/**
+ * Revenue per tender type across transactions. Each positive tender counts as
+ * one payment; change (negative cash tenders) is netted off the cash total.
+ */
+export function summarizeTenders(
+  transactions: RetailTransaction[]
+): Partial<Record<TenderType, TenderSummary>> {
+  const summary: Partial<Record<TenderType, TenderSummary>> = {};
+
+  transactions.forEach(transaction => {
+    transaction.tenders.forEach(tender => {
+      const entry = summary[tender.type] || (summary[tender.type] = { count: 0, amount: 0 });
+      if (tender.amount > 0) {
+        entry.count++;
+      }
+      entry.amount += tender.amount;
+    });
+  });
+
+  return summary;
+}
+
+// SQLite CURRENT_TIMESTAMP values ("YYYY-MM-DD HH:MM:SS") are UTC without a zone marker
+function parseTimestamp(value: string): Date {
+  if (value && !value.includes('T')) {
+    return new Date(`${value.replace(' ', 'T')}Z`);
+  }
+  return new Date(value);
+}
+
+function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  if (!value) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
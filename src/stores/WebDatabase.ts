@@ -14,8 +14,34 @@ import {
   UpdateUserInput,
   BusinessSettings,
   UserProfile,
-  AuditLog
+  AuditLog,
+  UserPasswordRecord,
+  UserPinRecord,
+  Role,
+  AuditLogQuery,
+  AuditLogPage,
+  LoginAttemptRecord,
+  PasswordResetCode,
+  UserTotpRecord,
+  AuthSessionRecord,
+  Customer,
+  CreateCustomerInput,
+  UpdateCustomerInput,
+  LoyaltyLedgerEntry,
+  GiftCard,
+  GiftCardEntry
 } from '../types';
+import { DrawerEvent, DrawerShift, DrawerShiftQuery, RetailTransaction, TransactionQuery } from '../types/pos';
+import {
+  fromLedgerRecords,
+  generateTransactionId,
+  toPaymentRecords,
+  toSaleItemRecords,
+  toSaleRecord,
+  toSaleStatus
+} from './TransactionLedger';
+import { linkAuditEntry, matchesAuditQuery } from './AuditChain';
+import { BASELINE_SCHEMA_VERSION, LATEST_SCHEMA_VERSION, getPendingMigrations } from './migrations';
 
 /**
  * Web-compatible database implementation using IndexedDB
@@ -24,7 +50,7 @@ import {
 export class WebDatabase implements DatabaseService {
   private db: IDBDatabase | null = null;
   private dbName = 'SalesMVP';
-  private version = 1;
+  private version = LATEST_SCHEMA_VERSION;
 
   constructor() {}
 
@@ -137,6 +163,14 @@ export class WebDatabase implements DatabaseService {
           userProfilesStore.createIndex('userId', 'userId', { unique: true });
         }
 
+        // Apply schema migrations newer than the version on disk
+        const upgradeTransaction = (event.target as IDBOpenDBRequest).transaction!;
+        const fromVersion = Math.max(event.oldVersion, BASELINE_SCHEMA_VERSION);
+        getPendingMigrations(fromVersion).forEach(migration => {
+          console.log(`🔄 WebDatabase: Applying migration ${migration.version}: ${migration.name}`);
+          migration.indexedDb(db, upgradeTransaction);
+        });
+
         console.log('✅ WebDatabase: All IndexedDB stores created successfully');
       };
 
@@ -146,6 +180,11 @@ export class WebDatabase implements DatabaseService {
     });
   }
 
+  // IndexedDB tracks the schema version natively as the database version
+  public async getSchemaVersion(): Promise<number> {
+    return this.getDb().version;
+  }
+
   private getDb(): IDBDatabase {
     if (!this.db) {
       // If we're not in a browser environment, throw a more descriptive error
@@ -619,6 +658,342 @@ export class WebDatabase implements DatabaseService {
     });
   }
 
+  // Transaction ledger operations
+  public async saveTransaction(retailTransaction: RetailTransaction): Promise<RetailTransaction> {
+    const saleData = toSaleRecord({
+      ...retailTransaction,
+      id: retailTransaction.id || generateTransactionId()
+    });
+
+    const db = this.getDb();
+    const transaction = db.transaction(['sales', 'sale_items', 'payments'], 'readwrite');
+
+    await new Promise<void>((resolve, reject) => {
+      const request = transaction.objectStore('sales').add(saleData);
+
+      request.onsuccess = () => {
+        const saleId = request.result as number;
+        toSaleItemRecords(saleId, retailTransaction).forEach(item => {
+          transaction.objectStore('sale_items').add(item);
+        });
+        toPaymentRecords(saleId, retailTransaction).forEach(payment => {
+          transaction.objectStore('payments').add(payment);
+        });
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        reject(new Error('Failed to save transaction'));
+      };
+    });
+
+    const saved = await this.getTransaction(saleData.transaction_id!);
+    if (!saved) {
+      throw new Error('Failed to retrieve saved transaction');
+    }
+    return saved;
+  }
+
+  public async getTransaction(id: string): Promise<RetailTransaction | null> {
+    const sales = await this.getAllSales();
+    const sale = sales.find(s => (s.transaction_id || `SALE_${s.id}`) === id);
+    if (!sale) {
+      return null;
+    }
+
+    const [items, payments] = await Promise.all([this.getSaleItems(sale.id), this.getPayments(sale.id)]);
+    return fromLedgerRecords(sale, items, payments);
+  }
+
+  public async getTransactions(query: TransactionQuery = {}): Promise<RetailTransaction[]> {
+    let sales = (await this.getAllSales()).filter(sale => {
+      const time = new Date(sale.timestamp).getTime();
+      if (query.startDate && time < query.startDate.getTime()) {
+        return false;
+      }
+      if (query.endDate && time > query.endDate.getTime()) {
+        return false;
+      }
+      if (query.status && sale.status !== toSaleStatus(query.status)) {
+        return false;
+      }
+      if (query.operatorId && sale.operator_id !== query.operatorId) {
+        return false;
+      }
+      if (query.originalTransactionId && sale.original_transaction_id !== query.originalTransactionId) {
+        return false;
+      }
+      return true;
+    });
+
+    if (query.limit) {
+      sales = sales.slice(0, query.limit);
+    }
+
+    const [items, payments] = await Promise.all([
+      this.getAllFromStore<SaleItem>('sale_items'),
+      this.getAllFromStore<Payment>('payments')
+    ]);
+
+    return sales.map(sale =>
+      fromLedgerRecords(
+        sale,
+        items.filter(item => item.sale_id === sale.id),
+        payments.filter(payment => payment.sale_id === sale.id)
+      )
+    );
+  }
+
+  public async updateTransactionStatus(id: string, status: RetailTransaction['status']): Promise<RetailTransaction> {
+    const existing = await this.getTransaction(id);
+    if (!existing || existing.sequence === undefined) {
+      throw new Error('Transaction not found');
+    }
+
+    await this.updateSaleStatus(existing.sequence, toSaleStatus(status));
+    return { ...existing, status };
+  }
+
+  // Cash drawer shifts
+  public async saveDrawerShift(shift: DrawerShift): Promise<DrawerShift> {
+    const db = this.getDb();
+    const transaction = db.transaction(['drawer_shifts'], 'readwrite');
+    const store = transaction.objectStore('drawer_shifts');
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(shift);
+
+      request.onsuccess = () => {
+        resolve(shift);
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to save drawer shift'));
+      };
+    });
+  }
+
+  public async getDrawerShift(id: string): Promise<DrawerShift | null> {
+    const db = this.getDb();
+    const transaction = db.transaction(['drawer_shifts'], 'readonly');
+    const store = transaction.objectStore('drawer_shifts');
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(id);
+
+      request.onsuccess = () => {
+        resolve(request.result || null);
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to get drawer shift'));
+      };
+    });
+  }
+
+  public async getDrawerShifts(query: DrawerShiftQuery = {}): Promise<DrawerShift[]> {
+    const shifts = (await this.getAllFromStore<DrawerShift>('drawer_shifts'))
+      .filter(shift => !query.status || shift.status === query.status)
+      .filter(shift => !query.userId || shift.userId === query.userId)
+      .sort((a, b) => new Date(b.openedAt).getTime() - new Date(a.openedAt).getTime());
+
+    return query.limit ? shifts.slice(0, query.limit) : shifts;
+  }
+
+  public async saveDrawerEvent(event: DrawerEvent): Promise<DrawerEvent> {
+    const db = this.getDb();
+    const transaction = db.transaction(['drawer_events'], 'readwrite');
+    const store = transaction.objectStore('drawer_events');
+
+    return new Promise((resolve, reject) => {
+      const request = store.add(event);
+
+      request.onsuccess = () => {
+        resolve(event);
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to save drawer event'));
+      };
+    });
+  }
+
+  public async getDrawerEvents(shiftId: string): Promise<DrawerEvent[]> {
+    const db = this.getDb();
+    const transaction = db.transaction(['drawer_events'], 'readonly');
+    const index = transaction.objectStore('drawer_events').index('shiftId');
+
+    return new Promise((resolve, reject) => {
+      const request = index.getAll(shiftId);
+
+      request.onsuccess = () => {
+        const events: DrawerEvent[] = request.result || [];
+        resolve(events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()));
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to get drawer events'));
+      };
+    });
+  }
+
+  public async createCustomer(input: CreateCustomerInput): Promise<Customer> {
+    const now = new Date();
+    const customer: Customer = {
+      ...input,
+      id: `cust-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: now,
+      updatedAt: now
+    };
+    return this.putCustomer(customer, 'Failed to create customer');
+  }
+
+  public async getCustomer(id: string): Promise<Customer | null> {
+    const db = this.getDb();
+    const transaction = db.transaction(['customers'], 'readonly');
+    const store = transaction.objectStore('customers');
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(id);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(new Error('Failed to get customer'));
+    });
+  }
+
+  public async searchCustomers(query: string, limit: number = 50): Promise<Customer[]> {
+    const term = query.trim().toLowerCase();
+    const customers = await this.getAllFromStore<Customer>('customers');
+
+    return customers
+      .filter(customer =>
+        !term || [customer.name, customer.email, customer.phone]
+          .some(value => value?.toLowerCase().includes(term))
+      )
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }))
+      .slice(0, limit);
+  }
+
+  public async updateCustomer(input: UpdateCustomerInput): Promise<Customer> {
+    const existing = await this.getCustomer(input.id);
+    if (!existing) {
+      throw new Error('Customer not found');
+    }
+    return this.putCustomer({ ...existing, ...input, updatedAt: new Date() }, 'Failed to update customer');
+  }
+
+  public async saveLoyaltyEntry(entry: LoyaltyLedgerEntry): Promise<LoyaltyLedgerEntry> {
+    const db = this.getDb();
+    const transaction = db.transaction(['loyalty_ledger'], 'readwrite');
+    const store = transaction.objectStore('loyalty_ledger');
+
+    return new Promise((resolve, reject) => {
+      const request = store.add(entry);
+      request.onsuccess = () => resolve(entry);
+      request.onerror = () => reject(new Error('Failed to save loyalty points'));
+    });
+  }
+
+  public async getLoyaltyEntries(customerId: string): Promise<LoyaltyLedgerEntry[]> {
+    const db = this.getDb();
+    const transaction = db.transaction(['loyalty_ledger'], 'readonly');
+    const index = transaction.objectStore('loyalty_ledger').index('customerId');
+
+    return new Promise((resolve, reject) => {
+      const request = index.getAll(customerId);
+      request.onsuccess = () => {
+        const entries: LoyaltyLedgerEntry[] = request.result || [];
+        resolve(entries.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
+      };
+      request.onerror = () => reject(new Error('Failed to get loyalty points'));
+    });
+  }
+
+  public async saveGiftCard(card: GiftCard): Promise<GiftCard> {
+    const db = this.getDb();
+    const transaction = db.transaction(['gift_cards'], 'readwrite');
+    const store = transaction.objectStore('gift_cards');
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(card);
+      request.onsuccess = () => resolve(card);
+      request.onerror = () => reject(new Error('Failed to save gift card'));
+    });
+  }
+
+  public async getGiftCard(code: string): Promise<GiftCard | null> {
+    const db = this.getDb();
+    const transaction = db.transaction(['gift_cards'], 'readonly');
+    const store = transaction.objectStore('gift_cards');
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(code);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(new Error('Failed to get gift card'));
+    });
+  }
+
+  public async getGiftCards(): Promise<GiftCard[]> {
+    const cards = await this.getAllFromStore<GiftCard>('gift_cards');
+    return cards.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  public async saveGiftCardEntry(entry: GiftCardEntry): Promise<GiftCardEntry> {
+    const db = this.getDb();
+    const transaction = db.transaction(['gift_card_ledger'], 'readwrite');
+    const store = transaction.objectStore('gift_card_ledger');
+
+    return new Promise((resolve, reject) => {
+      const request = store.add(entry);
+      request.onsuccess = () => resolve(entry);
+      request.onerror = () => reject(new Error('Failed to update gift card balance'));
+    });
+  }
+
+  public async getGiftCardEntries(code?: string): Promise<GiftCardEntry[]> {
+    const db = this.getDb();
+    const transaction = db.transaction(['gift_card_ledger'], 'readonly');
+    const store = transaction.objectStore('gift_card_ledger');
+
+    return new Promise((resolve, reject) => {
+      const request = code ? store.index('code').getAll(code) : store.getAll();
+      request.onsuccess = () => {
+        const entries: GiftCardEntry[] = request.result || [];
+        resolve(entries.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
+      };
+      request.onerror = () => reject(new Error('Failed to get gift card history'));
+    });
+  }
+
+  private async putCustomer(customer: Customer, failure: string): Promise<Customer> {
+    const db = this.getDb();
+    const transaction = db.transaction(['customers'], 'readwrite');
+    const store = transaction.objectStore('customers');
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(customer);
+      request.onsuccess = () => resolve(customer);
+      request.onerror = () => reject(new Error(failure));
+    });
+  }
+
+  private async getAllFromStore<T>(storeName: string): Promise<T[]> {
+    const db = this.getDb();
+    const transaction = db.transaction([storeName], 'readonly');
+    const store = transaction.objectStore(storeName);
+
+    return new Promise((resolve, reject) => {
+      const request = store.getAll();
+
+      request.onsuccess = () => {
+        resolve(request.result || []);
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Failed to read ${storeName}`));
+      };
+    });
+  }
+
   public async close(): Promise<void> {
     if (this.db) {
       this.db.close();
@@ -703,6 +1078,7 @@ export class WebDatabase implements DatabaseService {
       firstName: input.firstName,
       lastName: input.lastName,
       role: input.role,
+      permissionOverrides: input.permissionOverrides,
       isActive: true,
       createdAt: new Date(),
       updatedAt: new Date()
@@ -833,13 +1209,18 @@ export class WebDatabase implements DatabaseService {
   }
 
   // Password management
-  public async saveUserPassword(userId: string, passwordHash: string, salt: string): Promise<void> {
+  public async saveUserPassword(
+    userId: string,
+    passwordHash: string,
+    salt: string,
+    mustChange: boolean = false
+  ): Promise<void> {
     const db = this.getDb();
     const transaction = db.transaction(['user_passwords'], 'readwrite');
     const store = transaction.objectStore('user_passwords');
 
     return new Promise((resolve, reject) => {
-      const request = store.put({ userId, passwordHash, salt });
+      const request = store.put({ userId, passwordHash, salt, mustChange });
       
       request.onsuccess = () => {
         resolve();
@@ -851,7 +1232,7 @@ export class WebDatabase implements DatabaseService {
     });
   }
 
-  public async getUserPassword(userId: string): Promise<{ passwordHash: string; salt: string } | null> {
+  public async getUserPassword(userId: string): Promise<UserPasswordRecord | null> {
     const db = this.getDb();
     const transaction = db.transaction(['user_passwords'], 'readonly');
     const store = transaction.objectStore('user_passwords');
@@ -869,11 +1250,219 @@ export class WebDatabase implements DatabaseService {
     });
   }
 
+  public async saveUserPin(userId: string, pinHash: string, salt: string): Promise<void> {
+    const db = this.getDb();
+    const transaction = db.transaction(['user_pins'], 'readwrite');
+    const store = transaction.objectStore('user_pins');
+
+    return new Promise((resolve, reject) => {
+      const request = store.put({ userId, pinHash, salt, updatedAt: new Date().toISOString() });
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to save user PIN'));
+    });
+  }
+
+  public async getUserPin(userId: string): Promise<UserPinRecord | null> {
+    const db = this.getDb();
+    const transaction = db.transaction(['user_pins'], 'readonly');
+    const store = transaction.objectStore('user_pins');
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(userId);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(new Error('Failed to get user PIN'));
+    });
+  }
+
+  public async getUserPins(): Promise<UserPinRecord[]> {
+    return this.getAllFromStore<UserPinRecord>('user_pins');
+  }
+
+  public async deleteUserPin(userId: string): Promise<void> {
+    const db = this.getDb();
+    const transaction = db.transaction(['user_pins'], 'readwrite');
+    const store = transaction.objectStore('user_pins');
+
+    return new Promise((resolve, reject) => {
+      const request = store.delete(userId);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to delete user PIN'));
+    });
+  }
+
+  public async savePasswordResetCode(code: PasswordResetCode): Promise<void> {
+    const db = this.getDb();
+    const transaction = db.transaction(['password_resets'], 'readwrite');
+    const store = transaction.objectStore('password_resets');
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(code);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to save password reset code'));
+    });
+  }
+
+  public async getPasswordResetCode(userId: string): Promise<PasswordResetCode | null> {
+    const db = this.getDb();
+    const transaction = db.transaction(['password_resets'], 'readonly');
+    const store = transaction.objectStore('password_resets');
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(userId);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(new Error('Failed to get password reset code'));
+    });
+  }
+
+  public async deletePasswordResetCode(userId: string): Promise<void> {
+    const db = this.getDb();
+    const transaction = db.transaction(['password_resets'], 'readwrite');
+    const store = transaction.objectStore('password_resets');
+
+    return new Promise((resolve, reject) => {
+      const request = store.delete(userId);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to delete password reset code'));
+    });
+  }
+
+  public async getUserTotp(userId: string): Promise<UserTotpRecord | null> {
+    const db = this.getDb();
+    const transaction = db.transaction(['user_totp'], 'readonly');
+    const store = transaction.objectStore('user_totp');
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(userId);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(new Error('Failed to get two-factor settings'));
+    });
+  }
+
+  public async saveUserTotp(record: UserTotpRecord): Promise<void> {
+    const db = this.getDb();
+    const transaction = db.transaction(['user_totp'], 'readwrite');
+    const store = transaction.objectStore('user_totp');
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(record);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to save two-factor settings'));
+    });
+  }
+
+  public async deleteUserTotp(userId: string): Promise<void> {
+    const db = this.getDb();
+    const transaction = db.transaction(['user_totp'], 'readwrite');
+    const store = transaction.objectStore('user_totp');
+
+    return new Promise((resolve, reject) => {
+      const request = store.delete(userId);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to delete two-factor settings'));
+    });
+  }
+
+  // Login throttling
+  public async getLoginAttempt(key: string): Promise<LoginAttemptRecord | null> {
+    const db = this.getDb();
+    const transaction = db.transaction(['login_attempts'], 'readonly');
+    const store = transaction.objectStore('login_attempts');
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(key);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(new Error('Failed to get login attempts'));
+    });
+  }
+
+  public async getLoginAttempts(): Promise<LoginAttemptRecord[]> {
+    const attempts = await this.getAllFromStore<LoginAttemptRecord>('login_attempts');
+    return attempts.sort((a, b) => new Date(b.lastFailureAt).getTime() - new Date(a.lastFailureAt).getTime());
+  }
+
+  public async saveLoginAttempt(record: LoginAttemptRecord): Promise<void> {
+    const db = this.getDb();
+    const transaction = db.transaction(['login_attempts'], 'readwrite');
+    const store = transaction.objectStore('login_attempts');
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(record);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to save login attempts'));
+    });
+  }
+
+  public async deleteLoginAttempt(key: string): Promise<void> {
+    const db = this.getDb();
+    const transaction = db.transaction(['login_attempts'], 'readwrite');
+    const store = transaction.objectStore('login_attempts');
+
+    return new Promise((resolve, reject) => {
+      const request = store.delete(key);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to delete login attempts'));
+    });
+  }
+
+  // Roles
+  public async getRoles(): Promise<Role[]> {
+    const roles = await this.getAllFromStore<Role>('roles');
+    return roles.sort((a, b) => Number(b.isSystem) - Number(a.isSystem) || a.name.localeCompare(b.name));
+  }
+
+  public async getRole(id: string): Promise<Role | null> {
+    const db = this.getDb();
+    const transaction = db.transaction(['roles'], 'readonly');
+    const store = transaction.objectStore('roles');
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(id);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(new Error('Failed to get role'));
+    });
+  }
+
+  public async saveRole(role: Role): Promise<Role> {
+    const db = this.getDb();
+    const transaction = db.transaction(['roles'], 'readwrite');
+    const store = transaction.objectStore('roles');
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(role);
+      request.onsuccess = () => resolve(role);
+      request.onerror = () => reject(new Error('Failed to save role'));
+    });
+  }
+
+  public async deleteRole(id: string): Promise<boolean> {
+    const role = await this.getRole(id);
+    if (!role || role.isSystem) {
+      return false;
+    }
+
+    const db = this.getDb();
+    const transaction = db.transaction(['roles'], 'readwrite');
+    const store = transaction.objectStore('roles');
+
+    return new Promise((resolve, reject) => {
+      const request = store.delete(id);
+      request.onsuccess = () => resolve(true);
+      request.onerror = () => reject(new Error('Failed to delete role'));
+    });
+  }
+
   // Session management
-  public async saveAuthSession(sessionId: string, userId: string, token: string, expiresAt: Date): Promise<void> {
+  public async saveAuthSession(
+    sessionId: string,
+    userId: string,
+    token: string,
+    expiresAt: Date,
+    device?: { deviceId: string; deviceName: string }
+  ): Promise<void> {
     const db = this.getDb();
     const transaction = db.transaction(['auth_sessions'], 'readwrite');
     const store = transaction.objectStore('auth_sessions');
+    const now = new Date().toISOString();
 
     return new Promise((resolve, reject) => {
       const request = store.put({
@@ -881,7 +1470,10 @@ export class WebDatabase implements DatabaseService {
         userId,
         token,
         expiresAt: expiresAt.toISOString(),
-        createdAt: new Date().toISOString()
+        createdAt: now,
+        deviceId: device?.deviceId,
+        deviceName: device?.deviceName,
+        lastSeenAt: now
       });
       
       request.onsuccess = () => {
@@ -964,6 +1556,121 @@ export class WebDatabase implements DatabaseService {
     });
   }
 
+  public async deleteAuthSessionById(sessionId: string): Promise<boolean> {
+    const db = this.getDb();
+    const transaction = db.transaction(['auth_sessions'], 'readwrite');
+    const store = transaction.objectStore('auth_sessions');
+
+    return new Promise((resolve, reject) => {
+      const getRequest = store.getKey(sessionId);
+
+      getRequest.onsuccess = () => {
+        if (getRequest.result === undefined) {
+          resolve(false);
+          return;
+        }
+        const deleteRequest = store.delete(sessionId);
+        deleteRequest.onsuccess = () => resolve(true);
+        deleteRequest.onerror = () => reject(new Error('Failed to delete auth session'));
+      };
+
+      getRequest.onerror = () => {
+        reject(new Error('Failed to get auth session key'));
+      };
+    });
+  }
+
+  public async deleteUserAuthSessions(userId: string, exceptToken?: string): Promise<number> {
+    const db = this.getDb();
+    const transaction = db.transaction(['auth_sessions'], 'readwrite');
+    const store = transaction.objectStore('auth_sessions');
+
+    return new Promise((resolve, reject) => {
+      const request = store.index('userId').getAll(userId);
+
+      request.onsuccess = () => {
+        const sessions = (request.result || []).filter(session => session.token !== exceptToken);
+        sessions.forEach(session => store.delete(session.id));
+        transaction.oncomplete = () => resolve(sessions.length);
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to delete user sessions'));
+      };
+    });
+  }
+
+  public async getUserAuthSessions(userId: string): Promise<AuthSessionRecord[]> {
+    const db = this.getDb();
+    const transaction = db.transaction(['auth_sessions'], 'readonly');
+    const store = transaction.objectStore('auth_sessions');
+    const now = new Date();
+
+    return new Promise((resolve, reject) => {
+      const request = store.index('userId').getAll(userId);
+
+      request.onsuccess = () => {
+        const sessions: AuthSessionRecord[] = (request.result || [])
+          .filter(session => new Date(session.expiresAt) > now)
+          .map(session => ({
+            id: session.id,
+            userId: session.userId,
+            deviceId: session.deviceId,
+            deviceName: session.deviceName,
+            expiresAt: new Date(session.expiresAt),
+            createdAt: new Date(session.createdAt),
+            lastSeenAt: session.lastSeenAt ? new Date(session.lastSeenAt) : undefined
+          }));
+        const lastActive = (session: AuthSessionRecord) => (session.lastSeenAt ?? session.createdAt).getTime();
+        resolve(sessions.sort((a, b) => lastActive(b) - lastActive(a)));
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to get user sessions'));
+      };
+    });
+  }
+
+  public async renewAuthSession(token: string, expiresAt: Date): Promise<boolean> {
+    const db = this.getDb();
+    const transaction = db.transaction(['auth_sessions'], 'readwrite');
+    const store = transaction.objectStore('auth_sessions');
+
+    return new Promise((resolve, reject) => {
+      const request = store.index('token').get(token);
+
+      request.onsuccess = () => {
+        const session = request.result;
+        if (!session) {
+          resolve(false);
+          return;
+        }
+        const putRequest = store.put({
+          ...session,
+          expiresAt: expiresAt.toISOString(),
+          lastSeenAt: new Date().toISOString()
+        });
+        putRequest.onsuccess = () => resolve(true);
+        putRequest.onerror = () => reject(new Error('Failed to renew auth session'));
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to get auth session'));
+      };
+    });
+  }
+
+  public async getActiveSessionCounts(): Promise<Record<string, number>> {
+    const now = new Date();
+    const sessions = await this.getAllFromStore<{ userId: string; expiresAt: string }>('auth_sessions');
+    return sessions
+      .filter(session => new Date(session.expiresAt) > now)
+      .reduce<Record<string, number>>((counts, session) => {
+        counts[session.userId] = (counts[session.userId] || 0) + 1;
+        return counts;
+      }, {});
+  }
+
   public async cleanExpiredSessions(): Promise<number> {
     const db = this.getDb();
     const transaction = db.transaction(['auth_sessions'], 'readwrite');
@@ -994,7 +1701,8 @@ export class WebDatabase implements DatabaseService {
     });
   }
 
-  // Audit logging
+  // Audit logging. Reading the last link and adding the entry share one
+  // readwrite transaction, so concurrent writers cannot fork the chain.
   public async logAuditEvent(userId: string | null, action: string, resource: string, details?: any, ipAddress?: string): Promise<void> {
     const db = this.getDb();
     const transaction = db.transaction(['audit_logs'], 'readwrite');
@@ -1011,34 +1719,39 @@ export class WebDatabase implements DatabaseService {
     };
 
     return new Promise((resolve, reject) => {
-      const request = store.add(auditLog);
-      
-      request.onsuccess = () => {
-        resolve();
+      const lastRequest = store.index('sequence').openCursor(null, 'prev');
+
+      lastRequest.onsuccess = () => {
+        const last = lastRequest.result?.value as AuditLog | undefined;
+        const request = store.add({ ...auditLog, ...linkAuditEntry(auditLog, last || null) });
+
+        request.onsuccess = () => {
+          resolve();
+        };
+
+        request.onerror = () => {
+          reject(new Error('Failed to log audit event'));
+        };
       };
-      
-      request.onerror = () => {
+
+      lastRequest.onerror = () => {
         reject(new Error('Failed to log audit event'));
       };
     });
   }
 
   public async getAuditLogs(): Promise<AuditLog[]> {
-    const db = this.getDb();
-    const transaction = db.transaction(['audit_logs'], 'readonly');
-    const store = transaction.objectStore('audit_logs');
+    const logs = await this.getAllFromStore<AuditLog>('audit_logs');
+    return logs.sort((a, b) => (b.sequence ?? 0) - (a.sequence ?? 0));
+  }
 
-    return new Promise((resolve, reject) => {
-      const request = store.getAll();
-      
-      request.onsuccess = () => {
-        resolve(request.result || []);
-      };
-      
-      request.onerror = () => {
-        reject(new Error('Failed to get audit logs'));
-      };
-    });
+  public async queryAuditLogs(query: AuditLogQuery): Promise<AuditLogPage> {
+    const matching = (await this.getAuditLogs()).filter(entry => matchesAuditQuery(entry, query));
+    const offset = query.offset ?? 0;
+    return {
+      entries: matching.slice(offset, offset + (query.limit ?? 50)),
+      total: matching.length
+    };
   }
 
   // Business settings and user profile
@@ -0,0 +1,48 @@
+import { AuditLog } from '../../types';
+import { AUDIT_GENESIS_HASH, linkAuditEntry, verifyAuditChain } from '../AuditChain';
+
+const buildChain = (count: number): AuditLog[] => {
+  const chain: AuditLog[] = [];
+  for (let i = 0; i < count; i++) {
+    const entry: AuditLog = {
+      id: `audit-${i}`,
+      userId: i % 2 ? 'user-1' : '',
+      action: 'sale_voided',
+      resource: 'sales',
+      details: JSON.stringify({ saleId: `sale-${i}`, amount: 10 + i }),
+      timestamp: new Date(Date.UTC(2026, 0, 1, 9, i)),
+    };
+    chain.push({ ...entry, ...linkAuditEntry(entry, chain[chain.length - 1] || null) });
+  }
+  return chain;
+};
+
+describe('audit hash chain', () => {
+  it('links each entry to the previous hash', () => {
+    const chain = buildChain(3);
+
+    expect(chain.map(entry => entry.sequence)).toEqual([1, 2, 3]);
+    expect(chain[0].previousHash).toBe(AUDIT_GENESIS_HASH);
+    expect(chain[2].previousHash).toBe(chain[1].hash);
+    expect(verifyAuditChain([...chain].reverse())).toEqual(expect.objectContaining({ valid: true, checked: 3 }));
+  });
+
+  it('accepts details read back as an object', () => {
+    const chain = buildChain(2).map(entry => ({ ...entry, details: JSON.parse(entry.details) }));
+    expect(verifyAuditChain(chain).valid).toBe(true);
+  });
+
+  it('detects edited and deleted entries', () => {
+    const edited = buildChain(4);
+    edited[1] = { ...edited[1], details: JSON.stringify({ saleId: 'sale-1', amount: 1 }) };
+    expect(verifyAuditChain(edited).issues).toEqual([
+      { sequence: 2, entryId: 'audit-1', problem: 'modified' },
+    ]);
+
+    const deleted = buildChain(4).filter(entry => entry.sequence !== 2);
+    expect(verifyAuditChain(deleted).issues).toEqual([
+      { sequence: 2, entryId: 'audit-2', problem: 'missing' },
+      { sequence: 3, entryId: 'audit-2', problem: 'broken_link' },
+    ]);
+  });
+});
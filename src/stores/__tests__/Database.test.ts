@@ -1,5 +1,7 @@
 import { Database, DatabaseError } from '../Database';
 import { CreateProductInput, CreateSaleInput, CreateSaleItemInput, CreatePaymentInput } from '../../types';
+import { RetailTransaction } from '../../types/pos';
+import { LATEST_SCHEMA_VERSION } from '../migrations';
 
 // Mock expo-sqlite
 const mockDb = {
@@ -254,6 +256,169 @@ describe('Database', () => {
     });
   });
 
+  describe('Schema migrations', () => {
+    it('should migrate a baseline database forward in order', async () => {
+      // Seeded version 1 database: no schema_version rows, original columns only
+      mockDb.execAsync.mockResolvedValue(undefined);
+      mockDb.runAsync.mockResolvedValue({ lastInsertRowId: 1, changes: 1 });
+      mockDb.getFirstAsync.mockResolvedValue({ version: null });
+      mockDb.getAllAsync.mockImplementation((sql: string) =>
+        Promise.resolve(
+          sql.includes('table_info(products)')
+            ? ['id', 'sku', 'name', 'price', 'cost', 'stock_qty', 'tax_rate'].map(name => ({ name }))
+            : []
+        )
+      );
+
+      await database.initialize();
+
+      const versions = mockDb.runAsync.mock.calls
+        .filter(([sql]) => sql.includes('INSERT INTO schema_version'))
+        .map(([, params]) => params[0]);
+      expect(versions).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19]);
+      expect(mockDb.execAsync).toHaveBeenCalledWith('ALTER TABLE sales ADD COLUMN transaction_id TEXT;');
+      expect(mockDb.execAsync).toHaveBeenCalledWith('ALTER TABLE products ADD COLUMN barcode TEXT;');
+      expect(mockDb.execAsync).not.toHaveBeenCalledWith('ALTER TABLE products ADD COLUMN sku TEXT;');
+      expect(mockDb.execAsync).toHaveBeenCalledWith('COMMIT');
+
+      mockDb.getAllAsync.mockReset();
+    });
+
+    it('should skip migrations already applied', async () => {
+      mockDb.execAsync.mockResolvedValue(undefined);
+      mockDb.getFirstAsync.mockResolvedValue({ version: LATEST_SCHEMA_VERSION });
+
+      await database.initialize();
+
+      expect(mockDb.execAsync).not.toHaveBeenCalledWith('BEGIN TRANSACTION');
+      expect(await database.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+    });
+
+    it('should roll back and fail initialization when a migration fails', async () => {
+      mockDb.execAsync.mockImplementation((sql: string) =>
+        sql.startsWith('ALTER TABLE sales') ? Promise.reject(new Error('disk full')) : Promise.resolve()
+      );
+      mockDb.getFirstAsync.mockResolvedValue({ version: 1 });
+      mockDb.getAllAsync.mockResolvedValue([]);
+
+      await expect(database.initialize()).rejects.toThrow(DatabaseError);
+      expect(mockDb.execAsync).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockDb.runAsync).not.toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO schema_version'),
+        expect.anything()
+      );
+
+      mockDb.execAsync.mockReset();
+    });
+  });
+
+  describe('Transaction ledger', () => {
+    beforeEach(async () => {
+      mockDb.execAsync.mockResolvedValue(undefined);
+      await database.initialize();
+    });
+
+    it('should save a transaction across sales, sale_items and payments', async () => {
+      const transaction: RetailTransaction = {
+        id: 'TXN_1',
+        businessDate: '2023-01-01',
+        startTime: '2023-01-01T12:00:00.000Z',
+        endTime: '2023-01-01T12:00:00.000Z',
+        timestamp: new Date('2023-01-01T12:00:00.000Z'),
+        status: 'completed',
+        operatorId: 'user-1',
+        items: [{
+          lineNumber: 1,
+          productId: 4,
+          sku: 'TEST001',
+          name: 'Test Product',
+          quantity: 2,
+          unitPrice: 10,
+          price: 10,
+          lineTotal: { net: 20, tax: 1.6, gross: 21.6 },
+        }],
+        tenders: [
+          { type: 'cash', amount: 25 },
+          { type: 'cash', amount: -3.4 },
+        ],
+        totals: { subTotal: 20, discountTotal: 0, taxTotal: 1.6, grandTotal: 21.6, currency: 'USD' },
+      };
+
+      mockDb.runAsync.mockResolvedValue({ lastInsertRowId: 7, changes: 1 });
+      mockDb.getFirstAsync.mockResolvedValue({
+        id: 7,
+        transaction_id: 'TXN_1',
+        timestamp: '2023-01-01T12:00:00.000Z',
+        total: 21.6,
+        tax_total: 1.6,
+        subtotal: 20,
+        discount_total: 0,
+        currency: 'USD',
+        status: 'completed',
+        operator_id: 'user-1',
+      });
+      mockDb.getAllAsync
+        .mockResolvedValueOnce([
+          { id: 1, sale_id: 7, product_id: 4, qty: 2, unit_price: 10, line_number: 1, sku: 'TEST001', name: 'Test Product', net_total: 20, tax_total: 1.6 },
+        ])
+        .mockResolvedValueOnce([
+          { id: 1, sale_id: 7, method: 'cash', amount: 25 },
+          { id: 2, sale_id: 7, method: 'cash', amount: -3.4 },
+        ]);
+
+      const result = await database.saveTransaction(transaction);
+
+      expect(mockDb.execAsync).toHaveBeenCalledWith('BEGIN TRANSACTION');
+      expect(mockDb.execAsync).toHaveBeenCalledWith('COMMIT');
+      expect(mockDb.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO sales'),
+        expect.arrayContaining(['TXN_1', 21.6, 1.6, 'completed', 'user-1'])
+      );
+      expect(mockDb.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO sale_items'),
+        expect.arrayContaining([7, 4, 2, 10, 'TEST001'])
+      );
+      expect(mockDb.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO payments'),
+        [7, 'cash', -3.4, null]
+      );
+      expect(result.id).toBe('TXN_1');
+      expect(result.sequence).toBe(7);
+      expect(result.items[0].lineTotal).toEqual({ net: 20, tax: 1.6, gross: 21.6 });
+      expect(result.tenders).toHaveLength(2);
+    });
+
+    it('should read legacy sale rows back as transactions', async () => {
+      mockDb.getAllAsync
+        .mockResolvedValueOnce([
+          { id: 3, timestamp: '2023-01-01 12:00:00', total: 16.2, tax_total: 1.2, status: 'cancelled' },
+        ])
+        .mockResolvedValueOnce([
+          { id: 5, sale_id: 3, product_id: 2, qty: 3, unit_price: 5 },
+        ])
+        .mockResolvedValueOnce([
+          { id: 6, sale_id: 3, method: 'card', amount: 16.2 },
+        ]);
+
+      const result = await database.getTransactions({ status: 'voided', limit: 10 });
+
+      expect(mockDb.getAllAsync).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE status = ?'),
+        ['cancelled', 10]
+      );
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({
+        id: 'SALE_3',
+        sequence: 3,
+        status: 'voided',
+        businessDate: '2023-01-01',
+        totals: { subTotal: 15, taxTotal: 1.2, grandTotal: 16.2, currency: 'USD' },
+      });
+      expect(result[0].timestamp.toISOString()).toBe('2023-01-01T12:00:00.000Z');
+      expect(result[0].tenders).toEqual([{ id: '6', type: 'card', amount: 16.2, reference: undefined }]);
+    });
+  });
+
   describe('Error handling', () => {
     it('should throw DatabaseError when database is not initialized', async () => {
       const uninitializedDb = Database.getInstance();
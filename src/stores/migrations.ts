@@ -0,0 +1,615 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { AuditLog, BuiltInRole, ROLE_PERMISSIONS } from '../types';
+import { AuditChainLink, linkAuditEntry } from './AuditChain';
+
+/**
+ * Ordered schema migrations shared by the SQLite and IndexedDB backends.
+ *
+ * Version 1 is the baseline schema built by `Database.createTables` and the
+ * initial `WebDatabase` object stores. Every later change gets the next
+ * version number here, with a forward step for each backend. Migrations are
+ * never edited once shipped; add a new one instead.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  /** Runs inside a SQLite transaction together with the schema_version insert */
+  sqlite: (db: SQLiteDatabase) => Promise<void>;
+  /** Runs inside the IndexedDB versionchange transaction */
+  indexedDb: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+export const BASELINE_SCHEMA_VERSION = 1;
+
+// audit_logs as stored before the hash chain columns were added
+interface AuditLogRow {
+  id: string;
+  user_id: string | null;
+  action: string;
+  resource: string;
+  details: string | null;
+  ip_address: string | null;
+  timestamp: string;
+}
+
+// Seeded into the roles table; their permissions come from ROLE_PERMISSIONS
+const BUILT_IN_ROLES: { id: BuiltInRole; name: string; description: string }[] = [
+  { id: 'admin', name: 'Admin', description: 'Full access to every feature' },
+  { id: 'manager', name: 'Manager', description: 'Runs the store and approves overrides' },
+  { id: 'cashier', name: 'Cashier', description: 'Rings up sales at the register' },
+];
+
+export const migrations: Migration[] = [
+  {
+    version: 2,
+    name: 'transaction_ledger',
+    sqlite: async (db) => {
+      await addMissingColumns(db, 'sales', {
+        transaction_id: 'TEXT',
+        business_date: 'TEXT',
+        subtotal: 'REAL',
+        discount_total: 'REAL DEFAULT 0',
+        currency: "TEXT DEFAULT 'USD'",
+        operator_id: 'TEXT',
+        customer_id: 'TEXT',
+        workstation_id: 'TEXT',
+        notes: 'TEXT',
+      });
+      await addMissingColumns(db, 'sale_items', {
+        line_number: 'INTEGER',
+        sku: 'TEXT',
+        name: 'TEXT',
+        discounts: 'TEXT',
+        taxes: 'TEXT',
+        net_total: 'REAL',
+        tax_total: 'REAL',
+      });
+      await db.execAsync(`
+        UPDATE sales SET transaction_id = 'SALE_' || id WHERE transaction_id IS NULL;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_transaction_id ON sales (transaction_id);
+      `);
+    },
+    indexedDb: (db, transaction) => {
+      const sales = transaction.objectStore('sales');
+      if (!sales.indexNames.contains('transaction_id')) {
+        sales.createIndex('transaction_id', 'transaction_id', { unique: true });
+      }
+
+      // Backfill ids for sales written before the ledger existed
+      const cursorRequest = sales.openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+          return;
+        }
+        if (!cursor.value.transaction_id) {
+          cursor.update({ ...cursor.value, transaction_id: `SALE_${cursor.value.id}` });
+        }
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 3,
+    name: 'product_catalog_fields',
+    sqlite: async (db) => {
+      await addMissingColumns(db, 'products', {
+        category: 'TEXT',
+        description: 'TEXT',
+        barcode: 'TEXT',
+      });
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_products_barcode ON products (barcode);
+        CREATE INDEX IF NOT EXISTS idx_products_category ON products (category);
+      `);
+    },
+    indexedDb: (db, transaction) => {
+      const products = transaction.objectStore('products');
+      if (!products.indexNames.contains('barcode')) {
+        products.createIndex('barcode', 'barcode');
+      }
+      if (!products.indexNames.contains('category')) {
+        products.createIndex('category', 'category');
+      }
+    },
+  },
+  {
+    version: 4,
+    name: 'sale_returns',
+    sqlite: async (db) => {
+      await addMissingColumns(db, 'sales', {
+        original_transaction_id: 'TEXT',
+      });
+      await addMissingColumns(db, 'sale_items', {
+        original_line_number: 'INTEGER',
+        disposition: 'TEXT',
+      });
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_sales_original_transaction_id ON sales (original_transaction_id);
+      `);
+    },
+    indexedDb: (db, transaction) => {
+      const sales = transaction.objectStore('sales');
+      if (!sales.indexNames.contains('original_transaction_id')) {
+        sales.createIndex('original_transaction_id', 'original_transaction_id');
+      }
+    },
+  },
+  {
+    version: 5,
+    name: 'held_cart_expiry',
+    sqlite: async (db) => {
+      await addMissingColumns(db, 'business_settings', {
+        held_cart_expiry_hours: 'INTEGER DEFAULT 24',
+      });
+    },
+    // business_settings is stored as a plain object; missing fields fall back to the default
+    indexedDb: () => {},
+  },
+  {
+    version: 6,
+    name: 'tax_engine',
+    sqlite: async (db) => {
+      await addMissingColumns(db, 'products', {
+        tax_class_id: 'TEXT',
+      });
+      await addMissingColumns(db, 'sales', {
+        tax_exemption_id: 'TEXT',
+        tax_inclusive: 'INTEGER DEFAULT 0',
+      });
+      await addMissingColumns(db, 'business_settings', {
+        prices_include_tax: 'INTEGER DEFAULT 0',
+        tax_rounding: "TEXT DEFAULT 'line'",
+        tax_classes: 'TEXT',
+      });
+    },
+    // Only new optional fields on existing stores
+    indexedDb: () => {},
+  },
+  {
+    version: 7,
+    name: 'cash_drawer_shifts',
+    sqlite: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS drawer_shifts (
+          id TEXT PRIMARY KEY,
+          status TEXT NOT NULL CHECK (status IN ('open', 'closed')),
+          user_id TEXT NOT NULL,
+          workstation_id TEXT,
+          opened_at DATETIME NOT NULL,
+          opening_float REAL NOT NULL,
+          opening_count TEXT,
+          closed_at DATETIME,
+          closed_by TEXT,
+          closing_count TEXT,
+          counted_cash REAL,
+          expected_cash REAL,
+          over_short REAL,
+          notes TEXT
+        );
+        CREATE TABLE IF NOT EXISTS drawer_events (
+          id TEXT PRIMARY KEY,
+          shift_id TEXT NOT NULL,
+          type TEXT NOT NULL CHECK (type IN ('paid_in', 'paid_out', 'no_sale')),
+          amount REAL NOT NULL DEFAULT 0,
+          reason TEXT,
+          user_id TEXT NOT NULL,
+          timestamp DATETIME NOT NULL,
+          FOREIGN KEY (shift_id) REFERENCES drawer_shifts (id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_drawer_shifts_status ON drawer_shifts (status);
+        CREATE INDEX IF NOT EXISTS idx_drawer_events_shift_id ON drawer_events (shift_id);
+      `);
+    },
+    indexedDb: (db) => {
+      if (!db.objectStoreNames.contains('drawer_shifts')) {
+        const shifts = db.createObjectStore('drawer_shifts', { keyPath: 'id' });
+        shifts.createIndex('status', 'status');
+      }
+      if (!db.objectStoreNames.contains('drawer_events')) {
+        const events = db.createObjectStore('drawer_events', { keyPath: 'id' });
+        events.createIndex('shiftId', 'shiftId');
+      }
+    },
+  },
+  {
+    version: 8,
+    name: 'password_hashing',
+    sqlite: async (db) => {
+      await addMissingColumns(db, 'user_passwords', {
+        must_change: 'INTEGER DEFAULT 0',
+      });
+      // The seeded admin still on its well-known plaintext password
+      await db.execAsync(`
+        UPDATE user_passwords SET must_change = 1
+        WHERE password_hash = 'admin123' AND salt = 'default-salt';
+      `);
+    },
+    // Plaintext passwords are re-hashed on the next login; the flag is a new optional field
+    indexedDb: () => {},
+  },
+  {
+    version: 9,
+    name: 'pin_login',
+    sqlite: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS user_pins (
+          user_id TEXT PRIMARY KEY,
+          pin_hash TEXT NOT NULL,
+          salt TEXT NOT NULL,
+          updated_at DATETIME NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+        );
+      `);
+      await addMissingColumns(db, 'business_settings', {
+        idle_lock_minutes: 'INTEGER DEFAULT 5',
+      });
+    },
+    indexedDb: (db) => {
+      if (!db.objectStoreNames.contains('user_pins')) {
+        db.createObjectStore('user_pins', { keyPath: 'userId' });
+      }
+    },
+  },
+  {
+    version: 10,
+    name: 'custom_roles',
+    sqlite: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS roles (
+          id TEXT PRIMARY KEY,
+          name TEXT UNIQUE NOT NULL,
+          description TEXT,
+          permissions TEXT NOT NULL,
+          is_system INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+      for (const role of BUILT_IN_ROLES) {
+        await db.runAsync(
+          `INSERT OR IGNORE INTO roles (id, name, description, permissions, is_system)
+           VALUES (?, ?, ?, ?, 1)`,
+          [role.id, role.name, role.description, JSON.stringify(ROLE_PERMISSIONS[role.id])]
+        );
+      }
+
+      // SQLite cannot drop a CHECK constraint, so rebuild users without the
+      // fixed role list. Foreign keys are never enabled on this connection, so
+      // dropping the old table leaves the rows that reference users alone.
+      const columns = (await db.getAllAsync<{ name: string }>('PRAGMA table_info(users)')) || [];
+      if (columns.some(column => column.name === 'permission_overrides')) {
+        return;
+      }
+      await db.execAsync(`
+        CREATE TABLE users_new (
+          id TEXT PRIMARY KEY,
+          username TEXT UNIQUE NOT NULL,
+          email TEXT UNIQUE NOT NULL,
+          first_name TEXT NOT NULL,
+          last_name TEXT NOT NULL,
+          role TEXT NOT NULL,
+          permission_overrides TEXT,
+          is_active INTEGER DEFAULT 1,
+          last_login DATETIME,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        INSERT INTO users_new (id, username, email, first_name, last_name, role, is_active, last_login, created_at, updated_at)
+          SELECT id, username, email, first_name, last_name, role, is_active, last_login, created_at, updated_at FROM users;
+        DROP TABLE users;
+        ALTER TABLE users_new RENAME TO users;
+      `);
+    },
+    indexedDb: (db, transaction) => {
+      if (!db.objectStoreNames.contains('roles')) {
+        db.createObjectStore('roles', { keyPath: 'id' });
+      }
+      const store = transaction.objectStore('roles');
+      const now = new Date();
+      for (const role of BUILT_IN_ROLES) {
+        store.put({
+          ...role,
+          permissions: ROLE_PERMISSIONS[role.id],
+          isSystem: true,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+    },
+  },
+  {
+    version: 11,
+    name: 'audit_chain',
+    sqlite: async (db) => {
+      await addMissingColumns(db, 'audit_logs', {
+        sequence: 'INTEGER',
+        previous_hash: 'TEXT',
+        hash: 'TEXT',
+      });
+
+      // Seal the entries written before the chain existed, oldest first
+      let last: AuditChainLink | null = await db.getFirstAsync<{ sequence: number; hash: string }>(
+        'SELECT sequence, hash FROM audit_logs WHERE sequence IS NOT NULL ORDER BY sequence DESC LIMIT 1'
+      );
+      const unsealed = (await db.getAllAsync<AuditLogRow>(
+        'SELECT * FROM audit_logs WHERE sequence IS NULL ORDER BY timestamp, id'
+      )) || [];
+      for (const row of unsealed) {
+        const entry: AuditLog = {
+          id: row.id,
+          userId: row.user_id ?? '',
+          action: row.action,
+          resource: row.resource,
+          details: row.details ? JSON.parse(row.details) : null,
+          ipAddress: row.ip_address ?? undefined,
+          timestamp: new Date(row.timestamp),
+        };
+        const link = linkAuditEntry(entry, last);
+        await db.runAsync(
+          'UPDATE audit_logs SET sequence = ?, previous_hash = ?, hash = ? WHERE id = ?',
+          [link.sequence, link.previousHash, link.hash, row.id]
+        );
+        last = link;
+      }
+
+      await db.execAsync(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_logs_sequence ON audit_logs (sequence);
+        CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs (timestamp);
+        CREATE INDEX IF NOT EXISTS idx_audit_logs_user ON audit_logs (user_id);
+        CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs (action);
+      `);
+    },
+    indexedDb: (_db, transaction) => {
+      const store = transaction.objectStore('audit_logs');
+      if (!store.indexNames.contains('sequence')) {
+        store.createIndex('sequence', 'sequence', { unique: true });
+      }
+      if (!store.indexNames.contains('action')) {
+        store.createIndex('action', 'action');
+      }
+
+      const request = store.getAll();
+      request.onsuccess = () => {
+        const logs = (request.result || []) as AuditLog[];
+        let last: AuditChainLink | null = logs
+          .filter(log => log.sequence !== undefined)
+          .sort((a, b) => (b.sequence ?? 0) - (a.sequence ?? 0))[0] || null;
+        const unsealed = logs
+          .filter(log => log.sequence === undefined)
+          .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime() || a.id.localeCompare(b.id));
+        for (const log of unsealed) {
+          const link = linkAuditEntry(log, last);
+          store.put({ ...log, ...link });
+          last = link;
+        }
+      };
+    },
+  },
+  {
+    version: 12,
+    name: 'login_throttling',
+    sqlite: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS login_attempts (
+          key TEXT PRIMARY KEY,
+          failures INTEGER NOT NULL DEFAULT 0,
+          last_failure_at DATETIME NOT NULL,
+          locked_until DATETIME,
+          locked_out INTEGER DEFAULT 0
+        );
+      `);
+      await addMissingColumns(db, 'business_settings', {
+        login_max_attempts: 'INTEGER DEFAULT 5',
+        login_device_max_attempts: 'INTEGER DEFAULT 20',
+        login_lockout_minutes: 'INTEGER DEFAULT 15',
+      });
+    },
+    indexedDb: (db) => {
+      if (!db.objectStoreNames.contains('login_attempts')) {
+        db.createObjectStore('login_attempts', { keyPath: 'key' });
+      }
+    },
+  },
+  {
+    version: 13,
+    name: 'password_resets',
+    sqlite: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS password_resets (
+          user_id TEXT PRIMARY KEY,
+          code_hash TEXT NOT NULL,
+          salt TEXT NOT NULL,
+          expires_at DATETIME NOT NULL,
+          created_by TEXT,
+          created_at DATETIME NOT NULL
+        );
+      `);
+    },
+    indexedDb: (db) => {
+      if (!db.objectStoreNames.contains('password_resets')) {
+        db.createObjectStore('password_resets', { keyPath: 'userId' });
+      }
+    },
+  },
+  {
+    version: 14,
+    name: 'user_totp',
+    sqlite: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS user_totp (
+          user_id TEXT PRIMARY KEY,
+          secret TEXT NOT NULL,
+          confirmed INTEGER DEFAULT 0,
+          recovery_codes TEXT,
+          last_used_step INTEGER,
+          created_at DATETIME NOT NULL,
+          confirmed_at DATETIME
+        );
+      `);
+    },
+    indexedDb: (db) => {
+      if (!db.objectStoreNames.contains('user_totp')) {
+        db.createObjectStore('user_totp', { keyPath: 'userId' });
+      }
+    },
+  },
+  {
+    version: 15,
+    name: 'session_devices',
+    sqlite: async (db) => {
+      await addMissingColumns(db, 'auth_sessions', {
+        device_id: 'TEXT',
+        device_name: 'TEXT',
+        last_seen_at: 'DATETIME',
+      });
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_auth_sessions_user_id ON auth_sessions (user_id);
+      `);
+    },
+    // The auth_sessions store already has a userId index
+    indexedDb: () => {},
+  },
+  {
+    version: 16,
+    name: 'customers',
+    sqlite: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS customers (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          email TEXT,
+          phone TEXT,
+          street TEXT,
+          city TEXT,
+          state TEXT,
+          zip_code TEXT,
+          country TEXT,
+          tax_exempt INTEGER DEFAULT 0,
+          tax_exemption_id TEXT,
+          notes TEXT,
+          created_at DATETIME NOT NULL,
+          updated_at DATETIME NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_customers_name ON customers (name);
+        CREATE INDEX IF NOT EXISTS idx_customers_phone ON customers (phone);
+        CREATE INDEX IF NOT EXISTS idx_customers_email ON customers (email);
+      `);
+    },
+    indexedDb: (db) => {
+      if (!db.objectStoreNames.contains('customers')) {
+        const customers = db.createObjectStore('customers', { keyPath: 'id' });
+        customers.createIndex('name', 'name');
+      }
+    },
+  },
+  {
+    version: 17,
+    name: 'loyalty',
+    sqlite: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS loyalty_ledger (
+          id TEXT PRIMARY KEY,
+          customer_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          points INTEGER NOT NULL,
+          balance INTEGER NOT NULL,
+          transaction_id TEXT,
+          reason TEXT,
+          user_id TEXT,
+          created_at DATETIME NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_customer ON loyalty_ledger (customer_id, created_at);
+      `);
+      await addMissingColumns(db, 'business_settings', {
+        loyalty_program: 'TEXT',
+      });
+    },
+    indexedDb: (db) => {
+      if (!db.objectStoreNames.contains('loyalty_ledger')) {
+        const ledger = db.createObjectStore('loyalty_ledger', { keyPath: 'id' });
+        ledger.createIndex('customerId', 'customerId');
+      }
+    },
+  },
+  {
+    version: 18,
+    name: 'gift_cards',
+    sqlite: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS gift_cards (
+          code TEXT PRIMARY KEY,
+          kind TEXT NOT NULL,
+          customer_id TEXT,
+          created_at DATETIME NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS gift_card_ledger (
+          id TEXT PRIMARY KEY,
+          code TEXT NOT NULL,
+          type TEXT NOT NULL,
+          amount REAL NOT NULL,
+          balance REAL NOT NULL,
+          transaction_id TEXT,
+          user_id TEXT,
+          created_at DATETIME NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_gift_card_ledger_code ON gift_card_ledger (code, created_at);
+      `);
+      await addMissingColumns(db, 'sale_items', {
+        gift_card_code: 'TEXT',
+      });
+    },
+    indexedDb: (db) => {
+      if (!db.objectStoreNames.contains('gift_cards')) {
+        db.createObjectStore('gift_cards', { keyPath: 'code' });
+      }
+      if (!db.objectStoreNames.contains('gift_card_ledger')) {
+        const ledger = db.createObjectStore('gift_card_ledger', { keyPath: 'id' });
+        ledger.createIndex('code', 'code');
+      }
+    },
+  },
+  {
+    version: 19,
+    name: 'customer_credit_limit',
+    sqlite: async (db) => {
+      await addMissingColumns(db, 'customers', {
+        credit_limit: 'REAL',
+      });
+    },
+    indexedDb: () => {},
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = migrations.reduce(
+  (latest, migration) => Math.max(latest, migration.version),
+  BASELINE_SCHEMA_VERSION
+);
+
+/**
+ * Migrations newer than `version`, in the order they must be applied
+ */
+export function getPendingMigrations(version: number): Migration[] {
+  return migrations
+    .filter(migration => migration.version > version)
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * `ALTER TABLE ... ADD COLUMN` for each column the table does not have yet, so a
+ * migration can be re-run safely against a partially upgraded database
+ */
+export async function addMissingColumns(
+  db: SQLiteDatabase,
+  table: string,
+  columns: Record<string, string>
+): Promise<void> {
+  const existing = (await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`)) || [];
+  const existingNames = new Set(existing.map(column => column.name));
+
+  for (const [name, definition] of Object.entries(columns)) {
+    if (!existingNames.has(name)) {
+      await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition};`);
+    }
+  }
+}
@@ -7,13 +7,26 @@ export interface User {
   firstName: string;
   lastName: string;
   role: UserRole;
+  permissionOverrides?: Partial<UserPermissions>; // per-user grants/denials on top of the role
   isActive: boolean;
   lastLogin?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export type UserRole = 'admin' | 'manager' | 'cashier';
+// Role id from the roles table; the built-in roles always exist
+export type UserRole = string;
+export type BuiltInRole = 'admin' | 'manager' | 'cashier';
+
+export interface Role {
+  id: UserRole;
+  name: string;
+  description?: string;
+  permissions: UserPermissions;
+  isSystem: boolean; // built-in roles cannot be deleted
+  createdAt: Date;
+  updatedAt: Date;
+}
 
 export interface UserPermissions {
   // POS Operations
@@ -43,6 +56,7 @@ export interface UserPermissions {
 export interface LoginCredentials {
   username: string;
   password: string;
+  totpCode?: string; // authenticator or recovery code, for accounts with two-factor on
 }
 
 export interface AuthSession {
@@ -50,6 +64,8 @@ export interface AuthSession {
   token: string;
   expiresAt: Date;
   permissions: UserPermissions;
+  mustChangePassword?: boolean;
+  mustEnrollTwoFactor?: boolean;
 }
 
 export interface CreateUserInput {
@@ -58,6 +74,7 @@ export interface CreateUserInput {
   firstName: string;
   lastName: string;
   role: UserRole;
+  permissionOverrides?: Partial<UserPermissions>;
 }
 
 export interface UpdateUserInput {
@@ -67,12 +84,14 @@ export interface UpdateUserInput {
   firstName?: string;
   lastName?: string;
   role?: UserRole;
+  permissionOverrides?: Partial<UserPermissions>;
   isActive?: boolean;
   lastLogin?: Date;
 }
 
 export interface PasswordResetRequest {
   email: string;
+  username?: string;
   resetToken?: string;
   newPassword?: string;
 }
@@ -85,10 +104,14 @@ export interface AuditLog {
   details?: any;
   ipAddress?: string;
   timestamp: Date;
+  // Hash chain; entries written before it was added are sealed by the migration
+  sequence?: number;
+  previousHash?: string;
+  hash?: string;
 }
 
-// Role-based permission defaults
-export const ROLE_PERMISSIONS: Record<UserRole, UserPermissions> = {
+// Permissions of the built-in roles; also the seed for their rows in the roles table
+export const ROLE_PERMISSIONS: Record<BuiltInRole, UserPermissions> = {
   admin: {
     // Full access to everything
     canProcessSales: true,
@@ -151,13 +174,25 @@ export interface AuthState {
   isLoading: boolean;
   user: User | null;
   permissions: UserPermissions | null;
+  mustChangePassword: boolean;
+  mustEnrollTwoFactor: boolean;
+  twoFactorRequired: boolean; // password accepted, waiting for an authenticator code
+  isLocked: boolean; // idle lock over the register; the session and cart are kept
   error: string | null;
 }
 
 // Authentication actions
 export type AuthAction =
   | { type: 'LOGIN_START' }
-  | { type: 'LOGIN_SUCCESS'; payload: { user: User; permissions: UserPermissions } }
+  | {
+      type: 'LOGIN_SUCCESS';
+      payload: { user: User; permissions: UserPermissions; mustChangePassword?: boolean; mustEnrollTwoFactor?: boolean };
+    }
+  | { type: 'TWO_FACTOR_REQUIRED' }
+  | { type: 'TWO_FACTOR_ENROLLED' }
+  | { type: 'PASSWORD_CHANGED' }
+  | { type: 'REGISTER_LOCKED' }
+  | { type: 'PERMISSIONS_UPDATED'; payload: { user: User; permissions: UserPermissions } }
   | { type: 'LOGIN_FAILURE'; payload: { error: string } }
   | { type: 'LOGOUT' }
   | { type: 'UPDATE_USER'; payload: { user: User } }
@@ -1,7 +1,10 @@
 // Document Types for Receipt and Invoice Generation
 
-export type DocumentType = 'receipt' | 'invoice' | 'refund_receipt';
-export type DocumentStatus = 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
+import { DrawerShiftSummary } from './pos';
+
+export type DocumentType = 'receipt' | 'invoice' | 'refund_receipt' | 'quote' | 'x_report' | 'z_report';
+// 'accepted' and 'expired' apply to quotes only
+export type DocumentStatus = 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled' | 'accepted' | 'expired';
 export type TemplateFormat = 'thermal' | 'standard' | 'email' | 'pdf';
 
 // Business Configuration
@@ -65,7 +68,7 @@ export interface DocumentLineItem {
 
 // Payment Information
 export interface PaymentInfo {
-  method: 'cash' | 'card' | 'digital' | 'check' | 'bank_transfer';
+  method: 'cash' | 'card' | 'digital' | 'check' | 'bank_transfer' | 'loyalty_points' | 'store_credit' | 'on_account';
   amount: number;
   reference?: string;
   cardLast4?: string;
@@ -109,6 +112,15 @@ export interface Receipt extends BaseDocument {
   printedAt?: Date;
   emailedAt?: Date;
   refundReason?: string; // for refund receipts
+  loyalty?: { // the customer's points on this sale, with the balance after it
+    earned: number;
+    redeemed: number;
+    balance: number;
+  };
+  giftCards?: { // gift cards and store credit on this sale, with their balances after it
+    code: string;
+    balance: number;
+  }[];
 }
 
 // Invoice Specific
@@ -131,6 +143,82 @@ export interface Invoice extends BaseDocument {
   // References
   poNumber?: string;
   referenceNumber?: string;
+
+  // Accounts receivable: set on invoices for sales charged to a customer's account
+  customerId?: string;
+  transactionId?: string;
+  payments?: InvoicePayment[];
+
+  quoteId?: string; // the accepted quote this invoice was raised from
+}
+
+// Quote / estimate. Sent quotes past their validity date read as expired.
+export interface Quote extends BaseDocument {
+  type: 'quote';
+  quoteDate: Date;
+  validUntil: Date;
+  customerId?: string;
+  sentAt?: Date;
+  acceptedAt?: Date;
+  // What the accepted quote became: an invoice, or a sale rung up at the register
+  convertedTo?: {
+    type: 'invoice' | 'sale';
+    id: string;
+    documentNumber?: string;
+  };
+}
+
+// Money received against an invoice; 'return' is credit from goods brought back
+export interface InvoicePayment {
+  id: string;
+  amount: number;
+  method: PaymentInfo['method'] | 'return';
+  reference?: string;
+  receivedAt: Date;
+  userId?: string;
+}
+
+// Open balances by days past due
+export interface AgingBuckets {
+  current: number; // not yet due
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+}
+
+// Open-item statement of a customer's account
+export interface CustomerStatement {
+  id: string;
+  documentNumber: string;
+  createdAt: Date;
+  businessInfo: BusinessInfo;
+  customerInfo: CustomerInfo;
+  invoices: {
+    documentNumber: string;
+    invoiceDate: Date;
+    dueDate: Date;
+    total: number;
+    paid: number;
+    balance: number;
+    daysOverdue: number;
+  }[];
+  aging: AgingBuckets;
+  balance: number;
+  creditLimit?: number;
+}
+
+// Cash drawer reports: X is a mid-shift read, Z closes the shift
+export interface ShiftReport {
+  id: string;
+  documentNumber: string;
+  type: 'x_report' | 'z_report';
+  createdAt: Date;
+  businessInfo: BusinessInfo;
+  shiftId: string;
+  cashier: { id: string; name: string }; // opened the shift
+  generatedBy: { id: string; name: string };
+  summary: DrawerShiftSummary;
 }
 
 // Template Configuration
@@ -271,7 +359,7 @@ export interface DocumentGenerationResult {
   success: boolean;
   documentId: string;
   documentUrl?: string;
-  pdfBuffer?: Buffer;
+  pdfBuffer?: Uint8Array; // PDF file bytes, for the pdf format
   error?: string;
 }
 
@@ -295,12 +383,15 @@ export interface DocumentSettings {
     invoicePrefix: string;
     receiptNextNumber: number;
     invoiceNextNumber: number;
+    quotePrefix?: string; // missing from settings saved before quotes
+    quoteNextNumber?: number;
     resetPeriod: 'never' | 'yearly' | 'monthly';
   };
   
   defaultTerms: {
     paymentDays: number;
     paymentTerms: string;
+    quoteValidDays?: number;
     returnPolicy: string;
     termsAndConditions: string;
   };
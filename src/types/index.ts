@@ -1,3 +1,14 @@
+import {
+  DrawerEvent,
+  DrawerShift,
+  DrawerShiftQuery,
+  RetailTransaction,
+  TaxClass,
+  TaxRoundingMode,
+  TenderType,
+  TransactionQuery,
+} from './pos';
+
 // Core database entity interfaces
 
 export interface Product {
@@ -8,8 +19,10 @@ export interface Product {
   cost: number;
   stock_qty: number;
   tax_rate: number;
+  tax_class_id?: string | null; // overrides tax_rate when set
   category?: string;
   description?: string;
+  barcode?: string;
 }
 
 export interface Sale {
@@ -17,7 +30,20 @@ export interface Sale {
   timestamp: string;
   total: number;
   tax_total: number;
-  status: 'pending' | 'completed' | 'cancelled';
+  status: 'pending' | 'completed' | 'cancelled' | 'returned';
+  // Ledger columns (see RetailTransaction in ./pos)
+  transaction_id?: string;
+  business_date?: string;
+  subtotal?: number;
+  discount_total?: number;
+  currency?: string;
+  operator_id?: string | null;
+  customer_id?: string | null;
+  workstation_id?: string | null;
+  notes?: string | null;
+  original_transaction_id?: string | null; // returns only
+  tax_exemption_id?: string | null;
+  tax_inclusive?: number | null; // 1 when prices included tax
 }
 
 export interface SaleItem {
@@ -26,16 +52,109 @@ export interface SaleItem {
   product_id: number;
   qty: number;
   unit_price: number;
+  // Ledger columns (see SaleLineItem in ./pos)
+  line_number?: number;
+  sku?: string | null;
+  name?: string | null;
+  discounts?: string | null; // JSON DiscountComponent[]
+  taxes?: string | null; // JSON TaxComponent[]
+  net_total?: number;
+  tax_total?: number;
+  original_line_number?: number | null; // returns only
+  disposition?: string | null; // returns only: ReturnDisposition
+  gift_card_code?: string | null;
 }
 
 export interface Payment {
   id: number;
   sale_id: number;
-  method: 'cash' | 'card' | 'digital';
+  method: TenderType;
   amount: number;
   reference?: string;
 }
 
+// Customers attached to sales at checkout
+export interface Customer {
+  id: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  address?: {
+    street?: string;
+    city?: string;
+    state?: string;
+    zipCode?: string;
+    country?: string;
+  };
+  taxExempt: boolean;
+  taxExemptionId?: string; // certificate number printed on exempt receipts
+  notes?: string;
+  creditLimit?: number; // approved to charge to account up to this balance
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CreateCustomerInput = Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type UpdateCustomerInput = Partial<CreateCustomerInput> & { id: string };
+
+// Loyalty program rules, kept in business settings
+export interface LoyaltyProgram {
+  enabled: boolean;
+  pointsPerUnit: number; // points earned per currency unit spent
+  categoryMultipliers?: Record<string, number>; // product category -> multiplier
+  bonusDays?: LoyaltyBonusDay[];
+  pointValue: number; // currency value of one point when redeemed
+  minRedeemPoints?: number;
+}
+
+// Extra points on a weekday (0 = Sunday) or a single date (YYYY-MM-DD)
+export interface LoyaltyBonusDay {
+  weekday?: number;
+  date?: string;
+  multiplier: number;
+}
+
+export type LoyaltyEntryType = 'earn' | 'redeem' | 'reverse' | 'adjust';
+
+// One change to a customer's points; `balance` is the running total after it
+export interface LoyaltyLedgerEntry {
+  id: string;
+  customerId: string;
+  type: LoyaltyEntryType;
+  points: number; // negative when points leave the balance
+  balance: number;
+  transactionId?: string;
+  reason?: string;
+  userId?: string;
+  createdAt: Date;
+}
+
+// Gift cards are sold at the register; store credit is issued on refunds.
+// Both are spent with the 'store_credit' tender, referenced by code.
+export type GiftCardKind = 'gift_card' | 'store_credit';
+
+export interface GiftCard {
+  code: string; // printed on the card and encoded in its barcode
+  kind: GiftCardKind;
+  customerId?: string;
+  createdAt: Date;
+}
+
+export type GiftCardEntryType = 'issue' | 'reload' | 'redeem' | 'refund' | 'reverse';
+
+// One change to a card's balance; `balance` is the running total after it
+export interface GiftCardEntry {
+  id: string;
+  code: string;
+  type: GiftCardEntryType;
+  amount: number; // negative when value leaves the card
+  balance: number;
+  transactionId?: string;
+  userId?: string;
+  createdAt: Date;
+}
+
 // Authentication and user management types
 export interface User {
   id: string;
@@ -44,13 +163,26 @@ export interface User {
   firstName: string;
   lastName: string;
   role: UserRole;
+  permissionOverrides?: Partial<UserPermissions>; // per-user grants/denials on top of the role
   isActive: boolean;
   lastLogin?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export type UserRole = 'admin' | 'manager' | 'cashier';
+// Role id from the roles table; the built-in roles always exist
+export type UserRole = string;
+export type BuiltInRole = 'admin' | 'manager' | 'cashier';
+
+export interface Role {
+  id: UserRole;
+  name: string;
+  description?: string;
+  permissions: UserPermissions;
+  isSystem: boolean; // built-in roles cannot be deleted
+  createdAt: Date;
+  updatedAt: Date;
+}
 
 export interface UserPermissions {
   // POS Operations
@@ -80,6 +212,7 @@ export interface UserPermissions {
 export interface LoginCredentials {
   username: string;
   password: string;
+  totpCode?: string; // authenticator or recovery code, for accounts with two-factor on
 }
 
 export interface AuthSession {
@@ -87,6 +220,19 @@ export interface AuthSession {
   token: string;
   expiresAt: Date;
   permissions: UserPermissions;
+  mustChangePassword?: boolean;
+  mustEnrollTwoFactor?: boolean;
+}
+
+// A signed-in device as listed to users and admins; the token is never exposed
+export interface AuthSessionRecord {
+  id: string;
+  userId: string;
+  deviceId?: string;
+  deviceName?: string;
+  expiresAt: Date;
+  createdAt: Date;
+  lastSeenAt?: Date;
 }
 
 export interface CreateUserInput {
@@ -95,6 +241,7 @@ export interface CreateUserInput {
   firstName: string;
   lastName: string;
   role: UserRole;
+  permissionOverrides?: Partial<UserPermissions>;
 }
 
 export interface UpdateUserInput {
@@ -104,12 +251,59 @@ export interface UpdateUserInput {
   firstName?: string;
   lastName?: string;
   role?: UserRole;
+  permissionOverrides?: Partial<UserPermissions>;
   isActive?: boolean;
   lastLogin?: Date;
 }
 
+// Stored credential; passwordHash is a PBKDF2 hash, or plaintext from before hashing
+export interface UserPasswordRecord {
+  passwordHash: string;
+  salt: string;
+  mustChange?: boolean; // a new password has to be chosen at next login
+}
+
+// Failed login counter for one username ('user:<name>') or this device ('device:<id>')
+export interface LoginAttemptRecord {
+  key: string;
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil?: Date;
+  lockedOut: boolean; // past the threshold, not just backing off
+}
+
+// Quick-login PIN for the register, hashed like a password
+export interface UserPinRecord {
+  userId: string;
+  pinHash: string;
+  salt: string;
+}
+
+// TOTP enrollment; unconfirmed until the user enters a first code from their app
+export interface UserTotpRecord {
+  userId: string;
+  secret: string; // base32
+  confirmed: boolean;
+  recoveryCodeHashes: string[];
+  lastUsedStep?: number; // codes for this time step or earlier are refused
+  createdAt: Date;
+  confirmedAt?: Date;
+}
+
+// One-time reset code issued by an admin, hashed like a password; one per user
+export interface PasswordResetCode {
+  userId: string;
+  codeHash: string;
+  salt: string;
+  expiresAt: Date;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+// Redeem a reset code: the user is found by username, or by email
 export interface PasswordResetRequest {
   email: string;
+  username?: string;
   resetToken?: string;
   newPassword?: string;
 }
@@ -122,10 +316,43 @@ export interface AuditLog {
   details?: any;
   ipAddress?: string;
   timestamp: Date;
+  // Hash chain; entries written before it was added are sealed by the migration
+  sequence?: number;
+  previousHash?: string;
+  hash?: string;
+}
+
+export interface AuditLogQuery {
+  userId?: string;
+  action?: string;
+  resource?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number; // page size, default 50
+  offset?: number;
+}
+
+export interface AuditLogPage {
+  entries: AuditLog[]; // newest first
+  total: number;
+}
+
+export interface AuditChainIssue {
+  sequence: number;
+  entryId?: string;
+  problem: 'modified' | 'broken_link' | 'missing' | 'duplicate' | 'unsealed';
 }
 
-// Role-based permission defaults
-export const ROLE_PERMISSIONS: Record<UserRole, UserPermissions> = {
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  lastSequence: number;
+  issues: AuditChainIssue[];
+  verifiedAt: Date;
+}
+
+// Permissions of the built-in roles; also the seed for their rows in the roles table
+export const ROLE_PERMISSIONS: Record<BuiltInRole, UserPermissions> = {
   admin: {
     // Full access to everything
     canProcessSales: true,
@@ -208,6 +435,10 @@ export interface CreateProductInput {
   cost: number;
   stock_qty?: number;
   tax_rate?: number;
+  tax_class_id?: string | null;
+  category?: string;
+  description?: string;
+  barcode?: string;
 }
 
 export interface UpdateProductInput {
@@ -218,12 +449,16 @@ export interface UpdateProductInput {
   cost?: number;
   stock_qty?: number;
   tax_rate?: number;
+  tax_class_id?: string | null;
+  category?: string;
+  description?: string;
+  barcode?: string;
 }
 
 export interface CreateSaleInput {
   total: number;
   tax_total: number;
-  status?: 'pending' | 'completed' | 'cancelled';
+  status?: Sale['status'];
 }
 
 export interface CreateSaleItemInput {
@@ -235,7 +470,7 @@ export interface CreateSaleItemInput {
 
 export interface CreatePaymentInput {
   sale_id: number;
-  method: 'cash' | 'card' | 'digital';
+  method: TenderType;
   amount: number;
   reference?: string;
 }
@@ -305,6 +540,7 @@ export interface DatabaseService {
   // Database management
   initialize(): Promise<void>;
   isInitialized(): boolean;
+  getSchemaVersion(): Promise<number>;
   getStats(): Promise<{
     totalProducts: number;
     totalSales: number;
@@ -348,6 +584,39 @@ export interface DatabaseService {
   updatePayment(id: number, amount: number, reference?: string): Promise<Payment>;
   deletePayment(id: number): Promise<boolean>;
 
+  // Transaction ledger: RetailTransactions stored across sales, sale_items and payments
+  saveTransaction(transaction: RetailTransaction): Promise<RetailTransaction>;
+  getTransaction(id: string): Promise<RetailTransaction | null>;
+  getTransactions(query?: TransactionQuery): Promise<RetailTransaction[]>;
+  updateTransactionStatus(id: string, status: RetailTransaction['status']): Promise<RetailTransaction>;
+
+  // Cash drawer shifts and their paid-in / paid-out / no-sale events
+  saveDrawerShift(shift: DrawerShift): Promise<DrawerShift>;
+  getDrawerShift(id: string): Promise<DrawerShift | null>;
+  getDrawerShifts(query?: DrawerShiftQuery): Promise<DrawerShift[]>;
+  saveDrawerEvent(event: DrawerEvent): Promise<DrawerEvent>;
+  getDrawerEvents(shiftId: string): Promise<DrawerEvent[]>;
+
+  // Customers
+  createCustomer(input: CreateCustomerInput): Promise<Customer>;
+  getCustomer(id: string): Promise<Customer | null>;
+  // Name, email or phone contains `query`; all customers when empty, by name
+  searchCustomers(query: string, limit?: number): Promise<Customer[]>;
+  updateCustomer(input: UpdateCustomerInput): Promise<Customer>;
+
+  // Loyalty points ledger
+  saveLoyaltyEntry(entry: LoyaltyLedgerEntry): Promise<LoyaltyLedgerEntry>;
+  // Newest first, so the first entry carries the current balance
+  getLoyaltyEntries(customerId: string): Promise<LoyaltyLedgerEntry[]>;
+
+  // Gift cards, store credit and their balance ledger
+  saveGiftCard(card: GiftCard): Promise<GiftCard>;
+  getGiftCard(code: string): Promise<GiftCard | null>;
+  getGiftCards(): Promise<GiftCard[]>;
+  saveGiftCardEntry(entry: GiftCardEntry): Promise<GiftCardEntry>;
+  // Newest first; every card's entries when `code` is omitted
+  getGiftCardEntries(code?: string): Promise<GiftCardEntry[]>;
+
   // User management operations
   createUser(input: CreateUserInput): Promise<User>;
   getUser(id: string): Promise<User | null>;
@@ -357,11 +626,39 @@ export interface DatabaseService {
   deleteUser(id: string): Promise<boolean>;
 
   // Password management
-  saveUserPassword(userId: string, passwordHash: string, salt: string): Promise<void>;
-  getUserPassword(userId: string): Promise<{ passwordHash: string; salt: string } | null>;
+  saveUserPassword(userId: string, passwordHash: string, salt: string, mustChange?: boolean): Promise<void>;
+  getUserPassword(userId: string): Promise<UserPasswordRecord | null>;
+  saveUserPin(userId: string, pinHash: string, salt: string): Promise<void>;
+  getUserPin(userId: string): Promise<UserPinRecord | null>;
+  getUserPins(): Promise<UserPinRecord[]>;
+  deleteUserPin(userId: string): Promise<void>;
+
+  // Login throttling
+  getLoginAttempt(key: string): Promise<LoginAttemptRecord | null>;
+  getLoginAttempts(): Promise<LoginAttemptRecord[]>;
+  saveLoginAttempt(record: LoginAttemptRecord): Promise<void>;
+  deleteLoginAttempt(key: string): Promise<void>;
+  savePasswordResetCode(code: PasswordResetCode): Promise<void>;
+  getPasswordResetCode(userId: string): Promise<PasswordResetCode | null>;
+  deletePasswordResetCode(userId: string): Promise<void>;
+  getUserTotp(userId: string): Promise<UserTotpRecord | null>;
+  saveUserTotp(record: UserTotpRecord): Promise<void>;
+  deleteUserTotp(userId: string): Promise<void>;
+
+  // Roles
+  getRoles(): Promise<Role[]>;
+  getRole(id: string): Promise<Role | null>;
+  saveRole(role: Role): Promise<Role>;
+  deleteRole(id: string): Promise<boolean>;
 
   // Session management
-  saveAuthSession(sessionId: string, userId: string, token: string, expiresAt: Date): Promise<void>;
+  saveAuthSession(
+    sessionId: string,
+    userId: string,
+    token: string,
+    expiresAt: Date,
+    device?: { deviceId: string; deviceName: string }
+  ): Promise<void>;
   getAuthSession(token: string): Promise<{
     id: string;
     userId: string;
@@ -370,11 +667,21 @@ export interface DatabaseService {
     createdAt: Date;
   } | null>;
   deleteAuthSession(token: string): Promise<boolean>;
+  deleteAuthSessionById(sessionId: string): Promise<boolean>;
+  // Every session of the user except the one with `exceptToken`
+  deleteUserAuthSessions(userId: string, exceptToken?: string): Promise<number>;
+  // Unexpired sessions of one user, most recently used first
+  getUserAuthSessions(userId: string): Promise<AuthSessionRecord[]>;
+  // Slide the expiry forward and record activity; false if the session is gone
+  renewAuthSession(token: string, expiresAt: Date): Promise<boolean>;
+  // Unexpired sessions per user id
+  getActiveSessionCounts(): Promise<Record<string, number>>;
   cleanExpiredSessions(): Promise<number>;
 
   // Audit logging
   logAuditEvent(userId: string | null, action: string, resource: string, details?: any, ipAddress?: string): Promise<void>;
   getAuditLogs(): Promise<AuditLog[]>;
+  queryAuditLogs(query: AuditLogQuery): Promise<AuditLogPage>;
 
   // Business settings and user profile
   getBusinessSettings(): Promise<BusinessSettings | null>;
@@ -429,6 +736,15 @@ export interface BusinessSettings {
   taxRate: number;
   timezone: string;
   language: string;
+  heldCartExpiryHours?: number; // parked carts are discarded after this long
+  idleLockMinutes?: number; // lock the register after this long without input; 0 disables
+  loginMaxAttempts?: number; // failed logins for one username before it is locked; 0 disables
+  loginDeviceMaxAttempts?: number; // failed logins on this device, any username, before it is locked
+  loginLockoutMinutes?: number;
+  pricesIncludeTax?: boolean; // VAT/GST style shelf prices
+  taxRounding?: TaxRoundingMode;
+  taxClasses?: TaxClass[];
+  loyaltyProgram?: LoyaltyProgram;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -459,6 +775,15 @@ export interface UpdateBusinessSettingsInput {
   taxRate?: number;
   timezone?: string;
   language?: string;
+  heldCartExpiryHours?: number;
+  idleLockMinutes?: number;
+  loginMaxAttempts?: number;
+  loginDeviceMaxAttempts?: number;
+  loginLockoutMinutes?: number;
+  pricesIncludeTax?: boolean;
+  taxRounding?: TaxRoundingMode;
+  taxClasses?: TaxClass[];
+  loyaltyProgram?: LoyaltyProgram;
 }
 
 export interface UpdateUserProfileInput {
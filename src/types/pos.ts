@@ -15,7 +15,9 @@ export type TenderType =
   | 'cash'
   | 'card'
   | 'digital' // wallets (UPI, Apple Pay, etc.)
-  | 'store_credit'
+  | 'store_credit' // gift card or store credit; `reference` is the card code
+  | 'loyalty_points' // customer's points, at the program's point value
+  | 'on_account' // charged to the customer's account and invoiced
   | 'other';
 
 export interface TaxComponent {
@@ -25,11 +27,32 @@ export interface TaxComponent {
   amount: number; // tax monetary amount
 }
 
+// Named set of taxes charged together, e.g. "Standard" = state 6% + city 2%
+export interface TaxClass {
+  id: string;
+  name: string;
+  components: Omit<TaxComponent, 'amount'>[];
+}
+
+// Round each line's taxes, or only the invoice totals
+export type TaxRoundingMode = 'line' | 'invoice';
+
+// Customer exempt from tax on a single sale
+export interface TaxExemption {
+  exemptionId: string; // certificate or registration number
+  customerId?: string;
+  customerName?: string;
+}
+
 export interface DiscountComponent {
   id?: string;
   type: 'amount' | 'percent';
-  value: number; // amount or percent value
+  value: number; // amount or percent value (10 = 10%)
   reason?: string;
+  amount?: number; // monetary amount actually taken off, set when priced
+  scope?: 'line' | 'cart'; // cart discounts are spread across lines when priced
+  approvedBy?: string; // user id of the manager who approved an override
+  approvalId?: string; // the single-use manager approval this discount was granted with
 }
 
 // RetailTradeItemLineItem (simplified)
@@ -50,8 +73,15 @@ export interface SaleLineItem {
     tax: number; // total taxes for the line
     gross: number; // net + tax
   };
+  // Return lines only
+  originalLineNumber?: number; // line on the original sale being returned
+  disposition?: ReturnDisposition;
+  giftCardCode?: string; // gift card sold or reloaded on this line; not a stocked product
 }
 
+// What happens to returned goods
+export type ReturnDisposition = 'restock' | 'write_off';
+
 // TenderLineItem (simplified)
 export interface TenderLineItem {
   id?: string;
@@ -61,11 +91,12 @@ export interface TenderLineItem {
 }
 
 export interface TransactionTotals {
-  subTotal: number; // sum of line net
+  subTotal: number; // sum of line extended amounts (quantity x unit price), before discounts
   discountTotal: number; // total across all discounts (header + lines)
   taxTotal: number; // sum of all tax components
   grandTotal: number; // payable amount (subTotal - discounts + tax)
   currency: CurrencyCode;
+  taxInclusive?: boolean; // unit prices already included tax, so grandTotal = subTotal - discounts
 }
 
 // RetailTransaction (header)
@@ -84,6 +115,8 @@ export interface RetailTransaction {
   tenders: TenderLineItem[];
   totals: TransactionTotals;
   notes?: string;
+  originalTransactionId?: string; // set on returns: the sale being refunded
+  taxExemptionId?: string; // set when the customer was exempt from tax
 }
 
 // Standard CartItem type for UI state management
@@ -96,6 +129,93 @@ export interface CartItem {
   quantity: number;
   unitPrice?: number; // alias for price
   description?: string; // alias for name
+  discounts?: DiscountComponent[]; // line-level discounts
+  taxRate?: number; // product rate, used when there is no tax class
+  taxClassId?: string;
+  giftCardCode?: string; // see SaleLineItem
+}
+
+// A cart parked by a cashier so the next customer can be served
+export interface HeldCart {
+  id: string;
+  number: number; // shown to cashiers as "Cart 1", "Cart 2", ...
+  label?: string; // optional name, e.g. the customer's
+  note?: string;
+  operatorId?: string;
+  operatorName?: string;
+  heldAt: string; // ISO 8601
+  expiresAt: string; // ISO 8601; dropped from the list after this
+  items: CartItem[];
+  headerDiscounts?: DiscountComponent[];
+}
+
+export interface HoldCartOptions {
+  label?: string;
+  note?: string;
+  headerDiscounts?: DiscountComponent[];
+}
+
+// Cash put into or taken out of the drawer outside of a sale, or the drawer
+// opened without one
+export type DrawerEventType = 'paid_in' | 'paid_out' | 'no_sale';
+
+export interface DrawerEvent {
+  id: string;
+  shiftId: string;
+  type: DrawerEventType;
+  amount: number; // always positive; 0 for no-sale
+  reason?: string;
+  userId: string;
+  timestamp: string; // ISO 8601
+}
+
+// Notes and coins counted, keyed by face value: { '20': 3, '0.25': 8 }
+export type DenominationCount = Record<string, number>;
+
+// One cashier session on the drawer, from the counted float to the closing count
+export interface DrawerShift {
+  id: string;
+  status: 'open' | 'closed';
+  userId: string; // opened the shift
+  workstationId?: string;
+  openedAt: string; // ISO 8601
+  openingFloat: number;
+  openingCount?: DenominationCount;
+  closedAt?: string; // ISO 8601
+  closedBy?: string; // user id
+  closingCount?: DenominationCount;
+  countedCash?: number;
+  expectedCash?: number;
+  overShort?: number; // counted - expected; negative when the drawer is short
+  notes?: string;
+}
+
+// Filter for reading drawer shifts
+export interface DrawerShiftQuery {
+  status?: DrawerShift['status'];
+  userId?: string;
+  limit?: number;
+}
+
+// Totals for a shift, as printed on X and Z reports
+export interface DrawerShiftSummary {
+  shift: DrawerShift;
+  events: DrawerEvent[];
+  saleCount: number;
+  returnCount: number;
+  grossSales: number; // completed sales, tax included
+  refunds: number; // returns, as a positive amount
+  discountTotal: number;
+  taxTotal: number;
+  tenders: Partial<Record<TenderType, { count: number; amount: number }>>; // net of change and refunds
+  cashSales: number; // cash tendered less change and cash refunds
+  paidIn: number;
+  paidOut: number;
+  noSaleCount: number;
+  expectedCash: number; // float + cash sales + paid in - paid out
+  countedCash?: number;
+  overShort?: number;
+  generatedAt: string; // ISO 8601
 }
 
 // Helper: minimal cart item used in UI state (legacy compatibility)
@@ -105,6 +225,8 @@ export interface CartItemInput {
   unitPrice: number;
   sku?: string;
   description?: string;
+  taxRate?: number;
+  taxClassId?: string;
 }
 
 // Standard POS State interface
@@ -161,6 +283,16 @@ export interface ReceiptData {
   };
 }
 
+// Filter for reading RetailTransactions back out of the sales ledger
+export interface TransactionQuery {
+  startDate?: Date;
+  endDate?: Date;
+  status?: RetailTransaction['status'];
+  operatorId?: string;
+  originalTransactionId?: string; // returns recorded against a sale
+  limit?: number;
+}
+
 export interface BuildTransactionInput {
   items: CartItemInput[];
   headerDiscounts?: DiscountComponent[];
@@ -168,17 +300,36 @@ export interface BuildTransactionInput {
   currency?: CurrencyCode;
 }
 
+// Optional inputs to POSService.processTransaction
+export interface ProcessTransactionOptions {
+  headerDiscounts?: DiscountComponent[]; // cart-level discounts
+  taxExemption?: TaxExemption;
+  customerId?: string; // customer attached at checkout
+  quoteId?: string; // accepted quote the cart was loaded from
+}
+
 // Standard POS Service interface
 export interface POSService {
   addToCart(cart: CartItem[], product: any, quantity?: number): CartItem[];
   removeFromCart(cart: CartItem[], itemId: string | number): CartItem[];
   updateCartQuantity(cart: CartItem[], itemId: string | number, quantity: number): CartItem[];
-  calculateCartTotals(cart: CartItem[], taxRate?: number): {
+  calculateCartTotals(
+    cart: CartItem[],
+    headerDiscounts?: DiscountComponent[],
+    taxExemption?: TaxExemption
+  ): {
     subtotal: number;
+    discountTotal: number;
     tax: number;
+    taxes: TaxComponent[];
+    pricesIncludeTax: boolean;
     total: number;
     itemCount: number;
   };
-  processTransaction(cart: CartItem[], paymentMethod: TenderType, amount: number): Promise<RetailTransaction>;
+  processTransaction(
+    cart: CartItem[],
+    tenders: TenderLineItem[],
+    options?: ProcessTransactionOptions
+  ): Promise<RetailTransaction>;
   generateReceipt(transaction: RetailTransaction): ReceiptData;
 }
@@ -0,0 +1,56 @@
+import {
+  hashPassword,
+  needsRehash,
+  pbkdf2Sha256,
+  sha256,
+  toHex,
+  utf8Encode,
+  verifyPassword,
+} from '../password';
+
+describe('password hashing', () => {
+  it('matches the SHA-256 test vectors', () => {
+    expect(toHex(sha256(utf8Encode('')))).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+    expect(toHex(sha256(utf8Encode('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')))).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    );
+  });
+
+  it('matches the PBKDF2-HMAC-SHA256 test vectors', () => {
+    const password = utf8Encode('password');
+    const salt = utf8Encode('salt');
+
+    expect(toHex(pbkdf2Sha256(password, salt, 1, 32))).toBe(
+      '120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b'
+    );
+    expect(toHex(pbkdf2Sha256(password, salt, 4096, 32))).toBe(
+      'c5e478d59288c841aa530db6845c4c8d962893a001ce4e11a4963873aa98134a'
+    );
+    expect(
+      toHex(pbkdf2Sha256(utf8Encode('passwordPASSWORDpassword'), utf8Encode('saltSALTsaltSALTsaltSALTsaltSALTsalt'), 4096, 40))
+    ).toBe('348c89dbcbd32b2f32d814b8116e84cf2b17347ebc1800181c4e2a1fb8dd53e1c635518c7dac47e9');
+  });
+
+  it('salts each hash and verifies the original password only', () => {
+    const first = hashPassword('s3cret-pässword', 1000);
+    const second = hashPassword('s3cret-pässword', 1000);
+
+    expect(first.passwordHash).toMatch(/^pbkdf2_sha256\$1000\$[0-9a-f]{64}$/);
+    expect(first.salt).not.toBe(second.salt);
+    expect(first.passwordHash).not.toBe(second.passwordHash);
+    expect(verifyPassword('s3cret-pässword', first)).toBe(true);
+    expect(verifyPassword('s3cret-password', first)).toBe(false);
+  });
+
+  it('verifies legacy plaintext passwords and flags them for rehashing', () => {
+    const legacy = { passwordHash: 'admin123', salt: 'default-salt' };
+
+    expect(verifyPassword('admin123', legacy)).toBe(true);
+    expect(verifyPassword('admin1234', legacy)).toBe(false);
+    expect(needsRehash(legacy.passwordHash)).toBe(true);
+    expect(needsRehash(hashPassword('x', 1000).passwordHash)).toBe(true);
+    expect(needsRehash(hashPassword('x').passwordHash)).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { decodeBase64, parseImage, PdfPageSetup, PdfWriter } from '../pdf';
+
+const setup = (overrides: Partial<PdfPageSetup> = {}): PdfPageSetup => ({
+  width: 612,
+  height: 792,
+  margin: { top: 50, right: 40, bottom: 60, left: 30 },
+  fontSize: { header: 20, body: 10, footer: 8 },
+  ...overrides,
+});
+
+const asText = (bytes: Uint8Array): string => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+// A PNG container around an IHDR; the writer passes IDAT through without inflating it
+const png = (colorType: number): Uint8Array => {
+  const chunk = (type: string, data: number[]) => [
+    0, 0, 0, data.length, ...Array.from(type, char => char.charCodeAt(0)), ...data, 0, 0, 0, 0,
+  ];
+  return new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...chunk('IHDR', [0, 0, 0, 3, 0, 0, 0, 2, 8, colorType, 0, 0, 0]),
+    ...chunk('IDAT', [0x78, 0x9c, 1, 2, 3]),
+    ...chunk('IEND', []),
+  ]);
+};
+
+describe('PdfWriter', () => {
+  it('writes a well-formed file with a valid cross-reference table', () => {
+    const pdf = new PdfWriter(setup({ title: 'Receipt R-1' }));
+    pdf.text('Hello');
+    const output = asText(pdf.toBytes());
+
+    expect(output.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(output.endsWith('%%EOF\n')).toBe(true);
+    expect(output).toContain('/Title (Receipt R-1)');
+
+    const startxref = Number(output.match(/startxref\n(\d+)/)![1]);
+    expect(output.slice(startxref, startxref + 4)).toBe('xref');
+    const offsets = output.slice(startxref).match(/^\d{10} 00000 n $/gm)!.map(entry => parseInt(entry, 10));
+    offsets.forEach((offset, idx) => {
+      expect(output.startsWith(`${idx + 1} 0 obj\n`, offset)).toBe(true);
+    });
+    expect(output).toContain(`/Size ${offsets.length + 1}`);
+  });
+
+  it('lays text out inside the margins and escapes it', () => {
+    const pdf = new PdfWriter(setup());
+    pdf.text('Café (decaf) \\ “best”');
+    pdf.pair('Total', '$12.50', { bold: true });
+    const output = asText(pdf.toBytes());
+
+    // First line starts at the left margin, below the top margin
+    const [, x, y] = output.match(/BT \/F1 10 Tf 0 0 0 rg ([\d.]+) ([\d.]+) Td \(Caf\\351 \\\(decaf\\\) \\\\ \\223best\\224\) Tj ET/)!;
+    expect(Number(x)).toBe(30);
+    expect(792 - Number(y)).toBeGreaterThan(50);
+    expect(792 - Number(y)).toBeLessThan(50 + 13);
+
+    // The value ends at the right margin
+    const [, valueX] = output.match(/BT \/F2 10 Tf 0 0 0 rg ([\d.]+) [\d.]+ Td \(\$12\.50\) Tj ET/)!;
+    const valueWidth = (556 * 5 + 278) / 100; // $, 1, 2, 5, 0 and the period
+    expect(Number(valueX) + valueWidth).toBeCloseTo(612 - 40, 1);
+  });
+
+  it('breaks pages, repeats table headers and numbers the pages', () => {
+    const pdf = new PdfWriter(setup());
+    pdf.table(
+      [{ header: 'Description', width: 3 }, { header: 'Amount', width: 1, align: 'right' }],
+      Array.from({ length: 60 }, (_, idx) => [`Item ${idx + 1}`, `$${idx + 1}.00`]),
+      { headerColor: '#27ae60', headerTextColor: '#ffffff' }
+    );
+    const output = asText(pdf.toBytes());
+
+    expect(pdf.pageCount).toBe(2);
+    expect(output).toContain('/Count 2');
+    expect(output.match(/\(Description\) Tj/g)).toHaveLength(2);
+    expect(output).toContain('(Page 2 of 2) Tj');
+    expect(output).toContain('0.153 0.682 0.376 rg');
+  });
+
+  it('sizes a roll-paper page to its content', () => {
+    const pdf = new PdfWriter(setup({ width: 226, height: undefined, margin: { top: 10, right: 10, bottom: 10, left: 10 } }));
+    for (let idx = 0; idx < 100; idx++) {
+      pdf.text(`Line ${idx}`);
+    }
+    const output = asText(pdf.toBytes());
+
+    expect(pdf.pageCount).toBe(1);
+    // 100 lines of 10pt at 1.3 line height, plus both margins
+    expect(output).toContain('/MediaBox [0 0 226 1320]');
+  });
+
+  it('embeds JPEG and PNG images', () => {
+    const jpeg = new Uint8Array([
+      0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+      0xff, 0xc0, 0x00, 0x0b, 0x08, 0x00, 0x20, 0x00, 0x40, 0x03, 0x01, 0x11, 0x00,
+      0xff, 0xd9,
+    ]);
+    const photo = parseImage(jpeg)!;
+    expect(photo).toMatchObject({ width: 64, height: 32, filter: 'DCTDecode', colorSpace: '/DeviceRGB' });
+    expect(parseImage(png(2))).toMatchObject({ width: 3, height: 2, filter: 'FlateDecode', colorSpace: '/DeviceRGB' });
+    expect(parseImage(png(6))).toBeNull();
+    expect(parseImage(new Uint8Array([1, 2, 3]))).toBeNull();
+
+    const pdf = new PdfWriter(setup());
+    pdf.image(photo, { height: 40, align: 'center' });
+    pdf.image(parseImage(png(0))!, { height: 20 });
+    const output = asText(pdf.toBytes());
+
+    expect(output).toContain('/Width 64 /Height 32 /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode');
+    expect(output).toContain('/DecodeParms << /Predictor 15 /Colors 1 /BitsPerComponent 8 /Columns 3 >>');
+    expect(output).toContain('/XObject << /Im0 6 0 R /Im1 7 0 R >>');
+    // 80pt wide, centred between the margins, top edge at the top margin
+    expect(output).toContain('q 80 0 0 40 261 702 cm /Im0 Do Q');
+  });
+
+  it('decodes base64 data URIs', () => {
+    expect(Array.from(decodeBase64('/9j/4A=='))).toEqual([0xff, 0xd8, 0xff, 0xe0]);
+    expect(asText(decodeBase64('SGVs\nbG8='))).toBe('Hello');
+  });
+});
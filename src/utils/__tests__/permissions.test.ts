@@ -0,0 +1,21 @@
+import { ROLE_PERMISSIONS } from '../../types';
+import { canAccessRoute, getHomeRoute, NO_PERMISSIONS } from '../permissions';
+
+describe('route permissions', () => {
+  it('blocks routes the user lacks the permission for', () => {
+    const cashier = ROLE_PERMISSIONS.cashier;
+
+    expect(canAccessRoute('pos', cashier)).toBe(true);
+    expect(canAccessRoute('dashboard', cashier)).toBe(false);
+    expect(canAccessRoute('sales-history', cashier)).toBe(false);
+    expect(canAccessRoute('(tabs)', cashier)).toBe(true);
+    expect(canAccessRoute('profile', null)).toBe(true);
+    expect(canAccessRoute('inventory', null)).toBe(false);
+  });
+
+  it('lands on the first tab the user may open', () => {
+    expect(getHomeRoute(ROLE_PERMISSIONS.cashier)).toBe('pos');
+    expect(getHomeRoute({ ...NO_PERMISSIONS, canViewReports: true })).toBe('dashboard');
+    expect(getHomeRoute(NO_PERMISSIONS)).toBe('profile');
+  });
+});
@@ -0,0 +1,110 @@
+import { encodeQrCode, QrMatrix } from '../qrCode';
+import { buildTotpUri } from '../totp';
+
+// Level M with mask 6 (ISO/IEC 18004 table C.1) and version 7 (table D.1)
+const FORMAT_M_MASK_6 = 0b100111110010111;
+const VERSION_7 = 0b000111110010010100;
+
+// Format bits 0–14 around the top-left finder, as [x, y]
+const FORMAT_CELLS = [
+  [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8],
+  [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8],
+];
+
+const readFormat = (matrix: QrMatrix): number =>
+  FORMAT_CELLS.reduce((bits, [x, y], i) => bits | (matrix[y][x] ? 1 << i : 0), 0);
+
+// The copy split between the bottom-left and top-right finders
+const readFormatCopy = (matrix: QrMatrix): number => {
+  const size = matrix.length;
+  let bits = 0;
+  for (let i = 0; i < 8; i++) {
+    bits |= matrix[8][size - 1 - i] ? 1 << i : 0;
+  }
+  for (let i = 8; i < 15; i++) {
+    bits |= matrix[size - 15 + i][8] ? 1 << i : 0;
+  }
+  return bits;
+};
+
+// Version bits 0–17 in the block above the bottom-left finder
+const readVersion = (matrix: QrMatrix): number => {
+  let bits = 0;
+  for (let i = 0; i < 18; i++) {
+    bits |= matrix[matrix.length - 11 + (i % 3)][Math.floor(i / 3)] ? 1 << i : 0;
+  }
+  return bits;
+};
+
+describe('encodeQrCode', () => {
+  const uri = buildTotpUri('JBSWY3DPEHPK3PXP', 'ana', 'Corner Shop');
+
+  it('picks the version, level M format and version information for an otpauth URI', () => {
+    const matrix = encodeQrCode(uri);
+
+    // 113 bytes is past version 6's 106 at level M
+    expect(uri).toHaveLength(113);
+    expect(matrix).toHaveLength(45);
+    expect(matrix.every(row => row.length === 45)).toBe(true);
+    expect(readFormat(matrix)).toBe(FORMAT_M_MASK_6);
+    expect(readFormatCopy(matrix)).toBe(FORMAT_M_MASK_6);
+    expect(readVersion(matrix)).toBe(VERSION_7);
+  });
+
+  it('draws the same modules as a reference encoder', () => {
+    // Byte mode, level M, mask 6, from an independent implementation
+    const expected = [
+    '#######.###.##...#..###.#.#.#####...#.#######',
+    '#.....#.###...#..#.#.#####.....###.#..#.....#',
+    '#.###.#.##.#..##.##...#.##.##.#.##.#..#.###.#',
+    '#.###.#..#####.####..##.##.###.##..##.#.###.#',
+    '#.###.#.#.....#...#.#####.##..###.###.#.###.#',
+    '#.....#..#.##.#..##.#...###.#.##.#....#.....#',
+    '#######.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#######',
+    '.........####..######...#.#.#.#.###.#........',
+    '#..######.###.....#######...##.......#..#.###',
+    '##.###.###.#...#.##.#...###..##.#.#######.##.',
+    '#.#.###.###...#.#.#.#....#..##..####.#....###',
+    '#.##....###.#.##..######.#.#.###.##.......###',
+    '......#####..#...###......####..#.##....##...',
+    '#.####.#.##.######........##.###.#.##.##.##..',
+    '##....#..##.####....#.####.....#.....###.###.',
+    '.#...#.#.#....#..##.#.#..#...#.#.##.#.#.#####',
+    '.#....#.###.#..#..###..##.#....##..#.#...#..#',
+    '#..#.....#..#.###..##.#..#....#..#####.######',
+    '.##...###.####...###...###..###.#..#.#....#.#',
+    '..##...##....#.###.###.#.###.###.##...###.#..',
+    '.##.######.#.##..#########..##....#######..#.',
+    '.##.#...##.###....#.#...#.#.###.#.###...###..',
+    '#.###.#.###.#..#....#.#.#.#...#.#.#.#.#.#####',
+    '.#.##...###.#.####..#...#....#.###.##...#.##.',
+    '#.#.########..#.#...######..#####..######..##',
+    '..##.#.####.##.##.#...#..##.####.#.....#.#.#.',
+    '#####.###..##..#.#######.####..#....#........',
+    '##..#....##.###.##.#..#.#..#....####...#.####',
+    '#....###.#.........#...#..##..####.####.##..#',
+    '.##..#.########...#..#####..#.#.#.#.#..##.#..',
+    '#.#..##.##.....#..##..#.#.#.##.#...#..#.#.#.#',
+    '..#......#..######.##...#.#.#.#....#.#...####',
+    '....###.#..#..#...##..###.####...#.....#.#.##',
+    '.#.#.#.....#.#....##....###.####..##########.',
+    '....#.##......#.###.#.#....#.#.#.###.###.#.##',
+    '.####.....##.######.....###.##.####.#.###.###',
+    '#..##.#..###..#..#..######..#.#.##.#######.##',
+    '........#..##.##.##.#...#..##.##....#...#.###',
+    '#######.#.#.#.#...###.#.##.###...#..#.#.#.#..',
+    '#.....#.#......###.##...####.#.#.##.#...####.',
+    '#.###.#.##..#..#.##.#######.....##..######..#',
+    '#.###.#.##...#####...#.....#..##.##..###.####',
+    '#.###.#..#....#.##.#.##.........##..#..##.#.#',
+    '#.....#..#.#.###.###..#.###.##.######.#.#.###',
+    '#######.####....#.#..#####..##....#...####...',
+    ];
+
+    expect(encodeQrCode(uri, 6).map(row => row.map(dark => (dark ? '#' : '.')).join(''))).toEqual(expected);
+  });
+
+  it('rejects text too long for version 10', () => {
+    expect(() => encodeQrCode('x'.repeat(214))).toThrow('Text is too long for a QR code');
+  });
+});
@@ -0,0 +1,64 @@
+import { utf8Encode } from '../password';
+import { base32Decode, base32Encode, generateTotp, hotp, totpStep, verifyTotp } from '../totp';
+
+// The RFC 6238 SHA-1 seed, "12345678901234567890"
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+const at = (seconds: number): Date => new Date(seconds * 1000);
+
+describe('TOTP', () => {
+  it('round-trips base32', () => {
+    expect(base32Encode(utf8Encode('12345678901234567890'))).toBe(SECRET);
+    expect(base32Decode(SECRET)).toEqual(utf8Encode('12345678901234567890'));
+    expect(() => base32Decode('GEZ1')).toThrow('Invalid base32 character');
+  });
+
+  it('matches the RFC 4226 HOTP test values', () => {
+    const key = base32Decode(SECRET);
+    const expected = [
+      '755224', '287082', '359152', '969429', '338314',
+      '254676', '287922', '162583', '399871', '520489',
+    ];
+
+    expect(expected.map((_, counter) => hotp(key, counter))).toEqual(expected);
+  });
+
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(SECRET, at(59))).toBe('287082');
+    expect(generateTotp(SECRET, at(1111111109))).toBe('081804');
+    expect(generateTotp(SECRET, at(1111111111))).toBe('050471');
+    expect(generateTotp(SECRET, at(1234567890))).toBe('005924');
+    expect(generateTotp(SECRET, at(2000000000))).toBe('279037');
+    expect(generateTotp(SECRET, at(20000000000))).toBe('353130');
+  });
+
+  it('accepts codes one time step either side of now', () => {
+    const now = at(1234567890);
+    const step = totpStep(now);
+    const code = (offset: number) => hotp(base32Decode(SECRET), step + offset);
+
+    expect(verifyTotp(SECRET, code(0), -1, now)).toBe(step);
+    expect(verifyTotp(SECRET, code(-1), -1, now)).toBe(step - 1);
+    expect(verifyTotp(SECRET, code(1), -1, now)).toBe(step + 1);
+    expect(verifyTotp(SECRET, code(-2), -1, now)).toBeNull();
+    expect(verifyTotp(SECRET, code(2), -1, now)).toBeNull();
+  });
+
+  it('refuses a code that was already used', () => {
+    const now = at(1234567890);
+    const step = verifyTotp(SECRET, '005924', -1, now);
+
+    expect(step).toBe(totpStep(now));
+    expect(verifyTotp(SECRET, '005924', step!, now)).toBeNull();
+    expect(verifyTotp(SECRET, hotp(base32Decode(SECRET), step! - 1), step!, now)).toBeNull();
+    expect(verifyTotp(SECRET, hotp(base32Decode(SECRET), step! + 1), step!, now)).toBe(step! + 1);
+  });
+
+  it('rejects malformed codes', () => {
+    const now = at(1234567890);
+
+    expect(verifyTotp(SECRET, '005 924', -1, now)).toBe(totpStep(now));
+    expect(verifyTotp(SECRET, '05924', -1, now)).toBeNull();
+    expect(verifyTotp(SECRET, '00592a', -1, now)).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import { BusinessSettings, LoginAttemptRecord } from '../types';
+
+export interface LoginThrottlePolicy {
+  // Failures before a username is locked out; 0 disables the lockout
+  maxAttempts: number;
+  // Failures from this device, across all usernames, before it is locked out
+  deviceMaxAttempts: number;
+  lockoutMinutes: number;
+}
+
+export const DEFAULT_LOGIN_THROTTLE: LoginThrottlePolicy = {
+  maxAttempts: 5,
+  deviceMaxAttempts: 20,
+  lockoutMinutes: 15,
+};
+
+// Failures allowed before backoff starts, so a mistyped password costs nothing
+export const FREE_LOGIN_ATTEMPTS = 2;
+
+const BASE_BACKOFF_MS = 1000;
+
+export function getLoginThrottlePolicy(settings?: BusinessSettings | null): LoginThrottlePolicy {
+  return {
+    maxAttempts: settings?.loginMaxAttempts ?? DEFAULT_LOGIN_THROTTLE.maxAttempts,
+    deviceMaxAttempts: settings?.loginDeviceMaxAttempts ?? DEFAULT_LOGIN_THROTTLE.deviceMaxAttempts,
+    lockoutMinutes: settings?.loginLockoutMinutes ?? DEFAULT_LOGIN_THROTTLE.lockoutMinutes,
+  };
+}
+
+export const userAttemptKey = (username: string): string => `user:${username.trim().toLowerCase()}`;
+
+export const deviceAttemptKey = (deviceId: string): string => `device:${deviceId}`;
+
+export function isLockedOut(record: LoginAttemptRecord | null, now: Date = new Date()): boolean {
+  return !!record?.lockedOut && !!record.lockedUntil && new Date(record.lockedUntil).getTime() > now.getTime();
+}
+
+/**
+ * How long until the next attempt is allowed, in milliseconds: the rest of a
+ * lockout, or an exponential backoff after the free attempts are used up
+ */
+export function getRetryDelay(
+  record: LoginAttemptRecord | null,
+  policy: LoginThrottlePolicy,
+  now: Date = new Date()
+): number {
+  if (!record) {
+    return 0;
+  }
+  if (record.lockedOut) {
+    return isLockedOut(record, now) ? new Date(record.lockedUntil!).getTime() - now.getTime() : 0;
+  }
+  if (record.failures <= FREE_LOGIN_ATTEMPTS) {
+    return 0;
+  }
+
+  const backoff = Math.min(
+    BASE_BACKOFF_MS * 2 ** (record.failures - FREE_LOGIN_ATTEMPTS - 1),
+    policy.lockoutMinutes * 60 * 1000
+  );
+  return Math.max(0, new Date(record.lastFailureAt).getTime() + backoff - now.getTime());
+}
+
+/**
+ * The record after one more failure. The count starts over once a lockout
+ * has expired or the last failure is older than the lockout window.
+ */
+export function recordLoginFailure(
+  key: string,
+  record: LoginAttemptRecord | null,
+  maxAttempts: number,
+  lockoutMinutes: number,
+  now: Date = new Date()
+): LoginAttemptRecord {
+  const windowMs = lockoutMinutes * 60 * 1000;
+  const stale = !record
+    || (record.lockedOut && !isLockedOut(record, now))
+    || now.getTime() - new Date(record.lastFailureAt).getTime() > windowMs;
+  const failures = (stale ? 0 : record!.failures) + 1;
+  const lockedOut = maxAttempts > 0 && failures >= maxAttempts;
+
+  return {
+    key,
+    failures,
+    lastFailureAt: now,
+    lockedUntil: lockedOut ? new Date(now.getTime() + windowMs) : undefined,
+    lockedOut,
+  };
+}
+
+export function formatRetryDelay(delayMs: number): string {
+  const seconds = Math.ceil(delayMs / 1000);
+  if (seconds >= 60) {
+    const minutes = Math.ceil(seconds / 60);
+    return `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+  return `Too many failed attempts. Please wait ${seconds} second${seconds === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,272 @@
+/**
+ * Password hashing with PBKDF2-HMAC-SHA256, in plain TypeScript so it runs
+ * the same under Hermes, the web build and Jest without native modules.
+ *
+ * Hashes are stored as `pbkdf2_sha256$<iterations>$<hex digest>` with the
+ * random salt (hex) kept alongside in `user_passwords.salt`. Anything not in
+ * that format is a legacy plaintext password from before hashing existed.
+ */
+
+const HASH_PREFIX = 'pbkdf2_sha256';
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+// Pure JS on a phone is far slower than native code; raise this as devices allow.
+// Older hashes are upgraded on the next successful login (see needsRehash).
+export const PBKDF2_ITERATIONS = 20000;
+
+export interface PasswordHash {
+  passwordHash: string;
+  salt: string;
+}
+
+// prettier-ignore
+const K = new Int32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const IV = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+// One SHA-256 compression of a 16-word block into `state`; `w` is scratch space
+function compress(state: Int32Array, block: Int32Array, w: Int32Array): void {
+  for (let i = 0; i < 16; i++) {
+    w[i] = block[i];
+  }
+  for (let i = 16; i < 64; i++) {
+    const x = w[i - 15];
+    const y = w[i - 2];
+    const s0 = ((x >>> 7) | (x << 25)) ^ ((x >>> 18) | (x << 14)) ^ (x >>> 3);
+    const s1 = ((y >>> 17) | (y << 15)) ^ ((y >>> 19) | (y << 13)) ^ (y >>> 10);
+    w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+  }
+
+  let a = state[0], b = state[1], c = state[2], d = state[3];
+  let e = state[4], f = state[5], g = state[6], h = state[7];
+
+  for (let i = 0; i < 64; i++) {
+    const s1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+    const t1 = (h + s1 + ((e & f) ^ (~e & g)) + K[i] + w[i]) | 0;
+    const s0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+    const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+    h = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+
+  state[0] = (state[0] + a) | 0;
+  state[1] = (state[1] + b) | 0;
+  state[2] = (state[2] + c) | 0;
+  state[3] = (state[3] + d) | 0;
+  state[4] = (state[4] + e) | 0;
+  state[5] = (state[5] + f) | 0;
+  state[6] = (state[6] + g) | 0;
+  state[7] = (state[7] + h) | 0;
+}
+
+/**
+ * Finish a SHA-256 digest of `message`, starting from a state that has
+ * already absorbed `prefixBytes` bytes (a multiple of 64)
+ */
+function digestFrom(initial: ArrayLike<number>, prefixBytes: number, message: Uint8Array): Int32Array {
+  const state = Int32Array.from(initial);
+  const w = new Int32Array(64);
+  const block = new Int32Array(16);
+
+  const totalBits = (prefixBytes + message.length) * 8;
+  const padded = new Uint8Array(Math.ceil((message.length + 9) / 64) * 64);
+  padded.set(message);
+  padded[message.length] = 0x80;
+  // Lengths here stay far below 2^32 bits, so the high word is always zero
+  const end = padded.length;
+  padded[end - 4] = totalBits >>> 24;
+  padded[end - 3] = totalBits >>> 16;
+  padded[end - 2] = totalBits >>> 8;
+  padded[end - 1] = totalBits;
+
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      block[i] = (padded[j] << 24) | (padded[j + 1] << 16) | (padded[j + 2] << 8) | padded[j + 3];
+    }
+    compress(state, block, w);
+  }
+
+  return state;
+}
+
+const wordsToBytes = (words: Int32Array): Uint8Array => {
+  const bytes = new Uint8Array(words.length * 4);
+  words.forEach((word, i) => {
+    bytes[i * 4] = word >>> 24;
+    bytes[i * 4 + 1] = word >>> 16;
+    bytes[i * 4 + 2] = word >>> 8;
+    bytes[i * 4 + 3] = word;
+  });
+  return bytes;
+};
+
+export function sha256(message: Uint8Array): Uint8Array {
+  return wordsToBytes(digestFrom(IV, 0, message));
+}
+
+/**
+ * PBKDF2 with HMAC-SHA256 (RFC 8018). The HMAC pads are absorbed once, so each
+ * iteration costs two compressions.
+ */
+export function pbkdf2Sha256(
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  keyLength: number
+): Uint8Array {
+  const key = new Uint8Array(64);
+  key.set(password.length > 64 ? sha256(password) : password);
+
+  // States after absorbing the 64-byte ipad / opad blocks
+  const scratch = new Int32Array(64);
+  const absorbPad = (value: number) => {
+    const block = new Int32Array(16);
+    for (let i = 0; i < 16; i++) {
+      block[i] =
+        ((key[i * 4] ^ value) << 24) |
+        ((key[i * 4 + 1] ^ value) << 16) |
+        ((key[i * 4 + 2] ^ value) << 8) |
+        (key[i * 4 + 3] ^ value);
+    }
+    const state = Int32Array.from(IV);
+    compress(state, block, scratch);
+    return state;
+  };
+  const innerState = absorbPad(0x36);
+  const outerState = absorbPad(0x5c);
+
+  const output = new Uint8Array(keyLength);
+  const blocks = Math.ceil(keyLength / 32);
+
+  // Fixed single block for HMAC over a 32-byte message after the 64-byte pad
+  const message = new Int32Array(16);
+  message[8] = 0x80000000 | 0;
+  message[15] = (64 + 32) * 8;
+  const state = new Int32Array(8);
+
+  for (let index = 1; index <= blocks; index++) {
+    const saltBlock = new Uint8Array(salt.length + 4);
+    saltBlock.set(salt);
+    saltBlock[salt.length] = index >>> 24;
+    saltBlock[salt.length + 1] = index >>> 16;
+    saltBlock[salt.length + 2] = index >>> 8;
+    saltBlock[salt.length + 3] = index;
+
+    // U1 = HMAC(password, salt || INT(index))
+    const inner = digestFrom(innerState, 64, saltBlock);
+    let u = digestFrom(outerState, 64, wordsToBytes(inner));
+    const result = Int32Array.from(u);
+
+    for (let i = 1; i < iterations; i++) {
+      message.set(u);
+      state.set(innerState);
+      compress(state, message, scratch);
+      message.set(state);
+      state.set(outerState);
+      compress(state, message, scratch);
+      u = state;
+      for (let j = 0; j < 8; j++) {
+        result[j] ^= state[j];
+      }
+    }
+
+    const bytes = wordsToBytes(result);
+    output.set(bytes.subarray(0, Math.min(32, keyLength - (index - 1) * 32)), (index - 1) * 32);
+  }
+
+  return output;
+}
+
+export function utf8Encode(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+export const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const fromHex = (hex: string): Uint8Array =>
+  new Uint8Array((hex.match(/.{2}/g) || []).map(pair => parseInt(pair, 16)));
+
+// crypto.getRandomValues is polyfilled on native by react-native-get-random-values
+export function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  globalThis.crypto.getRandomValues(bytes);
+  return bytes;
+}
+
+// Compare without returning early, so timing does not reveal the matching prefix
+export function constantTimeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
+
+export function hashPassword(password: string, iterations: number = PBKDF2_ITERATIONS): PasswordHash {
+  const salt = randomBytes(SALT_BYTES);
+  const digest = pbkdf2Sha256(utf8Encode(password), salt, iterations, KEY_BYTES);
+  return {
+    passwordHash: `${HASH_PREFIX}$${iterations}$${toHex(digest)}`,
+    salt: toHex(salt),
+  };
+}
+
+// Stored value predates hashing and is the password itself
+export const isLegacyPassword = (passwordHash: string): boolean => !passwordHash.startsWith(`${HASH_PREFIX}$`);
+
+export function verifyPassword(password: string, stored: PasswordHash): boolean {
+  if (isLegacyPassword(stored.passwordHash)) {
+    return constantTimeEqual(password, stored.passwordHash);
+  }
+
+  const [, iterations, expected] = stored.passwordHash.split('$');
+  const digest = pbkdf2Sha256(utf8Encode(password), fromHex(stored.salt), parseInt(iterations, 10), KEY_BYTES);
+  return constantTimeEqual(toHex(digest), expected);
+}
+
+/**
+ * Whether a verified password should be hashed again: legacy plaintext, or
+ * fewer iterations than the current setting
+ */
+export function needsRehash(passwordHash: string): boolean {
+  if (isLegacyPassword(passwordHash)) {
+    return true;
+  }
+  return parseInt(passwordHash.split('$')[1], 10) < PBKDF2_ITERATIONS;
+}
@@ -0,0 +1,57 @@
+import { randomBytes } from './password';
+
+export const PASSWORD_POLICY = {
+  minLength: 8,
+  requireLetter: true,
+  requireNumber: true,
+};
+
+// Shown under new-password fields
+export const PASSWORD_POLICY_HINT =
+  `At least ${PASSWORD_POLICY.minLength} characters, with a letter and a number`;
+
+/**
+ * Why `password` does not meet the policy, or null if it does. The username
+ * is passed so it can't be used as (part of) the password.
+ */
+export function getPasswordPolicyError(password: string, username?: string): string | null {
+  if (password.length < PASSWORD_POLICY.minLength) {
+    return `Password must be at least ${PASSWORD_POLICY.minLength} characters long`;
+  }
+  if (PASSWORD_POLICY.requireLetter && !/[a-zA-Z]/.test(password)) {
+    return 'Password must contain a letter';
+  }
+  if (PASSWORD_POLICY.requireNumber && !/\d/.test(password)) {
+    return 'Password must contain a number';
+  }
+  if (username && username.length >= 3 && password.toLowerCase().includes(username.toLowerCase())) {
+    return 'Password must not contain your username';
+  }
+  return null;
+}
+
+// No 0/O or 1/l/I, so codes can be read out over the phone
+const LETTERS = 'abcdefghjkmnpqrstuvwxyz';
+const DIGITS = '23456789';
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const randomChars = (alphabet: string, length: number): string =>
+  Array.from(randomBytes(length), byte => alphabet[byte % alphabet.length]).join('');
+
+/**
+ * A one-time password an admin hands to a user, e.g. "kfmq-7hxt"; it always
+ * meets the policy
+ */
+export function generateTemporaryPassword(): string {
+  const body = randomChars(LETTERS + DIGITS, 6);
+  return `${randomChars(LETTERS, 1)}${body.slice(0, 3)}-${body.slice(3)}${randomChars(DIGITS, 1)}`;
+}
+
+// An 8-character reset code such as "K7QM-2XPD"
+export function generateResetCode(): string {
+  const code = randomChars(CODE_ALPHABET, 8);
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+// Codes are compared without the dash and case-insensitively
+export const normalizeResetCode = (code: string): string => code.replace(/[\s-]/g, '').toUpperCase();
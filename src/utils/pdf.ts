@@ -0,0 +1,709 @@
+/**
+ * Minimal PDF 1.4 writer for receipts, invoices and reports: Helvetica text
+ * in WinAnsi encoding, rules, filled boxes, tables and JPEG/PNG images, laid
+ * out top to bottom with page breaks. Plain TypeScript so it runs under
+ * Hermes without native modules; content streams are left uncompressed.
+ */
+
+export interface PdfPageSetup {
+  width: number; // points (1/72 inch)
+  height?: number; // omit for roll paper: a single page as tall as its content
+  margin: {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+  };
+  fontSize: {
+    header: number;
+    body: number;
+    footer: number;
+  };
+  lineHeight?: number; // multiple of the font size
+  sectionSpacing?: number; // points added by space()
+  title?: string;
+}
+
+export type PdfAlign = 'left' | 'center' | 'right';
+
+export interface PdfTextStyle {
+  size?: number; // defaults to the body size
+  bold?: boolean;
+  color?: string; // #rrggbb
+  align?: PdfAlign;
+}
+
+export interface PdfTextLine extends PdfTextStyle {
+  text: string;
+}
+
+export interface PdfTableColumn {
+  header: string;
+  width: number; // share of the table width, relative to the other columns
+  align?: PdfAlign;
+}
+
+// A cell is its text, or its text with a style; '\n' starts a new line
+export type PdfTableCell = string | ({ text: string } & Omit<PdfTextStyle, 'align'>);
+
+export interface PdfImage {
+  width: number; // pixels
+  height: number;
+  filter: 'DCTDecode' | 'FlateDecode';
+  colorSpace: string; // PDF color space expression
+  bitsPerComponent: number;
+  decodeParms?: string;
+  data: Uint8Array;
+}
+
+type PdfOp =
+  | { kind: 'text'; x: number; baseline: number; text: string; size: number; bold: boolean; color: string }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; color: string; thickness: number }
+  | { kind: 'box'; x: number; y: number; width: number; height: number; color: string }
+  | { kind: 'image'; index: number; x: number; y: number; width: number; height: number };
+
+// Standard 14 font metrics (Adobe AFM), in 1/1000 em for character codes 32–126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+// Punctuation above 127 whose width is far from the 556 default
+const EXTENDED_WIDTHS: Record<number, number> = {
+  0x85: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x95: 350, 0x97: 1000, 0xa0: 278, 0xb7: 278,
+};
+// Unicode characters WinAnsiEncoding places in 0x80–0x9F; Latin-1 maps to itself
+const WIN_ANSI: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87,
+  0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91,
+  0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98,
+  0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b, 0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f,
+};
+// Helvetica ascent and descent, as a share of the font size
+const ASCENT = 0.718;
+const DESCENT = 0.207;
+const CELL_PADDING = 4;
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export function decodeBase64(value: string): Uint8Array {
+  const clean = value.replace(/[^A-Za-z0-9+/]/g, '');
+  const output = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let length = 0;
+  for (const char of clean) {
+    buffer = ((buffer << 6) | BASE64_ALPHABET.indexOf(char)) & 0xffffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      output[length++] = (buffer >>> bits) & 0xff;
+    }
+  }
+  return output.subarray(0, length);
+}
+
+// Text as WinAnsi character codes in a binary string; anything else prints as '?'
+function toWinAnsi(value: string): string {
+  let output = '';
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (code === 0x09) {
+      output += ' ';
+    } else if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+      output += char;
+    } else if (WIN_ANSI[code]) {
+      output += String.fromCharCode(WIN_ANSI[code]);
+    } else {
+      output += '?';
+    }
+  }
+  return output;
+}
+
+function measure(text: string, size: number, bold: boolean): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : EXTENDED_WIDTHS[code] ?? 556;
+  }
+  return (total * size) / 1000;
+}
+
+// Greedy word wrap of WinAnsi text; words wider than the line are split
+function wrap(text: string, size: number, bold: boolean, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measure(candidate, size, bold) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) {
+        lines.push(line);
+      }
+      line = '';
+      for (const char of word) {
+        if (line && measure(line + char, size, bold) > width) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+const formatNumber = (value: number): string => `${Math.round(value * 100) / 100}`;
+
+function formatColor(color: string): string {
+  let hex = color.replace('#', '');
+  if (hex.length === 3) {
+    hex = hex.split('').map(digit => digit + digit).join('');
+  }
+  const value = /^[0-9a-fA-F]{6}$/.test(hex) ? parseInt(hex, 16) : 0;
+  return [16, 8, 0].map(shift => `${Math.round((((value >> shift) & 0xff) / 255) * 1000) / 1000}`).join(' ');
+}
+
+function escapeString(text: string): string {
+  let output = '';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      output += `\\${text[i]}`;
+    } else if (code < 0x20 || code > 0x7e) {
+      output += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      output += text[i];
+    }
+  }
+  return `(${output})`;
+}
+
+const JPEG_COLOR_SPACES: Record<number, string> = { 1: '/DeviceGray', 3: '/DeviceRGB', 4: '/DeviceCMYK' };
+
+function parseJpeg(bytes: Uint8Array): PdfImage | null {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null;
+    }
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += 2;
+      continue;
+    }
+    // Start of frame, in any coding except the DHT/JPG/DAC markers sharing the range
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const components = bytes[offset + 9];
+      const colorSpace = JPEG_COLOR_SPACES[components];
+      if (!colorSpace) {
+        return null;
+      }
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+        filter: 'DCTDecode',
+        colorSpace,
+        bitsPerComponent: 8,
+        data: bytes,
+      };
+    }
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+  return null;
+}
+
+// PDF applies PNG row filters itself (predictor 15), so the zlib data passes through
+function parsePng(bytes: Uint8Array): PdfImage | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = -1;
+  let palette: Uint8Array | null = null;
+  const chunks: Uint8Array[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...Array.from(bytes.subarray(offset + 4, offset + 8)));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      bitDepth = data[8];
+      colorType = data[9];
+      // Interlaced rows can't be handed to the PDF predictor
+      if (data[12] !== 0) {
+        return null;
+      }
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'IDAT') {
+      chunks.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  // Alpha channels would need decompressing to split into a soft mask
+  let colorSpace: string;
+  if (colorType === 0) {
+    colorSpace = '/DeviceGray';
+  } else if (colorType === 2) {
+    colorSpace = '/DeviceRGB';
+  } else if (colorType === 3 && palette) {
+    const hex = Array.from(palette, byte => byte.toString(16).padStart(2, '0')).join('');
+    colorSpace = `[/Indexed /DeviceRGB ${palette.length / 3 - 1} <${hex}>]`;
+  } else {
+    return null;
+  }
+  if (!width || !height || chunks.length === 0) {
+    return null;
+  }
+
+  const data = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, position);
+    position += chunk.length;
+  }
+  const colors = colorType === 2 ? 3 : 1;
+  return {
+    width,
+    height,
+    filter: 'FlateDecode',
+    colorSpace,
+    bitsPerComponent: bitDepth,
+    decodeParms: `<< /Predictor 15 /Colors ${colors} /BitsPerComponent ${bitDepth} /Columns ${width} >>`,
+    data,
+  };
+}
+
+/**
+ * Read a JPEG, or a PNG without transparency, for embedding. Returns null for
+ * formats the writer can't embed.
+ */
+export function parseImage(bytes: Uint8Array): PdfImage | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return parseJpeg(bytes);
+  }
+  const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  if (PNG_SIGNATURE.every((byte, idx) => bytes[idx] === byte)) {
+    return parsePng(bytes);
+  }
+  return null;
+}
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  public length = 0;
+
+  text(value: string): void {
+    const bytes = new Uint8Array(value.length);
+    for (let i = 0; i < value.length; i++) {
+      bytes[i] = value.charCodeAt(i) & 0xff;
+    }
+    this.bytes(bytes);
+  }
+
+  bytes(value: Uint8Array): void {
+    this.chunks.push(value);
+    this.length += value.length;
+  }
+
+  toBytes(): Uint8Array {
+    const output = new Uint8Array(this.length);
+    let position = 0;
+    for (const chunk of this.chunks) {
+      output.set(chunk, position);
+      position += chunk.length;
+    }
+    return output;
+  }
+}
+
+/**
+ * Flowing document layout: each call draws below the previous one and starts
+ * a new page when the bottom margin is reached. Positions are kept from the
+ * top of the page and flipped to PDF coordinates when written.
+ */
+export class PdfWriter {
+  private readonly pages: PdfOp[][] = [];
+  private readonly images: PdfImage[] = [];
+  private readonly lineHeight: number;
+  private readonly sectionSpacing: number;
+  private y = 0; // from the top of the current page to the next line
+
+  constructor(private readonly setup: PdfPageSetup) {
+    this.lineHeight = setup.lineHeight ?? 1.3;
+    this.sectionSpacing = setup.sectionSpacing ?? setup.fontSize.body;
+    this.addPage();
+  }
+
+  get contentWidth(): number {
+    return this.setup.width - this.setup.margin.left - this.setup.margin.right;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * A paragraph, wrapped to the content width
+   */
+  text(value: string, style: PdfTextStyle = {}): void {
+    this.drawLines([{ ...style, text: value }], this.setup.margin.left, this.contentWidth, true);
+  }
+
+  /**
+   * A label on the left with its value on the right, e.g. a totals line.
+   * `width` narrows the pair to the right-hand side of the page.
+   */
+  pair(label: string, value: string, style: Omit<PdfTextStyle, 'align'> & { width?: number } = {}): void {
+    const size = style.size ?? this.setup.fontSize.body;
+    const bold = !!style.bold;
+    const color = style.color ?? '#000000';
+    const width = Math.min(style.width ?? this.contentWidth, this.contentWidth);
+    const left = this.setup.margin.left + this.contentWidth - width;
+    const valueText = toWinAnsi(value);
+    const valueWidth = measure(valueText, size, bold);
+    const labelLines = wrap(toWinAnsi(label), size, bold, Math.max(width - valueWidth - size, size));
+
+    labelLines.forEach((line, idx) => {
+      const baseline = this.advance(size, true);
+      this.push({ kind: 'text', x: left, baseline, text: line, size, bold, color });
+      if (idx === 0) {
+        this.push({ kind: 'text', x: left + width - valueWidth, baseline, text: valueText, size, bold, color });
+      }
+    });
+  }
+
+  /**
+   * Two blocks of lines side by side, e.g. the business address beside the
+   * document number. The right block is right-aligned unless a line says
+   * otherwise.
+   */
+  sideBySide(left: PdfTextLine[], right: PdfTextLine[], leftShare: number = 0.6): void {
+    const leftWidth = this.contentWidth * leftShare;
+    const rightWidth = this.contentWidth - leftWidth;
+    this.ensureSpace(Math.max(this.measureLines(left, leftWidth), this.measureLines(right, rightWidth)));
+
+    const top = this.y;
+    this.drawLines(left, this.setup.margin.left, leftWidth, false);
+    const leftBottom = this.y;
+    this.y = top;
+    this.drawLines(
+      right.map(line => ({ align: 'right' as PdfAlign, ...line })),
+      this.setup.margin.left + leftWidth,
+      rightWidth,
+      false
+    );
+    this.y = Math.max(this.y, leftBottom);
+  }
+
+  /**
+   * A table across the content width. Cells wrap; the header row repeats on
+   * each page the table runs onto.
+   */
+  table(
+    columns: PdfTableColumn[],
+    rows: PdfTableCell[][],
+    options: { headerColor?: string; headerTextColor?: string; size?: number } = {}
+  ): void {
+    const size = options.size ?? this.setup.fontSize.body;
+    const totalWeight = columns.reduce((sum, column) => sum + column.width, 0);
+    const widths = columns.map(column => (column.width / totalWeight) * this.contentWidth);
+    const lineHeight = size * this.lineHeight;
+
+    const layoutRow = (cells: PdfTableCell[], header: boolean) => {
+      const laidOut = columns.map((column, idx) => {
+        const cell = cells[idx] ?? '';
+        const style = typeof cell === 'string' ? { text: cell } : cell;
+        const bold = header || !!style.bold;
+        const cellSize = header ? size : style.size ?? size;
+        return {
+          lines: wrap(toWinAnsi(style.text), cellSize, bold, widths[idx] - CELL_PADDING * 2),
+          size: cellSize,
+          bold,
+          color: header ? options.headerTextColor ?? '#000000' : style.color ?? '#000000',
+        };
+      });
+      const height = Math.max(...laidOut.map(cell => cell.lines.length)) * lineHeight + CELL_PADDING * 2;
+      return { cells: laidOut, height };
+    };
+
+    const drawRow = (row: ReturnType<typeof layoutRow>, fill?: string) => {
+      const top = this.y;
+      if (fill) {
+        this.push({ kind: 'box', x: this.setup.margin.left, y: top, width: this.contentWidth, height: row.height, color: fill });
+      }
+      let x = this.setup.margin.left;
+      row.cells.forEach((cell, idx) => {
+        cell.lines.forEach((line, lineIdx) => {
+          const lineTop = top + CELL_PADDING + lineIdx * lineHeight;
+          const baseline = lineTop + (lineHeight - cell.size * (ASCENT + DESCENT)) / 2 + cell.size * ASCENT;
+          const lineWidth = measure(line, cell.size, cell.bold);
+          const inner = widths[idx] - CELL_PADDING * 2;
+          const offset = columns[idx].align === 'right' ? inner - lineWidth
+            : columns[idx].align === 'center' ? (inner - lineWidth) / 2
+            : 0;
+          this.push({
+            kind: 'text',
+            x: x + CELL_PADDING + offset,
+            baseline,
+            text: line,
+            size: cell.size,
+            bold: cell.bold,
+            color: cell.color,
+          });
+        });
+        x += widths[idx];
+      });
+      this.y = top + row.height;
+      if (!fill) {
+        this.push({
+          kind: 'line',
+          x1: this.setup.margin.left,
+          y1: this.y,
+          x2: this.setup.margin.left + this.contentWidth,
+          y2: this.y,
+          color: '#dddddd',
+          thickness: 0.5,
+        });
+      }
+    };
+
+    const header = layoutRow(columns.map(column => column.header), true);
+    const headerFill = options.headerColor ?? '#eeeeee';
+    const laidOutRows = rows.map(row => layoutRow(row, false));
+
+    this.ensureSpace(header.height + (laidOutRows[0]?.height ?? 0));
+    drawRow(header, headerFill);
+    for (const row of laidOutRows) {
+      if (this.ensureSpace(row.height)) {
+        drawRow(header, headerFill);
+      }
+      drawRow(row);
+    }
+  }
+
+  /**
+   * An image scaled to `height` points, keeping its aspect ratio
+   */
+  image(image: PdfImage, options: { height: number; align?: PdfAlign }): void {
+    let height = options.height;
+    let width = (height * image.width) / image.height;
+    if (width > this.contentWidth) {
+      width = this.contentWidth;
+      height = (width * image.height) / image.width;
+    }
+    this.ensureSpace(height);
+
+    let index = this.images.indexOf(image);
+    if (index < 0) {
+      index = this.images.push(image) - 1;
+    }
+    const offset = options.align === 'right' ? this.contentWidth - width
+      : options.align === 'center' ? (this.contentWidth - width) / 2
+      : 0;
+    this.push({ kind: 'image', index, x: this.setup.margin.left + offset, y: this.y, width, height });
+    this.y += height;
+  }
+
+  /**
+   * A horizontal line across the content width
+   */
+  rule(options: { color?: string; thickness?: number } = {}): void {
+    const gap = this.setup.fontSize.body * 0.5;
+    this.ensureSpace(gap * 2);
+    this.y += gap;
+    this.push({
+      kind: 'line',
+      x1: this.setup.margin.left,
+      y1: this.y,
+      x2: this.setup.margin.left + this.contentWidth,
+      y2: this.y,
+      color: options.color ?? '#000000',
+      thickness: options.thickness ?? 1,
+    });
+    this.y += gap;
+  }
+
+  /**
+   * Vertical space, one section gap by default
+   */
+  space(points: number = this.sectionSpacing): void {
+    this.y += points;
+  }
+
+  toBytes(): Uint8Array {
+    const { margin, fontSize } = this.setup;
+    const pageHeight = this.setup.height ?? Math.ceil(this.y + margin.bottom);
+
+    // Number the pages of documents that ran past one
+    if (this.setup.height !== undefined && this.pages.length > 1) {
+      this.pages.forEach((page, idx) => {
+        const text = `Page ${idx + 1} of ${this.pages.length}`;
+        page.push({
+          kind: 'text',
+          x: margin.left + (this.contentWidth - measure(text, fontSize.footer, false)) / 2,
+          baseline: pageHeight - margin.bottom / 2,
+          text,
+          size: fontSize.footer,
+          bold: false,
+          color: '#666666',
+        });
+      });
+    }
+
+    const out = new ByteWriter();
+    const offsets: number[] = [];
+    const startObject = (id: number) => {
+      offsets[id] = out.length;
+      out.text(`${id} 0 obj\n`);
+    };
+    const writeObject = (id: number, body: string) => {
+      startObject(id);
+      out.text(`${body}\nendobj\n`);
+    };
+    const writeStream = (id: number, dictionary: string, data: Uint8Array) => {
+      startObject(id);
+      out.text(`<< ${dictionary} /Length ${data.length} >>\nstream\n`);
+      out.bytes(data);
+      out.text('\nendstream\nendobj\n');
+    };
+
+    // 1 catalog, 2 page tree, 3–4 fonts, 5 info, then images, then a page and its content per page
+    const firstImageId = 6;
+    const firstPageId = firstImageId + this.images.length;
+    const pageIds = this.pages.map((_, idx) => firstPageId + idx * 2);
+    const xObjects = this.images.map((_, idx) => `/Im${idx} ${firstImageId + idx} 0 R`).join(' ');
+    const resources = `<< /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >>`;
+
+    out.text('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    writeObject(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    writeObject(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    writeObject(5, this.setup.title ? `<< /Title ${escapeString(toWinAnsi(this.setup.title))} >>` : '<< >>');
+    this.images.forEach((image, idx) => {
+      writeStream(
+        firstImageId + idx,
+        `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+          `/ColorSpace ${image.colorSpace} /BitsPerComponent ${image.bitsPerComponent} /Filter /${image.filter}` +
+          (image.decodeParms ? ` /DecodeParms ${image.decodeParms}` : ''),
+        image.data
+      );
+    });
+    this.pages.forEach((page, idx) => {
+      writeObject(
+        pageIds[idx],
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(this.setup.width)} ${formatNumber(pageHeight)}] ` +
+          `/Resources ${resources} /Contents ${pageIds[idx] + 1} 0 R >>`
+      );
+      const content = new ByteWriter();
+      content.text(page.map(op => this.renderOp(op, pageHeight)).join('\n'));
+      writeStream(pageIds[idx] + 1, '', content.toBytes());
+    });
+
+    const xrefOffset = out.length;
+    const objectCount = firstPageId + this.pages.length * 2;
+    out.text(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+      out.text(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    out.text(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    return out.toBytes();
+  }
+
+  private renderOp(op: PdfOp, pageHeight: number): string {
+    const n = formatNumber;
+    switch (op.kind) {
+      case 'text':
+        return `BT /${op.bold ? 'F2' : 'F1'} ${n(op.size)} Tf ${formatColor(op.color)} rg ` +
+          `${n(op.x)} ${n(pageHeight - op.baseline)} Td ${escapeString(op.text)} Tj ET`;
+      case 'line':
+        return `${formatColor(op.color)} RG ${n(op.thickness)} w ` +
+          `${n(op.x1)} ${n(pageHeight - op.y1)} m ${n(op.x2)} ${n(pageHeight - op.y2)} l S`;
+      case 'box':
+        return `${formatColor(op.color)} rg ${n(op.x)} ${n(pageHeight - op.y - op.height)} ${n(op.width)} ${n(op.height)} re f`;
+      case 'image':
+        return `q ${n(op.width)} 0 0 ${n(op.height)} ${n(op.x)} ${n(pageHeight - op.y - op.height)} cm /Im${op.index} Do Q`;
+    }
+  }
+
+  private addPage(): void {
+    this.pages.push([]);
+    this.y = this.setup.margin.top;
+  }
+
+  private push(op: PdfOp): void {
+    this.pages[this.pages.length - 1].push(op);
+  }
+
+  // Start a new page if `height` doesn't fit above the bottom margin; true if it did
+  private ensureSpace(height: number): boolean {
+    const { height: pageHeight, margin } = this.setup;
+    if (pageHeight === undefined || this.y + height <= pageHeight - margin.bottom || this.y <= margin.top) {
+      return false;
+    }
+    this.addPage();
+    return true;
+  }
+
+  // Move past one line of text, breaking the page if needed; returns its baseline
+  private advance(size: number, breakPages: boolean): number {
+    const lineHeight = size * this.lineHeight;
+    if (breakPages) {
+      this.ensureSpace(lineHeight);
+    }
+    const baseline = this.y + (lineHeight - size * (ASCENT + DESCENT)) / 2 + size * ASCENT;
+    this.y += lineHeight;
+    return baseline;
+  }
+
+  private measureLines(lines: PdfTextLine[], width: number): number {
+    return lines.reduce((sum, line) => {
+      const size = line.size ?? this.setup.fontSize.body;
+      return sum + wrap(toWinAnsi(line.text), size, !!line.bold, width).length * size * this.lineHeight;
+    }, 0);
+  }
+
+  private drawLines(lines: PdfTextLine[], x: number, width: number, breakPages: boolean): void {
+    for (const line of lines) {
+      const size = line.size ?? this.setup.fontSize.body;
+      const bold = !!line.bold;
+      for (const wrapped of wrap(toWinAnsi(line.text), size, bold, width)) {
+        const lineWidth = measure(wrapped, size, bold);
+        const offset = line.align === 'right' ? width - lineWidth
+          : line.align === 'center' ? (width - lineWidth) / 2
+          : 0;
+        const baseline = this.advance(size, breakPages);
+        this.push({ kind: 'text', x: x + offset, baseline, text: wrapped, size, bold, color: line.color ?? '#000000' });
+      }
+    }
+  }
+}
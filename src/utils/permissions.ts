@@ -0,0 +1,88 @@
+import { BuiltInRole, Role, ROLE_PERMISSIONS, User, UserPermissions } from '../types';
+
+// Every permission off; the base for users whose role no longer exists
+export const NO_PERMISSIONS: UserPermissions = Object.keys(ROLE_PERMISSIONS.admin).reduce(
+  (permissions, key) => ({ ...permissions, [key]: false }),
+  {} as UserPermissions
+);
+
+/**
+ * A user's effective permissions: their role's permissions, with the user's
+ * own overrides applied on top. Falls back to the built-in defaults when the
+ * role has not been loaded from the database.
+ */
+export function resolvePermissions(user: User, role?: Role | null): UserPermissions {
+  const base = role?.permissions ?? ROLE_PERMISSIONS[user.role as BuiltInRole] ?? NO_PERMISSIONS;
+  return { ...NO_PERMISSIONS, ...base, ...user.permissionOverrides };
+}
+
+// Holders of these permissions must sign in with a second factor
+export const TWO_FACTOR_PERMISSIONS: (keyof UserPermissions)[] = ['canManageUsers', 'canBackupData'];
+
+export const requiresTwoFactor = (permissions: UserPermissions): boolean =>
+  TWO_FACTOR_PERMISSIONS.some(permission => permissions[permission]);
+
+// Labels for the permission matrix, grouped as in UserPermissions
+export const PERMISSION_GROUPS: { title: string; permissions: { key: keyof UserPermissions; label: string }[] }[] = [
+  {
+    title: 'POS Operations',
+    permissions: [
+      { key: 'canProcessSales', label: 'Process sales' },
+      { key: 'canRefundSales', label: 'Refund sales' },
+      { key: 'canDiscountItems', label: 'Discount items' },
+      { key: 'canVoidTransactions', label: 'Void transactions' },
+    ],
+  },
+  {
+    title: 'Inventory',
+    permissions: [
+      { key: 'canManageProducts', label: 'Manage products' },
+      { key: 'canViewInventory', label: 'View inventory' },
+      { key: 'canAdjustStock', label: 'Adjust stock' },
+      { key: 'canManageSuppliers', label: 'Manage suppliers' },
+    ],
+  },
+  {
+    title: 'Reporting',
+    permissions: [
+      { key: 'canViewReports', label: 'View reports' },
+      { key: 'canExportData', label: 'Export data' },
+      { key: 'canViewSalesAnalytics', label: 'View sales analytics' },
+    ],
+  },
+  {
+    title: 'Administration',
+    permissions: [
+      { key: 'canManageUsers', label: 'Manage users and roles' },
+      { key: 'canManageSettings', label: 'Manage settings' },
+      { key: 'canAccessAuditLogs', label: 'Access audit logs' },
+      { key: 'canBackupData', label: 'Back up data' },
+    ],
+  },
+];
+
+// Tab routes in tab bar order
+export const TAB_ROUTES = ['pos', 'inventory', 'dashboard', 'profile'] as const;
+export type TabRoute = (typeof TAB_ROUTES)[number];
+
+// Permission needed to open a route, keyed by route segment; others only need a sign-in
+export const ROUTE_PERMISSIONS: Partial<Record<string, keyof UserPermissions>> = {
+  pos: 'canProcessSales',
+  inventory: 'canViewInventory',
+  dashboard: 'canViewReports',
+  'sales-history': 'canViewReports',
+  'audit-log': 'canAccessAuditLogs',
+  users: 'canManageUsers',
+};
+
+export function canAccessRoute(route: string, permissions: UserPermissions | null): boolean {
+  const permission = ROUTE_PERMISSIONS[route];
+  return !permission || !!permissions?.[permission];
+}
+
+/**
+ * The first tab the user may open; profile is always allowed
+ */
+export function getHomeRoute(permissions: UserPermissions | null): TabRoute {
+  return TAB_ROUTES.find(route => canAccessRoute(route, permissions)) ?? 'profile';
+}
@@ -0,0 +1,19 @@
+// Undoes one write of a multi-step operation; must be safe to run when the
+// write never happened or only partly happened
+export type UndoStep = () => Promise<void>;
+
+/**
+ * Put back the writes of a checkout or return that failed partway. The ledger,
+ * documents and stock live in different stores with no shared transaction, so
+ * each step registers its undo and they run newest first. Every step is tried
+ * even if an earlier one fails; failures are logged for follow-up.
+ */
+export async function rollBack(steps: UndoStep[]): Promise<void> {
+  for (const step of [...steps].reverse()) {
+    try {
+      await step();
+    } catch (error) {
+      console.error('Failed to roll back step:', error);
+    }
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Time-based one-time passwords (RFC 6238 over RFC 4226 HOTP) with
+ * HMAC-SHA1, 6 digits and a 30 second step: the defaults every authenticator
+ * app supports. Plain TypeScript for the same reasons as ./password.
+ */
+
+import { constantTimeEqual, randomBytes, sha256, toHex, utf8Encode } from './password';
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+// Accept the previous and next step too, for clock drift between phone and register
+const TOTP_WINDOW = 1;
+const SECRET_BYTES = 20;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+// Lenient about case, spaces and padding, as secrets are often typed in by hand
+export function base32Decode(value: string): Uint8Array {
+  const clean = value.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) {
+      throw new Error('Invalid base32 character');
+    }
+    buffer = ((buffer << 5) | index) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+export function sha1(message: Uint8Array): Uint8Array {
+  const length = message.length;
+  const blockCount = Math.ceil((length + 9) / 64);
+  const padded = new Uint8Array(blockCount * 64);
+  padded.set(message);
+  padded[length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(length / 0x20000000));
+  view.setUint32(padded.length - 4, (length * 8) >>> 0);
+
+  const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+  const w = new Int32Array(80);
+  for (let block = 0; block < blockCount; block++) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getInt32(block * 64 + i * 4);
+    }
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16];
+      w[i] = (x << 1) | (x >>> 31);
+    }
+
+    let [a, b, c, d, e] = h;
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = (b << 30) | (b >>> 2);
+      b = a;
+      a = temp;
+    }
+    h[0] = (h[0] + a) | 0;
+    h[1] = (h[1] + b) | 0;
+    h[2] = (h[2] + c) | 0;
+    h[3] = (h[3] + d) | 0;
+    h[4] = (h[4] + e) | 0;
+  }
+
+  const digest = new Uint8Array(20);
+  const out = new DataView(digest.buffer);
+  h.forEach((word, i) => out.setInt32(i * 4, word));
+  return digest;
+}
+
+export function hmacSha1(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const block = new Uint8Array(64);
+  block.set(key.length > 64 ? sha1(key) : key);
+  const inner = new Uint8Array(64 + message.length);
+  const outer = new Uint8Array(64 + 20);
+  for (let i = 0; i < 64; i++) {
+    inner[i] = block[i] ^ 0x36;
+    outer[i] = block[i] ^ 0x5c;
+  }
+  inner.set(message, 64);
+  outer.set(sha1(inner), 64);
+  return sha1(outer);
+}
+
+// HOTP value for one counter (RFC 4226 dynamic truncation)
+export function hotp(secret: Uint8Array, counter: number): string {
+  const message = new Uint8Array(8);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, Math.floor(counter / 0x100000000));
+  view.setUint32(4, counter >>> 0);
+
+  const digest = hmacSha1(secret, message);
+  const offset = digest[19] & 0x0f;
+  const binary =
+    ((digest[offset] & 0x7f) << 24) |
+    (digest[offset + 1] << 16) |
+    (digest[offset + 2] << 8) |
+    digest[offset + 3];
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+export const totpStep = (time: Date = new Date()): number =>
+  Math.floor(time.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+
+export function generateTotp(secret: string, time: Date = new Date()): string {
+  return hotp(base32Decode(secret), totpStep(time));
+}
+
+/**
+ * The time step `code` is valid for, or null. Steps at or before
+ * `lastUsedStep` are refused so a code can't be replayed.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep: number = -1,
+  time: Date = new Date()
+): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const current = totpStep(time);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (step > lastUsedStep && constantTimeEqual(hotp(key, step), normalized)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(SECRET_BYTES));
+}
+
+/**
+ * The otpauth:// URI authenticator apps read from the enrollment QR code
+ */
+export function buildTotpUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = [
+    `secret=${secret}`,
+    `issuer=${encodeURIComponent(issuer)}`,
+    'algorithm=SHA1',
+    `digits=${TOTP_DIGITS}`,
+    `period=${TOTP_PERIOD_SECONDS}`,
+  ];
+  return `otpauth://totp/${label}?${params.join('&')}`;
+}
+
+// Recovery codes like "7kq2m-x9fpd"; no 0/o or 1/l
+const RECOVERY_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+export function generateRecoveryCodes(count: number = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const chars = Array.from(randomBytes(10), byte => RECOVERY_ALPHABET[byte % RECOVERY_ALPHABET.length]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+// Recovery codes are random enough that a plain SHA-256 is a safe way to store them
+export function hashRecoveryCode(code: string): string {
+  return toHex(sha256(utf8Encode(code.replace(/[\s-]/g, '').toLowerCase())));
+}